@@ -0,0 +1,320 @@
+/**
+ * Local basemap tiles for vessels without internet access.
+ *
+ * Two sources are supported:
+ *   - MBTiles (SQLite, TMS row order) read via the built-in node:sqlite module in a worker thread,
+ *     so that queries do not block the main process;
+ *   - a {z}/{x}/{y}.<ext> directory tree on disk.
+ *
+ * The renderer requests tiles of a registered source through the `planner-tiles://` protocol:
+ *   planner-tiles://tiles/{z}/{x}/{y}?source=<source id>
+ * Only sources the main process has registered (see main.cjs) are served; paths never come from the URL.
+ */
+
+const crypto = require('crypto');
+const path = require('path');
+const fs = require('fs/promises');
+const workerThreads = (() => {
+  try {
+    return require('worker_threads');
+  } catch {
+    return null;
+  }
+})();
+
+const Worker = workerThreads?.Worker ?? null;
+const isMainThread = workerThreads?.isMainThread ?? true;
+const parentPort = workerThreads?.parentPort ?? null;
+const workerData = workerThreads?.workerData;
+const WORKER_MODE = '__plannerMbtilesWorker';
+
+const LOCAL_TILES_SCHEME = 'planner-tiles';
+const DIRECTORY_TILE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp'];
+const MAX_OPEN_DATABASES = 4;
+
+let sqliteCached = undefined;
+
+const getSqlite = () => {
+  if (sqliteCached !== undefined) return sqliteCached;
+  try {
+    sqliteCached = require('node:sqlite');
+  } catch {
+    sqliteCached = null;
+  }
+  return sqliteCached;
+};
+
+// ---- MBTiles reads (worker thread, or the main thread when workers are unavailable) ----
+
+const openDatabases = new Map();
+
+const openMbtiles = (filePath) => {
+  const existing = openDatabases.get(filePath);
+  if (existing) return existing;
+
+  const sqlite = getSqlite();
+  if (!sqlite?.DatabaseSync) {
+    throw new Error('node:sqlite is not available in this Electron build');
+  }
+
+  if (openDatabases.size >= MAX_OPEN_DATABASES) {
+    const [oldestPath, oldest] = openDatabases.entries().next().value;
+    openDatabases.delete(oldestPath);
+    try {
+      oldest.db.close();
+    } catch {
+      // ignore
+    }
+  }
+
+  const db = new sqlite.DatabaseSync(filePath, { readOnly: true });
+  const entry = {
+    db,
+    tileStatement: db.prepare(
+      'SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ? LIMIT 1',
+    ),
+  };
+  openDatabases.set(filePath, entry);
+  return entry;
+};
+
+const closeOpenDatabases = () => {
+  for (const entry of openDatabases.values()) {
+    try {
+      entry.db.close();
+    } catch {
+      // ignore
+    }
+  }
+  openDatabases.clear();
+};
+
+const readMbtilesTileSync = (filePath, z, x, y) => {
+  const { tileStatement } = openMbtiles(filePath);
+  // MBTiles stores rows in TMS order (origin at the bottom-left).
+  const row = 2 ** z - 1 - y;
+  const result = tileStatement.get(z, x, row);
+  if (!result?.tile_data) return null;
+  return Buffer.from(result.tile_data);
+};
+
+const parseZoom = (value) => {
+  if (value === undefined || value === null || value === '') return null;
+  const numeric = Number(value);
+  return Number.isInteger(numeric) && numeric >= 0 ? numeric : null;
+};
+
+const readMbtilesMetadataSync = (filePath) => {
+  const { db } = openMbtiles(filePath);
+  const rows = db.prepare('SELECT name, value FROM metadata').all();
+  const metadata = {};
+  for (const row of rows) {
+    if (typeof row?.name === 'string') metadata[row.name] = String(row.value ?? '');
+  }
+  const zoomRange = db.prepare('SELECT MIN(zoom_level) AS min_zoom, MAX(zoom_level) AS max_zoom FROM tiles').get();
+  return {
+    name: metadata.name || path.basename(filePath, path.extname(filePath)),
+    attribution: metadata.attribution || '',
+    format: metadata.format || null,
+    min_zoom: parseZoom(metadata.minzoom) ?? parseZoom(zoomRange?.min_zoom),
+    max_zoom: parseZoom(metadata.maxzoom) ?? parseZoom(zoomRange?.max_zoom),
+  };
+};
+
+const runMbtilesQuery = (query) =>
+  query.type === 'metadata'
+    ? readMbtilesMetadataSync(query.filePath)
+    : readMbtilesTileSync(query.filePath, query.z, query.x, query.y);
+
+// ---- worker client (main process) ----
+
+let mbtilesWorker = null;
+let nextQueryId = 1;
+const pendingQueries = new Map();
+
+const rejectPendingQueries = (error) => {
+  for (const { reject } of pendingQueries.values()) reject(error);
+  pendingQueries.clear();
+};
+
+const getMbtilesWorker = () => {
+  if (mbtilesWorker || !Worker) return mbtilesWorker;
+  try {
+    mbtilesWorker = new Worker(__filename, { workerData: { [WORKER_MODE]: true } });
+  } catch {
+    return null;
+  }
+  const worker = mbtilesWorker;
+  worker.on('message', (payload) => {
+    const pending = pendingQueries.get(payload?.id);
+    if (!pending) return;
+    pendingQueries.delete(payload.id);
+    if (payload.ok) {
+      pending.resolve(payload.result instanceof Uint8Array ? Buffer.from(payload.result) : payload.result);
+    } else {
+      pending.reject(new Error(payload.error || 'MBTiles query failed'));
+    }
+  });
+  worker.on('error', (error) => rejectPendingQueries(error));
+  worker.on('exit', () => {
+    if (mbtilesWorker === worker) mbtilesWorker = null;
+    rejectPendingQueries(new Error('MBTiles worker exited'));
+  });
+  return worker;
+};
+
+const queryMbtiles = (query) => {
+  const worker = getMbtilesWorker();
+  if (!worker) return Promise.resolve().then(() => runMbtilesQuery(query));
+  return new Promise((resolve, reject) => {
+    const id = nextQueryId;
+    nextQueryId += 1;
+    pendingQueries.set(id, { resolve, reject });
+    worker.postMessage({ ...query, id });
+  });
+};
+
+const closeAllMbtiles = () => {
+  closeOpenDatabases();
+  if (!mbtilesWorker) return;
+  const worker = mbtilesWorker;
+  mbtilesWorker = null;
+  worker.terminate().catch(() => {});
+};
+
+const sniffContentType = (buffer) => {
+  if (buffer.length >= 4 && buffer[0] === 0x89 && buffer[1] === 0x50 && buffer[2] === 0x4e && buffer[3] === 0x47) {
+    return 'image/png';
+  }
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (
+    buffer.length >= 12 &&
+    buffer.toString('ascii', 0, 4) === 'RIFF' &&
+    buffer.toString('ascii', 8, 12) === 'WEBP'
+  ) {
+    return 'image/webp';
+  }
+  return 'application/octet-stream';
+};
+
+const readDirectoryTile = async (rootPath, z, x, y, format) => {
+  const extensions = format ? [format] : DIRECTORY_TILE_EXTENSIONS;
+  for (const extension of extensions) {
+    try {
+      return await fs.readFile(path.join(rootPath, String(z), String(x), `${y}.${extension}`));
+    } catch {
+      // try the next extension
+    }
+  }
+  return null;
+};
+
+/** Stable id of a source; registering the same package again yields the same id. */
+const localTileSourceId = (kind, sourcePath) =>
+  crypto.createHash('sha256').update(`${kind}\n${sourcePath}`).digest('hex').slice(0, 16);
+
+const parseTileRequest = (url) => {
+  const parsed = new URL(url);
+  const match = /^\/(\d+)\/(\d+)\/(\d+)/.exec(parsed.pathname);
+  if (!match) return null;
+  const sourceId = parsed.searchParams.get('source');
+  if (!sourceId) return null;
+  return {
+    sourceId,
+    z: Number(match[1]),
+    x: Number(match[2]),
+    y: Number(match[3]),
+  };
+};
+
+/**
+ * Protocol handler serving tiles of registered sources. `resolveSource(id)` returns the registered
+ * `{ kind, path, format }` of a source, or null for ids that were never registered.
+ */
+const createLocalTileRequestHandler = (resolveSource) => async (request) => {
+  const tile = parseTileRequest(request.url);
+  if (!tile) return new Response(null, { status: 400 });
+  try {
+    const source = await resolveSource(tile.sourceId);
+    if (!source) return new Response(null, { status: 404 });
+    const format = source.format && DIRECTORY_TILE_EXTENSIONS.includes(source.format) ? source.format : null;
+    const buffer =
+      source.kind === 'mbtiles'
+        ? await queryMbtiles({ type: 'tile', filePath: source.path, z: tile.z, x: tile.x, y: tile.y })
+        : await readDirectoryTile(source.path, tile.z, tile.x, tile.y, format);
+    if (!buffer || buffer.length === 0) return new Response(null, { status: 404 });
+    return new Response(buffer, {
+      status: 200,
+      headers: { 'Content-Type': sniffContentType(buffer), 'Cache-Control': 'no-store' },
+    });
+  } catch {
+    return new Response(null, { status: 500 });
+  }
+};
+
+const readDirectoryMetadata = async (rootPath) => {
+  const entries = await fs.readdir(rootPath, { withFileTypes: true });
+  const zoomLevels = entries
+    .filter((entry) => entry.isDirectory() && /^\d+$/.test(entry.name))
+    .map((entry) => Number(entry.name))
+    .sort((a, b) => a - b);
+
+  let format = null;
+  if (zoomLevels.length > 0) {
+    const zoomPath = path.join(rootPath, String(zoomLevels[0]));
+    const columns = await fs.readdir(zoomPath, { withFileTypes: true });
+    const firstColumn = columns.find((entry) => entry.isDirectory());
+    if (firstColumn) {
+      const files = await fs.readdir(path.join(zoomPath, firstColumn.name));
+      const extension = files.map((file) => path.extname(file).slice(1).toLowerCase()).find(Boolean);
+      format = extension && DIRECTORY_TILE_EXTENSIONS.includes(extension) ? extension : null;
+    }
+  }
+
+  let attribution = '';
+  try {
+    const tileJson = JSON.parse(await fs.readFile(path.join(rootPath, 'metadata.json'), 'utf8'));
+    if (typeof tileJson?.attribution === 'string') attribution = tileJson.attribution;
+  } catch {
+    // metadata.json is optional
+  }
+
+  return {
+    name: path.basename(rootPath),
+    attribution,
+    format,
+    min_zoom: zoomLevels[0] ?? null,
+    max_zoom: zoomLevels[zoomLevels.length - 1] ?? null,
+  };
+};
+
+const readLocalTileSourceMetadata = async (kind, sourcePath) => {
+  if (typeof sourcePath !== 'string' || !sourcePath.trim()) return null;
+  try {
+    if (kind === 'mbtiles') return await queryMbtiles({ type: 'metadata', filePath: sourcePath.trim() });
+    if (kind === 'directory') return await readDirectoryMetadata(sourcePath.trim());
+  } catch {
+    return null;
+  }
+  return null;
+};
+
+if (!isMainThread && parentPort && workerData?.[WORKER_MODE]) {
+  parentPort.on('message', (query) => {
+    try {
+      parentPort.postMessage({ id: query?.id, ok: true, result: runMbtilesQuery(query) });
+    } catch (error) {
+      parentPort.postMessage({ id: query?.id, ok: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+}
+
+module.exports = {
+  LOCAL_TILES_SCHEME,
+  createLocalTileRequestHandler,
+  localTileSourceId,
+  readLocalTileSourceMetadata,
+  closeAllMbtiles,
+};
@@ -1,9 +1,16 @@
-const { app, BrowserWindow, Menu, dialog, ipcMain, shell, nativeImage, session } = require('electron');
+const { app, BrowserWindow, Menu, dialog, ipcMain, shell, nativeImage, session, protocol } = require('electron');
 const path = require('path');
 const fs = require('fs/promises');
 const dgram = require('dgram');
 const os = require('os');
 const { decodeTiffToPngAsync } = require('./tiff-decoder.cjs');
+const {
+  LOCAL_TILES_SCHEME,
+  createLocalTileRequestHandler,
+  localTileSourceId,
+  readLocalTileSourceMetadata,
+  closeAllMbtiles,
+} = require('./local-tiles.cjs');
 
 const APP_USER_AGENT = `PlannerPathStudio/${app.getVersion()} (+https://github.com/Trionix-LAB; contact: info@trionixlab.com)`;
 
@@ -94,6 +101,15 @@ const CHANNELS = {
     convertTiffBase64ToPngBase64: 'planner:raster:convertTiffBase64ToPngBase64',
     readSiblingTfwTextByTifPath: 'planner:raster:readSiblingTfwTextByTifPath',
   },
+  localTiles: {
+    pickSource: 'planner:localTiles:pickSource',
+    readMetadata: 'planner:localTiles:readMetadata',
+    registerSource: 'planner:localTiles:registerSource',
+  },
+  report: {
+    captureView: 'planner:report:captureView',
+    printToPdf: 'planner:report:printToPdf',
+  },
   lifecycle: {
     prepareClose: 'planner:lifecycle:prepareClose',
     prepareCloseResult: 'planner:lifecycle:prepareCloseResult',
@@ -396,6 +412,59 @@ const writeSettingsFile = async (settingsPath, data) => {
   await writeTextAtomic(settingsPath, JSON.stringify(data, null, 2));
 };
 
+const LOCAL_TILE_SOURCES_SETTINGS_KEY = 'planner.localTileSources.v1';
+const LOCAL_TILE_FORMATS = ['png', 'jpg', 'jpeg', 'webp'];
+
+const normalizeLocalTileSourceEntry = (value) => {
+  if (!value || typeof value !== 'object') return null;
+  if (value.kind !== 'mbtiles' && value.kind !== 'directory') return null;
+  const sourcePath = typeof value.path === 'string' ? value.path.trim() : '';
+  if (!sourcePath) return null;
+  const format = typeof value.format === 'string' && LOCAL_TILE_FORMATS.includes(value.format) ? value.format : null;
+  return { kind: value.kind, path: sourcePath, format };
+};
+
+/**
+ * Local tile packages the user configured in settings, by id. The `planner-tiles://` handler serves
+ * these only, so a tile URL (e.g. from an imported mission) cannot name an arbitrary file.
+ */
+const createLocalTileSourceRegistry = (getSettingsPath) => {
+  let sourcesPromise = null;
+
+  const load = () => {
+    sourcesPromise ??= readSettingsFile(getSettingsPath()).then((settings) => {
+      const stored = settings[LOCAL_TILE_SOURCES_SETTINGS_KEY];
+      const sources = new Map();
+      if (stored && typeof stored === 'object') {
+        for (const [id, value] of Object.entries(stored)) {
+          const source = normalizeLocalTileSourceEntry(value);
+          if (source && id === localTileSourceId(source.kind, source.path)) sources.set(id, source);
+        }
+      }
+      return sources;
+    });
+    return sourcesPromise;
+  };
+
+  return {
+    resolve: async (id) => (await load()).get(id) ?? null,
+    register: async (value) => {
+      const source = normalizeLocalTileSourceEntry(value);
+      if (!source) return null;
+      const id = localTileSourceId(source.kind, source.path);
+      const sources = await load();
+      sources.set(id, source);
+      const settingsPath = getSettingsPath();
+      const settings = await readSettingsFile(settingsPath);
+      settings[LOCAL_TILE_SOURCES_SETTINGS_KEY] = Object.fromEntries(sources);
+      await writeSettingsFile(settingsPath, settings);
+      return id;
+    },
+  };
+};
+
+const localTileSources = createLocalTileSourceRegistry(() => path.join(app.getPath('userData'), 'settings.json'));
+
 const clampPort = (value, fallback) => {
   const n = Number(value);
   if (!Number.isInteger(n) || n < 1 || n > 65535) return fallback;
@@ -704,7 +773,56 @@ const emitToRenderer = (channel, payload) => {
   }
 };
 
-const createZimaUdpBridge = () => {
+const DEFAULT_DEVICE_INSTANCE_ID = 'default';
+
+const normalizeInstanceId = (value) => normalizeText(value, DEFAULT_DEVICE_INSTANCE_ID) || DEFAULT_DEVICE_INSTANCE_ID;
+
+// One bridge per device instance: a profile may run several devices of the same type at once,
+// each with its own socket/port, status and events (tagged with `instanceId`).
+const createBridgeRegistry = (createBridge) => {
+  const bridges = new Map();
+
+  const get = (instanceId) => {
+    const key = normalizeInstanceId(instanceId);
+    let bridge = bridges.get(key);
+    if (!bridge) {
+      bridge = createBridge(key);
+      bridges.set(key, bridge);
+    }
+    return bridge;
+  };
+
+  const stopAll = () => Promise.allSettled(Array.from(bridges.values()).map((bridge) => bridge.stop()));
+
+  return { get, stopAll };
+};
+
+// COM ports opened or being probed by serial bridges, so that auto-detection of one instance skips ports of the others.
+const serialPortOwners = new Map();
+
+const claimSerialPort = (portPath, owner) => {
+  serialPortOwners.set(portPath, owner);
+};
+
+const releaseSerialPort = (portPath, owner) => {
+  if (portPath && serialPortOwners.get(portPath) === owner) {
+    serialPortOwners.delete(portPath);
+  }
+};
+
+const isSerialPortClaimedByOther = (portPath, owner) => {
+  const current = serialPortOwners.get(portPath);
+  return current !== undefined && current !== owner;
+};
+
+// Check and claim in one synchronous step: two bridges auto-detecting at once must not pick the same port.
+const tryClaimSerialPort = (portPath, owner) => {
+  if (isSerialPortClaimedByOther(portPath, owner)) return false;
+  claimSerialPort(portPath, owner);
+  return true;
+};
+
+const createZimaUdpBridge = (instanceId) => {
   let socket = null;
   let status = 'stopped';
   let config = { ...DEFAULT_ZIMA_CONFIG };
@@ -712,11 +830,11 @@ const createZimaUdpBridge = () => {
   const emitStatus = (nextStatus) => {
     if (status === nextStatus) return;
     status = nextStatus;
-    emitToRenderer(CHANNELS.zima.events.status, { status, config });
+    emitToRenderer(CHANNELS.zima.events.status, { instanceId, status, config });
   };
 
   const emitError = (message) => {
-    emitToRenderer(CHANNELS.zima.events.error, { message, status, config });
+    emitToRenderer(CHANNELS.zima.events.error, { instanceId, message, status, config });
   };
 
   const stop = async () => {
@@ -747,9 +865,10 @@ const createZimaUdpBridge = () => {
     socket.on('message', (buffer, remote) => {
       const message = Buffer.from(buffer).toString('ascii');
       console.log(
-        `[zima2r][rx] ${remote.address}:${remote.port} -> ${message.trim() || '<empty>'}`,
+        `[zima2r:${instanceId}][rx] ${remote.address}:${remote.port} -> ${message.trim() || '<empty>'}`,
       );
       emitToRenderer(CHANNELS.zima.events.data, {
+        instanceId,
         message,
         receivedAt: Date.now(),
         remote: {
@@ -817,7 +936,7 @@ const createZimaUdpBridge = () => {
   };
 };
 
-const createGnssUdpBridge = () => {
+const createGnssUdpBridge = (instanceId) => {
   let socket = null;
   let status = 'stopped';
   let config = { ...DEFAULT_GNSS_CONFIG };
@@ -825,11 +944,11 @@ const createGnssUdpBridge = () => {
   const emitStatus = (nextStatus) => {
     if (status === nextStatus) return;
     status = nextStatus;
-    emitToRenderer(CHANNELS.gnss.events.status, { status, config });
+    emitToRenderer(CHANNELS.gnss.events.status, { instanceId, status, config });
   };
 
   const emitError = (message) => {
-    emitToRenderer(CHANNELS.gnss.events.error, { message, status, config });
+    emitToRenderer(CHANNELS.gnss.events.error, { instanceId, message, status, config });
   };
 
   const stop = async () => {
@@ -860,6 +979,7 @@ const createGnssUdpBridge = () => {
     socket.on('message', (buffer, remote) => {
       const message = Buffer.from(buffer).toString('ascii');
       emitToRenderer(CHANNELS.gnss.events.data, {
+        instanceId,
         message,
         receivedAt: Date.now(),
         remote: {
@@ -977,7 +1097,8 @@ const pathExists = async (targetPath) => {
   }
 };
 
-const createGnssComBridge = () => {
+const createGnssComBridge = (instanceId) => {
+  const owner = `gnssCom:${instanceId}`;
   let serialPort = null;
   let status = 'stopped';
   let config = { ...DEFAULT_GNSS_COM_CONFIG };
@@ -987,6 +1108,7 @@ const createGnssComBridge = () => {
     if (status === nextStatus) return;
     status = nextStatus;
     emitToRenderer(CHANNELS.gnssCom.events.status, {
+      instanceId,
       status,
       config: { ...config, comPort: activePortPath || config.comPort },
     });
@@ -994,6 +1116,7 @@ const createGnssComBridge = () => {
 
   const emitError = (message) => {
     emitToRenderer(CHANNELS.gnssCom.events.error, {
+      instanceId,
       message,
       status,
       config: { ...config, comPort: activePortPath || config.comPort },
@@ -1003,6 +1126,7 @@ const createGnssComBridge = () => {
   const stop = async () => {
     const current = serialPort;
     serialPort = null;
+    releaseSerialPort(activePortPath, owner);
     activePortPath = '';
     await closeSerialPort(current);
     emitStatus('stopped');
@@ -1064,6 +1188,13 @@ const createGnssComBridge = () => {
     }
   };
 
+  const reservePort = (portPath) => {
+    if (!tryClaimSerialPort(portPath, owner)) {
+      throw new Error(`COM-порт ${portPath} уже используется другим устройством профиля`);
+    }
+    return portPath;
+  };
+
   const resolvePortPath = async (nextConfig) => {
     const manualPortRaw = normalizeText(nextConfig.comPort, '');
     const manualPortNumber = normalizeComPortNumber(manualPortRaw);
@@ -1107,21 +1238,24 @@ const createGnssComBridge = () => {
             throw new Error('Выбранный COM-порт недоступен. Выберите порт из списка или включите Авто COM-порт.');
           }
         }
-        return manualPortRaw;
+        return reservePort(manualPortRaw);
       }
       const resolvedByNumber = resolveManualPathByNumber(manualPortNumber);
       if (!resolvedByNumber) {
         throw new Error(`COM-порт ${manualPortNumber} не найден среди доступных`);
       }
-      return resolvedByNumber;
+      return reservePort(resolvedByNumber);
     }
 
     // In auto mode COM port value from UI must not bias selection.
     const candidates = [];
     const seenPaths = new Set();
-    const orderedPorts = prioritizePortsByManufacturer(ports, GNSS_COM_SIM_MANUFACTURER);
+    const orderedPorts = prioritizePortsByManufacturer(
+      ports.filter((entry) => !isSerialPortClaimedByOther(normalizeText(entry?.path, ''), owner)),
+      GNSS_COM_SIM_MANUFACTURER,
+    );
     const preferredSimulatorPort = findFirstPortByManufacturer(orderedPorts, GNSS_COM_SIM_MANUFACTURER);
-    if (preferredSimulatorPort) {
+    if (preferredSimulatorPort && tryClaimSerialPort(preferredSimulatorPort, owner)) {
       return preferredSimulatorPort;
     }
     for (const entry of orderedPorts) {
@@ -1137,11 +1271,13 @@ const createGnssComBridge = () => {
 
     for (const entry of candidates) {
       const pathValue = normalizeText(entry.path, '');
-      if (!pathValue) continue;
+      // Held while probing so that a concurrent auto-detect skips the port.
+      if (!pathValue || !tryClaimSerialPort(pathValue, owner)) continue;
       const hasNmea = await hasNmeaOnPort(pathValue, nextConfig.baudRate, nextConfig.scanTimeoutMs);
       if (hasNmea) {
         return pathValue;
       }
+      releaseSerialPort(pathValue, owner);
     }
     throw new Error('Не найден COM-порт с потоком NMEA');
   };
@@ -1151,8 +1287,10 @@ const createGnssComBridge = () => {
     await stop();
 
     let openedPort = null;
+    // resolvePortPath returns the port already claimed for this bridge.
+    let resolvedPortPath = '';
     try {
-      const resolvedPortPath = await resolvePortPath(config);
+      resolvedPortPath = await resolvePortPath(config);
       openedPort = await openSerialPortWithRetry(resolvedPortPath, config.baudRate, {
         attempts: SERIAL_PORT_OPEN_LOCK_RETRY_ATTEMPTS,
         delayMs: SERIAL_PORT_OPEN_LOCK_RETRY_DELAY_MS,
@@ -1164,6 +1302,7 @@ const createGnssComBridge = () => {
         const message = Buffer.from(chunk).toString('ascii');
         if (!message) return;
         emitToRenderer(CHANNELS.gnssCom.events.data, {
+          instanceId,
           message,
           receivedAt: Date.now(),
           portPath: activePortPath,
@@ -1178,6 +1317,7 @@ const createGnssComBridge = () => {
       openedPort.on('close', () => {
         if (serialPort === openedPort) {
           serialPort = null;
+          releaseSerialPort(activePortPath, owner);
           activePortPath = '';
           if (status === 'running') {
             emitStatus('stopped');
@@ -1190,6 +1330,7 @@ const createGnssComBridge = () => {
     } catch (error) {
       await closeSerialPort(openedPort);
       serialPort = null;
+      releaseSerialPort(resolvedPortPath, owner);
       activePortPath = '';
       emitStatus('error');
       const message = error instanceof Error ? error.message : String(error);
@@ -1204,11 +1345,11 @@ const createGnssComBridge = () => {
     start,
     stop,
     getStatus,
-    listPorts: listSerialPorts,
   };
 };
 
-const createRwltComBridge = () => {
+const createRwltComBridge = (instanceId) => {
+  const owner = `rwltCom:${instanceId}`;
   let serialPort = null;
   let status = 'stopped';
   let config = { ...DEFAULT_RWLT_COM_CONFIG };
@@ -1218,6 +1359,7 @@ const createRwltComBridge = () => {
     if (status === nextStatus) return;
     status = nextStatus;
     emitToRenderer(CHANNELS.rwltCom.events.status, {
+      instanceId,
       status,
       config: { ...config, comPort: activePortPath || config.comPort },
     });
@@ -1225,6 +1367,7 @@ const createRwltComBridge = () => {
 
   const emitError = (message) => {
     emitToRenderer(CHANNELS.rwltCom.events.error, {
+      instanceId,
       message,
       status,
       config: { ...config, comPort: activePortPath || config.comPort },
@@ -1234,6 +1377,7 @@ const createRwltComBridge = () => {
   const stop = async () => {
     const current = serialPort;
     serialPort = null;
+    releaseSerialPort(activePortPath, owner);
     activePortPath = '';
     await closeSerialPort(current);
     emitStatus('stopped');
@@ -1313,6 +1457,13 @@ const createRwltComBridge = () => {
     }
   };
 
+  const reservePort = (portPath) => {
+    if (!tryClaimSerialPort(portPath, owner)) {
+      throw new Error(`COM-порт ${portPath} уже используется другим устройством профиля`);
+    }
+    return portPath;
+  };
+
   const resolvePortPath = async (nextConfig) => {
     const manualPortRaw = normalizeText(nextConfig.comPort, '');
     const manualPortNumber = normalizeComPortNumber(manualPortRaw);
@@ -1355,21 +1506,24 @@ const createRwltComBridge = () => {
             throw new Error('Выбранный COM-порт недоступен. Выберите порт из списка или включите Авто COM-порт.');
           }
         }
-        return manualPortRaw;
+        return reservePort(manualPortRaw);
       }
       const resolvedByNumber = resolveManualPathByNumber(manualPortNumber);
       if (!resolvedByNumber) {
         throw new Error(`COM-порт ${manualPortNumber} не найден среди доступных`);
       }
-      return resolvedByNumber;
+      return reservePort(resolvedByNumber);
     }
 
     // In auto mode COM port value from UI must not bias selection.
     const candidates = [];
     const seenPaths = new Set();
-    const orderedPorts = prioritizePortsByManufacturer(ports, RWLT_COM_SIM_MANUFACTURER);
+    const orderedPorts = prioritizePortsByManufacturer(
+      ports.filter((entry) => !isSerialPortClaimedByOther(normalizeText(entry?.path, ''), owner)),
+      RWLT_COM_SIM_MANUFACTURER,
+    );
     const preferredSimulatorPort = findFirstPortByManufacturer(orderedPorts, RWLT_COM_SIM_MANUFACTURER);
-    if (preferredSimulatorPort) {
+    if (preferredSimulatorPort && tryClaimSerialPort(preferredSimulatorPort, owner)) {
       return preferredSimulatorPort;
     }
     for (const entry of orderedPorts) {
@@ -1385,11 +1539,13 @@ const createRwltComBridge = () => {
 
     for (const entry of candidates) {
       const pathValue = normalizeText(entry.path, '');
-      if (!pathValue) continue;
+      // Held while probing so that a concurrent auto-detect skips the port.
+      if (!pathValue || !tryClaimSerialPort(pathValue, owner)) continue;
       const hasRwlt = await hasRwltDataOnPort(pathValue, nextConfig.baudRate, nextConfig.scanTimeoutMs, nextConfig.mode);
       if (hasRwlt) {
         return pathValue;
       }
+      releaseSerialPort(pathValue, owner);
     }
     throw new Error(`Не найден COM-порт с потоком RWLT (проверено портов: ${candidates.length})`);
   };
@@ -1399,8 +1555,10 @@ const createRwltComBridge = () => {
     await stop();
 
     let openedPort = null;
+    // resolvePortPath returns the port already claimed for this bridge.
+    let resolvedPortPath = '';
     try {
-      const resolvedPortPath = await resolvePortPath(config);
+      resolvedPortPath = await resolvePortPath(config);
       openedPort = await openSerialPortWithRetry(resolvedPortPath, config.baudRate, {
         attempts: SERIAL_PORT_OPEN_LOCK_RETRY_ATTEMPTS,
         delayMs: SERIAL_PORT_OPEN_LOCK_RETRY_DELAY_MS,
@@ -1414,6 +1572,7 @@ const createRwltComBridge = () => {
         const message = Buffer.from(chunk).toString('ascii');
         if (!message) return;
         emitToRenderer(CHANNELS.rwltCom.events.data, {
+          instanceId,
           message,
           receivedAt: Date.now(),
           portPath: activePortPath,
@@ -1428,6 +1587,7 @@ const createRwltComBridge = () => {
       openedPort.on('close', () => {
         if (serialPort === openedPort) {
           serialPort = null;
+          releaseSerialPort(activePortPath, owner);
           activePortPath = '';
           if (status === 'running') {
             emitStatus('stopped');
@@ -1440,6 +1600,7 @@ const createRwltComBridge = () => {
     } catch (error) {
       await closeSerialPort(openedPort);
       serialPort = null;
+      releaseSerialPort(resolvedPortPath, owner);
       activePortPath = '';
       emitStatus('error');
       const rawMessage = error instanceof Error ? error.message : String(error);
@@ -1460,7 +1621,6 @@ const createRwltComBridge = () => {
     start,
     stop,
     getStatus,
-    listPorts: listSerialPorts,
   };
 };
 
@@ -1523,10 +1683,10 @@ const createMainWindow = async () => {
 const registerIpcHandlers = () => {
   const userDataPath = app.getPath('userData');
   const settingsPath = path.join(userDataPath, 'settings.json');
-  const zimaBridge = createZimaUdpBridge();
-  const gnssBridge = createGnssUdpBridge();
-  const gnssComBridge = createGnssComBridge();
-  const rwltComBridge = createRwltComBridge();
+  const zimaBridges = createBridgeRegistry(createZimaUdpBridge);
+  const gnssBridges = createBridgeRegistry(createGnssUdpBridge);
+  const gnssComBridges = createBridgeRegistry(createGnssComBridge);
+  const rwltComBridges = createBridgeRegistry(createRwltComBridge);
   registerPrepareCloseResult(ipcMain);
 
   ipcMain.handle(CHANNELS.pickDirectory, async (event, options) => {
@@ -1691,79 +1851,153 @@ const registerIpcHandlers = () => {
     return readSiblingTfwTextByTifPath(tifPath);
   });
 
-  ipcMain.handle(CHANNELS.zima.start, async (_event, input) => {
-    return zimaBridge.start(input);
+  ipcMain.handle(CHANNELS.localTiles.pickSource, async (event, kind) => {
+    const parentWindow = BrowserWindow.fromWebContents(event.sender) ?? undefined;
+    const result = await dialog.showOpenDialog(
+      parentWindow,
+      kind === 'mbtiles'
+        ? {
+            title: 'Файл MBTiles',
+            properties: ['openFile'],
+            filters: [{ name: 'MBTiles', extensions: ['mbtiles'] }],
+          }
+        : {
+            title: 'Папка с тайлами {z}/{x}/{y}',
+            properties: ['openDirectory'],
+          },
+    );
+
+    if (result.canceled || !result.filePaths?.[0]) return null;
+    return result.filePaths[0];
   });
 
-  ipcMain.handle(CHANNELS.zima.stop, async () => {
-    return zimaBridge.stop();
+  ipcMain.handle(CHANNELS.localTiles.readMetadata, async (_event, kind, sourcePath) => {
+    return readLocalTileSourceMetadata(kind, sourcePath);
   });
 
-  ipcMain.handle(CHANNELS.zima.sendCommand, async (_event, command) => {
-    return zimaBridge.sendCommand(command);
+  ipcMain.handle(CHANNELS.localTiles.registerSource, async (_event, source) => {
+    return localTileSources.register(source);
   });
 
-  ipcMain.handle(CHANNELS.zima.status, async () => {
-    return zimaBridge.getStatus();
+  ipcMain.handle(CHANNELS.report.captureView, async (event, rect) => {
+    const toInt = (value) => Math.max(0, Math.round(Number(value) || 0));
+    const area = { x: toInt(rect?.x), y: toInt(rect?.y), width: toInt(rect?.width), height: toInt(rect?.height) };
+    if (area.width === 0 || area.height === 0) return null;
+    try {
+      const image = await event.sender.capturePage(area);
+      return image.isEmpty() ? null : image.toDataURL();
+    } catch {
+      return null;
+    }
   });
 
-  ipcMain.handle(CHANNELS.gnss.start, async (_event, input) => {
-    return gnssBridge.start(input);
+  ipcMain.handle(CHANNELS.report.printToPdf, async (_event, htmlPath, pdfPath) => {
+    const htmlFile = resolveFileStorePath(htmlPath, userDataPath).absolutePath;
+    const pdfFile = resolveFileStorePath(pdfPath, userDataPath).absolutePath;
+    // The report is static HTML with embedded images: no scripts, no access to the app preload.
+    const printWindow = new BrowserWindow({
+      show: false,
+      webPreferences: { sandbox: true, javascript: false, contextIsolation: true },
+    });
+    try {
+      await printWindow.loadFile(htmlFile);
+      const pdf = await printWindow.webContents.printToPDF({ printBackground: true, pageSize: 'A4' });
+      await ensureParentDir(pdfFile);
+      await fs.writeFile(pdfFile, pdf);
+      return { ok: true };
+    } catch (error) {
+      console.error('[report] printToPDF failed', error);
+      // Reported as a value: a rejected invoke would wrap the message in Electron's IPC prefix.
+      return { ok: false, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      printWindow.destroy();
+    }
   });
 
-  ipcMain.handle(CHANNELS.gnss.stop, async () => {
-    return gnssBridge.stop();
+  ipcMain.handle(CHANNELS.zima.start, async (_event, instanceId, input) => {
+    return zimaBridges.get(instanceId).start(input);
   });
 
-  ipcMain.handle(CHANNELS.gnss.status, async () => {
-    return gnssBridge.getStatus();
+  ipcMain.handle(CHANNELS.zima.stop, async (_event, instanceId) => {
+    return zimaBridges.get(instanceId).stop();
   });
 
-  ipcMain.handle(CHANNELS.gnssCom.start, async (_event, input) => {
-    return gnssComBridge.start(input);
+  ipcMain.handle(CHANNELS.zima.sendCommand, async (_event, instanceId, command) => {
+    return zimaBridges.get(instanceId).sendCommand(command);
   });
 
-  ipcMain.handle(CHANNELS.gnssCom.stop, async () => {
-    return gnssComBridge.stop();
+  ipcMain.handle(CHANNELS.zima.status, async (_event, instanceId) => {
+    return zimaBridges.get(instanceId).getStatus();
   });
 
-  ipcMain.handle(CHANNELS.gnssCom.status, async () => {
-    return gnssComBridge.getStatus();
+  ipcMain.handle(CHANNELS.gnss.start, async (_event, instanceId, input) => {
+    return gnssBridges.get(instanceId).start(input);
+  });
+
+  ipcMain.handle(CHANNELS.gnss.stop, async (_event, instanceId) => {
+    return gnssBridges.get(instanceId).stop();
+  });
+
+  ipcMain.handle(CHANNELS.gnss.status, async (_event, instanceId) => {
+    return gnssBridges.get(instanceId).getStatus();
+  });
+
+  ipcMain.handle(CHANNELS.gnssCom.start, async (_event, instanceId, input) => {
+    return gnssComBridges.get(instanceId).start(input);
+  });
+
+  ipcMain.handle(CHANNELS.gnssCom.stop, async (_event, instanceId) => {
+    return gnssComBridges.get(instanceId).stop();
+  });
+
+  ipcMain.handle(CHANNELS.gnssCom.status, async (_event, instanceId) => {
+    return gnssComBridges.get(instanceId).getStatus();
   });
 
   ipcMain.handle(CHANNELS.gnssCom.listPorts, async () => {
-    return gnssComBridge.listPorts();
+    return listSerialPorts();
   });
 
-  ipcMain.handle(CHANNELS.rwltCom.start, async (_event, input) => {
-    return rwltComBridge.start(input);
+  ipcMain.handle(CHANNELS.rwltCom.start, async (_event, instanceId, input) => {
+    return rwltComBridges.get(instanceId).start(input);
   });
 
-  ipcMain.handle(CHANNELS.rwltCom.stop, async () => {
-    return rwltComBridge.stop();
+  ipcMain.handle(CHANNELS.rwltCom.stop, async (_event, instanceId) => {
+    return rwltComBridges.get(instanceId).stop();
   });
 
-  ipcMain.handle(CHANNELS.rwltCom.status, async () => {
-    return rwltComBridge.getStatus();
+  ipcMain.handle(CHANNELS.rwltCom.status, async (_event, instanceId) => {
+    return rwltComBridges.get(instanceId).getStatus();
   });
 
   ipcMain.handle(CHANNELS.rwltCom.listPorts, async () => {
-    return rwltComBridge.listPorts();
+    return listSerialPorts();
   });
 
   app.on('before-quit', () => {
     void Promise.allSettled([
-      zimaBridge.stop(),
-      gnssBridge.stop(),
-      gnssComBridge.stop(),
-      rwltComBridge.stop(),
+      zimaBridges.stopAll(),
+      gnssBridges.stopAll(),
+      gnssComBridges.stopAll(),
+      rwltComBridges.stopAll(),
     ]);
+    closeAllMbtiles();
   });
 };
 
+// Must run before `ready`: fetch() from the renderer only works for privileged schemes.
+protocol.registerSchemesAsPrivileged([
+  {
+    scheme: LOCAL_TILES_SCHEME,
+    privileges: { standard: true, secure: true, supportFetchAPI: true, corsEnabled: true },
+  },
+]);
+
 app.whenReady().then(async () => {
   Menu.setApplicationMenu(null);
 
+  protocol.handle(LOCAL_TILES_SCHEME, createLocalTileRequestHandler(localTileSources.resolve));
+
   // Set custom User-Agent for tile server requests (OSM tile usage policy compliance).
   session.defaultSession.webRequest.onBeforeSendHeaders(
     { urls: ['https://tile.openstreetmap.org/*', 'https://tiles.openseamap.org/*'] },
@@ -21,6 +21,15 @@ const CHANNELS = {
     convertTiffBase64ToPngBase64: 'planner:raster:convertTiffBase64ToPngBase64',
     readSiblingTfwTextByTifPath: 'planner:raster:readSiblingTfwTextByTifPath',
   },
+  localTiles: {
+    pickSource: 'planner:localTiles:pickSource',
+    readMetadata: 'planner:localTiles:readMetadata',
+    registerSource: 'planner:localTiles:registerSource',
+  },
+  report: {
+    captureView: 'planner:report:captureView',
+    printToPdf: 'planner:report:printToPdf',
+  },
   lifecycle: {
     prepareClose: 'planner:lifecycle:prepareClose',
     prepareCloseResult: 'planner:lifecycle:prepareCloseResult',
@@ -117,6 +126,15 @@ const api = {
       return null;
     },
   },
+  localTiles: {
+    pickSource: (kind) => ipcRenderer.invoke(CHANNELS.localTiles.pickSource, kind),
+    readMetadata: (kind, path) => ipcRenderer.invoke(CHANNELS.localTiles.readMetadata, kind, path),
+    registerSource: (source) => ipcRenderer.invoke(CHANNELS.localTiles.registerSource, source),
+  },
+  report: {
+    captureView: (rect) => ipcRenderer.invoke(CHANNELS.report.captureView, rect),
+    printToPdf: (htmlPath, pdfPath) => ipcRenderer.invoke(CHANNELS.report.printToPdf, htmlPath, pdfPath),
+  },
   lifecycle: {
     onPrepareClose: (listener) => subscribe(CHANNELS.lifecycle.prepareClose, listener),
     resolvePrepareClose: ({ token, ok, error }) =>
@@ -127,35 +145,35 @@ const api = {
       }),
   },
   zima: {
-    start: (config) => ipcRenderer.invoke(CHANNELS.zima.start, config),
-    stop: () => ipcRenderer.invoke(CHANNELS.zima.stop),
-    sendCommand: (command) => ipcRenderer.invoke(CHANNELS.zima.sendCommand, command),
-    status: () => ipcRenderer.invoke(CHANNELS.zima.status),
+    start: (instanceId, config) => ipcRenderer.invoke(CHANNELS.zima.start, instanceId, config),
+    stop: (instanceId) => ipcRenderer.invoke(CHANNELS.zima.stop, instanceId),
+    sendCommand: (instanceId, command) => ipcRenderer.invoke(CHANNELS.zima.sendCommand, instanceId, command),
+    status: (instanceId) => ipcRenderer.invoke(CHANNELS.zima.status, instanceId),
     onData: (listener) => subscribe(CHANNELS.zima.events.data, listener),
     onStatus: (listener) => subscribe(CHANNELS.zima.events.status, listener),
     onError: (listener) => subscribe(CHANNELS.zima.events.error, listener),
   },
   gnss: {
-    start: (config) => ipcRenderer.invoke(CHANNELS.gnss.start, config),
-    stop: () => ipcRenderer.invoke(CHANNELS.gnss.stop),
-    status: () => ipcRenderer.invoke(CHANNELS.gnss.status),
+    start: (instanceId, config) => ipcRenderer.invoke(CHANNELS.gnss.start, instanceId, config),
+    stop: (instanceId) => ipcRenderer.invoke(CHANNELS.gnss.stop, instanceId),
+    status: (instanceId) => ipcRenderer.invoke(CHANNELS.gnss.status, instanceId),
     onData: (listener) => subscribe(CHANNELS.gnss.events.data, listener),
     onStatus: (listener) => subscribe(CHANNELS.gnss.events.status, listener),
     onError: (listener) => subscribe(CHANNELS.gnss.events.error, listener),
   },
   gnssCom: {
-    start: (config) => ipcRenderer.invoke(CHANNELS.gnssCom.start, config),
-    stop: () => ipcRenderer.invoke(CHANNELS.gnssCom.stop),
-    status: () => ipcRenderer.invoke(CHANNELS.gnssCom.status),
+    start: (instanceId, config) => ipcRenderer.invoke(CHANNELS.gnssCom.start, instanceId, config),
+    stop: (instanceId) => ipcRenderer.invoke(CHANNELS.gnssCom.stop, instanceId),
+    status: (instanceId) => ipcRenderer.invoke(CHANNELS.gnssCom.status, instanceId),
     listPorts: () => ipcRenderer.invoke(CHANNELS.gnssCom.listPorts),
     onData: (listener) => subscribe(CHANNELS.gnssCom.events.data, listener),
     onStatus: (listener) => subscribe(CHANNELS.gnssCom.events.status, listener),
     onError: (listener) => subscribe(CHANNELS.gnssCom.events.error, listener),
   },
   rwltCom: {
-    start: (config) => ipcRenderer.invoke(CHANNELS.rwltCom.start, config),
-    stop: () => ipcRenderer.invoke(CHANNELS.rwltCom.stop),
-    status: () => ipcRenderer.invoke(CHANNELS.rwltCom.status),
+    start: (instanceId, config) => ipcRenderer.invoke(CHANNELS.rwltCom.start, instanceId, config),
+    stop: (instanceId) => ipcRenderer.invoke(CHANNELS.rwltCom.stop, instanceId),
+    status: (instanceId) => ipcRenderer.invoke(CHANNELS.rwltCom.status, instanceId),
     listPorts: () => ipcRenderer.invoke(CHANNELS.rwltCom.listPorts),
     onData: (listener) => subscribe(CHANNELS.rwltCom.events.data, listener),
     onStatus: (listener) => subscribe(CHANNELS.rwltCom.events.status, listener),
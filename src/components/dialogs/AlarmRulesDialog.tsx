@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { MapObject } from '@/features/map/model/types';
+import {
+  ALARM_LOG_FILE,
+  MIN_STALE_FIX_THRESHOLD_S,
+  alarmRuleKinds,
+  createAlarmRule,
+  getAlarmRuleLabel,
+  getAlarmThresholdUnit,
+  type AlarmRule,
+  type AlarmRuleKind,
+  type DiverUiConfig,
+} from '@/features/mission';
+
+const ALL_AGENTS = '__all__';
+const NONE = '__none__';
+
+interface AlarmRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rules: AlarmRule[];
+  divers: DiverUiConfig[];
+  objects: MapObject[];
+  onSave: (rules: AlarmRule[]) => void;
+}
+
+const isZoneRule = (kind: AlarmRuleKind) => kind === 'zone_exit' || kind === 'zone_enter';
+
+const AlarmRulesDialog = ({ open, onOpenChange, rules, divers, objects, onSave }: AlarmRulesDialogProps) => {
+  const [draftRules, setDraftRules] = useState<AlarmRule[]>(rules);
+  const [thresholdInputs, setThresholdInputs] = useState<Record<string, string>>({});
+  const [newRuleKind, setNewRuleKind] = useState<AlarmRuleKind>('max_depth');
+
+  useEffect(() => {
+    if (!open) return;
+    setDraftRules(rules);
+    setThresholdInputs(Object.fromEntries(rules.map((rule) => [rule.id, String(rule.threshold)])));
+  }, [open, rules]);
+
+  const zones = objects.filter((object) => object.type === 'zone');
+
+  const updateRule = (id: string, updates: Partial<AlarmRule>) => {
+    setDraftRules((prev) => prev.map((rule) => (rule.id === id ? { ...rule, ...updates } : rule)));
+  };
+
+  const handleAddRule = () => {
+    const rule = createAlarmRule(newRuleKind);
+    setDraftRules((prev) => [...prev, rule]);
+    setThresholdInputs((prev) => ({ ...prev, [rule.id]: String(rule.threshold) }));
+  };
+
+  const handleSave = () => {
+    const nextRules = draftRules.map((rule) => {
+      const parsed = Number(thresholdInputs[rule.id]);
+      if (!Number.isFinite(parsed) || parsed < 0) return rule;
+      const threshold = rule.kind === 'stale_fix' ? Math.max(MIN_STALE_FIX_THRESHOLD_S, parsed) : parsed;
+      return { ...rule, threshold };
+    });
+    onSave(nextRules);
+    onOpenChange(false);
+  };
+
+  const renderAgentSelect = (value: string | null, onChange: (uid: string | null) => void, allowAll: boolean) => (
+    <Select
+      value={value ?? (allowAll ? ALL_AGENTS : NONE)}
+      onValueChange={(next) => onChange(next === ALL_AGENTS || next === NONE ? null : next)}
+    >
+      <SelectTrigger className="h-8 w-40 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {allowAll ? (
+          <SelectItem value={ALL_AGENTS}>Все водолазы</SelectItem>
+        ) : (
+          <SelectItem value={NONE}>Не выбран</SelectItem>
+        )}
+        {divers.map((diver) => (
+          <SelectItem key={diver.uid} value={diver.uid}>
+            {diver.title}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Правила тревог</DialogTitle>
+          <DialogDescription>
+            {`Правила проверяются по каждой новой позиции. События тревог записываются в ${ALARM_LOG_FILE} миссии.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[55vh] space-y-2 overflow-auto">
+          {draftRules.length === 0 ? (
+            <div className="py-6 text-center text-sm text-muted-foreground">Правил нет.</div>
+          ) : null}
+          {draftRules.map((rule) => {
+            const unit = getAlarmThresholdUnit(rule.kind);
+            return (
+              <div
+                key={rule.id}
+                className="flex flex-wrap items-center gap-2 rounded-md border border-border px-2 py-1.5"
+                data-testid="alarm-rule-row"
+              >
+                <Checkbox
+                  checked={rule.enabled}
+                  onCheckedChange={(checked) => updateRule(rule.id, { enabled: checked === true })}
+                  aria-label="Правило включено"
+                />
+                <span className="w-48 text-sm">{getAlarmRuleLabel(rule.kind)}</span>
+                {rule.kind === 'low_battery' ? (
+                  <span className="w-40 text-xs text-muted-foreground">Все буи RWLT</span>
+                ) : rule.kind === 'diver_separation' ? (
+                  <>
+                    {renderAgentSelect(rule.agent_uid, (uid) => updateRule(rule.id, { agent_uid: uid }), false)}
+                    {renderAgentSelect(
+                      rule.other_agent_uid ?? null,
+                      (uid) => updateRule(rule.id, { other_agent_uid: uid }),
+                      false,
+                    )}
+                  </>
+                ) : (
+                  renderAgentSelect(rule.agent_uid, (uid) => updateRule(rule.id, { agent_uid: uid }), true)
+                )}
+                {isZoneRule(rule.kind) ? (
+                  <Select
+                    value={rule.zone_id ?? NONE}
+                    onValueChange={(next) => updateRule(rule.id, { zone_id: next === NONE ? null : next })}
+                  >
+                    <SelectTrigger className="h-8 w-40 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Зона не выбрана</SelectItem>
+                      {zones.map((zone) => (
+                        <SelectItem key={zone.id} value={zone.id}>
+                          {zone.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : null}
+                {unit ? (
+                  <div className="flex items-center gap-1">
+                    <Input
+                      className="h-8 w-20 text-xs"
+                      type="number"
+                      min={rule.kind === 'stale_fix' ? MIN_STALE_FIX_THRESHOLD_S : 0}
+                      step="any"
+                      value={thresholdInputs[rule.id] ?? ''}
+                      onChange={(event) =>
+                        setThresholdInputs((prev) => ({ ...prev, [rule.id]: event.target.value }))
+                      }
+                      aria-label="Порог"
+                    />
+                    <span className="text-xs text-muted-foreground">{unit}</span>
+                  </div>
+                ) : null}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="ml-auto h-8 w-8"
+                  aria-label="Удалить правило"
+                  onClick={() => setDraftRules((prev) => prev.filter((item) => item.id !== rule.id))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Select value={newRuleKind} onValueChange={(next) => setNewRuleKind(next as AlarmRuleKind)}>
+            <SelectTrigger className="h-8 w-64 text-xs" data-testid="alarm-rule-kind">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {alarmRuleKinds.map((kind) => (
+                <SelectItem key={kind} value={kind}>
+                  {getAlarmRuleLabel(kind)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleAddRule}>
+            <Plus className="mr-1 h-4 w-4" />
+            Добавить правило
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Отмена
+          </Button>
+          <Button onClick={handleSave}>Сохранить</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AlarmRulesDialog;
@@ -0,0 +1,359 @@
+import { useEffect, useState } from 'react';
+import { Eye, EyeOff, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { parseCrsDefinition } from '@/features/geo/crsRegistry';
+import {
+  asciiGridToDepthPoints,
+  parseEsriAsciiGrid,
+  parseXyzPoints,
+  type DepthPoint,
+} from '@/features/map/bathymetry/depthPoints';
+import type { BathymetryGridMethod } from '@/features/map/bathymetry/grid';
+import type { MissionUiState } from '@/features/mission';
+import { toast } from '@/hooks/use-toast';
+
+type BathymetryLayerUi = NonNullable<MissionUiState['bathymetry_layers']>[number];
+type BathymetrySource = BathymetryLayerUi['source'];
+
+export type BathymetryBuildRequest = {
+  name: string;
+  source: BathymetrySource;
+  points: DepthPoint[];
+  method: BathymetryGridMethod;
+  cellSizeM: number;
+  searchRadiusM: number;
+  /** Null when no isobaths are wanted. */
+  contourIntervalM: number | null;
+};
+
+interface BathymetryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Tracks that recorded depth, with their soundings. */
+  depthTracks: Array<{ id: string; label: string; points: DepthPoint[] }>;
+  layers: BathymetryLayerUi[];
+  /** Depth range of the loaded grids, by layer id. */
+  depthRangesById: Record<string, { minDepth: number; maxDepth: number }>;
+  onBuild: (request: BathymetryBuildRequest) => Promise<void>;
+  onToggleLayerVisible: (id: string) => void;
+  onLayerOpacityChange: (id: string, opacity: number) => void;
+  onDeleteLayer: (id: string) => void;
+}
+
+const SOURCE_LABELS: Record<BathymetrySource, string> = {
+  xyz: 'Точки XYZ / CSV',
+  'ascii-grid': 'Сетка Esri ASCII (.asc)',
+  track: 'Глубины из трека',
+};
+
+const parsePositive = (value: string): number | null => {
+  const parsed = Number(value.replace(',', '.'));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const BathymetryDialog = ({
+  open,
+  onOpenChange,
+  depthTracks,
+  layers,
+  depthRangesById,
+  onBuild,
+  onToggleLayerVisible,
+  onLayerOpacityChange,
+  onDeleteLayer,
+}: BathymetryDialogProps) => {
+  const [source, setSource] = useState<BathymetrySource>('xyz');
+  const [file, setFile] = useState<File | null>(null);
+  const [trackId, setTrackId] = useState('');
+  const [crsText, setCrsText] = useState('');
+  const [name, setName] = useState('');
+  const [method, setMethod] = useState<BathymetryGridMethod>('idw');
+  const [cellSize, setCellSize] = useState('5');
+  const [searchRadius, setSearchRadius] = useState('25');
+  const [buildContours, setBuildContours] = useState(true);
+  const [contourInterval, setContourInterval] = useState('1');
+  const [isBuilding, setIsBuilding] = useState(false);
+
+  useEffect(() => {
+    if (!trackId && depthTracks.length > 0) {
+      setTrackId(depthTracks[0].id);
+    }
+  }, [depthTracks, trackId]);
+
+  const selectedTrack = depthTracks.find((track) => track.id === trackId) ?? null;
+  const cellSizeM = parsePositive(cellSize);
+  const searchRadiusM = parsePositive(searchRadius);
+  const contourIntervalM = parsePositive(contourInterval);
+  const hasInput = source === 'track' ? selectedTrack !== null : file !== null;
+  const canBuild =
+    hasInput &&
+    cellSizeM !== null &&
+    searchRadiusM !== null &&
+    (!buildContours || contourIntervalM !== null) &&
+    !isBuilding;
+
+  const readPoints = async (): Promise<DepthPoint[]> => {
+    if (source === 'track') {
+      return selectedTrack?.points ?? [];
+    }
+    if (!file) return [];
+    const crs = crsText.trim() ? parseCrsDefinition(crsText) : null;
+    const text = await file.text();
+    return source === 'ascii-grid' ? asciiGridToDepthPoints(parseEsriAsciiGrid(text), crs) : parseXyzPoints(text, crs);
+  };
+
+  const defaultName = (): string => {
+    if (source === 'track') return selectedTrack ? `Глубины: ${selectedTrack.label}` : 'Глубины';
+    return file ? file.name.replace(/\.[^/.]+$/, '') : 'Батиметрия';
+  };
+
+  const handleBuild = async () => {
+    if (!canBuild || cellSizeM === null || searchRadiusM === null) return;
+    setIsBuilding(true);
+    try {
+      const points = await readPoints();
+      await onBuild({
+        name: name.trim() || defaultName(),
+        source,
+        points,
+        method,
+        cellSizeM,
+        searchRadiusM,
+        contourIntervalM: buildContours ? contourIntervalM : null,
+      });
+      setName('');
+      setFile(null);
+    } catch (error) {
+      toast({ title: 'Не удалось построить батиметрию', description: errorMessage(error), variant: 'destructive' });
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Батиметрия</DialogTitle>
+          <DialogDescription>
+            Сетка глубин по промерам: цветовая шкала на карте, изобаты отдельным векторным слоем.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Источник</Label>
+              <Select
+                value={source}
+                onValueChange={(next) => {
+                  setSource(next as BathymetrySource);
+                  setFile(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SOURCE_LABELS) as BathymetrySource[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {SOURCE_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bathymetry-name">Название слоя</Label>
+              <Input
+                id="bathymetry-name"
+                placeholder={defaultName()}
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+              />
+            </div>
+          </div>
+
+          {source === 'track' ? (
+            depthTracks.length === 0 ? (
+              <div className="text-sm text-muted-foreground">В миссии нет треков с записанной глубиной.</div>
+            ) : (
+              <div className="space-y-1">
+                <Label>Трек</Label>
+                <Select value={trackId} onValueChange={setTrackId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {depthTracks.map((track) => (
+                      <SelectItem key={track.id} value={track.id}>
+                        {track.label} ({track.points.length} точек)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="bathymetry-file">Файл</Label>
+                <Input
+                  id="bathymetry-file"
+                  type="file"
+                  accept={source === 'ascii-grid' ? '.asc,.txt' : '.xyz,.csv,.txt'}
+                  onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="bathymetry-crs">Система координат</Label>
+                <Input
+                  id="bathymetry-crs"
+                  placeholder="WGS84 (lon/lat) или EPSG:…"
+                  value={crsText}
+                  onChange={(event) => setCrsText(event.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label>Интерполяция</Label>
+              <Select value={method} onValueChange={(next) => setMethod(next as BathymetryGridMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="idw">IDW</SelectItem>
+                  <SelectItem value="nearest">Ближайший сосед</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bathymetry-cell">Ячейка, м</Label>
+              <Input
+                id="bathymetry-cell"
+                type="number"
+                min="0.1"
+                step="0.5"
+                value={cellSize}
+                onChange={(event) => setCellSize(event.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bathymetry-radius">Радиус поиска, м</Label>
+              <Input
+                id="bathymetry-radius"
+                type="number"
+                min="0.1"
+                step="1"
+                value={searchRadius}
+                onChange={(event) => setSearchRadius(event.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-1.5 text-sm">
+              <Checkbox checked={buildContours} onCheckedChange={(checked) => setBuildContours(checked === true)} />
+              Построить изобаты с шагом
+            </label>
+            <Input
+              aria-label="Шаг изобат, м"
+              className="h-8 w-20"
+              type="number"
+              min="0.1"
+              step="0.5"
+              value={contourInterval}
+              disabled={!buildContours}
+              onChange={(event) => setContourInterval(event.target.value)}
+            />
+            <span className="text-sm text-muted-foreground">м</span>
+          </div>
+
+          <div className="rounded-md border border-border p-3 space-y-2">
+            <span className="text-sm font-medium">Слои батиметрии</span>
+            {layers.length === 0 ? (
+              <div className="text-sm text-muted-foreground">Слоёв нет.</div>
+            ) : (
+              <div className="max-h-48 space-y-1 overflow-y-auto">
+                {layers.map((layer) => {
+                  const range = depthRangesById[layer.id];
+                  return (
+                    <div
+                      key={layer.id}
+                      className="flex items-center gap-2 rounded border border-border px-2 py-1 text-sm"
+                      data-testid="bathymetry-layer-row"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <div className="truncate">{layer.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {SOURCE_LABELS[layer.source]}, ячейка {layer.cell_size_m} м
+                          {range ? `, ${range.minDepth.toFixed(1)}–${range.maxDepth.toFixed(1)} м` : ''}
+                        </div>
+                      </div>
+                      <Input
+                        aria-label="Прозрачность"
+                        className="h-7 w-20"
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.05"
+                        value={layer.opacity}
+                        onChange={(event) => onLayerOpacityChange(layer.id, Number(event.target.value))}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title={layer.visible ? 'Скрыть' : 'Показать'}
+                        onClick={() => onToggleLayerVisible(layer.id)}
+                      >
+                        {layer.visible ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title="Удалить слой"
+                        onClick={() => onDeleteLayer(layer.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Закрыть
+          </Button>
+          <Button onClick={() => void handleBuild()} disabled={!canBuild}>
+            {isBuilding ? 'Построение…' : 'Построить'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BathymetryDialog;
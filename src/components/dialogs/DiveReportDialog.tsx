@@ -0,0 +1,192 @@
+import { Fragment, useMemo, useState } from 'react';
+import { AreaChart, ChevronDown, ChevronRight, Download } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import {
+  analyzeDiverDives,
+  formatClockTime,
+  formatDurationHms,
+  type DiverUiConfig,
+  type DivePhaseKind,
+  type MissionTrackMeta,
+  type TrackPoint,
+} from '@/features/mission';
+import { cn } from '@/lib/utils';
+
+interface DiveReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  divers: DiverUiConfig[];
+  tracks: MissionTrackMeta[];
+  trackPointsByTrackId: Record<string, TrackPoint[]>;
+  onShowProfile: (trackId: string) => void;
+  onExportCsv: () => void;
+}
+
+const PHASE_LABELS: Record<DivePhaseKind, string> = {
+  descent: 'спуск',
+  level: 'горизонт',
+  ascent: 'подъём',
+};
+
+const DiveReportDialog = ({
+  open,
+  onOpenChange,
+  divers,
+  tracks,
+  trackPointsByTrackId,
+  onShowProfile,
+  onExportCsv,
+}: DiveReportDialogProps) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const summaries = useMemo(
+    () => (open ? analyzeDiverDives(divers, tracks, trackPointsByTrackId) : []),
+    [divers, open, trackPointsByTrackId, tracks],
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Отчёт по погружениям</DialogTitle>
+          <DialogDescription>
+            Погружения по глубине из треков водолазов: донное время, скорость всплытия, повторные погружения.
+          </DialogDescription>
+        </DialogHeader>
+
+        {summaries.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            Нет треков водолазов с записанной глубиной.
+          </div>
+        ) : (
+          <div className="max-h-[60vh] space-y-1 overflow-auto">
+            {summaries.map((summary) => {
+              const expanded = expandedId === summary.agentId;
+              return (
+                <div key={summary.agentId} className="rounded-md border border-border" data-testid="dive-report-diver">
+                  <button
+                    type="button"
+                    className="flex w-full items-center gap-2 px-2 py-1.5 text-left text-sm hover:bg-muted/50"
+                    onClick={() => setExpandedId(expanded ? null : summary.agentId)}
+                    aria-expanded={expanded}
+                  >
+                    {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    <span className="flex-1 truncate">{summary.diverTitle}</span>
+                    <span className="text-xs text-muted-foreground">{`${summary.dives.length} погр.`}</span>
+                    <span className="w-20 text-right font-mono text-xs">{`${summary.maxDepthM.toFixed(1)} м`}</span>
+                    <span className="w-20 text-right font-mono text-xs">{formatDurationHms(summary.totalBottomTimeS)}</span>
+                    <span
+                      className={cn(
+                        'w-28 text-right text-xs',
+                        summary.violationCount > 0 ? 'text-destructive' : 'text-muted-foreground',
+                      )}
+                    >
+                      {summary.violationCount > 0 ? `нарушений: ${summary.violationCount}` : 'без нарушений'}
+                    </span>
+                  </button>
+                  {expanded ? (
+                    <div className="space-y-1 px-2 pb-2">
+                      <div className="text-xs text-muted-foreground">
+                        {`Предел скорости всплытия: ${summary.ascentRateLimitMpm} м/мин`}
+                      </div>
+                      <div className="overflow-auto rounded-md border border-sidebar-border">
+                        <table className="w-full text-xs">
+                          <thead className="sticky top-0 bg-muted text-muted-foreground">
+                            <tr>
+                              <th className="px-2 py-1 text-left font-medium">№</th>
+                              <th className="px-2 py-1 text-right font-medium">Начало</th>
+                              <th className="px-2 py-1 text-right font-medium">Время</th>
+                              <th className="px-2 py-1 text-right font-medium">Донное</th>
+                              <th className="px-2 py-1 text-right font-medium">Макс. глубина</th>
+                              <th className="px-2 py-1 text-right font-medium">Всплытие</th>
+                              <th className="px-2 py-1 text-right font-medium">Интервал</th>
+                              <th className="px-2 py-1" />
+                            </tr>
+                          </thead>
+                          <tbody className="font-mono">
+                            {summary.dives.map((dive, index) => (
+                              <Fragment key={`${dive.trackId}-${dive.startMs}`}>
+                                <tr>
+                                  <td className="px-2 py-1">
+                                    {index + 1}
+                                    {dive.repetitive ? <span className="ml-1 font-sans text-amber-600">повт.</span> : null}
+                                  </td>
+                                  <td className="px-2 py-1 text-right">{formatClockTime(dive.startMs)}</td>
+                                  <td className="px-2 py-1 text-right">{formatDurationHms(dive.diveTimeS)}</td>
+                                  <td className="px-2 py-1 text-right">{formatDurationHms(dive.bottomTimeS)}</td>
+                                  <td className="px-2 py-1 text-right">{`${dive.maxDepthM.toFixed(1)} м`}</td>
+                                  <td
+                                    className={cn(
+                                      'px-2 py-1 text-right',
+                                      dive.violations.length > 0 && 'text-destructive',
+                                    )}
+                                  >
+                                    {`${dive.maxAscentRateMpm.toFixed(1)} м/мин`}
+                                  </td>
+                                  <td className="px-2 py-1 text-right">
+                                    {dive.surfaceIntervalS === null ? '—' : formatDurationHms(dive.surfaceIntervalS)}
+                                  </td>
+                                  <td className="px-2 py-1 text-right">
+                                    <Button
+                                      size="icon"
+                                      variant="ghost"
+                                      className="h-6 w-6"
+                                      title="Профиль трека"
+                                      aria-label="Профиль трека"
+                                      onClick={() => onShowProfile(dive.trackId)}
+                                    >
+                                      <AreaChart className="h-3.5 w-3.5" />
+                                    </Button>
+                                  </td>
+                                </tr>
+                                <tr>
+                                  <td colSpan={8} className="px-2 pb-1 font-sans text-muted-foreground">
+                                    {dive.phases
+                                      .map(
+                                        (phase) =>
+                                          `${PHASE_LABELS[phase.kind]} ${phase.fromDepthM.toFixed(1)}→${phase.toDepthM.toFixed(1)} м`,
+                                      )
+                                      .join(' · ')}
+                                    {dive.violations.map((violation) => (
+                                      <div key={violation.startMs} className="text-destructive">
+                                        {`${formatClockTime(violation.startMs)}–${formatClockTime(violation.endMs)}: всплытие ${violation.fromDepthM.toFixed(1)}→${violation.toDepthM.toFixed(1)} м со скоростью до ${violation.maxRateMpm.toFixed(1)} м/мин`}
+                                      </div>
+                                    ))}
+                                  </td>
+                                </tr>
+                              </Fragment>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter className="items-center sm:justify-between">
+          <Button variant="outline" onClick={onExportCsv} disabled={summaries.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Экспорт CSV
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Закрыть
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DiveReportDialog;
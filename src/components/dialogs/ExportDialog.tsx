@@ -62,17 +62,19 @@ const CsvCoordinateOptions = ({
   format,
   onCrsChange,
   onFormatChange,
+  target = 'CSV',
 }: {
   enabled: boolean;
   crs: CrsId;
   format: CoordinateInputFormat;
   onCrsChange: (value: CrsId) => void;
   onFormatChange: (value: CoordinateInputFormat) => void;
+  target?: string;
 }) => (
   <div className="rounded border border-border/60 bg-muted/30 p-2">
     <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
       <div className="space-y-1">
-        <Label className="text-xs text-muted-foreground">Система координат (CSV)</Label>
+        <Label className="text-xs text-muted-foreground">{`Система координат (${target})`}</Label>
         <Select value={crs} onValueChange={(v) => onCrsChange(v as CrsId)} disabled={!enabled}>
           <SelectTrigger className="h-8">
             <SelectValue />
@@ -87,7 +89,7 @@ const CsvCoordinateOptions = ({
         </Select>
       </div>
       <div className="space-y-1">
-        <Label className="text-xs text-muted-foreground">Формат координат (CSV)</Label>
+        <Label className="text-xs text-muted-foreground">{`Формат координат (${target})`}</Label>
         <Select value={format} onValueChange={(v) => onFormatChange(v as CoordinateInputFormat)} disabled={!enabled}>
           <SelectTrigger className="h-8">
             <SelectValue />
@@ -129,6 +131,10 @@ const ExportDialog = ({
   const [exportTracks, setExportTracks] = useState(true);
   const [exportRoutes, setExportRoutes] = useState(true);
   const [exportMarkers, setExportMarkers] = useState(true);
+  const [exportDives, setExportDives] = useState(false);
+  const [exportReport, setExportReport] = useState(false);
+  const [reportPdf, setReportPdf] = useState(true);
+  const [reportMapView, setReportMapView] = useState(true);
 
   const [trackFormat, setTrackFormat] = useState<ExportTracksFormat>('gpx');
   const [routeFormat, setRouteFormat] = useState<ExportRoutesFormat>('gpx');
@@ -143,6 +149,8 @@ const ExportDialog = ({
   const [trackCsvFormat, setTrackCsvFormat] = useState<CoordinateInputFormat>(defaultCoordinateFormat);
   const [routeCsvFormat, setRouteCsvFormat] = useState<CoordinateInputFormat>(defaultCoordinateFormat);
   const [markerCsvFormat, setMarkerCsvFormat] = useState<CoordinateInputFormat>(defaultCoordinateFormat);
+  const [reportCrs, setReportCrs] = useState<CrsId>(defaultCoordinateCrs);
+  const [reportFormat, setReportFormat] = useState<CoordinateInputFormat>(defaultCoordinateFormat);
 
   const [selectedTrackIds, setSelectedTrackIds] = useState<Record<string, true>>({});
   const [selectedRouteIds, setSelectedRouteIds] = useState<Record<string, true>>({});
@@ -155,6 +163,10 @@ const ExportDialog = ({
     setExportTracks(true);
     setExportRoutes(true);
     setExportMarkers(true);
+    setExportDives(false);
+    setExportReport(false);
+    setReportPdf(true);
+    setReportMapView(true);
     setTrackFormat('gpx');
     setRouteFormat('gpx');
     setMarkerFormat('csv');
@@ -167,6 +179,8 @@ const ExportDialog = ({
     setTrackCsvFormat(defaultCoordinateFormat);
     setRouteCsvFormat(defaultCoordinateFormat);
     setMarkerCsvFormat(defaultCoordinateFormat);
+    setReportCrs(defaultCoordinateCrs);
+    setReportFormat(defaultCoordinateFormat);
     setSelectedTrackIds({});
     setSelectedRouteIds({});
     setSelectedMarkerIds({});
@@ -193,7 +207,9 @@ const ExportDialog = ({
   const canExport =
     (exportTracks && (trackMode !== 'selected' || Object.keys(selectedTrackIds).length > 0)) ||
     (exportRoutes && (routeMode !== 'selected' || Object.keys(selectedRouteIds).length > 0)) ||
-    (exportMarkers && (markerMode !== 'selected' || Object.keys(selectedMarkerIds).length > 0));
+    (exportMarkers && (markerMode !== 'selected' || Object.keys(selectedMarkerIds).length > 0)) ||
+    exportDives ||
+    exportReport;
 
   const handleExport = async () => {
     const request: ExportRequest = {
@@ -248,6 +264,18 @@ const ExportDialog = ({
       };
     }
 
+    if (exportDives) {
+      request.dives = { format: 'csv' };
+    }
+
+    if (exportReport) {
+      request.report = {
+        pdf: reportPdf,
+        includeMapView: reportMapView,
+        coordinates: { crs: reportCrs, format: reportFormat },
+      };
+    }
+
     await onExport(request);
     onOpenChange(false);
   };
@@ -478,6 +506,61 @@ const ExportDialog = ({
                 </div>
               </div>
             </div>
+
+            {/* Dive report */}
+            <div className="rounded border border-border p-3 space-y-3">
+              <div className="flex items-start gap-3">
+                <Checkbox checked={exportDives} onCheckedChange={(c) => setExportDives(c as boolean)} />
+                <div className="flex-1 space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="font-medium">Отчёт по погружениям</div>
+                    <div className="text-sm text-muted-foreground">CSV</div>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Погружения водолазов по глубине из треков: донное время, скорость всплытия, повторные погружения.
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Mission report */}
+            <div className="rounded border border-border p-3 space-y-3">
+              <div className="flex items-start gap-3">
+                <Checkbox checked={exportReport} onCheckedChange={(c) => setExportReport(c as boolean)} />
+                <div className="flex-1 space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="font-medium">Отчёт о миссии</div>
+                    <div className="text-sm text-muted-foreground">HTML / PDF</div>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Сведения о миссии, оборудование, треки, маркеры, маршруты и зоны со схемой карты.
+                  </div>
+                  {exportReport && (
+                    <>
+                      <CsvCoordinateOptions
+                        enabled={exportReport}
+                        crs={reportCrs}
+                        format={reportFormat}
+                        onCrsChange={setReportCrs}
+                        onFormatChange={setReportFormat}
+                        target="отчёт"
+                      />
+                      <label className="flex items-center gap-2 text-sm cursor-pointer">
+                        <Checkbox checked={reportMapView} onCheckedChange={(c) => setReportMapView(c as boolean)} />
+                        Снимок текущего вида карты
+                      </label>
+                      <label className="flex items-center gap-2 text-sm cursor-pointer">
+                        <Checkbox checked={reportPdf} onCheckedChange={(c) => setReportPdf(c as boolean)} />
+                        Сохранить также в PDF
+                      </label>
+                      <div className="text-xs text-muted-foreground">
+                        Снимок карты и PDF доступны в настольном приложении.
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
           </div>
         </div>
 
@@ -0,0 +1,262 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { FileUp } from 'lucide-react';
+import type { MissionBundle } from '@/features/mission';
+import { coordinateInputFormats, getCoordinateInputFormatLabel, type CoordinateInputFormat } from '@/features/geo/coordinateInputFormat';
+import { getCrsLabel, supportedCoordinateCrs, type CrsId } from '@/features/geo/crs';
+import {
+  combineImportResults,
+  detectImportConflicts,
+  detectImportFormat,
+  parseImportFile,
+  type ImportConflictKind,
+  type ImportConflictStrategy,
+  type ImportResult,
+} from '@/features/import';
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  missionBundle: MissionBundle | null;
+  defaultCoordinateCrs: CrsId;
+  defaultCoordinateFormat: CoordinateInputFormat;
+  onImport: (result: ImportResult, strategy: ImportConflictStrategy) => Promise<void> | void;
+}
+
+type SourceFile = {
+  name: string;
+  text: string;
+};
+
+const CONFLICT_KIND_LABELS: Record<ImportConflictKind, string> = {
+  route: 'Маршрут',
+  marker: 'Маркер',
+  track: 'Трек',
+};
+
+const ImportDialog = ({
+  open,
+  onOpenChange,
+  missionBundle,
+  defaultCoordinateCrs,
+  defaultCoordinateFormat,
+  onImport,
+}: ImportDialogProps) => {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [files, setFiles] = useState<SourceFile[]>([]);
+  const [csvCrs, setCsvCrs] = useState<CrsId>(defaultCoordinateCrs);
+  const [csvFormat, setCsvFormat] = useState<CoordinateInputFormat>(defaultCoordinateFormat);
+  const [strategy, setStrategy] = useState<ImportConflictStrategy>('rename');
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setFiles([]);
+    setCsvCrs(defaultCoordinateCrs);
+    setCsvFormat(defaultCoordinateFormat);
+    setStrategy('rename');
+    setIsImporting(false);
+  }, [defaultCoordinateCrs, defaultCoordinateFormat, open]);
+
+  const hasCsv = files.some((file) => detectImportFormat(file.name) === 'csv');
+
+  const preview = useMemo(() => {
+    const results: ImportResult[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        results.push(parseImportFile(file.name, file.text, { crs: csvCrs, format: csvFormat }));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Ошибка чтения файла';
+        errors.push(`${file.name}: ${message}`);
+      }
+    }
+    const result = combineImportResults(results);
+    const conflicts = missionBundle ? detectImportConflicts(missionBundle, result) : [];
+    return { result, errors, conflicts };
+  }, [csvCrs, csvFormat, files, missionBundle]);
+
+  const totalCount = preview.result.routes.length + preview.result.markers.length + preview.result.tracks.length;
+
+  const handleFilesSelected = async (list: FileList | null) => {
+    if (!list || list.length === 0) return;
+    const next = await Promise.all(Array.from(list).map(async (file) => ({ name: file.name, text: await file.text() })));
+    setFiles(next);
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await onImport(preview.result, strategy);
+      onOpenChange(false);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Импорт маршрутов, маркеров и треков</DialogTitle>
+          <DialogDescription>Поддерживаются файлы GPX, KML и CSV.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          <div className="space-y-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="hidden"
+              accept=".gpx,.kml,.csv"
+              multiple
+              onChange={(event) => {
+                void handleFilesSelected(event.target.files);
+                event.currentTarget.value = '';
+              }}
+            />
+            <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <FileUp className="w-4 h-4 mr-2" />
+              Выбрать файлы
+            </Button>
+            {files.length > 0 && (
+              <div className="text-xs text-muted-foreground font-mono">{files.map((file) => file.name).join(', ')}</div>
+            )}
+          </div>
+
+          {hasCsv && (
+            <div className="rounded border border-border/60 bg-muted/30 p-2">
+              <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Система координат (CSV)</Label>
+                  <Select value={csvCrs} onValueChange={(v) => setCsvCrs(v as CrsId)}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {supportedCoordinateCrs.map((crsItem) => (
+                        <SelectItem key={crsItem} value={crsItem}>
+                          {getCrsLabel(crsItem)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Формат координат (CSV)</Label>
+                  <Select value={csvFormat} onValueChange={(v) => setCsvFormat(v as CoordinateInputFormat)}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {coordinateInputFormats.map((item) => (
+                        <SelectItem key={item} value={item}>
+                          {getCoordinateInputFormatLabel(item)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {files.length > 0 && (
+            <div className="border-t border-border pt-4 space-y-3">
+              <div className="text-sm font-medium">Предпросмотр</div>
+              <div className="text-xs text-muted-foreground">
+                {`${preview.result.routes.length} маршрут(ов), ${preview.result.markers.length} маркер(ов), ${preview.result.tracks.length} трек(ов)`}
+              </div>
+              {totalCount > 0 && (
+                <div className="max-h-40 overflow-y-auto space-y-1">
+                  {preview.result.routes.map((route) => (
+                    <div key={route.properties.id} className="flex items-center gap-2 px-2 text-sm">
+                      <span className="truncate">{route.properties.name}</span>
+                      <span className="text-xs text-muted-foreground ml-auto font-mono">
+                        {route.geometry.coordinates.length} pts
+                      </span>
+                    </div>
+                  ))}
+                  {preview.result.markers.map((marker) => (
+                    <div key={marker.properties.id} className="flex items-center gap-2 px-2 text-sm">
+                      <span className="truncate">{marker.properties.name}</span>
+                      <span className="text-xs text-muted-foreground ml-auto">marker</span>
+                    </div>
+                  ))}
+                  {preview.result.tracks.map((track, index) => (
+                    <div key={`${track.name}-${index}`} className="flex items-center gap-2 px-2 text-sm">
+                      <span className="truncate">{track.name}</span>
+                      <span className="text-xs text-muted-foreground ml-auto font-mono">{track.points.length} pts</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {[...preview.errors, ...preview.result.warnings].length > 0 && (
+                <div className="rounded border border-border/60 bg-muted/30 p-2 space-y-1 max-h-32 overflow-y-auto">
+                  {[...preview.errors, ...preview.result.warnings].map((message, index) => (
+                    <div key={index} className="text-xs text-muted-foreground">
+                      {message}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {preview.conflicts.length > 0 && (
+            <div className="rounded border border-border p-3 space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <div className="font-medium">{`Совпадения имён: ${preview.conflicts.length}`}</div>
+                <Select value={strategy} onValueChange={(v) => setStrategy(v as ImportConflictStrategy)}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="rename">Переименовать</SelectItem>
+                    <SelectItem value="replace">Заменить существующие</SelectItem>
+                    <SelectItem value="skip">Пропустить</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="max-h-32 overflow-y-auto space-y-1">
+                {preview.conflicts.map((conflict) => (
+                  <div key={`${conflict.kind}-${conflict.existingId}-${conflict.name}`} className="flex items-center gap-2 px-2 text-sm">
+                    <span className="truncate">{conflict.name}</span>
+                    <span className="text-xs text-muted-foreground ml-auto">{CONFLICT_KIND_LABELS[conflict.kind]}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Отмена
+          </Button>
+          <Button onClick={handleImport} disabled={totalCount === 0 || !missionBundle || isImporting}>
+            Импортировать
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,113 @@
+import { FolderOpen } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { platform } from '@/platform';
+import {
+  LOCAL_TILE_ZOOM_MAX,
+  normalizeLocalTileSource,
+  type LocalTileSource,
+  type LocalTileSourceKind,
+} from '@/platform/mapConfig';
+
+interface LocalTileSourceFieldsProps {
+  idPrefix: string;
+  value: LocalTileSource;
+  onChange: (next: LocalTileSource) => void;
+}
+
+const parseZoom = (value: string, fallback: number): number => {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(0, Math.min(LOCAL_TILE_ZOOM_MAX, Math.trunc(n)));
+};
+
+const LocalTileSourceFields = ({ idPrefix, value, onChange }: LocalTileSourceFieldsProps) => {
+  const handleBrowse = async () => {
+    const picked = await platform.localTiles.pickSource(value.kind);
+    if (!picked) return;
+    const metadata = await platform.localTiles.readMetadata(value.kind, picked);
+    // Package metadata fills the fields; whatever the package lacks keeps the current value.
+    const next = normalizeLocalTileSource({
+      ...value,
+      path: picked,
+      attribution: metadata?.attribution || value.attribution,
+      min_zoom: metadata?.min_zoom ?? value.min_zoom,
+      max_zoom: metadata?.max_zoom ?? value.max_zoom,
+      format: metadata?.format ?? value.format,
+    });
+    onChange(next ?? { ...value, path: picked });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Select
+          value={value.kind}
+          onValueChange={(kind) => onChange({ ...value, kind: kind as LocalTileSourceKind, path: '' })}
+        >
+          <SelectTrigger className="w-44" aria-label="Тип пакета">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="mbtiles">Файл MBTiles</SelectItem>
+            <SelectItem value="directory">Папка {'{z}/{x}/{y}'}</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          id={`${idPrefix}-path`}
+          aria-label="Путь к пакету"
+          className="flex-1 font-mono"
+          placeholder={value.kind === 'mbtiles' ? 'D:/Charts/baltic.mbtiles' : 'D:/Charts/baltic'}
+          value={value.path}
+          onChange={(e) => onChange({ ...value, path: e.target.value })}
+        />
+        <Button type="button" variant="outline" size="sm" onClick={() => void handleBrowse()}>
+          <FolderOpen className="mr-1 h-4 w-4" />
+          Обзор…
+        </Button>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor={`${idPrefix}-attribution`}>Атрибуция</Label>
+        <Input
+          id={`${idPrefix}-attribution`}
+          value={value.attribution}
+          onChange={(e) => onChange({ ...value, attribution: e.target.value })}
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Label htmlFor={`${idPrefix}-min-zoom`}>Масштабы</Label>
+        <Input
+          id={`${idPrefix}-min-zoom`}
+          aria-label="Минимальный масштаб"
+          className="w-16 font-mono"
+          inputMode="numeric"
+          value={String(value.min_zoom)}
+          onChange={(e) => onChange({ ...value, min_zoom: parseZoom(e.target.value, value.min_zoom) })}
+        />
+        <span className="text-muted-foreground">—</span>
+        <Input
+          aria-label="Максимальный масштаб"
+          className="w-16 font-mono"
+          inputMode="numeric"
+          value={String(value.max_zoom)}
+          onChange={(e) => onChange({ ...value, max_zoom: parseZoom(e.target.value, value.max_zoom) })}
+        />
+      </div>
+      <div className="text-xs text-muted-foreground">
+        Ниже минимального масштаба подложка скрыта, выше максимального — увеличиваются тайлы последнего уровня.
+      </div>
+    </div>
+  );
+};
+
+export default LocalTileSourceFields;
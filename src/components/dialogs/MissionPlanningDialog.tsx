@@ -0,0 +1,152 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import RouteTimingTable from '@/components/map/RouteTimingTable';
+import type { MapObject } from '@/features/map/model/types';
+import {
+  DEFAULT_TURN_ALLOWANCE_S,
+  buildLaneTraversal,
+  computeRouteTiming,
+  formatClockTime,
+  formatDurationHms,
+  resolvePlannedSpeedMps,
+  type LaneFeature,
+  type RouteTiming,
+} from '@/features/mission';
+
+interface MissionPlanningDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  objects: MapObject[];
+  laneFeatures: LaneFeature[];
+  defaultPlannedSpeedMps?: number;
+}
+
+type PlanningRow = {
+  object: MapObject;
+  timing: RouteTiming;
+};
+
+const formatDistance = (meters: number): string =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(2)} км` : `${meters.toFixed(1)} м`;
+
+const buildPlanningRows = (
+  objects: MapObject[],
+  laneFeatures: LaneFeature[],
+  defaultPlannedSpeedMps: number | undefined,
+  startTimeMs: number,
+): PlanningRow[] => {
+  const rows: PlanningRow[] = [];
+  for (const object of objects) {
+    const speedMps = resolvePlannedSpeedMps(object.plannedSpeedMps, defaultPlannedSpeedMps);
+    if (object.type === 'route' && object.geometry?.type === 'route' && object.geometry.points.length > 1) {
+      rows.push({ object, timing: computeRouteTiming(object.geometry.points, { speedMps, startTimeMs }) });
+      continue;
+    }
+    if (object.type !== 'zone') continue;
+    const lanes = laneFeatures
+      .filter((lane) => lane.properties.parent_area_id === object.id)
+      .sort((a, b) => a.properties.lane_index - b.properties.lane_index);
+    if (lanes.length === 0) continue;
+    const traversal = buildLaneTraversal(lanes, object.laneStart ?? null, object.laneBearingDeg);
+    rows.push({
+      object,
+      timing: computeRouteTiming(traversal.waypoints, {
+        speedMps,
+        turnAllowanceS: object.turnAllowanceS ?? DEFAULT_TURN_ALLOWANCE_S,
+        startTimeMs,
+      }),
+    });
+  }
+  return rows;
+};
+
+const MissionPlanningDialog = ({
+  open,
+  onOpenChange,
+  objects,
+  laneFeatures,
+  defaultPlannedSpeedMps,
+}: MissionPlanningDialogProps) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const rows = useMemo(
+    () => (open ? buildPlanningRows(objects, laneFeatures, defaultPlannedSpeedMps, Date.now()) : []),
+    [defaultPlannedSpeedMps, laneFeatures, objects, open],
+  );
+  const totalDistanceM = rows.reduce((sum, row) => sum + row.timing.totalDistanceM, 0);
+  const totalDurationS = rows.reduce((sum, row) => sum + row.timing.totalDurationS, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Сводка планирования</DialogTitle>
+          <DialogDescription>
+            Время прохождения маршрутов и обследования зон при плановой скорости. ETA — при старте сейчас.
+          </DialogDescription>
+        </DialogHeader>
+
+        {rows.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            Нет маршрутов или зон с галсами.
+          </div>
+        ) : (
+          <div className="max-h-[60vh] space-y-1 overflow-auto">
+            {rows.map(({ object, timing }) => {
+              const expanded = expandedId === object.id;
+              return (
+                <div key={object.id} className="rounded-md border border-border">
+                  <button
+                    type="button"
+                    className="flex w-full items-center gap-2 px-2 py-1.5 text-left text-sm hover:bg-muted/50"
+                    onClick={() => setExpandedId(expanded ? null : object.id)}
+                    aria-expanded={expanded}
+                  >
+                    {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    <span className="flex-1 truncate">{object.name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {object.type === 'zone' ? 'Зона' : 'Маршрут'} · {timing.speedMps} м/с
+                    </span>
+                    <span className="w-20 text-right font-mono text-xs">{formatDistance(timing.totalDistanceM)}</span>
+                    <span className="w-16 text-right font-mono text-xs">{formatDurationHms(timing.totalDurationS)}</span>
+                    <span className="w-16 text-right font-mono text-xs">{formatClockTime(timing.etaMs)}</span>
+                  </button>
+                  {expanded ? (
+                    <div className="space-y-1 px-2 pb-2">
+                      {object.type === 'zone' ? (
+                        <div className="text-xs text-muted-foreground">
+                          {`Развороты: ${formatDurationHms(timing.totalTurnS)}`}
+                        </div>
+                      ) : null}
+                      <RouteTimingTable timing={timing} />
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter className="items-center sm:justify-between">
+          <div className="text-sm">
+            {`Итого: ${formatDistance(totalDistanceM)} · ${formatDurationHms(totalDurationS)}`}
+          </div>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Закрыть
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MissionPlanningDialog;
@@ -1,4 +1,5 @@
-import { useEffect, useMemo, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Download, Trash2, Upload } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -7,11 +8,22 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { getTileCache } from '@/features/map/offlineTiles/tileCache';
+import { downloadBlob, safeFilename } from '@/features/export';
+import { getTileCache, type TileRegion } from '@/features/map/offlineTiles/tileCache';
 import type { TileBbox } from '@/features/map/offlineTiles/tileMath';
 import { prefetchTiles, type PrefetchProgress } from '@/features/map/offlineTiles/tilePrefetcher';
+import {
+  createTileRegion,
+  exportTileRegion,
+  importMbtilesToCache,
+  removeTileRegion,
+  summarizeTileRegion,
+  type TileRegionSummary,
+} from '@/features/map/offlineTiles/tileRegions';
+import { toast } from '@/hooks/use-toast';
 
 type ViewBounds = {
   north: number;
@@ -30,6 +42,10 @@ interface OfflineMapsDialogProps {
   maxNativeZoom: number;
   viewBounds: ViewBounds;
   currentZoom: number;
+  showRegionFootprints: boolean;
+  onShowRegionFootprintsChange: (show: boolean) => void;
+  /** Called with the stored regions whenever the list is (re)loaded. */
+  onRegionsChange?: (regions: TileRegion[]) => void;
 }
 
 const toFixedString = (value: number): string => value.toFixed(6);
@@ -47,6 +63,8 @@ const bytesToHuman = (value: number): string => {
   return `${(value / 1024 ** 3).toFixed(2)} GB`;
 };
 
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
 const initialProgress: PrefetchProgress = {
   total: 0,
   completed: 0,
@@ -102,6 +120,9 @@ const OfflineMapsDialog = ({
   maxNativeZoom,
   viewBounds,
   currentZoom,
+  showRegionFootprints,
+  onShowRegionFootprintsChange,
+  onRegionsChange,
 }: OfflineMapsDialogProps) => {
   const cache = useMemo(() => getTileCache(), []);
   const [latitude, setLatitude] = useState('0');
@@ -114,7 +135,12 @@ const OfflineMapsDialog = ({
   const [cacheEntries, setCacheEntries] = useState(0);
   const [cacheHits, setCacheHits] = useState(0);
   const [cacheMisses, setCacheMisses] = useState(0);
+  const [regionName, setRegionName] = useState('');
+  const [regions, setRegions] = useState<TileRegionSummary[]>([]);
+  const [busyRegionId, setBusyRegionId] = useState<string | null>(null);
+  const [importProgress, setImportProgress] = useState<{ done: number; total: number } | null>(null);
   const abortRef = useRef<AbortController | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
   const effectiveDownloadMaxZoom = Math.max(
     ZOOM_MIN_ALLOWED,
     Math.min(maxZoom, maxNativeZoom),
@@ -155,6 +181,17 @@ const OfflineMapsDialog = ({
     };
   }, [cache, open]);
 
+  const refreshRegions = useCallback(async () => {
+    const stored = await cache.listRegions();
+    onRegionsChange?.(stored);
+    setRegions(await Promise.all(stored.map((region) => summarizeTileRegion(cache, region))));
+  }, [cache, onRegionsChange]);
+
+  useEffect(() => {
+    if (!open) return;
+    void refreshRegions().catch(() => setRegions([]));
+  }, [open, refreshRegions]);
+
   const applyCurrentViewport = () => {
     if (!viewBounds) return;
     const centerLat = (viewBounds.north + viewBounds.south) / 2;
@@ -200,6 +237,8 @@ const OfflineMapsDialog = ({
       effectiveDownloadMaxZoom,
     );
 
+    const bbox = buildBbox();
+
     try {
       cache.setMaxBytes(await resolveAutoCacheLimitBytes());
       await prefetchTiles({
@@ -207,12 +246,23 @@ const OfflineMapsDialog = ({
         providerKey,
         tileUrlTemplate,
         subdomains: tileSubdomains,
-        bbox: buildBbox(),
+        bbox,
         zoomMin: effectiveZoomMin,
         zoomMax: effectiveZoomMax,
         signal: controller.signal,
         onProgress: (next) => setProgress(next),
       });
+      await cache.saveRegion(
+        createTileRegion({
+          name: regionName,
+          provider: providerKey,
+          bbox,
+          zoomMin: effectiveZoomMin,
+          zoomMax: effectiveZoomMax,
+        }),
+      );
+      setRegionName('');
+      await refreshRegions();
     } catch {
       // cancelled
     } finally {
@@ -235,6 +285,7 @@ const OfflineMapsDialog = ({
   const handleClear = async () => {
     if (isRunning) return;
     await cache.clear();
+    await refreshRegions();
     setProgress(initialProgress);
     setCacheSize(0);
     setCacheEntries(0);
@@ -242,6 +293,51 @@ const OfflineMapsDialog = ({
     setCacheMisses(0);
   };
 
+  const handleExportRegion = async (region: TileRegion) => {
+    setBusyRegionId(region.id);
+    try {
+      const { bytes, tiles } = await exportTileRegion(cache, region);
+      const blob = new Blob([bytes], { type: 'application/vnd.sqlite3' });
+      downloadBlob(blob, `${safeFilename(region.name) || 'region'}.mbtiles`);
+      toast({ title: 'Область экспортирована', description: `${region.name}: ${tiles} тайлов, ${bytesToHuman(bytes.length)}` });
+    } catch (error) {
+      toast({ title: 'Не удалось экспортировать область', description: errorMessage(error), variant: 'destructive' });
+    } finally {
+      setBusyRegionId(null);
+    }
+  };
+
+  const handleRemoveRegion = async (region: TileRegion) => {
+    setBusyRegionId(region.id);
+    try {
+      await removeTileRegion(cache, region);
+      await refreshRegions();
+    } catch (error) {
+      toast({ title: 'Не удалось удалить область', description: errorMessage(error), variant: 'destructive' });
+    } finally {
+      setBusyRegionId(null);
+    }
+  };
+
+  const handleImportFile = async (file: File) => {
+    setImportProgress({ done: 0, total: 0 });
+    try {
+      cache.setMaxBytes(await resolveAutoCacheLimitBytes());
+      const { region, imported } = await importMbtilesToCache(cache, await file.arrayBuffer(), {
+        provider: providerKey,
+        fallbackName: file.name.replace(/\.mbtiles$/i, ''),
+        onProgress: (done, total) => setImportProgress({ done, total }),
+      });
+      await refreshRegions();
+      toast({ title: 'Пакет MBTiles импортирован', description: `${region.name}: ${imported} тайлов` });
+    } catch (error) {
+      toast({ title: 'Не удалось импортировать MBTiles', description: errorMessage(error), variant: 'destructive' });
+    } finally {
+      setImportProgress(null);
+    }
+  };
+
+  const isImporting = importProgress !== null;
   const progressPercent = progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
 
   return (
@@ -261,6 +357,16 @@ const OfflineMapsDialog = ({
             </Button>
           </div>
 
+          <div className="space-y-1">
+            <Label htmlFor="region-name">Название области</Label>
+            <Input
+              id="region-name"
+              placeholder={`Область ${new Date().toLocaleDateString('ru-RU')}`}
+              value={regionName}
+              onChange={(e) => setRegionName(e.target.value)}
+            />
+          </div>
+
           <div className="grid grid-cols-2 gap-3">
             <div className="space-y-1">
               <Label htmlFor="bbox-latitude">Широта</Label>
@@ -332,10 +438,91 @@ const OfflineMapsDialog = ({
               Найдено в кэше: {cacheHits}, Загрузок из сети: {cacheMisses}
             </div>
           </div>
+
+          <div className="rounded-md border border-border p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium">Сохранённые области</span>
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                  <Checkbox
+                    checked={showRegionFootprints}
+                    onCheckedChange={(checked) => onShowRegionFootprintsChange(checked === true)}
+                  />
+                  На карте
+                </label>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  className="hidden"
+                  accept=".mbtiles"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    if (file) void handleImportFile(file);
+                    event.currentTarget.value = '';
+                  }}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={isRunning || isImporting}
+                >
+                  <Upload className="mr-1 h-4 w-4" />
+                  {importProgress
+                    ? `Импорт ${importProgress.done}/${importProgress.total}`
+                    : 'Импорт MBTiles…'}
+                </Button>
+              </div>
+            </div>
+            {regions.length === 0 ? (
+              <div className="text-sm text-muted-foreground">
+                Областей нет. Скачайте тайлы или импортируйте пакет MBTiles с другого компьютера.
+              </div>
+            ) : (
+              <div className="max-h-48 space-y-1 overflow-y-auto">
+                {regions.map(({ region, expectedTiles, storedTiles, storedBytes }) => (
+                  <div
+                    key={region.id}
+                    className="flex items-center gap-2 rounded border border-border px-2 py-1 text-sm"
+                    data-testid="tile-region-row"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate">{region.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        Зум {region.zoom_min}–{region.zoom_max}, {storedTiles}/{expectedTiles} тайлов,{' '}
+                        {bytesToHuman(storedBytes)}
+                        {region.provider !== providerKey ? ' · другая подложка' : ''}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Экспорт в MBTiles"
+                      onClick={() => void handleExportRegion(region)}
+                      disabled={busyRegionId !== null || storedTiles === 0}
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Удалить область и её тайлы"
+                      onClick={() => void handleRemoveRegion(region)}
+                      disabled={busyRegionId !== null || isRunning || isImporting}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
 
         <DialogFooter>
-          <Button variant="outline" onClick={handleClear} disabled={isRunning}>Очистить кэш</Button>
+          <Button variant="outline" onClick={handleClear} disabled={isRunning || isImporting}>Очистить кэш</Button>
           {isRunning ? (
             <Button variant="destructive" onClick={handleStop}>Остановить</Button>
           ) : (
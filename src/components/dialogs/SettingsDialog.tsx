@@ -20,6 +20,7 @@ import {
 } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import LocalTileSourceFields from './LocalTileSourceFields';
 import {
   APP_SETTINGS_SCHEMA_VERSION,
   applyAppTheme,
@@ -28,13 +29,19 @@ import {
   writeStoredAppTheme,
   type AppTheme,
   type AppUiDefaults,
+  type BasemapSourceMode,
 } from '@/features/settings';
 import {
+  ASCENT_RATE_LIMIT_MPM,
   DIVER_BEACON_ID_MAX,
   DIVER_BEACON_ID_MIN,
+  DEFAULT_PLANNED_SPEED_MPS,
   type DiverUiConfig,
+  type MissionBasemapSettings,
   type NavigationSourceId,
 } from '@/features/mission';
+import { platform } from '@/platform';
+import { normalizeLocalTileSource, type LocalTileSource } from '@/platform/mapConfig';
 import {
   clampDiverMarkerSizePx,
   DIVER_MARKER_SIZE_DEFAULT_PX,
@@ -57,6 +64,8 @@ interface SettingsDialogProps {
   baseStationNavigationSource: NavigationSourceId | null;
   baseStationTrackColor: string;
   baseStationMarkerSizePx: number;
+  missionBasemap?: MissionBasemapSettings;
+  onApplyMissionBasemap?: (next: MissionBasemapSettings) => Promise<void> | void;
   onApply: (next: AppUiDefaults) => Promise<void> | void;
   onApplyDivers: (next: DiverUiConfig[]) => Promise<void> | void;
   onApplyBaseStationNavigationSource: (next: NavigationSourceId | null) => Promise<void> | void;
@@ -92,6 +101,24 @@ const clampNumber = (value: string, fallback: number, min: number, max: number):
   return Math.max(min, Math.min(max, n));
 };
 
+const EMPTY_LOCAL_TILE_SOURCE: LocalTileSource = {
+  kind: 'mbtiles',
+  path: '',
+  attribution: '',
+  min_zoom: 0,
+  max_zoom: 18,
+};
+
+const DEFAULT_MISSION_BASEMAP: MissionBasemapSettings = { source: 'default' };
+
+// Tiles are served only for registered packages; the id follows the path, so it is refreshed on every apply.
+const registerLocalTileSource = async (source: LocalTileSource | null | undefined): Promise<LocalTileSource | null> => {
+  const normalized = normalizeLocalTileSource(source);
+  if (!normalized) return null;
+  const id = await platform.localTiles.registerSource(normalized);
+  return normalizeLocalTileSource({ ...normalized, id });
+};
+
 const SettingsDialog = ({
   open,
   onOpenChange,
@@ -102,6 +129,8 @@ const SettingsDialog = ({
   baseStationNavigationSource,
   baseStationTrackColor,
   baseStationMarkerSizePx,
+  missionBasemap = DEFAULT_MISSION_BASEMAP,
+  onApplyMissionBasemap,
   onApply,
   onApplyDivers,
   onApplyBaseStationNavigationSource,
@@ -124,6 +153,7 @@ const SettingsDialog = ({
   );
   const [baseStationTrackColorDraft, setBaseStationTrackColorDraft] = useState<string>(baseStationTrackColor);
   const [baseStationMarkerSizePxDraft, setBaseStationMarkerSizePxDraft] = useState<number>(baseStationMarkerSizePx);
+  const [missionBasemapDraft, setMissionBasemapDraft] = useState<MissionBasemapSettings>(missionBasemap);
   const [isDirty, setIsDirty] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [themeDraft, setThemeDraft] = useState<AppTheme>(() => readStoredAppTheme());
@@ -142,9 +172,18 @@ const SettingsDialog = ({
     setBaseStationSourceDraft(baseStationNavigationSource);
     setBaseStationTrackColorDraft(baseStationTrackColor);
     setBaseStationMarkerSizePxDraft(baseStationMarkerSizePx);
+    setMissionBasemapDraft(missionBasemap);
     setThemeDraft(readStoredAppTheme());
     setIsDirty(false);
-  }, [open, value, missionDivers, baseStationNavigationSource, baseStationTrackColor, baseStationMarkerSizePx]);
+  }, [
+    open,
+    value,
+    missionDivers,
+    baseStationNavigationSource,
+    baseStationTrackColor,
+    baseStationMarkerSizePx,
+    missionBasemap,
+  ]);
 
   const update = (next: AppUiDefaults) => {
     setDraft(next);
@@ -166,6 +205,11 @@ const SettingsDialog = ({
     setIsDirty(true);
   };
 
+  const updateMissionBasemap = (next: MissionBasemapSettings) => {
+    setMissionBasemapDraft(next);
+    setIsDirty(true);
+  };
+
   const updateTheme = (next: AppTheme) => {
     setThemeDraft(next);
     setIsDirty(true);
@@ -205,15 +249,24 @@ const SettingsDialog = ({
   const handleApply = async () => {
     setIsSaving(true);
     try {
+      const local = await registerLocalTileSource(draft.basemap.local);
       const normalized = normalizeAppSettings({
         schema_version: APP_SETTINGS_SCHEMA_VERSION,
-        defaults: draft,
+        defaults: { ...draft, basemap: { ...draft.basemap, local } },
       }).defaults;
       await onApply(normalized);
       await onApplyDivers(diversDraft);
       await onApplyBaseStationNavigationSource(baseStationSourceDraft);
       await onApplyBaseStationTrackColor(baseStationTrackColorDraft);
       await onApplyBaseStationMarkerSizePx(baseStationMarkerSizePxDraft);
+      if (onApplyMissionBasemap) {
+        const missionLocal = await registerLocalTileSource(missionBasemapDraft.local);
+        await onApplyMissionBasemap(
+          missionBasemapDraft.source === 'local' && !missionLocal
+            ? DEFAULT_MISSION_BASEMAP
+            : { source: missionBasemapDraft.source, ...(missionLocal ? { local: missionLocal } : {}) },
+        );
+      }
       writeStoredAppTheme(themeDraft);
       applyAppTheme(themeDraft);
       setIsDirty(false);
@@ -234,6 +287,7 @@ const SettingsDialog = ({
       setBaseStationSourceDraft(null);
       setBaseStationTrackColorDraft(draft.styles.track.color);
       setBaseStationMarkerSizePxDraft(34);
+      setMissionBasemapDraft(DEFAULT_MISSION_BASEMAP);
       setThemeDraft('dark');
       writeStoredAppTheme('dark');
       applyAppTheme('dark');
@@ -687,6 +741,69 @@ const SettingsDialog = ({
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label>Подложка по умолчанию</Label>
+                <Select
+                  value={draft.basemap.source}
+                  onValueChange={(v) =>
+                    update({
+                      ...draft,
+                      basemap: {
+                        source: v as BasemapSourceMode,
+                        local: draft.basemap.local ?? (v === 'local' ? EMPTY_LOCAL_TILE_SOURCE : null),
+                      },
+                    })
+                  }
+                >
+                  <SelectTrigger className="w-56" aria-label="Подложка по умолчанию">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="online">Онлайн-карта</SelectItem>
+                    <SelectItem value="local">Локальный пакет карт</SelectItem>
+                  </SelectContent>
+                </Select>
+                {draft.basemap.source === 'local' ? (
+                  <LocalTileSourceFields
+                    idPrefix="default-basemap"
+                    value={draft.basemap.local ?? EMPTY_LOCAL_TILE_SOURCE}
+                    onChange={(local) => update({ ...draft, basemap: { ...draft.basemap, local } })}
+                  />
+                ) : null}
+              </div>
+
+              {onApplyMissionBasemap ? (
+                <div className="space-y-2">
+                  <Label>Подложка текущей миссии</Label>
+                  <Select
+                    value={missionBasemapDraft.source}
+                    onValueChange={(v) =>
+                      updateMissionBasemap({
+                        ...missionBasemapDraft,
+                        source: v as MissionBasemapSettings['source'],
+                        ...(v === 'local' && !missionBasemapDraft.local ? { local: EMPTY_LOCAL_TILE_SOURCE } : {}),
+                      })
+                    }
+                  >
+                    <SelectTrigger className="w-56" aria-label="Подложка текущей миссии">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Как по умолчанию</SelectItem>
+                      <SelectItem value="online">Онлайн-карта</SelectItem>
+                      <SelectItem value="local">Локальный пакет карт</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {missionBasemapDraft.source === 'local' ? (
+                    <LocalTileSourceFields
+                      idPrefix="mission-basemap"
+                      value={missionBasemapDraft.local ?? EMPTY_LOCAL_TILE_SOURCE}
+                      onChange={(local) => updateMissionBasemap({ ...missionBasemapDraft, local })}
+                    />
+                  ) : null}
+                </div>
+              ) : null}
+
               <label className="flex items-center gap-3">
                 <Checkbox
                   checked={draft.follow_diver}
@@ -937,6 +1054,45 @@ const SettingsDialog = ({
                             />
                           </div>
                         </div>
+
+                        <div className="grid grid-cols-3 gap-3">
+                          <div className="space-y-1.5">
+                            <Label>Плановая скорость (м/с)</Label>
+                            <Input
+                              inputMode="decimal"
+                              type="number"
+                              min={0.1}
+                              step={0.1}
+                              placeholder={String(DEFAULT_PLANNED_SPEED_MPS)}
+                              value={diver.planned_speed_mps === undefined ? '' : String(diver.planned_speed_mps)}
+                              onChange={(e) => {
+                                const next = Number(e.target.value);
+                                updateDiver(index, {
+                                  planned_speed_mps:
+                                    e.target.value.trim() !== '' && Number.isFinite(next) && next >= 0 ? next : undefined,
+                                });
+                              }}
+                            />
+                          </div>
+                          <div className="space-y-1.5">
+                            <Label>Предел всплытия (м/мин)</Label>
+                            <Input
+                              inputMode="decimal"
+                              type="number"
+                              min={1}
+                              step={1}
+                              placeholder={String(ASCENT_RATE_LIMIT_MPM)}
+                              value={diver.max_ascent_rate_mpm === undefined ? '' : String(diver.max_ascent_rate_mpm)}
+                              onChange={(e) => {
+                                const next = Number(e.target.value);
+                                updateDiver(index, {
+                                  max_ascent_rate_mpm:
+                                    e.target.value.trim() !== '' && Number.isFinite(next) && next > 0 ? next : undefined,
+                                });
+                              }}
+                            />
+                          </div>
+                        </div>
                       </div>
                     );
                   })}
@@ -0,0 +1,117 @@
+import { useEffect } from 'react';
+import { BellRing, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { formatClockTime, getAlarmRuleLabel, type ActiveAlarm } from '@/features/mission';
+
+const BEEP_INTERVAL_MS = 2000;
+const BEEP_DURATION_S = 0.25;
+const BEEP_FREQUENCY_HZ = 880;
+
+interface AlarmPanelProps {
+  alarms: ActiveAlarm[];
+  onAcknowledge: (keys: string[] | 'all') => void;
+}
+
+type AudioContextConstructor = new () => AudioContext;
+type AudioWindow = Window & {
+  AudioContext?: AudioContextConstructor;
+  webkitAudioContext?: AudioContextConstructor;
+};
+
+const resolveAudioContext = (): AudioContextConstructor | null => {
+  if (typeof window === 'undefined') return null;
+  const scope = window as AudioWindow;
+  return scope.AudioContext ?? scope.webkitAudioContext ?? null;
+};
+
+/** Repeats a short tone while `active` is set; silently does nothing without Web Audio. */
+const useAlarmBeep = (active: boolean) => {
+  useEffect(() => {
+    if (!active) return;
+    const AudioContextCtor = resolveAudioContext();
+    if (!AudioContextCtor) return;
+
+    let context: AudioContext | null = null;
+    const beep = () => {
+      try {
+        context ??= new AudioContextCtor();
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        oscillator.frequency.value = BEEP_FREQUENCY_HZ;
+        gain.gain.value = 0.2;
+        oscillator.connect(gain);
+        gain.connect(context.destination);
+        oscillator.start();
+        oscillator.stop(context.currentTime + BEEP_DURATION_S);
+      } catch (error) {
+        console.warn('Alarm tone is unavailable', error);
+      }
+    };
+
+    beep();
+    const intervalId = window.setInterval(beep, BEEP_INTERVAL_MS);
+    return () => {
+      window.clearInterval(intervalId);
+      void context?.close().catch(() => {
+        // Closing a context that never started is not an error worth reporting.
+      });
+    };
+  }, [active]);
+};
+
+const AlarmPanel = ({ alarms, onAcknowledge }: AlarmPanelProps) => {
+  const unacknowledged = alarms.filter((alarm) => alarm.acknowledged_at === null);
+  useAlarmBeep(unacknowledged.length > 0);
+
+  if (alarms.length === 0) return null;
+
+  return (
+    <div
+      className="absolute right-4 top-16 z-[1000] w-[min(360px,calc(100%-2rem))] rounded-md border border-destructive/60 bg-card/95 shadow-lg"
+      data-testid="alarm-panel"
+      role="alert"
+    >
+      <div className="flex items-center gap-2 border-b border-border px-3 py-2">
+        <BellRing className={cn('h-4 w-4 text-destructive', unacknowledged.length > 0 && 'animate-pulse')} />
+        <span className="flex-1 text-sm font-medium">{`Тревоги: ${alarms.length}`}</span>
+        {unacknowledged.length > 1 ? (
+          <Button size="sm" variant="outline" className="h-7" onClick={() => onAcknowledge('all')}>
+            Подтвердить все
+          </Button>
+        ) : null}
+      </div>
+      <div className="max-h-64 overflow-auto">
+        {alarms.map((alarm) => (
+          <div
+            key={alarm.key}
+            className={cn(
+              'flex items-start gap-2 border-b border-border/60 px-3 py-2 text-xs last:border-b-0',
+              alarm.acknowledged_at === null ? 'bg-destructive/10' : 'text-muted-foreground',
+            )}
+          >
+            <div className="min-w-0 flex-1">
+              <div className="font-medium">{`${alarm.subject_name} · ${getAlarmRuleLabel(alarm.kind)}`}</div>
+              <div>{alarm.message}</div>
+              <div className="text-muted-foreground">{`с ${formatClockTime(alarm.raised_at)}`}</div>
+            </div>
+            {alarm.acknowledged_at === null ? (
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 shrink-0"
+                aria-label="Подтвердить тревогу"
+                title="Подтвердить"
+                onClick={() => onAcknowledge([alarm.key])}
+              >
+                <Check className="h-4 w-4" />
+              </Button>
+            ) : null}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AlarmPanel;
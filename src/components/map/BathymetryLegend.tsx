@@ -0,0 +1,31 @@
+import { DEPTH_RAMP_CSS_GRADIENT } from '@/features/map/bathymetry/colorRamp';
+
+interface BathymetryLegendProps {
+  name: string;
+  minDepth: number;
+  maxDepth: number;
+}
+
+const formatLegendDepth = (depth: number): string => `${depth.toFixed(depth >= 100 ? 0 : 1)} м`;
+
+const BathymetryLegend = ({ name, minDepth, maxDepth }: BathymetryLegendProps) => {
+  const middle = (minDepth + maxDepth) / 2;
+  return (
+    <div
+      className="pointer-events-none absolute top-4 right-4 z-[1000] rounded border border-border bg-card/90 px-2 py-1.5 text-[11px] backdrop-blur-sm"
+      data-testid="bathymetry-legend"
+    >
+      <div className="mb-1 max-w-[140px] truncate font-medium text-foreground">{name}</div>
+      <div className="flex gap-2">
+        <div className="h-24 w-3 rounded-sm border border-border" style={{ background: DEPTH_RAMP_CSS_GRADIENT }} />
+        <div className="flex h-24 flex-col justify-between font-mono text-muted-foreground">
+          <span>{formatLegendDepth(minDepth)}</span>
+          <span>{formatLegendDepth(middle)}</span>
+          <span>{formatLegendDepth(maxDepth)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BathymetryLegend;
@@ -17,7 +17,10 @@ interface CachedTileLayerProps {
   subdomains?: string | string[];
   tileSize?: number;
   maxNativeZoom?: number;
+  minZoom?: number;
   maxCacheBytes?: number;
+  /** Read tiles straight from the source, e.g. a local MBTiles package that needs no offline copy. */
+  bypassCache?: boolean;
   opacity?: number;
   zIndex?: number;
   placeholderTileUrl?: string;
@@ -123,7 +126,9 @@ const CachedTileLayer = ({
   subdomains,
   tileSize = 256,
   maxNativeZoom,
+  minZoom,
   maxCacheBytes,
+  bypassCache = false,
   opacity = 1,
   zIndex = 1,
   placeholderTileUrl = DEFAULT_PLACEHOLDER_TILE,
@@ -154,6 +159,7 @@ const CachedTileLayer = ({
         tileSize,
         opacity,
         zIndex,
+        ...(typeof minZoom === 'number' && Number.isFinite(minZoom) ? { minZoom } : {}),
         updateWhenIdle: true,
         updateWhenZooming: false,
         keepBuffer: 3,
@@ -265,6 +271,19 @@ const CachedTileLayer = ({
 
             const key = cache.makeKey(providerKey, normalized.z, normalized.x, normalized.y);
             const url = resolveTileUrl(urlTemplate, normalized, subdomains);
+            if (bypassCache) {
+              const response = await fetch(url);
+              if (!response.ok) {
+                throw new Error(`HTTP ${response.status}`);
+              }
+              const blob = await response.blob();
+              if (!isImageBlob(blob)) {
+                throw new Error('Invalid image tile');
+              }
+              await applySourceBlob(blob, request);
+              return;
+            }
+
             const loadFromNetwork = async () => {
               const response = await fetch(url);
               if (!response.ok) {
@@ -324,10 +343,12 @@ const CachedTileLayer = ({
       layer.removeFrom(map);
     };
   }, [
+    bypassCache,
     errorTileUrl,
     map,
     maxCacheBytes,
     maxNativeZoom,
+    minZoom,
     opacity,
     placeholderTileUrl,
     providerKey,
@@ -0,0 +1,238 @@
+import { useMemo, useState } from 'react';
+import { Brush, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { AreaChart as AreaChartIcon, Download, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  formatClockTime,
+  formatDurationHms,
+  type DiveProfileStats,
+  type ProfileSample,
+} from '@/features/mission';
+import { cn } from '@/lib/utils';
+
+/** Recharts redraws every point on hover; longer profiles are thinned for the chart only. */
+const MAX_CHART_POINTS = 1500;
+
+type ProfileSeries = 'depth' | 'speed' | 'course';
+type ProfileAxis = 'time' | 'distance';
+
+const chartConfig = {
+  depth: { label: 'Глубина, м', color: 'hsl(217 91% 45%)' },
+  speed: { label: 'Скорость, м/с', color: 'hsl(142 71% 35%)' },
+  course: { label: 'Курс, °', color: 'hsl(25 95% 50%)' },
+} satisfies ChartConfig;
+
+interface DepthProfilePanelProps {
+  sources: Array<{ id: string; label: string }>;
+  sourceId: string | null;
+  onSourceChange: (id: string) => void;
+  samples: ProfileSample[];
+  /** Null for profiles without a time axis or depth readings. */
+  stats: DiveProfileStats | null;
+  onCursorChange: (sample: ProfileSample | null) => void;
+  onExportCsv: () => void;
+  onClose: () => void;
+}
+
+const formatDistance = (meters: number): string =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(2)} км` : `${Math.round(meters)} м`;
+
+const DepthProfilePanel = ({
+  sources,
+  sourceId,
+  onSourceChange,
+  samples,
+  stats,
+  onCursorChange,
+  onExportCsv,
+  onClose,
+}: DepthProfilePanelProps) => {
+  const [axis, setAxis] = useState<ProfileAxis>('time');
+  const [visibleSeries, setVisibleSeries] = useState<Record<ProfileSeries, boolean>>({
+    depth: true,
+    speed: false,
+    course: false,
+  });
+
+  const hasTime = samples.length > 0 && samples.every((sample) => sample.timeMs !== null);
+  const effectiveAxis: ProfileAxis = hasTime ? axis : 'distance';
+  const available = useMemo<Record<ProfileSeries, boolean>>(
+    () => ({
+      depth: samples.some((sample) => sample.depthM !== null),
+      speed: samples.some((sample) => sample.speedMps !== null),
+      course: samples.some((sample) => sample.courseDeg !== null),
+    }),
+    [samples],
+  );
+
+  const data = useMemo(() => {
+    const stride = Math.max(1, Math.ceil(samples.length / MAX_CHART_POINTS));
+    const rows: Array<{ index: number; x: number; depth: number | null; speed: number | null; course: number | null }> =
+      [];
+    for (let index = 0; index < samples.length; index += stride) {
+      const sample = samples[index];
+      rows.push({
+        index,
+        x: effectiveAxis === 'time' ? (sample.timeMs as number) : sample.distanceM,
+        depth: sample.depthM,
+        speed: sample.speedMps,
+        course: sample.courseDeg,
+      });
+    }
+    return rows;
+  }, [effectiveAxis, samples]);
+
+  const formatX = (value: number): string => (effectiveAxis === 'time' ? formatClockTime(value) : formatDistance(value));
+  const showSeries = (series: ProfileSeries) => visibleSeries[series] && available[series];
+
+  return (
+    <div
+      className="absolute bottom-10 left-4 z-[1000] flex w-[min(760px,calc(100%-2rem))] flex-col gap-2 rounded-md border border-border bg-card/95 px-3 py-2 shadow-lg"
+      data-testid="depth-profile-panel"
+    >
+      <div className="flex items-center gap-2">
+        <AreaChartIcon className="h-4 w-4 text-primary" />
+        <Select value={sourceId ?? undefined} onValueChange={onSourceChange}>
+          <SelectTrigger className="h-8 w-64 text-xs" aria-label="Трек или маршрут">
+            <SelectValue placeholder="Выберите трек или маршрут" />
+          </SelectTrigger>
+          <SelectContent>
+            {sources.map((source) => (
+              <SelectItem key={source.id} value={source.id}>
+                {source.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={effectiveAxis} onValueChange={(next) => setAxis(next as ProfileAxis)} disabled={!hasTime}>
+          <SelectTrigger className="h-8 w-36 text-xs" aria-label="Ось X">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="time">По времени</SelectItem>
+            <SelectItem value="distance">По дистанции</SelectItem>
+          </SelectContent>
+        </Select>
+        {(Object.keys(chartConfig) as ProfileSeries[]).map((series) => (
+          <label
+            key={series}
+            className={cn('flex items-center gap-1 text-xs', !available[series] && 'text-muted-foreground')}
+          >
+            <Checkbox
+              checked={showSeries(series)}
+              disabled={!available[series]}
+              onCheckedChange={(checked) => setVisibleSeries((prev) => ({ ...prev, [series]: checked === true }))}
+            />
+            {chartConfig[series].label}
+          </label>
+        ))}
+        <div className="flex-1" />
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          aria-label="Экспорт профиля в CSV"
+          title="Экспорт CSV"
+          disabled={samples.length === 0}
+          onClick={onExportCsv}
+        >
+          <Download className="h-4 w-4" />
+        </Button>
+        <Button size="icon" variant="ghost" className="h-7 w-7" aria-label="Закрыть профиль" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {samples.length === 0 ? (
+        <div className="py-6 text-center text-sm text-muted-foreground">Нет данных для профиля.</div>
+      ) : (
+        <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+          <LineChart
+            data={data}
+            margin={{ top: 4, right: 8, bottom: 0, left: 0 }}
+            onMouseMove={(state) => {
+              const row = typeof state?.activeTooltipIndex === 'number' ? data[state.activeTooltipIndex] : undefined;
+              onCursorChange(row ? samples[row.index] : null);
+            }}
+            onMouseLeave={() => onCursorChange(null)}
+          >
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="x"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={formatX}
+              tickLine={false}
+              minTickGap={32}
+            />
+            {/* Depth grows downwards, as on a dive profile. */}
+            <YAxis yAxisId="depth" reversed hide={!showSeries('depth')} width={40} tickLine={false} />
+            <YAxis yAxisId="speed" orientation="right" hide={!showSeries('speed')} width={36} tickLine={false} />
+            <YAxis yAxisId="course" orientation="right" domain={[0, 360]} hide width={0} />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => {
+                    const x = payload?.[0]?.payload?.x;
+                    return typeof x === 'number' ? formatX(x) : '';
+                  }}
+                />
+              }
+            />
+            {(Object.keys(chartConfig) as ProfileSeries[]).map((series) =>
+              showSeries(series) ? (
+                <Line
+                  key={series}
+                  yAxisId={series}
+                  dataKey={series}
+                  type="linear"
+                  stroke={`var(--color-${series})`}
+                  strokeWidth={1.5}
+                  dot={false}
+                  connectNulls={false}
+                  isAnimationActive={false}
+                />
+              ) : null,
+            )}
+            <Brush dataKey="x" height={18} tickFormatter={formatX} travellerWidth={8} />
+          </LineChart>
+        </ChartContainer>
+      )}
+
+      {stats ? (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs" data-testid="depth-profile-stats">
+          <span>
+            <span className="text-muted-foreground">Макс. глубина: </span>
+            <span className="font-mono">{stats.maxDepthM.toFixed(1)} м</span>
+          </span>
+          <span>
+            <span className="text-muted-foreground">Погружение: </span>
+            <span className="font-mono">{formatDurationHms(stats.diveTimeS)}</span>
+          </span>
+          <span>
+            <span className="text-muted-foreground">Донное время: </span>
+            <span className="font-mono">{formatDurationHms(stats.bottomTimeS)}</span>
+          </span>
+          <span className={cn(stats.ascentRateExceeded && 'text-destructive')}>
+            <span className={cn(!stats.ascentRateExceeded && 'text-muted-foreground')}>Макс. скорость всплытия: </span>
+            <span className="font-mono">{stats.maxAscentRateMpm.toFixed(1)} м/мин</span>
+            {stats.ascentRateExceeded ? ` (больше ${stats.ascentRateLimitMpm} м/мин)` : ''}
+          </span>
+          <span>
+            <span className="text-muted-foreground">Финальное всплытие: </span>
+            <span className="font-mono">{stats.finalAscentRateMpm.toFixed(1)} м/мин</span>
+          </span>
+          <span>
+            <span className="text-muted-foreground">Макс. скорость погружения: </span>
+            <span className="font-mono">{stats.maxDescentRateMpm.toFixed(1)} м/мин</span>
+          </span>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default DepthProfilePanel;
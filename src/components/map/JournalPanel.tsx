@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download, MapPin, NotebookPen, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import {
+  JOURNAL_QUICK_ENTRIES,
+  formatClockTime,
+  getJournalKindLabel,
+  type JournalEntry,
+} from '@/features/mission';
+
+interface JournalPanelProps {
+  entries: JournalEntry[];
+  /** Name of the agent whose position can be attached; null when no agent with a fix is selected. */
+  attachableAgentName: string | null;
+  canWrite: boolean;
+  onAddEntry: (text: string, attachPosition: boolean) => void;
+  onEntrySelect: (entry: JournalEntry) => void;
+  onExportCsv: () => void;
+  onClose: () => void;
+}
+
+const hasPosition = (entry: JournalEntry): boolean => entry.lat !== null && entry.lon !== null;
+
+const JournalPanel = ({
+  entries,
+  attachableAgentName,
+  canWrite,
+  onAddEntry,
+  onEntrySelect,
+  onExportCsv,
+  onClose,
+}: JournalPanelProps) => {
+  const [text, setText] = useState('');
+  const [attachPosition, setAttachPosition] = useState(true);
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [entries.length]);
+
+  const canAttach = attachableAgentName !== null;
+
+  const submit = (value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed || !canWrite) return;
+    onAddEntry(trimmed, canAttach && attachPosition);
+  };
+
+  const handleSubmitText = () => {
+    if (!text.trim()) return;
+    submit(text);
+    setText('');
+  };
+
+  return (
+    <div
+      className="absolute bottom-10 right-4 z-[1000] flex max-h-[60vh] w-[min(380px,calc(100%-2rem))] flex-col rounded-md border border-border bg-card/95 shadow-lg"
+      data-testid="journal-panel"
+    >
+      <div className="flex items-center gap-2 border-b border-border px-3 py-2">
+        <NotebookPen className="h-4 w-4 text-primary" />
+        <span className="flex-1 text-sm font-medium">{`Журнал миссии: ${entries.length}`}</span>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          aria-label="Экспорт журнала в CSV"
+          title="Экспорт CSV"
+          disabled={entries.length === 0}
+          onClick={onExportCsv}
+        >
+          <Download className="h-4 w-4" />
+        </Button>
+        <Button size="icon" variant="ghost" className="h-7 w-7" aria-label="Закрыть журнал" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div ref={listRef} className="min-h-0 flex-1 overflow-auto">
+        {entries.length === 0 ? (
+          <div className="px-3 py-4 text-center text-xs text-muted-foreground">Записей пока нет.</div>
+        ) : null}
+        {entries.map((entry) => {
+          const located = hasPosition(entry);
+          return (
+            <button
+              key={entry.id}
+              type="button"
+              className={cn(
+                'flex w-full items-start gap-2 border-b border-border/60 px-3 py-1.5 text-left text-xs last:border-b-0',
+                located ? 'hover:bg-accent' : 'cursor-default',
+              )}
+              disabled={!located}
+              title={located ? 'Показать на карте' : undefined}
+              onClick={() => onEntrySelect(entry)}
+              data-testid="journal-entry"
+            >
+              <span className="shrink-0 font-mono text-muted-foreground">{formatClockTime(Date.parse(entry.at))}</span>
+              <span className="min-w-0 flex-1">
+                {entry.kind !== 'note' ? (
+                  <span className="mr-1 text-muted-foreground">{`[${getJournalKindLabel(entry.kind)}]`}</span>
+                ) : null}
+                {entry.agent_name ? <span className="mr-1 font-medium">{`${entry.agent_name}:`}</span> : null}
+                <span className="break-words">{entry.text}</span>
+              </span>
+              {located ? <MapPin className="mt-0.5 h-3.5 w-3.5 shrink-0 text-primary" /> : null}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2 border-t border-border px-3 py-2">
+        <div className="flex flex-wrap gap-1">
+          {JOURNAL_QUICK_ENTRIES.map((item) => (
+            <Button
+              key={item}
+              size="sm"
+              variant="outline"
+              className="h-6 px-2 text-[11px]"
+              disabled={!canWrite}
+              onClick={() => submit(item)}
+            >
+              {item}
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            className="h-8 text-xs"
+            placeholder="Текст записи"
+            value={text}
+            disabled={!canWrite}
+            onChange={(event) => setText(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') handleSubmitText();
+            }}
+          />
+          <Button size="sm" className="h-8" disabled={!canWrite || !text.trim()} onClick={handleSubmitText}>
+            Записать
+          </Button>
+        </div>
+        <label className={cn('flex items-center gap-2 text-xs', !canAttach && 'text-muted-foreground')}>
+          <Checkbox
+            checked={canAttach && attachPosition}
+            disabled={!canAttach}
+            onCheckedChange={(checked) => setAttachPosition(checked === true)}
+          />
+          {canAttach ? `Прикрепить позицию: ${attachableAgentName}` : 'Выберите агента, чтобы прикрепить позицию'}
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default JournalPanel;
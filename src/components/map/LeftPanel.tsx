@@ -17,6 +17,7 @@ import {
   Square,
   ChevronDown,
   ChevronRight,
+  Crosshair,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { MapObject } from '@/features/map/model/types';
@@ -79,6 +80,7 @@ interface LeftPanelProps {
   onRasterOverlayMove?: (id: string, delta: -1 | 1) => void;
   onRasterOverlayDelete?: (id: string) => void;
   onRasterOverlayCenter?: (id: string) => void;
+  onRasterOverlayGeoreference?: (id: string) => void;
   onRasterOverlayToggleAll?: () => void;
   vectorOverlays?: Array<{
     id: string;
@@ -87,10 +89,13 @@ interface LeftPanelProps {
     visible: boolean;
     opacity: number;
     zIndex: number;
+    layers?: Array<{ name: string; visible: boolean; color: string | null; featureCount: number }>;
   }>;
   onVectorOverlayToggle?: (id: string) => void;
   onVectorOverlayOpacityChange?: (id: string, opacity: number) => void;
   onVectorOverlayColorChange?: (id: string, color: string) => void;
+  onVectorOverlayLayerToggle?: (id: string, layerName: string) => void;
+  onVectorOverlayLayerColorChange?: (id: string, layerName: string, color: string) => void;
   onVectorOverlayMove?: (id: string, delta: -1 | 1) => void;
   onVectorOverlayDelete?: (id: string) => void;
   onVectorOverlayCenter?: (id: string) => void;
@@ -135,11 +140,14 @@ const LeftPanel = ({
   onRasterOverlayMove,
   onRasterOverlayDelete,
   onRasterOverlayCenter,
+  onRasterOverlayGeoreference,
   onRasterOverlayToggleAll,
   vectorOverlays = [],
   onVectorOverlayToggle,
   onVectorOverlayOpacityChange,
   onVectorOverlayColorChange,
+  onVectorOverlayLayerToggle,
+  onVectorOverlayLayerColorChange,
   onVectorOverlayMove,
   onVectorOverlayDelete,
   onVectorOverlayCenter,
@@ -148,6 +156,7 @@ const LeftPanel = ({
   onSectionsCollapsedChange,
 }: LeftPanelProps) => {
   const vectorColorInputRefs = useRef<Record<string, HTMLInputElement | null>>({});
+  const [expandedVectorLayerIds, setExpandedVectorLayerIds] = useState<Set<string>>(() => new Set());
   const [localSectionCollapsed, setLocalSectionCollapsed] = useState<LeftPanelSectionsCollapsedState>(
     DEFAULT_LEFT_PANEL_SECTIONS_COLLAPSED,
   );
@@ -561,6 +570,17 @@ const LeftPanel = ({
                         >
                           <LocateFixed className="w-3.5 h-3.5" />
                         </button>
+                        {onRasterOverlayGeoreference ? (
+                          <button
+                            type="button"
+                            className="h-5 w-5 rounded hover:bg-sidebar-accent"
+                            onClick={() => onRasterOverlayGeoreference(overlay.id)}
+                            title="Привязать по опорным точкам"
+                            aria-label={`Привязать растр ${overlay.name} по опорным точкам`}
+                          >
+                            <Crosshair className="w-3.5 h-3.5" />
+                          </button>
+                        ) : null}
                         <button
                           type="button"
                           className="h-5 w-5 rounded hover:bg-sidebar-accent"
@@ -646,7 +666,7 @@ const LeftPanel = ({
           </div>
           {!sectionCollapsed.vectors ? (
             <div className="p-1.5 space-y-1.5">
-              <div className="space-y-1 max-h-36 overflow-y-auto">
+              <div className="space-y-1 max-h-64 overflow-y-auto">
                 {vectorOverlays
                   .slice()
                   .sort((a, b) => b.zIndex - a.zIndex)
@@ -736,6 +756,75 @@ const LeftPanel = ({
                           onChange={(event) => onVectorOverlayColorChange(overlay.id, event.target.value)}
                         />
                       ) : null}
+                      {overlay.layers && overlay.layers.length > 0 ? (
+                        <div className="mt-0.5">
+                          <button
+                            type="button"
+                            className="w-full flex items-center gap-1 text-[10px] text-muted-foreground hover:text-foreground"
+                            onClick={() =>
+                              setExpandedVectorLayerIds((prev) => {
+                                const next = new Set(prev);
+                                if (next.has(overlay.id)) next.delete(overlay.id);
+                                else next.add(overlay.id);
+                                return next;
+                              })
+                            }
+                          >
+                            {expandedVectorLayerIds.has(overlay.id) ? (
+                              <ChevronDown className="w-3 h-3" />
+                            ) : (
+                              <ChevronRight className="w-3 h-3" />
+                            )}
+                            <span>Слои чертежа ({overlay.layers.length})</span>
+                          </button>
+                          {expandedVectorLayerIds.has(overlay.id) ? (
+                            <div className="mt-0.5 space-y-0.5 pl-3">
+                              {overlay.layers.map((layer) => (
+                                <div key={layer.name} className="flex items-center gap-1">
+                                  {onVectorOverlayLayerColorChange ? (
+                                    <input
+                                      type="color"
+                                      value={layer.color ?? overlay.color ?? '#0f766e'}
+                                      className="h-3.5 w-3.5 shrink-0 cursor-pointer rounded-full border-0 bg-transparent p-0"
+                                      title="Цвет слоя чертежа"
+                                      aria-label={`Цвет слоя чертежа ${layer.name}`}
+                                      onChange={(event) =>
+                                        onVectorOverlayLayerColorChange(overlay.id, layer.name, event.target.value)
+                                      }
+                                    />
+                                  ) : (
+                                    <span
+                                      className="h-2.5 w-2.5 rounded-full shrink-0"
+                                      style={{ backgroundColor: layer.color ?? overlay.color ?? '#0f766e' }}
+                                      aria-hidden
+                                    />
+                                  )}
+                                  <span
+                                    className={cn('truncate flex-1', !layer.visible && 'text-muted-foreground line-through')}
+                                    title={layer.name}
+                                  >
+                                    {layer.name}
+                                  </span>
+                                  <span className="text-[10px] text-muted-foreground">{layer.featureCount}</span>
+                                  <button
+                                    type="button"
+                                    className="h-4 w-4 rounded hover:bg-sidebar-accent"
+                                    onClick={() => onVectorOverlayLayerToggle?.(overlay.id, layer.name)}
+                                    title={layer.visible ? 'Скрыть слой чертежа' : 'Показать слой чертежа'}
+                                    aria-label={
+                                      layer.visible
+                                        ? `Скрыть слой чертежа ${layer.name}`
+                                        : `Показать слой чертежа ${layer.name}`
+                                    }
+                                  >
+                                    {layer.visible ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+                                  </button>
+                                </div>
+                              ))}
+                            </div>
+                          ) : null}
+                        </div>
+                      ) : null}
                     </div>
                   ))}
               </div>
@@ -1,27 +1,32 @@
 import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { GeoJSON, ImageOverlay, MapContainer, Marker, Pane, Polygon, Polyline, Tooltip, useMap, useMapEvents } from "react-leaflet";
+import { GeoJSON, ImageOverlay, MapContainer, Marker, Pane, Polygon, Polyline, Rectangle, Tooltip, useMap, useMapEvents } from "react-leaflet";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 import { AlertTriangle } from "lucide-react";
 
-import type { MapObject, MapObjectGeometry, Tool } from "@/features/map/model/types";
+import type { MapObject, MapObjectGeometry, SurveyPatternId, Tool } from "@/features/map/model/types";
 import {
   buildLaneTraversal,
   decimateSegments,
   epsilonDegFromMetersPerPixel,
   generateLanesForZone,
-  toConvexZonePolygon,
+  generateSurveyPattern,
+  getDefaultPatternLegCount,
+  isSimpleZonePolygon,
+  resolvePatternDatum,
+  type LaneCoverageGap,
   type LaneFeature,
   type SegmentLengthsMode,
 } from "@/features/mission";
-import { parseLaneAngleInput } from "@/features/mission/model/laneAngle";
+import { parseLaneAngleInput, parsePatternCourseInput } from "@/features/mission/model/laneAngle";
 import type { AppUiDefaults } from "@/features/settings";
 import type { DiverUiConfig } from "@/features/mission";
-import type { DxfOverlayFeatureCollection } from '@/features/map/dxfOverlay/parseDxf';
+import type { DxfOverlayFeatureCollection, DxfOverlayTextLabel } from '@/features/map/dxfOverlay/parseDxf';
 import markerIcon2xUrl from "leaflet/dist/images/marker-icon-2x.png";
 import markerIconUrl from "leaflet/dist/images/marker-icon.png";
 import markerShadowUrl from "leaflet/dist/images/marker-shadow.png";
 import { platform } from "@/platform";
+import type { LocalTileSource } from "@/platform/mapConfig";
 import { MapContextMenu } from "./MapContextMenu";
 import { GridLayer } from "./GridLayer";
 import { ScaleBar } from "./ScaleBar";
@@ -31,6 +36,8 @@ import { getDefaultZoneLanePanelIconPosition, getDefaultZoneLanePanelPosition }
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import CachedTileLayer from './CachedTileLayer';
+import WarpedImageOverlay from './WarpedImageOverlay';
+import BathymetryLegend from './BathymetryLegend';
 import { createBaseStationIcon, createDiverIcon, createRwltBuoyIcon } from './telemetryMarkerIcons';
 import { resolveFlyToZoomFor50mGrid } from './flyToZoom';
 import {
@@ -57,8 +64,9 @@ interface MapCanvasProps {
   activeTool: Tool;
   laneFeatures?: LaneFeature[];
   outdatedZoneIds: Record<string, true>;
-  lanePickMode: 'none' | 'edge' | 'start';
+  lanePickMode: 'none' | 'edge' | 'start' | 'datum';
   lanePickZoneId: string | null;
+  laneCoverageGaps?: LaneCoverageGap[];
   layers: {
     basemap: boolean;
     track: boolean;
@@ -69,6 +77,8 @@ interface MapCanvasProps {
     scaleBar: boolean;
     diver: boolean;
   };
+  /** Offline chart package used instead of the online basemap. */
+  localTileSource?: LocalTileSource | null;
   grid: AppUiDefaults['measurements']['grid'];
   segmentLengthsMode: SegmentLengthsMode;
   styles: AppUiDefaults['styles'];
@@ -93,7 +103,14 @@ interface MapCanvasProps {
   baseStationMarkerSizePx?: number;
   divers: DiverUiConfig[];
   diverPositionsById?: Record<string, DiverTelemetryPosition>;
-  trackSegments: Array<{ trackId: string; points: Array<[number, number]>; color: string }>;
+  /** Agents following a route: line from the agent to its target waypoint and the active leg */
+  steeringLines?: Array<{
+    agentId: string;
+    from: { lat: number; lon: number };
+    to: { lat: number; lon: number };
+    legStart: { lat: number; lon: number } | null;
+  }>;
+  trackSegments: Array<{ trackId: string; points: Array<[number, number]>; color: string; opacity?: number }>;
   rasterOverlays?: Array<{
     id: string;
     name: string;
@@ -102,7 +119,29 @@ interface MapCanvasProps {
     opacity: number;
     visible: boolean;
     zIndex: number;
+    /** Pixel → map transform of a rotated or polynomially georeferenced raster; bounds are then only its envelope. */
+    warp?: {
+      width: number;
+      height: number;
+      meshSize: number;
+      toLatLng: (x: number, y: number) => { lat: number; lon: number };
+    };
+  }>;
+  /** Depth range of the topmost visible bathymetry layer, shown as a colour legend. */
+  depthLegend?: { name: string; minDepth: number; maxDepth: number } | null;
+  /** Coverage of the tile regions stored in the offline cache. */
+  tileRegionFootprints?: Array<{
+    id: string;
+    name: string;
+    bbox: { north: number; south: number; east: number; west: number };
   }>;
+  /** Control points of the raster being georeferenced, drawn at their map positions. */
+  georeferencePoints?: Array<{ id: string; label: string; lat: number; lon: number; active: boolean }>;
+  /** Position under the cursor of the depth profile chart. */
+  profileCursor?: { lat: number; lon: number } | null;
+  /** While set, a map click reports its position instead of acting with the current tool. */
+  pointPickActive?: boolean;
+  onPointPick?: (point: { lat: number; lon: number }) => void;
   vectorOverlays?: Array<{
     id: string;
     name: string;
@@ -131,6 +170,7 @@ interface MapCanvasProps {
   onLanePickCancel?: () => void;
   onLanePickEdge?: (zoneId: string, bearingDeg: number) => void;
   onLanePickStart?: (zoneId: string, point: { lat: number; lon: number }) => void;
+  onLanePickDatum?: (zoneId: string, point: { lat: number; lon: number }) => void;
   onMapScaleChange?: (scale: string) => void;
   onMapViewChange?: (view: { center_lat: number; center_lon: number; zoom: number }) => void;
   onMapBoundsChange?: (bounds: { north: number; south: number; east: number; west: number }) => void;
@@ -154,7 +194,11 @@ type VectorOverlayGeoJsonFeature = {
         type: "Point";
         coordinates: [number, number];
       };
-  properties: { kind: "polyline" | "polygon" | "point" };
+  properties: {
+    kind: "polyline" | "polygon" | "area" | "point";
+    color: string | null;
+    label: DxfOverlayTextLabel | null;
+  };
 };
 type VectorOverlayGeoJsonCollection = {
   type: "FeatureCollection";
@@ -168,11 +212,53 @@ const isClosedPolyline = (points: Array<{ lat: number; lon: number }>): boolean
   return Math.abs(first.lat - last.lat) < 1e-10 && Math.abs(first.lon - last.lon) < 1e-10;
 };
 
+const escapeLabelHtml = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// CAD rotation is counter-clockwise, CSS rotation is clockwise.
+const vectorTextLabelIcon = (label: DxfOverlayTextLabel, color: string, opacity: number): L.DivIcon =>
+  L.divIcon({
+    className: "vector-overlay-label",
+    html: `<div style="
+        transform: rotate(${-label.rotation_deg}deg);
+        transform-origin: 0 100%;
+        translate: 0 -100%;
+        pointer-events: none;
+        color: ${color};
+        opacity: ${opacity};
+        font-size: 11px;
+        line-height: 1.15;
+        white-space: pre;
+        text-shadow: 0 0 2px rgba(255, 255, 255, 0.9);
+      ">${escapeLabelHtml(label.text)}</div>`,
+    iconSize: [0, 0],
+    iconAnchor: [0, 0],
+  });
+
+/** CAD text is drawn as DOM markers, so drawings with thousands of labels only show them close up. */
+const VECTOR_LABEL_MIN_ZOOM = 17;
+
+/** Changes whenever a feature colour changes, so the GeoJSON layer is rebuilt with the new styles. */
+const computeVectorOverlayStyleKey = (features: DxfOverlayFeatureCollection["features"]): string => {
+  let hash = 0;
+  for (const feature of features) {
+    const color = feature.color ?? "";
+    for (let i = 0; i < color.length; i += 1) {
+      hash = (hash * 31 + color.charCodeAt(i)) | 0;
+    }
+    hash = (hash * 31 + 1) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
 const toVectorOverlayGeoJson = (
   features: DxfOverlayFeatureCollection["features"],
+  showLabels: boolean,
 ): VectorOverlayGeoJsonCollection => ({
   type: "FeatureCollection",
-  features: features.map((feature) => {
+  features: features.flatMap((feature): VectorOverlayGeoJsonFeature | VectorOverlayGeoJsonFeature[] => {
+    if (feature.type === "point" && feature.label && !showLabels) return [];
+    const color = feature.color ?? null;
     if (feature.type === "point") {
       return {
         type: "Feature",
@@ -180,11 +266,24 @@ const toVectorOverlayGeoJson = (
           type: "Point",
           coordinates: [feature.point.lon, feature.point.lat],
         },
-        properties: { kind: "point" },
+        properties: { kind: "point", color, label: feature.label ?? null },
       };
     }
 
     const coordinates = feature.points.map((point) => [point.lon, point.lat] as [number, number]);
+    if (feature.type === "polygon") {
+      return {
+        type: "Feature",
+        geometry: {
+          type: "Polygon",
+          coordinates: [
+            coordinates,
+            ...(feature.holes ?? []).map((hole) => hole.map((point) => [point.lon, point.lat] as [number, number])),
+          ],
+        },
+        properties: { kind: "area", color, label: null },
+      };
+    }
     if (isClosedPolyline(feature.points)) {
       return {
         type: "Feature",
@@ -192,7 +291,7 @@ const toVectorOverlayGeoJson = (
           type: "Polygon",
           coordinates: [coordinates],
         },
-        properties: { kind: "polygon" },
+        properties: { kind: "polygon", color, label: null },
       };
     }
 
@@ -202,7 +301,7 @@ const toVectorOverlayGeoJson = (
         type: "LineString",
         coordinates,
       },
-      properties: { kind: "polyline" },
+      properties: { kind: "polyline", color, label: null },
     };
   }),
 });
@@ -223,6 +322,12 @@ const OverlayLayers = memo(
       [rasterOverlays],
     );
 
+    const map = useMap();
+    const [showVectorLabels, setShowVectorLabels] = useState(() => map.getZoom() >= VECTOR_LABEL_MIN_ZOOM);
+    useMapEvents({
+      zoomend: () => setShowVectorLabels(map.getZoom() >= VECTOR_LABEL_MIN_ZOOM),
+    });
+
     const visibleVectorOverlays = useMemo(
       () =>
         vectorOverlays
@@ -230,52 +335,81 @@ const OverlayLayers = memo(
           .sort((a, b) => a.zIndex - b.zIndex)
           .map((overlay) => ({
             ...overlay,
-            geoJson: toVectorOverlayGeoJson(overlay.features),
+            geoJson: toVectorOverlayGeoJson(overlay.features, showVectorLabels),
+            styleKey: computeVectorOverlayStyleKey(overlay.features),
           })),
-      [vectorOverlays],
+      [showVectorLabels, vectorOverlays],
     );
 
     return (
       <>
-        {visibleRasterOverlays.map((overlay) => (
-          <ImageOverlay
-            key={`raster-overlay-${overlay.id}`}
-            url={overlay.url}
-            opacity={overlay.opacity}
-            zIndex={overlay.zIndex}
-            bounds={[
-              [overlay.bounds.south, overlay.bounds.west],
-              [overlay.bounds.north, overlay.bounds.east],
-            ]}
-          />
-        ))}
+        {visibleRasterOverlays.map((overlay) =>
+          overlay.warp ? (
+            <WarpedImageOverlay
+              key={`raster-overlay-${overlay.id}`}
+              url={overlay.url}
+              opacity={overlay.opacity}
+              zIndex={overlay.zIndex}
+              width={overlay.warp.width}
+              height={overlay.warp.height}
+              meshSize={overlay.warp.meshSize}
+              toLatLng={overlay.warp.toLatLng}
+            />
+          ) : (
+            <ImageOverlay
+              key={`raster-overlay-${overlay.id}`}
+              url={overlay.url}
+              opacity={overlay.opacity}
+              zIndex={overlay.zIndex}
+              bounds={[
+                [overlay.bounds.south, overlay.bounds.west],
+                [overlay.bounds.north, overlay.bounds.east],
+              ]}
+            />
+          ),
+        )}
 
         {visibleVectorOverlays.map((overlay) => (
           <Pane key={`vector-pane-${overlay.id}`} name={`vector-pane-${overlay.id}`} style={{ zIndex: 450 + overlay.zIndex }}>
             <GeoJSON
-              key={`vector-geojson-${overlay.id}-${overlay.geoJson.features.length}`}
+              key={`vector-geojson-${overlay.id}-${overlay.geoJson.features.length}-${overlay.styleKey}`}
               data={overlay.geoJson as unknown as GeoJSON.GeoJsonObject}
               style={(feature) => {
                 const isPolygon = feature?.geometry?.type === "Polygon";
+                const properties = feature?.properties as VectorOverlayGeoJsonFeature["properties"] | undefined;
+                const color = properties?.color ?? overlay.color;
+                // Chart areas are shaded like a paper chart; closed CAD outlines only get a light tint.
+                if (properties?.kind === "area") {
+                  return { color, weight: 1, opacity: overlay.opacity, fillColor: color, fillOpacity: overlay.opacity };
+                }
                 return {
-                  color: overlay.color,
+                  color,
                   weight: 2,
                   opacity: overlay.opacity,
-                  fillColor: overlay.color,
+                  fillColor: color,
                   fillOpacity: isPolygon ? Math.max(0.08, overlay.opacity * 0.2) : 0,
                 };
               }}
-              pointToLayer={(_, latlng) =>
-                L.circleMarker(latlng, {
+              pointToLayer={(feature, latlng) => {
+                const properties = feature?.properties as VectorOverlayGeoJsonFeature["properties"] | undefined;
+                const color = properties?.color ?? overlay.color;
+                if (properties?.label) {
+                  return L.marker(latlng, {
+                    icon: vectorTextLabelIcon(properties.label, color, overlay.opacity),
+                    interactive: false,
+                    keyboard: false,
+                  });
+                }
+                return L.circleMarker(latlng, {
                   radius: 3,
-                  color: overlay.color,
-                  fillColor: overlay.color,
+                  color,
+                  fillColor: color,
                   fillOpacity: overlay.opacity,
                   opacity: overlay.opacity,
                   weight: 1,
                   interactive: false,
-                })
-              }
+                });
+              }}
               interactive={false}
             />
           </Pane>
@@ -556,6 +690,41 @@ const formatSegmentLength = (meters: number): string => {
   return `${Math.round(meters)} м`;
 };
 
+const georeferencePointIcon = (label: string, active: boolean): L.DivIcon =>
+  L.divIcon({
+    className: 'georeference-point',
+    html: `<div style="
+        transform: translate(-50%, -50%);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        width: 18px;
+        height: 18px;
+        border-radius: 9999px;
+        border: 2px solid ${active ? '#f97316' : '#0ea5e9'};
+        background: rgba(255, 255, 255, 0.9);
+        color: #0f172a;
+        font-size: 10px;
+        font-weight: 700;
+        line-height: 1;
+      ">${escapeLabelHtml(label)}</div>`,
+    iconSize: [0, 0],
+  });
+
+const profileCursorIcon = L.divIcon({
+  className: 'profile-cursor',
+  html: `<div style="
+      transform: translate(-50%, -50%);
+      width: 14px;
+      height: 14px;
+      border-radius: 9999px;
+      border: 3px solid #2563eb;
+      background: rgba(255, 255, 255, 0.9);
+      box-shadow: 0 0 0 2px rgba(37, 99, 235, 0.25);
+    "></div>`,
+  iconSize: [0, 0],
+});
+
 const segmentLengthIcon = (label: string): L.DivIcon =>
   L.divIcon({
     className: 'segment-length-label',
@@ -595,7 +764,9 @@ const MapCanvas = ({
   outdatedZoneIds,
   lanePickMode,
   lanePickZoneId,
+  laneCoverageGaps = [],
   layers,
+  localTileSource = null,
   grid,
   segmentLengthsMode,
   styles,
@@ -609,9 +780,16 @@ const MapCanvas = ({
   baseStationMarkerSizePx,
   divers,
   diverPositionsById = {},
+  steeringLines = [],
   trackSegments,
   rasterOverlays = [],
   vectorOverlays = [],
+  tileRegionFootprints = [],
+  depthLegend = null,
+  georeferencePoints = [],
+  profileCursor = null,
+  pointPickActive = false,
+  onPointPick,
   followAgentId,
   connectionStatus,
   connectionLostSeconds,
@@ -628,12 +806,15 @@ const MapCanvas = ({
   onLanePickCancel,
   onLanePickEdge,
   onLanePickStart,
+  onLanePickDatum,
   onMapScaleChange,
   onMapViewChange,
   onMapBoundsChange,
   onMapDrag,
 }: MapCanvasProps) => {
   const [drawingPoints, setDrawingPoints] = useState<L.LatLng[]>([]);
+  // Zone that the current zone-tool draft is cut out of, instead of creating a new zone.
+  const [holeDraftZoneId, setHoleDraftZoneId] = useState<string | null>(null);
   const [measurePoints, setMeasurePoints] = useState<L.LatLng[]>([]);
   const [measureCursor, setMeasureCursor] = useState<L.LatLng | null>(null);
   const [objectMenuState, setObjectMenuState] = useState<{
@@ -645,7 +826,11 @@ const MapCanvas = ({
   const [draftZoneLaneWidth, setDraftZoneLaneWidth] = useState('10');
   const [draftZoneBearingDeg, setDraftZoneBearingDeg] = useState<number | null>(null);
   const [draftZoneStart, setDraftZoneStart] = useState<{ lat: number; lon: number } | null>(null);
-  const [draftLanePickMode, setDraftLanePickMode] = useState<'none' | 'edge' | 'start'>('none');
+  const [draftZonePattern, setDraftZonePattern] = useState<SurveyPatternId>('parallel');
+  const [draftZonePatternLegCount, setDraftZonePatternLegCount] = useState('');
+  const [draftZonePatternLegLength, setDraftZonePatternLegLength] = useState('100');
+  const [draftZonePatternDatum, setDraftZonePatternDatum] = useState<{ lat: number; lon: number } | null>(null);
+  const [draftLanePickMode, setDraftLanePickMode] = useState<'none' | 'edge' | 'start' | 'datum'>('none');
   const [zoneDraftPanelPosition, setZoneDraftPanelPosition] = useState(() => getDefaultZoneLanePanelPosition());
   const [zoneDraftPanelIconPosition, setZoneDraftPanelIconPosition] = useState(() => getDefaultZoneLanePanelIconPosition());
   const [zoneDraftPanelMinimized, setZoneDraftPanelMinimized] = useState(false);
@@ -714,6 +899,14 @@ const MapCanvas = ({
     setDrawingMenuState(null);
     setDraftZoneBearingDeg(null);
     setDraftZoneStart(null);
+    setDraftZonePatternDatum(null);
+    setDraftLanePickMode('none');
+    setHoleDraftZoneId(null);
+  }, []);
+
+  const handleDraftZonePatternChange = useCallback((pattern: SurveyPatternId) => {
+    setDraftZonePattern(pattern);
+    setDraftZonePatternLegCount(pattern === 'parallel' ? '' : String(getDefaultPatternLegCount(pattern)));
     setDraftLanePickMode('none');
   }, []);
 
@@ -826,6 +1019,32 @@ const MapCanvas = ({
         return false;
       }
 
+      const points = drawingPoints.map((point) => ({ lat: point.lat, lon: point.lng }));
+      if (draftType === 'zone' && !isSimpleZonePolygon(points)) {
+        if (!options?.silentValidationError) {
+          toast({
+            variant: 'destructive',
+            title: holeDraftZoneId ? 'Невозможно вырезать область' : 'Невозможно создать зону',
+            description: 'Граница не должна самопересекаться.',
+          });
+        }
+        return false;
+      }
+
+      if (draftType === 'zone' && holeDraftZoneId) {
+        const zone = objects.find((obj) => obj.id === holeDraftZoneId);
+        if (zone?.geometry?.type === 'zone') {
+          onObjectUpdate?.(zone.id, {
+            geometry: { ...zone.geometry, holes: [...(zone.geometry.holes ?? []), points] },
+          });
+        }
+        clearDrawing();
+        if (!options?.preserveActiveTool) {
+          onToolChange?.('select');
+        }
+        return true;
+      }
+
       const initial =
         draftType === 'zone'
           ? {
@@ -833,16 +1052,22 @@ const MapCanvas = ({
               laneWidth: Math.max(1, Number(draftZoneLaneWidth) || 5),
               laneBearingDeg: typeof draftZoneBearingDeg === 'number' ? draftZoneBearingDeg : undefined,
               laneStart: draftZoneStart ?? undefined,
+              ...(draftZonePattern !== 'parallel'
+                ? {
+                    surveyPattern: draftZonePattern,
+                    patternCourseDeg: parsePatternCourseInput(draftZoneLaneAngle, 0),
+                    patternLegCount: Number(draftZonePatternLegCount) || getDefaultPatternLegCount(draftZonePattern),
+                    patternLegLengthM: Math.max(1, Number(draftZonePatternLegLength) || 100),
+                    patternDatum: draftZonePatternDatum ?? undefined,
+                  }
+                : {}),
             }
           : undefined;
 
-      const points = drawingPoints.map((point) => ({ lat: point.lat, lon: point.lng }));
-      const normalizedPoints = draftType === 'zone' ? toConvexZonePolygon(points) : points;
-
       onObjectCreate?.(
         {
           type: draftType,
-          points: normalizedPoints,
+          points,
         },
         { preserveActiveTool: options?.preserveActiveTool, initial },
       );
@@ -854,9 +1079,17 @@ const MapCanvas = ({
       draftZoneBearingDeg,
       draftZoneLaneAngle,
       draftZoneLaneWidth,
+      draftZonePattern,
+      draftZonePatternDatum,
+      draftZonePatternLegCount,
+      draftZonePatternLegLength,
       draftZoneStart,
       drawingPoints,
+      holeDraftZoneId,
+      objects,
       onObjectCreate,
+      onObjectUpdate,
+      onToolChange,
       toast,
     ],
   );
@@ -870,8 +1103,18 @@ const MapCanvas = ({
       setObjectMenuState(null);
       const latlng = e.latlng;
 
+      if (pointPickActive) {
+        onPointPick?.({ lat: latlng.lat, lon: latlng.lng });
+        return;
+      }
+
       if (activeTool === 'zone' && drawingPoints.length > 0 && draftLanePickMode !== 'none') {
-        if (draftLanePickMode === 'start') {
+        if (draftLanePickMode === 'datum') {
+          const datum = { lat: latlng.lat, lon: latlng.lng };
+          setDraftZonePatternDatum(datum);
+          setDraftLanePickMode('none');
+          toast({ title: 'Датум выбран', description: `${datum.lat.toFixed(6)}, ${datum.lon.toFixed(6)}` });
+        } else if (draftLanePickMode === 'start') {
           const snapped = pickNearestVertex(
             {
               id: 'draft',
@@ -905,15 +1148,23 @@ const MapCanvas = ({
         return;
       }
 
+      if (lanePickMode === 'datum' && lanePickZoneId) {
+        const datum = { lat: latlng.lat, lon: latlng.lng };
+        onLanePickDatum?.(lanePickZoneId, datum);
+        toast({ title: 'Датум выбран', description: `${datum.lat.toFixed(6)}, ${datum.lon.toFixed(6)}` });
+        return;
+      }
+
       if (activeTool === "route" || activeTool === "zone") {
         if (activeTool === 'zone' && drawingPoints.length === 0) {
           // Reset per-zone picks when starting a new zone draft.
           setDraftZoneBearingDeg(null);
           setDraftZoneStart(null);
+          setDraftZonePatternDatum(null);
           setDraftLanePickMode('none');
         }
         setDrawingPoints((prev) => [...prev, latlng]);
-        if (activeTool === 'route') {
+        if (activeTool === 'route' || holeDraftZoneId) {
           setDrawingMenuState({
             position: getDrawingMenuPosition(e.originalEvent.clientX, e.originalEvent.clientY),
           });
@@ -951,14 +1202,18 @@ const MapCanvas = ({
       activeTool,
       draftLanePickMode,
       drawingPoints,
+      holeDraftZoneId,
       lanePickMode,
       lanePickZoneId,
       measurePoints,
       objects,
       clearMeasureDraft,
+      onLanePickDatum,
       onLanePickStart,
       onObjectCreate,
       onObjectSelect,
+      onPointPick,
+      pointPickActive,
       toast,
       getDrawingMenuPosition,
     ],
@@ -1019,6 +1274,10 @@ const MapCanvas = ({
       clearMeasureDraft();
     }
 
+    if (previousTool === 'zone') {
+      setHoleDraftZoneId(null);
+    }
+
     previousToolRef.current = activeTool;
   }, [activeTool, clearDrawing, clearMeasureDraft, completeDrawing, drawingPoints.length, measurePoints.length, toast]);
 
@@ -1103,7 +1362,7 @@ const MapCanvas = ({
 
   const renderObjects = useMemo(() => {
     const routes: Array<{ obj: MapObject; points: [number, number][] }> = [];
-    const zones: Array<{ obj: MapObject; points: [number, number][] }> = [];
+    const zones: Array<{ obj: MapObject; points: [number, number][] | [number, number][][] }> = [];
     const markers: Array<{ obj: MapObject; point: [number, number] }> = [];
     const measures: Array<{
       obj: MapObject;
@@ -1118,7 +1377,9 @@ const MapCanvas = ({
       if (obj.geometry.type === "route") {
         routes.push({ obj, points: obj.geometry.points.map(toTuple) });
       } else if (obj.geometry.type === "zone") {
-        zones.push({ obj, points: obj.geometry.points.map(toTuple) });
+        const outer = obj.geometry.points.map(toTuple);
+        const holes = (obj.geometry.holes ?? []).map((hole) => hole.map(toTuple));
+        zones.push({ obj, points: holes.length > 0 ? [outer, ...holes] : outer });
       } else if (obj.geometry.type === "marker" && (obj.type === 'marker' || obj.type === 'rwlt_buoy')) {
         markers.push({ obj, point: toTuple(obj.geometry.point) });
       } else if (obj.geometry.type === 'measure') {
@@ -1290,8 +1551,7 @@ const MapCanvas = ({
     if (activeTool !== 'zone' || draftLanePickMode !== 'edge') return [];
     if (drawingPoints.length < 2) return [];
 
-    const raw = drawingPoints.map((p) => ({ lat: p.lat, lon: p.lng }));
-    const pts = raw.length >= 3 ? toConvexZonePolygon(raw) : raw;
+    const pts = drawingPoints.map((p) => ({ lat: p.lat, lon: p.lng }));
     const edges: Array<{ a: { lat: number; lon: number }; b: { lat: number; lon: number }; key: string }> = [];
     for (let i = 0; i + 1 < pts.length; i += 1) {
       edges.push({ a: pts[i], b: pts[i + 1], key: `draft-edge-${i}` });
@@ -1304,22 +1564,33 @@ const MapCanvas = ({
 
   const draftZonePolygonPoints = useMemo(() => {
     if (activeTool !== 'zone') return [] as Array<[number, number]>;
-    if (drawingPoints.length < 3) return drawingPoints.map((p) => [p.lat, p.lng] as [number, number]);
-    return toConvexZonePolygon(drawingPoints.map((p) => ({ lat: p.lat, lon: p.lng }))).map(
-      (point) => [point.lat, point.lon] as [number, number],
-    );
+    return drawingPoints.map((p) => [p.lat, p.lng] as [number, number]);
   }, [activeTool, drawingPoints]);
 
   const draftZonePreviewLanes = useMemo(() => {
-    if (activeTool !== 'zone') return [];
+    if (activeTool !== 'zone' || holeDraftZoneId) return [];
     if (drawingPoints.length < 3) return [];
 
-    const points = toConvexZonePolygon(drawingPoints.map((p) => ({ lat: p.lat, lon: p.lng })));
-    if (points.length < 3) return [];
+    const points = drawingPoints.map((p) => ({ lat: p.lat, lon: p.lng }));
+    if (!isSimpleZonePolygon(points)) return [];
 
     const laneWidthM = Math.max(1, Number(draftZoneLaneWidth) || 5);
     const laneAngleDeg = parseLaneAngleInput(draftZoneLaneAngle, 0);
 
+    if (draftZonePattern !== 'parallel') {
+      const datum = resolvePatternDatum(points, draftZonePatternDatum);
+      if (!datum) return [];
+      return generateSurveyPattern({
+        parentAreaId: 'draft-zone',
+        pattern: draftZonePattern,
+        datum,
+        courseDeg: parsePatternCourseInput(draftZoneLaneAngle, 0),
+        spacingM: laneWidthM,
+        legCount: Number(draftZonePatternLegCount) || getDefaultPatternLegCount(draftZonePattern),
+        legLengthM: Math.max(1, Number(draftZonePatternLegLength) || 100),
+      });
+    }
+
     return generateLanesForZone({
       parentAreaId: 'draft-zone',
       points,
@@ -1333,8 +1604,13 @@ const MapCanvas = ({
     draftZoneBearingDeg,
     draftZoneLaneAngle,
     draftZoneLaneWidth,
+    draftZonePattern,
+    draftZonePatternDatum,
+    draftZonePatternLegCount,
+    draftZonePatternLegLength,
     draftZoneStart,
     drawingPoints,
+    holeDraftZoneId,
   ]);
 
   const draftZonePreviewWaypoints = useMemo(() => {
@@ -1459,15 +1735,17 @@ const MapCanvas = ({
   const overlayTileSubdomains = platform.map.overlayTileSubdomains();
   const overlayTileSize = platform.map.overlayTileSize();
   const zoomSnap = platform.map.zoomSnap();
+  const localTileUrl = localTileSource ? platform.localTiles.tileUrlTemplate(localTileSource) : null;
   const normalizedInitialZoom = normalizeZoomLevel(mapView?.zoom ?? 16, zoomSnap);
 
   return (
     <div className={cn(
       "w-full h-full relative",
-      activeTool === 'select' && hoveredObjectId && "cursor-pointer",
-      activeTool === 'select' && !hoveredObjectId && "cursor-default",
+      !pointPickActive && activeTool === 'select' && hoveredObjectId && "cursor-pointer",
+      !pointPickActive && activeTool === 'select' && !hoveredObjectId && "cursor-default",
       (activeTool === 'route' || activeTool === 'zone' || activeTool === 'measure') && "cursor-crosshair",
-      activeTool === 'marker' && "cursor-crosshair"
+      activeTool === 'marker' && "cursor-crosshair",
+      pointPickActive && "cursor-crosshair"
     )}>
       <MapContainer
         center={mapView ? [mapView.center_lat, mapView.center_lon] : followPosition}
@@ -1485,7 +1763,18 @@ const MapCanvas = ({
         markerZoomAnimation={false}
         attributionControl={false}
       >
-        {layers.basemap ? (
+        {layers.basemap && localTileSource && localTileUrl ? (
+          <CachedTileLayer
+            providerKey={localTileUrl}
+            urlTemplate={localTileUrl}
+            tileSize={256}
+            minZoom={localTileSource.min_zoom}
+            maxNativeZoom={localTileSource.max_zoom}
+            bypassCache
+            zIndex={1}
+          />
+        ) : null}
+        {layers.basemap && !localTileUrl ? (
           <CachedTileLayer
             providerKey={platform.map.tileLayerUrl()}
             urlTemplate={platform.map.tileLayerUrl()}
@@ -1495,7 +1784,7 @@ const MapCanvas = ({
             zIndex={1}
           />
         ) : null}
-        {layers.basemap && overlayTileLayerUrl ? (
+        {layers.basemap && !localTileUrl && overlayTileLayerUrl ? (
           <CachedTileLayer
             providerKey={overlayTileLayerUrl}
             urlTemplate={overlayTileLayerUrl}
@@ -1550,12 +1839,47 @@ const MapCanvas = ({
               pathOptions={{
                 color: segment.color,
                 weight: styles.track.width_px,
+                opacity: segment.opacity ?? 1,
               }}
             />
           ))}
 
         <OverlayLayers rasterOverlays={rasterOverlays} vectorOverlays={vectorOverlays} />
 
+        {tileRegionFootprints.map((footprint) => (
+          <Rectangle
+            key={`tile-region-${footprint.id}`}
+            bounds={[
+              [footprint.bbox.south, footprint.bbox.west],
+              [footprint.bbox.north, footprint.bbox.east],
+            ]}
+            interactive={false}
+            pathOptions={{ color: '#0ea5e9', weight: 1.5, dashArray: '6 4', fillOpacity: 0.06 }}
+          >
+            <Tooltip permanent direction="center" opacity={0.8}>
+              {footprint.name}
+            </Tooltip>
+          </Rectangle>
+        ))}
+
+        {georeferencePoints.map((point) => (
+          <Marker
+            key={`georeference-point-${point.id}`}
+            position={[point.lat, point.lon]}
+            icon={georeferencePointIcon(point.label, point.active)}
+            interactive={false}
+          />
+        ))}
+
+        {profileCursor ? (
+          <Marker
+            position={[profileCursor.lat, profileCursor.lon]}
+            icon={profileCursorIcon}
+            interactive={false}
+            zIndexOffset={1000}
+          />
+        ) : null}
+
         {/* Routes */}
         {layers.routes &&
           renderObjects.routes.map(({ obj, points }) => (
@@ -1654,6 +1978,25 @@ const MapCanvas = ({
             );
           })}
 
+        {/* Lane coverage gaps */}
+        {layers.routes &&
+          laneCoverageGaps.map((gap) => (
+            <Polyline
+              key={`lane-gap-${gap.laneId}-${gap.fromM}`}
+              positions={[
+                [gap.start.lat, gap.start.lon],
+                [gap.end.lat, gap.end.lon],
+              ]}
+              pathOptions={{
+                color: '#ef4444',
+                weight: styles.lane.width_px + 3,
+                opacity: 0.9,
+                dashArray: '4 6',
+              }}
+              interactive={false}
+            />
+          ))}
+
         {/* Zone */}
         {layers.routes &&
           renderObjects.zones.map(({ obj, points }) => (
@@ -1864,8 +2207,8 @@ const MapCanvas = ({
           <Polygon
             positions={draftZonePolygonPoints}
             pathOptions={{
-              color: "hsl(38, 92%, 50%)",
-              fillColor: "hsl(38, 92%, 50%)",
+              color: holeDraftZoneId ? "hsl(0, 84%, 60%)" : "hsl(38, 92%, 50%)",
+              fillColor: holeDraftZoneId ? "hsl(0, 84%, 60%)" : "hsl(38, 92%, 50%)",
               fillOpacity: 0.15,
               weight: 2,
               dashArray: "5, 5",
@@ -1936,6 +2279,32 @@ const MapCanvas = ({
             />
           ))}
 
+        {/* Route following: active leg + steering line */}
+        {layers.diver &&
+          showTelemetryObjects &&
+          steeringLines.flatMap((line) => [
+            line.legStart ? (
+              <Polyline
+                key={`steering-leg-${line.agentId}`}
+                positions={[
+                  [line.legStart.lat, line.legStart.lon],
+                  [line.to.lat, line.to.lon],
+                ]}
+                pathOptions={{ color: '#f97316', weight: styles.route.width_px + 3, opacity: 0.45 }}
+                interactive={false}
+              />
+            ) : null,
+            <Polyline
+              key={`steering-line-${line.agentId}`}
+              positions={[
+                [line.from.lat, line.from.lon],
+                [line.to.lat, line.to.lon],
+              ]}
+              pathOptions={{ color: '#f97316', weight: 2, opacity: 0.9, dashArray: '6 6' }}
+              interactive={false}
+            />,
+          ])}
+
         {/* Diver */}
         {layers.diver &&
           showTelemetryObjects &&
@@ -2008,6 +2377,28 @@ const MapCanvas = ({
                     }
                   },
                 },
+                {
+                  label: "Вырезать область",
+                  action: () => {
+                    if (!objectMenuState.objectId) return;
+                    clearDrawing();
+                    setHoleDraftZoneId(objectMenuState.objectId);
+                    onToolChange?.('zone');
+                  },
+                },
+              ]
+              : []),
+            ...(contextObject?.geometry?.type === 'zone' && (contextObject.geometry.holes?.length ?? 0) > 0
+              ? [
+                {
+                  label: "Удалить вырезанные области",
+                  action: () => {
+                    if (!contextObject?.geometry || contextObject.geometry.type !== 'zone' || !onObjectUpdate) return;
+                    onObjectUpdate(contextObject.id, {
+                      geometry: { type: 'zone', points: contextObject.geometry.points },
+                    });
+                  },
+                },
               ]
               : []),
             ...(contextObject?.type === 'rwlt_buoy'
@@ -2032,26 +2423,45 @@ const MapCanvas = ({
         <MapContextMenu
           position={drawingMenuState.position}
           onClose={() => setDrawingMenuState(null)}
-          items={[
-            {
-              label: 'Завершить маршрут',
-              action: () => {
-                completeDrawing('route');
-              },
-            },
-            {
-              label: 'Удалить маршрут',
-              action: () => {
-                clearDrawing();
-              },
-              variant: 'destructive',
-            },
-          ]}
+          items={
+            holeDraftZoneId
+              ? [
+                {
+                  label: 'Вырезать область',
+                  action: () => {
+                    completeDrawing('zone');
+                  },
+                },
+                {
+                  label: 'Отменить',
+                  action: () => {
+                    clearDrawing();
+                    onToolChange?.('select');
+                  },
+                  variant: 'destructive',
+                },
+              ]
+              : [
+                {
+                  label: 'Завершить маршрут',
+                  action: () => {
+                    completeDrawing('route');
+                  },
+                },
+                {
+                  label: 'Удалить маршрут',
+                  action: () => {
+                    clearDrawing();
+                  },
+                  variant: 'destructive',
+                },
+              ]
+          }
         />
       )}
 
       <ZoneDraftLanePanel
-        open={activeTool === 'zone' && drawingPoints.length > 0}
+        open={activeTool === 'zone' && drawingPoints.length > 0 && !holeDraftZoneId}
         minimized={zoneDraftPanelMinimized}
         panelPosition={zoneDraftPanelPosition}
         iconPosition={zoneDraftPanelIconPosition}
@@ -2059,6 +2469,10 @@ const MapCanvas = ({
         laneWidth={draftZoneLaneWidth}
         laneBearingDeg={draftZoneBearingDeg}
         laneStart={draftZoneStart}
+        pattern={draftZonePattern}
+        patternLegCount={draftZonePatternLegCount}
+        patternLegLength={draftZonePatternLegLength}
+        patternDatum={draftZonePatternDatum}
         drawingPointsCount={drawingPoints.length}
         previewLanesCount={draftZonePreviewLanes.length}
         lanePickMode={draftLanePickMode}
@@ -2068,11 +2482,24 @@ const MapCanvas = ({
         onMinimizedChange={setZoneDraftPanelMinimized}
         onLaneAngleChange={setDraftZoneLaneAngle}
         onLaneWidthChange={setDraftZoneLaneWidth}
+        onPatternChange={handleDraftZonePatternChange}
+        onPatternLegCountChange={setDraftZonePatternLegCount}
+        onPatternLegLengthChange={setDraftZonePatternLegLength}
         onLanePickModeChange={setDraftLanePickMode}
         onCancelDraft={clearDrawing}
         onCompleteDraft={() => completeDrawing('zone')}
       />
 
+      {layers.basemap && localTileSource && localTileUrl && localTileSource.attribution ? (
+        <div className="pointer-events-none absolute bottom-1 right-1 z-[1000] max-w-[50%] truncate rounded bg-background/70 px-1.5 py-0.5 text-[10px] text-muted-foreground">
+          {localTileSource.attribution.replace(/<[^>]*>/g, '')}
+        </div>
+      ) : null}
+
+      {depthLegend ? (
+        <BathymetryLegend name={depthLegend.name} minDepth={depthLegend.minDepth} maxDepth={depthLegend.maxDepth} />
+      ) : null}
+
       {/* Connection timeout warning */}
       {showNoDataWarning && connectionStatus !== 'ok' && (
         <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000] bg-destructive/90 text-destructive-foreground px-4 py-2 rounded-md flex items-center gap-2 text-sm">
@@ -2085,7 +2512,10 @@ const MapCanvas = ({
       {(activeTool === 'route' || activeTool === 'zone') && drawingPoints.length > 0 && (
         <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[1000] bg-card/90 backdrop-blur-sm border border-border rounded px-4 py-2 text-sm">
           {activeTool === 'route' && 'Кликайте по карте и завершайте через меню у последней точки'}
-          {activeTool === 'zone' && 'Кликайте по карте и завершайте через меню у последней точки'}
+          {activeTool === 'zone' &&
+            (holeDraftZoneId
+              ? 'Обведите исключаемую область и завершите через меню у последней точки'
+              : 'Кликайте по карте и завершайте через меню у последней точки')}
         </div>
       )}
 
@@ -2101,11 +2531,12 @@ const MapCanvas = ({
         </div>
       )}
 
-      {(lanePickMode === 'edge' || lanePickMode === 'start') && (
+      {lanePickMode !== 'none' && (
         <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[1000] bg-card/90 backdrop-blur-sm border border-border rounded px-4 py-2 text-sm flex items-center gap-3">
           <span className="text-muted-foreground">
             {lanePickMode === 'edge' && 'Выберите грань зоны'}
             {lanePickMode === 'start' && 'Кликните для выбора старта (снап к вершине)'}
+            {lanePickMode === 'datum' && 'Кликните точку датума шаблона'}
           </span>
           <button
             type="button"
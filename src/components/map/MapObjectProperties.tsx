@@ -19,8 +19,22 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
-import type { MapObject } from '@/features/map/model/types';
-import type { LaneFeature } from '@/features/mission';
+import type { MapObject, SurveyPatternId } from '@/features/map/model/types';
+import {
+  DEFAULT_PATTERN_LEG_LENGTH_M,
+  DEFAULT_TURN_ALLOWANCE_S,
+  buildLaneTraversal,
+  computeRouteTiming,
+  formatClockTime,
+  formatDurationHms,
+  getDefaultPatternLegCount,
+  getSurveyPatternLabel,
+  surveyPatternIds,
+  surveyPatternParams,
+  resolvePlannedSpeedMps,
+  type LaneFeature,
+  type ZoneCoverageReport,
+} from '@/features/mission';
 import { convertPoint, getCrsLabel, supportedCoordinateCrs, type CrsId } from '@/features/geo/crs';
 import {
   coordinateInputFormats,
@@ -33,10 +47,11 @@ import {
   sanitizeCoordinateInput,
   type CoordinateInputFormat,
 } from '@/features/geo/coordinateInputFormat';
-import { parseLaneAngleInput } from '@/features/mission/model/laneAngle';
+import { parseLaneAngleInput, parsePatternCourseInput } from '@/features/mission/model/laneAngle';
 import type { AppUiDefaults } from '@/features/settings';
 import { AlertTriangle, Trash2, X } from 'lucide-react';
 import { haversineDistanceMeters } from './scaleUtils';
+import RouteTimingTable from './RouteTimingTable';
 
 interface MapObjectPropertiesProps {
   object: MapObject;
@@ -51,9 +66,17 @@ interface MapObjectPropertiesProps {
   onRegenerateLanes?: (id: string, updates?: Partial<MapObject>) => void;
   onPickLaneEdge?: (id: string) => void;
   onPickLaneStart?: (id: string) => void;
+  onPickPatternDatum?: (id: string) => void;
   zoneLanesOutdated?: boolean;
   zoneLaneCount?: number | null;
   zoneLaneFeatures?: LaneFeature[];
+  /** Undefined hides the coverage block, null means there are no recorded tracks. */
+  zoneCoverage?: ZoneCoverageReport | null;
+  coverageToleranceM?: number;
+  onCoverageToleranceChange?: (toleranceM: number) => void;
+  onCreateCoverageRerunRoute?: (id: string) => void;
+  /** Planned speed of the selected agent, used when the object has none. */
+  defaultPlannedSpeedMps?: number;
 }
 
 type EditablePointRow = {
@@ -149,6 +172,11 @@ const formatLaneCount = (count: number | null | undefined): string => {
   return String(count);
 };
 
+const formatCoveragePercent = (value: number): string => `${Math.floor(value * 10) / 10}%`;
+
+const formatCoverageMeters = (value: number | null): string =>
+  value === null || !Number.isFinite(value) ? '--' : `${value.toFixed(1)} м`;
+
 const toEditableRowsFromObject = (
   object: MapObject,
   targetCrs: CrsId,
@@ -451,17 +479,29 @@ const MapObjectProperties = ({
   onRegenerateLanes,
   onPickLaneEdge,
   onPickLaneStart,
+  onPickPatternDatum,
   zoneLanesOutdated,
   zoneLaneCount,
   zoneLaneFeatures,
+  zoneCoverage,
+  coverageToleranceM = 2.5,
+  onCoverageToleranceChange,
+  onCreateCoverageRerunRoute,
+  defaultPlannedSpeedMps,
 }: MapObjectPropertiesProps) => {
   const isRwltBuoy = object.type === 'rwlt_buoy';
   const [name, setName] = useState('');
   const [note, setNote] = useState('');
   const [laneAngle, setLaneAngle] = useState('0');
   const [laneWidth, setLaneWidth] = useState('5');
+  const [surveyPattern, setSurveyPattern] = useState<SurveyPatternId>('parallel');
+  const [patternLegCount, setPatternLegCount] = useState('');
+  const [patternLegLength, setPatternLegLength] = useState(String(DEFAULT_PATTERN_LEG_LENGTH_M));
+  const [plannedSpeed, setPlannedSpeed] = useState('');
+  const [turnAllowance, setTurnAllowance] = useState(String(DEFAULT_TURN_ALLOWANCE_S));
   const [markerSizePx, setMarkerSizePx] = useState('24');
   const [zoneVisible, setZoneVisible] = useState(true);
+  const [coverageTolerance, setCoverageTolerance] = useState(String(coverageToleranceM));
   const [color, setColor] = useState('#0ea5e9');
   const [laneColor, setLaneColor] = useState('#22c55e');
   const [selectedCoordinateCrs, setSelectedCoordinateCrs] = useState<CrsId>(coordinateInputCrs);
@@ -489,6 +529,21 @@ const MapObjectProperties = ({
     () => mapLaneVertexRowsForDisplay(laneVertexRows, selectedCoordinateCrs, selectedCoordinateFormat),
     [laneVertexRows, selectedCoordinateCrs, selectedCoordinateFormat],
   );
+  const plannedSpeedMps = resolvePlannedSpeedMps(Number(plannedSpeed), defaultPlannedSpeedMps);
+  const turnAllowanceS = Number(turnAllowance);
+  const objectTiming = useMemo(() => {
+    if (object.type === 'route' && object.geometry?.type === 'route') {
+      return computeRouteTiming(object.geometry.points, { speedMps: plannedSpeedMps });
+    }
+    if (object.type === 'zone' && zoneLaneFeatures && zoneLaneFeatures.length > 0) {
+      const traversal = buildLaneTraversal(zoneLaneFeatures, object.laneStart ?? null, object.laneBearingDeg);
+      return computeRouteTiming(traversal.waypoints, {
+        speedMps: plannedSpeedMps,
+        turnAllowanceS: Number.isFinite(turnAllowanceS) ? turnAllowanceS : DEFAULT_TURN_ALLOWANCE_S,
+      });
+    }
+    return null;
+  }, [object, plannedSpeedMps, turnAllowanceS, zoneLaneFeatures]);
   const pointRowsPreviewWgs84 = useMemo(
     () => buildPointPreviewRows(pointRows, selectedCoordinateCrs, selectedCoordinateFormat),
     [pointRows, selectedCoordinateCrs, selectedCoordinateFormat],
@@ -544,8 +599,15 @@ const MapObjectProperties = ({
     const fallbackLaneColor = getDefaultLaneColor(styles);
     setName(object.name);
     setNote(object.note ?? '');
-    setLaneAngle(String(object.laneAngle ?? 0));
+    setLaneAngle(String(object.surveyPattern ? object.patternCourseDeg ?? object.laneAngle ?? 0 : object.laneAngle ?? 0));
     setLaneWidth(String(object.laneWidth ?? 5));
+    setSurveyPattern(object.surveyPattern ?? 'parallel');
+    setPatternLegCount(
+      object.surveyPattern ? String(object.patternLegCount ?? getDefaultPatternLegCount(object.surveyPattern)) : '',
+    );
+    setPatternLegLength(String(object.patternLegLengthM ?? DEFAULT_PATTERN_LEG_LENGTH_M));
+    setPlannedSpeed(typeof object.plannedSpeedMps === 'number' ? String(object.plannedSpeedMps) : '');
+    setTurnAllowance(String(object.turnAllowanceS ?? DEFAULT_TURN_ALLOWANCE_S));
     setMarkerSizePx(String(clampMarkerSizePx(object.markerSizePx, 24)));
     setZoneVisible(object.visible);
     setColor(normalizeHexColor(object.color ?? fallbackColor, fallbackColor));
@@ -563,6 +625,31 @@ const MapObjectProperties = ({
     setIsDirty(false);
   }, [object, styles, coordinateInputCrs, coordinateInputFormat, isRwltBuoy, isDirty]);
 
+  const parsePlannedSpeed = (): number | undefined => {
+    const parsed = Number(plannedSpeed);
+    return plannedSpeed.trim() !== '' && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+  };
+
+  const buildPatternUpdates = (): Partial<MapObject> => {
+    if (surveyPattern === 'parallel') {
+      return {
+        surveyPattern: undefined,
+        patternCourseDeg: undefined,
+        patternLegCount: undefined,
+        patternLegLengthM: undefined,
+      };
+    }
+    const legCount = Math.round(Number(patternLegCount));
+    const legLengthM = Number(patternLegLength);
+    return {
+      surveyPattern,
+      patternCourseDeg: parsePatternCourseInput(laneAngle, object.patternCourseDeg ?? object.laneAngle ?? 0),
+      patternLegCount: Number.isFinite(legCount) && legCount > 0 ? legCount : getDefaultPatternLegCount(surveyPattern),
+      patternLegLengthM:
+        Number.isFinite(legLengthM) && legLengthM > 0 ? legLengthM : object.patternLegLengthM ?? DEFAULT_PATTERN_LEG_LENGTH_M,
+    };
+  };
+
   const handleSave = () => {
     const fallbackColor = getDefaultColor(object.type, styles);
     const fallbackLaneColor = getDefaultLaneColor(styles);
@@ -590,12 +677,20 @@ const MapObjectProperties = ({
         type: 'route',
         points: validation.points,
       };
+      updates.plannedSpeedMps = parsePlannedSpeed();
     }
 
     if (object.type === 'zone') {
       const normalizedLaneColor = normalizeHexColor(laneColor, fallbackLaneColor);
       updates.laneAngle = parseLaneAngleInput(laneAngle, object.laneAngle ?? 0);
       updates.laneWidth = Number.isFinite(Number(laneWidth)) ? Number(laneWidth) : object.laneWidth;
+      Object.assign(updates, buildPatternUpdates());
+      updates.plannedSpeedMps = parsePlannedSpeed();
+      const parsedTurnAllowance = Number(turnAllowance);
+      updates.turnAllowanceS =
+        turnAllowance.trim() !== '' && Number.isFinite(parsedTurnAllowance) && parsedTurnAllowance >= 0
+          ? parsedTurnAllowance
+          : object.turnAllowanceS;
       updates.visible = zoneVisible;
       if (typeof object.laneColor === 'string') {
         updates.laneColor = normalizedLaneColor;
@@ -613,7 +708,7 @@ const MapObjectProperties = ({
           return;
         }
         updates.geometry = {
-          type: 'zone',
+          ...object.geometry,
           points: validation.points,
         };
       }
@@ -643,6 +738,18 @@ const MapObjectProperties = ({
     setIsDirty(false);
   };
 
+  useEffect(() => {
+    setCoverageTolerance((prev) => (Number(prev) === coverageToleranceM ? prev : String(coverageToleranceM)));
+  }, [coverageToleranceM]);
+
+  const handleCoverageToleranceChange = (value: string) => {
+    setCoverageTolerance(value);
+    const parsed = Number(value);
+    if (value.trim() !== '' && Number.isFinite(parsed) && parsed > 0) {
+      onCoverageToleranceChange?.(parsed);
+    }
+  };
+
   const handleFieldChange = <T,>(setter: (value: T) => void, value: T) => {
     setter(value);
     setIsDirty(true);
@@ -745,18 +852,79 @@ const MapObjectProperties = ({
     onSave(object.id, { visible: nextVisible });
   };
 
+  const handleZoneConvexHullToggle = () => {
+    if (object.type !== 'zone') return;
+    onSave(object.id, { zoneConvexHull: !object.zoneConvexHull });
+  };
+
+  const handleSurveyPatternChange = (next: SurveyPatternId) => {
+    setSurveyPattern(next);
+    setPatternLegCount(next === 'parallel' ? '' : String(getDefaultPatternLegCount(next)));
+    setIsDirty(true);
+  };
+
   const handleRegenerateClick = () => {
     if (object.type !== 'zone') return;
 
     const updates: Partial<MapObject> = {
       laneAngle: parseLaneAngleInput(laneAngle, object.laneAngle ?? 0),
       laneWidth: Number.isFinite(Number(laneWidth)) ? Number(laneWidth) : object.laneWidth,
+      ...buildPatternUpdates(),
     };
 
     onRegenerateLanes?.(object.id, updates);
     setIsDirty(false);
   };
 
+  const timingBlock = objectTiming ? (
+    <div className="space-y-1.5">
+      <Label className="text-xs text-muted-foreground">Планирование</Label>
+      <div className={object.type === 'zone' ? 'grid grid-cols-2 gap-2' : undefined}>
+        <div className="space-y-1.5">
+          <Label htmlFor="planned-speed" className="text-xs text-muted-foreground">Скорость (м/с)</Label>
+          <Input
+            id="planned-speed"
+            className="h-9 text-sm"
+            type="number"
+            min="0.1"
+            step="0.1"
+            placeholder={String(resolvePlannedSpeedMps(undefined, defaultPlannedSpeedMps))}
+            value={plannedSpeed}
+            onChange={(e) => handleFieldChange(setPlannedSpeed, e.target.value)}
+          />
+        </div>
+        {object.type === 'zone' && (
+          <div className="space-y-1.5">
+            <Label htmlFor="turn-allowance" className="text-xs text-muted-foreground">Разворот (с)</Label>
+            <Input
+              id="turn-allowance"
+              className="h-9 text-sm"
+              type="number"
+              min="0"
+              step="5"
+              value={turnAllowance}
+              onChange={(e) => handleFieldChange(setTurnAllowance, e.target.value)}
+            />
+          </div>
+        )}
+      </div>
+      <div className="p-2.5 bg-muted rounded-md">
+        <div className="text-[11px] text-muted-foreground mb-1">
+          {object.type === 'zone' ? 'Время обследования' : 'Время прохождения'}
+        </div>
+        <div className="font-mono text-base leading-5">
+          {`${formatDurationHms(objectTiming.totalDurationS)} · ETA ${formatClockTime(objectTiming.etaMs)}`}
+        </div>
+        {object.type === 'zone' && (
+          <div className="text-[11px] text-muted-foreground mt-1">
+            {`Путь ${formatRouteLength(objectTiming.totalDistanceM)}, развороты ${formatDurationHms(objectTiming.totalTurnS)}`}
+          </div>
+        )}
+      </div>
+      {objectTiming.legs.length > 0 && <RouteTimingTable timing={objectTiming} />}
+    </div>
+  ) : null;
+
   return (
     <div className="h-full flex flex-col text-[13px]">
       <div className="px-2.5 py-1.5 border-b border-sidebar-border flex items-center justify-between gap-2">
@@ -927,6 +1095,8 @@ const MapObjectProperties = ({
           </div>
         )}
 
+        {object.type === 'route' && timingBlock}
+
         {object.type === 'measure' && (
           <div className="p-2.5 bg-muted rounded-md">
             <div className="text-[11px] text-muted-foreground mb-1">Расстояние</div>
@@ -952,6 +1122,9 @@ const MapObjectProperties = ({
               </div>
               <div className="rounded-md border border-sidebar-border px-2.5 py-2 text-xs text-muted-foreground">
                 Точек: {pointRows.length}
+                {object.geometry?.type === 'zone' && (object.geometry.holes?.length ?? 0) > 0
+                  ? ` · вырезанных областей: ${object.geometry.holes?.length}`
+                  : ''}
               </div>
             </div>
 
@@ -982,34 +1155,65 @@ const MapObjectProperties = ({
                 />
                 <span className="text-[13px] leading-5">Показывать зону</span>
               </label>
-              <div className="text-[11px] text-muted-foreground">Ориентация</div>
-              <div className="font-mono text-sm leading-5 break-words">
-                {typeof object.laneBearingDeg === 'number' ? `по грани (${Math.round(object.laneBearingDeg)}°)` : 'авто'}
-              </div>
-              <div className="text-[11px] text-muted-foreground pt-1">Старт</div>
-              <div className="font-mono text-xs leading-4 break-all">
-                {object.laneStart ? `${object.laneStart.lat.toFixed(6)}, ${object.laneStart.lon.toFixed(6)}` : 'не выбран'}
-              </div>
+              <label className="flex items-center gap-2 pb-1">
+                <Checkbox
+                  checked={Boolean(object.zoneConvexHull)}
+                  onCheckedChange={handleZoneConvexHullToggle}
+                />
+                <span className="text-[13px] leading-5">Выпуклая оболочка</span>
+              </label>
+              {surveyPattern === 'parallel' ? (
+                <>
+                  <div className="text-[11px] text-muted-foreground">Ориентация</div>
+                  <div className="font-mono text-sm leading-5 break-words">
+                    {typeof object.laneBearingDeg === 'number' ? `по грани (${Math.round(object.laneBearingDeg)}°)` : 'авто'}
+                  </div>
+                  <div className="text-[11px] text-muted-foreground pt-1">Старт</div>
+                  <div className="font-mono text-xs leading-4 break-all">
+                    {object.laneStart ? `${object.laneStart.lat.toFixed(6)}, ${object.laneStart.lon.toFixed(6)}` : 'не выбран'}
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="text-[11px] text-muted-foreground">Датум</div>
+                  <div className="font-mono text-xs leading-4 break-all">
+                    {object.patternDatum
+                      ? `${object.patternDatum.lat.toFixed(6)}, ${object.patternDatum.lon.toFixed(6)}`
+                      : 'центр зоны'}
+                  </div>
+                </>
+              )}
             </div>
 
-            <div className="space-y-1.5">
+            {surveyPattern !== 'parallel' ? (
               <Button
                 type="button"
                 variant="outline"
                 className="w-full h-auto min-h-9 py-1.5 leading-snug whitespace-normal text-left justify-start text-[13px]"
-                onClick={() => onPickLaneEdge?.(object.id)}
+                onClick={() => onPickPatternDatum?.(object.id)}
               >
-                Выбрать грань на карте
+                Выбрать датум на карте
               </Button>
-              <Button
-                type="button"
-                variant="outline"
-                className="w-full h-auto min-h-9 py-1.5 leading-snug whitespace-normal text-left justify-start text-[13px]"
-                onClick={() => onPickLaneStart?.(object.id)}
-              >
-                Выбрать старт на карте
-              </Button>
-            </div>
+            ) : (
+              <div className="space-y-1.5">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full h-auto min-h-9 py-1.5 leading-snug whitespace-normal text-left justify-start text-[13px]"
+                  onClick={() => onPickLaneEdge?.(object.id)}
+                >
+                  Выбрать грань на карте
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full h-auto min-h-9 py-1.5 leading-snug whitespace-normal text-left justify-start text-[13px]"
+                  onClick={() => onPickLaneStart?.(object.id)}
+                >
+                  Выбрать старт на карте
+                </Button>
+              </div>
+            )}
 
             {zoneLanesOutdated && (
               <div className="flex items-center gap-2 p-2.5 bg-warning/10 border border-warning/30 rounded-md">
@@ -1019,7 +1223,25 @@ const MapObjectProperties = ({
             )}
 
             <div className="space-y-1.5">
-              <Label htmlFor="lane-angle" className="text-xs text-muted-foreground">Угол галсов</Label>
+              <Label className="text-xs text-muted-foreground">Шаблон обследования</Label>
+              <Select value={surveyPattern} onValueChange={(value) => handleSurveyPatternChange(value as SurveyPatternId)}>
+                <SelectTrigger className="h-9 text-sm" aria-label="Шаблон обследования">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {surveyPatternIds.map((pattern) => (
+                    <SelectItem key={`survey-pattern-${pattern}`} value={pattern}>
+                      {getSurveyPatternLabel(pattern)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="lane-angle" className="text-xs text-muted-foreground">
+                {surveyPattern === 'parallel' ? 'Угол галсов' : 'Курс первого галса (°)'}
+              </Label>
               <Input
                 id="lane-angle"
                 className="h-9 text-sm"
@@ -1033,7 +1255,9 @@ const MapObjectProperties = ({
             </div>
 
             <div className="space-y-1.5">
-              <Label htmlFor="lane-width" className="text-xs text-muted-foreground">Ширина галса (м)</Label>
+              <Label htmlFor="lane-width" className="text-xs text-muted-foreground">
+                {surveyPattern === 'parallel' ? 'Ширина галса (м)' : 'Шаг поиска (м)'}
+              </Label>
               <Input
                 id="lane-width"
                 className="h-9 text-sm"
@@ -1045,6 +1269,40 @@ const MapObjectProperties = ({
               />
             </div>
 
+            {surveyPatternParams[surveyPattern].legCount && (
+              <div className="space-y-1.5">
+                <Label htmlFor="pattern-leg-count" className="text-xs text-muted-foreground">
+                  {surveyPattern === 'spiral_out' || surveyPattern === 'spiral_in' ? 'Число витков' : 'Число галсов'}
+                </Label>
+                <Input
+                  id="pattern-leg-count"
+                  className="h-9 text-sm"
+                  type="number"
+                  min="1"
+                  max="200"
+                  step="1"
+                  value={patternLegCount}
+                  onChange={(e) => handleFieldChange(setPatternLegCount, e.target.value)}
+                />
+              </div>
+            )}
+
+            {surveyPatternParams[surveyPattern].legLength && (
+              <div className="space-y-1.5">
+                <Label htmlFor="pattern-leg-length" className="text-xs text-muted-foreground">
+                  {surveyPattern === 'sector' ? 'Радиус сектора (м)' : 'Длина галса (м)'}
+                </Label>
+                <Input
+                  id="pattern-leg-length"
+                  className="h-9 text-sm"
+                  type="number"
+                  min="1"
+                  value={patternLegLength}
+                  onChange={(e) => handleFieldChange(setPatternLegLength, e.target.value)}
+                />
+              </div>
+            )}
+
             <Button className="w-full h-9 mt-1 text-sm" variant="secondary" onClick={handleRegenerateClick}>
               Перегенерировать галсы
             </Button>
@@ -1053,6 +1311,77 @@ const MapObjectProperties = ({
               <div className="text-[11px] text-muted-foreground mb-1">Галсов в зоне</div>
               <div className="font-mono text-base leading-5">{formatLaneCount(zoneLaneCount)}</div>
             </div>
+
+            {timingBlock}
+
+            {zoneCoverage !== undefined && (
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">Покрытие галсов</Label>
+                {zoneCoverage === null ? (
+                  <div className="rounded-md border border-sidebar-border px-2.5 py-2 text-xs text-muted-foreground">
+                    Нет записанных треков
+                  </div>
+                ) : (
+                  <>
+                    <div className="space-y-1.5">
+                      <Label htmlFor="coverage-tolerance" className="text-xs text-muted-foreground">
+                        Допуск отклонения (м)
+                      </Label>
+                      <Input
+                        id="coverage-tolerance"
+                        className="h-9 text-sm"
+                        type="number"
+                        min="0.1"
+                        step="0.5"
+                        value={coverageTolerance}
+                        onChange={(e) => handleCoverageToleranceChange(e.target.value)}
+                      />
+                    </div>
+                    <div className="p-2.5 bg-muted rounded-md">
+                      <div className="text-[11px] text-muted-foreground mb-1">Пройдено</div>
+                      <div className="font-mono text-base leading-5">
+                        {`${formatCoveragePercent(zoneCoverage.coveredPercent)} · пропусков: ${zoneCoverage.gaps.length}`}
+                      </div>
+                    </div>
+                    <div className="max-h-48 overflow-auto rounded-md border border-sidebar-border">
+                      <table className="w-full text-xs">
+                        <thead className="sticky top-0 bg-muted text-muted-foreground">
+                          <tr>
+                            <th className="px-2 py-1 text-left font-medium">Галс</th>
+                            <th className="px-2 py-1 text-right font-medium">Покрытие</th>
+                            <th className="px-2 py-1 text-right font-medium">Макс. XTE</th>
+                            <th className="px-2 py-1 text-right font-medium">Пропуски</th>
+                          </tr>
+                        </thead>
+                        <tbody className="font-mono">
+                          {zoneCoverage.lanes.map((lane) => (
+                            <tr key={lane.laneId} className={lane.gaps.length > 0 ? 'text-destructive' : undefined}>
+                              <td className="px-2 py-1">{lane.laneIndex}</td>
+                              <td className="px-2 py-1 text-right">{formatCoveragePercent(lane.coveredPercent)}</td>
+                              <td className="px-2 py-1 text-right">{formatCoverageMeters(lane.maxCrossTrackM)}</td>
+                              <td className="px-2 py-1 text-right">
+                                {lane.gaps.length > 0
+                                  ? lane.gaps.map((gap) => `${Math.round(gap.fromM)}–${Math.round(gap.toM)} м`).join(', ')
+                                  : '--'}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="w-full h-9 text-sm"
+                      disabled={zoneCoverage.gaps.length === 0}
+                      onClick={() => onCreateCoverageRerunRoute?.(object.id)}
+                    >
+                      Маршрут по пропускам
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
           </>
         )}
       </div>
@@ -0,0 +1,288 @@
+import { useMemo, useState } from 'react';
+import { Crosshair, Keyboard, Minus, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  MIN_CONTROL_POINTS,
+  fitRasterGeoreference,
+  toRasterControlPoints,
+  type RasterGeoreferenceFit,
+  type RasterGeoreferenceOrder,
+} from '@/features/map/rasterOverlays/georeference';
+
+/** Control point being edited: pixel and map halves are picked independently. */
+export type GeoreferencePointDraft = {
+  id: string;
+  pixel: { x: number; y: number } | null;
+  map: { lat: number; lon: number } | null;
+};
+
+interface RasterGeoreferencePanelProps {
+  overlayName: string;
+  imageUrl: string;
+  points: GeoreferencePointDraft[];
+  activePointId: string | null;
+  order: RasterGeoreferenceOrder;
+  pickingOnMap: boolean;
+  onImageSize: (size: { width: number; height: number }) => void;
+  onPixelPick: (pixel: { x: number; y: number }) => void;
+  onActivePointChange: (id: string) => void;
+  onAddPoint: () => void;
+  onRemovePoint: (id: string) => void;
+  onPickOnMap: (id: string) => void;
+  onEnterCoordinates: (id: string) => void;
+  onOrderChange: (order: RasterGeoreferenceOrder) => void;
+  onApply: (fit: RasterGeoreferenceFit) => void;
+  onClose: () => void;
+}
+
+const ZOOM_LEVELS = [1, 2, 4, 8];
+
+const formatResidual = (meters: number): string => (meters >= 100 ? `${Math.round(meters)} м` : `${meters.toFixed(2)} м`);
+
+const RasterGeoreferencePanel = ({
+  overlayName,
+  imageUrl,
+  points,
+  activePointId,
+  order,
+  pickingOnMap,
+  onImageSize,
+  onPixelPick,
+  onActivePointChange,
+  onAddPoint,
+  onRemovePoint,
+  onPickOnMap,
+  onEnterCoordinates,
+  onOrderChange,
+  onApply,
+  onClose,
+}: RasterGeoreferencePanelProps) => {
+  const [zoomIndex, setZoomIndex] = useState(0);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+
+  const controlPoints = useMemo(() => toRasterControlPoints(points), [points]);
+  const fitResult = useMemo((): { fit: RasterGeoreferenceFit } | { error: string } => {
+    try {
+      return { fit: fitRasterGeoreference(controlPoints, order) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Не удалось рассчитать привязку.' };
+    }
+  }, [controlPoints, order]);
+  const fit = 'fit' in fitResult ? fitResult.fit : null;
+
+  const residualsById = useMemo(() => {
+    const map = new Map<string, number>();
+    if (!fit) return map;
+    let index = 0;
+    for (const point of points) {
+      if (!point.pixel || !point.map) continue;
+      map.set(point.id, fit.residuals[index].distance_m);
+      index += 1;
+    }
+    return map;
+  }, [fit, points]);
+
+  const zoom = ZOOM_LEVELS[zoomIndex];
+
+  return (
+    <div
+      className="absolute left-4 top-4 z-[1000] flex max-h-[calc(100%-5rem)] w-[min(420px,calc(100%-2rem))] flex-col rounded-md border border-border bg-card/95 shadow-lg"
+      data-testid="raster-georeference-panel"
+    >
+      <div className="flex items-center gap-2 border-b border-border px-3 py-2">
+        <Crosshair className="h-4 w-4 text-primary" />
+        <span className="flex-1 truncate text-sm font-medium">{`Привязка по точкам: ${overlayName}`}</span>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          aria-label="Уменьшить изображение"
+          disabled={zoomIndex === 0}
+          onClick={() => setZoomIndex((prev) => Math.max(0, prev - 1))}
+        >
+          <Minus className="h-4 w-4" />
+        </Button>
+        <span className="w-6 text-center text-xs text-muted-foreground">{`${zoom}×`}</span>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          aria-label="Увеличить изображение"
+          disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+          onClick={() => setZoomIndex((prev) => Math.min(ZOOM_LEVELS.length - 1, prev + 1))}
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button size="icon" variant="ghost" className="h-7 w-7" aria-label="Закрыть привязку" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="max-h-64 overflow-auto border-b border-border bg-muted/30">
+        {imageUrl ? (
+          <div className="relative" style={{ width: `${zoom * 100}%` }}>
+            <img
+              src={imageUrl}
+              alt={overlayName}
+              className="block w-full cursor-crosshair select-none"
+              draggable={false}
+              onLoad={(event) => {
+                const size = { width: event.currentTarget.naturalWidth, height: event.currentTarget.naturalHeight };
+                if (size.width <= 0 || size.height <= 0) return;
+                setNaturalSize(size);
+                onImageSize(size);
+              }}
+              onClick={(event) => {
+                if (!naturalSize) return;
+                const rect = event.currentTarget.getBoundingClientRect();
+                if (rect.width <= 0 || rect.height <= 0) return;
+                onPixelPick({
+                  x: ((event.clientX - rect.left) / rect.width) * naturalSize.width,
+                  y: ((event.clientY - rect.top) / rect.height) * naturalSize.height,
+                });
+              }}
+            />
+            {naturalSize
+              ? points.map((point, index) =>
+                  point.pixel ? (
+                    <span
+                      key={point.id}
+                      className={cn(
+                        'pointer-events-none absolute flex h-4 w-4 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full border-2 bg-background/90 text-[9px] font-bold',
+                        point.id === activePointId ? 'border-orange-500' : 'border-sky-500',
+                      )}
+                      style={{
+                        left: `${(point.pixel.x / naturalSize.width) * 100}%`,
+                        top: `${(point.pixel.y / naturalSize.height) * 100}%`,
+                      }}
+                    >
+                      {index + 1}
+                    </span>
+                  ) : null,
+                )
+              : null}
+          </div>
+        ) : (
+          <div className="px-3 py-6 text-center text-xs text-muted-foreground">Растр ещё отрисовывается…</div>
+        )}
+      </div>
+
+      <div className="px-3 py-2 text-xs text-muted-foreground">
+        {pickingOnMap
+          ? 'Щёлкните по карте в месте, соответствующем выбранной точке.'
+          : 'Выберите строку, щёлкните точку на изображении и укажите её положение на карте или введите координаты.'}
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-y-auto px-3">
+        <div className="grid grid-cols-[20px_1fr_1fr_64px_72px] gap-1 border-b border-border pb-1 text-[11px] text-muted-foreground">
+          <span>#</span>
+          <span>Пиксель</span>
+          <span>Карта</span>
+          <span>Невязка</span>
+          <span />
+        </div>
+        {points.map((point, index) => {
+          const residual = residualsById.get(point.id);
+          return (
+            <div
+              key={point.id}
+              role="row"
+              aria-selected={point.id === activePointId}
+              className={cn(
+                'grid cursor-pointer grid-cols-[20px_1fr_1fr_64px_72px] items-center gap-1 border-b border-border/60 py-1 text-xs',
+                point.id === activePointId && 'bg-primary/10',
+              )}
+              onClick={() => onActivePointChange(point.id)}
+            >
+              <span className="font-medium">{index + 1}</span>
+              <span className="font-mono">
+                {point.pixel ? `${point.pixel.x.toFixed(1)}, ${point.pixel.y.toFixed(1)}` : '—'}
+              </span>
+              <span className="font-mono">
+                {point.map ? `${point.map.lat.toFixed(6)}, ${point.map.lon.toFixed(6)}` : '—'}
+              </span>
+              <span className="font-mono">{residual === undefined ? '—' : formatResidual(residual)}</span>
+              <span className="flex justify-end gap-0.5">
+                <Button
+                  size="icon"
+                  variant={pickingOnMap && point.id === activePointId ? 'secondary' : 'ghost'}
+                  className="h-6 w-6"
+                  aria-label={`Указать точку ${index + 1} на карте`}
+                  title="Указать на карте"
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onPickOnMap(point.id);
+                  }}
+                >
+                  <Crosshair className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  aria-label={`Ввести координаты точки ${index + 1}`}
+                  title="Ввести координаты"
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onEnterCoordinates(point.id);
+                  }}
+                >
+                  <Keyboard className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  aria-label={`Удалить точку ${index + 1}`}
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onRemovePoint(point.id);
+                  }}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </span>
+            </div>
+          );
+        })}
+        <Button type="button" size="sm" variant="outline" className="my-2" onClick={onAddPoint}>
+          <Plus className="mr-1 h-4 w-4" />
+          Добавить точку
+        </Button>
+      </div>
+
+      <div className="space-y-2 border-t border-border px-3 py-2">
+        <div className="flex items-center gap-2 text-xs">
+          <label htmlFor="georeference-order" className="text-muted-foreground">
+            Преобразование
+          </label>
+          <select
+            id="georeference-order"
+            className="h-7 flex-1 rounded-md border border-input bg-background px-2 text-xs"
+            value={order}
+            onChange={(event) => onOrderChange(event.target.value === '2' ? 2 : 1)}
+          >
+            <option value="1">{`Аффинное (от ${MIN_CONTROL_POINTS[1]} точек)`}</option>
+            <option value="2">{`Полином 2-го порядка (от ${MIN_CONTROL_POINTS[2]} точек)`}</option>
+          </select>
+        </div>
+        {fit ? (
+          <div className="text-xs text-muted-foreground">{`СКО: ${formatResidual(fit.rmse_m)}`}</div>
+        ) : (
+          <div className="text-xs text-destructive">{'error' in fitResult ? fitResult.error : null}</div>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button type="button" size="sm" variant="outline" onClick={onClose}>
+            Отмена
+          </Button>
+          <Button type="button" size="sm" disabled={!fit || !naturalSize} onClick={() => fit && onApply(fit)}>
+            Применить привязку
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RasterGeoreferencePanel;
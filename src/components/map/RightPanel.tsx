@@ -6,7 +6,17 @@ import { Wifi, WifiOff, Radio, Trash2, Eye, EyeOff, ChevronDown, ChevronRight }
 import { cn } from '@/lib/utils';
 import MapObjectProperties from './MapObjectProperties';
 import type { AppUiDefaults } from '@/features/settings';
-import type { DiverUiConfig, LaneFeature, MissionDocument, TrackRecorderStatus } from '@/features/mission';
+import {
+  formatClockTime,
+  formatDurationHms,
+  type DiverUiConfig,
+  type LaneFeature,
+  type MissionDocument,
+  type RouteGuidance,
+  type RouteProgress,
+  type TrackRecorderStatus,
+  type ZoneCoverageReport,
+} from '@/features/mission';
 
 export type RightPanelSectionsCollapsedState = {
   hud: boolean;
@@ -31,6 +41,8 @@ interface RightPanelProps {
   };
   hasTelemetryData: boolean;
   hasTelemetryHistory: boolean;
+  /** Set while HUD shows values from the track playback timeline */
+  historicalTimeMs?: number | null;
   coordPrecision: number;
   coordinateInputCrs?: CrsId;
   coordinateInputFormat?: CoordinateInputFormat;
@@ -49,6 +61,19 @@ interface RightPanelProps {
   selectedZoneLanesOutdated: boolean;
   selectedZoneLaneCount: number | null;
   selectedZoneLaneFeatures?: LaneFeature[];
+  selectedZoneCoverage?: ZoneCoverageReport | null;
+  laneCoverageToleranceM?: number;
+  onLaneCoverageToleranceChange?: (toleranceM: number) => void;
+  onCreateCoverageRerunRoute?: (id: string) => void;
+  /** Live progress of the selected agent along the selected route or zone path */
+  navigationProgress?: RouteProgress | null;
+  navigationTargetName?: string;
+  /** Steering data while the selected agent follows a route or zone */
+  routeGuidance?: RouteGuidance | null;
+  isRouteFollowing?: boolean;
+  onStartRouteFollowing?: () => void;
+  onStopRouteFollowing?: () => void;
+  defaultPlannedSpeedMps?: number;
   onObjectSelect: (id: string | null) => void;
   onObjectUpdate?: (id: string, updates: Partial<MapObject>) => void;
   onCoordinateInputCrsChange?: (crs: CrsId) => void;
@@ -57,6 +82,7 @@ interface RightPanelProps {
   onRegenerateLanes?: (id: string, updates?: Partial<MapObject>) => void;
   onPickLaneEdge?: (id: string) => void;
   onPickLaneStart?: (id: string) => void;
+  onPickPatternDatum?: (id: string) => void;
   onTrackDelete?: (trackId: string) => void;
   onTrackVisibilityToggle?: (trackId: string) => void;
   onTracksVisibilitySet?: (trackIds: string[], visible: boolean) => void;
@@ -76,10 +102,21 @@ const formatTrackTime = (value: string): string => {
   });
 };
 
+const formatRemainingDistance = (meters: number): string =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(2)} км` : `${Math.round(meters)} м`;
+
+const formatCrossTrackError = (meters: number): string => {
+  const side = meters > 0 ? ' вправо' : meters < 0 ? ' влево' : '';
+  return `${Math.abs(meters).toFixed(1)} м${side}`;
+};
+
+const formatBearing = (degrees: number): string => `${String(Math.round(degrees) % 360).padStart(3, '0')}°`;
+
 const RightPanel = ({
   diverData,
   hasTelemetryData,
   hasTelemetryHistory,
+  historicalTimeMs = null,
   coordPrecision,
   coordinateInputCrs = 'wgs84',
   coordinateInputFormat = 'dd',
@@ -96,6 +133,17 @@ const RightPanel = ({
   selectedZoneLanesOutdated,
   selectedZoneLaneCount,
   selectedZoneLaneFeatures,
+  selectedZoneCoverage,
+  laneCoverageToleranceM,
+  onLaneCoverageToleranceChange,
+  onCreateCoverageRerunRoute,
+  navigationProgress = null,
+  navigationTargetName,
+  routeGuidance = null,
+  isRouteFollowing = false,
+  onStartRouteFollowing,
+  onStopRouteFollowing,
+  defaultPlannedSpeedMps,
   onObjectSelect,
   onObjectUpdate,
   onCoordinateInputCrsChange,
@@ -104,6 +152,7 @@ const RightPanel = ({
   onRegenerateLanes,
   onPickLaneEdge,
   onPickLaneStart,
+  onPickPatternDatum,
   onTrackDelete,
   onTrackVisibilityToggle,
   onTracksVisibilitySet,
@@ -137,7 +186,8 @@ const RightPanel = ({
         : hasTelemetryHistory
           ? 'timeout'
           : 'waiting';
-  const showNoTelemetryLabel = connectionState !== 'off' && noTelemetry && hasTelemetryHistory;
+  const isHistorical = historicalTimeMs !== null;
+  const showNoTelemetryLabel = !isHistorical && connectionState !== 'off' && noTelemetry && hasTelemetryHistory;
   const connectionLabel =
     connectionState === 'off'
       ? 'Выключено'
@@ -188,6 +238,11 @@ const RightPanel = ({
           {showNoTelemetryLabel ? (
             <div className="text-xs text-muted-foreground">нет данных</div>
           ) : null}
+          {isHistorical ? (
+            <div className="text-xs text-muted-foreground">
+              {`Архив · ${formatTrackTime(new Date(historicalTimeMs).toISOString())}`}
+            </div>
+          ) : null}
           <div className="grid grid-cols-2 gap-2">
             <div>
               <div className="text-xs text-muted-foreground mb-1">Широта</div>
@@ -220,6 +275,76 @@ const RightPanel = ({
               </div>
             </div>
           </div>
+          {navigationProgress ? (
+            <div className="space-y-0.5 border-t border-sidebar-border pt-2 text-xs" data-testid="hud-navigation">
+              <div className="text-muted-foreground">
+                {`${isRouteFollowing ? 'Ведение: ' : ''}${navigationTargetName ?? 'Маршрут'} · точка ${
+                  navigationProgress.nextWaypointIndex + 1
+                }`}
+              </div>
+              <div className="font-mono">
+                {`До точки: ${formatRemainingDistance(navigationProgress.distanceToNextM)} · ${formatDurationHms(
+                  navigationProgress.timeToNextS,
+                )} · ${formatClockTime(navigationProgress.etaNextMs)}`}
+              </div>
+              <div className="font-mono">
+                {`До конца: ${formatRemainingDistance(navigationProgress.remainingDistanceM)} · ${formatDurationHms(
+                  navigationProgress.remainingTimeS,
+                )} · ${formatClockTime(navigationProgress.etaEndMs)}`}
+              </div>
+            </div>
+          ) : null}
+          {routeGuidance ? (
+            <div className="space-y-0.5 text-xs" data-testid="hud-route-guidance">
+              {routeGuidance.completed ? (
+                <div className="text-success">Маршрут пройден</div>
+              ) : (
+                <>
+                  <div className="font-mono">
+                    {`Пеленг: ${formatBearing(routeGuidance.bearingToWaypointDeg)} · путь ${formatBearing(
+                      routeGuidance.legBearingDeg,
+                    )}`}
+                  </div>
+                  {routeGuidance.legStart ? (
+                    <>
+                      <div
+                        className={cn(
+                          'font-mono',
+                          Math.abs(routeGuidance.crossTrackErrorM) > 10 ? 'text-destructive' : undefined,
+                        )}
+                      >
+                        {`XTE: ${formatCrossTrackError(routeGuidance.crossTrackErrorM)}`}
+                      </div>
+                      <div className="font-mono">
+                        {`По отрезку: ${formatRemainingDistance(
+                          Math.max(0, routeGuidance.alongTrackDistanceM),
+                        )} из ${formatRemainingDistance(routeGuidance.legLengthM)}`}
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-muted-foreground">Выход на первую точку</div>
+                  )}
+                </>
+              )}
+            </div>
+          ) : null}
+          {isRouteFollowing && onStopRouteFollowing ? (
+            <button
+              type="button"
+              className="h-7 w-full rounded-sm border border-sidebar-border text-xs hover:bg-sidebar-accent"
+              onClick={onStopRouteFollowing}
+            >
+              Остановить ведение
+            </button>
+          ) : !isRouteFollowing && onStartRouteFollowing ? (
+            <button
+              type="button"
+              className="h-7 w-full rounded-sm border border-sidebar-border text-xs hover:bg-sidebar-accent"
+              onClick={onStartRouteFollowing}
+            >
+              Вести по выбранному объекту
+            </button>
+          ) : null}
         </div>
       ) : null}
 
@@ -419,9 +544,15 @@ const RightPanel = ({
               onRegenerateLanes={onRegenerateLanes}
               onPickLaneEdge={onPickLaneEdge}
               onPickLaneStart={onPickLaneStart}
+              onPickPatternDatum={onPickPatternDatum}
               zoneLanesOutdated={selectedObject.type === 'zone' ? selectedZoneLanesOutdated : undefined}
               zoneLaneCount={selectedObject.type === 'zone' ? selectedZoneLaneCount : undefined}
               zoneLaneFeatures={selectedObject.type === 'zone' ? selectedZoneLaneFeatures : undefined}
+              zoneCoverage={selectedObject.type === 'zone' ? selectedZoneCoverage : undefined}
+              coverageToleranceM={laneCoverageToleranceM}
+              onCoverageToleranceChange={onLaneCoverageToleranceChange}
+              onCreateCoverageRerunRoute={onCreateCoverageRerunRoute}
+              defaultPlannedSpeedMps={defaultPlannedSpeedMps}
             />
           ) : (
             <div className="h-full flex items-center justify-center px-4 text-center text-xs text-muted-foreground">
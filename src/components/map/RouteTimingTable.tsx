@@ -0,0 +1,40 @@
+import { formatClockTime, formatDurationHms, type RouteTiming } from '@/features/mission';
+
+interface RouteTimingTableProps {
+  timing: RouteTiming;
+  className?: string;
+}
+
+const formatLegDistance = (meters: number): string =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(2)} км` : `${meters.toFixed(1)} м`;
+
+const RouteTimingTable = ({ timing, className }: RouteTimingTableProps) => (
+  <div className={className ?? 'max-h-56 overflow-auto rounded-md border border-sidebar-border'}>
+    <table className="w-full text-xs">
+      <thead className="sticky top-0 bg-muted text-muted-foreground">
+        <tr>
+          <th className="px-2 py-1 text-left font-medium">Отрезок</th>
+          <th className="px-2 py-1 text-right font-medium">Курс</th>
+          <th className="px-2 py-1 text-right font-medium">Дистанция</th>
+          <th className="px-2 py-1 text-right font-medium">Время</th>
+          <th className="px-2 py-1 text-right font-medium">Итого</th>
+          <th className="px-2 py-1 text-right font-medium">ETA</th>
+        </tr>
+      </thead>
+      <tbody className="font-mono">
+        {timing.legs.map((leg) => (
+          <tr key={leg.index}>
+            <td className="px-2 py-1">{`${leg.index}→${leg.index + 1}`}</td>
+            <td className="px-2 py-1 text-right">{`${Math.round(leg.bearingDeg) % 360}°`}</td>
+            <td className="px-2 py-1 text-right">{formatLegDistance(leg.distanceM)}</td>
+            <td className="px-2 py-1 text-right">{formatDurationHms(leg.durationS)}</td>
+            <td className="px-2 py-1 text-right">{formatDurationHms(leg.cumulativeTimeS)}</td>
+            <td className="px-2 py-1 text-right">{formatClockTime(leg.etaMs)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default RouteTimingTable;
@@ -5,6 +5,8 @@ interface StatusBarProps {
   scale: string;
   activeTool: Tool;
   coordPrecision: number;
+  /** Depth interpolated from the bathymetry layers under the cursor; null when there is none. */
+  cursorDepthM?: number | null;
 }
 
 const toolNames: Record<Tool, string> = {
@@ -15,7 +17,7 @@ const toolNames: Record<Tool, string> = {
   measure: 'Измерить',
 };
 
-const StatusBar = ({ cursorPosition, scale, activeTool, coordPrecision }: StatusBarProps) => {
+const StatusBar = ({ cursorPosition, scale, activeTool, coordPrecision, cursorDepthM = null }: StatusBarProps) => {
   return (
     <div className="h-7 bg-card border-t border-border flex items-center px-3 gap-6 text-xs">
       <div className="flex items-center gap-2">
@@ -24,6 +26,13 @@ const StatusBar = ({ cursorPosition, scale, activeTool, coordPrecision }: Status
           {cursorPosition.lat.toFixed(coordPrecision)}°, {cursorPosition.lon.toFixed(coordPrecision)}°
         </span>
       </div>
+
+      {cursorDepthM !== null ? (
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground">Глубина:</span>
+          <span className="font-mono text-foreground">{cursorDepthM.toFixed(1)} м</span>
+        </div>
+      ) : null}
       
       <div className="flex items-center gap-2">
         <span className="text-muted-foreground">Масштаб:</span>
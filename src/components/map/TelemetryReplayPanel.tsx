@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { Pause, Play, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  NMEA_REPLAY_SCHEMA_IDS,
+  type ReplayTelemetryProvider,
+  type TelemetryReplaySchemaId,
+  type TelemetryReplayState,
+} from '@/features/mission';
+
+const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8, 16];
+
+const SCHEMA_LABELS: Record<TelemetryReplaySchemaId, string> = {
+  zima2r: 'Zima2R',
+  'gnss-udp': 'GNSS (UDP)',
+  'gnss-com': 'GNSS (COM)',
+  'rwlt-com': 'RWLT',
+};
+
+const formatReplayTime = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+interface TelemetryReplayPanelProps {
+  provider: ReplayTelemetryProvider;
+  fileName: string;
+  /** NMEA recordings do not reveal which GNSS device wrote them, so the operator may switch. */
+  onSchemaChange?: (schemaId: TelemetryReplaySchemaId) => void;
+  onClose: () => void;
+}
+
+const TelemetryReplayPanel = ({ provider, fileName, onSchemaChange, onClose }: TelemetryReplayPanelProps) => {
+  const [state, setState] = useState<TelemetryReplayState>(() => provider.getState());
+
+  useEffect(() => {
+    setState(provider.getState());
+    return provider.onStateChange(setState);
+  }, [provider]);
+
+  return (
+    <div
+      className="absolute bottom-10 left-1/2 z-[1000] w-[min(640px,calc(100%-2rem))] -translate-x-1/2 rounded-md border border-border bg-card/95 px-3 py-2 shadow-lg"
+      data-testid="telemetry-replay-panel"
+    >
+      <div className="flex items-center gap-3">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          onClick={() => (state.playing ? provider.pause() : provider.play())}
+          aria-label={state.playing ? 'Пауза' : 'Воспроизвести'}
+        >
+          {state.playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+        <div className="min-w-0 flex-1 space-y-1">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="truncate">{fileName}</span>
+            {state.schemaId && onSchemaChange && NMEA_REPLAY_SCHEMA_IDS.includes(state.schemaId) ? (
+              <Select
+                value={state.schemaId}
+                onValueChange={(value) => onSchemaChange(value as TelemetryReplaySchemaId)}
+              >
+                <SelectTrigger className="h-6 w-28 shrink-0 text-xs" aria-label="Источник записи">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NMEA_REPLAY_SCHEMA_IDS.map((schemaId) => (
+                    <SelectItem key={schemaId} value={schemaId}>
+                      {SCHEMA_LABELS[schemaId]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : state.schemaId ? (
+              <span className="shrink-0">{SCHEMA_LABELS[state.schemaId]}</span>
+            ) : null}
+            <span className="ml-auto shrink-0 font-mono">
+              {`${formatReplayTime(state.positionMs)} / ${formatReplayTime(state.durationMs)}`}
+            </span>
+          </div>
+          <Slider
+            value={[state.positionMs]}
+            min={0}
+            max={Math.max(1, state.durationMs)}
+            step={100}
+            onValueChange={(value) => provider.seek(value[0] ?? 0)}
+            aria-label="Позиция воспроизведения"
+          />
+        </div>
+        <Select value={String(state.speed)} onValueChange={(value) => provider.setSpeed(Number(value))}>
+          <SelectTrigger className="h-8 w-20 shrink-0">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REPLAY_SPEEDS.map((speed) => (
+              <SelectItem key={speed} value={String(speed)}>
+                {`${speed}x`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          onClick={onClose}
+          aria-label="Закрыть воспроизведение"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TelemetryReplayPanel;
@@ -1,4 +1,4 @@
-import { useRef, useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -20,6 +20,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import {
   ChevronDown,
   Save,
@@ -40,8 +41,23 @@ import {
   Home,
   CloudDownload,
   ImagePlus,
+  FileUp,
+  History,
+  Clock3,
+  Timer,
+  BellRing,
+  NotebookPen,
+  Anchor,
+  Waves,
+  AreaChart,
+  ClipboardList,
+  Package,
+  PackageOpen,
+  Undo2,
+  Redo2,
 } from 'lucide-react';
 import type { Tool } from "@/features/map/model/types";
+import { CRS_PRESETS, formatCrsLabel, parseCrsDefinition } from '@/features/geo/crsRegistry';
 import { cn } from '@/lib/utils';
 
 interface TopToolbarProps {
@@ -58,35 +74,57 @@ interface TopToolbarProps {
   onTrackAction: (action: 'pause' | 'resume') => void;
   onOpenCoordinateBuilder?: (type: 'route' | 'zone' | 'marker') => void;
   onMeasureClearAll?: () => void;
+  /** Label of the edit that undo/redo would revert or repeat; null disables the button. */
+  undoLabel?: string | null;
+  redoLabel?: string | null;
+  onUndo?: () => void;
+  onRedo?: () => void;
   onSimulationToggle?: () => void;
   onSimulationErrorToggle?: () => void;
   onOpenCreateFromDraft: () => void;
   onOpenCreateEmpty: () => void;
   onOpenOpen: () => void;
   onOpenExport: () => void;
+  onExportMissionPackage?: () => void;
+  onImportMissionPackage?: (file: File) => void;
+  onOpenImportData?: () => void;
+  onOpenTelemetryReplay?: () => void;
+  onOpenTrackPlayback?: () => void;
+  onOpenDepthProfile?: () => void;
+  onOpenPlanningSummary?: () => void;
+  onOpenDiveReport?: () => void;
+  onOpenAlarmRules?: () => void;
+  onToggleJournal?: () => void;
   onOpenSettings: () => void;
   onOpenOfflineMaps: () => void;
   onImportRasterFiles?: (
-    mode: 'geotiff' | 'tif+tfw',
+    mode: 'geotiff' | 'tif+tfw' | 'gcp',
     files: FileList | File[],
     options?: {
       tfwUnits?: 'degrees' | 'meters';
       metersProjection?: 'web-mercator' | 'utm';
       utmZone?: number;
       utmHemisphere?: 'north' | 'south';
+      crs?: string;
     },
   ) => void;
   onImportDxfFiles?: (
     files: FileList | File[],
-    options: {
-      utmZone: number;
-      utmHemisphere: 'north' | 'south';
-    },
+    options:
+      | {
+          utmZone: number;
+          utmHemisphere: 'north' | 'south';
+        }
+      | { crs: string },
   ) => void;
+  onImportEncFiles?: (files: FileList | File[]) => void;
+  onOpenBathymetry?: () => void;
   onFinishMission: () => void;
   onGoToStart: () => void;
 }
 
+type CrsImportTarget = 'geotiff' | 'tif+tfw' | 'cad';
+
 const TopToolbar = ({
   missionName,
   isDraft,
@@ -101,16 +139,32 @@ const TopToolbar = ({
   onTrackAction,
   onOpenCoordinateBuilder,
   onMeasureClearAll,
+  undoLabel = null,
+  redoLabel = null,
+  onUndo,
+  onRedo,
   onSimulationToggle,
   onSimulationErrorToggle,
   onOpenCreateFromDraft,
   onOpenCreateEmpty,
   onOpenOpen,
   onOpenExport,
+  onExportMissionPackage,
+  onImportMissionPackage,
+  onOpenImportData,
+  onOpenTelemetryReplay,
+  onOpenTrackPlayback,
+  onOpenDepthProfile,
+  onOpenPlanningSummary,
+  onOpenDiveReport,
+  onOpenAlarmRules,
+  onToggleJournal,
   onOpenSettings,
   onOpenOfflineMaps,
   onImportRasterFiles,
   onImportDxfFiles,
+  onImportEncFiles,
+  onOpenBathymetry,
   onFinishMission,
   onGoToStart,
 }: TopToolbarProps) => {
@@ -121,6 +175,14 @@ const TopToolbar = ({
   const dxfUtmInputRef = useRef<HTMLInputElement | null>(null);
   const pendingUtmConfigRef = useRef<{ zone: number; hemisphere: 'north' | 'south' } | null>(null);
   const pendingDxfUtmConfigRef = useRef<{ zone: number; hemisphere: 'north' | 'south' } | null>(null);
+  const rasterCrsInputRef = useRef<HTMLInputElement | null>(null);
+  const cadCrsInputRef = useRef<HTMLInputElement | null>(null);
+  const tifGcpInputRef = useRef<HTMLInputElement | null>(null);
+  const encInputRef = useRef<HTMLInputElement | null>(null);
+  const missionPackageInputRef = useRef<HTMLInputElement | null>(null);
+  const pendingCrsImportRef = useRef<{ target: CrsImportTarget; crs: string } | null>(null);
+  const [crsImportTarget, setCrsImportTarget] = useState<CrsImportTarget | null>(null);
+  const [crsText, setCrsText] = useState('EPSG:28407');
   const [utmDialogOpen, setUtmDialogOpen] = useState(false);
   const [dxfUtmDialogOpen, setDxfUtmDialogOpen] = useState(false);
   const [utmZoneText, setUtmZoneText] = useState('37');
@@ -130,6 +192,13 @@ const TopToolbar = ({
   const [dxfUtmHemisphere, setDxfUtmHemisphere] = useState<'north' | 'south'>('north');
   const [dxfUtmError, setDxfUtmError] = useState<string | null>(null);
   const [menuOpen, setMenuOpen] = useState(false);
+  const crsPreview = useMemo((): { label: string } | { error: string } => {
+    try {
+      return { label: formatCrsLabel(parseCrsDefinition(crsText)) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Некорректная система координат.' };
+    }
+  }, [crsText]);
   const UTM_ZONE_ERROR = 'Некорректная UTM зона: ожидается число от 1 до 60.';
 
   const parseUtmZone = (value: string): number | null => {
@@ -157,6 +226,7 @@ const TopToolbar = ({
     setDxfUtmError(null);
     return { zone, hemisphere: dxfUtmHemisphere };
   };
+
   const tools = [
     { id: 'select' as Tool, icon: MousePointer2, label: 'Выбор/Редактирование' },
     { id: 'route' as Tool, icon: Route, label: 'Маршрут' },
@@ -267,6 +337,83 @@ const TopToolbar = ({
             event.currentTarget.value = '';
           }}
         />
+        <input
+          ref={rasterCrsInputRef}
+          type="file"
+          className="hidden"
+          accept=".tif,.tiff"
+          multiple
+          onChange={(event) => {
+            const files = event.target.files;
+            const pending = pendingCrsImportRef.current;
+            if (files && files.length > 0 && pending && pending.target !== 'cad') {
+              onImportRasterFiles?.(pending.target, files, { crs: pending.crs });
+            }
+            pendingCrsImportRef.current = null;
+            setMenuOpen(false);
+            event.currentTarget.value = '';
+          }}
+        />
+        <input
+          ref={cadCrsInputRef}
+          type="file"
+          className="hidden"
+          accept=".dxf,.dwg"
+          multiple
+          onChange={(event) => {
+            const files = event.target.files;
+            const pending = pendingCrsImportRef.current;
+            if (files && files.length > 0 && pending?.target === 'cad') {
+              onImportDxfFiles?.(files, { crs: pending.crs });
+            }
+            pendingCrsImportRef.current = null;
+            setMenuOpen(false);
+            event.currentTarget.value = '';
+          }}
+        />
+        <input
+          ref={tifGcpInputRef}
+          type="file"
+          className="hidden"
+          accept=".tif,.tiff"
+          onChange={(event) => {
+            const files = event.target.files;
+            if (files && files.length > 0) {
+              onImportRasterFiles?.('gcp', files);
+            }
+            setMenuOpen(false);
+            event.currentTarget.value = '';
+          }}
+        />
+        <input
+          ref={encInputRef}
+          type="file"
+          className="hidden"
+          accept=".000"
+          multiple
+          onChange={(event) => {
+            const files = event.target.files;
+            if (files && files.length > 0) {
+              onImportEncFiles?.(files);
+            }
+            setMenuOpen(false);
+            event.currentTarget.value = '';
+          }}
+        />
+        <input
+          ref={missionPackageInputRef}
+          type="file"
+          className="hidden"
+          accept=".zip"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) {
+              onImportMissionPackage?.(file);
+            }
+            setMenuOpen(false);
+            event.currentTarget.value = '';
+          }}
+        />
         <DropdownMenuTrigger asChild>
           <Button variant="ghost" className="h-8 px-3 gap-2">
             <span className="font-medium">
@@ -317,16 +464,85 @@ const TopToolbar = ({
             <Download className="w-4 h-4 mr-2" />
             Экспорт
           </DropdownMenuItem>
+          {onExportMissionPackage ? (
+            <DropdownMenuItem onClick={onExportMissionPackage}>
+              <Package className="w-4 h-4 mr-2" />
+              Экспорт пакета миссии
+            </DropdownMenuItem>
+          ) : null}
+          {onImportMissionPackage ? (
+            <DropdownMenuItem
+              onSelect={(event) => {
+                event.preventDefault();
+                missionPackageInputRef.current?.click();
+              }}
+            >
+              <PackageOpen className="w-4 h-4 mr-2" />
+              Импорт пакета миссии
+            </DropdownMenuItem>
+          ) : null}
           <DropdownMenuItem onClick={onOpenOfflineMaps}>
             <CloudDownload className="w-4 h-4 mr-2" />
             Скачать карты
           </DropdownMenuItem>
+          {onOpenTelemetryReplay ? (
+            <DropdownMenuItem onClick={onOpenTelemetryReplay}>
+              <History className="w-4 h-4 mr-2" />
+              Воспроизведение телеметрии
+            </DropdownMenuItem>
+          ) : null}
+          {onOpenTrackPlayback ? (
+            <DropdownMenuItem onClick={onOpenTrackPlayback}>
+              <Clock3 className="w-4 h-4 mr-2" />
+              Разбор треков по времени
+            </DropdownMenuItem>
+          ) : null}
+          {onOpenDepthProfile ? (
+            <DropdownMenuItem onClick={onOpenDepthProfile}>
+              <AreaChart className="w-4 h-4 mr-2" />
+              Профиль глубины и скорости
+            </DropdownMenuItem>
+          ) : null}
+          {onOpenDiveReport ? (
+            <DropdownMenuItem onClick={onOpenDiveReport}>
+              <ClipboardList className="w-4 h-4 mr-2" />
+              Отчёт по погружениям
+            </DropdownMenuItem>
+          ) : null}
+          {onOpenPlanningSummary ? (
+            <DropdownMenuItem onClick={onOpenPlanningSummary}>
+              <Timer className="w-4 h-4 mr-2" />
+              Сводка планирования
+            </DropdownMenuItem>
+          ) : null}
+          {onOpenAlarmRules ? (
+            <DropdownMenuItem onClick={onOpenAlarmRules}>
+              <BellRing className="w-4 h-4 mr-2" />
+              Правила тревог
+            </DropdownMenuItem>
+          ) : null}
+          {onToggleJournal ? (
+            <DropdownMenuItem onClick={onToggleJournal}>
+              <NotebookPen className="w-4 h-4 mr-2" />
+              Журнал миссии
+            </DropdownMenuItem>
+          ) : null}
           <DropdownMenuSub>
             <DropdownMenuSubTrigger>
               <ImagePlus className="w-4 h-4 mr-2" />
               Импорт
             </DropdownMenuSubTrigger>
             <DropdownMenuSubContent className="w-64">
+              <DropdownMenuItem
+                onSelect={(event) => {
+                  event.preventDefault();
+                  onOpenImportData?.();
+                  setMenuOpen(false);
+                }}
+              >
+                <FileUp className="w-4 h-4 mr-2" />
+                Маршруты, маркеры, треки (GPX/KML/CSV)
+              </DropdownMenuItem>
               <DropdownMenuSub>
                 <DropdownMenuSubTrigger>
                   <ImagePlus className="w-4 h-4 mr-2" />
@@ -370,6 +586,33 @@ const TopToolbar = ({
                     <ImagePlus className="w-4 h-4 mr-2" />
                     TIF + TFW (UTM зона)
                   </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={(event) => {
+                      event.preventDefault();
+                      setCrsImportTarget('geotiff');
+                    }}
+                  >
+                    <ImagePlus className="w-4 h-4 mr-2" />
+                    GeoTIFF (система координат…)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={(event) => {
+                      event.preventDefault();
+                      setCrsImportTarget('tif+tfw');
+                    }}
+                  >
+                    <ImagePlus className="w-4 h-4 mr-2" />
+                    TIF + TFW (система координат…)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={(event) => {
+                      event.preventDefault();
+                      tifGcpInputRef.current?.click();
+                    }}
+                  >
+                    <ImagePlus className="w-4 h-4 mr-2" />
+                    TIF без привязки (по опорным точкам)
+                  </DropdownMenuItem>
                 </DropdownMenuSubContent>
               </DropdownMenuSub>
               <DropdownMenuSub>
@@ -388,8 +631,37 @@ const TopToolbar = ({
                     <ImagePlus className="w-4 h-4 mr-2" />
                     DWG/DXF + UTM
                   </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={(event) => {
+                      event.preventDefault();
+                      setCrsImportTarget('cad');
+                    }}
+                  >
+                    <ImagePlus className="w-4 h-4 mr-2" />
+                    DWG/DXF (система координат…)
+                  </DropdownMenuItem>
                 </DropdownMenuSubContent>
               </DropdownMenuSub>
+              <DropdownMenuItem
+                onSelect={(event) => {
+                  event.preventDefault();
+                  encInputRef.current?.click();
+                }}
+              >
+                <Anchor className="w-4 h-4 mr-2" />
+                Морская карта S-57 (.000)
+              </DropdownMenuItem>
+              {onOpenBathymetry ? (
+                <DropdownMenuItem
+                  onSelect={() => {
+                    setMenuOpen(false);
+                    onOpenBathymetry();
+                  }}
+                >
+                  <Waves className="w-4 h-4 mr-2" />
+                  Батиметрия (XYZ, ASCII-грид, треки)…
+                </DropdownMenuItem>
+              ) : null}
             </DropdownMenuSubContent>
           </DropdownMenuSub>
           <DropdownMenuSeparator />
@@ -522,6 +794,77 @@ const TopToolbar = ({
         </DialogContent>
       </Dialog>
 
+      <Dialog
+        open={crsImportTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) setCrsImportTarget(null);
+        }}
+      >
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {crsImportTarget === 'cad' ? 'Импорт DWG/DXF' : crsImportTarget === 'geotiff' ? 'Импорт GeoTIFF' : 'Импорт TIF + TFW'}
+            </DialogTitle>
+            <DialogDescription>
+              Выберите систему координат из справочника или вставьте код EPSG, строку proj4 или WKT.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-3">
+            <div className="grid gap-1.5">
+              <Label htmlFor="crs-preset">Справочник</Label>
+              <select
+                id="crs-preset"
+                className="h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+                value=""
+                onChange={(event) => {
+                  if (event.target.value) setCrsText(`EPSG:${event.target.value}`);
+                }}
+              >
+                <option value="">Выбрать…</option>
+                {CRS_PRESETS.map((preset) => (
+                  <option key={preset.code} value={preset.code}>
+                    {`EPSG:${preset.code} — ${preset.label}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="crs-definition">Система координат (EPSG, proj4 или WKT)</Label>
+              <Textarea
+                id="crs-definition"
+                className="font-mono text-xs"
+                rows={4}
+                value={crsText}
+                onChange={(event) => setCrsText(event.target.value)}
+              />
+            </div>
+            {'label' in crsPreview ? (
+              <p className="text-xs text-muted-foreground">{crsPreview.label}</p>
+            ) : (
+              <p className="text-xs text-destructive">{crsPreview.error}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              disabled={!('label' in crsPreview)}
+              onClick={() => {
+                if (!crsImportTarget || !('label' in crsPreview)) return;
+                pendingCrsImportRef.current = { target: crsImportTarget, crs: crsText.trim() };
+                setCrsImportTarget(null);
+                if (crsImportTarget === 'cad') {
+                  cadCrsInputRef.current?.click();
+                } else {
+                  rasterCrsInputRef.current?.click();
+                }
+              }}
+            >
+              {crsImportTarget === 'cad' ? 'Выбрать DWG/DXF' : 'Выбрать TIF'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Auto-save indicator */}
       <div className="flex items-center gap-1 px-2 text-xs text-muted-foreground">
         {autoSaveStatus === 'saved' && <Check className="w-3 h-3 text-success" />}
@@ -567,6 +910,36 @@ const TopToolbar = ({
         ))}
       </div>
 
+      {onUndo && onRedo ? (
+        <>
+          <div className="w-px h-6 bg-border mx-2" />
+
+          {/* Edit history */}
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 px-2"
+              onClick={onUndo}
+              disabled={!undoLabel}
+              title={undoLabel ? `Отменить: ${undoLabel} (Ctrl+Z)` : 'Нечего отменять'}
+            >
+              <Undo2 className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 px-2"
+              onClick={onRedo}
+              disabled={!redoLabel}
+              title={redoLabel ? `Повторить: ${redoLabel} (Ctrl+Shift+Z)` : 'Нечего повторять'}
+            >
+              <Redo2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </>
+      ) : null}
+
       <div className="w-px h-6 bg-border mx-2" />
 
       {/* Track Controls */}
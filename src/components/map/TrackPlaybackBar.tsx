@@ -0,0 +1,111 @@
+import { Pause, Play, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const PLAYBACK_SPEEDS = [1, 2, 5, 10, 30, 60];
+
+const formatPlaybackTime = (value: number): string =>
+  new Date(value).toLocaleString('ru-RU', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+interface TrackPlaybackBarProps {
+  startMs: number;
+  endMs: number;
+  timeMs: number;
+  playing: boolean;
+  speed: number;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (timeMs: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onClose: () => void;
+}
+
+const TrackPlaybackBar = ({
+  startMs,
+  endMs,
+  timeMs,
+  playing,
+  speed,
+  onPlay,
+  onPause,
+  onSeek,
+  onSpeedChange,
+  onClose,
+}: TrackPlaybackBarProps) => (
+  <div
+    className="absolute bottom-10 left-1/2 z-[1000] w-[min(720px,calc(100%-2rem))] -translate-x-1/2 rounded-md border border-border bg-card/95 px-3 py-2 shadow-lg"
+    data-testid="track-playback-bar"
+  >
+    <div className="flex items-center gap-3">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 shrink-0"
+        onClick={playing ? onPause : onPlay}
+        aria-label={playing ? 'Пауза' : 'Воспроизвести'}
+      >
+        {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </Button>
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span className="font-mono text-foreground">{formatPlaybackTime(timeMs)}</span>
+          <span className="ml-auto shrink-0 font-mono">
+            {`${formatElapsed(timeMs - startMs)} / ${formatElapsed(endMs - startMs)}`}
+          </span>
+        </div>
+        <Slider
+          value={[timeMs]}
+          min={startMs}
+          max={Math.max(startMs + 1, endMs)}
+          step={1000}
+          onValueChange={(value) => onSeek(value[0] ?? startMs)}
+          aria-label="Время разбора"
+        />
+      </div>
+      <Select value={String(speed)} onValueChange={(value) => onSpeedChange(Number(value))}>
+        <SelectTrigger className="h-8 w-20 shrink-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PLAYBACK_SPEEDS.map((item) => (
+            <SelectItem key={item} value={String(item)}>
+              {`${item}x`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 shrink-0"
+        onClick={onClose}
+        aria-label="Закрыть разбор треков"
+      >
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  </div>
+);
+
+export default TrackPlaybackBar;
@@ -0,0 +1,142 @@
+import { useEffect } from 'react';
+import L from 'leaflet';
+import { useMap } from 'react-leaflet';
+
+interface WarpedImageOverlayProps {
+  url: string;
+  opacity: number;
+  zIndex: number;
+  width: number;
+  height: number;
+  /** Maps an image pixel (top-left corner origin) to its map position. */
+  toLatLng: (x: number, y: number) => { lat: number; lon: number };
+  /** Mesh cells per image side; the image is drawn as textured triangles, so curved warps need more. */
+  meshSize?: number;
+}
+
+type MeshNode = { x: number; y: number; latLng: L.LatLng };
+
+// Triangles are grown by this many screen pixels so that anti-aliased clip edges do not leave seams.
+const TRIANGLE_BLEED_PX = 0.6;
+
+const drawTexturedTriangle = (
+  ctx: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  width: number,
+  height: number,
+  source: [MeshNode, MeshNode, MeshNode],
+  target: [L.Point, L.Point, L.Point],
+) => {
+  const [s0, s1, s2] = source;
+  const [t0, t1, t2] = target;
+  const det = (s1.x - s0.x) * (s2.y - s0.y) - (s2.x - s0.x) * (s1.y - s0.y);
+  if (Math.abs(det) < 1e-9) return;
+
+  // Affine transform taking the source triangle (image pixels) onto the target (canvas pixels).
+  const a = ((t1.x - t0.x) * (s2.y - s0.y) - (t2.x - t0.x) * (s1.y - s0.y)) / det;
+  const b = ((t1.y - t0.y) * (s2.y - s0.y) - (t2.y - t0.y) * (s1.y - s0.y)) / det;
+  const c = ((t2.x - t0.x) * (s1.x - s0.x) - (t1.x - t0.x) * (s2.x - s0.x)) / det;
+  const d = ((t2.y - t0.y) * (s1.x - s0.x) - (t1.y - t0.y) * (s2.x - s0.x)) / det;
+  const e = t0.x - a * s0.x - c * s0.y;
+  const f = t0.y - b * s0.x - d * s0.y;
+
+  const cx = (t0.x + t1.x + t2.x) / 3;
+  const cy = (t0.y + t1.y + t2.y) / 3;
+  ctx.save();
+  ctx.beginPath();
+  target.forEach((point, index) => {
+    const length = Math.hypot(point.x - cx, point.y - cy) || 1;
+    const x = point.x + ((point.x - cx) / length) * TRIANGLE_BLEED_PX;
+    const y = point.y + ((point.y - cy) / length) * TRIANGLE_BLEED_PX;
+    if (index === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  ctx.closePath();
+  ctx.clip();
+  ctx.setTransform(a, b, c, d, e, f);
+  ctx.drawImage(image, 0, 0, width, height);
+  ctx.restore();
+};
+
+/**
+ * Raster overlay that follows an arbitrary pixel → map transform (rotated affine or polynomial
+ * georeferencing), which Leaflet's ImageOverlay cannot express with its axis-aligned bounds.
+ */
+export const WarpedImageOverlay = ({
+  url,
+  opacity,
+  zIndex,
+  width,
+  height,
+  toLatLng,
+  meshSize = 8,
+}: WarpedImageOverlayProps) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const canvas = L.DomUtil.create('canvas', 'leaflet-image-layer leaflet-zoom-hide') as HTMLCanvasElement;
+    canvas.style.opacity = String(opacity);
+    canvas.style.zIndex = String(zIndex);
+    canvas.style.pointerEvents = 'none';
+    map.getPanes().overlayPane.appendChild(canvas);
+
+    const nodes: MeshNode[][] = [];
+    for (let row = 0; row <= meshSize; row += 1) {
+      const line: MeshNode[] = [];
+      for (let col = 0; col <= meshSize; col += 1) {
+        const x = (col / meshSize) * width;
+        const y = (row / meshSize) * height;
+        const point = toLatLng(x, y);
+        line.push({ x, y, latLng: L.latLng(point.lat, point.lon) });
+      }
+      nodes.push(line);
+    }
+
+    const image = new Image();
+    let loaded = false;
+
+    const redraw = () => {
+      if (!loaded) return;
+      const size = map.getSize();
+      const topLeft = map.containerPointToLayerPoint([0, 0]);
+      L.DomUtil.setPosition(canvas, topLeft);
+      canvas.width = size.x;
+      canvas.height = size.y;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.clearRect(0, 0, size.x, size.y);
+      const projected = nodes.map((line) => line.map((node) => map.latLngToContainerPoint(node.latLng)));
+      for (let row = 0; row < meshSize; row += 1) {
+        for (let col = 0; col < meshSize; col += 1) {
+          const n00 = nodes[row][col];
+          const n01 = nodes[row][col + 1];
+          const n10 = nodes[row + 1][col];
+          const n11 = nodes[row + 1][col + 1];
+          const p00 = projected[row][col];
+          const p01 = projected[row][col + 1];
+          const p10 = projected[row + 1][col];
+          const p11 = projected[row + 1][col + 1];
+          drawTexturedTriangle(ctx, image, width, height, [n00, n01, n10], [p00, p01, p10]);
+          drawTexturedTriangle(ctx, image, width, height, [n01, n11, n10], [p01, p11, p10]);
+        }
+      }
+    };
+
+    image.onload = () => {
+      loaded = true;
+      redraw();
+    };
+    image.src = url;
+
+    map.on('moveend zoomend resize viewreset', redraw);
+    return () => {
+      map.off('moveend zoomend resize viewreset', redraw);
+      image.onload = null;
+      canvas.remove();
+    };
+  }, [height, map, meshSize, opacity, toLatLng, url, width, zIndex]);
+
+  return null;
+};
+
+export default WarpedImageOverlay;
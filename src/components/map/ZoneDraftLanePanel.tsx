@@ -1,6 +1,7 @@
 import { GripHorizontal, Minimize2, SlidersHorizontal } from 'lucide-react';
 import { useCallback, useEffect, useRef } from 'react';
 import type { MouseEvent as ReactMouseEvent } from 'react';
+import { getSurveyPatternLabel, surveyPatternIds, surveyPatternParams, type SurveyPatternId } from '@/features/mission';
 import {
   FALLBACK_ICON_SIZE,
   FALLBACK_PANEL_SIZE,
@@ -10,7 +11,7 @@ import {
   type FloatingSize,
 } from './zoneDraftLanePanelUtils';
 
-type LanePickMode = 'none' | 'edge' | 'start';
+type LanePickMode = 'none' | 'edge' | 'start' | 'datum';
 type DragTarget = 'panel' | 'icon';
 
 type DragState = {
@@ -32,6 +33,10 @@ type ZoneDraftLanePanelProps = {
   laneWidth: string;
   laneBearingDeg: number | null;
   laneStart: { lat: number; lon: number } | null;
+  pattern: SurveyPatternId;
+  patternLegCount: string;
+  patternLegLength: string;
+  patternDatum: { lat: number; lon: number } | null;
   drawingPointsCount: number;
   previewLanesCount: number;
   lanePickMode: LanePickMode;
@@ -41,6 +46,9 @@ type ZoneDraftLanePanelProps = {
   onMinimizedChange: (next: boolean) => void;
   onLaneAngleChange: (value: string) => void;
   onLaneWidthChange: (value: string) => void;
+  onPatternChange: (value: SurveyPatternId) => void;
+  onPatternLegCountChange: (value: string) => void;
+  onPatternLegLengthChange: (value: string) => void;
   onLanePickModeChange: (next: LanePickMode) => void;
   onCancelDraft: () => void;
   onCompleteDraft: () => void;
@@ -60,6 +68,10 @@ export const ZoneDraftLanePanel = ({
   laneWidth,
   laneBearingDeg,
   laneStart,
+  pattern,
+  patternLegCount,
+  patternLegLength,
+  patternDatum,
   drawingPointsCount,
   previewLanesCount,
   lanePickMode,
@@ -69,6 +81,9 @@ export const ZoneDraftLanePanel = ({
   onMinimizedChange,
   onLaneAngleChange,
   onLaneWidthChange,
+  onPatternChange,
+  onPatternLegCountChange,
+  onPatternLegLengthChange,
   onLanePickModeChange,
   onCancelDraft,
   onCompleteDraft,
@@ -173,6 +188,9 @@ export const ZoneDraftLanePanel = ({
 
   if (!open) return null;
 
+  const patternParams = surveyPatternParams[pattern];
+  const isParallel = pattern === 'parallel';
+
   if (minimized) {
     return (
       <button
@@ -227,9 +245,25 @@ export const ZoneDraftLanePanel = ({
       </div>
 
       <div className="space-y-3">
+        <div className="space-y-1">
+          <div className="text-xs text-muted-foreground">Шаблон</div>
+          <select
+            data-testid="zone-lane-panel-pattern"
+            className="w-full h-9 rounded-md border border-input bg-background px-2 text-sm"
+            value={pattern}
+            onChange={(event) => onPatternChange(event.target.value as SurveyPatternId)}
+          >
+            {surveyPatternIds.map((id) => (
+              <option key={id} value={id}>
+                {getSurveyPatternLabel(id)}
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div className="grid grid-cols-2 gap-2">
           <div className="space-y-1">
-            <div className="text-xs text-muted-foreground">Угол (°)</div>
+            <div className="text-xs text-muted-foreground">{isParallel ? 'Угол (°)' : 'Курс (°)'}</div>
             <input
               className="w-full h-9 rounded-md border border-input bg-background px-2 text-sm"
               type="number"
@@ -241,7 +275,7 @@ export const ZoneDraftLanePanel = ({
             />
           </div>
           <div className="space-y-1">
-            <div className="text-xs text-muted-foreground">Ширина (м)</div>
+            <div className="text-xs text-muted-foreground">{isParallel ? 'Ширина (м)' : 'Шаг (м)'}</div>
             <input
               className="w-full h-9 rounded-md border border-input bg-background px-2 text-sm"
               type="number"
@@ -253,39 +287,98 @@ export const ZoneDraftLanePanel = ({
           </div>
         </div>
 
-        <div className="space-y-1">
-          <div className="text-xs text-muted-foreground">Ориентация</div>
-          <div className="flex items-center justify-between gap-2">
-            <div className="font-mono text-xs">
-              {typeof laneBearingDeg === 'number' ? `по грани (${Math.round(laneBearingDeg)}°)` : 'авто'}
-            </div>
-            <button
-              type="button"
-              className="h-8 px-2 rounded-md border border-input text-xs hover:bg-accent"
-              onClick={() => onLanePickModeChange('edge')}
-              disabled={drawingPointsCount < 2}
-            >
-              Выбрать грань
-            </button>
+        {(patternParams.legCount || patternParams.legLength) && (
+          <div className="grid grid-cols-2 gap-2">
+            {patternParams.legCount && (
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground">
+                  {pattern === 'spiral_out' || pattern === 'spiral_in' ? 'Витков' : 'Галсов'}
+                </div>
+                <input
+                  className="w-full h-9 rounded-md border border-input bg-background px-2 text-sm"
+                  type="number"
+                  min={1}
+                  max={200}
+                  step={1}
+                  value={patternLegCount}
+                  onChange={(event) => onPatternLegCountChange(event.target.value)}
+                />
+              </div>
+            )}
+            {patternParams.legLength && (
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground">
+                  {pattern === 'sector' ? 'Радиус (м)' : 'Длина галса (м)'}
+                </div>
+                <input
+                  className="w-full h-9 rounded-md border border-input bg-background px-2 text-sm"
+                  type="number"
+                  min={1}
+                  max={100000}
+                  value={patternLegLength}
+                  onChange={(event) => onPatternLegLengthChange(event.target.value)}
+                />
+              </div>
+            )}
           </div>
-        </div>
+        )}
 
-        <div className="space-y-1">
-          <div className="text-xs text-muted-foreground">Старт</div>
-          <div className="flex items-center justify-between gap-2">
-            <div className="font-mono text-xs">
-              {laneStart ? `${laneStart.lat.toFixed(6)}, ${laneStart.lon.toFixed(6)}` : 'не выбран'}
+        {patternParams.datum && (
+          <div className="space-y-1">
+            <div className="text-xs text-muted-foreground">Датум</div>
+            <div className="flex items-center justify-between gap-2">
+              <div className="font-mono text-xs">
+                {patternDatum ? `${patternDatum.lat.toFixed(6)}, ${patternDatum.lon.toFixed(6)}` : 'центр зоны'}
+              </div>
+              <button
+                type="button"
+                className="h-8 px-2 rounded-md border border-input text-xs hover:bg-accent"
+                onClick={() => onLanePickModeChange('datum')}
+                disabled={drawingPointsCount < 3}
+              >
+                Выбрать датум
+              </button>
             </div>
-            <button
-              type="button"
-              className="h-8 px-2 rounded-md border border-input text-xs hover:bg-accent"
-              onClick={() => onLanePickModeChange('start')}
-              disabled={drawingPointsCount < 3}
-            >
-              Выбрать старт
-            </button>
           </div>
-        </div>
+        )}
+
+        {isParallel && (
+          <>
+            <div className="space-y-1">
+              <div className="text-xs text-muted-foreground">Ориентация</div>
+              <div className="flex items-center justify-between gap-2">
+                <div className="font-mono text-xs">
+                  {typeof laneBearingDeg === 'number' ? `по грани (${Math.round(laneBearingDeg)}°)` : 'авто'}
+                </div>
+                <button
+                  type="button"
+                  className="h-8 px-2 rounded-md border border-input text-xs hover:bg-accent"
+                  onClick={() => onLanePickModeChange('edge')}
+                  disabled={drawingPointsCount < 2}
+                >
+                  Выбрать грань
+                </button>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <div className="text-xs text-muted-foreground">Старт</div>
+              <div className="flex items-center justify-between gap-2">
+                <div className="font-mono text-xs">
+                  {laneStart ? `${laneStart.lat.toFixed(6)}, ${laneStart.lon.toFixed(6)}` : 'не выбран'}
+                </div>
+                <button
+                  type="button"
+                  className="h-8 px-2 rounded-md border border-input text-xs hover:bg-accent"
+                  onClick={() => onLanePickModeChange('start')}
+                  disabled={drawingPointsCount < 3}
+                >
+                  Выбрать старт
+                </button>
+              </div>
+            </div>
+          </>
+        )}
 
         <div className="text-xs text-muted-foreground">
           {drawingPointsCount < 3
@@ -297,6 +390,7 @@ export const ZoneDraftLanePanel = ({
           <div className="text-xs text-muted-foreground">
             {lanePickMode === 'edge' && 'Кликните по ребру зоны на карте.'}
             {lanePickMode === 'start' && 'Кликните около вершины. Старт снапается к ближайшей вершине.'}
+            {lanePickMode === 'datum' && 'Кликните точку датума на карте.'}
             <button
               type="button"
               className="ml-2 text-primary hover:underline"
@@ -1,4 +1,5 @@
 import L from 'leaflet';
+import { distanceMeters } from '@/features/geo/distance';
 
 export type MapScale = {
   widthPx: number;
@@ -12,8 +13,6 @@ type ScaleOptions = {
   maxWidthPx?: number;
 };
 
-const EARTH_RADIUS_M = 6378137;
-const DEG_TO_RAD = Math.PI / 180;
 // Include 3 to reduce duplicate labels across adjacent zoom levels.
 const NICE_FACTORS = [1, 2, 3, 5];
 
@@ -36,14 +35,7 @@ export const haversineDistanceMeters = (
   lon1: number,
   lat2: number,
   lon2: number,
-): number => {
-  const dLat = (lat2 - lat1) * DEG_TO_RAD;
-  const dLon = (lon2 - lon1) * DEG_TO_RAD;
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(lat1 * DEG_TO_RAD) * Math.cos(lat2 * DEG_TO_RAD) * Math.sin(dLon / 2) ** 2;
-  return 2 * EARTH_RADIUS_M * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-};
+): number => distanceMeters({ lat: lat1, lon: lon1 }, { lat: lat2, lon: lon2 });
 
 const formatDistanceLabel = (meters: number): string => {
   if (meters >= 1000) {
@@ -28,7 +28,12 @@ export {
   type DeviceInstance,
   type DeviceSchema,
   type DeviceValidationIssue,
+  type EquipmentGnssComRuntime,
+  type EquipmentGnssUdpRuntime,
   type EquipmentProfile,
+  type EquipmentRuntimeInstance,
   type EquipmentRuntimeV3,
+  type EquipmentRwltComRuntime,
   type EquipmentSettingsV3,
+  type EquipmentZimaRuntime,
 } from './model/types';
@@ -8,9 +8,14 @@ import type {
   DeviceInstance,
   DeviceSchema,
   DeviceValidationIssue,
+  EquipmentGnssComRuntime,
+  EquipmentGnssUdpRuntime,
   EquipmentProfile,
+  EquipmentRuntimeInstance,
   EquipmentRuntimeV3,
+  EquipmentRwltComRuntime,
   EquipmentSettingsV3,
+  EquipmentZimaRuntime,
 } from './types';
 import {
   DEVICE_CHANGED_EVENT,
@@ -736,6 +741,105 @@ const pickPrimaryInstanceForSchema = (
   return candidates.find((instance) => instance.is_primary) ?? candidates[0];
 };
 
+const buildZimaRuntime = (instance: DeviceInstance, schema: DeviceSchema): EquipmentZimaRuntime => {
+  const zimaConfig = instance.config ?? {};
+  const defaultIp = String(readSchemaFieldDefault(schema, 'ipAddress', '127.0.0.1'));
+  const defaultCommandPort = parseIntWithFallback(readSchemaFieldDefault(schema, 'commandPort', 28128), 28128);
+  const defaultDataPort = parseIntWithFallback(readSchemaFieldDefault(schema, 'dataPort', 28127), 28127);
+  const defaultGnssBaud = parseIntWithFallback(readSchemaFieldDefault(schema, 'gnssBaud', 115200), 115200);
+  const defaultUseExternalGnss = readSchemaBooleanDefault(schema, 'useExternalGnss', false);
+  const defaultUseCommandPort = readSchemaBooleanDefault(schema, 'useCommandPort', false);
+
+  return {
+    interface: 'udp',
+    ipAddress: String(zimaConfig.ipAddress ?? defaultIp).trim() || defaultIp,
+    commandPort: parseIntWithFallback(zimaConfig.commandPort, defaultCommandPort),
+    dataPort: parseIntWithFallback(zimaConfig.dataPort, defaultDataPort),
+    gnssBaud: parseIntWithFallback(zimaConfig.gnssBaud, defaultGnssBaud),
+    useExternalGnss: parseBooleanWithFallback(zimaConfig.useExternalGnss, defaultUseExternalGnss),
+    useCommandPort: parseBooleanWithFallback(zimaConfig.useCommandPort, defaultUseCommandPort),
+    latitude: parseNullableNumber(zimaConfig.latitude),
+    longitude: parseNullableNumber(zimaConfig.longitude),
+    azimuth: parseNullableNumber(zimaConfig.azimuth),
+    instance_id: instance.id,
+    instance_name: instance.name ?? null,
+  };
+};
+
+const buildGnssUdpRuntime = (instance: DeviceInstance, schema: DeviceSchema): EquipmentGnssUdpRuntime => {
+  const gnssConfig = instance.config ?? {};
+  const defaultIp = String(readSchemaFieldDefault(schema, 'ipAddress', '127.0.0.1'));
+  const defaultDataPort = parseIntWithFallback(readSchemaFieldDefault(schema, 'dataPort', 28128), 28128);
+
+  return {
+    interface: 'udp',
+    protocol: 'nmea0183',
+    ipAddress: String(gnssConfig.ipAddress ?? defaultIp).trim() || defaultIp,
+    dataPort: parseIntWithFallback(gnssConfig.dataPort, defaultDataPort),
+    instance_id: instance.id,
+    instance_name: instance.name ?? null,
+  };
+};
+
+const buildGnssComRuntime = (instance: DeviceInstance, schema: DeviceSchema): EquipmentGnssComRuntime => {
+  const gnssComConfig = instance.config ?? {};
+  const defaultAutoDetectPort = readSchemaBooleanDefault(schema, 'autoDetectPort', true);
+  const defaultComPort = String(readSchemaFieldDefault(schema, 'comPort', '')).trim();
+  const defaultBaudRate = parseIntWithFallback(readSchemaFieldDefault(schema, 'baudRate', 115200), 115200);
+  const autoDetectPort = parseBooleanWithFallback(gnssComConfig.autoDetectPort, defaultAutoDetectPort);
+  const comPort = String(gnssComConfig.comPort ?? defaultComPort).trim();
+
+  return {
+    interface: 'serial',
+    protocol: 'nmea0183',
+    autoDetectPort,
+    comPort: autoDetectPort ? '' : comPort,
+    baudRate: parseIntWithFallback(gnssComConfig.baudRate, defaultBaudRate),
+    instance_id: instance.id,
+    instance_name: instance.name ?? null,
+  };
+};
+
+const buildRwltComRuntime = (instance: DeviceInstance, schema: DeviceSchema): EquipmentRwltComRuntime => {
+  const rwltComConfig = instance.config ?? {};
+  const defaultAutoDetectPort = readSchemaBooleanDefault(schema, 'autoDetectPort', true);
+  const defaultComPort = String(readSchemaFieldDefault(schema, 'comPort', '')).trim();
+  const defaultBaudRate = parseIntWithFallback(readSchemaFieldDefault(schema, 'baudRate', 38400), 38400);
+  const rawMode = String(readSchemaFieldDefault(schema, 'mode', 'pinger')).trim().toLowerCase();
+  const defaultMode = rawMode === 'divers' ? 'divers' : 'pinger';
+  const modeValue = String(rwltComConfig.mode ?? defaultMode).trim().toLowerCase();
+  const autoDetectPort = parseBooleanWithFallback(rwltComConfig.autoDetectPort, defaultAutoDetectPort);
+  const comPort = String(rwltComConfig.comPort ?? defaultComPort).trim();
+
+  return {
+    interface: 'serial',
+    protocol: 'unav',
+    autoDetectPort,
+    comPort: autoDetectPort ? '' : comPort,
+    baudRate: parseIntWithFallback(rwltComConfig.baudRate, defaultBaudRate),
+    mode: modeValue === 'divers' ? 'divers' : 'pinger',
+    instance_id: instance.id,
+    instance_name: instance.name ?? null,
+  };
+};
+
+const buildRuntimeInstance = (instance: DeviceInstance, schemas: DeviceSchema[]): EquipmentRuntimeInstance | null => {
+  const schema = schemas.find((item) => item.id === instance.schema_id);
+  if (!schema) return null;
+  switch (instance.schema_id) {
+    case 'zima2r':
+      return { schema_id: 'zima2r', ...buildZimaRuntime(instance, schema) };
+    case 'gnss-udp':
+      return { schema_id: 'gnss-udp', ...buildGnssUdpRuntime(instance, schema) };
+    case 'gnss-com':
+      return { schema_id: 'gnss-com', ...buildGnssComRuntime(instance, schema) };
+    case 'rwlt-com':
+      return { schema_id: 'rwlt-com', ...buildRwltComRuntime(instance, schema) };
+    default:
+      return null;
+  }
+};
+
 export const buildEquipmentRuntime = (
   settings: EquipmentSettingsV3,
   schemas = loadDeviceSchemas(),
@@ -762,107 +866,34 @@ export const buildEquipmentRuntime = (
           device_instance_ids: [...activeProfile.device_instance_ids],
         }
       : null,
+    instances: {},
   };
 
   if (!activeProfile) return runtime;
 
-  const zimaInstance = pickPrimaryInstanceForSchema(activeProfile, settings, 'zima2r');
-  if (zimaInstance) {
-    const zimaSchema = schemas.find((schema) => schema.id === 'zima2r');
-    if (zimaSchema) {
-      const zimaConfig = zimaInstance.config ?? {};
-      const defaultIp = String(readSchemaFieldDefault(zimaSchema, 'ipAddress', '127.0.0.1'));
-      const defaultCommandPort = parseIntWithFallback(readSchemaFieldDefault(zimaSchema, 'commandPort', 28128), 28128);
-      const defaultDataPort = parseIntWithFallback(readSchemaFieldDefault(zimaSchema, 'dataPort', 28127), 28127);
-      const defaultGnssBaud = parseIntWithFallback(readSchemaFieldDefault(zimaSchema, 'gnssBaud', 115200), 115200);
-      const defaultUseExternalGnss = readSchemaBooleanDefault(zimaSchema, 'useExternalGnss', false);
-      const defaultUseCommandPort = readSchemaBooleanDefault(zimaSchema, 'useCommandPort', false);
-
-      runtime.zima = {
-        interface: 'udp',
-        ipAddress: String(zimaConfig.ipAddress ?? defaultIp).trim() || defaultIp,
-        commandPort: parseIntWithFallback(zimaConfig.commandPort, defaultCommandPort),
-        dataPort: parseIntWithFallback(zimaConfig.dataPort, defaultDataPort),
-        gnssBaud: parseIntWithFallback(zimaConfig.gnssBaud, defaultGnssBaud),
-        useExternalGnss: parseBooleanWithFallback(zimaConfig.useExternalGnss, defaultUseExternalGnss),
-        useCommandPort: parseBooleanWithFallback(zimaConfig.useCommandPort, defaultUseCommandPort),
-        latitude: parseNullableNumber(zimaConfig.latitude),
-        longitude: parseNullableNumber(zimaConfig.longitude),
-        azimuth: parseNullableNumber(zimaConfig.azimuth),
-        instance_id: zimaInstance.id,
-        instance_name: zimaInstance.name ?? null,
-      };
+  for (const instanceId of activeProfile.device_instance_ids) {
+    const instance = settings.device_instances[instanceId];
+    if (!instance) continue;
+    const runtimeInstance = buildRuntimeInstance(instance, schemas);
+    if (runtimeInstance) {
+      runtime.instances[instance.id] = runtimeInstance;
     }
   }
 
-  const gnssInstance = pickPrimaryInstanceForSchema(activeProfile, settings, 'gnss-udp');
-  if (gnssInstance) {
-    const gnssSchema = schemas.find((schema) => schema.id === 'gnss-udp');
-    if (gnssSchema) {
-      const gnssConfig = gnssInstance.config ?? {};
-      const defaultIp = String(readSchemaFieldDefault(gnssSchema, 'ipAddress', '127.0.0.1'));
-      const defaultDataPort = parseIntWithFallback(readSchemaFieldDefault(gnssSchema, 'dataPort', 28128), 28128);
-
-      runtime.gnss_udp = {
-        interface: 'udp',
-        protocol: 'nmea0183',
-        ipAddress: String(gnssConfig.ipAddress ?? defaultIp).trim() || defaultIp,
-        dataPort: parseIntWithFallback(gnssConfig.dataPort, defaultDataPort),
-        instance_id: gnssInstance.id,
-        instance_name: gnssInstance.name ?? null,
-      };
-    }
-  }
-
-  const gnssComInstance = pickPrimaryInstanceForSchema(activeProfile, settings, 'gnss-com');
-  if (gnssComInstance) {
-    const gnssComSchema = schemas.find((schema) => schema.id === 'gnss-com');
-    if (gnssComSchema) {
-      const gnssComConfig = gnssComInstance.config ?? {};
-      const defaultAutoDetectPort = readSchemaBooleanDefault(gnssComSchema, 'autoDetectPort', true);
-      const defaultComPort = String(readSchemaFieldDefault(gnssComSchema, 'comPort', '')).trim();
-      const defaultBaudRate = parseIntWithFallback(readSchemaFieldDefault(gnssComSchema, 'baudRate', 115200), 115200);
-      const autoDetectPort = parseBooleanWithFallback(gnssComConfig.autoDetectPort, defaultAutoDetectPort);
-      const comPort = String(gnssComConfig.comPort ?? defaultComPort).trim();
-
-      runtime.gnss_com = {
-        interface: 'serial',
-        protocol: 'nmea0183',
-        autoDetectPort,
-        comPort: autoDetectPort ? '' : comPort,
-        baudRate: parseIntWithFallback(gnssComConfig.baudRate, defaultBaudRate),
-        instance_id: gnssComInstance.id,
-        instance_name: gnssComInstance.name ?? null,
-      };
-    }
-  }
+  const buildPrimaryRuntime = <T,>(schemaId: string, build: (instance: DeviceInstance, schema: DeviceSchema) => T) => {
+    const instance = pickPrimaryInstanceForSchema(activeProfile, settings, schemaId);
+    const schema = schemas.find((item) => item.id === schemaId);
+    return instance && schema ? build(instance, schema) : undefined;
+  };
 
-  const rwltComInstance = pickPrimaryInstanceForSchema(activeProfile, settings, 'rwlt-com');
-  if (rwltComInstance) {
-    const rwltComSchema = schemas.find((schema) => schema.id === 'rwlt-com');
-    if (rwltComSchema) {
-      const rwltComConfig = rwltComInstance.config ?? {};
-      const defaultAutoDetectPort = readSchemaBooleanDefault(rwltComSchema, 'autoDetectPort', true);
-      const defaultComPort = String(readSchemaFieldDefault(rwltComSchema, 'comPort', '')).trim();
-      const defaultBaudRate = parseIntWithFallback(readSchemaFieldDefault(rwltComSchema, 'baudRate', 38400), 38400);
-      const rawMode = String(readSchemaFieldDefault(rwltComSchema, 'mode', 'pinger')).trim().toLowerCase();
-      const defaultMode = rawMode === 'divers' ? 'divers' : 'pinger';
-      const modeValue = String(rwltComConfig.mode ?? defaultMode).trim().toLowerCase();
-      const autoDetectPort = parseBooleanWithFallback(rwltComConfig.autoDetectPort, defaultAutoDetectPort);
-      const comPort = String(rwltComConfig.comPort ?? defaultComPort).trim();
-
-      runtime.rwlt_com = {
-        interface: 'serial',
-        protocol: 'unav',
-        autoDetectPort,
-        comPort: autoDetectPort ? '' : comPort,
-        baudRate: parseIntWithFallback(rwltComConfig.baudRate, defaultBaudRate),
-        mode: modeValue === 'divers' ? 'divers' : 'pinger',
-        instance_id: rwltComInstance.id,
-        instance_name: rwltComInstance.name ?? null,
-      };
-    }
-  }
+  const zima = buildPrimaryRuntime('zima2r', buildZimaRuntime);
+  if (zima) runtime.zima = zima;
+  const gnssUdp = buildPrimaryRuntime('gnss-udp', buildGnssUdpRuntime);
+  if (gnssUdp) runtime.gnss_udp = gnssUdp;
+  const gnssCom = buildPrimaryRuntime('gnss-com', buildGnssComRuntime);
+  if (gnssCom) runtime.gnss_com = gnssCom;
+  const rwltCom = buildPrimaryRuntime('rwlt-com', buildRwltComRuntime);
+  if (rwltCom) runtime.rwlt_com = rwltCom;
 
   return runtime;
 };
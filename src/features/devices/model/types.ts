@@ -60,6 +60,58 @@ export type EquipmentSettingsV3 = {
   device_instances: Record<string, DeviceInstance>;
 };
 
+export type EquipmentZimaRuntime = {
+  interface: 'udp';
+  ipAddress: string;
+  commandPort: number;
+  dataPort: number;
+  gnssBaud: number;
+  useExternalGnss: boolean;
+  useCommandPort: boolean;
+  latitude: number | null;
+  longitude: number | null;
+  azimuth: number | null;
+  instance_id: string;
+  instance_name: string | null;
+};
+
+export type EquipmentGnssUdpRuntime = {
+  interface: 'udp';
+  protocol: 'nmea0183';
+  ipAddress: string;
+  dataPort: number;
+  instance_id: string;
+  instance_name: string | null;
+};
+
+export type EquipmentGnssComRuntime = {
+  interface: 'serial';
+  protocol: 'nmea0183';
+  autoDetectPort: boolean;
+  comPort: string;
+  baudRate: number;
+  instance_id: string;
+  instance_name: string | null;
+};
+
+export type EquipmentRwltComRuntime = {
+  interface: 'serial';
+  protocol: 'unav';
+  autoDetectPort: boolean;
+  comPort: string;
+  baudRate: number;
+  mode: 'pinger' | 'divers';
+  instance_id: string;
+  instance_name: string | null;
+};
+
+/** Runtime config of one device instance of the active profile; every instance runs its own bridge. */
+export type EquipmentRuntimeInstance =
+  | ({ schema_id: 'zima2r' } & EquipmentZimaRuntime)
+  | ({ schema_id: 'gnss-udp' } & EquipmentGnssUdpRuntime)
+  | ({ schema_id: 'gnss-com' } & EquipmentGnssComRuntime)
+  | ({ schema_id: 'rwlt-com' } & EquipmentRwltComRuntime);
+
 export type EquipmentRuntimeV3 = {
   schema_version: 3;
   active_profile: {
@@ -68,47 +120,13 @@ export type EquipmentRuntimeV3 = {
     device_ids: string[];
     device_instance_ids: string[];
   } | null;
-  zima?: {
-    interface: 'udp';
-    ipAddress: string;
-    commandPort: number;
-    dataPort: number;
-    gnssBaud: number;
-    useExternalGnss: boolean;
-    useCommandPort: boolean;
-    latitude: number | null;
-    longitude: number | null;
-    azimuth: number | null;
-    instance_id: string;
-    instance_name: string | null;
-  };
-  gnss_udp?: {
-    interface: 'udp';
-    protocol: 'nmea0183';
-    ipAddress: string;
-    dataPort: number;
-    instance_id: string;
-    instance_name: string | null;
-  };
-  gnss_com?: {
-    interface: 'serial';
-    protocol: 'nmea0183';
-    autoDetectPort: boolean;
-    comPort: string;
-    baudRate: number;
-    instance_id: string;
-    instance_name: string | null;
-  };
-  rwlt_com?: {
-    interface: 'serial';
-    protocol: 'unav';
-    autoDetectPort: boolean;
-    comPort: string;
-    baudRate: number;
-    mode: 'pinger' | 'divers';
-    instance_id: string;
-    instance_name: string | null;
-  };
+  /** All runnable instances of the active profile, keyed by `DeviceInstance.id`. */
+  instances: Record<string, EquipmentRuntimeInstance>;
+  /** Primary instance of each device type, kept for consumers that handle a single device per type. */
+  zima?: EquipmentZimaRuntime;
+  gnss_udp?: EquipmentGnssUdpRuntime;
+  gnss_com?: EquipmentGnssComRuntime;
+  rwlt_com?: EquipmentRwltComRuntime;
 };
 
 export type DeviceChangedPayload = {
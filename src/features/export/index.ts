@@ -12,9 +12,22 @@ export {
   tracksToGpx,
   tracksToKml,
 } from './model/exporters';
+export { downloadBlob } from './model/download';
+export { buildMissionReportHtml, summarizeReportPlanning, summarizeReportTracks } from './model/missionReport';
+export { renderMissionSnapshotSvg } from './model/reportSnapshot';
+
+export type {
+  MissionReportEquipment,
+  MissionReportImage,
+  MissionReportInput,
+  MissionReportPlanRow,
+  MissionReportTrackRow,
+} from './model/missionReport';
+export type { MissionSnapshotStyle } from './model/reportSnapshot';
 
 export type {
   ExportCsvCoordinateOptions,
+  ExportDivesFormat,
   ExportMarkersFormat,
   ExportObjectsMode,
   ExportRequest,
@@ -64,7 +64,7 @@ const ensureClosedRing = (points: Array<{ lat: number; lon: number }>): Array<{
 
 const fmtCsvField = (value: string): string => JSON.stringify(value);
 
-const toCsvPoint = (
+export const toCsvPoint = (
   point: { lat: number; lon: number },
   precision: number,
   coordinateOptions?: ExportCsvCoordinateOptions,
@@ -0,0 +1,305 @@
+import { getCoordinateInputFormatLabel } from '@/features/geo/coordinateInputFormat';
+import { getCrsLabel } from '@/features/geo/crs';
+import { distanceMeters, EARTH_RADIUS_M } from '@/features/geo/distance';
+import { formatDurationHms, type DiverUiConfig, type MissionBundle, type TrackPoint } from '@/features/mission';
+import { escapeXml, groupTrackPointsBySegment, toCsvPoint } from './exporters';
+import type { ExportCsvCoordinateOptions } from './types';
+
+export type MissionReportEquipment = {
+  profileName: string;
+  devices: Array<{ name: string; type: string }>;
+};
+
+export type MissionReportImage = {
+  title: string;
+  /** Image URL, normally a data URL so that the report stays self-contained. */
+  src: string;
+};
+
+export type MissionReportInput = {
+  bundle: MissionBundle;
+  divers: DiverUiConfig[];
+  equipment: MissionReportEquipment | null;
+  coordinates: ExportCsvCoordinateOptions & { precision: number };
+  /** Inline SVG overview of the mission, drawn by `renderMissionSnapshotSvg`. */
+  overviewSvg: string | null;
+  images: MissionReportImage[];
+  generatedAt: Date;
+};
+
+export type MissionReportTrackRow = {
+  id: string;
+  name: string;
+  startedAt: string;
+  endedAt: string | null;
+  durationS: number | null;
+  distanceM: number;
+  maxDepthM: number | null;
+  pointCount: number;
+};
+
+export type MissionReportPlanRow = {
+  id: string;
+  name: string;
+  kind: 'route' | 'survey_area';
+  lengthM: number | null;
+  areaM2: number | null;
+  waypointCount: number;
+  laneCount: number | null;
+  laneWidthM: number | null;
+};
+
+const BASE_STATION_AGENT_ID = 'base-station';
+
+const toRadians = (deg: number): number => (deg * Math.PI) / 180;
+
+const lineLengthMeters = (coordinates: [number, number][]): number => {
+  let total = 0;
+  for (let i = 1; i < coordinates.length; i += 1) {
+    const [lon0, lat0] = coordinates[i - 1];
+    const [lon1, lat1] = coordinates[i];
+    total += distanceMeters({ lat: lat0, lon: lon0 }, { lat: lat1, lon: lon1 });
+  }
+  return total;
+};
+
+/** Shoelace area in a local equirectangular frame; accurate enough for survey-sized zones. */
+const ringAreaM2 = (ring: [number, number][]): number => {
+  if (ring.length < 3) return 0;
+  const lat0 = ring.reduce((sum, [, lat]) => sum + lat, 0) / ring.length;
+  const kx = toRadians(1) * EARTH_RADIUS_M * Math.cos(toRadians(lat0));
+  const ky = toRadians(1) * EARTH_RADIUS_M;
+  let twice = 0;
+  for (let i = 0; i < ring.length; i += 1) {
+    const [lonA, latA] = ring[i];
+    const [lonB, latB] = ring[(i + 1) % ring.length];
+    twice += lonA * kx * (latB * ky) - lonB * kx * (latA * ky);
+  }
+  return Math.abs(twice) / 2;
+};
+
+const trackDistanceMeters = (points: TrackPoint[]): number =>
+  groupTrackPointsBySegment(points).reduce((sum, segment) => {
+    let length = 0;
+    for (let i = 1; i < segment.length; i += 1) length += distanceMeters(segment[i - 1], segment[i]);
+    return sum + length;
+  }, 0);
+
+export const summarizeReportTracks = (bundle: MissionBundle, divers: DiverUiConfig[]): MissionReportTrackRow[] => {
+  const diverTitleByUid = new Map(divers.map((diver) => [diver.uid, diver.title] as const));
+  return bundle.mission.tracks.map((track, index) => {
+    const points = bundle.trackPointsByTrackId[track.id] ?? [];
+    const name =
+      track.agent_id === BASE_STATION_AGENT_ID
+        ? 'Базовая станция'
+        : (track.agent_id && diverTitleByUid.get(track.agent_id)) || `Трек ${index + 1}`;
+    const firstMs = points.length > 0 ? Date.parse(points[0].timestamp) : Date.parse(track.started_at);
+    const lastMs =
+      points.length > 0
+        ? Date.parse(points[points.length - 1].timestamp)
+        : track.ended_at
+          ? Date.parse(track.ended_at)
+          : NaN;
+    const depths = points.map((point) => point.depth_m).filter((depth): depth is number => Number.isFinite(depth));
+    return {
+      id: track.id,
+      name,
+      startedAt: track.started_at,
+      endedAt: track.ended_at,
+      durationS: Number.isFinite(firstMs) && Number.isFinite(lastMs) ? Math.max(0, (lastMs - firstMs) / 1000) : null,
+      distanceM: trackDistanceMeters(points),
+      maxDepthM: depths.length > 0 ? Math.max(...depths) : null,
+      pointCount: points.length,
+    };
+  });
+};
+
+export const summarizeReportPlanning = (bundle: MissionBundle): MissionReportPlanRow[] => {
+  const laneCountByZone = new Map<string, number>();
+  for (const feature of bundle.routes.features) {
+    if (feature.properties.kind !== 'lane') continue;
+    const zoneId = feature.properties.parent_area_id;
+    laneCountByZone.set(zoneId, (laneCountByZone.get(zoneId) ?? 0) + 1);
+  }
+  return bundle.routes.features.flatMap((feature): MissionReportPlanRow[] => {
+    if (feature.properties.kind === 'route' && feature.geometry.type === 'LineString') {
+      return [
+        {
+          id: feature.properties.id,
+          name: feature.properties.name,
+          kind: 'route',
+          lengthM: lineLengthMeters(feature.geometry.coordinates),
+          areaM2: null,
+          waypointCount: feature.geometry.coordinates.length,
+          laneCount: null,
+          laneWidthM: null,
+        },
+      ];
+    }
+    if (feature.properties.kind === 'survey_area' && feature.geometry.type === 'Polygon') {
+      const [outer = [], ...holes] = feature.geometry.coordinates;
+      return [
+        {
+          id: feature.properties.id,
+          name: feature.properties.name,
+          kind: 'survey_area',
+          lengthM: null,
+          areaM2: Math.max(0, ringAreaM2(outer) - holes.reduce((sum, hole) => sum + ringAreaM2(hole), 0)),
+          waypointCount: outer.length,
+          laneCount: laneCountByZone.get(feature.properties.id) ?? 0,
+          laneWidthM: feature.properties.lane_width_m,
+        },
+      ];
+    }
+    return [];
+  });
+};
+
+const formatDateTime = (value: string | Date | null): string => {
+  if (value === null) return '—';
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? String(value) : date.toLocaleString('ru-RU');
+};
+
+const formatDistance = (meters: number | null): string => {
+  if (meters === null) return '—';
+  return meters >= 1000 ? `${(meters / 1000).toFixed(2)} км` : `${meters.toFixed(1)} м`;
+};
+
+const formatArea = (m2: number | null): string => {
+  if (m2 === null) return '—';
+  return m2 >= 10_000 ? `${(m2 / 10_000).toFixed(2)} га` : `${Math.round(m2)} м²`;
+};
+
+const table = (headers: string[], rows: string[][], emptyText: string): string => {
+  if (rows.length === 0) return `<p class="empty">${escapeXml(emptyText)}</p>`;
+  const head = headers.map((header) => `<th>${escapeXml(header)}</th>`).join('');
+  const body = rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeXml(cell)}</td>`).join('')}</tr>`).join('\n');
+  return `<table><thead><tr>${head}</tr></thead><tbody>\n${body}\n</tbody></table>`;
+};
+
+const definitionList = (items: Array<[string, string]>): string =>
+  `<dl>${items.map(([term, value]) => `<dt>${escapeXml(term)}</dt><dd>${escapeXml(value)}</dd>`).join('')}</dl>`;
+
+const REPORT_STYLE = `
+@page { size: A4; margin: 15mm; }
+body { font-family: "Segoe UI", Roboto, Arial, sans-serif; font-size: 11pt; color: #0f172a; margin: 0 auto; max-width: 190mm; }
+h1 { font-size: 18pt; margin: 0 0 4pt; }
+h2 { font-size: 13pt; margin: 18pt 0 6pt; border-bottom: 1px solid #cbd5e1; padding-bottom: 2pt; }
+.subtitle { color: #475569; margin: 0 0 12pt; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 2pt 12pt; margin: 0; }
+dt { color: #475569; }
+dd { margin: 0; }
+table { width: 100%; border-collapse: collapse; font-size: 9.5pt; }
+th, td { border: 1px solid #cbd5e1; padding: 3pt 5pt; text-align: left; vertical-align: top; }
+th { background: #f1f5f9; }
+tr { page-break-inside: avoid; }
+.empty { color: #64748b; font-style: italic; }
+figure { margin: 8pt 0; page-break-inside: avoid; }
+figure img, figure svg { max-width: 100%; height: auto; border: 1px solid #cbd5e1; }
+figcaption { color: #475569; font-size: 9pt; margin-top: 2pt; }
+`;
+
+/** Self-contained HTML report: styles and images are embedded, so the file can be mailed or printed as is. */
+export const buildMissionReportHtml = (input: MissionReportInput): string => {
+  const { bundle, coordinates } = input;
+  const mission = bundle.mission;
+  const tracks = summarizeReportTracks(bundle, input.divers);
+  const planning = summarizeReportPlanning(bundle);
+  const totalDistanceM = tracks.reduce((sum, track) => sum + track.distanceM, 0);
+  const maxDepths = tracks.map((track) => track.maxDepthM).filter((depth): depth is number => depth !== null);
+
+  const missionSection = definitionList([
+    ['Название', mission.name],
+    ['Идентификатор', mission.mission_id],
+    ['Создана', formatDateTime(mission.created_at)],
+    ['Изменена', formatDateTime(mission.updated_at)],
+    ['Папка миссии', bundle.rootPath],
+    ['Треков', String(tracks.length)],
+    ['Общая дистанция треков', formatDistance(totalDistanceM)],
+    ['Максимальная глубина', maxDepths.length > 0 ? `${Math.max(...maxDepths).toFixed(1)} м` : '—'],
+  ]);
+
+  const equipmentSection = input.equipment
+    ? `${definitionList([['Профиль', input.equipment.profileName]])}\n${table(
+        ['Устройство', 'Тип'],
+        input.equipment.devices.map((device) => [device.name, device.type]),
+        'В профиле нет устройств.',
+      )}`
+    : '<p class="empty">Профиль оборудования не выбран.</p>';
+
+  const tracksSection = table(
+    ['Трек', 'Начало', 'Окончание', 'Длительность', 'Дистанция', 'Макс. глубина', 'Точек'],
+    tracks.map((track) => [
+      track.name,
+      formatDateTime(track.startedAt),
+      formatDateTime(track.endedAt),
+      formatDurationHms(track.durationS),
+      formatDistance(track.distanceM),
+      track.maxDepthM === null ? '—' : `${track.maxDepthM.toFixed(1)} м`,
+      String(track.pointCount),
+    ]),
+    'Треков нет.',
+  );
+
+  const markersSection = table(
+    ['Маркер', 'Описание', 'Широта', 'Долгота'],
+    bundle.markers.features.map((feature) => {
+      const [lon, lat] = feature.geometry.coordinates;
+      const point = toCsvPoint({ lat, lon }, coordinates.precision, coordinates);
+      return [feature.properties.name, feature.properties.description || feature.properties.note || '', point.lat, point.lon];
+    }),
+    'Маркеров нет.',
+  );
+
+  const planningSection = table(
+    ['Объект', 'Тип', 'Длина', 'Площадь', 'Вершин', 'Галсов', 'Ширина галса'],
+    planning.map((row) => [
+      row.name,
+      row.kind === 'route' ? 'Маршрут' : 'Зона',
+      formatDistance(row.lengthM),
+      formatArea(row.areaM2),
+      String(row.waypointCount),
+      row.laneCount === null ? '—' : String(row.laneCount),
+      row.laneWidthM === null ? '—' : `${row.laneWidthM} м`,
+    ]),
+    'Маршрутов и зон нет.',
+  );
+
+  const figures = [
+    ...(input.overviewSvg ? [`<figure>${input.overviewSvg}<figcaption>Обзорная схема миссии</figcaption></figure>`] : []),
+    ...input.images.map(
+      (image) =>
+        `<figure><img src="${escapeXml(image.src)}" alt="${escapeXml(image.title)}"><figcaption>${escapeXml(image.title)}</figcaption></figure>`,
+    ),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="ru">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(`Отчёт: ${mission.name}`)}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<h1>${escapeXml(`Отчёт о миссии «${mission.name}»`)}</h1>
+<p class="subtitle">${escapeXml(`Сформирован ${formatDateTime(input.generatedAt)}`)}</p>
+<h2>Миссия</h2>
+${missionSection}
+<h2>Оборудование</h2>
+${equipmentSection}
+<h2>Треки</h2>
+${tracksSection}
+<h2>Маркеры</h2>
+<p class="subtitle">${escapeXml(
+    `Координаты: ${getCrsLabel(coordinates.crs)}, ${getCoordinateInputFormatLabel(coordinates.format)}`,
+  )}</p>
+${markersSection}
+<h2>Маршруты и зоны</h2>
+${planningSection}
+<h2>Карта</h2>
+${figures.length > 0 ? figures.join('\n') : '<p class="empty">Нет объектов для карты.</p>'}
+</body>
+</html>
+`;
+};
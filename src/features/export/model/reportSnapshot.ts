@@ -0,0 +1,146 @@
+import { EARTH_RADIUS_M } from '@/features/geo/distance';
+import type { MissionBundle } from '@/features/mission';
+import { escapeXml } from './exporters';
+
+export type MissionSnapshotStyle = {
+  width: number;
+  height: number;
+  /** Track colour by track id; tracks without one use `trackColor`. */
+  trackColorsById: Record<string, string>;
+  trackColor: string;
+  routeColor: string;
+  zoneColor: string;
+  laneColor: string;
+  markerColor: string;
+};
+
+type Projected = { x: number; y: number };
+
+const PADDING_PX = 24;
+/** Longer tracks are thinned so that the report stays small; the shape is unaffected at report scale. */
+const MAX_TRACK_POINTS = 2000;
+const SCALE_STEPS_M = [1, 2, 5];
+
+const toRadians = (deg: number): number => (deg * Math.PI) / 180;
+
+const mercator = (lat: number, lon: number): Projected => ({
+  x: toRadians(lon),
+  y: Math.log(Math.tan(Math.PI / 4 + toRadians(Math.max(-85, Math.min(85, lat))) / 2)),
+});
+
+const niceScaleLength = (maxMeters: number): number => {
+  let best = 1;
+  for (let magnitude = 1; magnitude <= 1e7; magnitude *= 10) {
+    for (const step of SCALE_STEPS_M) {
+      if (step * magnitude <= maxMeters) best = step * magnitude;
+    }
+  }
+  return best;
+};
+
+const formatScaleLength = (meters: number): string => (meters >= 1000 ? `${meters / 1000} км` : `${meters} м`);
+
+const thin = <T,>(points: T[]): T[] => {
+  if (points.length <= MAX_TRACK_POINTS) return points;
+  const stride = Math.ceil(points.length / MAX_TRACK_POINTS);
+  return points.filter((_, index) => index % stride === 0 || index === points.length - 1);
+};
+
+/**
+ * Overview map of the mission drawn as SVG in Web Mercator: zones with lanes, routes, tracks and
+ * markers, fitted to their extent, with a scale bar. Null when the mission has nothing to draw.
+ */
+export const renderMissionSnapshotSvg = (bundle: MissionBundle, style: MissionSnapshotStyle): string | null => {
+  const lines: Array<{ points: Array<{ lat: number; lon: number }>; kind: 'track' | 'route' | 'lane'; color: string }> = [];
+  const polygons: Array<Array<{ lat: number; lon: number }>> = [];
+  const markers: Array<{ lat: number; lon: number; name: string }> = [];
+
+  for (const feature of bundle.routes.features) {
+    if (feature.properties.kind === 'survey_area' && feature.geometry.type === 'Polygon') {
+      const ring = feature.geometry.coordinates[0] ?? [];
+      polygons.push(ring.map(([lon, lat]) => ({ lat, lon })));
+    } else if (feature.properties.kind === 'route' || feature.properties.kind === 'lane') {
+      const kind = feature.properties.kind;
+      lines.push({
+        kind,
+        color: kind === 'lane' ? style.laneColor : style.routeColor,
+        points: (feature.geometry.coordinates as [number, number][]).map(([lon, lat]) => ({ lat, lon })),
+      });
+    }
+  }
+  for (const track of bundle.mission.tracks) {
+    const bySegment = new Map<number, Array<{ lat: number; lon: number }>>();
+    for (const point of bundle.trackPointsByTrackId[track.id] ?? []) {
+      if (!Number.isFinite(point.lat) || !Number.isFinite(point.lon)) continue;
+      const segment = bySegment.get(point.segment_id) ?? [];
+      segment.push(point);
+      bySegment.set(point.segment_id, segment);
+    }
+    for (const segment of bySegment.values()) {
+      lines.push({ kind: 'track', color: style.trackColorsById[track.id] ?? style.trackColor, points: thin(segment) });
+    }
+  }
+  for (const feature of bundle.markers.features) {
+    const [lon, lat] = feature.geometry.coordinates;
+    markers.push({ lat, lon, name: feature.properties.name });
+  }
+
+  const all = [...lines.flatMap((line) => line.points), ...polygons.flat(), ...markers];
+  if (all.length === 0) return null;
+
+  const projectedAll = all.map((point) => mercator(point.lat, point.lon));
+  const minX = Math.min(...projectedAll.map((p) => p.x));
+  const maxX = Math.max(...projectedAll.map((p) => p.x));
+  const minY = Math.min(...projectedAll.map((p) => p.y));
+  const maxY = Math.max(...projectedAll.map((p) => p.y));
+  const innerWidth = style.width - PADDING_PX * 2;
+  const innerHeight = style.height - PADDING_PX * 2;
+  // A single point (or a perfectly straight N–S / E–W line) still gets a ~200 m wide frame.
+  const spanX = Math.max(maxX - minX, 200 / EARTH_RADIUS_M);
+  const spanY = Math.max(maxY - minY, 200 / EARTH_RADIUS_M);
+  const scale = Math.min(innerWidth / spanX, innerHeight / spanY);
+  const offsetX = PADDING_PX + (innerWidth - (maxX - minX) * scale) / 2;
+  const offsetY = PADDING_PX + (innerHeight - (maxY - minY) * scale) / 2;
+
+  const toSvg = (lat: number, lon: number): string => {
+    const p = mercator(lat, lon);
+    return `${(offsetX + (p.x - minX) * scale).toFixed(1)},${(offsetY + (maxY - p.y) * scale).toFixed(1)}`;
+  };
+  const pathOf = (points: Array<{ lat: number; lon: number }>): string =>
+    points.map((point) => toSvg(point.lat, point.lon)).join(' ');
+
+  const centerLat = all.reduce((sum, point) => sum + point.lat, 0) / all.length;
+  const metersPerPx = (EARTH_RADIUS_M * Math.cos(toRadians(centerLat))) / scale;
+  const scaleMeters = niceScaleLength(metersPerPx * style.width * 0.25);
+  const scalePx = scaleMeters / metersPerPx;
+  const scaleY = style.height - 12;
+
+  const widths = { lane: 1, route: 2.5, track: 2 };
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${style.width}" height="${style.height}" viewBox="0 0 ${style.width} ${style.height}" font-family="sans-serif" font-size="11">`,
+    `<rect width="100%" height="100%" fill="#f8fafc" stroke="#cbd5e1"/>`,
+    ...polygons.map(
+      (ring) =>
+        `<polygon points="${pathOf(ring)}" fill="${style.zoneColor}" fill-opacity="0.15" stroke="${style.zoneColor}" stroke-width="1.5"/>`,
+    ),
+    ...(['lane', 'route', 'track'] as const).flatMap((kind) =>
+      lines
+        .filter((line) => line.kind === kind && line.points.length > 1)
+        .map(
+          (line) =>
+            `<polyline points="${pathOf(line.points)}" fill="none" stroke="${line.color}" stroke-width="${widths[kind]}" stroke-linejoin="round"/>`,
+        ),
+    ),
+    ...markers.flatMap((marker) => {
+      const [x, y] = toSvg(marker.lat, marker.lon).split(',');
+      return [
+        `<circle cx="${x}" cy="${y}" r="4" fill="${style.markerColor}" stroke="#ffffff" stroke-width="1.5"/>`,
+        `<text x="${Number(x) + 6}" y="${Number(y) - 6}" fill="#0f172a">${escapeXml(marker.name)}</text>`,
+      ];
+    }),
+    `<line x1="${PADDING_PX}" y1="${scaleY}" x2="${(PADDING_PX + scalePx).toFixed(1)}" y2="${scaleY}" stroke="#0f172a" stroke-width="2"/>`,
+    `<text x="${PADDING_PX}" y="${scaleY - 4}" fill="#0f172a">${formatScaleLength(scaleMeters)}</text>`,
+    '</svg>',
+  ];
+  return parts.join('\n');
+};
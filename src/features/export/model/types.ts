@@ -4,6 +4,7 @@ import type { CrsId } from '@/features/geo/crs';
 export type ExportTracksFormat = 'gpx' | 'kml' | 'csv';
 export type ExportRoutesFormat = 'gpx' | 'kml' | 'csv';
 export type ExportMarkersFormat = 'csv' | 'gpx';
+export type ExportDivesFormat = 'csv';
 
 export type ExportTracksMode = 'active' | 'selected' | 'all';
 export type ExportObjectsMode = 'selected' | 'all';
@@ -33,4 +34,15 @@ export type ExportRequest = {
     selectedObjectIds?: string[];
     csv?: ExportCsvCoordinateOptions;
   };
+  /** Per-diver dive report built from the depth of the diver tracks. */
+  dives?: {
+    format: ExportDivesFormat;
+  };
+  /** Self-contained HTML mission report, optionally printed to PDF (desktop only). */
+  report?: {
+    pdf: boolean;
+    /** Attach a screenshot of the current map view (desktop only). */
+    includeMapView: boolean;
+    coordinates: ExportCsvCoordinateOptions;
+  };
 };
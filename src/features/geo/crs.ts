@@ -5,14 +5,14 @@ export type GeoPoint = {
   lon: number;
 };
 
-type Ellipsoid = {
+export type Ellipsoid = {
   a: number;
   f: number;
 };
 
-type HelmertConvention = 'coordinate_frame' | 'position_vector';
+export type HelmertConvention = 'coordinate_frame' | 'position_vector';
 
-type HelmertTransform = {
+export type HelmertTransform = {
   dx: number;
   dy: number;
   dz: number;
@@ -30,9 +30,7 @@ const ELLIPSOIDS: Record<CrsId, Ellipsoid> = {
   gsk2011: { a: 6378136.5, f: 1 / 298.2564151 },
 };
 
-// EPSG transformation between GSK-2011 and WGS84 is translation-only zero.
-// Difference is captured mainly by ellipsoid parameters.
-const GSK2011_TO_WGS84: HelmertTransform = {
+const NO_DATUM_SHIFT: HelmertTransform = {
   dx: 0,
   dy: 0,
   dz: 0,
@@ -43,6 +41,10 @@ const GSK2011_TO_WGS84: HelmertTransform = {
   convention: 'coordinate_frame',
 };
 
+// EPSG transformation between GSK-2011 and WGS84 is translation-only zero.
+// Difference is captured mainly by ellipsoid parameters.
+const GSK2011_TO_WGS84: HelmertTransform = NO_DATUM_SHIFT;
+
 const CRS_LABELS: Record<CrsId, string> = {
   wgs84: 'WGS84 (EPSG:4326)',
   sk42: 'СК-42 (Pulkovo 1942)',
@@ -269,6 +271,22 @@ const round = (value: number, precision: number): number => {
 
 export const getCrsLabel = (crs: CrsId): string => CRS_LABELS[crs];
 
+export const getCrsEllipsoid = (crs: CrsId): Ellipsoid => ELLIPSOIDS[crs];
+
+/**
+ * Converts geodetic coordinates of a local datum into WGS84. `toWgs84` is the datum shift in the
+ * proj4 `+towgs84` sense; null means the datum coincides with WGS84 apart from the ellipsoid.
+ */
+export const datumToWgs84 = (point: GeoPoint, ellipsoid: Ellipsoid, toWgs84: HelmertTransform | null): GeoPoint => {
+  if (!toWgs84 && ellipsoid.a === ELLIPSOIDS.wgs84.a && ellipsoid.f === ELLIPSOIDS.wgs84.f) return { ...point };
+  return transformBetweenDatums(point, ellipsoid, ELLIPSOIDS.wgs84, toWgs84 ?? NO_DATUM_SHIFT, 'forward');
+};
+
+export const wgs84ToDatum = (point: GeoPoint, ellipsoid: Ellipsoid, toWgs84: HelmertTransform | null): GeoPoint => {
+  if (!toWgs84 && ellipsoid.a === ELLIPSOIDS.wgs84.a && ellipsoid.f === ELLIPSOIDS.wgs84.f) return { ...point };
+  return transformBetweenDatums(point, ELLIPSOIDS.wgs84, ellipsoid, toWgs84 ?? NO_DATUM_SHIFT, 'inverse');
+};
+
 export const supportedCoordinateCrs: CrsId[] = ['wgs84', 'sk42', 'gsk2011'];
 
 export const convertPoint = (point: GeoPoint, from: CrsId, to: CrsId): GeoPoint => {
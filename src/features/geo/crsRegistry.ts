@@ -0,0 +1,556 @@
+import {
+  datumToWgs84,
+  getCrsEllipsoid,
+  type Ellipsoid,
+  type GeoPoint,
+  type HelmertTransform,
+} from '@/features/geo/crs';
+import {
+  mercatorInverse,
+  transverseMercatorInverse,
+  type MercatorParams,
+  type PlanarCoordinate,
+  type TransverseMercatorParams,
+} from '@/features/geo/projections';
+
+export type CrsProjection =
+  | { kind: 'longlat' }
+  | ({ kind: 'tmerc' } & TransverseMercatorParams)
+  // `spherical` (Pseudo-Mercator) inverts on a sphere of the datum's semi-major axis; the resulting
+  // lat/lon already belong to the datum ellipsoid and get no extra ellipsoid change.
+  | ({ kind: 'merc'; spherical?: boolean } & MercatorParams);
+
+/**
+ * Coordinate reference system of imported drawings and rasters. `source` is the text the operator
+ * entered (EPSG code, proj4 or WKT) and is what gets stored in the mission.
+ */
+export type CrsDefinition = {
+  source: string;
+  label: string;
+  epsg: number | null;
+  ellipsoid: Ellipsoid;
+  toWgs84: HelmertTransform | null;
+  projection: CrsProjection;
+  unitsToMeters: number;
+};
+
+export type CrsPreset = {
+  code: number;
+  label: string;
+};
+
+const SPHERE_ELLIPSOID = (a: number): Ellipsoid => ({ a, f: 0 });
+
+const NAMED_ELLIPSOIDS: Record<string, Ellipsoid> = {
+  wgs84: getCrsEllipsoid('wgs84'),
+  grs80: { a: 6378137, f: 1 / 298.257222101 },
+  krass: getCrsEllipsoid('sk42'),
+  krassowsky: getCrsEllipsoid('sk42'),
+  gsk2011: getCrsEllipsoid('gsk2011'),
+  intl: { a: 6378388, f: 1 / 297 },
+  bessel: { a: 6377397.155, f: 1 / 299.1528128 },
+  clrk66: { a: 6378206.4, f: 1 / 294.9786982 },
+};
+
+// proj4 `+towgs84` parameters are position-vector Helmert transforms (EPSG method 9606).
+const toPositionVector = (values: number[]): HelmertTransform => ({
+  dx: values[0] ?? 0,
+  dy: values[1] ?? 0,
+  dz: values[2] ?? 0,
+  rxArcSec: values[3] ?? 0,
+  ryArcSec: values[4] ?? 0,
+  rzArcSec: values[5] ?? 0,
+  scalePpm: values[6] ?? 0,
+  convention: 'position_vector',
+});
+
+// ГОСТ 32453-2017 parameters, the same ones the EPSG/proj4 definitions carry.
+const PULKOVO_1942_TO_WGS84 = toPositionVector([23.57, -140.95, -79.8, 0, 0.35, 0.79, -0.22]);
+const PULKOVO_1995_TO_WGS84 = toPositionVector([24.47, -130.89, -81.56, 0, 0, 0.13, -0.22]);
+
+const WEB_MERCATOR_PARAMS: MercatorParams = { lon0: 0, k0: 1, x0: 0, y0: 0 };
+
+type EpsgEntry = Omit<CrsDefinition, 'source'>;
+
+const gaussKruegerZone = (zone: number): TransverseMercatorParams => ({
+  lat0: 0,
+  lon0: zone * 6 - 3,
+  k0: 1,
+  x0: zone * 1_000_000 + 500_000,
+  y0: 0,
+});
+
+const resolveEpsgEntry = (code: number): EpsgEntry | null => {
+  const wgs84 = NAMED_ELLIPSOIDS.wgs84;
+  const krass = NAMED_ELLIPSOIDS.krass;
+  const gsk2011 = NAMED_ELLIPSOIDS.gsk2011;
+
+  if (code === 4326) {
+    return { label: 'WGS 84', epsg: code, ellipsoid: wgs84, toWgs84: null, projection: { kind: 'longlat' }, unitsToMeters: 1 };
+  }
+  if (code === 3857 || code === 900913) {
+    return {
+      label: 'WGS 84 / Pseudo-Mercator',
+      epsg: code,
+      ellipsoid: wgs84,
+      toWgs84: null,
+      projection: { kind: 'merc', spherical: true, ...WEB_MERCATOR_PARAMS },
+      unitsToMeters: 1,
+    };
+  }
+  if (code === 3395) {
+    return {
+      label: 'WGS 84 / World Mercator',
+      epsg: code,
+      ellipsoid: wgs84,
+      toWgs84: null,
+      projection: { kind: 'merc', ...WEB_MERCATOR_PARAMS },
+      unitsToMeters: 1,
+    };
+  }
+  if ((code >= 32601 && code <= 32660) || (code >= 32701 && code <= 32760)) {
+    const south = code >= 32701;
+    const zone = code - (south ? 32700 : 32600);
+    return {
+      label: `WGS 84 / UTM ${zone}${south ? 'S' : 'N'}`,
+      epsg: code,
+      ellipsoid: wgs84,
+      toWgs84: null,
+      projection: { kind: 'tmerc', lat0: 0, lon0: zone * 6 - 183, k0: 0.9996, x0: 500_000, y0: south ? 10_000_000 : 0 },
+      unitsToMeters: 1,
+    };
+  }
+  if (code === 4284) {
+    return {
+      label: 'СК-42 (Pulkovo 1942)',
+      epsg: code,
+      ellipsoid: krass,
+      toWgs84: PULKOVO_1942_TO_WGS84,
+      projection: { kind: 'longlat' },
+      unitsToMeters: 1,
+    };
+  }
+  if (code >= 28402 && code <= 28432) {
+    const zone = code - 28400;
+    return {
+      label: `СК-42 / Гаусс–Крюгер, зона ${zone}`,
+      epsg: code,
+      ellipsoid: krass,
+      toWgs84: PULKOVO_1942_TO_WGS84,
+      projection: { kind: 'tmerc', ...gaussKruegerZone(zone) },
+      unitsToMeters: 1,
+    };
+  }
+  if (code === 4200) {
+    return {
+      label: 'СК-95 (Pulkovo 1995)',
+      epsg: code,
+      ellipsoid: krass,
+      toWgs84: PULKOVO_1995_TO_WGS84,
+      projection: { kind: 'longlat' },
+      unitsToMeters: 1,
+    };
+  }
+  if (code >= 20004 && code <= 20032) {
+    const zone = code - 20000;
+    return {
+      label: `СК-95 / Гаусс–Крюгер, зона ${zone}`,
+      epsg: code,
+      ellipsoid: krass,
+      toWgs84: PULKOVO_1995_TO_WGS84,
+      projection: { kind: 'tmerc', ...gaussKruegerZone(zone) },
+      unitsToMeters: 1,
+    };
+  }
+  if (code === 7683) {
+    return { label: 'ГСК-2011', epsg: code, ellipsoid: gsk2011, toWgs84: null, projection: { kind: 'longlat' }, unitsToMeters: 1 };
+  }
+  if (code >= 20904 && code <= 20932) {
+    const zone = code - 20900;
+    return {
+      label: `ГСК-2011 / Гаусс–Крюгер, зона ${zone}`,
+      epsg: code,
+      ellipsoid: gsk2011,
+      toWgs84: null,
+      projection: { kind: 'tmerc', ...gaussKruegerZone(zone) },
+      unitsToMeters: 1,
+    };
+  }
+  return null;
+};
+
+export const resolveEpsgDefinition = (code: number): CrsDefinition | null => {
+  if (!Number.isInteger(code)) return null;
+  const entry = resolveEpsgEntry(code);
+  return entry ? { ...entry, source: `EPSG:${code}` } : null;
+};
+
+/** EPSG codes offered in the import dialogs; any other supported code can still be typed in. */
+export const CRS_PRESETS: CrsPreset[] = [
+  4326, 3857, 3395, 4284, 4200, 7683,
+  ...Array.from({ length: 29 }, (_, index) => 20904 + index),
+  ...Array.from({ length: 31 }, (_, index) => 28402 + index),
+  ...Array.from({ length: 29 }, (_, index) => 20004 + index),
+  ...Array.from({ length: 60 }, (_, index) => 32601 + index),
+  ...Array.from({ length: 60 }, (_, index) => 32701 + index),
+].map((code) => ({ code, label: resolveEpsgEntry(code)?.label ?? `EPSG:${code}` }));
+
+export const formatCrsLabel = (definition: Pick<CrsDefinition, 'label' | 'epsg'>): string =>
+  definition.epsg !== null ? `${definition.label} (EPSG:${definition.epsg})` : definition.label;
+
+const parseFiniteNumber = (value: string | undefined, label: string): number => {
+  const parsed = Number(value);
+  if (value === undefined || value.trim().length === 0 || !Number.isFinite(parsed)) {
+    throw new Error(`Некорректное значение параметра ${label} в описании системы координат.`);
+  }
+  return parsed;
+};
+
+const PROJ4_UNITS: Record<string, number> = {
+  m: 1,
+  km: 1000,
+  ft: 0.3048,
+  'us-ft': 1200 / 3937,
+};
+
+export const parseProj4Definition = (text: string): CrsDefinition => {
+  const params = new Map<string, string>();
+  for (const token of text.trim().split(/\s+/)) {
+    const match = /^\+?([a-z_0-9]+)(?:=(.*))?$/i.exec(token);
+    if (!match) continue;
+    params.set(match[1].toLowerCase(), match[2] ?? '');
+  }
+  const proj = params.get('proj')?.toLowerCase();
+  if (!proj) {
+    throw new Error('В описании proj4 не указан параметр +proj.');
+  }
+
+  const optionalNumber = (key: string, fallback: number): number =>
+    params.has(key) ? parseFiniteNumber(params.get(key), `+${key}`) : fallback;
+
+  const datum = params.get('datum')?.toLowerCase();
+  const ellpsName = params.get('ellps')?.toLowerCase() ?? (datum === 'nad83' ? 'grs80' : 'wgs84');
+  const namedEllipsoid = NAMED_ELLIPSOIDS[ellpsName];
+  if (!namedEllipsoid && !params.has('a')) {
+    throw new Error(`Эллипсоид "${params.get('ellps')}" не поддерживается. Укажите +a и +rf (или +b).`);
+  }
+  const a = optionalNumber('a', namedEllipsoid?.a ?? 0);
+  let f = namedEllipsoid && !params.has('a') ? namedEllipsoid.f : 0;
+  if (params.has('rf')) f = 1 / optionalNumber('rf', 0);
+  else if (params.has('f')) f = optionalNumber('f', 0);
+  else if (params.has('b')) f = (a - optionalNumber('b', a)) / a;
+  if (!(a > 0) || !Number.isFinite(f) || f < 0 || f >= 1) {
+    throw new Error('Некорректные параметры эллипсоида в описании proj4.');
+  }
+  let ellipsoid: Ellipsoid = { a, f };
+
+  const towgs84Raw = params.get('towgs84');
+  const towgs84Values = towgs84Raw ? towgs84Raw.split(',').map((value) => parseFiniteNumber(value, '+towgs84')) : null;
+  if (towgs84Values && towgs84Values.length !== 3 && towgs84Values.length !== 7) {
+    throw new Error('Параметр +towgs84 должен содержать 3 или 7 чисел.');
+  }
+  const toWgs84 = towgs84Values && towgs84Values.some((value) => value !== 0) ? toPositionVector(towgs84Values) : null;
+
+  const units = params.get('units')?.toLowerCase();
+  if (units && !(units in PROJ4_UNITS)) {
+    throw new Error(`Единицы "${units}" не поддерживаются.`);
+  }
+  const unitsToMeters = params.has('to_meter') ? optionalNumber('to_meter', 1) : PROJ4_UNITS[units ?? 'm'];
+
+  let projection: CrsProjection;
+  let label: string;
+  if (proj === 'longlat' || proj === 'latlong' || proj === 'lonlat' || proj === 'latlon') {
+    projection = { kind: 'longlat' };
+    label = 'Географическая СК (proj4)';
+  } else if (proj === 'tmerc' || proj === 'etmerc') {
+    projection = {
+      kind: 'tmerc',
+      lat0: optionalNumber('lat_0', 0),
+      lon0: optionalNumber('lon_0', 0),
+      k0: optionalNumber('k_0', optionalNumber('k', 1)),
+      x0: optionalNumber('x_0', 0),
+      y0: optionalNumber('y_0', 0),
+    };
+    label = `Поперечная Меркатора, осевой ${projection.lon0}° (proj4)`;
+  } else if (proj === 'utm') {
+    const zone = optionalNumber('zone', Number.NaN);
+    if (!Number.isInteger(zone) || zone < 1 || zone > 60) {
+      throw new Error('Некорректная UTM зона: ожидается число от 1 до 60.');
+    }
+    const south = params.has('south');
+    projection = { kind: 'tmerc', lat0: 0, lon0: zone * 6 - 183, k0: 0.9996, x0: 500_000, y0: south ? 10_000_000 : 0 };
+    label = `UTM ${zone}${south ? 'S' : 'N'} (proj4)`;
+  } else if (
+    proj === 'merc' &&
+    ellipsoid.f === 0 &&
+    ellipsoid.a === NAMED_ELLIPSOIDS.wgs84.a &&
+    params.get('nadgrids') === '@null' &&
+    !toWgs84
+  ) {
+    // The proj4 form of EPSG:3857: WGS84 coordinates projected as if they were on a sphere.
+    ellipsoid = NAMED_ELLIPSOIDS.wgs84;
+    projection = {
+      kind: 'merc',
+      spherical: true,
+      lon0: optionalNumber('lon_0', 0),
+      k0: optionalNumber('k_0', optionalNumber('k', 1)),
+      x0: optionalNumber('x_0', 0),
+      y0: optionalNumber('y_0', 0),
+    };
+    label = 'Псевдо-Меркатора (proj4)';
+  } else if (proj === 'merc') {
+    const latTs = optionalNumber('lat_ts', 0);
+    const e2 = 2 * ellipsoid.f - ellipsoid.f * ellipsoid.f;
+    const sinTs = Math.sin((latTs * Math.PI) / 180);
+    const k0FromTs = Math.cos((latTs * Math.PI) / 180) / Math.sqrt(1 - e2 * sinTs * sinTs);
+    projection = {
+      kind: 'merc',
+      lon0: optionalNumber('lon_0', 0),
+      k0: params.has('lat_ts') ? k0FromTs : optionalNumber('k_0', optionalNumber('k', 1)),
+      x0: optionalNumber('x_0', 0),
+      y0: optionalNumber('y_0', 0),
+    };
+    label = 'Меркатора (proj4)';
+  } else {
+    throw new Error(`Проекция "${proj}" не поддерживается. Доступны: longlat, tmerc, utm, merc.`);
+  }
+
+  return { source: text.trim(), label, epsg: null, ellipsoid, toWgs84, projection, unitsToMeters };
+};
+
+type WktNode = {
+  keyword: string;
+  args: Array<string | number | WktNode>;
+};
+
+const parseWktTree = (text: string): WktNode => {
+  let index = 0;
+  const skipSpace = () => {
+    while (index < text.length && /\s/.test(text[index])) index += 1;
+  };
+  const fail = (): never => {
+    throw new Error('Некорректный WKT: не удалось разобрать описание системы координат.');
+  };
+
+  const parseNode = (): WktNode => {
+    skipSpace();
+    const keywordMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(index));
+    if (!keywordMatch) return fail();
+    index += keywordMatch[0].length;
+    skipSpace();
+    const node: WktNode = { keyword: keywordMatch[0].toUpperCase(), args: [] };
+    if (text[index] !== '[' && text[index] !== '(') return node;
+    index += 1;
+    for (;;) {
+      skipSpace();
+      const char = text[index];
+      if (char === undefined) return fail();
+      if (char === ']' || char === ')') {
+        index += 1;
+        return node;
+      }
+      if (char === ',') {
+        index += 1;
+        continue;
+      }
+      if (char === '"') {
+        let value = '';
+        index += 1;
+        while (index < text.length) {
+          if (text[index] === '"') {
+            if (text[index + 1] === '"') {
+              value += '"';
+              index += 2;
+              continue;
+            }
+            break;
+          }
+          value += text[index];
+          index += 1;
+        }
+        if (text[index] !== '"') return fail();
+        index += 1;
+        node.args.push(value);
+        continue;
+      }
+      const numberMatch = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(text.slice(index));
+      if (numberMatch) {
+        index += numberMatch[0].length;
+        node.args.push(Number(numberMatch[0]));
+        continue;
+      }
+      node.args.push(parseNode());
+    }
+  };
+
+  const root = parseNode();
+  skipSpace();
+  if (index < text.length) fail();
+  return root;
+};
+
+const childNodes = (node: WktNode): WktNode[] => node.args.filter((arg): arg is WktNode => typeof arg === 'object');
+const findChild = (node: WktNode, keywords: string[]): WktNode | undefined =>
+  childNodes(node).find((child) => keywords.includes(child.keyword));
+const findDescendant = (node: WktNode, keywords: string[]): WktNode | undefined => {
+  for (const child of childNodes(node)) {
+    if (keywords.includes(child.keyword)) return child;
+    const nested = findDescendant(child, keywords);
+    if (nested) return nested;
+  }
+  return undefined;
+};
+const numericArgs = (node: WktNode): number[] => node.args.filter((arg): arg is number => typeof arg === 'number');
+const nameOf = (node: WktNode | undefined): string => (typeof node?.args[0] === 'string' ? node.args[0] : '');
+const normalizeWktName = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const resolveWktAuthorityCode = (node: WktNode): number | null => {
+  const authority = findChild(node, ['AUTHORITY', 'ID']);
+  if (!authority || normalizeWktName(nameOf(authority)) !== 'epsg') return null;
+  const code = Number(authority.args[1]);
+  return Number.isInteger(code) ? code : null;
+};
+
+const resolveDatumShiftByName = (datumName: string): HelmertTransform | null => {
+  const normalized = normalizeWktName(datumName);
+  if (normalized.includes('pulkovo1942') || normalized.includes('sk42')) return PULKOVO_1942_TO_WGS84;
+  if (normalized.includes('pulkovo1995') || normalized.includes('sk95')) return PULKOVO_1995_TO_WGS84;
+  return null;
+};
+
+const WKT_PARAMETER_ALIASES: Record<keyof TransverseMercatorParams, string[]> = {
+  lat0: ['latitudeoforigin', 'latitudeofnaturalorigin', 'latitudeofcenter'],
+  lon0: ['centralmeridian', 'longitudeofnaturalorigin', 'longitudeoforigin', 'longitudeofcenter'],
+  k0: ['scalefactor', 'scalefactoratnaturalorigin'],
+  x0: ['falseeasting'],
+  y0: ['falsenorthing'],
+};
+
+export const parseWktDefinition = (text: string): CrsDefinition => {
+  const root = parseWktTree(text.trim());
+  const authorityCode = resolveWktAuthorityCode(root);
+  const registered = authorityCode !== null ? resolveEpsgDefinition(authorityCode) : null;
+  if (registered) return { ...registered, source: text.trim() };
+
+  const isProjected = ['PROJCS', 'PROJCRS', 'PROJECTEDCRS'].includes(root.keyword);
+  const isGeographic = ['GEOGCS', 'GEOGCRS', 'GEODCRS', 'GEOGRAPHICCRS'].includes(root.keyword);
+  if (!isProjected && !isGeographic) {
+    throw new Error(`WKT "${root.keyword}" не поддерживается: ожидается PROJCS/PROJCRS или GEOGCS/GEOGCRS.`);
+  }
+
+  const spheroid = findDescendant(root, ['SPHEROID', 'ELLIPSOID']);
+  const [a, rf] = spheroid ? numericArgs(spheroid) : [];
+  if (!Number.isFinite(a) || !Number.isFinite(rf)) {
+    throw new Error('В WKT не найден эллипсоид (SPHEROID/ELLIPSOID).');
+  }
+  const ellipsoid: Ellipsoid = { a, f: rf === 0 ? 0 : 1 / rf };
+
+  const datum = findDescendant(root, ['DATUM']);
+  const towgs84 = findDescendant(root, ['TOWGS84']);
+  const towgs84Values = towgs84 ? numericArgs(towgs84) : [];
+  const toWgs84 =
+    towgs84Values.length >= 3 && towgs84Values.some((value) => value !== 0)
+      ? toPositionVector(towgs84Values)
+      : resolveDatumShiftByName(nameOf(datum));
+
+  const label = nameOf(root).replace(/_/g, ' ') || 'Пользовательская СК (WKT)';
+  if (isGeographic) {
+    return { source: text.trim(), label, epsg: null, ellipsoid, toWgs84, projection: { kind: 'longlat' }, unitsToMeters: 1 };
+  }
+
+  const method = normalizeWktName(nameOf(findDescendant(root, ['PROJECTION', 'METHOD'])));
+  const parameters = new Map<string, number>();
+  const collectParameters = (node: WktNode) => {
+    for (const child of childNodes(node)) {
+      if (child.keyword === 'PARAMETER' && typeof child.args[1] === 'number') {
+        parameters.set(normalizeWktName(nameOf(child)), child.args[1]);
+      } else if (child.keyword === 'CONVERSION') {
+        collectParameters(child);
+      }
+    }
+  };
+  collectParameters(root);
+  const parameter = (key: keyof TransverseMercatorParams, fallback: number): number => {
+    const alias = WKT_PARAMETER_ALIASES[key].find((name) => parameters.has(name));
+    return alias ? (parameters.get(alias) as number) : fallback;
+  };
+
+  // The linear unit is the last UNIT/LENGTHUNIT of the projected CRS (the base CRS has an angular one).
+  const unitNode = childNodes(root)
+    .filter((child) => child.keyword === 'UNIT' || child.keyword === 'LENGTHUNIT')
+    .pop() ?? findDescendant(findChild(root, ['CS', 'AXIS']) ?? root, ['LENGTHUNIT']);
+  const unitsToMeters = unitNode ? numericArgs(unitNode)[0] ?? 1 : 1;
+
+  const common = {
+    lon0: parameter('lon0', 0),
+    k0: parameter('k0', 1),
+    x0: parameter('x0', 0),
+    y0: parameter('y0', 0),
+  };
+  if (method.includes('transversemercator') || method.includes('gausskruger') || method.includes('gausskrueger')) {
+    return {
+      source: text.trim(),
+      label,
+      epsg: null,
+      ellipsoid,
+      toWgs84,
+      projection: { kind: 'tmerc', lat0: parameter('lat0', 0), ...common },
+      unitsToMeters,
+    };
+  }
+  if (method.includes('mercator')) {
+    // Pseudo-Mercator projects WGS84 coordinates as if they were on a sphere.
+    const pseudo = method.includes('pseudo') || method.includes('popularvisualisation');
+    return {
+      source: text.trim(),
+      label,
+      epsg: null,
+      ellipsoid,
+      toWgs84,
+      projection: { kind: 'merc', ...(pseudo ? { spherical: true } : {}), ...common },
+      unitsToMeters,
+    };
+  }
+  throw new Error(`Проекция "${nameOf(findDescendant(root, ['PROJECTION', 'METHOD']))}" из WKT не поддерживается.`);
+};
+
+/** Accepts `EPSG:28407`, a bare EPSG code, a proj4 string or WKT (OGC/ESRI WKT1, basic WKT2). */
+export const parseCrsDefinition = (text: string): CrsDefinition => {
+  const trimmed = text.trim();
+  if (trimmed.length === 0) {
+    throw new Error('Укажите систему координат: код EPSG, строку proj4 или WKT.');
+  }
+  const epsgMatch = /^(?:EPSG\s*:\s*)?(\d{4,6})$/i.exec(trimmed);
+  if (epsgMatch) {
+    const code = Number(epsgMatch[1]);
+    const definition = resolveEpsgDefinition(code);
+    if (!definition) {
+      throw new Error(`EPSG:${code} нет в справочнике. Укажите описание proj4 или WKT.`);
+    }
+    return definition;
+  }
+  if (/^\+|(^|\s)\+?proj=/i.test(trimmed)) {
+    return parseProj4Definition(trimmed);
+  }
+  if (/^[A-Za-z_]+\s*[[(]/.test(trimmed)) {
+    return parseWktDefinition(trimmed);
+  }
+  throw new Error('Не удалось распознать систему координат: ожидается код EPSG, строка proj4 или WKT.');
+};
+
+/** Converts drawing/raster coordinates of the CRS (easting/northing or lon/lat) into WGS84. */
+export const createCrsToWgs84Transformer = (definition: CrsDefinition): ((coordinate: PlanarCoordinate) => GeoPoint) => {
+  const { projection, ellipsoid, toWgs84, unitsToMeters } = definition;
+  const toGeodetic = (coordinate: PlanarCoordinate): GeoPoint => {
+    if (projection.kind === 'longlat') return { lat: coordinate.y, lon: coordinate.x };
+    const meters = { x: coordinate.x * unitsToMeters, y: coordinate.y * unitsToMeters };
+    if (projection.kind === 'tmerc') return transverseMercatorInverse(meters, ellipsoid, projection);
+    return mercatorInverse(meters, projection.spherical ? SPHERE_ELLIPSOID(ellipsoid.a) : ellipsoid, projection);
+  };
+  return (coordinate) => {
+    if (!Number.isFinite(coordinate.x) || !Number.isFinite(coordinate.y)) {
+      throw new Error('Некорректные координаты: ожидаются числа.');
+    }
+    return datumToWgs84(toGeodetic(coordinate), ellipsoid, toWgs84);
+  };
+};
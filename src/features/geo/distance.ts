@@ -0,0 +1,30 @@
+export type GeoPosition = {
+  lat: number;
+  lon: number;
+};
+
+/** Radius of the sphere distances and bearings are measured on: the WGS 84 semi-major axis, as in Web Mercator. */
+export const EARTH_RADIUS_M = 6378137;
+
+const toRadians = (deg: number): number => (deg * Math.PI) / 180;
+const toDegrees = (rad: number): number => (rad * 180) / Math.PI;
+
+/** Great-circle (haversine) distance between two WGS 84 positions. */
+export const distanceMeters = (from: GeoPosition, to: GeoPosition): number => {
+  const lat1 = toRadians(from.lat);
+  const lat2 = toRadians(to.lat);
+  const dLat = lat2 - lat1;
+  const dLon = toRadians(to.lon - from.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+};
+
+/** Initial true bearing of the great circle from `from` to `to`, 0..360°. */
+export const initialBearingDeg = (from: GeoPosition, to: GeoPosition): number => {
+  const lat1 = toRadians(from.lat);
+  const lat2 = toRadians(to.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return ((toDegrees(Math.atan2(y, x)) % 360) + 360) % 360;
+};
@@ -0,0 +1,149 @@
+import type { Ellipsoid, GeoPoint } from '@/features/geo/crs';
+
+export type PlanarCoordinate = {
+  x: number;
+  y: number;
+};
+
+export type TransverseMercatorParams = {
+  lat0: number;
+  lon0: number;
+  k0: number;
+  x0: number;
+  y0: number;
+};
+
+export type MercatorParams = {
+  lon0: number;
+  k0: number;
+  x0: number;
+  y0: number;
+};
+
+const toRadians = (deg: number): number => (deg * Math.PI) / 180;
+const toDegrees = (rad: number): number => (rad * 180) / Math.PI;
+
+const normalizeLon = (lon: number): number => {
+  let normalized = lon;
+  while (normalized > 180) normalized -= 360;
+  while (normalized < -180) normalized += 360;
+  return normalized;
+};
+
+type KruegerSeries = {
+  rectifyingRadius: number;
+  eccentricity: number;
+  alpha: [number, number, number];
+  beta: [number, number, number];
+  delta: [number, number, number];
+};
+
+// Krüger series to n^3: sub-millimetre inside a 6° zone, which is all that Gauss–Krüger/UTM drawings use.
+const kruegerSeries = (ellipsoid: Ellipsoid): KruegerSeries => {
+  const n = ellipsoid.f / (2 - ellipsoid.f);
+  const n2 = n * n;
+  const n3 = n2 * n;
+  return {
+    rectifyingRadius: (ellipsoid.a / (1 + n)) * (1 + n2 / 4 + (n2 * n2) / 64),
+    eccentricity: Math.sqrt(2 * ellipsoid.f - ellipsoid.f * ellipsoid.f),
+    alpha: [n / 2 - (2 * n2) / 3 + (5 * n3) / 16, (13 * n2) / 48 - (3 * n3) / 5, (61 * n3) / 240],
+    beta: [n / 2 - (2 * n2) / 3 + (37 * n3) / 96, n2 / 48 + n3 / 15, (17 * n3) / 480],
+    delta: [2 * n - (2 * n2) / 3 - 2 * n3, (7 * n2) / 3 - (8 * n3) / 5, (56 * n3) / 15],
+  };
+};
+
+/** Normalized (ξ, η) coordinates of a point relative to the central meridian. */
+const transverseMercatorNormalized = (series: KruegerSeries, latRad: number, dLonRad: number): [number, number] => {
+  const e = series.eccentricity;
+  const sinLat = Math.sin(latRad);
+  const t = Math.sinh(Math.atanh(sinLat) - e * Math.atanh(e * sinLat));
+  const xiPrime = Math.atan2(t, Math.cos(dLonRad));
+  const etaPrime = Math.atanh(Math.sin(dLonRad) / Math.sqrt(1 + t * t));
+  let xi = xiPrime;
+  let eta = etaPrime;
+  series.alpha.forEach((alpha, index) => {
+    const j2 = 2 * (index + 1);
+    xi += alpha * Math.sin(j2 * xiPrime) * Math.cosh(j2 * etaPrime);
+    eta += alpha * Math.cos(j2 * xiPrime) * Math.sinh(j2 * etaPrime);
+  });
+  return [xi, eta];
+};
+
+export const transverseMercatorForward = (
+  point: GeoPoint,
+  ellipsoid: Ellipsoid,
+  params: TransverseMercatorParams,
+): PlanarCoordinate => {
+  const series = kruegerSeries(ellipsoid);
+  const scale = params.k0 * series.rectifyingRadius;
+  const [xi, eta] = transverseMercatorNormalized(
+    series,
+    toRadians(point.lat),
+    toRadians(normalizeLon(point.lon - params.lon0)),
+  );
+  const [xi0] = transverseMercatorNormalized(series, toRadians(params.lat0), 0);
+  return {
+    x: params.x0 + scale * eta,
+    y: params.y0 + scale * (xi - xi0),
+  };
+};
+
+export const transverseMercatorInverse = (
+  coordinate: PlanarCoordinate,
+  ellipsoid: Ellipsoid,
+  params: TransverseMercatorParams,
+): GeoPoint => {
+  const series = kruegerSeries(ellipsoid);
+  const scale = params.k0 * series.rectifyingRadius;
+  const [xi0] = transverseMercatorNormalized(series, toRadians(params.lat0), 0);
+  const xi = (coordinate.y - params.y0) / scale + xi0;
+  const eta = (coordinate.x - params.x0) / scale;
+
+  let xiPrime = xi;
+  let etaPrime = eta;
+  series.beta.forEach((beta, index) => {
+    const j2 = 2 * (index + 1);
+    xiPrime -= beta * Math.sin(j2 * xi) * Math.cosh(j2 * eta);
+    etaPrime -= beta * Math.cos(j2 * xi) * Math.sinh(j2 * eta);
+  });
+  const chi = Math.asin(Math.sin(xiPrime) / Math.cosh(etaPrime));
+  let lat = chi;
+  series.delta.forEach((delta, index) => {
+    lat += delta * Math.sin(2 * (index + 1) * chi);
+  });
+  const dLon = Math.atan2(Math.sinh(etaPrime), Math.cos(xiPrime));
+  return {
+    lat: toDegrees(lat),
+    lon: normalizeLon(params.lon0 + toDegrees(dLon)),
+  };
+};
+
+/** Ellipsoidal Mercator (EPSG:3395 style). */
+export const mercatorForward = (point: GeoPoint, ellipsoid: Ellipsoid, params: MercatorParams): PlanarCoordinate => {
+  const e = Math.sqrt(2 * ellipsoid.f - ellipsoid.f * ellipsoid.f);
+  const lat = toRadians(point.lat);
+  const sinLat = Math.sin(lat);
+  return {
+    x: params.x0 + ellipsoid.a * params.k0 * toRadians(normalizeLon(point.lon - params.lon0)),
+    y: params.y0 + ellipsoid.a * params.k0 * (Math.atanh(sinLat) - e * Math.atanh(e * sinLat)),
+  };
+};
+
+export const mercatorInverse = (coordinate: PlanarCoordinate, ellipsoid: Ellipsoid, params: MercatorParams): GeoPoint => {
+  const e = Math.sqrt(2 * ellipsoid.f - ellipsoid.f * ellipsoid.f);
+  const t = Math.exp(-(coordinate.y - params.y0) / (ellipsoid.a * params.k0));
+  let lat = Math.PI / 2 - 2 * Math.atan(t);
+  for (let i = 0; i < 15; i += 1) {
+    const eSinLat = e * Math.sin(lat);
+    const next = Math.PI / 2 - 2 * Math.atan(t * Math.pow((1 - eSinLat) / (1 + eSinLat), e / 2));
+    if (Math.abs(next - lat) < 1e-12) {
+      lat = next;
+      break;
+    }
+    lat = next;
+  }
+  return {
+    lat: toDegrees(lat),
+    lon: normalizeLon(params.lon0 + toDegrees((coordinate.x - params.x0) / (ellipsoid.a * params.k0))),
+  };
+};
@@ -0,0 +1,22 @@
+export {
+  combineImportResults,
+  csvToImport,
+  detectImportConflicts,
+  detectImportFormat,
+  gpxToImport,
+  kmlToImport,
+  mergeImportIntoBundle,
+  parseImportFile,
+} from './model/importers';
+
+export type {
+  ImportConflict,
+  ImportConflictKind,
+  ImportConflictStrategy,
+  ImportCsvCoordinateOptions,
+  ImportedTrack,
+  ImportFileFormat,
+  ImportMergeOptions,
+  ImportMergeResult,
+  ImportResult,
+} from './model/types';
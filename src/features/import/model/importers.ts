@@ -0,0 +1,573 @@
+import { parseCoordinateInput } from '@/features/geo/coordinateInputFormat';
+import { convertPoint } from '@/features/geo/crs';
+import type {
+  MarkerFeature,
+  MissionBundle,
+  MissionTrackMeta,
+  RouteFeature,
+  RoutesFeature,
+  TrackPoint,
+} from '@/features/mission';
+import type {
+  ImportConflict,
+  ImportCsvCoordinateOptions,
+  ImportedTrack,
+  ImportFileFormat,
+  ImportMergeOptions,
+  ImportMergeResult,
+  ImportResult,
+} from './types';
+
+const DEFAULT_CSV_OPTIONS: ImportCsvCoordinateOptions = { crs: 'wgs84', format: 'dd' };
+const IMPORTED_TRACK_FILE_PREFIX = 'tracks/import-track-';
+
+const nowIso = (): string => new Date().toISOString();
+
+const createId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+const emptyResult = (): ImportResult => ({ routes: [], markers: [], tracks: [], warnings: [] });
+
+const isValidLatLon = (lat: number, lon: number): boolean =>
+  Number.isFinite(lat) && Number.isFinite(lon) && lat >= -90 && lat <= 90 && lon >= -180 && lon <= 180;
+
+const normalizeName = (value: string): string => value.trim().toLocaleLowerCase('ru-RU');
+
+const createRouteFeature = (name: string, points: Array<{ lat: number; lon: number }>, note: string | null): RouteFeature => {
+  const now = nowIso();
+  return {
+    type: 'Feature',
+    geometry: {
+      type: 'LineString',
+      coordinates: points.map((point) => [point.lon, point.lat]),
+    },
+    properties: {
+      id: createId(),
+      kind: 'route',
+      name,
+      note,
+      created_at: now,
+      updated_at: now,
+    },
+  };
+};
+
+const createMarkerFeature = (name: string, point: { lat: number; lon: number }, description: string): MarkerFeature => {
+  const now = nowIso();
+  return {
+    type: 'Feature',
+    geometry: {
+      type: 'Point',
+      coordinates: [point.lon, point.lat],
+    },
+    properties: {
+      id: createId(),
+      kind: 'marker',
+      name,
+      note: null,
+      description,
+      created_at: now,
+      updated_at: now,
+    },
+  };
+};
+
+export const detectImportFormat = (fileName: string): ImportFileFormat | null => {
+  const lower = fileName.trim().toLowerCase();
+  if (lower.endsWith('.gpx')) return 'gpx';
+  if (lower.endsWith('.kml')) return 'kml';
+  if (lower.endsWith('.csv')) return 'csv';
+  return null;
+};
+
+const parseXml = (text: string, label: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Файл ${label} повреждён или не является XML.`);
+  }
+  return doc;
+};
+
+const elementsByName = (root: Document | Element, name: string): Element[] =>
+  Array.from(root.getElementsByTagNameNS('*', name));
+
+const childElementsByName = (root: Element, name: string): Element[] =>
+  Array.from(root.children).filter((child) => child.localName === name);
+
+const childText = (root: Element, name: string): string =>
+  childElementsByName(root, name)[0]?.textContent?.trim() ?? '';
+
+const readGpxPoint = (element: Element): { lat: number; lon: number } | null => {
+  const lat = Number(element.getAttribute('lat'));
+  const lon = Number(element.getAttribute('lon'));
+  if (!isValidLatLon(lat, lon)) return null;
+  return { lat, lon };
+};
+
+const normalizeTimestamp = (raw: string): string | null => {
+  if (!raw) return null;
+  const parsed = Date.parse(raw);
+  if (!Number.isFinite(parsed)) return null;
+  return new Date(parsed).toISOString();
+};
+
+export const gpxToImport = (text: string): ImportResult => {
+  const doc = parseXml(text, 'GPX');
+  const result = emptyResult();
+
+  elementsByName(doc, 'wpt').forEach((wpt, index) => {
+    const point = readGpxPoint(wpt);
+    const name = childText(wpt, 'name') || `Маркер ${index + 1}`;
+    if (!point) {
+      result.warnings.push(`Точка «${name}» пропущена: некорректные координаты.`);
+      return;
+    }
+    result.markers.push(createMarkerFeature(name, point, childText(wpt, 'desc') || childText(wpt, 'cmt')));
+  });
+
+  elementsByName(doc, 'rte').forEach((rte, index) => {
+    const name = childText(rte, 'name') || `Маршрут ${index + 1}`;
+    const points = childElementsByName(rte, 'rtept')
+      .map(readGpxPoint)
+      .filter((point): point is { lat: number; lon: number } => point !== null);
+    if (points.length < 2) {
+      result.warnings.push(`Маршрут «${name}» пропущен: меньше двух точек.`);
+      return;
+    }
+    result.routes.push(createRouteFeature(name, points, childText(rte, 'desc') || null));
+  });
+
+  elementsByName(doc, 'trk').forEach((trk, index) => {
+    const name = childText(trk, 'name') || `Трек ${index + 1}`;
+    const points: TrackPoint[] = [];
+    const untimed: Array<{ lat: number; lon: number }> = [];
+    childElementsByName(trk, 'trkseg').forEach((segment, segmentIndex) => {
+      for (const trkpt of childElementsByName(segment, 'trkpt')) {
+        const point = readGpxPoint(trkpt);
+        if (!point) continue;
+        const timestamp = normalizeTimestamp(childText(trkpt, 'time'));
+        if (!timestamp) {
+          untimed.push(point);
+          continue;
+        }
+        points.push({ timestamp, lat: point.lat, lon: point.lon, segment_id: segmentIndex + 1 });
+      }
+    });
+
+    if (points.length === 0 && untimed.length >= 2) {
+      result.routes.push(createRouteFeature(name, untimed, null));
+      result.warnings.push(`Трек «${name}» без меток времени импортирован как маршрут.`);
+      return;
+    }
+    if (points.length === 0) {
+      result.warnings.push(`Трек «${name}» пропущен: нет точек.`);
+      return;
+    }
+    if (untimed.length > 0) {
+      result.warnings.push(`Трек «${name}»: пропущено точек без времени: ${untimed.length}.`);
+    }
+    result.tracks.push({ name, points });
+  });
+
+  return result;
+};
+
+const parseKmlCoordinates = (raw: string): Array<{ lat: number; lon: number }> =>
+  raw
+    .trim()
+    .split(/\s+/)
+    .map((tuple) => tuple.split(',').map((value) => Number(value)))
+    .filter(([lon, lat]) => isValidLatLon(lat, lon))
+    .map(([lon, lat]) => ({ lat, lon }));
+
+export const kmlToImport = (text: string): ImportResult => {
+  const doc = parseXml(text, 'KML');
+  const result = emptyResult();
+
+  elementsByName(doc, 'Placemark').forEach((placemark, index) => {
+    const name = childText(placemark, 'name') || `Объект ${index + 1}`;
+    const description = childText(placemark, 'description');
+
+    for (const pointElement of elementsByName(placemark, 'Point')) {
+      const [point] = parseKmlCoordinates(childText(pointElement, 'coordinates'));
+      if (!point) {
+        result.warnings.push(`Точка «${name}» пропущена: некорректные координаты.`);
+        continue;
+      }
+      result.markers.push(createMarkerFeature(name, point, description));
+    }
+
+    for (const line of elementsByName(placemark, 'LineString')) {
+      const points = parseKmlCoordinates(childText(line, 'coordinates'));
+      if (points.length < 2) {
+        result.warnings.push(`Линия «${name}» пропущена: меньше двух точек.`);
+        continue;
+      }
+      result.routes.push(createRouteFeature(name, points, description || null));
+    }
+
+    for (const track of elementsByName(placemark, 'Track')) {
+      const whens = childElementsByName(track, 'when').map((item) => normalizeTimestamp(item.textContent?.trim() ?? ''));
+      const coords = childElementsByName(track, 'coord').map((item) => {
+        const [lon, lat] = (item.textContent ?? '').trim().split(/\s+/).map((value) => Number(value));
+        return isValidLatLon(lat, lon) ? { lat, lon } : null;
+      });
+      const points: TrackPoint[] = [];
+      coords.forEach((point, pointIndex) => {
+        const timestamp = whens[pointIndex];
+        if (!point || !timestamp) return;
+        points.push({ timestamp, lat: point.lat, lon: point.lon, segment_id: 1 });
+      });
+      if (points.length === 0) {
+        result.warnings.push(`Трек «${name}» пропущен: нет точек с временем.`);
+        continue;
+      }
+      result.tracks.push({ name, points });
+    }
+
+    if (elementsByName(placemark, 'Polygon').length > 0) {
+      result.warnings.push(`Полигон «${name}» пропущен: импорт зон не поддерживается.`);
+    }
+  });
+
+  return result;
+};
+
+const detectCsvDelimiter = (headerLine: string): ',' | ';' =>
+  headerLine.includes(';') && !headerLine.includes(',') ? ';' : ',';
+
+// Exporters quote fields with JSON.stringify, so both `\"` and RFC 4180 `""` escapes are accepted.
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i += 1) {
+    const ch = line[i];
+    if (inQuotes) {
+      if (ch === '\\' && (line[i + 1] === '"' || line[i + 1] === '\\')) {
+        current += line[i + 1];
+        i += 1;
+      } else if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i += 1;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        current += ch;
+      }
+      continue;
+    }
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+
+  fields.push(current);
+  return fields.map((field) => field.trim());
+};
+
+const parseCsvPoint = (
+  rawLat: string,
+  rawLon: string,
+  options: ImportCsvCoordinateOptions,
+): { lat: number; lon: number } | null => {
+  const lat = parseCoordinateInput(rawLat, options.format, 'lat');
+  const lon = parseCoordinateInput(rawLon, options.format, 'lon');
+  if (!lat.ok || !lon.ok) return null;
+  try {
+    return convertPoint({ lat: lat.value, lon: lon.value }, options.crs, 'wgs84');
+  } catch {
+    return null;
+  }
+};
+
+export const csvToImport = (text: string, coordinateOptions?: ImportCsvCoordinateOptions): ImportResult => {
+  const options = coordinateOptions ?? DEFAULT_CSV_OPTIONS;
+  const result = emptyResult();
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headerLine = lines[0] ?? '';
+  const delimiter = detectCsvDelimiter(headerLine);
+  const headers = splitCsvLine(headerLine, delimiter).map((header) => header.toLowerCase());
+  const column = (name: string): number => headers.indexOf(name);
+
+  const latIndex = column('lat');
+  const lonIndex = column('lon');
+  if (latIndex < 0 || lonIndex < 0) {
+    throw new Error('В CSV не найдены столбцы lat и lon.');
+  }
+
+  const rows: Array<{ line: number; fields: string[]; point: { lat: number; lon: number } }> = [];
+  lines.slice(1).forEach((line, index) => {
+    if (line.trim().length === 0) return;
+    const fields = splitCsvLine(line, delimiter);
+    const point = parseCsvPoint(fields[latIndex] ?? '', fields[lonIndex] ?? '', options);
+    if (!point) {
+      result.warnings.push(`Строка ${index + 2}: некорректные координаты.`);
+      return;
+    }
+    rows.push({ line: index + 2, fields, point });
+  });
+
+  const field = (fields: string[], name: string): string => {
+    const index = column(name);
+    return index >= 0 ? fields[index] ?? '' : '';
+  };
+
+  if (column('track_id') >= 0 && column('timestamp') >= 0) {
+    const tracksById = new Map<string, ImportedTrack>();
+    for (const row of rows) {
+      const timestamp = normalizeTimestamp(field(row.fields, 'timestamp'));
+      if (!timestamp) {
+        result.warnings.push(`Строка ${row.line}: некорректное время.`);
+        continue;
+      }
+      const trackId = field(row.fields, 'track_id');
+      let track = tracksById.get(trackId);
+      if (!track) {
+        track = { name: field(row.fields, 'track_name') || `Трек ${tracksById.size + 1}`, points: [] };
+        tracksById.set(trackId, track);
+      }
+      const segmentId = Number.parseInt(field(row.fields, 'segment_id'), 10);
+      track.points.push({
+        timestamp,
+        lat: row.point.lat,
+        lon: row.point.lon,
+        segment_id: Number.isInteger(segmentId) && segmentId > 0 ? segmentId : 1,
+      });
+    }
+    result.tracks.push(...tracksById.values());
+    return result;
+  }
+
+  if (column('object_id') >= 0) {
+    const routesById = new Map<string, { name: string; type: string; points: Array<{ index: number; lat: number; lon: number }> }>();
+    for (const row of rows) {
+      const objectId = field(row.fields, 'object_id');
+      let route = routesById.get(objectId);
+      if (!route) {
+        route = {
+          name: field(row.fields, 'object_name') || `Маршрут ${routesById.size + 1}`,
+          type: field(row.fields, 'object_type') || 'route',
+          points: [],
+        };
+        routesById.set(objectId, route);
+      }
+      const pointIndex = Number.parseInt(field(row.fields, 'point_index'), 10);
+      route.points.push({ index: Number.isFinite(pointIndex) ? pointIndex : route.points.length + 1, ...row.point });
+    }
+
+    let skippedNonRoutes = 0;
+    for (const route of routesById.values()) {
+      if (route.type !== 'route') {
+        skippedNonRoutes += 1;
+        continue;
+      }
+      const points = [...route.points].sort((a, b) => a.index - b.index);
+      if (points.length < 2) {
+        result.warnings.push(`Маршрут «${route.name}» пропущен: меньше двух точек.`);
+        continue;
+      }
+      result.routes.push(createRouteFeature(route.name, points, null));
+    }
+    if (skippedNonRoutes > 0) {
+      result.warnings.push(`Пропущено зон и галсов: ${skippedNonRoutes}. Импортируются только маршруты.`);
+    }
+    return result;
+  }
+
+  rows.forEach((row, index) => {
+    const name = field(row.fields, 'name') || `Маркер ${index + 1}`;
+    result.markers.push(createMarkerFeature(name, row.point, field(row.fields, 'description')));
+  });
+  return result;
+};
+
+export const parseImportFile = (
+  fileName: string,
+  text: string,
+  coordinateOptions?: ImportCsvCoordinateOptions,
+): ImportResult => {
+  const format = detectImportFormat(fileName);
+  if (format === 'gpx') return gpxToImport(text);
+  if (format === 'kml') return kmlToImport(text);
+  if (format === 'csv') return csvToImport(text, coordinateOptions);
+  throw new Error(`Неподдерживаемый формат файла: ${fileName}`);
+};
+
+export const combineImportResults = (results: ImportResult[]): ImportResult => ({
+  routes: results.flatMap((item) => item.routes),
+  markers: results.flatMap((item) => item.markers),
+  tracks: results.flatMap((item) => item.tracks),
+  warnings: results.flatMap((item) => item.warnings),
+});
+
+const collectExistingNames = (bundle: MissionBundle) => {
+  const routes = new Map<string, string>();
+  for (const feature of bundle.routes.features) {
+    if (feature.properties.kind !== 'route') continue;
+    routes.set(normalizeName(feature.properties.name), feature.properties.id);
+  }
+  const markers = new Map<string, string>();
+  for (const feature of bundle.markers.features) {
+    markers.set(normalizeName(feature.properties.name), feature.properties.id);
+  }
+  const tracks = new Map<string, string>();
+  for (const track of bundle.mission.tracks) {
+    if (track.note) tracks.set(normalizeName(track.note), track.id);
+  }
+  return { routes, markers, tracks };
+};
+
+export const detectImportConflicts = (bundle: MissionBundle, result: ImportResult): ImportConflict[] => {
+  const existing = collectExistingNames(bundle);
+  const conflicts: ImportConflict[] = [];
+  for (const route of result.routes) {
+    const existingId = existing.routes.get(normalizeName(route.properties.name));
+    if (existingId) conflicts.push({ kind: 'route', name: route.properties.name, existingId });
+  }
+  for (const marker of result.markers) {
+    const existingId = existing.markers.get(normalizeName(marker.properties.name));
+    if (existingId) conflicts.push({ kind: 'marker', name: marker.properties.name, existingId });
+  }
+  for (const track of result.tracks) {
+    const existingId = existing.tracks.get(normalizeName(track.name));
+    if (existingId) conflicts.push({ kind: 'track', name: track.name, existingId });
+  }
+  return conflicts;
+};
+
+const makeUniqueName = (name: string, taken: Map<string, string>): string => {
+  let index = 2;
+  let candidate = `${name} (${index})`;
+  while (taken.has(normalizeName(candidate))) {
+    index += 1;
+    candidate = `${name} (${index})`;
+  }
+  return candidate;
+};
+
+const nextImportedTrackFile = (tracks: MissionTrackMeta[]): string => {
+  const taken = new Set(tracks.map((track) => track.file));
+  let index = tracks.filter((track) => track.file.startsWith(IMPORTED_TRACK_FILE_PREFIX)).length + 1;
+  let file = `${IMPORTED_TRACK_FILE_PREFIX}${String(index).padStart(4, '0')}.csv`;
+  while (taken.has(file)) {
+    index += 1;
+    file = `${IMPORTED_TRACK_FILE_PREFIX}${String(index).padStart(4, '0')}.csv`;
+  }
+  return file;
+};
+
+export const mergeImportIntoBundle = (
+  bundle: MissionBundle,
+  result: ImportResult,
+  options: ImportMergeOptions,
+): ImportMergeResult => {
+  const existing = collectExistingNames(bundle);
+  const importedObjectIds: string[] = [];
+  const importedTrackIds: string[] = [];
+  let skippedCount = 0;
+
+  let routeFeatures: RoutesFeature[] = [...bundle.routes.features];
+  for (const route of result.routes) {
+    const key = normalizeName(route.properties.name);
+    const existingId = existing.routes.get(key);
+    let next = route;
+    if (existingId) {
+      if (options.strategy === 'skip') {
+        skippedCount += 1;
+        continue;
+      }
+      if (options.strategy === 'replace') {
+        routeFeatures = routeFeatures.filter((feature) => feature.properties.id !== existingId);
+        next = { ...route, properties: { ...route.properties, id: existingId } };
+      } else {
+        next = { ...route, properties: { ...route.properties, name: makeUniqueName(route.properties.name, existing.routes) } };
+      }
+    }
+    existing.routes.set(normalizeName(next.properties.name), next.properties.id);
+    routeFeatures.push(next);
+    importedObjectIds.push(next.properties.id);
+  }
+
+  let markerFeatures: MarkerFeature[] = [...bundle.markers.features];
+  for (const marker of result.markers) {
+    const key = normalizeName(marker.properties.name);
+    const existingId = existing.markers.get(key);
+    let next = marker;
+    if (existingId) {
+      if (options.strategy === 'skip') {
+        skippedCount += 1;
+        continue;
+      }
+      if (options.strategy === 'replace') {
+        markerFeatures = markerFeatures.filter((feature) => feature.properties.id !== existingId);
+        next = { ...marker, properties: { ...marker.properties, id: existingId } };
+      } else {
+        next = { ...marker, properties: { ...marker.properties, name: makeUniqueName(marker.properties.name, existing.markers) } };
+      }
+    }
+    existing.markers.set(normalizeName(next.properties.name), next.properties.id);
+    markerFeatures.push(next);
+    importedObjectIds.push(next.properties.id);
+  }
+
+  let tracks: MissionTrackMeta[] = [...bundle.mission.tracks];
+  const trackPointsByTrackId: Record<string, TrackPoint[]> = { ...bundle.trackPointsByTrackId };
+  const activeTrackIds = new Set(Object.values(bundle.mission.active_tracks));
+  for (const track of result.tracks) {
+    const existingId = existing.tracks.get(normalizeName(track.name));
+    let name = track.name;
+    let replaced: MissionTrackMeta | undefined;
+    if (existingId) {
+      // Active tracks are owned by the recorder and are never overwritten by import.
+      if (options.strategy === 'skip' || (options.strategy === 'replace' && activeTrackIds.has(existingId))) {
+        skippedCount += 1;
+        continue;
+      }
+      if (options.strategy === 'replace') {
+        replaced = tracks.find((item) => item.id === existingId);
+        tracks = tracks.filter((item) => item.id !== existingId);
+      } else {
+        name = makeUniqueName(track.name, existing.tracks);
+      }
+    }
+
+    const points = [...track.points].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    const meta: MissionTrackMeta = {
+      id: replaced?.id ?? createId(),
+      agent_id: null,
+      ...(options.trackColor || replaced?.color ? { color: replaced?.color ?? options.trackColor } : {}),
+      file: replaced?.file ?? nextImportedTrackFile(tracks),
+      started_at: points[0].timestamp,
+      ended_at: points[points.length - 1].timestamp,
+      note: name,
+    };
+    existing.tracks.set(normalizeName(name), meta.id);
+    tracks.push(meta);
+    trackPointsByTrackId[meta.id] = points;
+    importedTrackIds.push(meta.id);
+  }
+
+  return {
+    bundle: {
+      ...bundle,
+      mission: { ...bundle.mission, tracks },
+      routes: { ...bundle.routes, features: routeFeatures },
+      markers: { ...bundle.markers, features: markerFeatures },
+      trackPointsByTrackId,
+    },
+    importedObjectIds,
+    importedTrackIds,
+    skippedCount,
+  };
+};
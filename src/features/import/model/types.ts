@@ -0,0 +1,44 @@
+import type { CoordinateInputFormat } from '@/features/geo/coordinateInputFormat';
+import type { CrsId } from '@/features/geo/crs';
+import type { MarkerFeature, MissionBundle, RouteFeature, TrackPoint } from '@/features/mission';
+
+export type ImportFileFormat = 'gpx' | 'kml' | 'csv';
+
+export type ImportCsvCoordinateOptions = {
+  crs: CrsId;
+  format: CoordinateInputFormat;
+};
+
+export type ImportedTrack = {
+  name: string;
+  points: TrackPoint[];
+};
+
+export type ImportResult = {
+  routes: RouteFeature[];
+  markers: MarkerFeature[];
+  tracks: ImportedTrack[];
+  warnings: string[];
+};
+
+export type ImportConflictKind = 'route' | 'marker' | 'track';
+
+export type ImportConflict = {
+  kind: ImportConflictKind;
+  name: string;
+  existingId: string;
+};
+
+export type ImportConflictStrategy = 'rename' | 'replace' | 'skip';
+
+export type ImportMergeOptions = {
+  strategy: ImportConflictStrategy;
+  trackColor?: string;
+};
+
+export type ImportMergeResult = {
+  bundle: MissionBundle;
+  importedObjectIds: string[];
+  importedTrackIds: string[];
+  skippedCount: number;
+};
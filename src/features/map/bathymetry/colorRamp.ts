@@ -0,0 +1,47 @@
+import type { BathymetryGrid } from './grid';
+
+type RampStop = { at: number; rgb: [number, number, number] };
+
+/** Shallow water is light, deep water dark, as on paper charts. */
+const DEPTH_RAMP: RampStop[] = [
+  { at: 0, rgb: [204, 244, 250] },
+  { at: 0.25, rgb: [125, 211, 232] },
+  { at: 0.5, rgb: [56, 152, 207] },
+  { at: 0.75, rgb: [30, 86, 160] },
+  { at: 1, rgb: [14, 36, 92] },
+];
+
+export const depthToRgb = (depth: number, minDepth: number, maxDepth: number): [number, number, number] => {
+  const span = maxDepth - minDepth;
+  const t = span > 0 ? Math.min(1, Math.max(0, (depth - minDepth) / span)) : 0;
+  let upper = 1;
+  while (upper < DEPTH_RAMP.length - 1 && DEPTH_RAMP[upper].at < t) upper += 1;
+  const from = DEPTH_RAMP[upper - 1];
+  const to = DEPTH_RAMP[upper];
+  const k = (t - from.at) / (to.at - from.at);
+  return [
+    Math.round(from.rgb[0] + (to.rgb[0] - from.rgb[0]) * k),
+    Math.round(from.rgb[1] + (to.rgb[1] - from.rgb[1]) * k),
+    Math.round(from.rgb[2] + (to.rgb[2] - from.rgb[2]) * k),
+  ];
+};
+
+/** CSS gradient of the ramp for the legend, shallow on top. */
+export const DEPTH_RAMP_CSS_GRADIENT = `linear-gradient(to bottom, ${DEPTH_RAMP.map(
+  (stop) => `rgb(${stop.rgb.join(', ')}) ${stop.at * 100}%`,
+).join(', ')})`;
+
+/** RGBA pixels of the grid, one pixel per cell; cells without data are transparent. */
+export const renderBathymetryRgba = (grid: BathymetryGrid): Uint8ClampedArray<ArrayBuffer> => {
+  const pixels = new Uint8ClampedArray(grid.cols * grid.rows * 4);
+  for (let i = 0; i < grid.values.length; i += 1) {
+    const value = grid.values[i];
+    if (Number.isNaN(value)) continue;
+    const [r, g, b] = depthToRgb(value, grid.minDepth, grid.maxDepth);
+    pixels[i * 4] = r;
+    pixels[i * 4 + 1] = g;
+    pixels[i * 4 + 2] = b;
+    pixels[i * 4 + 3] = 255;
+  }
+  return pixels;
+};
@@ -0,0 +1,193 @@
+import type { DxfOverlayFeatureCollection, DxfOverlayGeometry } from '@/features/map/dxfOverlay/parseDxf';
+import { gridNodePosition, type BathymetryGrid } from './grid';
+
+const MAX_CONTOUR_LEVELS = 500;
+const CONTOUR_COLOR = '#1e3a8a';
+
+type LatLon = { lat: number; lon: number };
+
+export type DepthContour = {
+  depth: number;
+  points: LatLon[];
+};
+
+/** Cell edges: top, right, bottom, left. */
+type Edge = 0 | 1 | 2 | 3;
+
+/**
+ * Segments per marching-squares case; the case index has bits tl=8, tr=4, br=2, bl=1 set for
+ * corners at or below the contour depth. Saddles (5, 10) are resolved by the cell centre below.
+ */
+const CASE_SEGMENTS: Record<number, Array<[Edge, Edge]>> = {
+  1: [[3, 2]],
+  2: [[2, 1]],
+  3: [[3, 1]],
+  4: [[0, 1]],
+  6: [[0, 2]],
+  7: [[0, 3]],
+  8: [[0, 3]],
+  9: [[0, 2]],
+  11: [[0, 1]],
+  12: [[3, 1]],
+  13: [[2, 1]],
+  14: [[3, 2]],
+};
+
+const formatContourDepth = (depth: number): string => String(Math.round(depth * 100) / 100);
+
+const contourLevels = (grid: BathymetryGrid, interval: number): number[] => {
+  if (!(interval > 0)) {
+    throw new Error('Шаг изобат должен быть больше нуля.');
+  }
+  const first = Math.ceil(grid.minDepth / interval);
+  const last = Math.floor(grid.maxDepth / interval);
+  if (last - first + 1 > MAX_CONTOUR_LEVELS) {
+    throw new Error(`Слишком мелкий шаг изобат: получится больше ${MAX_CONTOUR_LEVELS} уровней.`);
+  }
+  const levels: number[] = [];
+  for (let step = first; step <= last; step += 1) {
+    levels.push(Math.round(step * interval * 1e6) / 1e6);
+  }
+  return levels;
+};
+
+/** Traces isobaths through the grid nodes at every multiple of `interval`; cells touching no data are skipped. */
+export const generateDepthContours = (grid: BathymetryGrid, interval: number): DepthContour[] => {
+  const contours: DepthContour[] = [];
+  const value = (row: number, col: number) => grid.values[row * grid.cols + col];
+
+  for (const level of contourLevels(grid, interval)) {
+    const points = new Map<string, LatLon>();
+    const links = new Map<string, string[]>();
+
+    const edgePoint = (row: number, col: number, edge: Edge): string => {
+      // Edges are keyed by their first node so that neighbouring cells share the key.
+      const [r0, c0, r1, c1] =
+        edge === 0
+          ? [row, col, row, col + 1]
+          : edge === 1
+            ? [row, col + 1, row + 1, col + 1]
+            : edge === 2
+              ? [row + 1, col, row + 1, col + 1]
+              : [row, col, row + 1, col];
+      const key = `${r0 === r1 ? 'h' : 'v'}:${r0}:${c0}`;
+      if (!points.has(key)) {
+        const v0 = value(r0, c0);
+        const v1 = value(r1, c1);
+        const t = v1 === v0 ? 0.5 : (level - v0) / (v1 - v0);
+        const a = gridNodePosition(grid, r0, c0);
+        const b = gridNodePosition(grid, r1, c1);
+        points.set(key, { lat: a.lat + (b.lat - a.lat) * t, lon: a.lon + (b.lon - a.lon) * t });
+      }
+      return key;
+    };
+    const link = (from: string, to: string) => {
+      links.set(from, [...(links.get(from) ?? []), to]);
+      links.set(to, [...(links.get(to) ?? []), from]);
+    };
+
+    for (let row = 0; row + 1 < grid.rows; row += 1) {
+      for (let col = 0; col + 1 < grid.cols; col += 1) {
+        const tl = value(row, col);
+        const tr = value(row, col + 1);
+        const br = value(row + 1, col + 1);
+        const bl = value(row + 1, col);
+        if (Number.isNaN(tl) || Number.isNaN(tr) || Number.isNaN(br) || Number.isNaN(bl)) continue;
+        const index = (tl >= level ? 8 : 0) | (tr >= level ? 4 : 0) | (br >= level ? 2 : 0) | (bl >= level ? 1 : 0);
+        let segments = CASE_SEGMENTS[index];
+        if (index === 5 || index === 10) {
+          const centerDeep = (tl + tr + br + bl) / 4 >= level;
+          // A deep centre joins the deep corners, so the lines cut off the shallow ones, and vice versa.
+          const cutsTopLeft = (index === 5) === centerDeep;
+          segments = cutsTopLeft
+            ? [
+                [0, 3],
+                [2, 1],
+              ]
+            : [
+                [0, 1],
+                [3, 2],
+              ];
+        }
+        for (const [from, to] of segments ?? []) {
+          link(edgePoint(row, col, from), edgePoint(row, col, to));
+        }
+      }
+    }
+
+    const visit = (start: string): LatLon[] => {
+      const path = [start];
+      let previous: string | null = null;
+      let current = start;
+      for (;;) {
+        const next: string | undefined = (links.get(current) ?? []).find((candidate) => candidate !== previous);
+        links.delete(current);
+        if (!next) break;
+        path.push(next);
+        if (next === start || !links.has(next)) break;
+        previous = current;
+        current = next;
+      }
+      return path.map((key) => points.get(key) as LatLon);
+    };
+
+    // Open lines run from the grid border or a data hole; start there before walking the closed loops.
+    for (const [key, neighbours] of [...links]) {
+      if (neighbours.length === 1 && links.has(key)) contours.push({ depth: level, points: visit(key) });
+    }
+    for (const key of [...links.keys()]) {
+      if (links.has(key)) contours.push({ depth: level, points: visit(key) });
+    }
+  }
+
+  return contours.filter((contour) => contour.points.length >= 2);
+};
+
+/** GeoJSON saved as the source file of a contour overlay. */
+export const depthContoursToGeoJson = (contours: DepthContour[]): string =>
+  JSON.stringify({
+    type: 'FeatureCollection',
+    features: contours.map((contour) => ({
+      type: 'Feature',
+      properties: { depth: contour.depth },
+      geometry: { type: 'LineString', coordinates: contour.points.map((point) => [point.lon, point.lat]) },
+    })),
+  });
+
+/** Contour overlay features: one layer per depth, each line labelled in its middle. */
+export const parseDepthContourGeoJson = (text: string): DxfOverlayFeatureCollection => {
+  const raw = JSON.parse(text) as { type?: unknown; features?: unknown };
+  if (raw.type !== 'FeatureCollection' || !Array.isArray(raw.features)) {
+    throw new Error('Файл изобат повреждён.');
+  }
+
+  const features: DxfOverlayGeometry[] = [];
+  const depths = new Set<number>();
+  for (const item of raw.features as Array<{ properties?: { depth?: unknown }; geometry?: { coordinates?: unknown } }>) {
+    const depth = item.properties?.depth;
+    const coordinates = item.geometry?.coordinates;
+    if (typeof depth !== 'number' || !Array.isArray(coordinates)) continue;
+    const points = (coordinates as unknown[])
+      .filter((pair): pair is [number, number] => Array.isArray(pair) && pair.length >= 2)
+      .map(([lon, lat]) => ({ lat, lon }))
+      .filter((point) => Number.isFinite(point.lat) && Number.isFinite(point.lon));
+    if (points.length < 2) continue;
+    const layer = `${formatContourDepth(depth)} м`;
+    depths.add(depth);
+    features.push({ type: 'polyline', points, layer, color: null });
+    features.push({
+      type: 'point',
+      point: points[Math.floor(points.length / 2)],
+      label: { text: formatContourDepth(depth), height: 0, rotation_deg: 0 },
+      layer,
+      color: null,
+    });
+  }
+
+  return {
+    features,
+    layers: [...depths]
+      .sort((a, b) => a - b)
+      .map((depth) => ({ name: `${formatContourDepth(depth)} м`, color: CONTOUR_COLOR, visible: true })),
+  };
+};
@@ -0,0 +1,204 @@
+import { createCrsToWgs84Transformer, type CrsDefinition } from '@/features/geo/crsRegistry';
+import type { TrackPoint } from '@/features/mission/model/types';
+
+/** Sounding in WGS84; depth is in metres, positive down. */
+export type DepthPoint = {
+  lat: number;
+  lon: number;
+  depth: number;
+};
+
+/** Esri ASCII grid as stored in the file: rows run from the north edge, NaN marks NODATA cells. */
+export type EsriAsciiGrid = {
+  cols: number;
+  rows: number;
+  /** Lower-left corner of the lower-left cell, in grid CRS units. */
+  xllCorner: number;
+  yllCorner: number;
+  cellSizeX: number;
+  cellSizeY: number;
+  values: Float32Array;
+};
+
+const LON_ALIASES = ['lon', 'long', 'longitude', 'x', 'easting', 'e'];
+const LAT_ALIASES = ['lat', 'latitude', 'y', 'northing', 'n'];
+const DEPTH_ALIASES = ['depth', 'depth_m', 'z', 'elevation', 'elev', 'h', 'height', 'value'];
+
+const isCommentLine = (line: string): boolean => line.startsWith('#') || line.startsWith('//');
+
+const splitColumns = (line: string, delimiter: string): string[] =>
+  delimiter === ' ' ? line.split(/\s+/) : line.split(delimiter).map((part) => part.trim());
+
+const detectDelimiter = (line: string): string => {
+  if (line.includes(';')) return ';';
+  if (line.includes('\t')) return '\t';
+  if (line.includes(',')) return ',';
+  return ' ';
+};
+
+const parseNumber = (value: string | undefined, decimalComma: boolean): number => {
+  if (value === undefined || value === '') return Number.NaN;
+  return Number(decimalComma ? value.replace(',', '.') : value);
+};
+
+/**
+ * Soundings are positive down. Files that store mostly negative values carry elevations (z up), so
+ * the sign is flipped for the whole file rather than per point.
+ */
+const toDepthSign = (values: number[]): number => {
+  const negative = values.filter((value) => value < 0).length;
+  return negative > values.length / 2 ? -1 : 1;
+};
+
+const looksGeographic = (xs: number[], ys: number[]): boolean =>
+  xs.every((x) => Math.abs(x) <= 180) && ys.every((y) => Math.abs(y) <= 90);
+
+const toWgs84Points = (
+  xs: number[],
+  ys: number[],
+  depths: number[],
+  crs: CrsDefinition | null,
+): DepthPoint[] => {
+  if (!crs && !looksGeographic(xs, ys)) {
+    throw new Error('Координаты похожи на плоские (проекция): укажите систему координат файла.');
+  }
+  const transform = crs ? createCrsToWgs84Transformer(crs) : null;
+  const sign = toDepthSign(depths);
+  return xs.map((x, i) => {
+    const point = transform ? transform({ x, y: ys[i] }) : { lat: ys[i], lon: x };
+    return { lat: point.lat, lon: point.lon, depth: depths[i] * sign };
+  });
+};
+
+/**
+ * Reads an XYZ / CSV point cloud. Columns are found by header names (lon/lat/depth, x/y/z, …);
+ * files without a header are read as `X Y Z`. Without a CRS the coordinates must be lon/lat.
+ */
+export const parseXyzPoints = (text: string, crs: CrsDefinition | null = null): DepthPoint[] => {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !isCommentLine(line));
+  if (lines.length === 0) {
+    throw new Error('Файл XYZ пуст.');
+  }
+
+  const delimiter = detectDelimiter(lines[0]);
+  const decimalComma = delimiter === ';' || delimiter === '\t' || delimiter === ' ';
+  const firstRow = splitColumns(lines[0], delimiter);
+  const hasHeader = firstRow.some((cell) => !Number.isFinite(parseNumber(cell, decimalComma)));
+
+  let columns = { x: 0, y: 1, z: 2 };
+  if (hasHeader) {
+    const names = firstRow.map((cell) => cell.toLowerCase().replace(/^"|"$/g, ''));
+    const find = (aliases: string[]) => names.findIndex((name) => aliases.includes(name));
+    columns = { x: find(LON_ALIASES), y: find(LAT_ALIASES), z: find(DEPTH_ALIASES) };
+    if (columns.x < 0 || columns.y < 0 || columns.z < 0) {
+      throw new Error('Не найдены столбцы координат и глубины: ожидаются lon/lat/depth или x/y/z.');
+    }
+  }
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const depths: number[] = [];
+  for (const line of hasHeader ? lines.slice(1) : lines) {
+    const cells = splitColumns(line, delimiter);
+    const x = parseNumber(cells[columns.x], decimalComma);
+    const y = parseNumber(cells[columns.y], decimalComma);
+    const z = parseNumber(cells[columns.z], decimalComma);
+    if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) continue;
+    xs.push(x);
+    ys.push(y);
+    depths.push(z);
+  }
+  if (xs.length === 0) {
+    throw new Error('В файле не найдено ни одной точки X Y Z.');
+  }
+  return toWgs84Points(xs, ys, depths, crs);
+};
+
+export const parseEsriAsciiGrid = (text: string): EsriAsciiGrid => {
+  const tokens = text.trim().split(/\s+/);
+  const header = new Map<string, number>();
+  let cursor = 0;
+  while (cursor + 1 < tokens.length && /^[a-z_]+$/i.test(tokens[cursor])) {
+    header.set(tokens[cursor].toLowerCase(), Number(tokens[cursor + 1]));
+    cursor += 2;
+  }
+
+  const cols = header.get('ncols');
+  const rows = header.get('nrows');
+  const cellSizeX = header.get('cellsize') ?? header.get('dx');
+  const cellSizeY = header.get('cellsize') ?? header.get('dy');
+  const xll = header.get('xllcorner') ?? header.get('xllcenter');
+  const yll = header.get('yllcorner') ?? header.get('yllcenter');
+  if (
+    !Number.isInteger(cols) ||
+    !Number.isInteger(rows) ||
+    !cols ||
+    !rows ||
+    !cellSizeX ||
+    !cellSizeY ||
+    !(cellSizeX > 0) ||
+    !(cellSizeY > 0) ||
+    xll === undefined ||
+    yll === undefined ||
+    !Number.isFinite(xll) ||
+    !Number.isFinite(yll)
+  ) {
+    throw new Error('Файл не является сеткой Esri ASCII: нет ncols/nrows/xllcorner/yllcorner/cellsize.');
+  }
+  if (tokens.length - cursor < cols * rows) {
+    throw new Error('Сетка Esri ASCII обрезана: значений меньше, чем ncols × nrows.');
+  }
+
+  const noData = header.get('nodata_value');
+  const values = new Float32Array(cols * rows);
+  for (let i = 0; i < values.length; i += 1) {
+    const value = Number(tokens[cursor + i]);
+    values[i] = Number.isFinite(value) && value !== noData ? value : Number.NaN;
+  }
+
+  // *center headers give the centre of the lower-left cell.
+  return {
+    cols,
+    rows,
+    xllCorner: header.has('xllcenter') ? xll - cellSizeX / 2 : xll,
+    yllCorner: header.has('yllcenter') ? yll - cellSizeY / 2 : yll,
+    cellSizeX,
+    cellSizeY,
+    values,
+  };
+};
+
+/** Cell centres of an ASCII grid as soundings; they are regridded like any other point cloud. */
+export const asciiGridToDepthPoints = (grid: EsriAsciiGrid, crs: CrsDefinition | null): DepthPoint[] => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const depths: number[] = [];
+  for (let row = 0; row < grid.rows; row += 1) {
+    for (let col = 0; col < grid.cols; col += 1) {
+      const value = grid.values[row * grid.cols + col];
+      if (Number.isNaN(value)) continue;
+      xs.push(grid.xllCorner + (col + 0.5) * grid.cellSizeX);
+      ys.push(grid.yllCorner + (grid.rows - row - 0.5) * grid.cellSizeY);
+      depths.push(value);
+    }
+  }
+  if (xs.length === 0) {
+    throw new Error('Сетка Esri ASCII не содержит значений глубины.');
+  }
+  return toWgs84Points(xs, ys, depths, crs);
+};
+
+/** Track fixes that recorded a depth; the agent depth is taken as the sounding at that position. */
+export const trackPointsToDepthPoints = (points: TrackPoint[]): DepthPoint[] =>
+  points
+    .filter(
+      (point) =>
+        typeof point.depth_m === 'number' &&
+        Number.isFinite(point.depth_m) &&
+        Number.isFinite(point.lat) &&
+        Number.isFinite(point.lon),
+    )
+    .map((point) => ({ lat: point.lat, lon: point.lon, depth: point.depth_m as number }));
@@ -0,0 +1,228 @@
+import { arrayBufferToBase64, base64ToUint8Array } from '@/features/map/rasterOverlays/base64';
+import type { DepthPoint } from './depthPoints';
+
+const METERS_PER_DEGREE_LAT = 111_320;
+const MAX_GRID_CELLS = 4_000_000;
+const GRID_FILE_SCHEMA_VERSION = 1;
+
+export type BathymetryGridMethod = 'idw' | 'nearest';
+
+export type BathymetryBounds = {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+};
+
+/** Regular lat/lon depth grid; values run row by row from the north-west cell, NaN is no data. */
+export type BathymetryGrid = {
+  bounds: BathymetryBounds;
+  cols: number;
+  rows: number;
+  values: Float32Array;
+  minDepth: number;
+  maxDepth: number;
+};
+
+export type GriddingOptions = {
+  method: BathymetryGridMethod;
+  cellSizeM: number;
+  /** Cells farther than this from every sounding stay empty. */
+  searchRadiusM: number;
+  /** IDW distance exponent. */
+  power?: number;
+};
+
+const depthRange = (values: Float32Array): { minDepth: number; maxDepth: number } => {
+  let minDepth = Infinity;
+  let maxDepth = -Infinity;
+  for (const value of values) {
+    if (Number.isNaN(value)) continue;
+    minDepth = Math.min(minDepth, value);
+    maxDepth = Math.max(maxDepth, value);
+  }
+  return Number.isFinite(minDepth) ? { minDepth, maxDepth } : { minDepth: 0, maxDepth: 0 };
+};
+
+const cellSizeDeg = (grid: Pick<BathymetryGrid, 'bounds' | 'cols' | 'rows'>) => ({
+  lat: (grid.bounds.north - grid.bounds.south) / grid.rows,
+  lon: (grid.bounds.east - grid.bounds.west) / grid.cols,
+});
+
+/**
+ * Interpolates scattered soundings onto a regular grid. Distances are measured in a local
+ * equirectangular frame, which is accurate enough for survey-sized areas.
+ */
+export const gridDepthPoints = (points: DepthPoint[], options: GriddingOptions): BathymetryGrid => {
+  if (points.length === 0) {
+    throw new Error('Нет точек для построения сетки глубин.');
+  }
+  if (!(options.cellSizeM > 0) || !(options.searchRadiusM > 0)) {
+    throw new Error('Размер ячейки и радиус поиска должны быть больше нуля.');
+  }
+
+  let north = -Infinity;
+  let south = Infinity;
+  let east = -Infinity;
+  let west = Infinity;
+  for (const point of points) {
+    north = Math.max(north, point.lat);
+    south = Math.min(south, point.lat);
+    east = Math.max(east, point.lon);
+    west = Math.min(west, point.lon);
+  }
+
+  const metersPerDegreeLon = METERS_PER_DEGREE_LAT * Math.cos((((north + south) / 2) * Math.PI) / 180);
+  const widthM = (east - west) * metersPerDegreeLon;
+  const heightM = (north - south) * METERS_PER_DEGREE_LAT;
+  // The epsilon keeps an extent that is a whole number of cells from gaining a row to rounding noise.
+  const cols = Math.max(1, Math.ceil(widthM / options.cellSizeM - 1e-6));
+  const rows = Math.max(1, Math.ceil(heightM / options.cellSizeM - 1e-6));
+  if (cols * rows > MAX_GRID_CELLS) {
+    throw new Error(
+      `Сетка ${cols} × ${rows} слишком велика: увеличьте размер ячейки (сейчас ${options.cellSizeM} м).`,
+    );
+  }
+
+  // The grid is centred on the soundings and covers them with whole cells.
+  const cellLat = options.cellSizeM / METERS_PER_DEGREE_LAT;
+  const cellLon = options.cellSizeM / metersPerDegreeLon;
+  const centerLat = (north + south) / 2;
+  const centerLon = (east + west) / 2;
+  const bounds = {
+    north: centerLat + (rows * cellLat) / 2,
+    south: centerLat - (rows * cellLat) / 2,
+    east: centerLon + (cols * cellLon) / 2,
+    west: centerLon - (cols * cellLon) / 2,
+  };
+
+  // Bucket the soundings by search radius so each cell only looks at its neighbourhood.
+  const bucketSize = options.searchRadiusM;
+  const bucketCols = Math.ceil((cols * options.cellSizeM) / bucketSize) + 3;
+  const bucketKey = (bx: number, by: number) => (by + 1) * bucketCols + bx + 1;
+  const buckets = new Map<number, Array<{ x: number; y: number; depth: number }>>();
+  for (const point of points) {
+    const x = (point.lon - bounds.west) * metersPerDegreeLon;
+    const y = (bounds.north - point.lat) * METERS_PER_DEGREE_LAT;
+    const key = bucketKey(Math.floor(x / bucketSize), Math.floor(y / bucketSize));
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push({ x, y, depth: point.depth });
+    else buckets.set(key, [{ x, y, depth: point.depth }]);
+  }
+
+  const power = options.power ?? 2;
+  const radiusSq = options.searchRadiusM ** 2;
+  const values = new Float32Array(cols * rows);
+  for (let row = 0; row < rows; row += 1) {
+    const y = (row + 0.5) * options.cellSizeM;
+    const by = Math.floor(y / bucketSize);
+    for (let col = 0; col < cols; col += 1) {
+      const x = (col + 0.5) * options.cellSizeM;
+      const bx = Math.floor(x / bucketSize);
+      let weightSum = 0;
+      let weighted = 0;
+      let nearestSq = Infinity;
+      let nearestDepth = Number.NaN;
+      let exact = Number.NaN;
+      for (let dy = -1; dy <= 1; dy += 1) {
+        for (let dx = -1; dx <= 1; dx += 1) {
+          for (const sample of buckets.get(bucketKey(bx + dx, by + dy)) ?? []) {
+            const distSq = (sample.x - x) ** 2 + (sample.y - y) ** 2;
+            if (distSq > radiusSq) continue;
+            if (distSq < 1e-6) exact = sample.depth;
+            if (distSq < nearestSq) {
+              nearestSq = distSq;
+              nearestDepth = sample.depth;
+            }
+            const weight = 1 / distSq ** (power / 2);
+            weightSum += weight;
+            weighted += weight * sample.depth;
+          }
+        }
+      }
+      values[row * cols + col] =
+        options.method === 'nearest'
+          ? nearestDepth
+          : !Number.isNaN(exact)
+            ? exact
+            : weightSum > 0
+              ? weighted / weightSum
+              : Number.NaN;
+    }
+  }
+
+  return { bounds, cols, rows, values, ...depthRange(values) };
+};
+
+/** Bilinear depth at a position, ignoring empty neighbours; null outside the grid or over no data. */
+export const sampleBathymetryGrid = (grid: BathymetryGrid, lat: number, lon: number): number | null => {
+  const { bounds } = grid;
+  if (lat > bounds.north || lat < bounds.south || lon < bounds.west || lon > bounds.east) return null;
+  const cell = cellSizeDeg(grid);
+  const fx = Math.min(grid.cols - 1, Math.max(0, (lon - bounds.west) / cell.lon - 0.5));
+  const fy = Math.min(grid.rows - 1, Math.max(0, (bounds.north - lat) / cell.lat - 0.5));
+  const col0 = Math.floor(fx);
+  const row0 = Math.floor(fy);
+  const tx = fx - col0;
+  const ty = fy - row0;
+
+  let weightSum = 0;
+  let weighted = 0;
+  for (const [row, col, weight] of [
+    [row0, col0, (1 - tx) * (1 - ty)],
+    [row0, col0 + 1, tx * (1 - ty)],
+    [row0 + 1, col0, (1 - tx) * ty],
+    [row0 + 1, col0 + 1, tx * ty],
+  ]) {
+    if (row >= grid.rows || col >= grid.cols || weight <= 0) continue;
+    const value = grid.values[row * grid.cols + col];
+    if (Number.isNaN(value)) continue;
+    weightSum += weight;
+    weighted += weight * value;
+  }
+  // A cell-sized hole in the data must read as no data, not as the nearest neighbour.
+  return weightSum >= 0.25 ? weighted / weightSum : null;
+};
+
+/** Centre of the grid node at (row, col). */
+export const gridNodePosition = (grid: BathymetryGrid, row: number, col: number): { lat: number; lon: number } => {
+  const cell = cellSizeDeg(grid);
+  return {
+    lat: grid.bounds.north - (row + 0.5) * cell.lat,
+    lon: grid.bounds.west + (col + 0.5) * cell.lon,
+  };
+};
+
+export const serializeBathymetryGrid = (grid: BathymetryGrid): string =>
+  JSON.stringify({
+    schema_version: GRID_FILE_SCHEMA_VERSION,
+    bounds: grid.bounds,
+    cols: grid.cols,
+    rows: grid.rows,
+    // Float32 little-endian, as laid out in memory on every platform the app runs on.
+    values_base64: arrayBufferToBase64(new Float32Array(grid.values).buffer),
+  });
+
+export const parseBathymetryGrid = (text: string): BathymetryGrid => {
+  const raw = JSON.parse(text) as Record<string, unknown>;
+  const bounds = raw.bounds as BathymetryBounds | undefined;
+  const cols = raw.cols;
+  const rows = raw.rows;
+  if (
+    raw.schema_version !== GRID_FILE_SCHEMA_VERSION ||
+    !bounds ||
+    ![bounds.north, bounds.south, bounds.east, bounds.west].every((value) => Number.isFinite(value)) ||
+    !Number.isInteger(cols) ||
+    !Number.isInteger(rows) ||
+    typeof raw.values_base64 !== 'string'
+  ) {
+    throw new Error('Файл сетки глубин повреждён.');
+  }
+  const bytes = base64ToUint8Array(raw.values_base64);
+  const count = (cols as number) * (rows as number);
+  if (bytes.length !== count * 4) {
+    throw new Error('Файл сетки глубин повреждён.');
+  }
+  const values = new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length));
+  return { bounds, cols: cols as number, rows: rows as number, values, ...depthRange(values) };
+};
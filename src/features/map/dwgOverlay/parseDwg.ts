@@ -1,18 +1,75 @@
 import { Dwg_File_Type, LibreDwg, type LibreDwgEx } from '@mlightcad/libredwg-web';
-import { utmToWgs84, type UtmHemisphere } from '@/features/geo/utm';
-import type { DxfOverlayFeatureCollection, DxfOverlayGeometry } from '@/features/map/dxfOverlay/parseDxf';
+import { resolveCadColor } from '@/features/map/dxfOverlay/colors';
+import {
+  SUPPORTED_CAD_ENTITIES_LABEL,
+  projectCadFeatures,
+  type CadPlanarFeature,
+  type CadProjectionOptions,
+  type DxfOverlayFeatureCollection,
+  type DxfOverlayLayer,
+} from '@/features/map/dxfOverlay/parseDxf';
+import {
+  closeRing,
+  expandBulgeVertices,
+  tessellateArc,
+  tessellateCircle,
+  tessellateEllipse,
+  tessellateSpline,
+  type PlanarPoint,
+} from '@/features/map/dxfOverlay/tessellate';
+import { decodeCadText, stripMtextFormatting } from '@/features/map/dxfOverlay/text';
 
 type RawPoint = { x: number; y: number };
+type RawVertex = RawPoint & { bulge?: unknown };
+type RawBoundaryEdge = {
+  type?: unknown;
+  start?: RawPoint;
+  end?: RawPoint;
+  center?: RawPoint;
+  radius?: unknown;
+  startAngle?: unknown;
+  endAngle?: unknown;
+  isCCW?: unknown;
+  lengthOfMinorAxis?: unknown;
+  degree?: unknown;
+  knots?: unknown;
+  controlPoints?: Array<RawPoint & { weight?: unknown }>;
+};
+type RawBoundaryPath = {
+  vertices?: RawVertex[];
+  edges?: RawBoundaryEdge[];
+};
 type RawEntity = {
   type?: unknown;
   isInPaperSpace?: unknown;
   ownerBlockRecordSoftId?: unknown;
+  layer?: unknown;
+  color?: unknown;
+  colorIndex?: unknown;
   startPoint?: RawPoint;
   endPoint?: RawPoint;
-  vertices?: RawPoint[];
+  vertices?: RawVertex[];
   flag?: unknown;
   position?: RawPoint;
   insertionPoint?: RawPoint;
+  center?: RawPoint;
+  radius?: unknown;
+  startAngle?: unknown;
+  endAngle?: unknown;
+  majorAxisEndPoint?: RawPoint;
+  axisRatio?: unknown;
+  degree?: unknown;
+  knots?: unknown;
+  weights?: unknown;
+  controlPoints?: RawPoint[];
+  fitPoints?: RawPoint[];
+  boundaryPaths?: RawBoundaryPath[];
+  text?: unknown;
+  textHeight?: unknown;
+  rotation?: unknown;
+  direction?: RawPoint;
+  halign?: unknown;
+  valign?: unknown;
 };
 
 type RawBlockRecordEntry = {
@@ -20,6 +77,16 @@ type RawBlockRecordEntry = {
   handle?: unknown;
 };
 
+type RawLayerEntry = {
+  name?: unknown;
+  colorIndex?: unknown;
+  color?: unknown;
+  off?: unknown;
+  frozen?: unknown;
+};
+
+const RAD_TO_DEG = 180 / Math.PI;
+
 let libredwgPromise: Promise<LibreDwgEx> | null = null;
 
 const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
@@ -60,34 +127,90 @@ const getLibreDwg = async (): Promise<LibreDwgEx> => {
   return libredwgPromise;
 };
 
-const toWgsPoint = (point: RawPoint, zone: number, hemisphere: UtmHemisphere): { lat: number; lon: number } =>
-  utmToWgs84({
-    easting: point.x,
-    northing: point.y,
-    zone,
-    hemisphere,
-  });
+const toNumberOr = (value: unknown, fallback: number): number => (isFiniteNumber(value) ? value : fallback);
+
+const toNumberArray = (value: unknown): number[] => (Array.isArray(value) ? value.filter(isFiniteNumber) : []);
+
+const toPlanarPoints = (source: unknown): PlanarPoint[] =>
+  Array.isArray(source) ? source.filter(isRawPoint).map((point) => ({ x: point.x, y: point.y })) : [];
 
-const mapPolylinePoints = (
-  source: RawPoint[],
-  zone: number,
-  hemisphere: UtmHemisphere,
-  closed: boolean,
-): DxfOverlayGeometry | null => {
-  const points = source.filter(isRawPoint).map((item) => toWgsPoint(item, zone, hemisphere));
-  if (points.length < 2) return null;
-  if (closed && points.length > 2) {
-    const first = points[0];
-    const last = points[points.length - 1];
-    const alreadyClosed = Math.abs(first.lat - last.lat) < 1e-12 && Math.abs(first.lon - last.lon) < 1e-12;
-    if (!alreadyClosed) points.push(first);
-  }
-  return {
-    type: 'polyline',
-    points,
-  };
+const toBulgeVertices = (source: RawVertex[] | undefined): Array<PlanarPoint & { bulge: number }> =>
+  (Array.isArray(source) ? source : []).flatMap((vertex) =>
+    isRawPoint(vertex) ? [{ x: vertex.x, y: vertex.y, bulge: toNumberOr(vertex.bulge, 0) }] : [],
+  );
+
+const resolveAttributes = (entity: RawEntity): { layer: string; color: string | null } => ({
+  layer: typeof entity.layer === 'string' && entity.layer.trim().length > 0 ? entity.layer.trim() : '0',
+  color: resolveCadColor({
+    aci: isFiniteNumber(entity.colorIndex) ? entity.colorIndex : null,
+    trueColor: isFiniteNumber(entity.color) ? entity.color : null,
+  }),
+});
+
+const polyline = (points: PlanarPoint[], entity: RawEntity): CadPlanarFeature | null =>
+  points.length >= 2 ? { type: 'polyline', points, ...resolveAttributes(entity) } : null;
+
+const mapBoundaryPath = (path: RawBoundaryPath): PlanarPoint[] => {
+  if (Array.isArray(path.vertices)) {
+    return expandBulgeVertices(toBulgeVertices(path.vertices), true);
+  }
+  const ring: PlanarPoint[] = [];
+  for (const edge of Array.isArray(path.edges) ? path.edges : []) {
+    if (edge.type === 1 && isRawPoint(edge.start) && isRawPoint(edge.end)) {
+      ring.push({ x: edge.start.x, y: edge.start.y }, { x: edge.end.x, y: edge.end.y });
+    } else if (edge.type === 2 && isRawPoint(edge.center)) {
+      ring.push(
+        ...tessellateArc(
+          edge.center,
+          toNumberOr(edge.radius, 0),
+          toNumberOr(edge.startAngle, 0),
+          toNumberOr(edge.endAngle, Math.PI * 2),
+          edge.isCCW !== false,
+        ),
+      );
+    } else if (edge.type === 3 && isRawPoint(edge.center) && isRawPoint(edge.end)) {
+      ring.push(
+        ...tessellateEllipse(
+          edge.center,
+          edge.end,
+          toNumberOr(edge.lengthOfMinorAxis, 1),
+          toNumberOr(edge.startAngle, 0),
+          toNumberOr(edge.endAngle, Math.PI * 2),
+          edge.isCCW !== false,
+        ),
+      );
+    } else if (edge.type === 4) {
+      const controlPoints = (Array.isArray(edge.controlPoints) ? edge.controlPoints : []).flatMap((point) =>
+        isRawPoint(point) ? [{ x: point.x, y: point.y, weight: toNumberOr(point.weight, 1) }] : [],
+      );
+      ring.push(
+        ...tessellateSpline({
+          degree: toNumberOr(edge.degree, 3),
+          controlPoints,
+          weights: controlPoints.map((point) => point.weight),
+          knots: toNumberArray(edge.knots),
+        }),
+      );
+    }
+  }
+  return closeRing(ring);
 };
 
+const textLabelFeature = (
+  entity: RawEntity,
+  anchor: RawPoint,
+  text: string,
+  rotationDeg: number,
+): CadPlanarFeature | null =>
+  text
+    ? {
+        type: 'point',
+        point: { x: anchor.x, y: anchor.y },
+        label: { text, height: toNumberOr(entity.textHeight, 0), rotation_deg: rotationDeg },
+        ...resolveAttributes(entity),
+      }
+    : null;
+
 const normalizeHandle = (value: unknown): string | null => {
   if (typeof value !== 'string') return null;
   const trimmed = value.trim();
@@ -117,51 +240,134 @@ const toModelSpaceOwners = (data: unknown): Set<string> => {
   return owners;
 };
 
-const parseEntity = (
-  entity: RawEntity,
-  options: { zone: number; hemisphere: UtmHemisphere },
-  modelSpaceOwners: Set<string>,
-): DxfOverlayGeometry | null => {
+/** Arc, ellipse and text angles come from libredwg in radians. */
+const parseEntity = (entity: RawEntity, modelSpaceOwners: Set<string>): CadPlanarFeature[] => {
   if (entity.isInPaperSpace === true || entity.isInPaperSpace === 1) {
-    return null;
+    return [];
   }
   if (modelSpaceOwners.size > 0) {
     const owner = normalizeHandle(entity.ownerBlockRecordSoftId);
     if (owner && !modelSpaceOwners.has(owner)) {
-      return null;
+      return [];
     }
   }
 
+  const single = (feature: CadPlanarFeature | null): CadPlanarFeature[] => (feature ? [feature] : []);
   const type = typeof entity.type === 'string' ? entity.type : '';
   if (type === 'LINE') {
-    if (!isRawPoint(entity.startPoint) || !isRawPoint(entity.endPoint)) return null;
-    return {
-      type: 'polyline',
-      points: [toWgsPoint(entity.startPoint, options.zone, options.hemisphere), toWgsPoint(entity.endPoint, options.zone, options.hemisphere)],
-    };
+    if (!isRawPoint(entity.startPoint) || !isRawPoint(entity.endPoint)) return [];
+    return single(
+      polyline(
+        [
+          { x: entity.startPoint.x, y: entity.startPoint.y },
+          { x: entity.endPoint.x, y: entity.endPoint.y },
+        ],
+        entity,
+      ),
+    );
   }
 
   if (type === 'LWPOLYLINE' || type === 'POLYLINE2D' || type === 'POLYLINE3D') {
-    const vertices = Array.isArray(entity.vertices) ? entity.vertices : [];
+    const vertices = toBulgeVertices(entity.vertices);
+    const flag = Number.isInteger(entity.flag) ? Number(entity.flag) : 0;
+    const closed = (flag & 1) === 1 && vertices.length > 2;
+    return single(polyline(expandBulgeVertices(vertices, closed), entity));
+  }
+
+  if ((type === 'ARC' || type === 'CIRCLE') && isRawPoint(entity.center)) {
+    const radius = toNumberOr(entity.radius, 0);
+    return single(
+      polyline(
+        type === 'CIRCLE'
+          ? tessellateCircle(entity.center, radius)
+          : tessellateArc(entity.center, radius, toNumberOr(entity.startAngle, 0), toNumberOr(entity.endAngle, Math.PI * 2)),
+        entity,
+      ),
+    );
+  }
+
+  if (type === 'ELLIPSE' && isRawPoint(entity.center) && isRawPoint(entity.majorAxisEndPoint)) {
+    return single(
+      polyline(
+        tessellateEllipse(
+          entity.center,
+          entity.majorAxisEndPoint,
+          toNumberOr(entity.axisRatio, 1),
+          toNumberOr(entity.startAngle, 0),
+          toNumberOr(entity.endAngle, Math.PI * 2),
+        ),
+        entity,
+      ),
+    );
+  }
+
+  if (type === 'SPLINE') {
     const flag = Number.isInteger(entity.flag) ? Number(entity.flag) : 0;
-    return mapPolylinePoints(vertices, options.zone, options.hemisphere, (flag & 1) === 1);
+    const points = tessellateSpline({
+      degree: toNumberOr(entity.degree, 3),
+      controlPoints: toPlanarPoints(entity.controlPoints),
+      knots: toNumberArray(entity.knots),
+      weights: toNumberArray(entity.weights),
+      fitPoints: toPlanarPoints(entity.fitPoints),
+    });
+    return single(polyline((flag & 1) === 1 ? closeRing(points) : points, entity));
+  }
+
+  if (type === 'HATCH') {
+    const paths = Array.isArray(entity.boundaryPaths) ? entity.boundaryPaths : [];
+    return paths
+      .map((path) => polyline(mapBoundaryPath(path), entity))
+      .filter((feature): feature is CadPlanarFeature => feature !== null);
+  }
+
+  if (type === 'TEXT') {
+    const aligned = toNumberOr(entity.halign, 0) !== 0 || toNumberOr(entity.valign, 0) !== 0;
+    const anchor = aligned && isRawPoint(entity.endPoint) ? entity.endPoint : entity.startPoint;
+    if (!isRawPoint(anchor)) return [];
+    const text = typeof entity.text === 'string' ? decodeCadText(entity.text) : '';
+    return single(textLabelFeature(entity, anchor, text, toNumberOr(entity.rotation, 0) * RAD_TO_DEG));
+  }
+
+  if (type === 'MTEXT' && isRawPoint(entity.insertionPoint)) {
+    const text = typeof entity.text === 'string' ? stripMtextFormatting(entity.text) : '';
+    const direction = entity.direction;
+    const rotationRad =
+      isRawPoint(direction) && (direction.x !== 0 || direction.y !== 0)
+        ? Math.atan2(direction.y, direction.x)
+        : toNumberOr(entity.rotation, 0);
+    return single(textLabelFeature(entity, entity.insertionPoint, text, rotationRad * RAD_TO_DEG));
   }
 
   if (type === 'POINT' && isRawPoint(entity.position)) {
-    return {
-      type: 'point',
-      point: toWgsPoint(entity.position, options.zone, options.hemisphere),
-    };
+    return [{ type: 'point', point: { x: entity.position.x, y: entity.position.y }, ...resolveAttributes(entity) }];
   }
 
   if (type === 'INSERT' && isRawPoint(entity.insertionPoint)) {
-    return {
-      type: 'point',
-      point: toWgsPoint(entity.insertionPoint, options.zone, options.hemisphere),
-    };
+    return [
+      {
+        type: 'point',
+        point: { x: entity.insertionPoint.x, y: entity.insertionPoint.y },
+        ...resolveAttributes(entity),
+      },
+    ];
   }
 
-  return null;
+  return [];
+};
+
+const toDrawingLayers = (data: unknown): DxfOverlayLayer[] => {
+  const entries = (data as { tables?: { LAYER?: { entries?: unknown } } } | null)?.tables?.LAYER?.entries;
+  if (!Array.isArray(entries)) return [];
+  return (entries as RawLayerEntry[])
+    .filter((entry) => typeof entry?.name === 'string' && entry.name.trim().length > 0)
+    .map((entry) => {
+      const colorIndex = isFiniteNumber(entry.colorIndex) ? entry.colorIndex : null;
+      return {
+        name: String(entry.name).trim(),
+        color: resolveCadColor({ aci: colorIndex, trueColor: null }),
+        visible: entry.off !== true && entry.frozen !== true && (colorIndex === null || colorIndex >= 0),
+      };
+    });
 };
 
 const toRawEntities = (data: unknown): RawEntity[] => {
@@ -172,7 +378,7 @@ const toRawEntities = (data: unknown): RawEntity[] => {
 
 export const parseDwgToWgs84 = async (
   input: ArrayBuffer | SharedArrayBuffer | Uint8Array,
-  options: { zone: number; hemisphere: UtmHemisphere },
+  options: CadProjectionOptions,
 ): Promise<DxfOverlayFeatureCollection> => {
   const normalizedInput = (() => {
     if (ArrayBuffer.isView(input)) {
@@ -207,15 +413,13 @@ export const parseDwgToWgs84 = async (
 
     const database = libredwg.convert(dataPtr);
     const modelSpaceOwners = toModelSpaceOwners(database);
-    const features = toRawEntities(database)
-      .map((entity) => parseEntity(entity, options, modelSpaceOwners))
-      .filter((entity): entity is DxfOverlayGeometry => entity !== null);
+    const features = toRawEntities(database).flatMap((entity) => parseEntity(entity, modelSpaceOwners));
 
     if (features.length === 0) {
-      throw new Error('В DWG не найдена поддерживаемая геометрия (LINE/LWPOLYLINE/POLYLINE/POINT/INSERT).');
+      throw new Error(`В DWG не найдена поддерживаемая геометрия (${SUPPORTED_CAD_ENTITIES_LABEL}).`);
     }
 
-    return { features };
+    return projectCadFeatures(features, toDrawingLayers(database), options);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Не удалось обработать DWG.';
     throw new Error(`Не удалось обработать DWG: ${message}`);
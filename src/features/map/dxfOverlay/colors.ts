@@ -0,0 +1,86 @@
+const ACI_BY_BLOCK = 0;
+const ACI_BY_LAYER = 256;
+/** ACI 7 is "white on dark, black on light"; it follows the overlay colour instead of a fixed value. */
+const ACI_FOREGROUND = 7;
+
+const BASE_COLORS: Record<number, string> = {
+  1: '#ff0000',
+  2: '#ffff00',
+  3: '#00ff00',
+  4: '#00ffff',
+  5: '#0000ff',
+  6: '#ff00ff',
+  8: '#414141',
+  9: '#808080',
+  250: '#333333',
+  251: '#505050',
+  252: '#696969',
+  253: '#828282',
+  254: '#bebebe',
+  255: '#ffffff',
+};
+
+// Rows of the 10..249 block: brightness steps, each with a saturated and a pale variant.
+const ACI_VALUE_STEPS = [255, 189, 129, 104, 79];
+const ACI_PALE_FACTOR = 2 / 3;
+
+const toHexByte = (value: number): string => Math.round(Math.max(0, Math.min(255, value))).toString(16).padStart(2, '0');
+
+const hsvToHex = (hueDeg: number, minComponent: number, maxComponent: number): string => {
+  const sector = hueDeg / 60;
+  const fraction = sector - Math.floor(sector);
+  const span = maxComponent - minComponent;
+  const rising = minComponent + span * fraction;
+  const falling = maxComponent - span * fraction;
+  const [r, g, b] = (() => {
+    switch (Math.floor(sector) % 6) {
+      case 0:
+        return [maxComponent, rising, minComponent];
+      case 1:
+        return [falling, maxComponent, minComponent];
+      case 2:
+        return [minComponent, maxComponent, rising];
+      case 3:
+        return [minComponent, falling, maxComponent];
+      case 4:
+        return [rising, minComponent, maxComponent];
+      default:
+        return [maxComponent, minComponent, falling];
+    }
+  })();
+  return `#${toHexByte(r)}${toHexByte(g)}${toHexByte(b)}`;
+};
+
+/**
+ * Converts an AutoCAD Color Index into `#rrggbb`.
+ * Returns null for BYLAYER/BYBLOCK, the foreground colour and out-of-range values.
+ */
+export const aciToHex = (index: number): string | null => {
+  if (!Number.isInteger(index)) return null;
+  const normalized = Math.abs(index);
+  if (normalized === ACI_BY_BLOCK || normalized === ACI_BY_LAYER || normalized === ACI_FOREGROUND) return null;
+  if (BASE_COLORS[normalized]) return BASE_COLORS[normalized];
+  if (normalized < 10 || normalized > 249) return null;
+
+  const offset = normalized - 10;
+  const hueDeg = Math.floor(offset / 10) * 15;
+  const row = offset % 10;
+  const value = ACI_VALUE_STEPS[Math.floor(row / 2)];
+  const minComponent = row % 2 === 1 ? value * ACI_PALE_FACTOR : 0;
+  return hsvToHex(hueDeg, minComponent, value);
+};
+
+/** Converts a DXF 24-bit true colour (group 420) into `#rrggbb`. */
+export const trueColorToHex = (value: number): string | null => {
+  if (!Number.isInteger(value) || value < 0) return null;
+  return `#${(value & 0xffffff).toString(16).padStart(6, '0')}`;
+};
+
+/** True colour wins over the colour index; null means "use the layer colour". */
+export const resolveCadColor = (input: { aci?: number | null; trueColor?: number | null }): string | null => {
+  if (typeof input.trueColor === 'number') {
+    const hex = trueColorToHex(input.trueColor);
+    if (hex) return hex;
+  }
+  return typeof input.aci === 'number' ? aciToHex(input.aci) : null;
+};
@@ -0,0 +1,107 @@
+import type { DxfOverlayGeometry, DxfOverlayLayer } from './parseDxf';
+
+/** Per-layer override stored with the overlay in `mission.ui.vector_overlays[].layers`. */
+export type DxfOverlayLayerSetting = {
+  name: string;
+  visible: boolean;
+  color?: string;
+};
+
+/** Effective state of a drawing layer after applying the mission overrides. */
+export type DxfOverlayLayerState = {
+  name: string;
+  visible: boolean;
+  color: string | null;
+  featureCount: number;
+};
+
+export const DEFAULT_DXF_LAYER_NAME = '0';
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export const normalizeDxfLayerSettings = (value: unknown): DxfOverlayLayerSetting[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const seen = new Set<string>();
+  const settings: DxfOverlayLayerSetting[] = [];
+  for (const item of value) {
+    if (typeof item !== 'object' || item === null) continue;
+    const candidate = item as Record<string, unknown>;
+    if (typeof candidate.name !== 'string' || seen.has(candidate.name)) continue;
+    seen.add(candidate.name);
+    settings.push({
+      name: candidate.name,
+      visible: candidate.visible !== false,
+      ...(typeof candidate.color === 'string' && HEX_COLOR_PATTERN.test(candidate.color) ? { color: candidate.color } : {}),
+    });
+  }
+  return settings;
+};
+
+/** Lists the drawing layers that carry features, with drawing defaults overridden by mission settings. */
+export const resolveDxfLayerStates = (
+  features: DxfOverlayGeometry[],
+  layers: DxfOverlayLayer[] | undefined,
+  settings: DxfOverlayLayerSetting[] | undefined,
+): DxfOverlayLayerState[] => {
+  const counts = new Map<string, number>();
+  for (const feature of features) {
+    const name = feature.layer ?? DEFAULT_DXF_LAYER_NAME;
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  const drawingLayers = new Map((layers ?? []).map((layer) => [layer.name, layer]));
+  const settingsByName = new Map((settings ?? []).map((setting) => [setting.name, setting]));
+
+  return Array.from(counts.entries())
+    .sort(([a], [b]) => a.localeCompare(b, 'ru', { numeric: true }))
+    .map(([name, featureCount]) => {
+      const drawingLayer = drawingLayers.get(name);
+      const setting = settingsByName.get(name);
+      return {
+        name,
+        visible: setting ? setting.visible : drawingLayer?.visible ?? true,
+        color: setting?.color ?? drawingLayer?.color ?? null,
+        featureCount,
+      };
+    });
+};
+
+/**
+ * Drops features on hidden layers and resolves the colour of the rest: a colour picked for the layer
+ * in the mission wins, then the entity colour, then the drawing layer colour. Features left with a
+ * null colour are drawn in the overlay colour.
+ */
+export const applyDxfLayerStyles = (
+  features: DxfOverlayGeometry[],
+  layerStates: DxfOverlayLayerState[],
+  settings: DxfOverlayLayerSetting[] | undefined,
+): DxfOverlayGeometry[] => {
+  const statesByName = new Map(layerStates.map((state) => [state.name, state]));
+  const overrideColors = new Map(
+    (settings ?? []).flatMap((setting) => (setting.color ? [[setting.name, setting.color] as const] : [])),
+  );
+  return features.flatMap((feature) => {
+    const layerName = feature.layer ?? DEFAULT_DXF_LAYER_NAME;
+    const state = statesByName.get(layerName);
+    if (state && !state.visible) return [];
+    const color = overrideColors.get(layerName) ?? feature.color ?? state?.color ?? null;
+    return [{ ...feature, color }];
+  });
+};
+
+export const upsertDxfLayerSetting = (
+  settings: DxfOverlayLayerSetting[] | undefined,
+  current: Pick<DxfOverlayLayerState, 'name' | 'visible'>,
+  updates: Partial<Omit<DxfOverlayLayerSetting, 'name'>>,
+): DxfOverlayLayerSetting[] => {
+  const list = settings ?? [];
+  const existing = list.find((setting) => setting.name === current.name);
+  const next: DxfOverlayLayerSetting = {
+    name: current.name,
+    visible: existing?.visible ?? current.visible,
+    ...(existing?.color ? { color: existing.color } : {}),
+    ...updates,
+  };
+  return existing
+    ? list.map((setting) => (setting.name === current.name ? next : setting))
+    : [...list, next];
+};
@@ -1,4 +1,16 @@
 import { utmToWgs84, type UtmHemisphere } from '@/features/geo/utm';
+import { createCrsToWgs84Transformer, type CrsDefinition } from '@/features/geo/crsRegistry';
+import { resolveCadColor } from './colors';
+import {
+  closeRing,
+  expandBulgeVertices,
+  tessellateArc,
+  tessellateCircle,
+  tessellateEllipse,
+  tessellateSpline,
+  type PlanarPoint,
+} from './tessellate';
+import { decodeCadText, stripMtextFormatting } from './text';
 
 type GroupPair = {
   code: number;
@@ -10,20 +22,66 @@ type ParsedEntity = {
   pairs: GroupPair[];
 };
 
+type ParsedSections = {
+  entities: ParsedEntity[];
+  layerRecords: ParsedEntity[];
+};
+
+export type DxfOverlayTextLabel = {
+  text: string;
+  /** Text height in drawing units (metres for UTM drawings). */
+  height: number;
+  rotation_deg: number;
+};
+
+type DxfOverlayFeatureAttributes = {
+  /** DXF layer name; missing in caches written before layers were kept. */
+  layer?: string;
+  /** Entity colour as `#rrggbb`; null when it follows the layer. */
+  color?: string | null;
+};
+
 export type DxfOverlayGeometry =
-  | {
+  | ({
       type: 'polyline';
       points: Array<{ lat: number; lon: number }>;
-    }
-  | {
+    } & DxfOverlayFeatureAttributes)
+  | ({
+      /** Filled area (S-57 depth and land areas): closed outer ring and optional closed holes. */
+      type: 'polygon';
+      points: Array<{ lat: number; lon: number }>;
+      holes?: Array<Array<{ lat: number; lon: number }>>;
+    } & DxfOverlayFeatureAttributes)
+  | ({
       type: 'point';
       point: { lat: number; lon: number };
-    };
+      /** TEXT/MTEXT anchors carry their label; plain points and block inserts do not. */
+      label?: DxfOverlayTextLabel;
+    } & DxfOverlayFeatureAttributes);
+
+export type DxfOverlayLayer = {
+  name: string;
+  color: string | null;
+  /** False when the layer is switched off or frozen in the drawing. */
+  visible: boolean;
+};
 
 export type DxfOverlayFeatureCollection = {
   features: DxfOverlayGeometry[];
+  layers?: DxfOverlayLayer[];
 };
 
+/** Planar feature in drawing units before projection to WGS84; shared with the DWG parser. */
+export type CadPlanarFeature =
+  | { type: 'polyline'; points: PlanarPoint[]; layer: string; color: string | null }
+  | { type: 'point'; point: PlanarPoint; label?: DxfOverlayTextLabel; layer: string; color: string | null };
+
+/** Drawing coordinates are either UTM easting/northing or coordinates of an arbitrary CRS. */
+export type CadProjectionOptions = { zone: number; hemisphere: UtmHemisphere } | { crs: CrsDefinition };
+
+export const SUPPORTED_CAD_ENTITIES_LABEL =
+  'LINE/LWPOLYLINE/POLYLINE/ARC/CIRCLE/ELLIPSE/SPLINE/HATCH/TEXT/MTEXT/POINT/INSERT';
+
 const toUpper = (value: string): string => value.trim().toUpperCase();
 
 const readPairs = (raw: string): GroupPair[] => {
@@ -46,15 +104,20 @@ const readPairs = (raw: string): GroupPair[] => {
   return pairs;
 };
 
-const collectEntities = (pairs: GroupPair[]): ParsedEntity[] => {
+const collectSections = (pairs: GroupPair[]): ParsedSections => {
   const entities: ParsedEntity[] = [];
+  const layerRecords: ParsedEntity[] = [];
   let section: string | null = null;
   let waitSectionName = false;
   let current: ParsedEntity | null = null;
 
   const pushCurrent = () => {
     if (!current) return;
-    entities.push(current);
+    if (section === 'ENTITIES') {
+      entities.push(current);
+    } else if (current.type === 'LAYER') {
+      layerRecords.push(current);
+    }
     current = null;
   };
 
@@ -62,9 +125,7 @@ const collectEntities = (pairs: GroupPair[]): ParsedEntity[] => {
     const value = toUpper(pair.value);
 
     if (pair.code === 0 && value === 'SECTION') {
-      if (section === 'ENTITIES') {
-        pushCurrent();
-      }
+      pushCurrent();
       waitSectionName = true;
       continue;
     }
@@ -76,14 +137,12 @@ const collectEntities = (pairs: GroupPair[]): ParsedEntity[] => {
     }
 
     if (pair.code === 0 && value === 'ENDSEC') {
-      if (section === 'ENTITIES') {
-        pushCurrent();
-      }
+      pushCurrent();
       section = null;
       continue;
     }
 
-    if (section !== 'ENTITIES') {
+    if (section !== 'ENTITIES' && section !== 'TABLES') {
       continue;
     }
 
@@ -101,11 +160,9 @@ const collectEntities = (pairs: GroupPair[]): ParsedEntity[] => {
     }
   }
 
-  if (section === 'ENTITIES') {
-    pushCurrent();
-  }
+  pushCurrent();
 
-  return entities;
+  return { entities, layerRecords };
 };
 
 const firstNumber = (pairs: GroupPair[], code: number): number | null => {
@@ -132,60 +189,86 @@ const allNumbers = (pairs: GroupPair[], code: number): number[] =>
     .map((pair) => Number(pair.value.trim().replace(',', '.')))
     .filter((value) => Number.isFinite(value));
 
-const toWgsPoint = (x: number, y: number, zone: number, hemisphere: UtmHemisphere): { lat: number; lon: number } =>
-  utmToWgs84({ easting: x, northing: y, zone, hemisphere });
 
-const parseLine = (entity: ParsedEntity, zone: number, hemisphere: UtmHemisphere): DxfOverlayGeometry | null => {
+const firstString = (pairs: GroupPair[], code: number): string | null => {
+  const pair = pairs.find((item) => item.code === code);
+  return pair ? pair.value : null;
+};
+
+const toNumber = (value: string): number => Number(value.trim().replace(',', '.'));
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+const resolveEntityAttributes = (entity: ParsedEntity): { layer: string; color: string | null } => ({
+  layer: firstString(entity.pairs, 8)?.trim() || '0',
+  color: resolveCadColor({ aci: firstInteger(entity.pairs, 62), trueColor: firstInteger(entity.pairs, 420) }),
+});
+
+/** Entities drawn with extrusion (0,0,-1) have a mirrored OCS; only the X axis flips for 2D data. */
+const isMirroredOcs = (entity: ParsedEntity): boolean => (firstNumber(entity.pairs, 230) ?? 1) < 0;
+
+const toOcsPoint = (x: number, y: number, mirrored: boolean): PlanarPoint => ({ x: mirrored ? -x : x, y });
+
+const polyline = (
+  points: PlanarPoint[],
+  attributes: { layer: string; color: string | null },
+): CadPlanarFeature | null => (points.length >= 2 ? { type: 'polyline', points, ...attributes } : null);
+
+const parseLine = (entity: ParsedEntity): CadPlanarFeature | null => {
   const x1 = firstNumber(entity.pairs, 10);
   const y1 = firstNumber(entity.pairs, 20);
   const x2 = firstNumber(entity.pairs, 11);
   const y2 = firstNumber(entity.pairs, 21);
   if (x1 === null || y1 === null || x2 === null || y2 === null) return null;
-  return {
-    type: 'polyline',
-    points: [toWgsPoint(x1, y1, zone, hemisphere), toWgsPoint(x2, y2, zone, hemisphere)],
-  };
+  return polyline(
+    [
+      { x: x1, y: y1 },
+      { x: x2, y: y2 },
+    ],
+    resolveEntityAttributes(entity),
+  );
 };
 
-const parsePointLike = (entity: ParsedEntity, zone: number, hemisphere: UtmHemisphere): DxfOverlayGeometry | null => {
+const parsePointLike = (entity: ParsedEntity): CadPlanarFeature | null => {
   const x = firstNumber(entity.pairs, 10);
   const y = firstNumber(entity.pairs, 20);
   if (x === null || y === null) return null;
-  return {
-    type: 'point',
-    point: toWgsPoint(x, y, zone, hemisphere),
-  };
+  return { type: 'point', point: { x, y }, ...resolveEntityAttributes(entity) };
 };
 
-const parseLwPolyline = (entity: ParsedEntity, zone: number, hemisphere: UtmHemisphere): DxfOverlayGeometry | null => {
-  const xs = allNumbers(entity.pairs, 10);
-  const ys = allNumbers(entity.pairs, 20);
-  const count = Math.min(xs.length, ys.length);
-  if (count < 2) return null;
-
-  const points: Array<{ lat: number; lon: number }> = [];
-  for (let i = 0; i < count; i += 1) {
-    points.push(toWgsPoint(xs[i], ys[i], zone, hemisphere));
+/** Reads LWPOLYLINE vertices in order so each bulge (42) stays attached to its vertex. */
+const parseLwPolyline = (entity: ParsedEntity): CadPlanarFeature | null => {
+  const vertices: Array<PlanarPoint & { bulge: number }> = [];
+  for (const pair of entity.pairs) {
+    if (pair.code === 10) {
+      vertices.push({ x: toNumber(pair.value), y: Number.NaN, bulge: 0 });
+      continue;
+    }
+    const current = vertices[vertices.length - 1];
+    if (!current) continue;
+    if (pair.code === 20) current.y = toNumber(pair.value);
+    if (pair.code === 42) current.bulge = toNumber(pair.value) || 0;
   }
 
   const flags = firstNumber(entity.pairs, 70) ?? 0;
-  if ((Math.trunc(flags) & 1) === 1 && points.length > 2) {
-    points.push(points[0]);
-  }
-
-  return { type: 'polyline', points };
+  const closed = (Math.trunc(flags) & 1) === 1 && vertices.length > 2;
+  const mirrored = isMirroredOcs(entity);
+  const points = expandBulgeVertices(
+    vertices.map((vertex) => ({ ...toOcsPoint(vertex.x, vertex.y, mirrored), bulge: mirrored ? -vertex.bulge : vertex.bulge })),
+    closed,
+  );
+  return polyline(points, resolveEntityAttributes(entity));
 };
 
 const parseLegacyPolyline = (
   entities: ParsedEntity[],
   startIndex: number,
-  zone: number,
-  hemisphere: UtmHemisphere,
-): { feature: DxfOverlayGeometry | null; nextIndex: number } => {
+): { feature: CadPlanarFeature | null; nextIndex: number } => {
   const polylineEntity = entities[startIndex];
   const flags = firstNumber(polylineEntity.pairs, 70) ?? 0;
   const closed = (Math.trunc(flags) & 1) === 1;
-  const points: Array<{ lat: number; lon: number }> = [];
+  const vertices: Array<PlanarPoint & { bulge: number }> = [];
 
   let index = startIndex + 1;
   while (index < entities.length) {
@@ -194,7 +277,7 @@ const parseLegacyPolyline = (
       const x = firstNumber(entity.pairs, 10);
       const y = firstNumber(entity.pairs, 20);
       if (x !== null && y !== null) {
-        points.push(toWgsPoint(x, y, zone, hemisphere));
+        vertices.push({ x, y, bulge: firstNumber(entity.pairs, 42) ?? 0 });
       }
       index += 1;
       continue;
@@ -206,13 +289,217 @@ const parseLegacyPolyline = (
     break;
   }
 
-  if (closed && points.length > 2) {
-    points.push(points[0]);
+  const points = expandBulgeVertices(vertices, closed && vertices.length > 2);
+  return {
+    feature: polyline(points, resolveEntityAttributes(polylineEntity)),
+    nextIndex: index,
+  };
+};
+
+const parseArcOrCircle = (entity: ParsedEntity, isCircle: boolean): CadPlanarFeature | null => {
+  const x = firstNumber(entity.pairs, 10);
+  const y = firstNumber(entity.pairs, 20);
+  const radius = firstNumber(entity.pairs, 40);
+  if (x === null || y === null || radius === null) return null;
+  const mirrored = isMirroredOcs(entity);
+  const center = { x, y };
+  const points = isCircle
+    ? tessellateCircle(center, radius)
+    : tessellateArc(
+        center,
+        radius,
+        (firstNumber(entity.pairs, 50) ?? 0) * DEG_TO_RAD,
+        (firstNumber(entity.pairs, 51) ?? 360) * DEG_TO_RAD,
+      );
+  return polyline(
+    points.map((point) => toOcsPoint(point.x, point.y, mirrored)),
+    resolveEntityAttributes(entity),
+  );
+};
+
+const parseEllipse = (entity: ParsedEntity): CadPlanarFeature | null => {
+  const cx = firstNumber(entity.pairs, 10);
+  const cy = firstNumber(entity.pairs, 20);
+  const mx = firstNumber(entity.pairs, 11);
+  const my = firstNumber(entity.pairs, 21);
+  const ratio = firstNumber(entity.pairs, 40);
+  if (cx === null || cy === null || mx === null || my === null || ratio === null) return null;
+  const points = tessellateEllipse(
+    { x: cx, y: cy },
+    { x: mx, y: my },
+    ratio,
+    firstNumber(entity.pairs, 41) ?? 0,
+    firstNumber(entity.pairs, 42) ?? Math.PI * 2,
+    !isMirroredOcs(entity),
+  );
+  return polyline(points, resolveEntityAttributes(entity));
+};
+
+const zipPoints = (xs: number[], ys: number[]): PlanarPoint[] =>
+  Array.from({ length: Math.min(xs.length, ys.length) }, (_, index) => ({ x: xs[index], y: ys[index] }));
+
+const parseSpline = (entity: ParsedEntity): CadPlanarFeature | null => {
+  const flags = Math.trunc(firstNumber(entity.pairs, 70) ?? 0);
+  const points = tessellateSpline({
+    degree: firstNumber(entity.pairs, 71) ?? 3,
+    controlPoints: zipPoints(allNumbers(entity.pairs, 10), allNumbers(entity.pairs, 20)),
+    knots: allNumbers(entity.pairs, 40),
+    weights: allNumbers(entity.pairs, 41),
+    fitPoints: zipPoints(allNumbers(entity.pairs, 11), allNumbers(entity.pairs, 21)),
+  });
+  return polyline((flags & 1) === 1 ? closeRing(points) : points, resolveEntityAttributes(entity));
+};
+
+/**
+ * Walks HATCH boundary paths in group order. Only outlines are kept; fill patterns are not drawn.
+ */
+const parseHatch = (entity: ParsedEntity): CadPlanarFeature[] => {
+  const pairs = entity.pairs;
+  const attributes = resolveEntityAttributes(entity);
+  const mirrored = isMirroredOcs(entity);
+  let cursor = pairs.findIndex((pair) => pair.code === 91);
+  if (cursor < 0) return [];
+  const pathCount = Math.trunc(toNumber(pairs[cursor].value));
+  cursor += 1;
+
+  const next = (code: number): number => {
+    while (cursor < pairs.length && pairs[cursor].code !== code) cursor += 1;
+    if (cursor >= pairs.length) return Number.NaN;
+    const value = toNumber(pairs[cursor].value);
+    cursor += 1;
+    return value;
+  };
+  const nextPoint = (xCode: number, yCode: number): PlanarPoint => {
+    const x = next(xCode);
+    return { x, y: next(yCode) };
+  };
+
+  const features: CadPlanarFeature[] = [];
+  for (let pathIndex = 0; pathIndex < pathCount && cursor < pairs.length; pathIndex += 1) {
+    const pathFlags = Math.trunc(next(92));
+    const ring: PlanarPoint[] = [];
+
+    if ((pathFlags & 2) === 2) {
+      const hasBulge = next(72) === 1;
+      next(73);
+      const vertexCount = Math.trunc(next(93));
+      const vertices: Array<PlanarPoint & { bulge: number }> = [];
+      for (let i = 0; i < vertexCount; i += 1) {
+        const point = nextPoint(10, 20);
+        const bulge = hasBulge && pairs[cursor]?.code === 42 ? next(42) : 0;
+        vertices.push({ ...point, bulge });
+      }
+      ring.push(...expandBulgeVertices(vertices, true));
+    } else {
+      const edgeCount = Math.trunc(next(93));
+      for (let edgeIndex = 0; edgeIndex < edgeCount; edgeIndex += 1) {
+        const edgeType = Math.trunc(next(72));
+        if (edgeType === 1) {
+          ring.push(nextPoint(10, 20), nextPoint(11, 21));
+        } else if (edgeType === 2) {
+          const center = nextPoint(10, 20);
+          const radius = next(40);
+          const start = next(50);
+          const end = next(51);
+          const counterClockwise = next(73) !== 0;
+          // Clockwise hatch arcs store angles measured clockwise.
+          const sign = counterClockwise ? 1 : -1;
+          ring.push(...tessellateArc(center, radius, sign * start * DEG_TO_RAD, sign * end * DEG_TO_RAD, counterClockwise));
+        } else if (edgeType === 3) {
+          const center = nextPoint(10, 20);
+          const majorAxis = nextPoint(11, 21);
+          const ratio = next(40);
+          const start = next(50);
+          const end = next(51);
+          const counterClockwise = next(73) !== 0;
+          const sign = counterClockwise ? 1 : -1;
+          ring.push(
+            ...tessellateEllipse(center, majorAxis, ratio, sign * start * DEG_TO_RAD, sign * end * DEG_TO_RAD, counterClockwise),
+          );
+        } else if (edgeType === 4) {
+          const degree = next(94);
+          const rational = next(73) === 1;
+          next(74);
+          const knotCount = Math.trunc(next(95));
+          const controlCount = Math.trunc(next(96));
+          const knots = Array.from({ length: knotCount }, () => next(40));
+          const controlPoints: PlanarPoint[] = [];
+          const weights: number[] = [];
+          for (let i = 0; i < controlCount; i += 1) {
+            controlPoints.push(nextPoint(10, 20));
+            if (rational) weights.push(next(42));
+          }
+          ring.push(...tessellateSpline({ degree, controlPoints, knots, weights: rational ? weights : undefined }));
+        } else {
+          break;
+        }
+      }
+    }
+
+    const points = closeRing(ring.filter((point) => Number.isFinite(point.x) && Number.isFinite(point.y)));
+    const feature = polyline(
+      points.map((point) => toOcsPoint(point.x, point.y, mirrored)),
+      attributes,
+    );
+    if (feature) features.push(feature);
   }
+  return features;
+};
 
+const parseText = (entity: ParsedEntity): CadPlanarFeature | null => {
+  const rawText = firstString(entity.pairs, 1);
+  const text = rawText === null ? '' : decodeCadText(rawText);
+  if (!text) return null;
+  const hasAlignment = (firstInteger(entity.pairs, 72) ?? 0) !== 0 || (firstInteger(entity.pairs, 73) ?? 0) !== 0;
+  const x = (hasAlignment ? firstNumber(entity.pairs, 11) : null) ?? firstNumber(entity.pairs, 10);
+  const y = (hasAlignment ? firstNumber(entity.pairs, 21) : null) ?? firstNumber(entity.pairs, 20);
+  if (x === null || y === null) return null;
+  const mirrored = isMirroredOcs(entity);
   return {
-    feature: points.length >= 2 ? { type: 'polyline', points } : null,
-    nextIndex: index,
+    type: 'point',
+    point: toOcsPoint(x, y, mirrored),
+    label: {
+      text,
+      height: firstNumber(entity.pairs, 40) ?? 0,
+      rotation_deg: firstNumber(entity.pairs, 50) ?? 0,
+    },
+    ...resolveEntityAttributes(entity),
+  };
+};
+
+const parseMText = (entity: ParsedEntity): CadPlanarFeature | null => {
+  // Long MTEXT is split into 250-character chunks (group 3) followed by the tail (group 1).
+  const raw = [
+    ...entity.pairs.filter((pair) => pair.code === 3).map((pair) => pair.value),
+    firstString(entity.pairs, 1) ?? '',
+  ].join('');
+  const text = stripMtextFormatting(raw);
+  const x = firstNumber(entity.pairs, 10);
+  const y = firstNumber(entity.pairs, 20);
+  if (!text || x === null || y === null) return null;
+  const dx = firstNumber(entity.pairs, 11);
+  const dy = firstNumber(entity.pairs, 21);
+  const rotationDeg =
+    dx !== null && dy !== null && (dx !== 0 || dy !== 0)
+      ? Math.atan2(dy, dx) * RAD_TO_DEG
+      : firstNumber(entity.pairs, 50) ?? 0;
+  return {
+    type: 'point',
+    point: { x, y },
+    label: { text, height: firstNumber(entity.pairs, 40) ?? 0, rotation_deg: rotationDeg },
+    ...resolveEntityAttributes(entity),
+  };
+};
+
+const parseLayerRecord = (record: ParsedEntity): DxfOverlayLayer | null => {
+  const name = firstString(record.pairs, 2)?.trim();
+  if (!name) return null;
+  const aci = firstInteger(record.pairs, 62);
+  const flags = firstInteger(record.pairs, 70) ?? 0;
+  return {
+    name,
+    color: resolveCadColor({ aci, trueColor: firstInteger(record.pairs, 420) }),
+    visible: (aci === null || aci >= 0) && (flags & 1) === 0,
   };
 };
 
@@ -238,21 +525,83 @@ const isPaperSpaceEntity = (entity: ParsedEntity): boolean => {
   return paperSpaceFlag === 1;
 };
 
+const parseSimpleEntity = (entity: ParsedEntity): CadPlanarFeature[] => {
+  const single = (feature: CadPlanarFeature | null): CadPlanarFeature[] => (feature ? [feature] : []);
+  switch (entity.type) {
+    case 'LINE':
+      return single(parseLine(entity));
+    case 'LWPOLYLINE':
+      return single(parseLwPolyline(entity));
+    case 'ARC':
+      return single(parseArcOrCircle(entity, false));
+    case 'CIRCLE':
+      return single(parseArcOrCircle(entity, true));
+    case 'ELLIPSE':
+      return single(parseEllipse(entity));
+    case 'SPLINE':
+      return single(parseSpline(entity));
+    case 'HATCH':
+      return parseHatch(entity);
+    case 'TEXT':
+      return single(parseText(entity));
+    case 'MTEXT':
+      return single(parseMText(entity));
+    case 'POINT':
+    case 'INSERT':
+      return single(parsePointLike(entity));
+    default:
+      return [];
+  }
+};
+
+/** Projects planar CAD features from UTM and collects the layers they use. */
+export const projectCadFeatures = (
+  planarFeatures: CadPlanarFeature[],
+  drawingLayers: DxfOverlayLayer[],
+  options: CadProjectionOptions,
+): DxfOverlayFeatureCollection => {
+  const toWgsPoint =
+    'crs' in options
+      ? createCrsToWgs84Transformer(options.crs)
+      : (point: PlanarPoint): { lat: number; lon: number } =>
+          utmToWgs84({ easting: point.x, northing: point.y, zone: options.zone, hemisphere: options.hemisphere });
+
+  const features: DxfOverlayGeometry[] = planarFeatures.map((feature) =>
+    feature.type === 'point'
+      ? {
+          type: 'point',
+          point: toWgsPoint(feature.point),
+          ...(feature.label ? { label: feature.label } : {}),
+          layer: feature.layer,
+          color: feature.color,
+        }
+      : { type: 'polyline', points: feature.points.map(toWgsPoint), layer: feature.layer, color: feature.color },
+  );
+
+  const usedLayerNames = new Set(planarFeatures.map((feature) => feature.layer));
+  const knownLayers = new Map(drawingLayers.map((layer) => [layer.name, layer]));
+  const layers = Array.from(usedLayerNames).map(
+    (name) => knownLayers.get(name) ?? { name, color: null, visible: true },
+  );
+
+  return { features, layers };
+};
+
 export const parseDxfToWgs84 = (
   raw: string,
-  options: { zone: number; hemisphere: UtmHemisphere },
+  options: CadProjectionOptions,
 ): DxfOverlayFeatureCollection => {
   if (typeof raw !== 'string' || raw.trim().length === 0) {
     throw new Error('Файл DXF пустой или поврежден.');
   }
 
   const pairs = readPairs(raw);
-  const entities = collectEntities(pairs);
+  const { entities, layerRecords } = collectSections(pairs);
   if (entities.length === 0) {
     throw new Error('В DXF не найден раздел ENTITIES.');
   }
 
-  const features: DxfOverlayGeometry[] = [];
+  const features: CadPlanarFeature[] = [];
 
   for (let i = 0; i < entities.length; i += 1) {
     const entity = entities[i];
@@ -263,34 +612,22 @@ export const parseDxfToWgs84 = (
       continue;
     }
 
-    if (entity.type === 'LINE') {
-      const feature = parseLine(entity, options.zone, options.hemisphere);
-      if (feature) features.push(feature);
-      continue;
-    }
-
-    if (entity.type === 'LWPOLYLINE') {
-      const feature = parseLwPolyline(entity, options.zone, options.hemisphere);
-      if (feature) features.push(feature);
-      continue;
-    }
-
     if (entity.type === 'POLYLINE') {
-      const parsed = parseLegacyPolyline(entities, i, options.zone, options.hemisphere);
+      const parsed = parseLegacyPolyline(entities, i);
       if (parsed.feature) features.push(parsed.feature);
       i = parsed.nextIndex - 1;
       continue;
     }
 
-    if (entity.type === 'POINT' || entity.type === 'INSERT') {
-      const feature = parsePointLike(entity, options.zone, options.hemisphere);
-      if (feature) features.push(feature);
-    }
+    features.push(...parseSimpleEntity(entity));
   }
 
   if (features.length === 0) {
-    throw new Error('В DXF не найдена поддерживаемая геометрия (LINE/LWPOLYLINE/POLYLINE/POINT/INSERT).');
+    throw new Error(`В DXF не найдена поддерживаемая геометрия (${SUPPORTED_CAD_ENTITIES_LABEL}).`);
   }
 
-  return { features };
+  const drawingLayers = layerRecords
+    .map(parseLayerRecord)
+    .filter((layer): layer is DxfOverlayLayer => layer !== null);
+  return projectCadFeatures(features, drawingLayers, options);
 };
@@ -0,0 +1,200 @@
+/** Helpers that turn CAD curves into polylines in drawing units (easting/northing). */
+
+export type PlanarPoint = { x: number; y: number };
+
+const TWO_PI = Math.PI * 2;
+const MIN_ARC_STEP_RAD = (5 * Math.PI) / 180;
+const MAX_ARC_STEP_RAD = Math.PI / 4;
+/** Largest allowed gap between a curve and its chord, in drawing units (metres for UTM drawings). */
+const CHORD_TOLERANCE = 0.02;
+const MAX_CURVE_SEGMENTS = 720;
+const SPLINE_SAMPLES_PER_CONTROL_POINT = 4;
+const MIN_SPLINE_SAMPLES = 16;
+const MAX_SPLINE_SAMPLES = 256;
+
+const isFinitePoint = (point: PlanarPoint): boolean => Number.isFinite(point.x) && Number.isFinite(point.y);
+
+/** Small radii need fewer segments: the step keeps the chord within tolerance, between 5° and 45°. */
+const segmentCountForSweep = (sweepRad: number, radius: number): number => {
+  const toleranceStep = radius > CHORD_TOLERANCE / 2 ? 2 * Math.acos(1 - CHORD_TOLERANCE / radius) : MAX_ARC_STEP_RAD;
+  const step = Math.min(MAX_ARC_STEP_RAD, Math.max(MIN_ARC_STEP_RAD, toleranceStep));
+  return Math.min(MAX_CURVE_SEGMENTS, Math.max(1, Math.ceil(Math.abs(sweepRad) / step)));
+};
+
+/** Sweep from start to end in the given direction, always within (0, 2π]. */
+const resolveSweep = (startRad: number, endRad: number, counterClockwise: boolean): number => {
+  let sweep = counterClockwise ? endRad - startRad : startRad - endRad;
+  sweep %= TWO_PI;
+  if (sweep <= 1e-12) sweep += TWO_PI;
+  return counterClockwise ? sweep : -sweep;
+};
+
+export const tessellateArc = (
+  center: PlanarPoint,
+  radius: number,
+  startRad: number,
+  endRad: number,
+  counterClockwise = true,
+): PlanarPoint[] => {
+  if (!isFinitePoint(center) || !Number.isFinite(radius) || radius <= 0) return [];
+  if (!Number.isFinite(startRad) || !Number.isFinite(endRad)) return [];
+  const sweep = resolveSweep(startRad, endRad, counterClockwise);
+  const segments = segmentCountForSweep(sweep, radius);
+  const points: PlanarPoint[] = [];
+  for (let i = 0; i <= segments; i += 1) {
+    const angle = startRad + (sweep * i) / segments;
+    points.push({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) });
+  }
+  return points;
+};
+
+export const tessellateCircle = (center: PlanarPoint, radius: number): PlanarPoint[] => {
+  const points = tessellateArc(center, radius, 0, TWO_PI);
+  if (points.length > 0) points[points.length - 1] = points[0];
+  return points;
+};
+
+/**
+ * Ellipse by centre and major-axis endpoint relative to the centre; `ratio` is minor/major.
+ * Parameters are eccentric angles in radians, as stored in DXF groups 41/42.
+ */
+export const tessellateEllipse = (
+  center: PlanarPoint,
+  majorAxis: PlanarPoint,
+  ratio: number,
+  startParam: number,
+  endParam: number,
+  counterClockwise = true,
+): PlanarPoint[] => {
+  if (!isFinitePoint(center) || !isFinitePoint(majorAxis) || !Number.isFinite(ratio) || ratio <= 0) return [];
+  if (Math.hypot(majorAxis.x, majorAxis.y) <= 0) return [];
+  const isFull = Math.abs(Math.abs(endParam - startParam) - TWO_PI) < 1e-9;
+  const sweep = isFull ? TWO_PI : resolveSweep(startParam, endParam, counterClockwise);
+  const minorAxis = { x: -majorAxis.y * ratio, y: majorAxis.x * ratio };
+  const segments = segmentCountForSweep(sweep, Math.hypot(majorAxis.x, majorAxis.y));
+  const points: PlanarPoint[] = [];
+  for (let i = 0; i <= segments; i += 1) {
+    const t = startParam + (sweep * i) / segments;
+    const cos = Math.cos(t);
+    const sin = Math.sin(t);
+    points.push({
+      x: center.x + majorAxis.x * cos + minorAxis.x * sin,
+      y: center.y + majorAxis.y * cos + minorAxis.y * sin,
+    });
+  }
+  if (isFull) points[points.length - 1] = points[0];
+  return points;
+};
+
+/**
+ * Points of a polyline segment with a bulge (tan of a quarter of the included angle).
+ * The start point is not included so consecutive segments can be concatenated.
+ */
+export const tessellateBulge = (from: PlanarPoint, to: PlanarPoint, bulge: number): PlanarPoint[] => {
+  const chord = Math.hypot(to.x - from.x, to.y - from.y);
+  if (!Number.isFinite(bulge) || Math.abs(bulge) < 1e-9 || chord <= 0) return [to];
+  const includedAngle = 4 * Math.atan(bulge);
+  const radius = chord / (2 * Math.sin(Math.abs(includedAngle) / 2));
+  const midX = (from.x + to.x) / 2;
+  const midY = (from.y + to.y) / 2;
+  // Distance from the chord midpoint to the centre, on the left of the chord for positive bulges.
+  const sagittaOffset = Math.sqrt(Math.max(0, radius * radius - (chord / 2) ** 2)) * Math.sign(bulge);
+  const offsetSign = Math.abs(includedAngle) > Math.PI ? -1 : 1;
+  const normalX = -(to.y - from.y) / chord;
+  const normalY = (to.x - from.x) / chord;
+  const center = {
+    x: midX + normalX * sagittaOffset * offsetSign,
+    y: midY + normalY * sagittaOffset * offsetSign,
+  };
+  const startRad = Math.atan2(from.y - center.y, from.x - center.x);
+  const segments = segmentCountForSweep(includedAngle, radius);
+  const points: PlanarPoint[] = [];
+  for (let i = 1; i <= segments; i += 1) {
+    const angle = startRad + (includedAngle * i) / segments;
+    points.push({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) });
+  }
+  points[points.length - 1] = to;
+  return points;
+};
+
+/** Expands vertices with per-vertex bulges; bulge `i` applies to the segment that starts at vertex `i`. */
+export const expandBulgeVertices = (
+  vertices: Array<PlanarPoint & { bulge?: number }>,
+  closed: boolean,
+): PlanarPoint[] => {
+  const valid = vertices.filter(isFinitePoint);
+  if (valid.length === 0) return [];
+  const points: PlanarPoint[] = [{ x: valid[0].x, y: valid[0].y }];
+  const segmentCount = closed ? valid.length : valid.length - 1;
+  for (let i = 0; i < segmentCount; i += 1) {
+    const from = valid[i];
+    const to = valid[(i + 1) % valid.length];
+    points.push(...tessellateBulge(from, { x: to.x, y: to.y }, from.bulge ?? 0));
+  }
+  return points;
+};
+
+/** Evaluates a (rational) B-spline with de Boor's algorithm; falls back to fit or control points. */
+export const tessellateSpline = (input: {
+  degree: number;
+  controlPoints: PlanarPoint[];
+  knots: number[];
+  weights?: number[];
+  fitPoints?: PlanarPoint[];
+}): PlanarPoint[] => {
+  const controlPoints = input.controlPoints.filter(isFinitePoint);
+  const fitPoints = (input.fitPoints ?? []).filter(isFinitePoint);
+  const degree = Math.trunc(input.degree);
+  const count = controlPoints.length;
+  const knots = input.knots;
+
+  if (count === 0) return fitPoints;
+  if (degree < 1 || count <= degree || knots.length !== count + degree + 1 || !knots.every(Number.isFinite)) {
+    return fitPoints.length >= 2 ? fitPoints : controlPoints;
+  }
+
+  const weights =
+    input.weights && input.weights.length === count && input.weights.every((w) => Number.isFinite(w) && w > 0)
+      ? input.weights
+      : null;
+  const tStart = knots[degree];
+  const tEnd = knots[count];
+  if (!(tEnd > tStart)) return controlPoints;
+
+  const samples = Math.min(MAX_SPLINE_SAMPLES, Math.max(MIN_SPLINE_SAMPLES, count * SPLINE_SAMPLES_PER_CONTROL_POINT));
+  const points: PlanarPoint[] = [];
+  for (let s = 0; s <= samples; s += 1) {
+    const t = tStart + ((tEnd - tStart) * s) / samples;
+    let span = degree;
+    while (span < count - 1 && t >= knots[span + 1]) span += 1;
+
+    const d = Array.from({ length: degree + 1 }, (_, j) => {
+      const point = controlPoints[j + span - degree];
+      const w = weights ? weights[j + span - degree] : 1;
+      return { x: point.x * w, y: point.y * w, w };
+    });
+    for (let r = 1; r <= degree; r += 1) {
+      for (let j = degree; j >= r; j -= 1) {
+        const left = knots[j + span - degree];
+        const right = knots[j + 1 + span - r];
+        const alpha = right === left ? 0 : (t - left) / (right - left);
+        d[j] = {
+          x: (1 - alpha) * d[j - 1].x + alpha * d[j].x,
+          y: (1 - alpha) * d[j - 1].y + alpha * d[j].y,
+          w: (1 - alpha) * d[j - 1].w + alpha * d[j].w,
+        };
+      }
+    }
+    const result = d[degree];
+    if (result.w !== 0) points.push({ x: result.x / result.w, y: result.y / result.w });
+  }
+  return points;
+};
+
+export const closeRing = (points: PlanarPoint[]): PlanarPoint[] => {
+  if (points.length < 3) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (Math.abs(first.x - last.x) < 1e-9 && Math.abs(first.y - last.y) < 1e-9) return points;
+  return [...points, first];
+};
@@ -0,0 +1,37 @@
+const SPECIAL_CHARACTERS: Record<string, string> = {
+  c: '⌀',
+  d: '°',
+  p: '±',
+  '%': '%',
+};
+
+const decodeUnicodeEscapes = (value: string): string =>
+  value.replace(/\\U\+([0-9a-f]{4})/gi, (_, hex: string) => String.fromCharCode(Number.parseInt(hex, 16)));
+
+/** Decodes TEXT control codes (`%%d`, `%%c`, `%%p`, underline/overline toggles) and `\U+XXXX` escapes. */
+export const decodeCadText = (value: string): string =>
+  decodeUnicodeEscapes(value)
+    .replace(/%%(\d{3})/g, (_, code: string) => String.fromCharCode(Number.parseInt(code, 10)))
+    .replace(/%%([cdp%])/gi, (_, code: string) => SPECIAL_CHARACTERS[code.toLowerCase()] ?? '')
+    .replace(/%%[ouk]/gi, '')
+    .trim();
+
+/** Strips MTEXT inline formatting and keeps paragraph breaks as newlines. */
+export const stripMtextFormatting = (value: string): string => {
+  const escapedBackslash = '\uE000';
+  return decodeUnicodeEscapes(value)
+    .replace(/\\\\/g, escapedBackslash)
+    .replace(/\\P/g, '\n')
+    .replace(/\\~/g, ' ')
+    .replace(/\\S([^;]*?)[/#^]([^;]*?);/g, '$1/$2')
+    .replace(/\\[ACcFfHhQqTtWp][^;]*;/g, '')
+    .replace(/\\[LlOoKkNX]/g, '')
+    .replace(/\\([{}])/g, '$1\uE001')
+    .replace(/[{}](?!\uE001)/g, '')
+    .replace(/\uE001/g, '')
+    .replace(new RegExp(escapedBackslash, 'g'), '\\')
+    .split('\n')
+    .map((line) => decodeCadText(line))
+    .join('\n')
+    .trim();
+};
@@ -5,11 +5,19 @@ export type GeoPoint = {
   lon: number;
 };
 
+export type SurveyPatternId =
+  | "parallel"
+  | "expanding_square"
+  | "sector"
+  | "creeping_line"
+  | "spiral_out"
+  | "spiral_in";
+
 export type MapObjectType = "route" | "zone" | "marker" | "rwlt_buoy" | "lane" | "measure";
 
 export type MapObjectGeometry =
   | { type: "route"; points: GeoPoint[] }
-  | { type: "zone"; points: GeoPoint[] }
+  | { type: "zone"; points: GeoPoint[]; holes?: GeoPoint[][] }
   | { type: "marker"; point: GeoPoint }
   | { type: "measure"; points: [GeoPoint, GeoPoint] };
 
@@ -31,6 +39,18 @@ export type MapObject = {
   laneWidth?: number;
   laneBearingDeg?: number;
   laneStart?: GeoPoint;
+  // Legacy zones are forced through a convex hull; new zones keep their outline.
+  zoneConvexHull?: boolean;
+  // Search pattern laid out from a datum instead of parallel lanes; undefined means parallel.
+  surveyPattern?: SurveyPatternId;
+  // Initial course of the pattern in 0..360°; laneAngle folds to 0..180° and loses the direction.
+  patternCourseDeg?: number;
+  patternLegCount?: number;
+  patternLegLengthM?: number;
+  patternDatum?: GeoPoint;
+  // Route/zone timing; undefined falls back to the agent default speed.
+  plannedSpeedMps?: number;
+  turnAllowanceS?: number;
   rwltBuoyId?: number;
   rwltAntennaDepthM?: number;
   rwltBatteryV?: number | null;
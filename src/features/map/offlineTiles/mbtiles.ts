@@ -0,0 +1,87 @@
+import { readSqliteTable, writeSqliteDatabase } from './sqliteFile';
+
+/** `MPBX`, the application id registered for MBTiles in the SQLite header. */
+const MBTILES_APPLICATION_ID = 0x4d504258;
+
+const METADATA_SQL = 'CREATE TABLE metadata (name text, value text)';
+const TILES_SQL = 'CREATE TABLE tiles (zoom_level integer, tile_column integer, tile_row integer, tile_data blob)';
+const TILE_INDEX_SQL = 'CREATE UNIQUE INDEX tile_index ON tiles (zoom_level, tile_column, tile_row)';
+
+/** Tile in XYZ addressing; the TMS row flip of MBTiles is handled here. */
+export type MbtilesTile = {
+  z: number;
+  x: number;
+  y: number;
+  data: Uint8Array<ArrayBuffer>;
+};
+
+export type MbtilesPackage = {
+  metadata: Record<string, string>;
+  tiles: MbtilesTile[];
+};
+
+const flipRow = (z: number, row: number): number => 2 ** z - 1 - row;
+
+export const writeMbtiles = ({ metadata, tiles }: MbtilesPackage): Uint8Array<ArrayBuffer> => {
+  const sorted = [...tiles].sort((a, b) => a.z - b.z || a.x - b.x || flipRow(a.z, a.y) - flipRow(b.z, b.y));
+  return writeSqliteDatabase(
+    [
+      {
+        name: 'metadata',
+        sql: METADATA_SQL,
+        rows: Object.entries(metadata).map(([name, value]) => [name, value]),
+      },
+      {
+        name: 'tiles',
+        sql: TILES_SQL,
+        rows: sorted.map((tile) => [tile.z, tile.x, flipRow(tile.z, tile.y), tile.data]),
+        indexes: [{ name: 'tile_index', sql: TILE_INDEX_SQL, columns: [0, 1, 2] }],
+      },
+    ],
+    { applicationId: MBTILES_APPLICATION_ID },
+  );
+};
+
+const columnIndex = (columns: string[], name: string): number =>
+  columns.findIndex((column) => column.toLowerCase() === name);
+
+export const readMbtiles = (buffer: ArrayBuffer | Uint8Array): MbtilesPackage => {
+  const tilesTable = readSqliteTable(buffer, 'tiles');
+  if (!tilesTable) {
+    throw new Error('В файле нет таблицы tiles — это не пакет MBTiles.');
+  }
+  const zoomColumn = columnIndex(tilesTable.columns, 'zoom_level');
+  const xColumn = columnIndex(tilesTable.columns, 'tile_column');
+  const rowColumn = columnIndex(tilesTable.columns, 'tile_row');
+  const dataColumn = columnIndex(tilesTable.columns, 'tile_data');
+  if (zoomColumn < 0 || xColumn < 0 || rowColumn < 0 || dataColumn < 0) {
+    throw new Error('Таблица tiles пакета MBTiles имеет неожиданную структуру.');
+  }
+
+  const tiles: MbtilesTile[] = [];
+  for (const row of tilesTable.rows) {
+    const z = row[zoomColumn];
+    const x = row[xColumn];
+    const tmsRow = row[rowColumn];
+    const data = row[dataColumn];
+    if (typeof z !== 'number' || typeof x !== 'number' || typeof tmsRow !== 'number') continue;
+    if (!(data instanceof Uint8Array) || data.length === 0) continue;
+    tiles.push({ z, x, y: flipRow(z, tmsRow), data });
+  }
+
+  const metadata: Record<string, string> = {};
+  const metadataTable = readSqliteTable(buffer, 'metadata');
+  if (metadataTable) {
+    const nameColumn = columnIndex(metadataTable.columns, 'name');
+    const valueColumn = columnIndex(metadataTable.columns, 'value');
+    for (const row of metadataTable.rows) {
+      const name = row[nameColumn];
+      const value = row[valueColumn];
+      if (typeof name === 'string' && value !== null && !(value instanceof Uint8Array)) {
+        metadata[name] = String(value);
+      }
+    }
+  }
+
+  return { metadata, tiles };
+};
@@ -0,0 +1,590 @@
+/**
+ * Minimal SQLite 3 file-format writer and reader: enough of the format to produce and read back
+ * MBTiles packages without a native SQLite build. Only rowid tables and ordinary indexes are
+ * supported; WITHOUT ROWID tables, views and the freelist are never written nor read.
+ */
+
+const PAGE_SIZE = 4096;
+const HEADER_SIZE = 100;
+const SQLITE_MAGIC = 'SQLite format 3\u0000';
+const MAX_TREE_DEPTH = 64;
+
+const PAGE_TABLE_INTERIOR = 0x05;
+const PAGE_TABLE_LEAF = 0x0d;
+const PAGE_INDEX_INTERIOR = 0x02;
+const PAGE_INDEX_LEAF = 0x0a;
+
+export type SqliteValue = number | string | Uint8Array<ArrayBuffer> | null;
+
+export type SqliteIndexInput = {
+  name: string;
+  sql: string;
+  /** Positions of the indexed columns within the table rows. */
+  columns: number[];
+};
+
+export type SqliteTableInput = {
+  name: string;
+  sql: string;
+  /** Row `i` gets rowid `i + 1`. */
+  rows: SqliteValue[][];
+  indexes?: SqliteIndexInput[];
+};
+
+export type SqliteWriteOptions = {
+  applicationId?: number;
+};
+
+export type SqliteTable = {
+  columns: string[];
+  rows: SqliteValue[][];
+};
+
+export type SqliteSchemaEntry = {
+  type: string;
+  name: string;
+  tableName: string;
+  rootPage: number;
+  sql: string;
+};
+
+const textEncoder = new TextEncoder();
+
+const writeU16 = (target: Uint8Array, offset: number, value: number) => {
+  target[offset] = (value >>> 8) & 0xff;
+  target[offset + 1] = value & 0xff;
+};
+
+const writeU32 = (target: Uint8Array, offset: number, value: number) => {
+  target[offset] = (value >>> 24) & 0xff;
+  target[offset + 1] = (value >>> 16) & 0xff;
+  target[offset + 2] = (value >>> 8) & 0xff;
+  target[offset + 3] = value & 0xff;
+};
+
+const readU16 = (source: Uint8Array, offset: number): number => (source[offset] << 8) | source[offset + 1];
+
+const readU32 = (source: Uint8Array, offset: number): number =>
+  ((source[offset] << 24) >>> 0) + (source[offset + 1] << 16) + (source[offset + 2] << 8) + source[offset + 3];
+
+/** SQLite varints are big-endian, 7 bits per byte; values here never need the 9-byte form. */
+const encodeVarint = (value: number): number[] => {
+  const bytes = [value % 128];
+  let rest = Math.floor(value / 128);
+  while (rest > 0) {
+    bytes.unshift((rest % 128) | 0x80);
+    rest = Math.floor(rest / 128);
+  }
+  return bytes;
+};
+
+const readVarint = (source: Uint8Array, offset: number): { value: number; next: number } => {
+  let value = 0;
+  for (let i = 0; i < 8; i += 1) {
+    const byte = source[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if ((byte & 0x80) === 0) return { value, next: offset + i + 1 };
+  }
+  return { value: value * 256 + source[offset + 8], next: offset + 9 };
+};
+
+const integerSerialType = (value: number): { type: number; size: number } => {
+  if (value >= -0x80 && value <= 0x7f) return { type: 1, size: 1 };
+  if (value >= -0x8000 && value <= 0x7fff) return { type: 2, size: 2 };
+  if (value >= -0x800000 && value <= 0x7fffff) return { type: 3, size: 3 };
+  if (value >= -0x80000000 && value <= 0x7fffffff) return { type: 4, size: 4 };
+  if (value >= -0x800000000000 && value <= 0x7fffffffffff) return { type: 5, size: 6 };
+  return { type: 6, size: 8 };
+};
+
+const encodeRecord = (values: SqliteValue[]): Uint8Array => {
+  const types: number[] = [];
+  const bodies: Uint8Array[] = [];
+  for (const value of values) {
+    if (value === null) {
+      types.push(0);
+      bodies.push(new Uint8Array(0));
+    } else if (typeof value === 'number' && Number.isSafeInteger(value)) {
+      const { type, size } = integerSerialType(value);
+      const full = new Uint8Array(8);
+      new DataView(full.buffer).setBigInt64(0, BigInt(value));
+      types.push(type);
+      bodies.push(full.slice(8 - size));
+    } else if (typeof value === 'number') {
+      const body = new Uint8Array(8);
+      new DataView(body.buffer).setFloat64(0, value);
+      types.push(7);
+      bodies.push(body);
+    } else if (typeof value === 'string') {
+      const body = textEncoder.encode(value);
+      types.push(body.length * 2 + 13);
+      bodies.push(body);
+    } else {
+      types.push(value.length * 2 + 12);
+      bodies.push(value);
+    }
+  }
+
+  const typeBytes = types.flatMap(encodeVarint);
+  let headerSize = typeBytes.length + 1;
+  while (encodeVarint(headerSize).length + typeBytes.length !== headerSize) headerSize += 1;
+
+  const bodyLength = bodies.reduce((sum, body) => sum + body.length, 0);
+  const record = new Uint8Array(headerSize + bodyLength);
+  record.set([...encodeVarint(headerSize), ...typeBytes], 0);
+  let offset = headerSize;
+  for (const body of bodies) {
+    record.set(body, offset);
+    offset += body.length;
+  }
+  return record;
+};
+
+const decodeRecord = (record: Uint8Array, decodeText: (bytes: Uint8Array) => string): SqliteValue[] => {
+  const header = readVarint(record, 0);
+  const types: number[] = [];
+  let cursor = header.next;
+  while (cursor < header.value) {
+    const type = readVarint(record, cursor);
+    types.push(type.value);
+    cursor = type.next;
+  }
+
+  const view = new DataView(record.buffer, record.byteOffset, record.byteLength);
+  let offset = header.value;
+  return types.map((type): SqliteValue => {
+    if (type === 0) return null;
+    if (type === 8) return 0;
+    if (type === 9) return 1;
+    if (type >= 1 && type <= 6) {
+      const size = [0, 1, 2, 3, 4, 6, 8][type];
+      const full = new Uint8Array(8);
+      // Sign-extend into a full 64-bit big-endian integer.
+      full.fill(record[offset] & 0x80 ? 0xff : 0, 0, 8 - size);
+      full.set(record.subarray(offset, offset + size), 8 - size);
+      offset += size;
+      return Number(new DataView(full.buffer).getBigInt64(0));
+    }
+    if (type === 7) {
+      const value = view.getFloat64(offset);
+      offset += 8;
+      return value;
+    }
+    if (type >= 12) {
+      const size = Math.floor((type - 12) / 2);
+      const bytes = record.slice(offset, offset + size);
+      offset += size;
+      return type % 2 === 0 ? bytes : decodeText(bytes);
+    }
+    throw new Error('Повреждена запись базы SQLite.');
+  });
+};
+
+/** Largest payload kept on a b-tree page before the rest spills to overflow pages. */
+const maxLocalPayload = (usable: number, isIndex: boolean): number =>
+  isIndex ? Math.floor(((usable - 12) * 64) / 255) - 23 : usable - 35;
+
+const minLocalPayload = (usable: number): number => Math.floor(((usable - 12) * 32) / 255) - 23;
+
+const localPayloadSize = (usable: number, payloadSize: number, isIndex: boolean): number => {
+  const maxLocal = maxLocalPayload(usable, isIndex);
+  if (payloadSize <= maxLocal) return payloadSize;
+  const minLocal = minLocalPayload(usable);
+  const size = minLocal + ((payloadSize - minLocal) % (usable - 4));
+  return size <= maxLocal ? size : minLocal;
+};
+
+type Child<TDivider> = { page: number; divider: TDivider };
+
+class SqliteWriter {
+  readonly pages: Uint8Array[] = [new Uint8Array(PAGE_SIZE)];
+
+  allocate(): number {
+    this.pages.push(new Uint8Array(PAGE_SIZE));
+    return this.pages.length;
+  }
+
+  payloadCell(prefix: number[], payload: Uint8Array, isIndex: boolean): Uint8Array {
+    const local = localPayloadSize(PAGE_SIZE, payload.length, isIndex);
+    const cell = new Uint8Array(prefix.length + local + (local < payload.length ? 4 : 0));
+    cell.set(prefix, 0);
+    cell.set(payload.subarray(0, local), prefix.length);
+    if (local < payload.length) {
+      writeU32(cell, prefix.length + local, this.writeOverflow(payload.subarray(local)));
+    }
+    return cell;
+  }
+
+  writeOverflow(rest: Uint8Array): number {
+    const chunk = PAGE_SIZE - 4;
+    const pageNumbers = Array.from({ length: Math.ceil(rest.length / chunk) }, () => this.allocate());
+    pageNumbers.forEach((pageNumber, i) => {
+      const page = this.pages[pageNumber - 1];
+      writeU32(page, 0, pageNumbers[i + 1] ?? 0);
+      page.set(rest.subarray(i * chunk, (i + 1) * chunk), 4);
+    });
+    return pageNumbers[0];
+  }
+
+  writePage(pageNumber: number, type: number, cells: Uint8Array[], rightPointer?: number) {
+    const page = this.pages[pageNumber - 1];
+    const headerOffset = pageNumber === 1 ? HEADER_SIZE : 0;
+    const pointerBase = headerOffset + (rightPointer === undefined ? 8 : 12);
+    let contentStart = PAGE_SIZE;
+    cells.forEach((cell, i) => {
+      contentStart -= cell.length;
+      page.set(cell, contentStart);
+      writeU16(page, pointerBase + i * 2, contentStart);
+    });
+    if (contentStart < pointerBase + cells.length * 2) {
+      throw new Error('Ячейки не помещаются на страницу SQLite.');
+    }
+    page[headerOffset] = type;
+    writeU16(page, headerOffset + 3, cells.length);
+    writeU16(page, headerOffset + 5, contentStart);
+    if (rightPointer !== undefined) writeU32(page, headerOffset + 8, rightPointer);
+  }
+
+  /**
+   * Packs a level of children into interior pages until a single root remains. Every page holds
+   * cells `(child, divider)` and takes one more child as its right pointer; that child's divider
+   * moves up a level. In a table tree the divider is the largest rowid of the subtree, in an index
+   * tree it is the entry separating two siblings.
+   */
+  buildInterior<TDivider>(
+    children: Child<TDivider>[],
+    type: number,
+    makeCell: (child: Child<TDivider>) => Uint8Array,
+  ): number {
+    let level = children;
+    while (level.length > 1) {
+      const next: Child<TDivider>[] = [];
+      let cells: Uint8Array[] = [];
+      let used = 12;
+      for (let i = 0; i < level.length; i += 1) {
+        const child = level[i];
+        const isLast = i === level.length - 1;
+        if (isLast) {
+          next.push({ page: this.closeInterior(type, cells, child.page), divider: child.divider });
+          break;
+        }
+        const cell = makeCell(child);
+        // The second-to-last child may not close a page: the last one would be left alone.
+        const fits = used + 2 + cell.length <= PAGE_SIZE;
+        if (!fits && i === level.length - 2 && cells.length > 1) {
+          cells.pop();
+          const previous = level[i - 1];
+          next.push({ page: this.closeInterior(type, cells, previous.page), divider: previous.divider });
+          cells = [cell];
+          used = 12 + 2 + cell.length;
+          continue;
+        }
+        if (!fits && cells.length > 0) {
+          next.push({ page: this.closeInterior(type, cells, child.page), divider: child.divider });
+          cells = [];
+          used = 12;
+          continue;
+        }
+        cells.push(cell);
+        used += 2 + cell.length;
+      }
+      level = next;
+    }
+    return level[0].page;
+  }
+
+  closeInterior(type: number, cells: Uint8Array[], rightPointer: number): number {
+    const pageNumber = this.allocate();
+    this.writePage(pageNumber, type, cells, rightPointer);
+    return pageNumber;
+  }
+
+  writeTable(rows: SqliteValue[][]): number {
+    const leaves: Child<number>[] = [];
+    let cells: Uint8Array[] = [];
+    let used = 8;
+    let lastRowid = 0;
+    const flush = () => {
+      const pageNumber = this.allocate();
+      this.writePage(pageNumber, PAGE_TABLE_LEAF, cells);
+      leaves.push({ page: pageNumber, divider: lastRowid });
+      cells = [];
+      used = 8;
+    };
+
+    rows.forEach((row, i) => {
+      const rowid = i + 1;
+      const payload = encodeRecord(row);
+      const cell = this.payloadCell([...encodeVarint(payload.length), ...encodeVarint(rowid)], payload, false);
+      if (used + 2 + cell.length > PAGE_SIZE && cells.length > 0) flush();
+      cells.push(cell);
+      used += 2 + cell.length;
+      lastRowid = rowid;
+    });
+    if (cells.length > 0 || leaves.length === 0) flush();
+
+    return this.buildInterior(leaves, PAGE_TABLE_INTERIOR, (child) => {
+      const cell = new Uint8Array(4 + encodeVarint(child.divider).length);
+      writeU32(cell, 0, child.page);
+      cell.set(encodeVarint(child.divider), 4);
+      return cell;
+    });
+  }
+
+  writeIndex(entries: Uint8Array[]): number {
+    const leaves: Child<Uint8Array | null>[] = [];
+    const leafCells = entries.map((entry) => this.payloadCell(encodeVarint(entry.length), entry, true));
+    let cells: Uint8Array[] = [];
+    let used = 8;
+    const flush = (nextDivider: Uint8Array | null) => {
+      const pageNumber = this.allocate();
+      this.writePage(pageNumber, PAGE_INDEX_LEAF, cells);
+      leaves.push({ page: pageNumber, divider: nextDivider });
+      cells = [];
+      used = 8;
+    };
+
+    for (let i = 0; i < entries.length; i += 1) {
+      const cell = leafCells[i];
+      if (used + 2 + cell.length <= PAGE_SIZE) {
+        cells.push(cell);
+        used += 2 + cell.length;
+        continue;
+      }
+      if (i < entries.length - 1) {
+        // The entry that did not fit separates this leaf from the next one.
+        flush(entries[i]);
+        continue;
+      }
+      // The very last entry needs a right sibling: promote the previous entry instead.
+      cells.pop();
+      flush(entries[i - 1]);
+      cells.push(cell);
+      used += 2 + cell.length;
+    }
+    flush(null);
+
+    return this.buildInterior(leaves, PAGE_INDEX_INTERIOR, (child) => {
+      const record = child.divider ?? new Uint8Array(0);
+      const pointer = new Uint8Array(4);
+      writeU32(pointer, 0, child.page);
+      return this.payloadCell([...pointer, ...encodeVarint(record.length)], record, true);
+    });
+  }
+}
+
+const compareValues = (a: SqliteValue, b: SqliteValue): number => {
+  const rank = (value: SqliteValue) => (value === null ? 0 : typeof value === 'number' ? 1 : typeof value === 'string' ? 2 : 3);
+  if (rank(a) !== rank(b)) return rank(a) - rank(b);
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  return 0;
+};
+
+const compareEntries = (a: SqliteValue[], b: SqliteValue[]): number => {
+  for (let i = 0; i < a.length; i += 1) {
+    const diff = compareValues(a[i], b[i]);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+/** Serialises tables (and their indexes) into a complete database file image. */
+export const writeSqliteDatabase = (
+  tables: SqliteTableInput[],
+  options: SqliteWriteOptions = {},
+): Uint8Array<ArrayBuffer> => {
+  const writer = new SqliteWriter();
+  const schema: SqliteValue[][] = [];
+
+  for (const table of tables) {
+    schema.push(['table', table.name, table.name, writer.writeTable(table.rows), table.sql]);
+    for (const index of table.indexes ?? []) {
+      const keys = table.rows
+        .map((row, i): SqliteValue[] => [...index.columns.map((column) => row[column] ?? null), i + 1])
+        .sort(compareEntries);
+      schema.push(['index', index.name, table.name, writer.writeIndex(keys.map(encodeRecord)), index.sql]);
+    }
+  }
+
+  const schemaCells = schema.map((row, i) => {
+    const payload = encodeRecord(row);
+    return writer.payloadCell([...encodeVarint(payload.length), ...encodeVarint(i + 1)], payload, false);
+  });
+  writer.writePage(1, PAGE_TABLE_LEAF, schemaCells);
+
+  const first = writer.pages[0];
+  first.set(textEncoder.encode(SQLITE_MAGIC), 0);
+  writeU16(first, 16, PAGE_SIZE);
+  first[18] = 1; // legacy (rollback journal) write version
+  first[19] = 1;
+  first[21] = 64;
+  first[22] = 32;
+  first[23] = 32;
+  writeU32(first, 24, 1); // file change counter
+  writeU32(first, 28, writer.pages.length);
+  writeU32(first, 40, 1); // schema cookie
+  writeU32(first, 44, 4); // schema format
+  writeU32(first, 56, 1); // UTF-8
+  writeU32(first, 68, options.applicationId ?? 0);
+  writeU32(first, 92, 1);
+  writeU32(first, 96, 3_045_000);
+
+  const image = new Uint8Array(writer.pages.length * PAGE_SIZE);
+  writer.pages.forEach((page, i) => image.set(page, i * PAGE_SIZE));
+  return image;
+};
+
+type ReaderContext = {
+  bytes: Uint8Array;
+  pageSize: number;
+  usable: number;
+  decodeText: (bytes: Uint8Array) => string;
+};
+
+const openReader = (bytes: Uint8Array): ReaderContext => {
+  const magic = new TextDecoder('ascii').decode(bytes.subarray(0, 16));
+  if (bytes.length < HEADER_SIZE || magic !== SQLITE_MAGIC) {
+    throw new Error('Файл не является базой SQLite.');
+  }
+  const rawPageSize = readU16(bytes, 16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  if (pageSize < 512 || (pageSize & (pageSize - 1)) !== 0) {
+    throw new Error('Повреждён заголовок базы SQLite.');
+  }
+  const encoding = readU32(bytes, 56);
+  const decoder = new TextDecoder(encoding === 2 ? 'utf-16le' : encoding === 3 ? 'utf-16be' : 'utf-8');
+  return {
+    bytes,
+    pageSize,
+    usable: pageSize - bytes[20],
+    decodeText: (text) => decoder.decode(text),
+  };
+};
+
+const pageOffset = (context: ReaderContext, pageNumber: number): number => {
+  const offset = (pageNumber - 1) * context.pageSize;
+  if (pageNumber < 1 || offset + context.pageSize > context.bytes.length) {
+    throw new Error('База SQLite обрезана или повреждена.');
+  }
+  return offset;
+};
+
+const readPayload = (context: ReaderContext, start: number, payloadSize: number): Uint8Array => {
+  const local = localPayloadSize(context.usable, payloadSize, false);
+  const payload = new Uint8Array(payloadSize);
+  payload.set(context.bytes.subarray(start, start + local), 0);
+  let written = local;
+  let overflowPage = written < payloadSize ? readU32(context.bytes, start + local) : 0;
+  while (written < payloadSize) {
+    if (overflowPage === 0) throw new Error('База SQLite обрезана или повреждена.');
+    const offset = pageOffset(context, overflowPage);
+    const chunk = Math.min(context.usable - 4, payloadSize - written);
+    payload.set(context.bytes.subarray(offset + 4, offset + 4 + chunk), written);
+    written += chunk;
+    overflowPage = readU32(context.bytes, offset);
+  }
+  return payload;
+};
+
+const walkTable = (
+  context: ReaderContext,
+  pageNumber: number,
+  visit: (rowid: number, payload: Uint8Array) => void,
+  depth = 0,
+) => {
+  if (depth > MAX_TREE_DEPTH) throw new Error('База SQLite повреждена: зацикленное дерево.');
+  const offset = pageOffset(context, pageNumber);
+  const header = offset + (pageNumber === 1 ? HEADER_SIZE : 0);
+  const type = context.bytes[header];
+  const cellCount = readU16(context.bytes, header + 3);
+
+  if (type === PAGE_TABLE_LEAF) {
+    for (let i = 0; i < cellCount; i += 1) {
+      const cellStart = offset + readU16(context.bytes, header + 8 + i * 2);
+      const size = readVarint(context.bytes, cellStart);
+      const rowid = readVarint(context.bytes, size.next);
+      visit(rowid.value, readPayload(context, rowid.next, size.value));
+    }
+    return;
+  }
+  if (type === PAGE_TABLE_INTERIOR) {
+    for (let i = 0; i < cellCount; i += 1) {
+      const cellStart = offset + readU16(context.bytes, header + 12 + i * 2);
+      walkTable(context, readU32(context.bytes, cellStart), visit, depth + 1);
+    }
+    walkTable(context, readU32(context.bytes, header + 8), visit, depth + 1);
+    return;
+  }
+  throw new Error('База SQLite повреждена: неизвестный тип страницы.');
+};
+
+/** Column names from `CREATE TABLE name (a integer, "b" text, ..., PRIMARY KEY (...))`. */
+const parseTableColumns = (sql: string): Array<{ name: string; isRowidAlias: boolean }> => {
+  const open = sql.indexOf('(');
+  const close = sql.lastIndexOf(')');
+  if (open < 0 || close <= open) return [];
+
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of sql.slice(open + 1, close)) {
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    if (char === '(') depth += 1;
+    if (char === ')') depth -= 1;
+    current += char;
+  }
+  parts.push(current);
+
+  return parts
+    .map((part) => part.trim())
+    .filter((part) => part && !/^(constraint|primary|unique|check|foreign)\b/i.test(part))
+    .map((part) => {
+      const match = /^(?:"([^"]+)"|`([^`]+)`|\[([^\]]+)\]|(\S+))(.*)$/s.exec(part);
+      const name = match ? (match[1] ?? match[2] ?? match[3] ?? match[4]) : part;
+      const rest = match ? match[5] : '';
+      return { name, isRowidAlias: /^\s*integer\s+primary\s+key\b/i.test(rest) };
+    });
+};
+
+export const readSqliteSchema = (buffer: ArrayBuffer | Uint8Array): SqliteSchemaEntry[] => {
+  const context = openReader(buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer));
+  const entries: SqliteSchemaEntry[] = [];
+  walkTable(context, 1, (_rowid, payload) => {
+    const [type, name, tableName, rootPage, sql] = decodeRecord(payload, context.decodeText);
+    entries.push({
+      type: String(type ?? ''),
+      name: String(name ?? ''),
+      tableName: String(tableName ?? ''),
+      rootPage: typeof rootPage === 'number' ? rootPage : 0,
+      sql: typeof sql === 'string' ? sql : '',
+    });
+  });
+  return entries;
+};
+
+/** Reads every row of a rowid table; returns null when the database has no such table. */
+export const readSqliteTable = (buffer: ArrayBuffer | Uint8Array, tableName: string): SqliteTable | null => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const context = openReader(bytes);
+  const entry = readSqliteSchema(bytes).find(
+    (candidate) => candidate.name.toLowerCase() === tableName.toLowerCase() && candidate.type !== 'index',
+  );
+  if (!entry) return null;
+  if (entry.type !== 'table' || entry.rootPage <= 0 || /without\s+rowid/i.test(entry.sql)) {
+    throw new Error(`Таблица «${tableName}» хранится в неподдерживаемом виде (${entry.type}).`);
+  }
+
+  const columns = parseTableColumns(entry.sql);
+  const rows: SqliteValue[][] = [];
+  walkTable(context, entry.rootPage, (rowid, payload) => {
+    const values = decodeRecord(payload, context.decodeText);
+    // Columns added by ALTER TABLE are missing from older records and read as NULL.
+    rows.push(columns.map((column, i) => (column.isRowidAlias ? rowid : (values[i] ?? null))));
+  });
+  return { columns: columns.map((column) => column.name), rows };
+};
@@ -1,8 +1,11 @@
+import type { TileBbox } from './tileMath';
+
 const DB_NAME = 'planner.tileCache.v1';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const TILE_STORE = 'tiles';
 const META_STORE = 'tileMeta';
 const STATS_STORE = 'cacheStats';
+const REGION_STORE = 'regions';
 const STATS_KEY = 'global';
 const DEFAULT_MAX_CACHE_BYTES = 512 * 1024 * 1024;
 
@@ -37,6 +40,22 @@ export type TileCacheStats = {
   misses: number;
 };
 
+/** Named bbox + zoom range kept in the cache, e.g. downloaded before a trip or imported from MBTiles. */
+export type TileRegion = {
+  id: string;
+  name: string;
+  provider: string;
+  bbox: TileBbox;
+  zoom_min: number;
+  zoom_max: number;
+  created_at: string;
+};
+
+export type TileCacheUsage = {
+  entries: number;
+  totalBytes: number;
+};
+
 type CachedTile = {
   key: string;
   blob: Blob;
@@ -72,6 +91,9 @@ const openDb = (): Promise<IDBDatabase> =>
       if (!db.objectStoreNames.contains(STATS_STORE)) {
         db.createObjectStore(STATS_STORE, { keyPath: 'key' });
       }
+      if (!db.objectStoreNames.contains(REGION_STORE)) {
+        db.createObjectStore(REGION_STORE, { keyPath: 'id' });
+      }
     };
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error ?? new Error('Failed to open IndexedDB'));
@@ -82,6 +104,8 @@ const createInitialStats = (): CacheStatsRecord => ({ key: STATS_KEY, entries: 0
 export interface TileCache {
   makeKey: (provider: string, z: number, x: number, y: number) => string;
   get: (key: string) => Promise<CachedTile | null>;
+  /** Reads a tile without counting a hit or touching its LRU position (used by exports). */
+  peek: (key: string) => Promise<CachedTile | null>;
   put: (
     key: string,
     input: { provider: string; url: string; z: number; x: number; y: number; blob: Blob },
@@ -90,6 +114,11 @@ export interface TileCache {
   clear: () => Promise<void>;
   getStats: () => Promise<TileCacheStats>;
   setMaxBytes: (value: number) => void;
+  /** Number and total size of the given keys that are present in the cache. */
+  measure: (keys: string[]) => Promise<TileCacheUsage>;
+  listRegions: () => Promise<TileRegion[]>;
+  saveRegion: (region: TileRegion) => Promise<void>;
+  removeRegion: (id: string) => Promise<void>;
 }
 
 class IndexedDbTileCache implements TileCache {
@@ -134,6 +163,21 @@ class IndexedDbTileCache implements TileCache {
     };
   }
 
+  async peek(key: string): Promise<CachedTile | null> {
+    const db = await this.getDb();
+    const tx = db.transaction([TILE_STORE, META_STORE], 'readonly');
+    const tileRecord = (await requestToPromise(tx.objectStore(TILE_STORE).get(key))) as TileRecord | undefined;
+    const metaRecord = (await requestToPromise(tx.objectStore(META_STORE).get(key))) as TileMetaRecord | undefined;
+    await transactionDone(tx);
+    if (!tileRecord || !metaRecord) return null;
+    return {
+      key,
+      blob: tileRecord.blob,
+      sizeBytes: metaRecord.sizeBytes,
+      lastAccess: metaRecord.lastAccess,
+    };
+  }
+
   async put(
     key: string,
     input: { provider: string; url: string; z: number; x: number; y: number; blob: Blob },
@@ -179,9 +223,10 @@ class IndexedDbTileCache implements TileCache {
 
   async clear(): Promise<void> {
     const db = await this.getDb();
-    const tx = db.transaction([TILE_STORE, META_STORE, STATS_STORE], 'readwrite');
+    const tx = db.transaction([TILE_STORE, META_STORE, STATS_STORE, REGION_STORE], 'readwrite');
     tx.objectStore(TILE_STORE).clear();
     tx.objectStore(META_STORE).clear();
+    tx.objectStore(REGION_STORE).clear();
     tx.objectStore(STATS_STORE).put(createInitialStats());
     await transactionDone(tx);
     this.hits = 0;
@@ -227,6 +272,44 @@ class IndexedDbTileCache implements TileCache {
     };
   }
 
+  async measure(keys: string[]): Promise<TileCacheUsage> {
+    if (keys.length === 0) return { entries: 0, totalBytes: 0 };
+    const db = await this.getDb();
+    const tx = db.transaction([META_STORE], 'readonly');
+    const meta = tx.objectStore(META_STORE);
+    const records = (await Promise.all(keys.map((key) => requestToPromise(meta.get(key))))) as Array<
+      TileMetaRecord | undefined
+    >;
+    await transactionDone(tx);
+    return records.reduce<TileCacheUsage>(
+      (usage, record) =>
+        record ? { entries: usage.entries + 1, totalBytes: usage.totalBytes + record.sizeBytes } : usage,
+      { entries: 0, totalBytes: 0 },
+    );
+  }
+
+  async listRegions(): Promise<TileRegion[]> {
+    const db = await this.getDb();
+    const tx = db.transaction([REGION_STORE], 'readonly');
+    const regions = (await requestToPromise(tx.objectStore(REGION_STORE).getAll())) as TileRegion[];
+    await transactionDone(tx);
+    return regions.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  async saveRegion(region: TileRegion): Promise<void> {
+    const db = await this.getDb();
+    const tx = db.transaction([REGION_STORE], 'readwrite');
+    tx.objectStore(REGION_STORE).put(region);
+    await transactionDone(tx);
+  }
+
+  async removeRegion(id: string): Promise<void> {
+    const db = await this.getDb();
+    const tx = db.transaction([REGION_STORE], 'readwrite');
+    tx.objectStore(REGION_STORE).delete(id);
+    await transactionDone(tx);
+  }
+
   private async evictLru(): Promise<void> {
     const db = await this.getDb();
     const readTx = db.transaction([META_STORE, STATS_STORE], 'readonly');
@@ -0,0 +1,207 @@
+import { readMbtiles, writeMbtiles, type MbtilesTile } from './mbtiles';
+import type { TileCache, TileRegion } from './tileCache';
+import { bboxToTileRange, enumerateTiles, type TileBbox } from './tileMath';
+
+/** MBTiles metadata key remembering which tile provider the package was exported from. */
+const PROVIDER_METADATA_KEY = 'planner_provider';
+
+export type TileRegionSummary = {
+  region: TileRegion;
+  expectedTiles: number;
+  storedTiles: number;
+  storedBytes: number;
+};
+
+export type TileRegionImportResult = {
+  region: TileRegion;
+  imported: number;
+};
+
+const createId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `region-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
+
+export const createTileRegion = (input: {
+  name: string;
+  provider: string;
+  bbox: TileBbox;
+  zoomMin: number;
+  zoomMax: number;
+}): TileRegion => ({
+  id: createId(),
+  name: input.name.trim() || `Область ${new Date().toLocaleDateString('ru-RU')}`,
+  provider: input.provider,
+  bbox: { ...input.bbox },
+  zoom_min: Math.min(input.zoomMin, input.zoomMax),
+  zoom_max: Math.max(input.zoomMin, input.zoomMax),
+  created_at: new Date().toISOString(),
+});
+
+const regionTiles = (region: TileRegion): Array<{ z: number; x: number; y: number }> => {
+  const tiles: Array<{ z: number; x: number; y: number }> = [];
+  for (let zoom = region.zoom_min; zoom <= region.zoom_max; zoom += 1) {
+    tiles.push(...enumerateTiles(bboxToTileRange(region.bbox, zoom)));
+  }
+  return tiles;
+};
+
+export const countRegionTiles = (region: TileRegion): number => {
+  let total = 0;
+  for (let zoom = region.zoom_min; zoom <= region.zoom_max; zoom += 1) {
+    total += bboxToTileRange(region.bbox, zoom).tilesCount;
+  }
+  return total;
+};
+
+const regionCoversTile = (region: TileRegion, tile: { z: number; x: number; y: number }): boolean => {
+  if (tile.z < region.zoom_min || tile.z > region.zoom_max) return false;
+  const range = bboxToTileRange(region.bbox, tile.z);
+  return tile.x >= range.xMin && tile.x <= range.xMax && tile.y >= range.yMin && tile.y <= range.yMax;
+};
+
+export const summarizeTileRegion = async (cache: TileCache, region: TileRegion): Promise<TileRegionSummary> => {
+  const tiles = regionTiles(region);
+  const usage = await cache.measure(tiles.map((tile) => cache.makeKey(region.provider, tile.z, tile.x, tile.y)));
+  return {
+    region,
+    expectedTiles: tiles.length,
+    storedTiles: usage.entries,
+    storedBytes: usage.totalBytes,
+  };
+};
+
+/** Deletes the region and those of its tiles that no other region of the same provider covers. */
+export const removeTileRegion = async (cache: TileCache, region: TileRegion): Promise<void> => {
+  const others = (await cache.listRegions()).filter(
+    (candidate) => candidate.id !== region.id && candidate.provider === region.provider,
+  );
+  for (const tile of regionTiles(region)) {
+    if (others.some((other) => regionCoversTile(other, tile))) continue;
+    await cache.remove(cache.makeKey(region.provider, tile.z, tile.x, tile.y));
+  }
+  await cache.removeRegion(region.id);
+};
+
+const sniffTileFormat = (data: Uint8Array): { format: string; mime: string } | null => {
+  if (data.length >= 4 && data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) {
+    return { format: 'png', mime: 'image/png' };
+  }
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return { format: 'jpg', mime: 'image/jpeg' };
+  }
+  if (
+    data.length >= 12 &&
+    String.fromCharCode(...data.subarray(0, 4)) === 'RIFF' &&
+    String.fromCharCode(...data.subarray(8, 12)) === 'WEBP'
+  ) {
+    return { format: 'webp', mime: 'image/webp' };
+  }
+  return null;
+};
+
+/** Packs the cached tiles of a region into an MBTiles file; tiles missing from the cache are skipped. */
+export const exportTileRegion = async (
+  cache: TileCache,
+  region: TileRegion,
+  options: { attribution?: string } = {},
+): Promise<{ bytes: Uint8Array<ArrayBuffer>; tiles: number }> => {
+  const tiles: MbtilesTile[] = [];
+  for (const tile of regionTiles(region)) {
+    const cached = await cache.peek(cache.makeKey(region.provider, tile.z, tile.x, tile.y));
+    if (!cached || cached.blob.size === 0) continue;
+    tiles.push({ ...tile, data: new Uint8Array(await cached.blob.arrayBuffer()) });
+  }
+  if (tiles.length === 0) {
+    throw new Error('В кэше нет ни одного тайла этой области.');
+  }
+
+  const { bbox } = region;
+  const metadata: Record<string, string> = {
+    name: region.name,
+    type: 'baselayer',
+    version: '1',
+    description: `Экспорт офлайн-кэша карт, ${region.created_at.slice(0, 10)}`,
+    format: sniffTileFormat(tiles[0].data)?.format ?? 'png',
+    bounds: [bbox.west, bbox.south, bbox.east, bbox.north].join(','),
+    center: [(bbox.west + bbox.east) / 2, (bbox.south + bbox.north) / 2, region.zoom_min].join(','),
+    minzoom: String(region.zoom_min),
+    maxzoom: String(region.zoom_max),
+    [PROVIDER_METADATA_KEY]: region.provider,
+  };
+  if (options.attribution) metadata.attribution = options.attribution;
+
+  return { bytes: writeMbtiles({ metadata, tiles }), tiles: tiles.length };
+};
+
+const tileXToLon = (x: number, zoom: number): number => (x / 2 ** zoom) * 360 - 180;
+
+const tileYToLat = (y: number, zoom: number): number =>
+  (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / 2 ** zoom))) * 180) / Math.PI;
+
+const parseBounds = (value: string | undefined): TileBbox | null => {
+  const parts = (value ?? '').split(',').map((part) => Number(part.trim()));
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) return null;
+  const [west, south, east, north] = parts;
+  if (west >= east || south >= north) return null;
+  return { west, south, east, north };
+};
+
+const boundsOfTiles = (tiles: MbtilesTile[]): TileBbox => {
+  const bbox = { west: 180, south: 90, east: -180, north: -90 };
+  for (const tile of tiles) {
+    bbox.west = Math.min(bbox.west, tileXToLon(tile.x, tile.z));
+    bbox.east = Math.max(bbox.east, tileXToLon(tile.x + 1, tile.z));
+    bbox.north = Math.max(bbox.north, tileYToLat(tile.y, tile.z));
+    bbox.south = Math.min(bbox.south, tileYToLat(tile.y + 1, tile.z));
+  }
+  return bbox;
+};
+
+/**
+ * Loads an MBTiles package into the cache and registers it as a region. Tiles go under the provider
+ * recorded at export time, so they show up for the same basemap; foreign packages use `provider`.
+ */
+export const importMbtilesToCache = async (
+  cache: TileCache,
+  buffer: ArrayBuffer | Uint8Array,
+  options: { provider: string; fallbackName: string; onProgress?: (done: number, total: number) => void },
+): Promise<TileRegionImportResult> => {
+  const { metadata, tiles } = readMbtiles(buffer);
+  if (tiles.length === 0) {
+    throw new Error('Пакет MBTiles не содержит тайлов.');
+  }
+  if (metadata.format === 'pbf') {
+    throw new Error('Векторные тайлы (pbf) не поддерживаются: нужен растровый пакет MBTiles.');
+  }
+
+  const provider = metadata[PROVIDER_METADATA_KEY] || options.provider;
+  let imported = 0;
+  for (const tile of tiles) {
+    const type = sniffTileFormat(tile.data)?.mime ?? '';
+    await cache.put(cache.makeKey(provider, tile.z, tile.x, tile.y), {
+      provider,
+      url: `mbtiles://${tile.z}/${tile.x}/${tile.y}`,
+      z: tile.z,
+      x: tile.x,
+      y: tile.y,
+      blob: new Blob([tile.data], { type }),
+    });
+    imported += 1;
+    options.onProgress?.(imported, tiles.length);
+  }
+
+  const zoomMin = tiles.reduce((min, tile) => Math.min(min, tile.z), Infinity);
+  const zoomMax = tiles.reduce((max, tile) => Math.max(max, tile.z), -Infinity);
+  const region = createTileRegion({
+    name: metadata.name || options.fallbackName,
+    provider,
+    bbox: parseBounds(metadata.bounds) ?? boundsOfTiles(tiles),
+    zoomMin,
+    zoomMax,
+  });
+  await cache.saveRegion(region);
+  return { region, imported };
+};
@@ -0,0 +1,239 @@
+import { distanceMeters } from '@/features/geo/distance';
+import type { TfwParams } from './parseTfw';
+import type { RasterBounds } from './bounds';
+
+/**
+ * Control point tying an image pixel to a map position. Pixel coordinates are in image pixels
+ * from the top-left corner of the image (the centre of the first pixel is 0.5, 0.5).
+ */
+export type RasterControlPoint = {
+  pixel_x: number;
+  pixel_y: number;
+  lat: number;
+  lon: number;
+};
+
+/** 1 — affine transform, 2 — second-order polynomial. */
+export type RasterGeoreferenceOrder = 1 | 2;
+
+/** Georeference stored with the raster overlay in `mission.ui.raster_overlays[].georeference`. */
+export type RasterGeoreference = {
+  order: RasterGeoreferenceOrder;
+  image_width: number;
+  image_height: number;
+  control_points: RasterControlPoint[];
+};
+
+export type RasterControlPointResidual = {
+  lat: number;
+  lon: number;
+  distance_m: number;
+};
+
+export type RasterGeoreferenceFit = {
+  order: RasterGeoreferenceOrder;
+  /** Pixel coordinates are shifted by the centroid and scaled before fitting to keep the system well conditioned. */
+  origin: { x: number; y: number };
+  scale: number;
+  latCoefficients: number[];
+  lonCoefficients: number[];
+  residuals: RasterControlPointResidual[];
+  rmse_m: number;
+};
+
+export const MIN_CONTROL_POINTS: Record<RasterGeoreferenceOrder, number> = {
+  1: 3,
+  2: 6,
+};
+
+const SINGULAR_EPS = 1e-12;
+
+const polynomialTerms = (order: RasterGeoreferenceOrder, u: number, v: number): number[] =>
+  order === 1 ? [1, u, v] : [1, u, v, u * u, u * v, v * v];
+
+/** Solves the normal equations of a least-squares system with Gaussian elimination and partial pivoting. */
+const solveLeastSquares = (rows: number[][], values: number[]): number[] | null => {
+  const size = rows[0].length;
+  const matrix = Array.from({ length: size }, () => new Array<number>(size + 1).fill(0));
+  rows.forEach((row, rowIndex) => {
+    for (let i = 0; i < size; i += 1) {
+      for (let j = 0; j < size; j += 1) {
+        matrix[i][j] += row[i] * row[j];
+      }
+      matrix[i][size] += row[i] * values[rowIndex];
+    }
+  });
+
+  for (let col = 0; col < size; col += 1) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row += 1) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+    }
+    if (Math.abs(matrix[pivot][col]) < SINGULAR_EPS) return null;
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+    for (let row = 0; row < size; row += 1) {
+      if (row === col) continue;
+      const factor = matrix[row][col] / matrix[col][col];
+      if (factor === 0) continue;
+      for (let k = col; k <= size; k += 1) {
+        matrix[row][k] -= factor * matrix[col][k];
+      }
+    }
+  }
+  return matrix.map((row, index) => row[size] / row[index]);
+};
+
+type PolynomialModel = Pick<RasterGeoreferenceFit, 'order' | 'origin' | 'scale' | 'latCoefficients' | 'lonCoefficients'>;
+
+const evaluate = (fit: PolynomialModel, x: number, y: number): { lat: number; lon: number } => {
+  const terms = polynomialTerms(fit.order, (x - fit.origin.x) / fit.scale, (y - fit.origin.y) / fit.scale);
+  let lat = 0;
+  let lon = 0;
+  terms.forEach((term, index) => {
+    lat += fit.latCoefficients[index] * term;
+    lon += fit.lonCoefficients[index] * term;
+  });
+  return { lat, lon };
+};
+
+export const fitRasterGeoreference = (
+  points: RasterControlPoint[],
+  order: RasterGeoreferenceOrder,
+): RasterGeoreferenceFit => {
+  const minPoints = MIN_CONTROL_POINTS[order];
+  if (points.length < minPoints) {
+    throw new Error(`Для ${order === 1 ? 'аффинной привязки' : 'полинома 2-го порядка'} нужно минимум ${minPoints} опорных точек.`);
+  }
+  const invalid = points.some(
+    (point) =>
+      !Number.isFinite(point.pixel_x) ||
+      !Number.isFinite(point.pixel_y) ||
+      !Number.isFinite(point.lat) ||
+      !Number.isFinite(point.lon) ||
+      Math.abs(point.lat) > 90 ||
+      Math.abs(point.lon) > 180,
+  );
+  if (invalid) {
+    throw new Error('Некорректные координаты опорной точки.');
+  }
+
+  const origin = {
+    x: points.reduce((sum, point) => sum + point.pixel_x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.pixel_y, 0) / points.length,
+  };
+  const scale =
+    Math.max(...points.map((point) => Math.max(Math.abs(point.pixel_x - origin.x), Math.abs(point.pixel_y - origin.y)))) || 1;
+  const rows = points.map((point) =>
+    polynomialTerms(order, (point.pixel_x - origin.x) / scale, (point.pixel_y - origin.y) / scale),
+  );
+  const latCoefficients = solveLeastSquares(rows, points.map((point) => point.lat));
+  const lonCoefficients = solveLeastSquares(rows, points.map((point) => point.lon));
+  if (!latCoefficients || !lonCoefficients) {
+    throw new Error('Опорные точки на изображении лежат на одной линии или совпадают — добавьте точки по краям растра.');
+  }
+
+  const base = { order, origin, scale, latCoefficients, lonCoefficients };
+  const residuals = points.map((point) => {
+    const predicted = evaluate(base, point.pixel_x, point.pixel_y);
+    return {
+      lat: predicted.lat - point.lat,
+      lon: predicted.lon - point.lon,
+      distance_m: distanceMeters(predicted, point),
+    };
+  });
+  const rmse_m = Math.sqrt(residuals.reduce((sum, residual) => sum + residual.distance_m ** 2, 0) / residuals.length);
+
+  return { ...base, residuals, rmse_m };
+};
+
+/** Keeps the points that have both an image pixel and a map position. */
+export const toRasterControlPoints = (
+  points: Array<{ pixel: { x: number; y: number } | null; map: { lat: number; lon: number } | null }>,
+): RasterControlPoint[] =>
+  points.flatMap((point) =>
+    point.pixel && point.map
+      ? [{ pixel_x: point.pixel.x, pixel_y: point.pixel.y, lat: point.map.lat, lon: point.map.lon }]
+      : [],
+  );
+
+export const applyRasterGeoreference = (fit: RasterGeoreferenceFit, x: number, y: number): { lat: number; lon: number } =>
+  evaluate(fit, x, y);
+
+/**
+ * World file for the raster in EPSG:4326. A second-order fit cannot be expressed in a TFW, so the
+ * file then carries the best affine approximation through the same control points.
+ */
+export const computeTfwFromControlPoints = (points: RasterControlPoint[]): TfwParams => {
+  const affine = fitRasterGeoreference(points, 1);
+  const [, lonU, lonV] = affine.lonCoefficients;
+  const [, latU, latV] = affine.latCoefficients;
+  const topLeft = applyRasterGeoreference(affine, 0.5, 0.5);
+  return {
+    pixelSizeX: lonU / affine.scale,
+    rotationY: latU / affine.scale,
+    rotationX: lonV / affine.scale,
+    pixelSizeY: latV / affine.scale,
+    topLeftX: topLeft.lon,
+    topLeftY: topLeft.lat,
+  };
+};
+
+/** Axis-aligned envelope of the warped raster, sampled along the image edges. */
+export const computeGeoreferencedBounds = (fit: RasterGeoreferenceFit, width: number, height: number): RasterBounds => {
+  const samples = 8;
+  const points: Array<{ lat: number; lon: number }> = [];
+  for (let i = 0; i <= samples; i += 1) {
+    const t = i / samples;
+    points.push(
+      applyRasterGeoreference(fit, t * width, 0),
+      applyRasterGeoreference(fit, t * width, height),
+      applyRasterGeoreference(fit, 0, t * height),
+      applyRasterGeoreference(fit, width, t * height),
+    );
+  }
+  return {
+    north: Math.max(...points.map((point) => point.lat)),
+    south: Math.min(...points.map((point) => point.lat)),
+    east: Math.max(...points.map((point) => point.lon)),
+    west: Math.min(...points.map((point) => point.lon)),
+  };
+};
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+/** Validates a stored georeference; entries that can no longer be fitted are dropped. */
+export const normalizeRasterGeoreference = (value: unknown): RasterGeoreference | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const candidate = value as Record<string, unknown>;
+  const order = candidate.order === 2 ? 2 : candidate.order === 1 ? 1 : null;
+  if (order === null || !isPositiveInteger(candidate.image_width) || !isPositiveInteger(candidate.image_height)) {
+    return undefined;
+  }
+  const controlPoints = normalizeRasterControlPoints(candidate.control_points);
+  if (controlPoints.length < MIN_CONTROL_POINTS[order]) return undefined;
+  return {
+    order,
+    image_width: candidate.image_width,
+    image_height: candidate.image_height,
+    control_points: controlPoints,
+  };
+};
+
+export const normalizeRasterControlPoints = (value: unknown): RasterControlPoint[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item) => {
+    if (typeof item !== 'object' || item === null) return [];
+    const candidate = item as Record<string, unknown>;
+    const fields = [candidate.pixel_x, candidate.pixel_y, candidate.lat, candidate.lon];
+    if (!fields.every((field) => typeof field === 'number' && Number.isFinite(field))) return [];
+    return [
+      {
+        pixel_x: candidate.pixel_x as number,
+        pixel_y: candidate.pixel_y as number,
+        lat: candidate.lat as number,
+        lon: candidate.lon as number,
+      },
+    ];
+  });
+};
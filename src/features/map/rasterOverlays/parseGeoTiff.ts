@@ -57,26 +57,38 @@ const parseIfd = (view: DataView, ifdOffset: number, endian: Endian): TiffEntry[
 
 const findEntry = (entries: TiffEntry[], tag: number): TiffEntry | undefined => entries.find((e) => e.tag === tag);
 
+const GEOGRAPHIC_TYPE_GEO_KEY = 2048;
+const PROJECTED_CS_TYPE_GEO_KEY = 3072;
+const USER_DEFINED_GEO_KEY_VALUE = 32767;
+
+/** ProjectedCSTypeGeoKey wins over GeographicTypeGeoKey: a projected GeoTIFF carries both. */
 const resolveEpsg = (view: DataView, entries: TiffEntry[], endian: Endian): number | null => {
   const geoKeyDirEntry = findEntry(entries, 34735);
   if (!geoKeyDirEntry) return null;
   const keys = readValueArray(view, geoKeyDirEntry, endian);
   if (keys.length < 4) return null;
   const keyCount = keys[3];
+  const codes = new Map<number, number>();
   for (let i = 0; i < keyCount; i += 1) {
     const idx = 4 + i * 4;
     const keyId = keys[idx];
     const tiffTagLocation = keys[idx + 1];
     const count = keys[idx + 2];
     const valueOffset = keys[idx + 3];
-    if ((keyId === 2048 || keyId === 3072) && count >= 1) {
-      if (tiffTagLocation === 0) return valueOffset;
+    if ((keyId === GEOGRAPHIC_TYPE_GEO_KEY || keyId === PROJECTED_CS_TYPE_GEO_KEY) && count >= 1) {
+      if (tiffTagLocation === 0) {
+        codes.set(keyId, valueOffset);
+        continue;
+      }
       const refEntry = findEntry(entries, tiffTagLocation);
-      if (!refEntry) return null;
-      const refValues = readValueArray(view, refEntry, endian);
-      return refValues[valueOffset] ?? null;
+      const refValue = refEntry ? readValueArray(view, refEntry, endian)[valueOffset] : undefined;
+      if (typeof refValue === 'number') codes.set(keyId, refValue);
     }
   }
+  for (const keyId of [PROJECTED_CS_TYPE_GEO_KEY, GEOGRAPHIC_TYPE_GEO_KEY]) {
+    const code = codes.get(keyId);
+    if (typeof code === 'number' && code > 0 && code !== USER_DEFINED_GEO_KEY_VALUE) return code;
+  }
   return null;
 };
 
@@ -89,3 +89,15 @@ export const computeBoundsFromTfw = (
     west: Math.min(east, west),
   };
 };
+
+export const formatTfw = (params: TfwParams): string =>
+  [
+    params.pixelSizeX,
+    params.rotationY,
+    params.rotationX,
+    params.pixelSizeY,
+    params.topLeftX,
+    params.topLeftY,
+  ]
+    .map((value) => String(value))
+    .join('\n') + '\n';
@@ -1,5 +1,6 @@
 import type { RasterBounds } from '@/features/map/rasterOverlays/bounds';
 import { utmToWgs84, type UtmHemisphere } from '@/features/geo/utm';
+import { createCrsToWgs84Transformer, formatCrsLabel, type CrsDefinition } from '@/features/geo/crsRegistry';
 
 const WEB_MERCATOR_MAX = 20037508.342789244;
 const EARTH_RADIUS_M = 6378137;
@@ -66,3 +67,39 @@ export const convertUtmBoundsToEpsg4326 = (
     west: Math.min(...lons),
   };
 };
+
+const CRS_BOUNDS_EDGE_SAMPLES = 8;
+
+/**
+ * Converts raster bounds given in an arbitrary CRS. Edges are sampled, not only corners, because
+ * meridians and parallels of a projected grid are curved in WGS84.
+ */
+export const convertCrsBoundsToEpsg4326 = (bounds: RasterBounds, crs: CrsDefinition): RasterBounds => {
+  if (bounds.north < bounds.south || bounds.east < bounds.west) {
+    throw new Error(`Некорректные координаты растра (${formatCrsLabel(crs)}): нарушен порядок границ.`);
+  }
+  const toWgs84 = createCrsToWgs84Transformer(crs);
+  const lats: number[] = [];
+  const lons: number[] = [];
+  for (let i = 0; i <= CRS_BOUNDS_EDGE_SAMPLES; i += 1) {
+    const t = i / CRS_BOUNDS_EDGE_SAMPLES;
+    const x = bounds.west + (bounds.east - bounds.west) * t;
+    const y = bounds.south + (bounds.north - bounds.south) * t;
+    for (const point of [
+      toWgs84({ x, y: bounds.north }),
+      toWgs84({ x, y: bounds.south }),
+      toWgs84({ x: bounds.west, y }),
+      toWgs84({ x: bounds.east, y }),
+    ]) {
+      lats.push(point.lat);
+      lons.push(point.lon);
+    }
+  }
+
+  return {
+    north: Math.max(...lats),
+    south: Math.min(...lats),
+    east: Math.max(...lons),
+    west: Math.min(...lons),
+  };
+};
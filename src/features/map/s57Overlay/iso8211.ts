@@ -0,0 +1,253 @@
+/**
+ * Minimal ISO/IEC 8211 reader: enough of the standard to walk the data records of an S-57 exchange
+ * set. The descriptive record (DDR) supplies subfield labels and binary formats for every field tag.
+ */
+
+const FIELD_TERMINATOR = 0x1e;
+const UNIT_TERMINATOR = 0x1f;
+const LEADER_LENGTH = 24;
+
+export type Iso8211SubfieldValue = number | string | Uint8Array;
+
+/** One occurrence of the subfield group; repeating fields (`*YCOO!XCOO`) yield several rows. */
+export type Iso8211FieldRow = Record<string, Iso8211SubfieldValue>;
+
+export type Iso8211Field = {
+  tag: string;
+  rows: Iso8211FieldRow[];
+};
+
+export type Iso8211Record = {
+  fields: Iso8211Field[];
+};
+
+type SubfieldFormat =
+  | { kind: 'text'; width: number | null }
+  | { kind: 'int'; width: number | null }
+  | { kind: 'real'; width: number | null }
+  | { kind: 'binary-int'; signed: boolean; bytes: number }
+  | { kind: 'bits'; bytes: number };
+
+type FieldDefinition = {
+  labels: string[];
+  repeating: boolean;
+  formats: SubfieldFormat[];
+};
+
+type DirectoryEntry = {
+  tag: string;
+  length: number;
+  position: number;
+};
+
+const readAscii = (bytes: Uint8Array, start: number, end: number): string => {
+  let text = '';
+  for (let i = start; i < end; i += 1) {
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text;
+};
+
+const readAsciiInt = (bytes: Uint8Array, start: number, length: number): number => {
+  const value = Number.parseInt(readAscii(bytes, start, start + length).trim(), 10);
+  if (!Number.isFinite(value)) {
+    throw new Error('Повреждён заголовок записи ISO 8211.');
+  }
+  return value;
+};
+
+const readLeaderAndDirectory = (
+  bytes: Uint8Array,
+  offset: number,
+): { recordLength: number; fieldAreaStart: number; entries: DirectoryEntry[]; fieldControlLength: number } => {
+  if (offset + LEADER_LENGTH > bytes.length) {
+    throw new Error('Файл S-57 обрезан: запись ISO 8211 неполная.');
+  }
+  const recordLength = readAsciiInt(bytes, offset, 5);
+  const baseAddress = readAsciiInt(bytes, offset + 12, 5);
+  const fieldControlText = readAscii(bytes, offset + 10, offset + 12).trim();
+  const fieldControlLength = fieldControlText ? Number.parseInt(fieldControlText, 10) : 0;
+  const sizeOfLength = readAsciiInt(bytes, offset + 20, 1);
+  const sizeOfPosition = readAsciiInt(bytes, offset + 21, 1);
+  const sizeOfTag = readAsciiInt(bytes, offset + 23, 1);
+  if (recordLength < LEADER_LENGTH || offset + recordLength > bytes.length || baseAddress > recordLength) {
+    throw new Error('Файл S-57 обрезан: запись ISO 8211 неполная.');
+  }
+
+  const entrySize = sizeOfTag + sizeOfLength + sizeOfPosition;
+  const entries: DirectoryEntry[] = [];
+  for (let cursor = offset + LEADER_LENGTH; bytes[cursor] !== FIELD_TERMINATOR; cursor += entrySize) {
+    if (cursor + entrySize > offset + baseAddress) {
+      throw new Error('Повреждён каталог полей записи ISO 8211.');
+    }
+    entries.push({
+      tag: readAscii(bytes, cursor, cursor + sizeOfTag),
+      length: readAsciiInt(bytes, cursor + sizeOfTag, sizeOfLength),
+      position: readAsciiInt(bytes, cursor + sizeOfTag + sizeOfLength, sizeOfPosition),
+    });
+  }
+  return { recordLength, fieldAreaStart: offset + baseAddress, entries, fieldControlLength };
+};
+
+const parseSubfieldFormat = (spec: string): SubfieldFormat => {
+  const widthMatch = /\((\d+)\)$/.exec(spec);
+  const width = widthMatch ? Number.parseInt(widthMatch[1], 10) : null;
+  switch (spec[0]) {
+    case 'A':
+      return { kind: 'text', width };
+    case 'I':
+      return { kind: 'int', width };
+    case 'R':
+      return { kind: 'real', width };
+    case 'B':
+      return { kind: 'bits', bytes: Math.ceil((width ?? 0) / 8) };
+    case 'b': {
+      const signed = spec[1] === '2';
+      const size = Number.parseInt(spec.slice(2), 10);
+      if (!signed && spec[1] !== '1') break;
+      if (size !== 1 && size !== 2 && size !== 4) break;
+      return { kind: 'binary-int', signed, bytes: size };
+    }
+    default:
+      break;
+  }
+  throw new Error(`Неподдерживаемый формат подполя ISO 8211: ${spec}`);
+};
+
+/** Expands `(b11,b14,2b11,A)` and nested repeats such as `(A,3(b24))` into one format per subfield. */
+const parseFormatControls = (controls: string): SubfieldFormat[] => {
+  const trimmed = controls.trim();
+  const body = trimmed.startsWith('(') && trimmed.endsWith(')') ? trimmed.slice(1, -1) : trimmed;
+
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === ',' && depth === 0) {
+      items.push(current);
+      current = '';
+      continue;
+    }
+    if (char === '(') depth += 1;
+    if (char === ')') depth -= 1;
+    current += char;
+  }
+  if (current) items.push(current);
+
+  return items.flatMap((item): SubfieldFormat[] => {
+    const match = /^(\d*)(.*)$/.exec(item.trim());
+    const repeat = match && match[1] ? Number.parseInt(match[1], 10) : 1;
+    const spec = match ? match[2] : item.trim();
+    const expanded = spec.startsWith('(') ? parseFormatControls(spec) : [parseSubfieldFormat(spec)];
+    return Array.from({ length: repeat }, () => expanded).flat();
+  });
+};
+
+const parseFieldDefinition = (bytes: Uint8Array, start: number, end: number, controlLength: number): FieldDefinition => {
+  const dataEnd = end > start && bytes[end - 1] === FIELD_TERMINATOR ? end - 1 : end;
+  const parts = readAscii(bytes, start + controlLength, dataEnd).split(String.fromCharCode(UNIT_TERMINATOR));
+  const descriptor = parts[1] ?? '';
+  const repeating = descriptor.startsWith('*');
+  const labels = (repeating ? descriptor.slice(1) : descriptor).split('!').filter((label) => label.length > 0);
+  const formats = parts[2] ? parseFormatControls(parts[2]) : [];
+  return { labels, repeating, formats };
+};
+
+const readSubfield = (
+  bytes: Uint8Array,
+  offset: number,
+  end: number,
+  format: SubfieldFormat,
+): { value: Iso8211SubfieldValue; next: number } => {
+  if (format.kind === 'binary-int') {
+    if (offset + format.bytes > end) throw new Error('Повреждено двоичное подполе ISO 8211.');
+    const view = new DataView(bytes.buffer, bytes.byteOffset + offset, format.bytes);
+    const value =
+      format.bytes === 1
+        ? format.signed
+          ? view.getInt8(0)
+          : view.getUint8(0)
+        : format.bytes === 2
+          ? format.signed
+            ? view.getInt16(0, true)
+            : view.getUint16(0, true)
+          : format.signed
+            ? view.getInt32(0, true)
+            : view.getUint32(0, true);
+    return { value, next: offset + format.bytes };
+  }
+  if (format.kind === 'bits') {
+    return { value: bytes.subarray(offset, offset + format.bytes), next: offset + format.bytes };
+  }
+
+  let stop: number;
+  let next: number;
+  if (format.width !== null) {
+    stop = Math.min(offset + format.width, end);
+    next = stop;
+  } else {
+    stop = offset;
+    while (stop < end && bytes[stop] !== UNIT_TERMINATOR && bytes[stop] !== FIELD_TERMINATOR) stop += 1;
+    next = stop < end && bytes[stop] === UNIT_TERMINATOR ? stop + 1 : stop;
+  }
+  const text = readAscii(bytes, offset, stop);
+  if (format.kind === 'text') return { value: text, next };
+  const number = format.kind === 'int' ? Number.parseInt(text, 10) : Number.parseFloat(text);
+  return { value: Number.isFinite(number) ? number : text, next };
+};
+
+const decodeField = (bytes: Uint8Array, start: number, end: number, definition: FieldDefinition): Iso8211FieldRow[] => {
+  // Every field ends with a field terminator that is not part of the data.
+  const dataEnd = end > start && bytes[end - 1] === FIELD_TERMINATOR ? end - 1 : end;
+  const { labels, formats } = definition;
+  if (labels.length === 0 || formats.length === 0) return [];
+
+  const rows: Iso8211FieldRow[] = [];
+  let offset = start;
+  do {
+    const row: Iso8211FieldRow = {};
+    for (let i = 0; i < labels.length; i += 1) {
+      const format = formats[i % formats.length];
+      const { value, next } = readSubfield(bytes, offset, dataEnd, format);
+      row[labels[i]] = value;
+      offset = next;
+    }
+    rows.push(row);
+  } while (definition.repeating && offset < dataEnd);
+  return rows;
+};
+
+/** Reads every data record of an ISO 8211 file; field `0001` (record identifier) is skipped. */
+export const readIso8211Records = (buffer: ArrayBuffer | Uint8Array): Iso8211Record[] => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  if (bytes.length < LEADER_LENGTH || bytes[6] !== 0x4c /* 'L' */) {
+    throw new Error('Файл не является ячейкой S-57 (ISO 8211).');
+  }
+
+  const ddr = readLeaderAndDirectory(bytes, 0);
+  const definitions = new Map<string, FieldDefinition>();
+  for (const entry of ddr.entries) {
+    if (entry.tag === '0000') continue;
+    const start = ddr.fieldAreaStart + entry.position;
+    definitions.set(entry.tag, parseFieldDefinition(bytes, start, start + entry.length, ddr.fieldControlLength));
+  }
+
+  const records: Iso8211Record[] = [];
+  let offset = ddr.recordLength;
+  while (offset < bytes.length) {
+    // Some producers pad the file after the last record.
+    if (bytes[offset] === 0 || bytes[offset] === 0x20) break;
+    const record = readLeaderAndDirectory(bytes, offset);
+    const fields: Iso8211Field[] = [];
+    for (const entry of record.entries) {
+      if (entry.tag === '0001') continue;
+      const definition = definitions.get(entry.tag);
+      if (!definition) continue;
+      const start = record.fieldAreaStart + entry.position;
+      fields.push({ tag: entry.tag, rows: decodeField(bytes, start, start + entry.length, definition) });
+    }
+    records.push({ fields });
+    offset += record.recordLength;
+  }
+  return records;
+};
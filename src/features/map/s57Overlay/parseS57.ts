@@ -0,0 +1,322 @@
+import type {
+  DxfOverlayFeatureCollection,
+  DxfOverlayGeometry,
+  DxfOverlayLayer,
+} from '@/features/map/dxfOverlay/parseDxf';
+import { readIso8211Records, type Iso8211FieldRow, type Iso8211Record } from './iso8211';
+
+type LatLon = { lat: number; lon: number };
+
+type VectorRecord = {
+  points: LatLon[];
+  soundings: Array<LatLon & { depth: number }>;
+  beginNode?: string;
+  endNode?: string;
+};
+
+type FeaturePointer = {
+  key: string;
+  /** 1 — forward, 2 — reverse, 255 — not relevant. */
+  orientation: number;
+};
+
+type FeatureRecord = {
+  primitive: number;
+  objectClass: number;
+  attributes: Map<number, string>;
+  pointers: FeaturePointer[];
+};
+
+const PRIM_POINT = 1;
+const PRIM_LINE = 2;
+const PRIM_AREA = 3;
+const RCNM_EDGE = 130;
+const ORIENTATION_REVERSE = 2;
+
+const ATTL_COLOUR = 75;
+const ATTL_DRVAL1 = 87;
+const ATTL_OBJNAM = 116;
+const ATTL_VALDCO = 174;
+
+/**
+ * Depth thresholds of the simplified S-52 day palette. ECDIS lets the mariner set them; here they are
+ * fixed to the usual defaults for small craft.
+ */
+const SHALLOW_CONTOUR_M = 2;
+const SAFETY_CONTOUR_M = 10;
+const DEEP_CONTOUR_M = 30;
+
+const DEPTH_AREA_COLORS = {
+  drying: '#83b295',
+  veryShallow: '#73b6ef',
+  shallow: '#98c5f2',
+  medium: '#bad5e1',
+  deep: '#d4eaee',
+};
+const SOUNDING_SHALLOW_COLOR = '#000000';
+const SOUNDING_DEEP_COLOR = '#7d898c';
+const HAZARD_COLOR = '#c545c3';
+const AID_DEFAULT_COLOR = '#000000';
+
+/** S-57 COLOUR attribute values. */
+const AID_COLORS: Record<number, string> = {
+  1: '#f5f5f5',
+  2: '#000000',
+  3: '#d9262e',
+  4: '#3ba55c',
+  5: '#2b6cb0',
+  6: '#e8c000',
+  7: '#7d898c',
+  8: '#8b5a2b',
+  9: '#ffb000',
+  10: '#7c3aed',
+  11: '#f97316',
+  12: '#c545c3',
+  13: '#f9a8d4',
+};
+
+type S57ObjectClass = {
+  acronym: string;
+  /** Layer colour shown in the layer list; null when features are coloured by their attributes. */
+  color: string | null;
+  /** Drawing order: areas first, then lines, soundings and symbols on top. */
+  order: number;
+};
+
+/** Object classes drawn on the overlay, keyed by the S-57 OBJL code. */
+const S57_OBJECT_CLASSES: Record<number, S57ObjectClass> = {
+  42: { acronym: 'DEPARE', color: null, order: 0 },
+  71: { acronym: 'LNDARE', color: '#c9b97a', order: 1 },
+  43: { acronym: 'DEPCNT', color: '#7d898c', order: 2 },
+  30: { acronym: 'COALNE', color: '#525a5c', order: 3 },
+  129: { acronym: 'SOUNDG', color: null, order: 4 },
+  86: { acronym: 'OBSTRN', color: HAZARD_COLOR, order: 5 },
+  153: { acronym: 'UWTROC', color: HAZARD_COLOR, order: 5 },
+  159: { acronym: 'WRECKS', color: HAZARD_COLOR, order: 5 },
+  5: { acronym: 'BCNCAR', color: null, order: 6 },
+  6: { acronym: 'BCNISD', color: null, order: 6 },
+  7: { acronym: 'BCNLAT', color: null, order: 6 },
+  8: { acronym: 'BCNSAW', color: null, order: 6 },
+  9: { acronym: 'BCNSPP', color: null, order: 6 },
+  14: { acronym: 'BOYCAR', color: null, order: 6 },
+  15: { acronym: 'BOYINB', color: null, order: 6 },
+  16: { acronym: 'BOYISD', color: null, order: 6 },
+  17: { acronym: 'BOYLAT', color: null, order: 6 },
+  18: { acronym: 'BOYSAW', color: null, order: 6 },
+  19: { acronym: 'BOYSPP', color: null, order: 6 },
+};
+
+export const SUPPORTED_S57_OBJECTS_LABEL = 'DEPARE/DEPCNT/SOUNDG/COALNE/LNDARE/WRECKS/OBSTRN/UWTROC/буи/знаки';
+
+const findField = (record: Iso8211Record, tag: string): Iso8211FieldRow[] | null =>
+  record.fields.find((field) => field.tag === tag)?.rows ?? null;
+
+const toNumber = (value: unknown): number => (typeof value === 'number' ? value : Number.NaN);
+
+/** NAME subfield of pointer fields: RCNM byte followed by a little-endian 32-bit RCID. */
+const nameToKey = (value: unknown): string | null => {
+  if (!(value instanceof Uint8Array) || value.length < 5) return null;
+  const rcid = (value[1] | (value[2] << 8) | (value[3] << 16) | (value[4] << 24)) >>> 0;
+  return `${value[0]}:${rcid}`;
+};
+
+const samePoint = (a: LatLon, b: LatLon): boolean => Math.abs(a.lat - b.lat) < 1e-9 && Math.abs(a.lon - b.lon) < 1e-9;
+
+const isClosed = (points: LatLon[]): boolean => points.length >= 4 && samePoint(points[0], points[points.length - 1]);
+
+const formatDepth = (depth: number): string => {
+  const rounded = depth >= DEEP_CONTOUR_M ? Math.round(depth) : Math.round(depth * 10) / 10;
+  return String(rounded);
+};
+
+const resolveDepthAreaColor = (shallowDepth: number): string => {
+  if (!Number.isFinite(shallowDepth)) return DEPTH_AREA_COLORS.medium;
+  if (shallowDepth < 0) return DEPTH_AREA_COLORS.drying;
+  if (shallowDepth < SHALLOW_CONTOUR_M) return DEPTH_AREA_COLORS.veryShallow;
+  if (shallowDepth < SAFETY_CONTOUR_M) return DEPTH_AREA_COLORS.shallow;
+  if (shallowDepth < DEEP_CONTOUR_M) return DEPTH_AREA_COLORS.medium;
+  return DEPTH_AREA_COLORS.deep;
+};
+
+const resolveAidColor = (colour: string | undefined): string => {
+  // COLOUR is a list such as "3,1,3"; the first colour is the dominant one.
+  const first = Number.parseInt(colour?.split(',')[0] ?? '', 10);
+  return AID_COLORS[first] ?? AID_DEFAULT_COLOR;
+};
+
+const textLabel = (text: string) => ({ text, height: 0, rotation_deg: 0 });
+
+/** Joins edges in FSPT order; a gap or a closed ring starts a new part. */
+const chainEdges = (pointers: FeaturePointer[], edgeGeometry: (key: string) => LatLon[] | null): LatLon[][] => {
+  const parts: LatLon[][] = [];
+  let current: LatLon[] = [];
+  for (const pointer of pointers) {
+    const edge = edgeGeometry(pointer.key);
+    if (!edge || edge.length < 2) continue;
+    const coords = pointer.orientation === ORIENTATION_REVERSE ? [...edge].reverse() : edge;
+    if (current.length > 0 && !isClosed(current) && samePoint(current[current.length - 1], coords[0])) {
+      current.push(...coords.slice(1));
+      continue;
+    }
+    if (current.length >= 2) parts.push(current);
+    current = [...coords];
+  }
+  if (current.length >= 2) parts.push(current);
+  return parts;
+};
+
+/**
+ * Parses an S-57 base cell (`*.000`) into overlay features. ENC coordinates are always WGS 84, so
+ * no projection is needed; each drawn object class becomes a layer named by its S-57 acronym.
+ */
+export const parseS57ToWgs84 = (buffer: ArrayBuffer | Uint8Array): DxfOverlayFeatureCollection => {
+  const records = readIso8211Records(buffer);
+
+  let coordinateFactor = 10_000_000;
+  let soundingFactor = 10;
+  const vectors = new Map<string, VectorRecord>();
+  const featureRecords: FeatureRecord[] = [];
+
+  for (const record of records) {
+    const dspm = findField(record, 'DSPM')?.[0];
+    if (dspm) {
+      const comf = toNumber(dspm.COMF);
+      const somf = toNumber(dspm.SOMF);
+      if (comf > 0) coordinateFactor = comf;
+      if (somf > 0) soundingFactor = somf;
+      continue;
+    }
+
+    const vrid = findField(record, 'VRID')?.[0];
+    if (vrid) {
+      const key = `${toNumber(vrid.RCNM)}:${toNumber(vrid.RCID)}`;
+      const vector: VectorRecord = { points: [], soundings: [] };
+      for (const row of findField(record, 'SG2D') ?? []) {
+        vector.points.push({ lat: toNumber(row.YCOO) / coordinateFactor, lon: toNumber(row.XCOO) / coordinateFactor });
+      }
+      for (const row of findField(record, 'SG3D') ?? []) {
+        vector.soundings.push({
+          lat: toNumber(row.YCOO) / coordinateFactor,
+          lon: toNumber(row.XCOO) / coordinateFactor,
+          depth: toNumber(row.VE3D) / soundingFactor,
+        });
+      }
+      for (const row of findField(record, 'VRPT') ?? []) {
+        const target = nameToKey(row.NAME);
+        if (!target) continue;
+        if (toNumber(row.TOPI) === 1) vector.beginNode = target;
+        if (toNumber(row.TOPI) === 2) vector.endNode = target;
+      }
+      vectors.set(key, vector);
+      continue;
+    }
+
+    const frid = findField(record, 'FRID')?.[0];
+    if (frid) {
+      const attributes = new Map<number, string>();
+      for (const row of findField(record, 'ATTF') ?? []) {
+        attributes.set(toNumber(row.ATTL), typeof row.ATVL === 'string' ? row.ATVL.trim() : String(row.ATVL ?? ''));
+      }
+      const pointers = (findField(record, 'FSPT') ?? []).flatMap((row): FeaturePointer[] => {
+        const key = nameToKey(row.NAME);
+        return key ? [{ key, orientation: toNumber(row.ORNT) }] : [];
+      });
+      featureRecords.push({ primitive: toNumber(frid.PRIM), objectClass: toNumber(frid.OBJL), attributes, pointers });
+    }
+  }
+
+  if (vectors.size === 0 && featureRecords.length === 0) {
+    throw new Error('В файле S-57 не найдены записи объектов и геометрии.');
+  }
+
+  const nodePoint = (key: string | undefined): LatLon | null => (key ? vectors.get(key)?.points[0] ?? null : null);
+  const edgeGeometry = (key: string): LatLon[] | null => {
+    if (!key.startsWith(`${RCNM_EDGE}:`)) return null;
+    const edge = vectors.get(key);
+    if (!edge) return null;
+    const begin = nodePoint(edge.beginNode);
+    const end = nodePoint(edge.endNode);
+    return [...(begin ? [begin] : []), ...edge.points, ...(end ? [end] : [])];
+  };
+
+  const ordered: Array<{ order: number; feature: DxfOverlayGeometry }> = [];
+  const push = (objectClass: S57ObjectClass, feature: DxfOverlayGeometry) => {
+    ordered.push({ order: objectClass.order, feature });
+  };
+
+  for (const featureRecord of featureRecords) {
+    const objectClass = S57_OBJECT_CLASSES[featureRecord.objectClass];
+    if (!objectClass) continue;
+    const layer = objectClass.acronym;
+    const attributes = featureRecord.attributes;
+
+    if (featureRecord.primitive === PRIM_POINT) {
+      for (const pointer of featureRecord.pointers) {
+        const vector = vectors.get(pointer.key);
+        if (!vector) continue;
+        if (layer === 'SOUNDG') {
+          for (const sounding of vector.soundings) {
+            push(objectClass, {
+              type: 'point',
+              point: { lat: sounding.lat, lon: sounding.lon },
+              label: textLabel(formatDepth(sounding.depth)),
+              layer,
+              color: sounding.depth <= SAFETY_CONTOUR_M ? SOUNDING_SHALLOW_COLOR : SOUNDING_DEEP_COLOR,
+            });
+          }
+          continue;
+        }
+        const point = vector.points[0];
+        if (!point) continue;
+        const color = objectClass.color ?? resolveAidColor(attributes.get(ATTL_COLOUR));
+        push(objectClass, { type: 'point', point, layer, color });
+        const name = attributes.get(ATTL_OBJNAM);
+        if (name) {
+          push(objectClass, { type: 'point', point, label: textLabel(name), layer, color });
+        }
+      }
+      continue;
+    }
+
+    if (featureRecord.primitive !== PRIM_LINE && featureRecord.primitive !== PRIM_AREA) continue;
+    const parts = chainEdges(featureRecord.pointers, edgeGeometry);
+    const color =
+      layer === 'DEPARE'
+        ? resolveDepthAreaColor(Number.parseFloat(attributes.get(ATTL_DRVAL1) ?? ''))
+        : objectClass.color;
+    // Closed area boundaries are filled with the palette colour; S-57 lists the exterior ring first.
+    const rings = featureRecord.primitive === PRIM_AREA ? parts.filter(isClosed) : [];
+    if (rings.length > 0) {
+      const [outer, ...holes] = rings;
+      push(objectClass, { type: 'polygon', points: outer, ...(holes.length > 0 ? { holes } : {}), layer, color });
+    }
+    for (const points of parts) {
+      if (rings.includes(points)) continue;
+      push(objectClass, { type: 'polyline', points, layer, color });
+    }
+
+    const contourDepth = Number.parseFloat(attributes.get(ATTL_VALDCO) ?? '');
+    if (layer === 'DEPCNT' && Number.isFinite(contourDepth)) {
+      for (const points of parts) {
+        push(objectClass, {
+          type: 'point',
+          point: points[Math.floor(points.length / 2)],
+          label: textLabel(formatDepth(contourDepth)),
+          layer,
+          color,
+        });
+      }
+    }
+  }
+
+  if (ordered.length === 0) {
+    throw new Error(`В ячейке S-57 не найдены поддерживаемые объекты (${SUPPORTED_S57_OBJECTS_LABEL}).`);
+  }
+
+  const features = ordered.sort((a, b) => a.order - b.order).map((item) => item.feature);
+  const usedLayers = new Set(features.map((feature) => feature.layer));
+  const layers: DxfOverlayLayer[] = Object.values(S57_OBJECT_CLASSES)
+    .filter((objectClass) => usedLayers.has(objectClass.acronym))
+    .map((objectClass) => ({ name: objectClass.acronym, color: objectClass.color, visible: true }));
+  return { features, layers };
+};
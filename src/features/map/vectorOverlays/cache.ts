@@ -1,6 +1,10 @@
-import type { DxfOverlayFeatureCollection } from '@/features/map/dxfOverlay/parseDxf';
+import type { DxfOverlayFeatureCollection, DxfOverlayLayer } from '@/features/map/dxfOverlay/parseDxf';
 
-export const VECTOR_OVERLAY_CACHE_SCHEMA_VERSION = 1;
+/**
+ * Version 2 added layer names, colours, text labels and the drawing layer table; version 3 added filled
+ * polygons, so S-57 caches with area outlines are parsed again.
+ */
+export const VECTOR_OVERLAY_CACHE_SCHEMA_VERSION = 3;
 
 export type VectorOverlayBounds = {
   north: number;
@@ -11,26 +15,30 @@ export type VectorOverlayBounds = {
 
 export type VectorOverlayMapData = {
   features: DxfOverlayFeatureCollection['features'];
+  layers?: DxfOverlayLayer[];
   bounds: VectorOverlayBounds;
 };
 
 export type VectorOverlayCacheSourceMeta = {
   file: string;
-  type: 'dxf' | 'dwg';
+  type: 'dxf' | 'dwg' | 's57' | 'contours';
   fileEncoding: 'utf8' | 'base64';
-  utmZone: number;
-  utmHemisphere: 'N' | 'S';
+  utmZone?: number;
+  utmHemisphere?: 'N' | 'S';
+  crs?: string;
 };
 
 type VectorOverlayCacheDocument = {
   schema_version: number;
   source_file: string;
-  source_type: 'dxf' | 'dwg';
+  source_type: 'dxf' | 'dwg' | 's57' | 'contours';
   source_encoding: 'utf8' | 'base64';
-  utm_zone: number;
-  utm_hemisphere: 'N' | 'S';
+  utm_zone?: number;
+  utm_hemisphere?: 'N' | 'S';
+  crs?: string;
   bounds: VectorOverlayBounds;
   features: DxfOverlayFeatureCollection['features'];
+  layers?: DxfOverlayLayer[];
 };
 
 const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
@@ -52,33 +60,67 @@ const isVectorOverlayBounds = (value: unknown): value is VectorOverlayBounds =>
   );
 };
 
+const isOptionalColor = (value: unknown): boolean =>
+  typeof value === 'undefined' || value === null || typeof value === 'string';
+
+const isTextLabel = (value: unknown): boolean => {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return typeof candidate.text === 'string' && isFiniteNumber(candidate.height) && isFiniteNumber(candidate.rotation_deg);
+};
+
 const isGeometry = (value: unknown): value is DxfOverlayFeatureCollection['features'][number] => {
   if (typeof value !== 'object' || value === null) return false;
   const candidate = value as Record<string, unknown>;
+  if (typeof candidate.layer !== 'undefined' && typeof candidate.layer !== 'string') return false;
+  if (!isOptionalColor(candidate.color)) return false;
   if (candidate.type === 'point') {
-    return isPoint(candidate.point);
+    return isPoint(candidate.point) && (typeof candidate.label === 'undefined' || isTextLabel(candidate.label));
   }
   if (candidate.type === 'polyline') {
     return Array.isArray(candidate.points) && candidate.points.length >= 2 && candidate.points.every(isPoint);
   }
+  if (candidate.type === 'polygon') {
+    return (
+      Array.isArray(candidate.points) &&
+      candidate.points.length >= 4 &&
+      candidate.points.every(isPoint) &&
+      (typeof candidate.holes === 'undefined' ||
+        (Array.isArray(candidate.holes) &&
+          candidate.holes.every((hole) => Array.isArray(hole) && hole.length >= 4 && hole.every(isPoint))))
+    );
+  }
   return false;
 };
 
+const isLayer = (value: unknown): value is DxfOverlayLayer => {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return typeof candidate.name === 'string' && isOptionalColor(candidate.color) && typeof candidate.visible === 'boolean';
+};
+
 const isVectorOverlayCacheDocument = (value: unknown): value is VectorOverlayCacheDocument => {
   if (typeof value !== 'object' || value === null) return false;
   const candidate = value as Record<string, unknown>;
   return (
     isFiniteNumber(candidate.schema_version) &&
     typeof candidate.source_file === 'string' &&
-    (candidate.source_type === 'dxf' || candidate.source_type === 'dwg') &&
+    (candidate.source_type === 'dxf' ||
+      candidate.source_type === 'dwg' ||
+      candidate.source_type === 's57' ||
+      candidate.source_type === 'contours') &&
     (candidate.source_encoding === 'utf8' || candidate.source_encoding === 'base64') &&
-    Number.isInteger(candidate.utm_zone) &&
-    Number(candidate.utm_zone) >= 1 &&
-    Number(candidate.utm_zone) <= 60 &&
-    (candidate.utm_hemisphere === 'N' || candidate.utm_hemisphere === 'S') &&
+    (candidate.source_type === 's57' ||
+      candidate.source_type === 'contours' ||
+      typeof candidate.crs === 'string' ||
+      (Number.isInteger(candidate.utm_zone) &&
+        Number(candidate.utm_zone) >= 1 &&
+        Number(candidate.utm_zone) <= 60 &&
+        (candidate.utm_hemisphere === 'N' || candidate.utm_hemisphere === 'S'))) &&
     isVectorOverlayBounds(candidate.bounds) &&
     Array.isArray(candidate.features) &&
-    candidate.features.every(isGeometry)
+    candidate.features.every(isGeometry) &&
+    (typeof candidate.layers === 'undefined' || (Array.isArray(candidate.layers) && candidate.layers.every(isLayer)))
   );
 };
 
@@ -87,7 +129,8 @@ const hasMatchingSourceMeta = (doc: VectorOverlayCacheDocument, sourceMeta: Vect
   doc.source_type === sourceMeta.type &&
   doc.source_encoding === sourceMeta.fileEncoding &&
   doc.utm_zone === sourceMeta.utmZone &&
-  doc.utm_hemisphere === sourceMeta.utmHemisphere;
+  doc.utm_hemisphere === sourceMeta.utmHemisphere &&
+  doc.crs === sourceMeta.crs;
 
 export const serializeVectorOverlayCache = (
   sourceMeta: VectorOverlayCacheSourceMeta,
@@ -98,10 +141,12 @@ export const serializeVectorOverlayCache = (
     source_file: sourceMeta.file,
     source_type: sourceMeta.type,
     source_encoding: sourceMeta.fileEncoding,
-    utm_zone: sourceMeta.utmZone,
-    utm_hemisphere: sourceMeta.utmHemisphere,
+    ...(sourceMeta.crs
+      ? { crs: sourceMeta.crs }
+      : { utm_zone: sourceMeta.utmZone, utm_hemisphere: sourceMeta.utmHemisphere }),
     bounds: data.bounds,
     features: data.features,
+    ...(data.layers ? { layers: data.layers } : {}),
   };
   return JSON.stringify(doc);
 };
@@ -118,6 +163,7 @@ export const parseVectorOverlayCache = (
     if (!hasMatchingSourceMeta(parsed, sourceMeta)) return null;
     return {
       features: parsed.features,
+      ...(parsed.layers ? { layers: parsed.layers } : {}),
       bounds: parsed.bounds,
     };
   } catch {
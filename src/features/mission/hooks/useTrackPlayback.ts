@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+type UseTrackPlaybackParams = {
+  startMs: number | null;
+  endMs: number | null;
+  tickMs?: number;
+};
+
+const DEFAULT_TICK_MS = 200;
+
+export const useTrackPlayback = ({ startMs, endMs, tickMs = DEFAULT_TICK_MS }: UseTrackPlaybackParams) => {
+  const [timeMs, setTimeMs] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const lastTickAtRef = useRef(0);
+
+  useEffect(() => {
+    if (startMs === null || endMs === null) {
+      setTimeMs(null);
+      setPlaying(false);
+      return;
+    }
+    setTimeMs((prev) => (prev === null ? startMs : Math.min(endMs, Math.max(startMs, prev))));
+  }, [endMs, startMs]);
+
+  useEffect(() => {
+    if (!playing || endMs === null) return;
+    lastTickAtRef.current = Date.now();
+    const intervalId = window.setInterval(() => {
+      const now = Date.now();
+      const elapsed = Math.max(0, now - lastTickAtRef.current) * speed;
+      lastTickAtRef.current = now;
+      setTimeMs((prev) => (prev === null ? prev : Math.min(endMs, prev + elapsed)));
+    }, tickMs);
+    return () => {
+      window.clearInterval(intervalId);
+    };
+  }, [endMs, playing, speed, tickMs]);
+
+  useEffect(() => {
+    if (playing && endMs !== null && timeMs !== null && timeMs >= endMs) {
+      setPlaying(false);
+    }
+  }, [endMs, playing, timeMs]);
+
+  const play = useCallback(() => {
+    if (startMs === null || endMs === null) return;
+    setTimeMs((prev) => (prev === null || prev >= endMs ? startMs : prev));
+    setPlaying(true);
+  }, [endMs, startMs]);
+
+  const pause = useCallback(() => {
+    setPlaying(false);
+  }, []);
+
+  const seek = useCallback(
+    (nextTimeMs: number) => {
+      if (startMs === null || endMs === null) return;
+      setTimeMs(Math.min(endMs, Math.max(startMs, nextTimeMs)));
+    },
+    [endMs, startMs],
+  );
+
+  return { timeMs, playing, speed, play, pause, seek, setSpeed };
+};
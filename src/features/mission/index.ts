@@ -15,9 +15,117 @@ export { buildTrackSegments, bundleToMapObjects, mapObjectsToGeoJson } from './m
 export type { TrackSegment } from './model/adapters';
 export { decimateSegments, epsilonDegFromMetersPerPixel, rdpSimplify } from './model/trackDecimation';
 export { generateLanesForZone } from './model/laneGeneration';
-export { isConvexZonePolygon, toConvexZonePolygon } from './model/zoneGeometry';
+export {
+  isConvexZonePolygon,
+  isSimpleZonePolygon,
+  normalizeZoneGeometry,
+  toConvexZonePolygon,
+} from './model/zoneGeometry';
+export type { ZoneGeometry } from './model/zoneGeometry';
 export { buildLaneTraversal } from './model/laneWaypoints';
 export type { LaneTraversal, LaneWaypoint } from './model/laneWaypoints';
+export {
+  DEFAULT_PATTERN_LEG_LENGTH_M,
+  generateSurveyPattern,
+  getDefaultPatternLegCount,
+  getSurveyPatternLabel,
+  isSurveyPatternId,
+  resolvePatternDatum,
+  surveyPatternIds,
+  surveyPatternParams,
+} from './model/surveyPatterns';
+export type { SearchPatternId, SurveyPatternId, SurveyPatternInput } from './model/surveyPatterns';
+export {
+  DEFAULT_PLANNED_SPEED_MPS,
+  DEFAULT_TURN_ALLOWANCE_S,
+  computeRouteProgress,
+  computeRouteTiming,
+  formatClockTime,
+  formatDurationHms,
+  resolvePlannedSpeedMps,
+} from './model/routeTiming';
+export type { RouteLegTiming, RouteProgress, RouteTiming, RouteTimingOptions } from './model/routeTiming';
+export {
+  DEFAULT_ARRIVAL_RADIUS_M,
+  advanceRouteFollowing,
+  buildObjectNavigationPath,
+  computeRouteGuidance,
+  createRouteFollowingAssignment,
+} from './model/routeFollowing';
+export type { RouteFollowingAssignment, RouteGuidance } from './model/routeFollowing';
+export {
+  ALARM_LOG_FILE,
+  MIN_STALE_FIX_THRESHOLD_S,
+  acknowledgeAlarms,
+  alarmRuleKinds,
+  appendAlarmLog,
+  createAlarmRule,
+  evaluateAlarmRules,
+  getAlarmRuleLabel,
+  getAlarmThresholdUnit,
+  normalizeAlarmRules,
+  reconcileAlarms,
+} from './model/alarms';
+export type {
+  ActiveAlarm,
+  AlarmAgentSnapshot,
+  AlarmBuoySnapshot,
+  AlarmCondition,
+  AlarmEvaluationContext,
+  AlarmLogEntry,
+  AlarmZoneSnapshot,
+} from './model/alarms';
+export {
+  JOURNAL_FILE_NAME,
+  JOURNAL_QUICK_ENTRIES,
+  appendJournalEntries,
+  createJournalEntry,
+  describeConnectionState,
+  describeTrackStatusChange,
+  diffTrackStatuses,
+  getJournalKindLabel,
+  journalToCsv,
+  loadJournal,
+  mergeJournalEntries,
+  parseJournal,
+} from './model/missionJournal';
+export type {
+  CreateJournalEntryInput,
+  JournalEntry,
+  JournalEntryKind,
+  JournalPosition,
+  TrackStatusChange,
+} from './model/missionJournal';
+export {
+  EDIT_HISTORY_COMPACTION_EVENTS,
+  EDIT_HISTORY_FILE_NAME,
+  EDIT_HISTORY_LIMIT,
+  EMPTY_EDIT_HISTORY,
+  appendEditHistoryEvents,
+  applyEditHistoryEvent,
+  createEditCommand,
+  loadEditHistory,
+  parseEditHistory,
+  pushEditCommand,
+  redoEditCommand,
+  replayEditHistory,
+  undoEditCommand,
+  writeEditHistorySnapshot,
+} from './model/editHistory';
+export type {
+  EditableMissionState,
+  EditCommand,
+  EditCommandKind,
+  EditHistory,
+  EditHistoryEvent,
+} from './model/editHistory';
+export { analyzeLaneCoverage, buildCoverageRerunRoute } from './model/laneCoverage';
+export type {
+  LaneCoverageGap,
+  LaneCoverageOptions,
+  LaneCoverageResult,
+  ZoneCoverageReport,
+} from './model/laneCoverage';
 export {
   cascadeDeleteZone,
   clearZoneLanesOutdated,
@@ -35,9 +143,28 @@ export {
   createElectronRwltComTelemetryProvider,
   createElectronZimaTelemetryProvider,
   createNoopTelemetryProvider,
+  createReplayTelemetryProvider,
   createSimulationTelemetryProvider,
+  TELEMETRY_REPLAY_MAX_SPEED,
+  TELEMETRY_REPLAY_MIN_SPEED,
+} from './model/telemetry';
+export type {
+  RawTelemetryPacket,
+  ReplayTelemetryProvider,
+  TelemetryConnectionState,
+  TelemetryEntityType,
+  TelemetryFix,
+  TelemetryProvider,
+  TelemetryReplayState,
 } from './model/telemetry';
-export type { RawTelemetryPacket, TelemetryConnectionState, TelemetryEntityType, TelemetryFix, TelemetryProvider } from './model/telemetry';
+export {
+  detectReplaySchema,
+  NMEA_REPLAY_SCHEMA_IDS,
+  parseEquipmentLog,
+  parseReplayFile,
+  parseReplayScenario,
+} from './model/telemetryReplay';
+export type { TelemetryReplayMessage, TelemetryReplaySchemaId, TelemetryReplaySource } from './model/telemetryReplay';
 export { computeRealtimeVisibilityState } from './model/realtimeVisibility';
 export type { RealtimeUiConnectionState, RealtimeVisibilityState } from './model/realtimeVisibility';
 export { createTrackRecorderState, trackRecorderReduce } from './model/trackRecorder';
@@ -46,7 +173,50 @@ export { createEquipmentLogger } from './model/equipmentLogger';
 export type { EquipmentLogger, EquipmentLoggerOptions } from './model/equipmentLogger';
 export { filterVisibleTrackSegments } from './model/trackVisibility';
 export type { ColoredTrackSegment } from './model/trackVisibility';
+export {
+  buildTrackPlaybackIndex,
+  buildTrackPlaybackSegments,
+  sampleAgentsAt,
+  sampleTrackAt,
+} from './model/trackPlayback';
+export type {
+  TrackPlaybackIndex,
+  TrackPlaybackSample,
+  TrackPlaybackSegment,
+  TrackPlaybackTrack,
+} from './model/trackPlayback';
+export {
+  ASCENT_RATE_LIMIT_MPM,
+  buildRouteProfile,
+  buildTrackProfile,
+  computeDiveStats,
+  profileToCsv,
+} from './model/depthProfile';
+export type { DiveProfileStats, ProfileSample } from './model/depthProfile';
+export {
+  analyzeDiverDives,
+  detectTrackDives,
+  diveReportToCsv,
+  REPETITIVE_DIVE_INTERVAL_S,
+  resolveAscentRateLimit,
+} from './model/diveAnalysis';
+export type {
+  AscentRateViolation,
+  DivePhase,
+  DivePhaseKind,
+  DiveRecord,
+  DiverDiveSummary,
+} from './model/diveAnalysis';
+export { checkMissionMigration, migrateMissionDocument, MISSION_MIGRATIONS } from './model/missionMigrations';
+export type {
+  MissionMigrationCheck,
+  MissionMigrationResult,
+  MissionMigrationStep,
+} from './model/missionMigrations';
+export { exportMissionPackage, importMissionPackage } from './model/missionPackage';
+export type { ImportedMissionPackage } from './model/missionPackage';
 export { useMissionAutosave } from './hooks/useMissionAutosave';
+export { useTrackPlayback } from './hooks/useTrackPlayback';
 export {
   createDefaultDiver,
   createDefaultDivers,
@@ -64,6 +234,7 @@ export {
   type MissionDocument,
   type MissionTrackMeta,
   type MissionUiState,
+  type MissionBasemapSettings,
   type SegmentLengthsMode,
   type RouteFeature,
   type MeasureFeature,
@@ -72,5 +243,7 @@ export {
   type LaneFeature,
   type NavigationSourceId,
   type DiverUiConfig,
+  type AlarmRule,
+  type AlarmRuleKind,
   type TrackPoint,
 } from './model/types';
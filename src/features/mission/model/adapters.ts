@@ -1,5 +1,6 @@
 import type { MapObject } from '@/features/map/model/types';
-import { normalizeLaneAngleDeg } from './laneAngle';
+import { normalizeLaneAngleDeg, normalizePatternCourseDeg } from './laneAngle';
+import { isSurveyPatternId } from './surveyPatterns';
 import type {
   FeatureCollection,
   MarkerFeature,
@@ -30,6 +31,17 @@ const getLaneColorFromStyle = (style?: Record<string, unknown>): string | undefi
   return undefined;
 };
 
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const toClosedRing = (points: Array<{ lat: number; lon: number }>): [number, number][] => {
+  const ring = points.map((point) => [point.lon, point.lat] as [number, number]);
+  return ring.length > 0 &&
+    (ring[0][0] !== ring[ring.length - 1][0] || ring[0][1] !== ring[ring.length - 1][1])
+    ? [...ring, ring[0]]
+    : ring;
+};
+
 export const bundleToMapObjects = (bundle: MissionBundle): MapObject[] => {
   const objects: MapObject[] = [];
 
@@ -44,6 +56,8 @@ export const bundleToMapObjects = (bundle: MissionBundle): MapObject[] => {
         visible: true,
         color: getColorFromStyle(feature.properties.style),
         note: feature.properties.note ?? undefined,
+        plannedSpeedMps:
+          typeof feature.properties.planned_speed_mps === 'number' ? feature.properties.planned_speed_mps : undefined,
         geometry: {
           type: 'route',
           points: feature.geometry.coordinates.map(([lon, lat]) => ({ lat, lon })),
@@ -74,7 +88,10 @@ export const bundleToMapObjects = (bundle: MissionBundle): MapObject[] => {
     }
 
     if (feature.properties.kind === 'survey_area' && feature.geometry.type === 'Polygon') {
-      const ring = feature.geometry.coordinates[0] ?? [];
+      const [ring = [], ...holeRings] = feature.geometry.coordinates;
+      const holes = holeRings
+        .filter((hole) => hole.length >= 3)
+        .map((hole) => hole.map(([lon, lat]) => ({ lat, lon })));
       objects.push({
         id: feature.properties.id,
         type: 'zone',
@@ -91,9 +108,34 @@ export const bundleToMapObjects = (bundle: MissionBundle): MapObject[] => {
           typeof feature.properties.lane_start_lat === 'number' && typeof feature.properties.lane_start_lon === 'number'
             ? { lat: feature.properties.lane_start_lat, lon: feature.properties.lane_start_lon }
             : undefined,
+        zoneConvexHull: feature.properties.convex_hull ?? true,
+        surveyPattern:
+          isSurveyPatternId(feature.properties.survey_pattern) && feature.properties.survey_pattern !== 'parallel'
+            ? feature.properties.survey_pattern
+            : undefined,
+        patternCourseDeg:
+          typeof feature.properties.pattern_course_deg === 'number'
+            ? normalizePatternCourseDeg(feature.properties.pattern_course_deg)
+            : undefined,
+        patternLegCount:
+          typeof feature.properties.pattern_leg_count === 'number' ? feature.properties.pattern_leg_count : undefined,
+        patternLegLengthM:
+          typeof feature.properties.pattern_leg_length_m === 'number'
+            ? feature.properties.pattern_leg_length_m
+            : undefined,
+        patternDatum:
+          typeof feature.properties.pattern_datum_lat === 'number' &&
+          typeof feature.properties.pattern_datum_lon === 'number'
+            ? { lat: feature.properties.pattern_datum_lat, lon: feature.properties.pattern_datum_lon }
+            : undefined,
+        plannedSpeedMps:
+          typeof feature.properties.planned_speed_mps === 'number' ? feature.properties.planned_speed_mps : undefined,
+        turnAllowanceS:
+          typeof feature.properties.turn_allowance_s === 'number' ? feature.properties.turn_allowance_s : undefined,
         geometry: {
           type: 'zone',
           points: ring.map(([lon, lat]) => ({ lat, lon })),
+          ...(holes.length > 0 ? { holes } : {}),
         },
       });
     }
@@ -147,6 +189,7 @@ export const mapObjectsToGeoJson = (
           note: object.note ?? null,
           created_at: now,
           updated_at: now,
+          ...(isPositiveNumber(object.plannedSpeedMps) ? { planned_speed_mps: object.plannedSpeedMps } : {}),
           ...(object.color ? { style: { color: object.color } } : {}),
         },
       });
@@ -174,12 +217,8 @@ export const mapObjectsToGeoJson = (
     }
 
     if (object.type === 'zone' && object.geometry.type === 'zone') {
-      const ring = object.geometry.points.map((point) => [point.lon, point.lat] as [number, number]);
-      const closedRing =
-        ring.length > 0 &&
-        (ring[0][0] !== ring[ring.length - 1][0] || ring[0][1] !== ring[ring.length - 1][1])
-          ? [...ring, ring[0]]
-          : ring;
+      const closedRing = toClosedRing(object.geometry.points);
+      const holeRings = (object.geometry.holes ?? []).map(toClosedRing);
       const surveyStyle: Record<string, unknown> = {};
       if (object.color) surveyStyle.color = object.color;
       if (object.laneColor) surveyStyle.lane_color = object.laneColor;
@@ -188,7 +227,7 @@ export const mapObjectsToGeoJson = (
         type: 'Feature',
         geometry: {
           type: 'Polygon',
-          coordinates: [closedRing],
+          coordinates: [closedRing, ...holeRings],
         },
         properties: {
           id: object.id || createId(),
@@ -199,12 +238,32 @@ export const mapObjectsToGeoJson = (
           updated_at: now,
           lane_angle_deg: normalizeLaneAngleDeg(typeof object.laneAngle === 'number' ? object.laneAngle : 0),
           lane_width_m: object.laneWidth ?? 5,
+          convex_hull: Boolean(object.zoneConvexHull),
           ...(typeof object.laneBearingDeg === 'number' && Number.isFinite(object.laneBearingDeg)
             ? { lane_bearing_deg: object.laneBearingDeg }
             : {}),
           ...(object.laneStart && Number.isFinite(object.laneStart.lat) && Number.isFinite(object.laneStart.lon)
             ? { lane_start_lat: object.laneStart.lat, lane_start_lon: object.laneStart.lon }
             : {}),
+          ...(object.surveyPattern && object.surveyPattern !== 'parallel'
+            ? { survey_pattern: object.surveyPattern }
+            : {}),
+          ...(typeof object.patternCourseDeg === 'number' && Number.isFinite(object.patternCourseDeg)
+            ? { pattern_course_deg: normalizePatternCourseDeg(object.patternCourseDeg) }
+            : {}),
+          ...(typeof object.patternLegCount === 'number' && Number.isFinite(object.patternLegCount)
+            ? { pattern_leg_count: object.patternLegCount }
+            : {}),
+          ...(typeof object.patternLegLengthM === 'number' && Number.isFinite(object.patternLegLengthM)
+            ? { pattern_leg_length_m: object.patternLegLengthM }
+            : {}),
+          ...(object.patternDatum && Number.isFinite(object.patternDatum.lat) && Number.isFinite(object.patternDatum.lon)
+            ? { pattern_datum_lat: object.patternDatum.lat, pattern_datum_lon: object.patternDatum.lon }
+            : {}),
+          ...(isPositiveNumber(object.plannedSpeedMps) ? { planned_speed_mps: object.plannedSpeedMps } : {}),
+          ...(typeof object.turnAllowanceS === 'number' && Number.isFinite(object.turnAllowanceS) && object.turnAllowanceS >= 0
+            ? { turn_allowance_s: object.turnAllowanceS }
+            : {}),
           ...(Object.keys(surveyStyle).length > 0 ? { style: surveyStyle } : {}),
         },
       });
@@ -0,0 +1,324 @@
+import { distanceMeters } from '@/features/geo/distance';
+import type { GeoPoint } from '@/features/map/model/types';
+import type { FileStoreBridge } from '@/platform/contracts';
+import { DEFAULT_TIMEOUT_MS } from './telemetry';
+import type { AlarmRule, AlarmRuleKind } from './types';
+
+export type AlarmAgentSnapshot = {
+  uid: string;
+  title: string;
+  fix: { lat: number; lon: number; depth: number; received_at: number } | null;
+};
+
+export type AlarmBuoySnapshot = {
+  buoy_id: number;
+  name: string;
+  battery_v: number | null;
+};
+
+export type AlarmZoneSnapshot = {
+  id: string;
+  name: string;
+  points: GeoPoint[];
+  holes?: GeoPoint[][];
+};
+
+export type AlarmEvaluationContext = {
+  agents: AlarmAgentSnapshot[];
+  baseStation: GeoPoint | null;
+  zones: AlarmZoneSnapshot[];
+  buoys: AlarmBuoySnapshot[];
+  nowMs: number;
+};
+
+/** A rule currently violated by one subject (diver, diver pair or buoy). */
+export type AlarmCondition = {
+  key: string;
+  rule_id: string;
+  kind: AlarmRuleKind;
+  subject_id: string;
+  subject_name: string;
+  message: string;
+};
+
+export type ActiveAlarm = AlarmCondition & {
+  raised_at: number;
+  acknowledged_at: number | null;
+};
+
+export type AlarmLogEntry = {
+  at: string;
+  event: 'raised' | 'cleared' | 'acknowledged';
+  rule_id: string;
+  kind: AlarmRuleKind;
+  subject_id: string;
+  subject_name: string;
+  message: string;
+};
+
+export const alarmRuleKinds: AlarmRuleKind[] = [
+  'zone_exit',
+  'zone_enter',
+  'max_depth',
+  'base_distance',
+  'diver_separation',
+  'stale_fix',
+  'low_battery',
+];
+
+const ALARM_RULE_LABELS: Record<AlarmRuleKind, string> = {
+  zone_exit: 'Выход из зоны',
+  zone_enter: 'Вход в зону',
+  max_depth: 'Максимальная глубина',
+  base_distance: 'Удаление от базовой станции',
+  diver_separation: 'Расстояние между водолазами',
+  stale_fix: 'Нет обновления позиции',
+  low_battery: 'Низкий заряд буя',
+};
+
+const ALARM_THRESHOLD_UNITS: Record<AlarmRuleKind, string | null> = {
+  zone_exit: null,
+  zone_enter: null,
+  max_depth: 'м',
+  base_distance: 'м',
+  diver_separation: 'м',
+  stale_fix: 'с',
+  low_battery: 'В',
+};
+
+const DEFAULT_THRESHOLDS: Record<AlarmRuleKind, number> = {
+  zone_exit: 0,
+  zone_enter: 0,
+  max_depth: 40,
+  base_distance: 200,
+  diver_separation: 30,
+  stale_fix: 30,
+  low_battery: 11,
+};
+
+/** Stale-fix alarms only make sense past the link timeout that already marks the source as lost. */
+export const MIN_STALE_FIX_THRESHOLD_S = DEFAULT_TIMEOUT_MS / 1000;
+
+export const ALARM_LOG_FILE = 'logs/alarms.jsonl';
+
+export const getAlarmRuleLabel = (kind: AlarmRuleKind): string => ALARM_RULE_LABELS[kind];
+
+export const getAlarmThresholdUnit = (kind: AlarmRuleKind): string | null => ALARM_THRESHOLD_UNITS[kind];
+
+const isAlarmRuleKind = (value: unknown): value is AlarmRuleKind =>
+  typeof value === 'string' && (alarmRuleKinds as string[]).includes(value);
+
+const createId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `alarm-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
+
+const normalizeThreshold = (kind: AlarmRuleKind, value: unknown): number => {
+  const threshold = typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : DEFAULT_THRESHOLDS[kind];
+  return kind === 'stale_fix' ? Math.max(MIN_STALE_FIX_THRESHOLD_S, threshold) : threshold;
+};
+
+export const createAlarmRule = (kind: AlarmRuleKind): AlarmRule => ({
+  id: createId(),
+  kind,
+  enabled: true,
+  agent_uid: null,
+  other_agent_uid: null,
+  zone_id: null,
+  threshold: normalizeThreshold(kind, undefined),
+});
+
+export const normalizeAlarmRules = (raw: unknown): AlarmRule[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((item): AlarmRule[] => {
+    if (!item || typeof item !== 'object') return [];
+    const record = item as Record<string, unknown>;
+    if (typeof record.id !== 'string' || !isAlarmRuleKind(record.kind)) return [];
+    const optionalId = (value: unknown) => (typeof value === 'string' && value ? value : null);
+    return [
+      {
+        id: record.id,
+        kind: record.kind,
+        enabled: record.enabled !== false,
+        agent_uid: optionalId(record.agent_uid),
+        other_agent_uid: optionalId(record.other_agent_uid),
+        zone_id: optionalId(record.zone_id),
+        threshold: normalizeThreshold(record.kind, record.threshold),
+      },
+    ];
+  });
+};
+
+const isPointInRing = (point: GeoPoint, ring: GeoPoint[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i, i += 1) {
+    const a = ring[i];
+    const b = ring[j];
+    if (a.lat > point.lat !== b.lat > point.lat) {
+      const lonAtLat = ((b.lon - a.lon) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lon;
+      if (point.lon < lonAtLat) inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const isPointInZone = (point: GeoPoint, zone: AlarmZoneSnapshot): boolean =>
+  zone.points.length >= 3 &&
+  isPointInRing(point, zone.points) &&
+  !(zone.holes ?? []).some((hole) => hole.length >= 3 && isPointInRing(point, hole));
+
+const formatMeters = (value: number): string => `${Math.round(value)} м`;
+
+const evaluateRule = (rule: AlarmRule, context: AlarmEvaluationContext): AlarmCondition[] => {
+  const condition = (subjectId: string, subjectName: string, message: string): AlarmCondition => ({
+    key: `${rule.id}:${subjectId}`,
+    rule_id: rule.id,
+    kind: rule.kind,
+    subject_id: subjectId,
+    subject_name: subjectName,
+    message,
+  });
+
+  if (rule.kind === 'low_battery') {
+    return context.buoys
+      .filter((buoy) => buoy.battery_v !== null && buoy.battery_v < rule.threshold)
+      .map((buoy) =>
+        condition(
+          `buoy-${buoy.buoy_id}`,
+          buoy.name,
+          `Заряд ${(buoy.battery_v as number).toFixed(1)} В ниже ${rule.threshold} В`,
+        ),
+      );
+  }
+
+  const agents = rule.agent_uid ? context.agents.filter((agent) => agent.uid === rule.agent_uid) : context.agents;
+
+  if (rule.kind === 'diver_separation') {
+    const other = context.agents.find((agent) => agent.uid === rule.other_agent_uid);
+    const agent = rule.agent_uid ? agents[0] : undefined;
+    if (!agent?.fix || !other?.fix || agent.uid === other.uid) return [];
+    const distance = distanceMeters(agent.fix, other.fix);
+    if (distance <= rule.threshold) return [];
+    return [
+      condition(
+        `${agent.uid}+${other.uid}`,
+        `${agent.title} — ${other.title}`,
+        `Расстояние ${formatMeters(distance)} больше ${formatMeters(rule.threshold)}`,
+      ),
+    ];
+  }
+
+  return agents.flatMap((agent): AlarmCondition[] => {
+    const { fix } = agent;
+    if (!fix) return [];
+    switch (rule.kind) {
+      case 'zone_exit':
+      case 'zone_enter': {
+        const zone = context.zones.find((item) => item.id === rule.zone_id);
+        if (!zone) return [];
+        const inside = isPointInZone(fix, zone);
+        if (rule.kind === 'zone_exit' && !inside) {
+          return [condition(agent.uid, agent.title, `Вне зоны «${zone.name}»`)];
+        }
+        if (rule.kind === 'zone_enter' && inside) {
+          return [condition(agent.uid, agent.title, `В зоне «${zone.name}»`)];
+        }
+        return [];
+      }
+      case 'max_depth':
+        return fix.depth > rule.threshold
+          ? [condition(agent.uid, agent.title, `Глубина ${fix.depth.toFixed(1)} м больше ${rule.threshold} м`)]
+          : [];
+      case 'base_distance': {
+        if (!context.baseStation) return [];
+        const distance = distanceMeters(context.baseStation, fix);
+        return distance > rule.threshold
+          ? [
+              condition(
+                agent.uid,
+                agent.title,
+                `Удаление ${formatMeters(distance)} больше ${formatMeters(rule.threshold)}`,
+              ),
+            ]
+          : [];
+      }
+      case 'stale_fix': {
+        const ageS = (context.nowMs - fix.received_at) / 1000;
+        return ageS > rule.threshold
+          ? [condition(agent.uid, agent.title, `Нет позиции ${Math.round(ageS)} с`)]
+          : [];
+      }
+      default:
+        return [];
+    }
+  });
+};
+
+export const evaluateAlarmRules = (rules: AlarmRule[], context: AlarmEvaluationContext): AlarmCondition[] =>
+  rules.filter((rule) => rule.enabled).flatMap((rule) => evaluateRule(rule, context));
+
+const toLogEntry = (alarm: AlarmCondition, event: AlarmLogEntry['event'], atMs: number): AlarmLogEntry => ({
+  at: new Date(atMs).toISOString(),
+  event,
+  rule_id: alarm.rule_id,
+  kind: alarm.kind,
+  subject_id: alarm.subject_id,
+  subject_name: alarm.subject_name,
+  message: alarm.message,
+});
+
+/**
+ * Merges freshly evaluated conditions into the active alarm list. New
+ * conditions are raised, vanished ones are cleared, and ongoing ones keep
+ * their raise time and acknowledgement while the message follows the data.
+ */
+export const reconcileAlarms = (
+  active: ActiveAlarm[],
+  conditions: AlarmCondition[],
+  nowMs: number,
+): { active: ActiveAlarm[]; log: AlarmLogEntry[] } => {
+  const activeByKey = new Map(active.map((alarm) => [alarm.key, alarm]));
+  const conditionKeys = new Set(conditions.map((item) => item.key));
+  const log: AlarmLogEntry[] = [];
+
+  const next = conditions.map((item): ActiveAlarm => {
+    const existing = activeByKey.get(item.key);
+    if (existing) return { ...existing, message: item.message, subject_name: item.subject_name };
+    log.push(toLogEntry(item, 'raised', nowMs));
+    return { ...item, raised_at: nowMs, acknowledged_at: null };
+  });
+  active.forEach((alarm) => {
+    if (!conditionKeys.has(alarm.key)) log.push(toLogEntry(alarm, 'cleared', nowMs));
+  });
+
+  return { active: next, log };
+};
+
+export const acknowledgeAlarms = (
+  active: ActiveAlarm[],
+  keys: string[] | 'all',
+  nowMs: number,
+): { active: ActiveAlarm[]; log: AlarmLogEntry[] } => {
+  const log: AlarmLogEntry[] = [];
+  const next = active.map((alarm) => {
+    if (alarm.acknowledged_at !== null || (keys !== 'all' && !keys.includes(alarm.key))) return alarm;
+    log.push(toLogEntry(alarm, 'acknowledged', nowMs));
+    return { ...alarm, acknowledged_at: nowMs };
+  });
+  return { active: next, log };
+};
+
+const normalizeRootPath = (path: string): string => path.replace(/\\/g, '/').replace(/\/+$/g, '');
+
+/** Appends alarm events to the mission's `logs/alarms.jsonl`, one JSON object per line. */
+export const appendAlarmLog = async (
+  fileStore: FileStoreBridge,
+  rootPath: string,
+  entries: AlarmLogEntry[],
+): Promise<void> => {
+  if (entries.length === 0) return;
+  const payload = entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+  await fileStore.appendText(`${normalizeRootPath(rootPath)}/${ALARM_LOG_FILE}`, payload);
+};
@@ -2,8 +2,10 @@ import type { MapObject } from '@/features/map/model/types';
 import type { AppUiDefaults } from '@/features/settings';
 import { mapObjectsToGeoJson } from './adapters';
 import type {
+  AlarmRule,
   DiverUiConfig,
   LaneFeature,
+  MissionBasemapSettings,
   MissionBundle,
   MissionDocument,
   MissionUiState,
@@ -62,12 +64,14 @@ export type BuildMissionBundleInput = {
   laneFeatures: LaneFeature[];
   followEnabled: boolean;
   layers: MissionLayersState;
+  basemap?: MissionBasemapSettings;
   divers: DiverUiConfig[];
   baseStationNavigationSource: NavigationSourceId | null;
   baseStationTrackColor: string;
   baseStationMarkerSizePx: number;
   rwltBuoys: NonNullable<MissionUiState['rwlt_buoys']>;
   hiddenTrackIds: string[];
+  alarmRules: AlarmRule[];
   baseStationTelemetry: BaseStationTelemetryState | null;
   mapView: MissionUiState['map_view'] | null;
   coordPrecision: number;
@@ -76,11 +80,13 @@ export type BuildMissionBundleInput = {
   styles: AppUiDefaults['styles'];
   rasterOverlays: NonNullable<MissionUiState['raster_overlays']>;
   vectorOverlays: NonNullable<MissionUiState['vector_overlays']>;
+  bathymetryLayers: NonNullable<MissionUiState['bathymetry_layers']>;
   leftPanelSectionsCollapsed: LeftPanelSectionsCollapsedState;
   rightPanelSectionsCollapsed: RightPanelSectionsCollapsedState;
   leftPanelWidthPx: number;
   rightPanelWidthPx: number;
   mapPanelsCollapsed: MapPanelsCollapsedState;
+  historyRevision?: number;
 };
 
 export const buildMissionBundle = (input: BuildMissionBundleInput): MissionBundle => {
@@ -101,6 +107,7 @@ export const buildMissionBundle = (input: BuildMissionBundleInput): MissionBundl
         grid: input.layers.grid,
         scale_bar: input.layers.scaleBar,
       },
+      ...(input.basemap ? { basemap: input.basemap } : {}),
       left_panel_sections: input.leftPanelSectionsCollapsed,
       right_panel_sections: input.rightPanelSectionsCollapsed,
       panel_layout: {
@@ -124,6 +131,8 @@ export const buildMissionBundle = (input: BuildMissionBundleInput): MissionBundl
           : {}),
       },
       rwlt_buoys: input.rwltBuoys,
+      alarm_rules: input.alarmRules,
+      ...(input.historyRevision !== undefined ? { history_revision: input.historyRevision } : {}),
       ...(input.mapView ? { map_view: input.mapView } : {}),
       coordinates: { precision: input.coordPrecision },
       measurements: {
@@ -133,6 +142,7 @@ export const buildMissionBundle = (input: BuildMissionBundleInput): MissionBundl
       },
       raster_overlays: input.rasterOverlays,
       vector_overlays: input.vectorOverlays,
+      bathymetry_layers: input.bathymetryLayers,
       styles: {
         track: { ...input.styles.track },
         route: { ...input.styles.route },
@@ -0,0 +1,218 @@
+import { distanceMeters, initialBearingDeg } from '@/features/geo/distance';
+import type { TrackPoint } from './types';
+
+/** One point of a depth/speed/course profile; values that were not measured are null. */
+export type ProfileSample = {
+  /** Null for planned profiles (routes), which have no time axis. */
+  timeMs: number | null;
+  distanceM: number;
+  lat: number;
+  lon: number;
+  depthM: number | null;
+  speedMps: number | null;
+  courseDeg: number | null;
+};
+
+export type DiveProfileStats = {
+  maxDepthM: number;
+  /** From leaving the surface to surfacing. */
+  diveTimeS: number;
+  /** From leaving the surface to the start of the final ascent. */
+  bottomTimeS: number;
+  maxAscentRateMpm: number;
+  maxDescentRateMpm: number;
+  /** Average rate of the final ascent. */
+  finalAscentRateMpm: number;
+  ascentRateLimitMpm: number;
+  ascentRateExceeded: boolean;
+};
+
+/** Sample of a profile that has both a time and a depth. */
+export type TimedDepthSample = ProfileSample & { timeMs: number; depthM: number };
+
+/** Shallower than this the diver is considered at the surface. */
+export const SURFACE_DEPTH_M = 1;
+/** Rates are taken over at least this span so that sensor noise does not read as a rapid ascent. */
+const RATE_WINDOW_S = 10;
+/** Depth regained during the final ascent that still counts as ascending (sensor noise, waves). */
+const ASCENT_TOLERANCE_M = 0.3;
+export const ASCENT_RATE_LIMIT_MPM = 10;
+
+const CSV_HEADER = ['time', 'distance_m', 'depth_m', 'speed_mps', 'course_deg', 'lat', 'lon'];
+
+const finiteOrNull = (value: number | undefined): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+/**
+ * Profile of a recorded track. Distance does not grow across segment breaks (pauses, lost fixes);
+ * speed and course fall back to values derived from consecutive fixes when the source did not send them.
+ */
+export const buildTrackProfile = (points: TrackPoint[]): ProfileSample[] => {
+  const samples: ProfileSample[] = [];
+  let distanceM = 0;
+  let previous: { point: TrackPoint; timeMs: number } | null = null;
+  for (const point of points) {
+    const timeMs = Date.parse(point.timestamp);
+    if (!Number.isFinite(timeMs) || !Number.isFinite(point.lat) || !Number.isFinite(point.lon)) continue;
+
+    let derivedSpeed: number | null = null;
+    let derivedCourse: number | null = null;
+    if (previous && previous.point.segment_id === point.segment_id) {
+      const stepM = distanceMeters(previous.point, point);
+      distanceM += stepM;
+      const dtS = (timeMs - previous.timeMs) / 1000;
+      if (dtS > 0) derivedSpeed = stepM / dtS;
+      if (stepM > 0) derivedCourse = initialBearingDeg(previous.point, point);
+    }
+
+    samples.push({
+      timeMs,
+      distanceM,
+      lat: point.lat,
+      lon: point.lon,
+      depthM: finiteOrNull(point.depth_m),
+      speedMps: finiteOrNull(point.sog_mps) ?? derivedSpeed,
+      courseDeg: finiteOrNull(point.cog_deg) ?? derivedCourse,
+    });
+    previous = { point, timeMs };
+  }
+  return samples;
+};
+
+/** Depth along a planned route, sampled every `stepM` metres from `sampleDepth` (e.g. bathymetry). */
+export const buildRouteProfile = (
+  points: Array<{ lat: number; lon: number }>,
+  sampleDepth: (lat: number, lon: number) => number | null,
+  stepM = 10,
+): ProfileSample[] => {
+  const samples: ProfileSample[] = [];
+  let legStartM = 0;
+  for (let i = 0; i + 1 < points.length; i += 1) {
+    const from = points[i];
+    const to = points[i + 1];
+    const legM = distanceMeters(from, to);
+    const courseDeg = legM > 0 ? initialBearingDeg(from, to) : null;
+    const steps = Math.max(1, Math.ceil(legM / stepM));
+    // The leg end is emitted as the start of the next leg, except after the last one.
+    const last = i + 2 === points.length ? steps : steps - 1;
+    for (let step = 0; step <= last; step += 1) {
+      const t = step / steps;
+      const lat = from.lat + (to.lat - from.lat) * t;
+      const lon = from.lon + (to.lon - from.lon) * t;
+      samples.push({
+        timeMs: null,
+        distanceM: legStartM + legM * t,
+        lat,
+        lon,
+        depthM: sampleDepth(lat, lon),
+        speedMps: null,
+        courseDeg,
+      });
+    }
+    legStartM += legM;
+  }
+  return samples;
+};
+
+export const timedDepthSamples = (samples: ProfileSample[]): TimedDepthSample[] =>
+  samples.filter((sample): sample is TimedDepthSample => sample.timeMs !== null && sample.depthM !== null);
+
+/**
+ * Calls `visit` for every sample with the first later sample at least `RATE_WINDOW_S` away and the
+ * vertical rate between them in m/min, positive when ascending.
+ */
+export const forEachRateWindow = (
+  dive: TimedDepthSample[],
+  visit: (from: number, to: number, ascentRateMpm: number) => void,
+): void => {
+  let windowEnd = 0;
+  for (let i = 0; i < dive.length; i += 1) {
+    windowEnd = Math.max(windowEnd, i + 1);
+    while (windowEnd < dive.length && dive[windowEnd].timeMs - dive[i].timeMs < RATE_WINDOW_S * 1000) {
+      windowEnd += 1;
+    }
+    if (windowEnd >= dive.length) return;
+    const minutes = (dive[windowEnd].timeMs - dive[i].timeMs) / 60_000;
+    visit(i, windowEnd, (dive[i].depthM - dive[windowEnd].depthM) / minutes);
+  }
+};
+
+/** Dive summary of a timed profile; null when it has no depth readings. */
+export const computeDiveStats = (
+  samples: ProfileSample[],
+  ascentRateLimitMpm = ASCENT_RATE_LIMIT_MPM,
+): DiveProfileStats | null => {
+  const dive = timedDepthSamples(samples);
+  if (dive.length === 0) return null;
+
+  const maxDepthM = dive.reduce((max, sample) => Math.max(max, sample.depthM), 0);
+  const firstSubmerged = dive.findIndex((sample) => sample.depthM >= SURFACE_DEPTH_M);
+  let lastSubmerged = -1;
+  for (let i = dive.length - 1; i >= 0; i -= 1) {
+    if (dive[i].depthM >= SURFACE_DEPTH_M) {
+      lastSubmerged = i;
+      break;
+    }
+  }
+
+  let maxAscentRateMpm = 0;
+  let maxDescentRateMpm = 0;
+  forEachRateWindow(dive, (_from, _to, rate) => {
+    maxAscentRateMpm = Math.max(maxAscentRateMpm, rate);
+    maxDescentRateMpm = Math.max(maxDescentRateMpm, -rate);
+  });
+
+  if (firstSubmerged < 0) {
+    return {
+      maxDepthM,
+      diveTimeS: 0,
+      bottomTimeS: 0,
+      maxAscentRateMpm,
+      maxDescentRateMpm,
+      finalAscentRateMpm: 0,
+      ascentRateLimitMpm,
+      ascentRateExceeded: maxAscentRateMpm > ascentRateLimitMpm,
+    };
+  }
+
+  // Walk back from surfacing while the diver was not shallower before: that span holds the final
+  // ascent. The ascent starts when the diver last left the deepest part of it.
+  const surfaced = Math.min(dive.length - 1, lastSubmerged + 1);
+  let spanStart = surfaced;
+  while (spanStart > firstSubmerged && dive[spanStart - 1].depthM + ASCENT_TOLERANCE_M >= dive[spanStart].depthM) {
+    spanStart -= 1;
+  }
+  let spanMaxDepth = 0;
+  for (let i = spanStart; i <= surfaced; i += 1) spanMaxDepth = Math.max(spanMaxDepth, dive[i].depthM);
+  let ascentStart = surfaced;
+  while (ascentStart > spanStart && dive[ascentStart].depthM < spanMaxDepth - ASCENT_TOLERANCE_M) ascentStart -= 1;
+
+  const ascentMinutes = (dive[surfaced].timeMs - dive[ascentStart].timeMs) / 60_000;
+  return {
+    maxDepthM,
+    diveTimeS: (dive[surfaced].timeMs - dive[firstSubmerged].timeMs) / 1000,
+    bottomTimeS: (dive[ascentStart].timeMs - dive[firstSubmerged].timeMs) / 1000,
+    maxAscentRateMpm,
+    maxDescentRateMpm,
+    finalAscentRateMpm: ascentMinutes > 0 ? (dive[ascentStart].depthM - dive[surfaced].depthM) / ascentMinutes : 0,
+    ascentRateLimitMpm,
+    ascentRateExceeded: maxAscentRateMpm > ascentRateLimitMpm,
+  };
+};
+
+const formatOptional = (value: number | null, digits: number): string => (value === null ? '' : value.toFixed(digits));
+
+export const profileToCsv = (samples: ProfileSample[]): string => {
+  const rows = samples.map((sample) =>
+    [
+      sample.timeMs === null ? '' : new Date(sample.timeMs).toISOString(),
+      sample.distanceM.toFixed(1),
+      formatOptional(sample.depthM, 2),
+      formatOptional(sample.speedMps, 2),
+      formatOptional(sample.courseDeg, 1),
+      sample.lat.toFixed(7),
+      sample.lon.toFixed(7),
+    ].join(','),
+  );
+  return [CSV_HEADER.join(','), ...rows].join('\n') + '\n';
+};
@@ -0,0 +1,266 @@
+import {
+  ASCENT_RATE_LIMIT_MPM,
+  buildTrackProfile,
+  computeDiveStats,
+  forEachRateWindow,
+  SURFACE_DEPTH_M,
+  timedDepthSamples,
+  type TimedDepthSample,
+} from './depthProfile';
+import type { DiverUiConfig, MissionTrackMeta, TrackPoint } from './types';
+
+export type DivePhaseKind = 'descent' | 'level' | 'ascent';
+
+export type DivePhase = {
+  kind: DivePhaseKind;
+  startMs: number;
+  endMs: number;
+  fromDepthM: number;
+  toDepthM: number;
+};
+
+export type AscentRateViolation = {
+  startMs: number;
+  endMs: number;
+  fromDepthM: number;
+  toDepthM: number;
+  maxRateMpm: number;
+};
+
+export type DiveRecord = {
+  trackId: string;
+  startMs: number;
+  endMs: number;
+  maxDepthM: number;
+  diveTimeS: number;
+  bottomTimeS: number;
+  maxAscentRateMpm: number;
+  maxDescentRateMpm: number;
+  phases: DivePhase[];
+  violations: AscentRateViolation[];
+  /** Time on the surface since the previous dive of the same diver; null for the first dive. */
+  surfaceIntervalS: number | null;
+  repetitive: boolean;
+};
+
+export type DiverDiveSummary = {
+  agentId: string;
+  diverTitle: string;
+  ascentRateLimitMpm: number;
+  dives: DiveRecord[];
+  maxDepthM: number;
+  totalBottomTimeS: number;
+  violationCount: number;
+};
+
+/** Surfacing shorter than this (waves, a breath at the surface) does not end a dive. */
+const SURFACE_MERGE_S = 60;
+/** Submerged spans shorter than this are not dives. */
+const MIN_DIVE_S = 60;
+/** Vertical speed below which the diver is considered level. */
+const LEVEL_RATE_MPM = 3;
+/** Descents and ascents that change depth by less than this are folded into level phases. */
+const MIN_PHASE_DEPTH_CHANGE_M = 1;
+/** A dive that starts within this time of the previous one is repetitive (residual nitrogen). */
+export const REPETITIVE_DIVE_INTERVAL_S = 6 * 3600;
+
+const CSV_HEADER = [
+  'diver',
+  'dive',
+  'track_id',
+  'start',
+  'end',
+  'dive_time_s',
+  'bottom_time_s',
+  'max_depth_m',
+  'max_ascent_rate_mpm',
+  'ascent_rate_limit_mpm',
+  'ascent_violations',
+  'surface_interval_s',
+  'repetitive',
+];
+
+/** Resolves the configured limit of a diver, falling back to the common recreational limit. */
+export const resolveAscentRateLimit = (diver: Pick<DiverUiConfig, 'max_ascent_rate_mpm'> | undefined): number =>
+  typeof diver?.max_ascent_rate_mpm === 'number' && diver.max_ascent_rate_mpm > 0
+    ? diver.max_ascent_rate_mpm
+    : ASCENT_RATE_LIMIT_MPM;
+
+/** Index ranges of the dives in a timed depth series, including the surface sample on either side. */
+const splitDives = (samples: TimedDepthSample[]): Array<[number, number]> => {
+  const runs: Array<[number, number]> = [];
+  for (let i = 0; i < samples.length; i += 1) {
+    if (samples[i].depthM < SURFACE_DEPTH_M) continue;
+    const last = runs[runs.length - 1];
+    if (last && last[1] === i - 1) {
+      last[1] = i;
+    } else if (last && samples[i].timeMs - samples[last[1]].timeMs <= SURFACE_MERGE_S * 1000) {
+      last[1] = i;
+    } else {
+      runs.push([i, i]);
+    }
+  }
+  return runs.map(([first, last]) => [Math.max(0, first - 1), Math.min(samples.length - 1, last + 1)]);
+};
+
+const mergePhases = (phases: DivePhase[]): DivePhase[] => {
+  const merged: DivePhase[] = [];
+  for (const phase of phases) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.kind === phase.kind) {
+      previous.endMs = phase.endMs;
+      previous.toDepthM = phase.toDepthM;
+    } else {
+      merged.push({ ...phase });
+    }
+  }
+  return merged;
+};
+
+const detectPhases = (dive: TimedDepthSample[]): DivePhase[] => {
+  const kinds: DivePhaseKind[] = dive.map(() => 'level');
+  let lastWindowStart = -1;
+  forEachRateWindow(dive, (from, _to, rate) => {
+    kinds[from] = rate > LEVEL_RATE_MPM ? 'ascent' : rate < -LEVEL_RATE_MPM ? 'descent' : 'level';
+    lastWindowStart = from;
+  });
+  // The tail shorter than a rate window keeps the direction of the last full window.
+  for (let i = lastWindowStart + 1; lastWindowStart >= 0 && i < kinds.length; i += 1) kinds[i] = kinds[lastWindowStart];
+
+  const raw: DivePhase[] = [];
+  for (let i = 0; i + 1 < dive.length; i += 1) {
+    raw.push({
+      kind: kinds[i],
+      startMs: dive[i].timeMs,
+      endMs: dive[i + 1].timeMs,
+      fromDepthM: dive[i].depthM,
+      toDepthM: dive[i + 1].depthM,
+    });
+  }
+  return mergePhases(
+    mergePhases(raw).map((phase) =>
+      phase.kind !== 'level' && Math.abs(phase.toDepthM - phase.fromDepthM) < MIN_PHASE_DEPTH_CHANGE_M
+        ? { ...phase, kind: 'level' }
+        : phase,
+    ),
+  );
+};
+
+const detectViolations = (dive: TimedDepthSample[], limitMpm: number): AscentRateViolation[] => {
+  const violations: Array<AscentRateViolation & { lastIndex: number }> = [];
+  forEachRateWindow(dive, (from, to, rate) => {
+    if (rate <= limitMpm) return;
+    const previous = violations[violations.length - 1];
+    if (previous && from <= previous.lastIndex) {
+      previous.lastIndex = Math.max(previous.lastIndex, to);
+      previous.endMs = dive[previous.lastIndex].timeMs;
+      previous.toDepthM = dive[previous.lastIndex].depthM;
+      previous.maxRateMpm = Math.max(previous.maxRateMpm, rate);
+      return;
+    }
+    violations.push({
+      startMs: dive[from].timeMs,
+      endMs: dive[to].timeMs,
+      fromDepthM: dive[from].depthM,
+      toDepthM: dive[to].depthM,
+      maxRateMpm: rate,
+      lastIndex: to,
+    });
+  });
+  return violations.map(({ lastIndex: _lastIndex, ...violation }) => violation);
+};
+
+/** Dives of one track, without the cross-track surface interval. */
+export const detectTrackDives = (
+  trackId: string,
+  points: TrackPoint[],
+  ascentRateLimitMpm = ASCENT_RATE_LIMIT_MPM,
+): DiveRecord[] => {
+  const samples = timedDepthSamples(buildTrackProfile(points));
+  return splitDives(samples).flatMap(([from, to]) => {
+    const dive = samples.slice(from, to + 1);
+    const stats = computeDiveStats(dive, ascentRateLimitMpm);
+    if (!stats || stats.diveTimeS < MIN_DIVE_S) return [];
+    const firstSubmerged = dive.find((sample) => sample.depthM >= SURFACE_DEPTH_M) ?? dive[0];
+    return [
+      {
+        trackId,
+        startMs: firstSubmerged.timeMs,
+        endMs: firstSubmerged.timeMs + stats.diveTimeS * 1000,
+        maxDepthM: stats.maxDepthM,
+        diveTimeS: stats.diveTimeS,
+        bottomTimeS: stats.bottomTimeS,
+        maxAscentRateMpm: stats.maxAscentRateMpm,
+        maxDescentRateMpm: stats.maxDescentRateMpm,
+        phases: detectPhases(dive),
+        violations: detectViolations(dive, ascentRateLimitMpm),
+        surfaceIntervalS: null,
+        repetitive: false,
+      },
+    ];
+  });
+};
+
+/**
+ * Dive summary of every diver that has tracks with depth. Dives of a diver are ordered across all of
+ * their tracks, so a dive recorded in a new track still counts as repetitive.
+ */
+export const analyzeDiverDives = (
+  divers: DiverUiConfig[],
+  tracks: MissionTrackMeta[],
+  trackPointsByTrackId: Record<string, TrackPoint[]>,
+): DiverDiveSummary[] =>
+  divers.flatMap((diver) => {
+    const ascentRateLimitMpm = resolveAscentRateLimit(diver);
+    const dives = tracks
+      .filter((track) => track.agent_id === diver.uid)
+      .flatMap((track) => detectTrackDives(track.id, trackPointsByTrackId[track.id] ?? [], ascentRateLimitMpm))
+      .sort((a, b) => a.startMs - b.startMs);
+    if (dives.length === 0) return [];
+
+    for (let i = 1; i < dives.length; i += 1) {
+      const intervalS = (dives[i].startMs - dives[i - 1].endMs) / 1000;
+      dives[i].surfaceIntervalS = intervalS;
+      dives[i].repetitive = intervalS < REPETITIVE_DIVE_INTERVAL_S;
+    }
+
+    return [
+      {
+        agentId: diver.uid,
+        diverTitle: diver.title,
+        ascentRateLimitMpm,
+        dives,
+        maxDepthM: dives.reduce((max, dive) => Math.max(max, dive.maxDepthM), 0),
+        totalBottomTimeS: dives.reduce((sum, dive) => sum + dive.bottomTimeS, 0),
+        violationCount: dives.reduce((sum, dive) => sum + dive.violations.length, 0),
+      },
+    ];
+  });
+
+const escapeCsvValue = (value: string): string =>
+  /[";\n\r,]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const diveReportToCsv = (summaries: DiverDiveSummary[]): string => {
+  const rows = summaries.flatMap((summary) =>
+    summary.dives.map((dive, index) =>
+      [
+        summary.diverTitle,
+        String(index + 1),
+        dive.trackId,
+        new Date(dive.startMs).toISOString(),
+        new Date(dive.endMs).toISOString(),
+        dive.diveTimeS.toFixed(0),
+        dive.bottomTimeS.toFixed(0),
+        dive.maxDepthM.toFixed(1),
+        dive.maxAscentRateMpm.toFixed(1),
+        String(summary.ascentRateLimitMpm),
+        String(dive.violations.length),
+        dive.surfaceIntervalS === null ? '' : dive.surfaceIntervalS.toFixed(0),
+        dive.repetitive ? 'yes' : 'no',
+      ]
+        .map(escapeCsvValue)
+        .join(','),
+    ),
+  );
+  return [CSV_HEADER.join(','), ...rows].join('\n') + '\n';
+};
@@ -29,6 +29,11 @@ const normalizeText = (value: unknown, fallback: string): string => {
 const normalizeNavigationSource = (value: unknown, fallback: NavigationSourceId): NavigationSourceId =>
   normalizeText(value, fallback);
 
+const normalizePositiveNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'number' ? value : Number(value);
+  return value !== undefined && value !== null && value !== '' && Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
 const normalizeBeaconId = (value: unknown, fallback: string): string => {
   const normalized = normalizeText(value, fallback);
   const n = Number(normalized);
@@ -68,6 +73,8 @@ export const normalizeDivers = (raw: unknown): DiverUiConfig[] => {
       item.beacon_id ?? item.id,
       fallback.beacon_id,
     );
+    const plannedSpeedMps = normalizePositiveNumber(item.planned_speed_mps);
+    const maxAscentRateMpm = normalizePositiveNumber(item.max_ascent_rate_mpm);
     return {
       uid: normalizeText(item.uid, crypto.randomUUID()),
       id,
@@ -77,6 +84,8 @@ export const normalizeDivers = (raw: unknown): DiverUiConfig[] => {
       marker_size_px: clampDiverMarkerSizePx(item.marker_size_px, fallback.marker_size_px),
       track_color: normalizeHexColor(item.track_color, fallback.track_color),
       navigation_source: normalizeNavigationSource(item.navigation_source, fallback.navigation_source),
+      ...(plannedSpeedMps !== undefined ? { planned_speed_mps: plannedSpeedMps } : {}),
+      ...(maxAscentRateMpm !== undefined ? { max_ascent_rate_mpm: maxAscentRateMpm } : {}),
     } satisfies DiverUiConfig;
   });
 
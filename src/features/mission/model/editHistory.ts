@@ -0,0 +1,370 @@
+import type { MapObject } from '@/features/map/model/types';
+import type { FileStoreBridge } from '@/platform/contracts';
+import type { LaneFeature } from './types';
+import type { OutdatedZoneIds } from './zoneLanes';
+
+/** Map state covered by undo/redo: drawn objects, generated lanes and the "lanes outdated" flags of zones. */
+export type EditableMissionState = {
+  objects: MapObject[];
+  laneFeatures: LaneFeature[];
+  outdatedZoneIds: OutdatedZoneIds;
+};
+
+export type EditCommandKind = 'create' | 'update' | 'delete' | 'regenerate-lanes' | 'import' | 'clear-measures';
+
+export type EditObjectChange = {
+  id: string;
+  before: MapObject | null;
+  after: MapObject | null;
+  /** Position of the object in the list on the side where it exists, so a restored object keeps its place. */
+  index: number;
+};
+
+export type EditLaneChange = {
+  zoneId: string;
+  before: LaneFeature[];
+  after: LaneFeature[];
+};
+
+export type EditOutdatedChange = {
+  zoneId: string;
+  before: boolean;
+  after: boolean;
+};
+
+export type EditCommand = {
+  id: string;
+  kind: EditCommandKind;
+  label: string;
+  /** ISO timestamp of the last change folded into the command. */
+  at: string;
+  /** Consecutive commands with the same key (vertex drag, typing a name) are folded into one step. */
+  merge_key: string | null;
+  objects: EditObjectChange[];
+  lanes: EditLaneChange[];
+  outdated: EditOutdatedChange[];
+};
+
+export type EditHistory = {
+  undo: EditCommand[];
+  redo: EditCommand[];
+};
+
+/**
+ * One line of the history journal. `seq` grows by one per event and is stored in the mission as
+ * `ui.history_revision`, so that after a restart only the events already reflected in the saved
+ * mission are replayed. `reset` replaces the whole history and is written on compaction.
+ */
+export type EditHistoryEvent =
+  | { seq: number; op: 'do'; command: EditCommand }
+  | { seq: number; op: 'undo' | 'redo'; command_id: string }
+  | { seq: number; op: 'reset'; undo: EditCommand[]; redo: EditCommand[] };
+
+/** History journal lives next to `mission.json`, one JSON event per line. */
+export const EDIT_HISTORY_FILE_NAME = 'history.jsonl';
+export const EDIT_HISTORY_LIMIT = 100;
+/** Events appended since the last `reset` after which a mission save rewrites the journal as one `reset`. */
+export const EDIT_HISTORY_COMPACTION_EVENTS = 200;
+export const EDIT_HISTORY_MERGE_WINDOW_MS = 1500;
+
+export const EMPTY_EDIT_HISTORY: EditHistory = { undo: [], redo: [] };
+
+const createId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `edit-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
+
+const normalizeRootPath = (path: string): string => path.replace(/\\/g, '/').replace(/\/+$/g, '');
+
+export const getEditHistoryFilePath = (rootPath: string): string =>
+  `${normalizeRootPath(rootPath)}/${EDIT_HISTORY_FILE_NAME}`;
+
+const isSameJson = (a: unknown, b: unknown): boolean => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const groupLanesByZone = (laneFeatures: LaneFeature[]): Map<string, LaneFeature[]> => {
+  const byZone = new Map<string, LaneFeature[]>();
+  for (const lane of laneFeatures) {
+    const zoneId = lane.properties.parent_area_id;
+    const lanes = byZone.get(zoneId);
+    if (lanes) lanes.push(lane);
+    else byZone.set(zoneId, [lane]);
+  }
+  return byZone;
+};
+
+/** Command describing the difference between two states, or null when nothing changed. */
+export const createEditCommand = (
+  kind: EditCommandKind,
+  label: string,
+  before: EditableMissionState,
+  after: EditableMissionState,
+  options: { mergeKey?: string | null; at?: Date } = {},
+): EditCommand | null => {
+  const objects: EditObjectChange[] = [];
+  const afterById = new Map(after.objects.map((object, index) => [object.id, { object, index }]));
+  const beforeIds = new Set<string>();
+  before.objects.forEach((object, index) => {
+    beforeIds.add(object.id);
+    const next = afterById.get(object.id);
+    if (!next) {
+      objects.push({ id: object.id, before: object, after: null, index });
+    } else if (!isSameJson(object, next.object)) {
+      objects.push({ id: object.id, before: object, after: next.object, index });
+    }
+  });
+  after.objects.forEach((object, index) => {
+    if (!beforeIds.has(object.id)) objects.push({ id: object.id, before: null, after: object, index });
+  });
+
+  const lanes: EditLaneChange[] = [];
+  const beforeLanes = groupLanesByZone(before.laneFeatures);
+  const afterLanes = groupLanesByZone(after.laneFeatures);
+  for (const zoneId of new Set([...beforeLanes.keys(), ...afterLanes.keys()])) {
+    const previous = beforeLanes.get(zoneId) ?? [];
+    const next = afterLanes.get(zoneId) ?? [];
+    if (!isSameJson(previous, next)) lanes.push({ zoneId, before: previous, after: next });
+  }
+
+  const outdated: EditOutdatedChange[] = [];
+  for (const zoneId of new Set([...Object.keys(before.outdatedZoneIds), ...Object.keys(after.outdatedZoneIds)])) {
+    const previous = Boolean(before.outdatedZoneIds[zoneId]);
+    const next = Boolean(after.outdatedZoneIds[zoneId]);
+    if (previous !== next) outdated.push({ zoneId, before: previous, after: next });
+  }
+
+  if (objects.length === 0 && lanes.length === 0 && outdated.length === 0) return null;
+  return {
+    id: createId(),
+    kind,
+    label,
+    at: (options.at ?? new Date()).toISOString(),
+    merge_key: options.mergeKey ?? null,
+    objects,
+    lanes,
+    outdated,
+  };
+};
+
+/** Folds `next` into `previous`: the earliest "before" and the latest "after" of every entity are kept. */
+const mergeEditCommands = (previous: EditCommand, next: EditCommand): EditCommand => {
+  const objects = new Map(previous.objects.map((change) => [change.id, change]));
+  for (const change of next.objects) {
+    const earlier = objects.get(change.id);
+    objects.set(change.id, earlier ? { ...earlier, after: change.after } : change);
+  }
+  const lanes = new Map(previous.lanes.map((change) => [change.zoneId, change]));
+  for (const change of next.lanes) {
+    const earlier = lanes.get(change.zoneId);
+    lanes.set(change.zoneId, earlier ? { ...earlier, after: change.after } : change);
+  }
+  const outdated = new Map(previous.outdated.map((change) => [change.zoneId, change]));
+  for (const change of next.outdated) {
+    const earlier = outdated.get(change.zoneId);
+    outdated.set(change.zoneId, earlier ? { ...earlier, after: change.after } : change);
+  }
+  return {
+    ...previous,
+    at: next.at,
+    objects: Array.from(objects.values()).filter((change) => !isSameJson(change.before, change.after)),
+    lanes: Array.from(lanes.values()).filter((change) => !isSameJson(change.before, change.after)),
+    outdated: Array.from(outdated.values()).filter((change) => change.before !== change.after),
+  };
+};
+
+/**
+ * Pushes a command and drops the redo branch. A command with the merge key of the last one, made within
+ * the merge window, replaces it with the folded command of the same id.
+ */
+export const pushEditCommand = (
+  history: EditHistory,
+  command: EditCommand,
+  limit: number = EDIT_HISTORY_LIMIT,
+): { history: EditHistory; command: EditCommand } => {
+  const last = history.undo[history.undo.length - 1];
+  const canMerge =
+    last !== undefined &&
+    history.redo.length === 0 &&
+    command.merge_key !== null &&
+    last.merge_key === command.merge_key &&
+    Date.parse(command.at) - Date.parse(last.at) <= EDIT_HISTORY_MERGE_WINDOW_MS;
+  if (canMerge) {
+    const merged = mergeEditCommands(last, command);
+    return { history: { undo: [...history.undo.slice(0, -1), merged], redo: [] }, command: merged };
+  }
+  return { history: { undo: [...history.undo, command].slice(-limit), redo: [] }, command };
+};
+
+const applyObjectSide = (objects: MapObject[], change: EditObjectChange, target: MapObject | null): MapObject[] => {
+  const index = objects.findIndex((object) => object.id === change.id);
+  if (target === null) {
+    return index === -1 ? objects : objects.filter((object) => object.id !== change.id);
+  }
+  if (index !== -1) {
+    return objects.map((object) => (object.id === change.id ? target : object));
+  }
+  const next = [...objects];
+  next.splice(Math.min(change.index, next.length), 0, target);
+  return next;
+};
+
+const applyCommandSide = (
+  state: EditableMissionState,
+  command: EditCommand,
+  side: 'before' | 'after',
+): EditableMissionState => {
+  // Removals go first and insertions in ascending order, so recorded indices stay valid.
+  const objectChanges = [...command.objects].sort((a, b) => {
+    const aInserts = a[side] !== null ? 1 : 0;
+    const bInserts = b[side] !== null ? 1 : 0;
+    return aInserts - bInserts || a.index - b.index;
+  });
+  const objects = objectChanges.reduce((current, change) => applyObjectSide(current, change, change[side]), state.objects);
+
+  const laneZoneIds = new Set(command.lanes.map((change) => change.zoneId));
+  const laneFeatures = [
+    ...state.laneFeatures.filter((lane) => !laneZoneIds.has(lane.properties.parent_area_id)),
+    ...command.lanes.flatMap((change) => change[side]),
+  ];
+
+  const outdatedZoneIds: OutdatedZoneIds = { ...state.outdatedZoneIds };
+  for (const change of command.outdated) {
+    if (change[side]) outdatedZoneIds[change.zoneId] = true;
+    else delete outdatedZoneIds[change.zoneId];
+  }
+
+  return { objects, laneFeatures: command.lanes.length > 0 ? laneFeatures : state.laneFeatures, outdatedZoneIds };
+};
+
+export const undoEditCommand = (state: EditableMissionState, command: EditCommand): EditableMissionState =>
+  applyCommandSide(state, command, 'before');
+
+export const redoEditCommand = (state: EditableMissionState, command: EditCommand): EditableMissionState =>
+  applyCommandSide(state, command, 'after');
+
+/** Applies one journal event to the history; events that do not match its top are ignored. */
+export const applyEditHistoryEvent = (
+  history: EditHistory,
+  event: EditHistoryEvent,
+  limit: number = EDIT_HISTORY_LIMIT,
+): EditHistory => {
+  if (event.op === 'reset') {
+    return { undo: event.undo.slice(-limit), redo: event.redo };
+  }
+  if (event.op === 'do') {
+    const last = history.undo[history.undo.length - 1];
+    const undo = last?.id === event.command.id ? history.undo.slice(0, -1) : history.undo;
+    return { undo: [...undo, event.command].slice(-limit), redo: [] };
+  }
+  if (event.op === 'undo') {
+    const last = history.undo[history.undo.length - 1];
+    if (last?.id !== event.command_id) return history;
+    return { undo: history.undo.slice(0, -1), redo: [...history.redo, last] };
+  }
+  const next = history.redo[history.redo.length - 1];
+  if (next?.id !== event.command_id) return history;
+  return { undo: [...history.undo, next], redo: history.redo.slice(0, -1) };
+};
+
+const isEditCommand = (value: unknown): value is EditCommand => {
+  if (typeof value !== 'object' || value === null) return false;
+  const item = value as Record<string, unknown>;
+  return (
+    typeof item.id === 'string' &&
+    typeof item.kind === 'string' &&
+    typeof item.label === 'string' &&
+    Array.isArray(item.objects) &&
+    Array.isArray(item.lanes) &&
+    Array.isArray(item.outdated)
+  );
+};
+
+const normalizeEditHistoryEvent = (raw: unknown): EditHistoryEvent | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const item = raw as Record<string, unknown>;
+  if (typeof item.seq !== 'number' || !Number.isInteger(item.seq)) return null;
+  if (item.op === 'do' && isEditCommand(item.command)) {
+    return { seq: item.seq, op: 'do', command: item.command };
+  }
+  if ((item.op === 'undo' || item.op === 'redo') && typeof item.command_id === 'string') {
+    return { seq: item.seq, op: item.op, command_id: item.command_id };
+  }
+  if (
+    item.op === 'reset' &&
+    Array.isArray(item.undo) &&
+    Array.isArray(item.redo) &&
+    item.undo.every(isEditCommand) &&
+    item.redo.every(isEditCommand)
+  ) {
+    return { seq: item.seq, op: 'reset', undo: item.undo, redo: item.redo };
+  }
+  return null;
+};
+
+/** Parses journal lines, skipping a torn last line or anything else that is not a valid event. */
+export const parseEditHistory = (text: string): EditHistoryEvent[] => {
+  const events: EditHistoryEvent[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      continue;
+    }
+    const event = normalizeEditHistoryEvent(parsed);
+    if (event) events.push(event);
+  }
+  return events;
+};
+
+/**
+ * Rebuilds the history from journal events up to `revision` (the `ui.history_revision` of the loaded
+ * mission). Later events describe edits that never reached mission.json and are dropped; without a
+ * revision the journal does not belong to the loaded state and the history starts empty.
+ */
+export const replayEditHistory = (events: EditHistoryEvent[], revision: number | null | undefined): EditHistory => {
+  if (typeof revision !== 'number') return EMPTY_EDIT_HISTORY;
+  return events
+    .filter((event) => event.seq <= revision)
+    .sort((a, b) => a.seq - b.seq)
+    .reduce<EditHistory>((history, event) => applyEditHistoryEvent(history, event), EMPTY_EDIT_HISTORY);
+};
+
+export const serializeEditHistoryEvents = (events: EditHistoryEvent[]): string =>
+  events.map((event) => `${JSON.stringify(event)}\n`).join('');
+
+/** Loads the history matching `revision` and compacts the journal into a single `reset` event. */
+export const loadEditHistory = async (
+  fileStore: FileStoreBridge,
+  rootPath: string,
+  revision: number | null | undefined,
+): Promise<EditHistory> => {
+  const raw = await fileStore.readText(getEditHistoryFilePath(rootPath));
+  const history = raw ? replayEditHistory(parseEditHistory(raw), revision) : EMPTY_EDIT_HISTORY;
+  if (raw !== null) {
+    await writeEditHistorySnapshot(fileStore, rootPath, history, typeof revision === 'number' ? revision : 0);
+  }
+  return history;
+};
+
+export const writeEditHistorySnapshot = async (
+  fileStore: FileStoreBridge,
+  rootPath: string,
+  history: EditHistory,
+  seq: number,
+): Promise<void> => {
+  const event: EditHistoryEvent = { seq, op: 'reset', undo: history.undo, redo: history.redo };
+  await fileStore.writeText(getEditHistoryFilePath(rootPath), serializeEditHistoryEvents([event]));
+};
+
+export const appendEditHistoryEvents = async (
+  fileStore: FileStoreBridge,
+  rootPath: string,
+  events: EditHistoryEvent[],
+): Promise<void> => {
+  if (events.length === 0) return;
+  await fileStore.appendText(getEditHistoryFilePath(rootPath), serializeEditHistoryEvents(events));
+};
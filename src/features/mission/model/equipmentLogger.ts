@@ -6,6 +6,8 @@ const MAX_BUFFERED_LINES = 50;
 export type EquipmentLoggerOptions = {
   rootPath: string;
   deviceInstanceId: string;
+  /** Written into every line so that a replay knows which decoder the log belongs to. */
+  schemaId: string;
   profileName: string;
   fileStore: FileStoreBridge;
 };
@@ -65,6 +67,7 @@ export const createEquipmentLogger = (options: EquipmentLoggerOptions): Equipmen
         ensureAutoFlush();
         const line = `${new Date().toISOString()} ${JSON.stringify({
           profile_name: options.profileName,
+          schema_id: options.schemaId,
           raw,
         })}\n`;
         buffer.push(line);
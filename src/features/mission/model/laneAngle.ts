@@ -13,3 +13,15 @@ export const parseLaneAngleInput = (value: string, fallback = 0): number => {
   if (!Number.isFinite(numeric)) return normalizeLaneAngleDeg(fallback);
   return normalizeLaneAngleDeg(numeric);
 };
+
+// Search patterns start on a heading, so unlike lane angles the course keeps its direction.
+export const normalizePatternCourseDeg = (value: number): number => {
+  const clamped = clampLaneAngleInputDeg(value);
+  return clamped % 360;
+};
+
+export const parsePatternCourseInput = (value: string, fallback = 0): number => {
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric)) return normalizePatternCourseDeg(fallback);
+  return normalizePatternCourseDeg(numeric);
+};
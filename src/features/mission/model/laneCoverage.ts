@@ -0,0 +1,300 @@
+import type { GeoPoint } from '@/features/map/model/types';
+import type { LaneFeature, TrackPoint } from './types';
+
+type PointXY = {
+  x: number;
+  y: number;
+};
+
+type ProjectedLane = {
+  lane: LaneFeature;
+  start: PointXY;
+  direction: PointXY;
+  normal: PointXY;
+  lengthM: number;
+};
+
+type Interval = {
+  from: number;
+  to: number;
+};
+
+export type LaneCoverageOptions = {
+  /** Cross-track distance (m) within which a lane portion counts as run. */
+  toleranceM: number;
+  /** Uncovered portions shorter than this are not reported as gaps. */
+  minGapM?: number;
+};
+
+export type LaneCoverageGap = {
+  laneId: string;
+  laneIndex: number;
+  fromM: number;
+  toM: number;
+  lengthM: number;
+  start: GeoPoint;
+  end: GeoPoint;
+};
+
+export type LaneCoverageResult = {
+  laneId: string;
+  laneIndex: number;
+  lengthM: number;
+  coveredM: number;
+  coveredPercent: number;
+  maxCrossTrackM: number | null;
+  gaps: LaneCoverageGap[];
+};
+
+export type ZoneCoverageReport = {
+  toleranceM: number;
+  lengthM: number;
+  coveredM: number;
+  coveredPercent: number;
+  lanes: LaneCoverageResult[];
+  gaps: LaneCoverageGap[];
+};
+
+const EARTH_RADIUS_M = 6378137;
+const RAD_TO_DEG = 180 / Math.PI;
+const DEG_TO_RAD = Math.PI / 180;
+const EPS = 1e-9;
+const DEFAULT_MIN_GAP_M = 1;
+
+const dot = (a: PointXY, b: PointXY): number => a.x * b.x + a.y * b.y;
+
+const projectPoint = (point: GeoPoint, lat0: number, lon0: number): PointXY => {
+  const cosLat0 = Math.max(Math.cos(lat0 * DEG_TO_RAD), 1e-6);
+  return {
+    x: (point.lon - lon0) * DEG_TO_RAD * EARTH_RADIUS_M * cosLat0,
+    y: (point.lat - lat0) * DEG_TO_RAD * EARTH_RADIUS_M,
+  };
+};
+
+const unprojectPoint = (point: PointXY, lat0: number, lon0: number): GeoPoint => {
+  const cosLat0 = Math.max(Math.cos(lat0 * DEG_TO_RAD), 1e-6);
+  return {
+    lat: lat0 + (point.y / EARTH_RADIUS_M) * RAD_TO_DEG,
+    lon: lon0 + (point.x / (EARTH_RADIUS_M * cosLat0)) * RAD_TO_DEG,
+  };
+};
+
+const toGeoPoint = (coord: [number, number]): GeoPoint => ({ lon: coord[0], lat: coord[1] });
+
+const computeCenter = (lanes: LaneFeature[]): { lat0: number; lon0: number } => {
+  let lat = 0;
+  let lon = 0;
+  let count = 0;
+  for (const lane of lanes) {
+    for (const coord of lane.geometry.coordinates) {
+      lon += coord[0];
+      lat += coord[1];
+      count += 1;
+    }
+  }
+  return count > 0 ? { lat0: lat / count, lon0: lon / count } : { lat0: 0, lon0: 0 };
+};
+
+const projectLane = (lane: LaneFeature, lat0: number, lon0: number): ProjectedLane | null => {
+  const coords = lane.geometry.coordinates;
+  if (coords.length < 2) return null;
+  const start = projectPoint(toGeoPoint(coords[0]), lat0, lon0);
+  const end = projectPoint(toGeoPoint(coords[coords.length - 1]), lat0, lon0);
+  const lengthM = Math.hypot(end.x - start.x, end.y - start.y);
+  if (lengthM < EPS) return null;
+  const direction = { x: (end.x - start.x) / lengthM, y: (end.y - start.y) / lengthM };
+  return { lane, start, direction, normal: { x: -direction.y, y: direction.x }, lengthM };
+};
+
+const toLaneFrame = (lane: ProjectedLane, point: PointXY): { u: number; v: number } => {
+  const offset = { x: point.x - lane.start.x, y: point.y - lane.start.y };
+  return { u: dot(offset, lane.direction), v: dot(offset, lane.normal) };
+};
+
+/**
+ * Along-lane interval covered by one track leg: the part of the leg that stays
+ * inside the ±tolerance band around the lane, projected onto the lane axis.
+ */
+const coveredIntervalForLeg = (
+  lane: ProjectedLane,
+  a: PointXY,
+  b: PointXY,
+  toleranceM: number,
+): Interval | null => {
+  const pa = toLaneFrame(lane, a);
+  const pb = toLaneFrame(lane, b);
+  const dv = pb.v - pa.v;
+
+  let sFrom = 0;
+  let sTo = 1;
+  if (Math.abs(dv) < EPS) {
+    if (Math.abs(pa.v) > toleranceM) return null;
+  } else {
+    const s1 = (-toleranceM - pa.v) / dv;
+    const s2 = (toleranceM - pa.v) / dv;
+    sFrom = Math.max(0, Math.min(s1, s2));
+    sTo = Math.min(1, Math.max(s1, s2));
+    if (sFrom > sTo) return null;
+  }
+
+  const u1 = pa.u + (pb.u - pa.u) * sFrom;
+  const u2 = pa.u + (pb.u - pa.u) * sTo;
+  const from = Math.max(0, Math.min(u1, u2));
+  const to = Math.min(lane.lengthM, Math.max(u1, u2));
+  return to > from ? { from, to } : null;
+};
+
+const mergeIntervals = (intervals: Interval[]): Interval[] => {
+  const sorted = [...intervals].sort((a, b) => a.from - b.from);
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.from <= last.to + EPS) {
+      last.to = Math.max(last.to, interval.to);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+};
+
+/** Splits recorded tracks into continuous runs; a new `segment_id` breaks the line. */
+const splitTrackRuns = (tracks: TrackPoint[][]): TrackPoint[][] => {
+  const runs: TrackPoint[][] = [];
+  for (const track of tracks) {
+    let current: TrackPoint[] = [];
+    for (const point of track) {
+      if (!Number.isFinite(point.lat) || !Number.isFinite(point.lon)) continue;
+      if (current.length > 0 && current[current.length - 1].segment_id !== point.segment_id) {
+        runs.push(current);
+        current = [];
+      }
+      current.push(point);
+    }
+    if (current.length > 0) runs.push(current);
+  }
+  return runs;
+};
+
+/**
+ * Half the distance to the nearest neighbouring lane: track points farther
+ * than this from a lane belong to another lane (or to a turn) and are not
+ * counted towards its cross-track error.
+ */
+const captureDistance = (lanes: ProjectedLane[], index: number, toleranceM: number): number => {
+  const lane = lanes[index];
+  let nearest = Number.POSITIVE_INFINITY;
+  for (const neighbour of [lanes[index - 1], lanes[index + 1]]) {
+    if (!neighbour) continue;
+    const mid = {
+      x: neighbour.start.x + (neighbour.direction.x * neighbour.lengthM) / 2,
+      y: neighbour.start.y + (neighbour.direction.y * neighbour.lengthM) / 2,
+    };
+    const distance = Math.abs(toLaneFrame(lane, mid).v);
+    if (distance > EPS) nearest = Math.min(nearest, distance);
+  }
+  return Number.isFinite(nearest) ? Math.max(toleranceM, nearest / 2) : toleranceM * 2;
+};
+
+export const analyzeLaneCoverage = (
+  lanes: LaneFeature[],
+  tracks: TrackPoint[][],
+  options: LaneCoverageOptions,
+): ZoneCoverageReport => {
+  const toleranceM = Number.isFinite(options.toleranceM) ? Math.max(0, options.toleranceM) : 0;
+  const minGapM = Math.max(0, options.minGapM ?? DEFAULT_MIN_GAP_M);
+  const ordered = [...lanes]
+    .filter((lane) => lane.properties.kind === 'lane')
+    .sort((a, b) => a.properties.lane_index - b.properties.lane_index);
+  const { lat0, lon0 } = computeCenter(ordered);
+
+  const projected = ordered
+    .map((lane) => projectLane(lane, lat0, lon0))
+    .filter((lane): lane is ProjectedLane => lane !== null);
+  const runs = splitTrackRuns(tracks).map((run) =>
+    run.map((point) => projectPoint({ lat: point.lat, lon: point.lon }, lat0, lon0)),
+  );
+
+  const results: LaneCoverageResult[] = projected.map((lane, laneIndex) => {
+    const intervals: Interval[] = [];
+    const capture = captureDistance(projected, laneIndex, toleranceM);
+    let maxCrossTrackM: number | null = null;
+
+    for (const run of runs) {
+      for (let i = 0; i < run.length; i += 1) {
+        const point = toLaneFrame(lane, run[i]);
+        if (point.u >= 0 && point.u <= lane.lengthM && Math.abs(point.v) <= capture) {
+          maxCrossTrackM = Math.max(maxCrossTrackM ?? 0, Math.abs(point.v));
+        }
+        if (i === 0) continue;
+        const interval = coveredIntervalForLeg(lane, run[i - 1], run[i], toleranceM);
+        if (interval) intervals.push(interval);
+      }
+    }
+
+    const covered = mergeIntervals(intervals);
+    const coveredM = covered.reduce((sum, interval) => sum + (interval.to - interval.from), 0);
+    const gaps: LaneCoverageGap[] = [];
+    let cursor = 0;
+    for (const interval of [...covered, { from: lane.lengthM, to: lane.lengthM }]) {
+      if (interval.from - cursor >= minGapM && interval.from - cursor > EPS) {
+        const start = unprojectPoint(
+          { x: lane.start.x + lane.direction.x * cursor, y: lane.start.y + lane.direction.y * cursor },
+          lat0,
+          lon0,
+        );
+        const end = unprojectPoint(
+          {
+            x: lane.start.x + lane.direction.x * interval.from,
+            y: lane.start.y + lane.direction.y * interval.from,
+          },
+          lat0,
+          lon0,
+        );
+        gaps.push({
+          laneId: lane.lane.properties.id,
+          laneIndex: lane.lane.properties.lane_index,
+          fromM: cursor,
+          toM: interval.from,
+          lengthM: interval.from - cursor,
+          start,
+          end,
+        });
+      }
+      cursor = Math.max(cursor, interval.to);
+    }
+
+    return {
+      laneId: lane.lane.properties.id,
+      laneIndex: lane.lane.properties.lane_index,
+      lengthM: lane.lengthM,
+      coveredM,
+      coveredPercent: (coveredM / lane.lengthM) * 100,
+      maxCrossTrackM,
+      gaps,
+    };
+  });
+
+  const lengthM = results.reduce((sum, lane) => sum + lane.lengthM, 0);
+  const coveredM = results.reduce((sum, lane) => sum + lane.coveredM, 0);
+  return {
+    toleranceM,
+    lengthM,
+    coveredM,
+    coveredPercent: lengthM > 0 ? (coveredM / lengthM) * 100 : 0,
+    lanes: results,
+    gaps: results.flatMap((lane) => lane.gaps),
+  };
+};
+
+/**
+ * Route that re-runs only the missed lane portions. Lanes keep their generated
+ * serpentine direction, so the gaps are visited in lane order as-is.
+ */
+export const buildCoverageRerunRoute = (report: ZoneCoverageReport): GeoPoint[] => {
+  const points: GeoPoint[] = [];
+  for (const gap of report.gaps) {
+    points.push(gap.start, gap.end);
+  }
+  return points;
+};
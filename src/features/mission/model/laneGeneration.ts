@@ -9,6 +9,8 @@ type PointXY = {
 type ZoneLaneGenerationInput = {
   parentAreaId: string;
   points: GeoPoint[];
+  /** Exclusion rings inside the zone; lanes are clipped around them. */
+  holes?: GeoPoint[][];
   laneAngleDeg: number;
   laneWidthM: number;
   laneBearingDeg?: number;
@@ -20,6 +22,7 @@ const EARTH_RADIUS_M = 6378137;
 const RAD_TO_DEG = 180 / Math.PI;
 const DEG_TO_RAD = Math.PI / 180;
 const EPS = 1e-9;
+const SCAN_INSET_M = 1e-6;
 
 const createId = (): string => {
   if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
@@ -88,20 +91,38 @@ const unprojectPoint = (point: PointXY, lat0: number, lon0: number): [number, nu
   return [lon, lat];
 };
 
-const uniqueIntersections = (points: PointXY[], dir: PointXY): PointXY[] => {
-  const sorted = [...points].sort((a, b) => dot(a, dir) - dot(b, dir));
-  const result: PointXY[] = [];
-  for (const point of sorted) {
-    const prev = result[result.length - 1];
-    if (!prev) {
-      result.push(point);
-      continue;
-    }
-    if (Math.hypot(point.x - prev.x, point.y - prev.y) > 0.01) {
-      result.push(point);
-    }
+type EdgeXY = {
+  a: PointXY;
+  b: PointXY;
+};
+
+const ringEdges = (ring: PointXY[]): EdgeXY[] => {
+  const edges: EdgeXY[] = [];
+  for (let i = 0; i < ring.length - 1; i += 1) {
+    edges.push({ a: ring[i], b: ring[i + 1] });
   }
-  return result;
+  return edges;
+};
+
+/**
+ * Crossings of the scan line `dot(p, normal) = offset` with polygon edges.
+ * Edge ends are treated half-open (a vertex exactly on the line belongs to the
+ * side above it), so touching vertices and collinear edges never produce an
+ * unpaired crossing and pieces of concave rows and holes pair up correctly.
+ */
+const scanLineCrossings = (edges: EdgeXY[], normal: PointXY, offset: number): PointXY[] => {
+  const crossings: PointXY[] = [];
+  for (const { a, b } of edges) {
+    const da = dot(a, normal) - offset;
+    const db = dot(b, normal) - offset;
+    if ((da >= 0) === (db >= 0)) continue;
+    const t = da / (da - db);
+    crossings.push({
+      x: a.x + (b.x - a.x) * t,
+      y: a.y + (b.y - a.y) * t,
+    });
+  }
+  return crossings;
 };
 
 export const generateLanesForZone = (input: ZoneLaneGenerationInput): LaneFeature[] => {
@@ -111,6 +132,13 @@ export const generateLanesForZone = (input: ZoneLaneGenerationInput): LaneFeatur
   const { lat0, lon0 } = computeCenter(ring.slice(0, -1));
   const ringXY = ring.map((point) => projectPoint(point, lat0, lon0));
   const hullPoints = ringXY.slice(0, -1);
+  const edges = [
+    ...ringEdges(ringXY),
+    ...(input.holes ?? [])
+      .map((hole) => toClosedRing(hole))
+      .filter((hole) => hole.length >= 4)
+      .flatMap((hole) => ringEdges(hole.map((point) => projectPoint(point, lat0, lon0)))),
+  ];
   // laneAngleDeg is an absolute (global) undirected bearing for lane orientation.
   const absoluteLaneBearingDeg =
     Number.isFinite(input.laneAngleDeg)
@@ -152,36 +180,11 @@ export const generateLanesForZone = (input: ZoneLaneGenerationInput): LaneFeatur
 
   for (let rowIndex = 0; rowIndex < offsets.length; rowIndex += 1) {
     const offset = offsets[rowIndex];
-    const intersections: PointXY[] = [];
-
-    for (let i = 0; i < ringXY.length - 1; i += 1) {
-      const a = ringXY[i];
-      const b = ringXY[i + 1];
-      const da = dot(a, normal) - offset;
-      const db = dot(b, normal) - offset;
-
-      if (Math.abs(da) <= EPS && Math.abs(db) <= EPS) {
-        intersections.push(a, b);
-        continue;
-      }
-      if (Math.abs(da) <= EPS) {
-        intersections.push(a);
-        continue;
-      }
-      if (Math.abs(db) <= EPS) {
-        intersections.push(b);
-        continue;
-      }
-      if ((da > 0) !== (db > 0)) {
-        const t = da / (da - db);
-        intersections.push({
-          x: a.x + (b.x - a.x) * t,
-          y: a.y + (b.y - a.y) * t,
-        });
-      }
-    }
-
-    const lineIntersections = uniqueIntersections(intersections, laneDirection);
+    // Boundary rows run along the outline; scan a hair inside it so they still cross the edges.
+    const scanOffset = Math.min(Math.max(offset, minOffset + SCAN_INSET_M), maxOffset - SCAN_INSET_M);
+    const lineIntersections = scanLineCrossings(edges, normal, scanOffset).sort(
+      (p1, p2) => dot(p1, laneDirection) - dot(p2, laneDirection),
+    );
     const segments: Array<{ a: PointXY; b: PointXY; midScore: number }> = [];
     for (let i = 0; i + 1 < lineIntersections.length; i += 2) {
       const a = lineIntersections[i];
@@ -233,6 +236,7 @@ export const generateLanesForZone = (input: ZoneLaneGenerationInput): LaneFeatur
           updated_at: timestamp,
           parent_area_id: input.parentAreaId,
           lane_index: laneIndex,
+          lane_row: rowIndex + 1,
         },
       });
       laneIndex += 1;
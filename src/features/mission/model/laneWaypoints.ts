@@ -30,6 +30,144 @@ const distanceMeters = (a: GeoPoint, b: GeoPoint): number => {
 
 const toGeoPoint = (coord: [number, number]): GeoPoint => ({ lon: coord[0], lat: coord[1] });
 
+type LanePiece = {
+  lane: LaneFeature;
+  start: GeoPoint;
+  end: GeoPoint;
+  low: number;
+  high: number;
+};
+
+type LaneCell = {
+  rows: LanePiece[];
+};
+
+const laneEndpoints = (lane: LaneFeature): { start: GeoPoint; end: GeoPoint } => {
+  const coords = lane.geometry.coordinates;
+  return { start: toGeoPoint(coords[0]), end: toGeoPoint(coords[coords.length - 1]) };
+};
+
+const COINCIDENT_WAYPOINT_M = 0.01;
+
+/** Search patterns are laid out leg after leg: each lane starts where the previous one ended. */
+const isChainedPath = (lanes: LaneFeature[]): boolean =>
+  lanes.length > 1 &&
+  lanes.every(
+    (lane, index) =>
+      index === 0 ||
+      distanceMeters(laneEndpoints(lanes[index - 1]).end, laneEndpoints(lane).start) < COINCIDENT_WAYPOINT_M,
+  );
+
+const hasSplitRows = (lanes: LaneFeature[]): boolean => {
+  const seenRows = new Set<number>();
+  for (const lane of lanes) {
+    const row = lane.properties.lane_row;
+    if (typeof row !== 'number') return false;
+    if (seenRows.has(row)) return true;
+    seenRows.add(row);
+  }
+  return false;
+};
+
+/**
+ * Groups lane pieces into cells: runs of consecutive rows where every piece
+ * overlaps exactly one piece of the previous row and vice versa. Inside a cell
+ * a plain serpentine works; a row that splits or merges starts new cells.
+ */
+const buildLaneCells = (lanes: LaneFeature[]): LaneCell[] => {
+  const [first] = lanes;
+  const firstEnds = laneEndpoints(first);
+  const cosLat0 = Math.max(Math.cos(firstEnds.start.lat * DEG_TO_RAD), 1e-6);
+  const axisX = (firstEnds.end.lon - firstEnds.start.lon) * cosLat0;
+  const axisY = firstEnds.end.lat - firstEnds.start.lat;
+  const axisLength = Math.hypot(axisX, axisY) || 1;
+  const along = (point: GeoPoint): number => (point.lon * cosLat0 * axisX + point.lat * axisY) / axisLength;
+
+  const rows = new Map<number, LanePiece[]>();
+  for (const lane of lanes) {
+    const { start, end } = laneEndpoints(lane);
+    const piece = {
+      lane,
+      start,
+      end,
+      low: Math.min(along(start), along(end)),
+      high: Math.max(along(start), along(end)),
+    };
+    const row = lane.properties.lane_row ?? 0;
+    rows.set(row, [...(rows.get(row) ?? []), piece]);
+  }
+
+  const overlaps = (a: LanePiece, b: LanePiece): boolean => Math.min(a.high, b.high) > Math.max(a.low, b.low);
+  const cells: LaneCell[] = [];
+  let previousRow: number | null = null;
+  let previousPieces: Array<{ piece: LanePiece; cell: LaneCell }> = [];
+
+  for (const row of [...rows.keys()].sort((a, b) => a - b)) {
+    const pieces = rows.get(row) ?? [];
+    const isNextRow = previousRow !== null && row === previousRow + 1;
+    const current: Array<{ piece: LanePiece; cell: LaneCell }> = [];
+
+    for (const piece of pieces) {
+      const below = isNextRow ? previousPieces.filter((item) => overlaps(item.piece, piece)) : [];
+      const continues =
+        below.length === 1 && pieces.filter((other) => overlaps(below[0].piece, other)).length === 1;
+      const cell = continues ? below[0].cell : { rows: [] };
+      if (!continues) cells.push(cell);
+      cell.rows.push(piece);
+      current.push({ piece, cell });
+    }
+
+    previousRow = row;
+    previousPieces = current;
+  }
+
+  return cells;
+};
+
+/**
+ * Serpentine over lanes split into several pieces per row (concave zones,
+ * holes): each cell is swept completely, then the nearest entry of the
+ * remaining cells is taken, entering from either its first or its last row.
+ */
+const orderLanePieces = (
+  lanes: LaneFeature[],
+  startPoint?: GeoPoint | null,
+): Array<{ lane: LaneFeature; start: GeoPoint; end: GeoPoint }> => {
+  const remaining = buildLaneCells(lanes);
+  const ordered: Array<{ lane: LaneFeature; start: GeoPoint; end: GeoPoint }> = [];
+  let position = startPoint ?? laneEndpoints(lanes[0]).start;
+
+  while (remaining.length > 0) {
+    let cellIndex = 0;
+    let reversed = false;
+    let bestDistance = Number.POSITIVE_INFINITY;
+    for (let i = 0; i < remaining.length; i += 1) {
+      const rows = remaining[i].rows;
+      for (const fromLastRow of [false, true]) {
+        const entry = fromLastRow ? rows[rows.length - 1] : rows[0];
+        const distance = Math.min(distanceMeters(position, entry.start), distanceMeters(position, entry.end));
+        if (distance < bestDistance - 1e-6) {
+          cellIndex = i;
+          reversed = fromLastRow;
+          bestDistance = distance;
+        }
+      }
+    }
+
+    const [cell] = remaining.splice(cellIndex, 1);
+    const rows = reversed ? [...cell.rows].reverse() : cell.rows;
+    for (const piece of rows) {
+      const keep = distanceMeters(position, piece.start) <= distanceMeters(position, piece.end);
+      const start = keep ? piece.start : piece.end;
+      const end = keep ? piece.end : piece.start;
+      ordered.push({ lane: piece.lane, start, end });
+      position = end;
+    }
+  }
+
+  return ordered;
+};
+
 export const buildLaneTraversal = (
   lanes: LaneFeature[],
   startPoint?: GeoPoint | null,
@@ -43,9 +181,21 @@ export const buildLaneTraversal = (
     return { orderedLaneIds: [], waypoints: [] };
   }
 
+  if (hasSplitRows(ordered)) {
+    const pieces = orderLanePieces(ordered, startPoint);
+    return {
+      orderedLaneIds: pieces.map((piece) => piece.lane.properties.id),
+      waypoints: pieces.flatMap((piece, pieceIndex) => [
+        { lat: piece.start.lat, lon: piece.start.lon, index: pieceIndex * 2 + 1 },
+        { lat: piece.end.lat, lon: piece.end.lon, index: pieceIndex * 2 + 2 },
+      ]),
+    };
+  }
+
   let traverse = ordered;
 
-  if (startPoint) {
+  // A chained pattern is flown from its datum; reversing the order would fly every leg backwards.
+  if (startPoint && !isChainedPath(traverse)) {
     const first = traverse[0];
     const last = traverse[traverse.length - 1];
     const firstStart = toGeoPoint(first.geometry.coordinates[0]);
@@ -62,8 +212,11 @@ export const buildLaneTraversal = (
     if (coords.length < 2) continue;
     const start = toGeoPoint(coords[0]);
     const end = toGeoPoint(coords[coords.length - 1]);
-    waypoints.push({ lat: start.lat, lon: start.lon, index });
-    index += 1;
+    const previous = waypoints[waypoints.length - 1];
+    if (!previous || distanceMeters(previous, start) >= COINCIDENT_WAYPOINT_M) {
+      waypoints.push({ lat: start.lat, lon: start.lon, index });
+      index += 1;
+    }
     waypoints.push({ lat: end.lat, lon: end.lon, index });
     index += 1;
   }
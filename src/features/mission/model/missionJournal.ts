@@ -0,0 +1,216 @@
+import type { FileStoreBridge } from '@/platform/contracts';
+import type { TelemetryConnectionState } from './telemetry';
+import type { TrackRecorderStatus } from './trackRecorder';
+
+export type JournalEntryKind = 'note' | 'track' | 'connection';
+
+export type JournalEntry = {
+  id: string;
+  /** ISO timestamp of the event. */
+  at: string;
+  kind: JournalEntryKind;
+  text: string;
+  agent_uid: string | null;
+  agent_name: string | null;
+  lat: number | null;
+  lon: number | null;
+  depth_m: number | null;
+};
+
+export type JournalPosition = {
+  lat: number;
+  lon: number;
+  depth?: number | null;
+};
+
+export type CreateJournalEntryInput = {
+  kind: JournalEntryKind;
+  text: string;
+  at?: Date;
+  agent_uid?: string | null;
+  agent_name?: string | null;
+  position?: JournalPosition | null;
+};
+
+export type TrackStatusChange = {
+  agentId: string;
+  from: TrackRecorderStatus;
+  to: TrackRecorderStatus;
+};
+
+/** Journal lives next to `mission.json`, one JSON object per line. */
+export const JOURNAL_FILE_NAME = 'journal.jsonl';
+
+export const JOURNAL_QUICK_ENTRIES = [
+  'Водолаз под водой',
+  'Водолаз на грунте',
+  'Начало подъёма',
+  'Водолаз на поверхности',
+  'Обнаружен объект',
+] as const;
+
+const JOURNAL_KINDS: JournalEntryKind[] = ['note', 'track', 'connection'];
+
+const JOURNAL_KIND_LABELS: Record<JournalEntryKind, string> = {
+  note: 'Запись',
+  track: 'Трек',
+  connection: 'Связь',
+};
+
+const CONNECTION_STATE_LABELS: Record<TelemetryConnectionState, string> = {
+  ok: 'связь установлена',
+  timeout: 'нет данных',
+  error: 'ошибка связи',
+};
+
+const CSV_HEADER = ['time', 'kind', 'agent', 'text', 'lat', 'lon', 'depth_m'];
+
+const createId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `journal-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
+
+const normalizeRootPath = (path: string): string => path.replace(/\\/g, '/').replace(/\/+$/g, '');
+
+const toFiniteOrNull = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+const toStringOrNull = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim().length > 0 ? value : null;
+
+export const getJournalKindLabel = (kind: JournalEntryKind): string => JOURNAL_KIND_LABELS[kind];
+
+export const getJournalFilePath = (rootPath: string): string => `${normalizeRootPath(rootPath)}/${JOURNAL_FILE_NAME}`;
+
+export const createJournalEntry = (input: CreateJournalEntryInput): JournalEntry => {
+  const position = input.position ?? null;
+  const hasPosition = position !== null && Number.isFinite(position.lat) && Number.isFinite(position.lon);
+  return {
+    id: createId(),
+    at: (input.at ?? new Date()).toISOString(),
+    kind: input.kind,
+    text: input.text.trim(),
+    agent_uid: input.agent_uid ?? null,
+    agent_name: input.agent_name ?? null,
+    lat: hasPosition ? position.lat : null,
+    lon: hasPosition ? position.lon : null,
+    depth_m: hasPosition ? toFiniteOrNull(position.depth) : null,
+  };
+};
+
+const normalizeJournalEntry = (raw: unknown): JournalEntry | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const item = raw as Record<string, unknown>;
+  if (typeof item.id !== 'string' || typeof item.text !== 'string') return null;
+  if (typeof item.at !== 'string' || !Number.isFinite(Date.parse(item.at))) return null;
+  const kind = JOURNAL_KINDS.includes(item.kind as JournalEntryKind) ? (item.kind as JournalEntryKind) : 'note';
+  const lat = toFiniteOrNull(item.lat);
+  const lon = toFiniteOrNull(item.lon);
+  const hasPosition = lat !== null && lon !== null;
+  return {
+    id: item.id,
+    at: item.at,
+    kind,
+    text: item.text,
+    agent_uid: toStringOrNull(item.agent_uid),
+    agent_name: toStringOrNull(item.agent_name),
+    lat: hasPosition ? lat : null,
+    lon: hasPosition ? lon : null,
+    depth_m: hasPosition ? toFiniteOrNull(item.depth_m) : null,
+  };
+};
+
+/** Parses journal lines, skipping a torn last line or anything else that is not a valid entry. */
+export const parseJournal = (text: string): JournalEntry[] => {
+  const entries: JournalEntry[] = [];
+  const seen = new Set<string>();
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      continue;
+    }
+    const entry = normalizeJournalEntry(parsed);
+    if (!entry || seen.has(entry.id)) continue;
+    seen.add(entry.id);
+    entries.push(entry);
+  }
+  return entries;
+};
+
+export const loadJournal = async (fileStore: FileStoreBridge, rootPath: string): Promise<JournalEntry[]> => {
+  const raw = await fileStore.readText(getJournalFilePath(rootPath));
+  return raw ? parseJournal(raw) : [];
+};
+
+export const appendJournalEntries = async (
+  fileStore: FileStoreBridge,
+  rootPath: string,
+  entries: JournalEntry[],
+): Promise<void> => {
+  if (entries.length === 0) return;
+  const payload = entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+  await fileStore.appendText(getJournalFilePath(rootPath), payload);
+};
+
+/** Merges entries by id and keeps them in chronological order. */
+export const mergeJournalEntries = (current: JournalEntry[], incoming: JournalEntry[]): JournalEntry[] => {
+  if (incoming.length === 0) return current;
+  const byId = new Map(current.map((entry) => [entry.id, entry]));
+  for (const entry of incoming) {
+    byId.set(entry.id, entry);
+  }
+  return Array.from(byId.values()).sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+};
+
+export const diffTrackStatuses = (
+  previous: Record<string, TrackRecorderStatus>,
+  next: Record<string, TrackRecorderStatus>,
+): TrackStatusChange[] => {
+  const agentIds = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  const changes: TrackStatusChange[] = [];
+  for (const agentId of agentIds) {
+    const from = previous[agentId] ?? 'stopped';
+    const to = next[agentId] ?? 'stopped';
+    if (from !== to) {
+      changes.push({ agentId, from, to });
+    }
+  }
+  return changes;
+};
+
+export const describeTrackStatusChange = (change: Pick<TrackStatusChange, 'from' | 'to'>): string => {
+  if (change.to === 'recording') {
+    return change.from === 'paused' ? 'Запись трека возобновлена' : 'Запись трека начата';
+  }
+  if (change.to === 'paused') return 'Запись трека приостановлена';
+  return 'Запись трека остановлена';
+};
+
+export const describeConnectionState = (sourceTitle: string, state: TelemetryConnectionState): string =>
+  `${sourceTitle}: ${CONNECTION_STATE_LABELS[state]}`;
+
+const escapeCsvValue = (value: string): string =>
+  /[";\n\r,]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const journalToCsv = (entries: JournalEntry[]): string => {
+  const rows = entries.map((entry) =>
+    [
+      entry.at,
+      getJournalKindLabel(entry.kind),
+      entry.agent_name ?? '',
+      entry.text,
+      entry.lat === null ? '' : entry.lat.toFixed(7),
+      entry.lon === null ? '' : entry.lon.toFixed(7),
+      entry.depth_m === null ? '' : entry.depth_m.toFixed(1),
+    ]
+      .map(escapeCsvValue)
+      .join(','),
+  );
+  return [CSV_HEADER.join(','), ...rows].join('\n') + '\n';
+};
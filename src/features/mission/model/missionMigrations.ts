@@ -0,0 +1,154 @@
+import { MISSION_SCHEMA_VERSION, type MissionDocument } from './types';
+
+type MissionRecord = Record<string, unknown>;
+
+/** One upgrade of mission.json from `from` to `from + 1`; it receives a copy and may return it changed. */
+export type MissionMigrationStep = {
+  from: number;
+  description: string;
+  migrate: (mission: MissionRecord) => MissionRecord;
+};
+
+export type MissionMigrationResult = {
+  mission: MissionDocument;
+  fromVersion: number;
+  /** Descriptions of the applied steps, oldest first; empty when the document was already current. */
+  applied: string[];
+};
+
+export type MissionMigrationCheck = {
+  fromVersion: number | null;
+  toVersion: number;
+  steps: string[];
+  errors: string[];
+};
+
+const isRecord = (value: unknown): value is MissionRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** v1 kept a single active track in `active_track_id`; v2 only uses the per-agent `active_tracks`. */
+const migrateV1ToV2: MissionMigrationStep = {
+  from: 1,
+  description: 'active_track_id перенесён в active_tracks',
+  migrate: (mission) => {
+    const activeTracks: Record<string, unknown> = isRecord(mission.active_tracks) ? { ...mission.active_tracks } : {};
+    const legacyActiveTrackId = typeof mission.active_track_id === 'string' ? mission.active_track_id : null;
+    if (legacyActiveTrackId && Object.keys(activeTracks).length === 0) {
+      const divers = isRecord(mission.ui) && Array.isArray(mission.ui.divers) ? mission.ui.divers : [];
+      const primaryDiver = divers[0];
+      const primaryAgentId =
+        isRecord(primaryDiver) && typeof primaryDiver.uid === 'string' ? primaryDiver.uid : 'primary';
+      activeTracks[primaryAgentId] = legacyActiveTrackId;
+    }
+    return {
+      ...mission,
+      active_track_id: null,
+      active_tracks: activeTracks,
+      tracks: Array.isArray(mission.tracks)
+        ? mission.tracks.map((track) => (isRecord(track) ? { ...track, agent_id: track.agent_id ?? null } : track))
+        : mission.tracks,
+    };
+  },
+};
+
+export const MISSION_MIGRATIONS: readonly MissionMigrationStep[] = [migrateV1ToV2];
+
+const readSchemaVersion = (raw: unknown): number | null =>
+  isRecord(raw) && typeof raw.schema_version === 'number' && Number.isInteger(raw.schema_version)
+    ? raw.schema_version
+    : null;
+
+const resolveSteps = (
+  fromVersion: number,
+  steps: readonly MissionMigrationStep[],
+  targetVersion: number,
+): MissionMigrationStep[] => {
+  const chain: MissionMigrationStep[] = [];
+  for (let version = fromVersion; version < targetVersion; version += 1) {
+    const step = steps.find((item) => item.from === version);
+    if (!step) {
+      throw new Error(`Mission schema_version ${fromVersion} is older than supported: no migration from v${version}.`);
+    }
+    chain.push(step);
+  }
+  return chain;
+};
+
+const describeDocumentErrors = (mission: MissionRecord, targetVersion: number): string[] => {
+  const errors: string[] = [];
+  if (mission.schema_version !== targetVersion) {
+    errors.push(`schema_version is ${String(mission.schema_version)} instead of ${targetVersion}`);
+  }
+  const files = mission.files;
+  if (!isRecord(files) || typeof files.routes !== 'string' || !files.routes || typeof files.markers !== 'string' || !files.markers) {
+    errors.push('Mission files map is missing');
+  }
+  if (!Array.isArray(mission.tracks)) {
+    errors.push('Mission tracks list is missing');
+  } else {
+    mission.tracks.forEach((track, index) => {
+      if (!isRecord(track) || typeof track.id !== 'string' || typeof track.file !== 'string') {
+        errors.push(`Track #${index + 1} has no id or file`);
+      }
+    });
+  }
+  return errors;
+};
+
+const runSteps = (raw: MissionRecord, chain: MissionMigrationStep[]): MissionRecord =>
+  chain.reduce<MissionRecord>(
+    (mission, step) => ({ ...step.migrate(structuredClone(mission)), schema_version: step.from + 1 }),
+    raw,
+  );
+
+/**
+ * Dry run of the upgrade: applies the steps to a copy and reports which would run and what is wrong
+ * with the result, without throwing and without touching the input.
+ */
+export const checkMissionMigration = (
+  raw: unknown,
+  steps: readonly MissionMigrationStep[] = MISSION_MIGRATIONS,
+  targetVersion: number = MISSION_SCHEMA_VERSION,
+): MissionMigrationCheck => {
+  const fromVersion = readSchemaVersion(raw);
+  const report: MissionMigrationCheck = { fromVersion, toVersion: targetVersion, steps: [], errors: [] };
+  if (fromVersion === null || !isRecord(raw)) {
+    report.errors.push('Mission schema_version is invalid');
+    return report;
+  }
+  if (fromVersion > targetVersion) {
+    report.errors.push(
+      `Mission schema_version ${fromVersion} is newer than supported ${targetVersion}. App update required.`,
+    );
+    return report;
+  }
+  try {
+    const chain = resolveSteps(fromVersion, steps, targetVersion);
+    report.steps = chain.map((step) => step.description);
+    report.errors = describeDocumentErrors(runSteps(structuredClone(raw), chain), targetVersion);
+  } catch (error) {
+    report.errors.push(error instanceof Error ? error.message : String(error));
+  }
+  return report;
+};
+
+/**
+ * Upgrades a parsed mission.json to the current schema, step by step. Throws when the document is
+ * newer than the app, has no migration path or is malformed after the upgrade.
+ */
+export const migrateMissionDocument = (
+  raw: unknown,
+  steps: readonly MissionMigrationStep[] = MISSION_MIGRATIONS,
+  targetVersion: number = MISSION_SCHEMA_VERSION,
+): MissionMigrationResult => {
+  const check = checkMissionMigration(raw, steps, targetVersion);
+  if (check.errors.length > 0 || check.fromVersion === null) {
+    throw new Error(check.errors[0] ?? 'Mission schema_version is invalid');
+  }
+  const chain = resolveSteps(check.fromVersion, steps, targetVersion);
+  return {
+    mission: runSteps(raw as MissionRecord, chain) as MissionDocument,
+    fromVersion: check.fromVersion,
+    applied: check.steps,
+  };
+};
@@ -0,0 +1,247 @@
+import type { FileStoreBridge } from '@/platform/contracts';
+import { MISSION_SCHEMA_VERSION, type MissionDocument } from './types';
+import { checkMissionMigration, migrateMissionDocument } from './missionMigrations';
+import { createZipArchive, readZipArchive, type ZipEntryInput } from './zipArchive';
+
+export type ImportedMissionPackage = {
+  rootPath: string;
+  mission: MissionDocument;
+  fileCount: number;
+};
+
+const MISSION_FILE_NAME = 'mission.json';
+/** Runtime files of an opened mission; another copy of the mission must not inherit them. */
+const EXCLUDED_FILES = new Set(['mission.lock', 'mission.json.bak', 'logs/wal/current.wal']);
+
+const normalizePath = (path: string): string => path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/\/$/, '');
+const joinPath = (base: string, part: string): string => `${normalizePath(base)}/${part.replace(/^\/+/, '')}`;
+
+/** Path inside the package, or null when it is absolute or escapes the mission folder. */
+const toPackagePath = (path: string): string | null => {
+  const segments = normalizePath(path)
+    .split('/')
+    .filter((segment) => segment.length > 0 && segment !== '.');
+  if (segments.length === 0 || /^[a-zA-Z]:$/.test(segments[0]) || segments.includes('..')) return null;
+  return segments.join('/');
+};
+
+const folderNameFor = (missionName: string): string => {
+  const cleaned = Array.from(missionName)
+    .filter((ch) => ch.charCodeAt(0) >= 32)
+    .join('')
+    .replace(/[<>:"/\\|?*]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return cleaned || 'mission';
+};
+
+/** Mission document of the package upgraded to the current schema; newer or broken documents are rejected. */
+const validatePackageMission = (value: unknown): MissionDocument => {
+  if (!value || typeof value !== 'object') {
+    throw new Error(`${MISSION_FILE_NAME} повреждён.`);
+  }
+  const { schema_version: schemaVersion } = value as { schema_version?: unknown };
+  if (typeof schemaVersion !== 'number' || !Number.isFinite(schemaVersion)) {
+    throw new Error('В mission.json нет корректной schema_version.');
+  }
+  if (schemaVersion > MISSION_SCHEMA_VERSION) {
+    throw new Error(
+      `Пакет создан более новой версией приложения (schema_version ${schemaVersion}, поддерживается ${MISSION_SCHEMA_VERSION}). Обновите приложение.`,
+    );
+  }
+  const check = checkMissionMigration(value);
+  if (check.errors.length > 0) {
+    throw new Error(`${MISSION_FILE_NAME} не удаётся привести к текущей схеме: ${check.errors.join('; ')}.`);
+  }
+  return migrateMissionDocument(value).mission;
+};
+
+const parsePackageMission = (text: string): MissionDocument => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error(`${MISSION_FILE_NAME} повреждён.`);
+  }
+  return validatePackageMission(parsed);
+};
+
+/** Every file the mission document points at: routes, markers, tracks and overlay files of the UI state. */
+const listReferencedFiles = (mission: MissionDocument): string[] => {
+  const ui = mission.ui;
+  return [
+    mission.files.routes,
+    mission.files.markers,
+    ...mission.tracks.map((track) => track.file),
+    ...(ui?.raster_overlays ?? []).flatMap((overlay) => [overlay.file, overlay.tfw_file]),
+    ...(ui?.vector_overlays ?? []).flatMap((overlay) => [overlay.file, overlay.cache_file]),
+    ...(ui?.bathymetry_layers ?? []).map((layer) => layer.file),
+  ].filter((path): path is string => typeof path === 'string' && path.trim().length > 0);
+};
+
+/** Copy of the mission with every file reference passed through `rewrite`. */
+const mapReferencedFiles = (mission: MissionDocument, rewrite: (path: string) => string): MissionDocument => {
+  const rewriteOptional = (path: string | undefined): string | undefined =>
+    typeof path === 'string' && path.trim().length > 0 ? rewrite(path) : path;
+  const ui = mission.ui;
+  return {
+    ...mission,
+    files: { ...mission.files, routes: rewrite(mission.files.routes), markers: rewrite(mission.files.markers) },
+    tracks: mission.tracks.map((track) => ({ ...track, file: rewrite(track.file) })),
+    ...(ui
+      ? {
+          ui: {
+            ...ui,
+            ...(ui.raster_overlays
+              ? {
+                  raster_overlays: ui.raster_overlays.map((overlay) => ({
+                    ...overlay,
+                    file: rewrite(overlay.file),
+                    tfw_file: rewriteOptional(overlay.tfw_file),
+                  })),
+                }
+              : {}),
+            ...(ui.vector_overlays
+              ? {
+                  vector_overlays: ui.vector_overlays.map((overlay) => ({
+                    ...overlay,
+                    file: rewrite(overlay.file),
+                    cache_file: rewriteOptional(overlay.cache_file),
+                  })),
+                }
+              : {}),
+            ...(ui.bathymetry_layers
+              ? { bathymetry_layers: ui.bathymetry_layers.map((layer) => ({ ...layer, file: rewrite(layer.file) })) }
+              : {}),
+          },
+        }
+      : {}),
+  };
+};
+
+const resolveAvailableRootPath = async (store: FileStoreBridge, missionsDir: string, name: string): Promise<string> => {
+  const isTaken = async (rootPath: string): Promise<boolean> =>
+    (await store.exists(rootPath)) || (await store.exists(joinPath(rootPath, MISSION_FILE_NAME)));
+  const base = joinPath(missionsDir, name);
+  if (!(await isTaken(base))) return base;
+  for (let index = 2; ; index += 1) {
+    const candidate = `${base} (${index})`;
+    if (!(await isTaken(candidate))) return candidate;
+  }
+};
+
+/**
+ * Packs the mission folder into a ZIP archive: the folder contents plus the overlay files referenced
+ * by the UI state, without the lock, WAL and backup of the opened mission. Paths are relative to the
+ * mission folder. The mission is expected to be saved beforehand.
+ */
+export const exportMissionPackage = async (
+  store: FileStoreBridge,
+  rootPathInput: string,
+): Promise<Uint8Array<ArrayBuffer>> => {
+  const rootPath = normalizePath(rootPathInput);
+  const missionText = await store.readText(joinPath(rootPath, MISSION_FILE_NAME));
+  if (missionText === null) {
+    throw new Error(`В папке ${rootPath} нет ${MISSION_FILE_NAME}.`);
+  }
+  const mission = parsePackageMission(missionText);
+
+  const paths = new Set<string>([MISSION_FILE_NAME]);
+  const rootPrefix = `${rootPath}/`;
+  for (const path of await store.list(rootPath)) {
+    const normalized = normalizePath(path);
+    if (!normalized.startsWith(rootPrefix)) continue;
+    const relative = normalized.slice(rootPrefix.length);
+    if (!EXCLUDED_FILES.has(relative)) paths.add(relative);
+  }
+  for (const path of listReferencedFiles(mission)) {
+    const relative = toPackagePath(path);
+    if (relative && !paths.has(relative) && (await store.exists(joinPath(rootPath, relative)))) {
+      paths.add(relative);
+    }
+  }
+
+  const encoder = new TextEncoder();
+  const entries: ZipEntryInput[] = [];
+  for (const relative of paths) {
+    const content = relative === MISSION_FILE_NAME ? missionText : await store.readText(joinPath(rootPath, relative));
+    if (content === null) continue;
+    const stat = await store.stat(joinPath(rootPath, relative));
+    entries.push({
+      path: relative,
+      data: encoder.encode(content),
+      ...(stat ? { modifiedAt: new Date(stat.mtimeMs) } : {}),
+    });
+  }
+  return createZipArchive(entries);
+};
+
+/**
+ * Unpacks a mission package into a new folder under `missionsDir` named after the mission. The package
+ * may hold the mission at its root or inside one folder. File references of mission.json are rewritten
+ * to paths relative to the new folder and older schemas are upgraded; the package is rejected when it
+ * comes from a newer schema or when any of its paths leaves the mission folder.
+ */
+export const importMissionPackage = async (
+  store: FileStoreBridge,
+  bytes: Uint8Array<ArrayBuffer>,
+  missionsDir: string,
+): Promise<ImportedMissionPackage> => {
+  const entries = await readZipArchive(bytes);
+  const missionEntry = entries
+    .map((entry) => ({ entry, path: normalizePath(entry.path) }))
+    .filter(({ path }) => path === MISSION_FILE_NAME || path.endsWith(`/${MISSION_FILE_NAME}`))
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length)[0];
+  if (!missionEntry) {
+    throw new Error(`В пакете нет ${MISSION_FILE_NAME}.`);
+  }
+  const prefix = missionEntry.path.slice(0, -MISSION_FILE_NAME.length);
+
+  const decoder = new TextDecoder('utf-8');
+  const mission = parsePackageMission(decoder.decode(missionEntry.entry.data));
+
+  const files = new Map<string, string>();
+  for (const entry of entries) {
+    const path = normalizePath(entry.path);
+    if (entry === missionEntry.entry || !path.startsWith(prefix)) continue;
+    const relative = toPackagePath(path.slice(prefix.length));
+    if (!relative) {
+      throw new Error(`Недопустимый путь в пакете: ${entry.path}`);
+    }
+    if (!EXCLUDED_FILES.has(relative)) files.set(relative, decoder.decode(entry.data));
+  }
+
+  // References may still carry the packed folder or an absolute path of the source machine.
+  const rewrite = (reference: string): string => {
+    const normalized = normalizePath(reference);
+    const relative = toPackagePath(normalized);
+    if (relative && files.has(relative)) return relative;
+    if (prefix && normalized.startsWith(prefix)) {
+      const stripped = toPackagePath(normalized.slice(prefix.length));
+      if (stripped && files.has(stripped)) return stripped;
+    }
+    for (const path of files.keys()) {
+      if (normalized.endsWith(`/${path}`)) return path;
+    }
+    if (!relative) {
+      throw new Error(`Файл ${reference} из mission.json не найден в пакете.`);
+    }
+    return relative;
+  };
+  const rewrittenMission = mapReferencedFiles(mission, rewrite);
+
+  const rootPath = await resolveAvailableRootPath(store, missionsDir, folderNameFor(mission.name ?? ''));
+  try {
+    for (const [relative, content] of files) {
+      await store.writeText(joinPath(rootPath, relative), content);
+    }
+    // mission.json goes last so that an interrupted import never looks like a complete mission.
+    await store.writeText(joinPath(rootPath, MISSION_FILE_NAME), JSON.stringify(rewrittenMission, null, 2));
+  } catch (error) {
+    await store.remove(rootPath).catch(() => {
+      // Partially written folder is left behind if it cannot be removed either.
+    });
+    throw error;
+  }
+  return { rootPath, mission: rewrittenMission, fileCount: files.size + 1 };
+};
@@ -92,10 +92,11 @@ const buildCandidate = async (platform: Platform, missionPath: string): Promise<
   const missionName = typeof missionData?.name === 'string' && missionData.name.trim()
     ? missionData.name.trim()
     : missionNameFromRootPath(rootPath);
-  const fileStat = platform.runtime.isElectron ? await platform.fileStore.stat(missionPath) : null;
+  // File mtime when the store reports one, otherwise the mission's own updated_at.
+  const fileStat = await platform.fileStore.stat(missionPath);
   const statMtime = Number.isFinite(fileStat?.mtimeMs) ? Number(fileStat?.mtimeMs) : 0;
-  const sortValue = platform.runtime.isElectron ? (statMtime || missionUpdatedAt) : missionUpdatedAt;
-  const dateValue = platform.runtime.isElectron ? (statMtime || missionUpdatedAt) : missionUpdatedAt;
+  const sortValue = statMtime || missionUpdatedAt;
+  const dateValue = statMtime || missionUpdatedAt;
 
   return {
     rootPath,
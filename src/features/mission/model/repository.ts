@@ -11,6 +11,10 @@ import {
   type TrackPoint,
 } from './types';
 import { createTrackWriter, type TrackWriter } from './trackWriter';
+import { ALARM_LOG_FILE } from './alarms';
+import { EDIT_HISTORY_FILE_NAME } from './editHistory';
+import { JOURNAL_FILE_NAME } from './missionJournal';
+import { migrateMissionDocument } from './missionMigrations';
 
 export type MissionRepository = {
   createMission: (input: CreateMissionInput, options?: { acquireLock?: boolean }) => Promise<MissionBundle>;
@@ -52,6 +56,8 @@ const MISSION_WAL_FILE_NAME = 'logs/wal/current.wal';
 const MISSION_WAL_SCHEMA_VERSION = 1;
 const lockPath = (rootPath: string): string => joinPath(rootPath, 'mission.lock');
 const walPath = (rootPath: string): string => joinPath(rootPath, MISSION_WAL_FILE_NAME);
+/** Untouched copy of a file as it was before a schema upgrade, e.g. `mission.json.v1.bak`. */
+const preMigrationBackupPath = (path: string, fromVersion: number): string => `${path}.v${fromVersion}.bak`;
 const isLockError = (error: unknown): boolean =>
   error instanceof Error && error.message.startsWith('Mission is locked:');
 
@@ -171,12 +177,6 @@ const normalizeLoadedMissionDocument = (mission: MissionDocument): MissionDocume
     })),
   };
 
-  if (normalized.active_track_id && Object.keys(normalized.active_tracks).length === 0) {
-    const primaryAgentId = (normalized.ui?.divers?.[0] as { uid?: string } | undefined)?.uid ?? 'primary';
-    normalized.active_tracks[primaryAgentId] = normalized.active_track_id;
-    normalized.active_track_id = null;
-  }
-
   return normalized;
 };
 
@@ -259,6 +259,26 @@ export const createMissionRepository = (store: FileStoreBridge): MissionReposito
     await store.remove(lockPath(rootPath));
   };
 
+  /**
+   * Brings a stored mission document to the current schema. Before the first upgrade of `sourcePath`
+   * its original content is kept next to it; an existing backup is never overwritten.
+   */
+  const upgradeMissionDocument = async (
+    sourcePath: string,
+    original: unknown,
+    missionInput: unknown,
+  ): Promise<MissionDocument> => {
+    const { mission, fromVersion, applied } = migrateMissionDocument(missionInput);
+    if (applied.length > 0) {
+      const backupPath = preMigrationBackupPath(sourcePath, fromVersion);
+      if (!(await store.exists(backupPath))) {
+        await writeJson(store, backupPath, original);
+        await store.flush(backupPath);
+      }
+    }
+    return mission;
+  };
+
   const loadBundleFromMissionDocument = async (rootPath: string, missionInput: MissionDocument): Promise<MissionBundle> => {
     validateMissionDocument(missionInput);
     const mission = normalizeLoadedMissionDocument(missionInput);
@@ -307,10 +327,11 @@ export const createMissionRepository = (store: FileStoreBridge): MissionReposito
     if (wal.schema_version !== MISSION_WAL_SCHEMA_VERSION) {
       return null;
     }
-    validateMissionDocument(wal.mission);
+    const mission = await upgradeMissionDocument(walPath(rootPath), wal, wal.mission);
+    validateMissionDocument(mission);
     return {
       rootPath,
-      mission: normalizeLoadedMissionDocument(wal.mission),
+      mission: normalizeLoadedMissionDocument(mission),
       routes: wal.routes ?? emptyRoutes(),
       markers: wal.markers ?? emptyMarkers(),
       trackPointsByTrackId: wal.track_points_by_track_id ?? {},
@@ -505,7 +526,11 @@ export const createMissionRepository = (store: FileStoreBridge): MissionReposito
       let diskBundle: MissionBundle | null = null;
       if (missionDocument) {
         try {
-          diskBundle = await loadBundleFromMissionDocument(rootPath, missionDocument);
+          const upgraded = await upgradeMissionDocument(missionPath, missionDocument, missionDocument);
+          if (upgraded !== missionDocument) {
+            await writeJson(store, missionPath, upgraded);
+          }
+          diskBundle = await loadBundleFromMissionDocument(rootPath, upgraded);
         } catch (error) {
           missionReadError = missionReadError ?? error;
         }
@@ -604,6 +629,13 @@ export const createMissionRepository = (store: FileStoreBridge): MissionReposito
     try {
       await saveMission(convertedBundle);
       if (draftRootPath !== missionRootPath) {
+        // The operator journal, alarm log and edit history are not part of the bundle; carry them over before the draft is removed.
+        for (const fileName of [JOURNAL_FILE_NAME, ALARM_LOG_FILE, EDIT_HISTORY_FILE_NAME]) {
+          const draftFile = await store.readText(joinPath(draftRootPath, fileName));
+          if (draftFile) {
+            await store.writeText(joinPath(missionRootPath, fileName), draftFile);
+          }
+        }
         await store.remove(draftRootPath);
       }
       return convertedBundle;
@@ -0,0 +1,147 @@
+import { distanceMeters, EARTH_RADIUS_M, initialBearingDeg } from '@/features/geo/distance';
+import type { GeoPoint, MapObject } from '@/features/map/model/types';
+import { buildLaneTraversal } from './laneWaypoints';
+import type { LaneFeature } from './types';
+
+/** Agent assigned to follow a route or a zone's lane traversal. */
+export type RouteFollowingAssignment = {
+  objectId: string;
+  /** 0-based index of the waypoint the agent is steering to. */
+  targetIndex: number;
+  arrivalRadiusM: number;
+  completed: boolean;
+};
+
+export type RouteGuidance = {
+  targetIndex: number;
+  waypointCount: number;
+  /** Active leg runs from `targetIndex - 1`; null while heading to the first waypoint. */
+  legStart: GeoPoint | null;
+  target: GeoPoint;
+  legBearingDeg: number;
+  legLengthM: number;
+  bearingToWaypointDeg: number;
+  distanceToWaypointM: number;
+  /** Signed distance off the active leg, positive to starboard (right of track). */
+  crossTrackErrorM: number;
+  /** Distance made good along the active leg from its start. */
+  alongTrackDistanceM: number;
+  completed: boolean;
+};
+
+export const DEFAULT_ARRIVAL_RADIUS_M = 5;
+
+const DEG_TO_RAD = Math.PI / 180;
+
+// Local metric plane around `origin` for cross-track geometry: x = East, y = North.
+const toLocalXY = (origin: GeoPoint, point: GeoPoint): { x: number; y: number } => ({
+  x: (point.lon - origin.lon) * DEG_TO_RAD * EARTH_RADIUS_M * Math.cos(origin.lat * DEG_TO_RAD),
+  y: (point.lat - origin.lat) * DEG_TO_RAD * EARTH_RADIUS_M,
+});
+
+/**
+ * Waypoints an agent follows for a map object: route vertices, or the lane
+ * traversal of a zone. Empty for anything that cannot be followed.
+ */
+export const buildObjectNavigationPath = (object: MapObject, laneFeatures: LaneFeature[]): GeoPoint[] => {
+  if (object.type === 'route' && object.geometry?.type === 'route') {
+    return object.geometry.points;
+  }
+  if (object.type !== 'zone') return [];
+  const lanes = laneFeatures.filter((lane) => lane.properties.parent_area_id === object.id);
+  if (lanes.length === 0) return [];
+  return buildLaneTraversal(lanes, object.laneStart ?? null, object.laneBearingDeg).waypoints.map((waypoint) => ({
+    lat: waypoint.lat,
+    lon: waypoint.lon,
+  }));
+};
+
+export const createRouteFollowingAssignment = (
+  objectId: string,
+  arrivalRadiusM = DEFAULT_ARRIVAL_RADIUS_M,
+): RouteFollowingAssignment => ({
+  objectId,
+  targetIndex: 0,
+  arrivalRadiusM,
+  completed: false,
+});
+
+/**
+ * Advances the target waypoint once the agent is inside the arrival radius or
+ * has run past the end of the active leg. Returns the same object when nothing
+ * changed so it can feed React state directly.
+ */
+export const advanceRouteFollowing = (
+  points: GeoPoint[],
+  assignment: RouteFollowingAssignment,
+  position: GeoPoint,
+): RouteFollowingAssignment => {
+  if (assignment.completed || points.length === 0) return assignment;
+
+  let targetIndex = Math.min(Math.max(0, assignment.targetIndex), points.length - 1);
+  let completed = false;
+  while (!completed) {
+    const target = points[targetIndex];
+    let arrived = distanceMeters(position, target) <= assignment.arrivalRadiusM;
+    if (!arrived && targetIndex > 0) {
+      const legStart = points[targetIndex - 1];
+      const leg = toLocalXY(legStart, target);
+      const legLength = Math.hypot(leg.x, leg.y);
+      const agent = toLocalXY(legStart, position);
+      arrived = legLength > 0 && (agent.x * leg.x + agent.y * leg.y) / legLength >= legLength;
+    }
+    if (!arrived) break;
+    if (targetIndex === points.length - 1) {
+      completed = true;
+    } else {
+      targetIndex += 1;
+    }
+  }
+
+  if (targetIndex === assignment.targetIndex && completed === assignment.completed) return assignment;
+  return { ...assignment, targetIndex, completed };
+};
+
+export const computeRouteGuidance = (
+  points: GeoPoint[],
+  assignment: RouteFollowingAssignment,
+  position: GeoPoint,
+): RouteGuidance | null => {
+  if (points.length === 0) return null;
+
+  const targetIndex = Math.min(Math.max(0, assignment.targetIndex), points.length - 1);
+  const target = points[targetIndex];
+  const legStart = targetIndex > 0 ? points[targetIndex - 1] : null;
+  const distanceToWaypointM = distanceMeters(position, target);
+  const bearingToWaypointDeg = initialBearingDeg(position, target);
+
+  let legBearingDeg = bearingToWaypointDeg;
+  let legLengthM = distanceToWaypointM;
+  let crossTrackErrorM = 0;
+  let alongTrackDistanceM = 0;
+  if (legStart) {
+    const leg = toLocalXY(legStart, target);
+    const agent = toLocalXY(legStart, position);
+    legLengthM = Math.hypot(leg.x, leg.y);
+    if (legLengthM > 0) {
+      legBearingDeg = initialBearingDeg(legStart, target);
+      alongTrackDistanceM = (agent.x * leg.x + agent.y * leg.y) / legLengthM;
+      // 2D cross product: positive when the agent lies to the right of the leg direction.
+      crossTrackErrorM = (agent.x * leg.y - agent.y * leg.x) / legLengthM;
+    }
+  }
+
+  return {
+    targetIndex,
+    waypointCount: points.length,
+    legStart,
+    target,
+    legBearingDeg,
+    legLengthM,
+    bearingToWaypointDeg,
+    distanceToWaypointM,
+    crossTrackErrorM,
+    alongTrackDistanceM,
+    completed: assignment.completed,
+  };
+};
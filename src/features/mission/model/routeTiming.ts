@@ -0,0 +1,198 @@
+import { distanceMeters, initialBearingDeg } from '@/features/geo/distance';
+import type { GeoPoint } from '@/features/map/model/types';
+
+export type RouteLegTiming = {
+  /** 1-based index of the leg; leg N runs from waypoint N to waypoint N + 1. */
+  index: number;
+  from: GeoPoint;
+  to: GeoPoint;
+  bearingDeg: number;
+  distanceM: number;
+  /** Time to run the leg plus the turn onto it, seconds. */
+  durationS: number;
+  turnS: number;
+  cumulativeDistanceM: number;
+  cumulativeTimeS: number;
+  /** Arrival at the leg end when the route is started at `startTimeMs`. */
+  etaMs: number;
+};
+
+export type RouteTiming = {
+  speedMps: number;
+  legs: RouteLegTiming[];
+  totalDistanceM: number;
+  totalTurnS: number;
+  totalDurationS: number;
+  startTimeMs: number;
+  etaMs: number;
+};
+
+export type RouteTimingOptions = {
+  speedMps: number;
+  /** Time lost on a full 180° turn; smaller turns are charged proportionally. */
+  turnAllowanceS?: number;
+  startTimeMs?: number;
+};
+
+export type RouteProgress = {
+  /** 0-based index of the waypoint the agent is heading to. */
+  nextWaypointIndex: number;
+  distanceToNextM: number;
+  remainingDistanceM: number;
+  timeToNextS: number | null;
+  remainingTimeS: number | null;
+  etaNextMs: number | null;
+  etaEndMs: number | null;
+};
+
+export const DEFAULT_PLANNED_SPEED_MPS = 1;
+export const DEFAULT_TURN_ALLOWANCE_S = 30;
+/** Below this SOG the agent is treated as stopped and no ETA is given. */
+export const MIN_ETA_SPEED_MPS = 0.05;
+
+const DEG_TO_RAD = Math.PI / 180;
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const turnAngleDeg = (fromBearing: number, toBearing: number): number => {
+  const diff = Math.abs(toBearing - fromBearing) % 360;
+  return diff > 180 ? 360 - diff : diff;
+};
+
+/**
+ * Planned speed for an object: its own speed, else the agent default, else
+ * the global default.
+ */
+export const resolvePlannedSpeedMps = (objectSpeedMps?: number | null, agentSpeedMps?: number | null): number => {
+  if (isPositiveNumber(objectSpeedMps)) return objectSpeedMps;
+  if (isPositiveNumber(agentSpeedMps)) return agentSpeedMps;
+  return DEFAULT_PLANNED_SPEED_MPS;
+};
+
+export const computeRouteTiming = (points: GeoPoint[], options: RouteTimingOptions): RouteTiming => {
+  const speedMps = isPositiveNumber(options.speedMps) ? options.speedMps : DEFAULT_PLANNED_SPEED_MPS;
+  const turnAllowanceS = isPositiveNumber(options.turnAllowanceS) ? options.turnAllowanceS : 0;
+  const startTimeMs = options.startTimeMs ?? Date.now();
+
+  const legs: RouteLegTiming[] = [];
+  let cumulativeDistanceM = 0;
+  let cumulativeTimeS = 0;
+  let totalTurnS = 0;
+  let previousBearing: number | null = null;
+
+  for (let i = 0; i + 1 < points.length; i += 1) {
+    const from = points[i];
+    const to = points[i + 1];
+    const distanceM = distanceMeters(from, to);
+    // Coincident points keep the previous heading and cost nothing.
+    const legBearing = distanceM > 0 ? initialBearingDeg(from, to) : previousBearing ?? 0;
+    const turnS =
+      previousBearing === null ? 0 : (turnAllowanceS * turnAngleDeg(previousBearing, legBearing)) / 180;
+    const durationS = distanceM / speedMps + turnS;
+
+    cumulativeDistanceM += distanceM;
+    cumulativeTimeS += durationS;
+    totalTurnS += turnS;
+    if (distanceM > 0) previousBearing = legBearing;
+
+    legs.push({
+      index: i + 1,
+      from,
+      to,
+      bearingDeg: legBearing,
+      distanceM,
+      durationS,
+      turnS,
+      cumulativeDistanceM,
+      cumulativeTimeS,
+      etaMs: startTimeMs + cumulativeTimeS * 1000,
+    });
+  }
+
+  return {
+    speedMps,
+    legs,
+    totalDistanceM: cumulativeDistanceM,
+    totalTurnS,
+    totalDurationS: cumulativeTimeS,
+    startTimeMs,
+    etaMs: startTimeMs + cumulativeTimeS * 1000,
+  };
+};
+
+/**
+ * Live progress along a planned path. Unless the target waypoint is given (an
+ * agent actively following the path), the agent is matched to the nearest leg
+ * (equirectangular projection around the agent) and heads to that leg's end.
+ */
+export const computeRouteProgress = (
+  points: GeoPoint[],
+  position: GeoPoint,
+  sogMps: number,
+  nowMs: number,
+  targetWaypointIndex?: number,
+): RouteProgress | null => {
+  if (points.length === 0) return null;
+
+  let nextWaypointIndex = 0;
+  if (targetWaypointIndex !== undefined) {
+    nextWaypointIndex = Math.min(Math.max(0, targetWaypointIndex), points.length - 1);
+  } else if (points.length > 1) {
+    const cosLat = Math.max(Math.cos(position.lat * DEG_TO_RAD), 1e-6);
+    const toXY = (point: GeoPoint) => ({
+      x: (point.lon - position.lon) * cosLat,
+      y: point.lat - position.lat,
+    });
+    let bestDistance = Number.POSITIVE_INFINITY;
+    for (let i = 0; i + 1 < points.length; i += 1) {
+      const a = toXY(points[i]);
+      const b = toXY(points[i + 1]);
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const lengthSq = dx * dx + dy * dy;
+      const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq)) : 0;
+      const distance = Math.hypot(a.x + dx * t, a.y + dy * t);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        nextWaypointIndex = i + 1;
+      }
+    }
+  }
+
+  const distanceToNextM = distanceMeters(position, points[nextWaypointIndex]);
+  let remainingDistanceM = distanceToNextM;
+  for (let i = nextWaypointIndex; i + 1 < points.length; i += 1) {
+    remainingDistanceM += distanceMeters(points[i], points[i + 1]);
+  }
+
+  const moving = Number.isFinite(sogMps) && sogMps >= MIN_ETA_SPEED_MPS;
+  const timeToNextS = moving ? distanceToNextM / sogMps : null;
+  const remainingTimeS = moving ? remainingDistanceM / sogMps : null;
+  return {
+    nextWaypointIndex,
+    distanceToNextM,
+    remainingDistanceM,
+    timeToNextS,
+    remainingTimeS,
+    etaNextMs: timeToNextS === null ? null : nowMs + timeToNextS * 1000,
+    etaEndMs: remainingTimeS === null ? null : nowMs + remainingTimeS * 1000,
+  };
+};
+
+/** `1:05:30` / `12:07` style duration for tables and the HUD. */
+export const formatDurationHms = (seconds: number | null): string => {
+  if (seconds === null || !Number.isFinite(seconds)) return '—';
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const mm = String(minutes).padStart(2, '0');
+  const ss = String(secs).padStart(2, '0');
+  return hours > 0 ? `${hours}:${mm}:${ss}` : `${minutes}:${ss}`;
+};
+
+export const formatClockTime = (timeMs: number | null): string => {
+  if (timeMs === null || !Number.isFinite(timeMs)) return '—';
+  return new Date(timeMs).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+};
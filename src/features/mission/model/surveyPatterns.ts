@@ -0,0 +1,225 @@
+import type { GeoPoint, SurveyPatternId } from '@/features/map/model/types';
+import type { LaneFeature } from './types';
+
+export type { SurveyPatternId };
+
+export type SearchPatternId = Exclude<SurveyPatternId, 'parallel'>;
+
+export const surveyPatternIds: SurveyPatternId[] = [
+  'parallel',
+  'expanding_square',
+  'sector',
+  'creeping_line',
+  'spiral_out',
+  'spiral_in',
+];
+
+const SURVEY_PATTERN_LABELS: Record<SurveyPatternId, string> = {
+  parallel: 'Параллельные галсы',
+  expanding_square: 'Расширяющийся квадрат',
+  sector: 'Секторный поиск',
+  creeping_line: 'Гребёнка от датума',
+  spiral_out: 'Спираль наружу',
+  spiral_in: 'Спираль внутрь',
+};
+
+export const getSurveyPatternLabel = (pattern: SurveyPatternId): string => SURVEY_PATTERN_LABELS[pattern];
+
+export const isSurveyPatternId = (value: unknown): value is SurveyPatternId =>
+  typeof value === 'string' && (surveyPatternIds as string[]).includes(value);
+
+/** Which pattern parameters are meaningful; the UI hides the rest. */
+export const surveyPatternParams: Record<
+  SurveyPatternId,
+  { legCount: boolean; legLength: boolean; datum: boolean }
+> = {
+  parallel: { legCount: false, legLength: false, datum: false },
+  expanding_square: { legCount: true, legLength: false, datum: true },
+  sector: { legCount: true, legLength: true, datum: true },
+  creeping_line: { legCount: true, legLength: true, datum: true },
+  spiral_out: { legCount: true, legLength: false, datum: true },
+  spiral_in: { legCount: true, legLength: false, datum: true },
+};
+
+const DEFAULT_LEG_COUNTS: Record<SearchPatternId, number> = {
+  expanding_square: 12,
+  sector: 9,
+  creeping_line: 6,
+  spiral_out: 4,
+  spiral_in: 4,
+};
+
+export const DEFAULT_PATTERN_LEG_LENGTH_M = 100;
+const MAX_LEG_COUNT = 200;
+const SPIRAL_SEGMENTS_PER_TURN = 16;
+
+export const getDefaultPatternLegCount = (pattern: SurveyPatternId): number =>
+  pattern === 'parallel' ? 0 : DEFAULT_LEG_COUNTS[pattern];
+
+type PointXY = {
+  x: number;
+  y: number;
+};
+
+export type SurveyPatternInput = {
+  parentAreaId: string;
+  pattern: SearchPatternId;
+  datum: GeoPoint;
+  /** Initial course (sector, square, spiral) or creep direction (creeping line), degrees from North. */
+  courseDeg: number;
+  /** Track spacing: square step, distance between creeping legs or spiral turns. */
+  spacingM: number;
+  /** Number of legs; for spirals the number of turns. */
+  legCount: number;
+  /** Sector radius or creeping leg length. */
+  legLengthM?: number;
+  timestamp?: string;
+};
+
+const EARTH_RADIUS_M = 6378137;
+const RAD_TO_DEG = 180 / Math.PI;
+const DEG_TO_RAD = Math.PI / 180;
+
+const createId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+const unprojectPoint = (point: PointXY, datum: GeoPoint): [number, number] => {
+  const cosLat0 = Math.max(Math.cos(datum.lat * DEG_TO_RAD), 1e-6);
+  const lat = datum.lat + (point.y / EARTH_RADIUS_M) * RAD_TO_DEG;
+  const lon = datum.lon + (point.x / (EARTH_RADIUS_M * cosLat0)) * RAD_TO_DEG;
+  return [lon, lat];
+};
+
+// x = East, y = North, bearing clockwise from North.
+const bearingToUnitVector = (bearingDeg: number): PointXY => ({
+  x: Math.sin(bearingDeg * DEG_TO_RAD),
+  y: Math.cos(bearingDeg * DEG_TO_RAD),
+});
+
+const move = (from: PointXY, bearingDeg: number, distanceM: number): PointXY => {
+  const direction = bearingToUnitVector(bearingDeg);
+  return { x: from.x + direction.x * distanceM, y: from.y + direction.y * distanceM };
+};
+
+/** Expanding square: legs of 1, 1, 2, 2, 3, 3... spacings with 90° right turns. */
+const buildExpandingSquare = (courseDeg: number, spacingM: number, legCount: number): Array<[PointXY, PointXY]> => {
+  const legs: Array<[PointXY, PointXY]> = [];
+  let position: PointXY = { x: 0, y: 0 };
+  for (let leg = 0; leg < legCount; leg += 1) {
+    const next = move(position, courseDeg + leg * 90, spacingM * (Math.floor(leg / 2) + 1));
+    legs.push([position, next]);
+    position = next;
+  }
+  return legs;
+};
+
+/**
+ * Sector ("Victor Sierra") search: legs of one radius with 120° right turns.
+ * Every third leg ends on the datum and the next one continues straight
+ * through it, so nine legs form three triangles around the datum.
+ */
+const buildSectorSearch = (courseDeg: number, radiusM: number, legCount: number): Array<[PointXY, PointXY]> => {
+  const legs: Array<[PointXY, PointXY]> = [];
+  let position: PointXY = { x: 0, y: 0 };
+  let heading = courseDeg;
+  for (let leg = 0; leg < legCount; leg += 1) {
+    if (leg > 0 && leg % 3 !== 0) heading += 120;
+    const next = move(position, heading, radiusM);
+    legs.push([position, next]);
+    position = next;
+  }
+  return legs;
+};
+
+/** Creeping line: legs across the creep direction, advancing one spacing per leg. */
+const buildCreepingLine = (
+  courseDeg: number,
+  spacingM: number,
+  legLengthM: number,
+  legCount: number,
+): Array<[PointXY, PointXY]> => {
+  const legs: Array<[PointXY, PointXY]> = [];
+  for (let leg = 0; leg < legCount; leg += 1) {
+    const near = move({ x: 0, y: 0 }, courseDeg, leg * spacingM);
+    const far = move(near, courseDeg + 90, legLengthM);
+    legs.push(leg % 2 === 0 ? [near, far] : [far, near]);
+  }
+  return legs;
+};
+
+/** Archimedean spiral with `spacingM` between turns, split into short straight legs. */
+const buildSpiral = (
+  courseDeg: number,
+  spacingM: number,
+  turns: number,
+  inward: boolean,
+): Array<[PointXY, PointXY]> => {
+  const points: PointXY[] = [];
+  const segmentCount = turns * SPIRAL_SEGMENTS_PER_TURN;
+  for (let i = 0; i <= segmentCount; i += 1) {
+    const turn = i / SPIRAL_SEGMENTS_PER_TURN;
+    points.push(move({ x: 0, y: 0 }, courseDeg + turn * 360, turn * spacingM));
+  }
+  if (inward) points.reverse();
+
+  const legs: Array<[PointXY, PointXY]> = [];
+  for (let i = 0; i + 1 < points.length; i += 1) {
+    legs.push([points[i], points[i + 1]]);
+  }
+  return legs;
+};
+
+export const generateSurveyPattern = (input: SurveyPatternInput): LaneFeature[] => {
+  if (!Number.isFinite(input.datum.lat) || !Number.isFinite(input.datum.lon)) return [];
+
+  const courseDeg = Number.isFinite(input.courseDeg) ? input.courseDeg : 0;
+  const spacingM = Number.isFinite(input.spacingM) ? Math.max(1, input.spacingM) : 5;
+  const legCount = Math.min(
+    MAX_LEG_COUNT,
+    Math.max(1, Math.round(Number.isFinite(input.legCount) ? input.legCount : DEFAULT_LEG_COUNTS[input.pattern])),
+  );
+  const legLengthM =
+    typeof input.legLengthM === 'number' && Number.isFinite(input.legLengthM)
+      ? Math.max(1, input.legLengthM)
+      : DEFAULT_PATTERN_LEG_LENGTH_M;
+
+  const legs =
+    input.pattern === 'expanding_square'
+      ? buildExpandingSquare(courseDeg, spacingM, legCount)
+      : input.pattern === 'sector'
+        ? buildSectorSearch(courseDeg, legLengthM, legCount)
+        : input.pattern === 'creeping_line'
+          ? buildCreepingLine(courseDeg, spacingM, legLengthM, legCount)
+          : buildSpiral(courseDeg, spacingM, legCount, input.pattern === 'spiral_in');
+
+  const timestamp = input.timestamp ?? new Date().toISOString();
+  return legs.map(([start, end], index) => ({
+    type: 'Feature',
+    geometry: {
+      type: 'LineString',
+      coordinates: [unprojectPoint(start, input.datum), unprojectPoint(end, input.datum)],
+    },
+    properties: {
+      id: createId(),
+      kind: 'lane',
+      name: `Галс ${index + 1}`,
+      note: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+      parent_area_id: input.parentAreaId,
+      lane_index: index + 1,
+    },
+  }));
+};
+
+/** Default datum of a zone: the mean of its outline vertices. */
+export const resolvePatternDatum = (points: GeoPoint[], datum?: GeoPoint | null): GeoPoint | null => {
+  if (datum && Number.isFinite(datum.lat) && Number.isFinite(datum.lon)) return datum;
+  if (points.length === 0) return null;
+  const sum = points.reduce((acc, point) => ({ lat: acc.lat + point.lat, lon: acc.lon + point.lon }), { lat: 0, lon: 0 });
+  return { lat: sum.lat / points.length, lon: sum.lon / points.length };
+};
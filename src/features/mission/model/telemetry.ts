@@ -1,6 +1,13 @@
 import { parseZimaLine } from '@/features/devices/zima2r/protocol';
-import { parseNmeaLine } from '@/features/devices/gnss-udp/protocol';
 import { parseRwltLine, type RwltPrwlaMessage } from '@/features/devices/rwlt-com/protocol';
+import {
+  createNmeaLineDecoder,
+  createRwltLineDecoder,
+  createZimaLineDecoder,
+  type RwltDecoderMode,
+  type TelemetryLineDecoder,
+} from './telemetryDecoders';
+import type { TelemetryReplayMessage, TelemetryReplaySchemaId, TelemetryReplaySource } from './telemetryReplay';
 
 export type TelemetryConnectionState = 'ok' | 'timeout' | 'error';
 export type TelemetryEntityType = 'agent' | 'base_station' | 'diver';
@@ -37,6 +44,11 @@ export type TelemetryProvider = {
   onConnectionState: (listener: (state: TelemetryConnectionState) => void) => () => void;
 };
 
+/** Events of the main-process bridges carry the id of the device instance that produced them. */
+type ElectronBridgeEventPayload = { instanceId?: string };
+
+type ElectronBridgeDataPayload = ElectronBridgeEventPayload & { message?: string; receivedAt?: number };
+
 type ElectronZimaConfig = {
   ipAddress: string;
   dataPort: number;
@@ -49,15 +61,17 @@ type ElectronZimaConfig = {
 };
 
 type ElectronZimaApi = {
-  start: (config: ElectronZimaConfig) => Promise<unknown>;
-  stop: () => Promise<unknown>;
-  sendCommand: (command: string) => Promise<unknown>;
-  onData: (listener: (payload: { message?: string; receivedAt?: number }) => void) => () => void;
-  onStatus: (listener: (payload: { status?: string }) => void) => () => void;
-  onError: (listener: (payload: { message?: string }) => void) => () => void;
+  start: (instanceId: string, config: ElectronZimaConfig) => Promise<unknown>;
+  stop: (instanceId: string) => Promise<unknown>;
+  sendCommand: (instanceId: string, command: string) => Promise<unknown>;
+  onData: (listener: (payload: ElectronBridgeDataPayload) => void) => () => void;
+  onStatus: (listener: (payload: ElectronBridgeEventPayload & { status?: string }) => void) => () => void;
+  onError: (listener: (payload: ElectronBridgeEventPayload & { message?: string }) => void) => () => void;
 };
 
 type ElectronTelemetryOptions = {
+  /** `DeviceInstance.id` of the device; every instance runs its own main-process bridge. */
+  instanceId: string;
   timeoutMs?: number;
   readConfig: () => Promise<ElectronZimaConfig | null>;
 };
@@ -68,14 +82,16 @@ type ElectronGnssConfig = {
 };
 
 type ElectronGnssApi = {
-  start: (config: ElectronGnssConfig) => Promise<unknown>;
-  stop: () => Promise<unknown>;
-  onData: (listener: (payload: { message?: string; receivedAt?: number }) => void) => () => void;
-  onStatus: (listener: (payload: { status?: string }) => void) => () => void;
-  onError: (listener: (payload: { message?: string }) => void) => () => void;
+  start: (instanceId: string, config: ElectronGnssConfig) => Promise<unknown>;
+  stop: (instanceId: string) => Promise<unknown>;
+  onData: (listener: (payload: ElectronBridgeDataPayload) => void) => () => void;
+  onStatus: (listener: (payload: ElectronBridgeEventPayload & { status?: string }) => void) => () => void;
+  onError: (listener: (payload: ElectronBridgeEventPayload & { message?: string }) => void) => () => void;
 };
 
 type ElectronGnssTelemetryOptions = {
+  /** `DeviceInstance.id` of the device; every instance runs its own main-process bridge. */
+  instanceId: string;
   timeoutMs?: number;
   readConfig: () => Promise<ElectronGnssConfig | null>;
 };
@@ -91,14 +107,16 @@ type ElectronGnssComConfig = ElectronGnssComBridgeConfig & {
 };
 
 type ElectronGnssComApi = {
-  start: (config: ElectronGnssComBridgeConfig) => Promise<unknown>;
-  stop: () => Promise<unknown>;
-  onData: (listener: (payload: { message?: string; receivedAt?: number; portPath?: string }) => void) => () => void;
-  onStatus: (listener: (payload: { status?: string }) => void) => () => void;
-  onError: (listener: (payload: { message?: string }) => void) => () => void;
+  start: (instanceId: string, config: ElectronGnssComBridgeConfig) => Promise<unknown>;
+  stop: (instanceId: string) => Promise<unknown>;
+  onData: (listener: (payload: ElectronBridgeDataPayload & { portPath?: string }) => void) => () => void;
+  onStatus: (listener: (payload: ElectronBridgeEventPayload & { status?: string }) => void) => () => void;
+  onError: (listener: (payload: ElectronBridgeEventPayload & { message?: string }) => void) => () => void;
 };
 
 type ElectronGnssComTelemetryOptions = {
+  /** `DeviceInstance.id` of the device; every instance runs its own main-process bridge. */
+  instanceId: string;
   timeoutMs?: number;
   readConfig: () => Promise<ElectronGnssComConfig | null>;
 };
@@ -115,14 +133,16 @@ type ElectronRwltComConfig = ElectronRwltComBridgeConfig & {
 };
 
 type ElectronRwltComApi = {
-  start: (config: ElectronRwltComBridgeConfig) => Promise<unknown>;
-  stop: () => Promise<unknown>;
-  onData: (listener: (payload: { message?: string; receivedAt?: number; portPath?: string }) => void) => () => void;
-  onStatus: (listener: (payload: { status?: string }) => void) => () => void;
-  onError: (listener: (payload: { message?: string }) => void) => () => void;
+  start: (instanceId: string, config: ElectronRwltComBridgeConfig) => Promise<unknown>;
+  stop: (instanceId: string) => Promise<unknown>;
+  onData: (listener: (payload: ElectronBridgeDataPayload & { portPath?: string }) => void) => () => void;
+  onStatus: (listener: (payload: ElectronBridgeEventPayload & { status?: string }) => void) => () => void;
+  onError: (listener: (payload: ElectronBridgeEventPayload & { message?: string }) => void) => () => void;
 };
 
 type ElectronRwltComTelemetryOptions = {
+  /** `DeviceInstance.id` of the device; every instance runs its own main-process bridge. */
+  instanceId: string;
   timeoutMs?: number;
   readConfig: () => Promise<ElectronRwltComConfig | null>;
   resolveDiver: (tId: number) => { uid: string; id: string } | null;
@@ -140,22 +160,12 @@ type SimulationTelemetryOptions = {
 };
 
 const DEFAULT_INTERVAL_MS = 1000;
-const DEFAULT_TIMEOUT_MS = 5000;
-const HDT_FRESHNESS_TIMEOUT_MS = 5000;
+export const DEFAULT_TIMEOUT_MS = 5000;
 const MAX_BUFFERED_ZIMA_BYTES = 16 * 1024;
 const MAX_BUFFERED_NMEA_BYTES = 16 * 1024;
-const EARTH_RADIUS_M = 6_371_000;
-
-const isValidLatLon = (lat: number | null, lon: number | null): lat is number =>
-  lat !== null &&
-  lon !== null &&
-  Number.isFinite(lat) &&
-  Number.isFinite(lon) &&
-  lat >= -90 &&
-  lat <= 90 &&
-  lon >= -180 &&
-  lon <= 180 &&
-  !(lat === 0 && lon === 0);
+
+const isOwnInstanceEvent = (payload: ElectronBridgeEventPayload | undefined, instanceId: string): boolean =>
+  !payload?.instanceId || payload.instanceId === instanceId;
 
 const splitBufferedLines = (
   previousBuffer: string,
@@ -171,71 +181,6 @@ const splitBufferedLines = (
   return { lines, rest };
 };
 
-type GroundTrackPoint = {
-  lat: number;
-  lon: number;
-  receivedAt: number;
-};
-
-const normalizeCourseDeg = (value: number): number => {
-  if (!Number.isFinite(value)) return 0;
-  return ((value % 360) + 360) % 360;
-};
-
-const toRadians = (deg: number): number => (deg * Math.PI) / 180;
-const toDegrees = (rad: number): number => (rad * 180) / Math.PI;
-
-const haversineDistanceMeters = (from: GroundTrackPoint, to: GroundTrackPoint): number => {
-  const lat1 = toRadians(from.lat);
-  const lat2 = toRadians(to.lat);
-  const dLat = lat2 - lat1;
-  const dLon = toRadians(to.lon - from.lon);
-
-  const sinLat = Math.sin(dLat / 2);
-  const sinLon = Math.sin(dLon / 2);
-  const a = sinLat * sinLat + Math.cos(lat1) * Math.cos(lat2) * sinLon * sinLon;
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return EARTH_RADIUS_M * c;
-};
-
-const initialGroundMotion = () => ({ speed: 0, course: 0 });
-
-const computeGroundMotion = (
-  previous: GroundTrackPoint | null,
-  current: GroundTrackPoint,
-): { speed: number; course: number } => {
-  if (!previous) return initialGroundMotion();
-
-  const dtMs = current.receivedAt - previous.receivedAt;
-  if (!Number.isFinite(dtMs) || dtMs <= 0) {
-    return initialGroundMotion();
-  }
-
-  const distance = haversineDistanceMeters(previous, current);
-  if (!Number.isFinite(distance) || distance <= 0) {
-    return initialGroundMotion();
-  }
-
-  const lat1 = toRadians(previous.lat);
-  const lat2 = toRadians(current.lat);
-  const dLon = toRadians(current.lon - previous.lon);
-  const y = Math.sin(dLon) * Math.cos(lat2);
-  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
-  const course = normalizeCourseDeg(toDegrees(Math.atan2(y, x)));
-  const speed = distance / (dtMs / 1000);
-
-  if (!Number.isFinite(speed) || speed < 0) {
-    return { speed: 0, course };
-  }
-  return { speed, course };
-};
-
-const isFreshHeading = (headingAt: number, receivedAt: number): boolean => {
-  if (!Number.isFinite(headingAt) || headingAt <= 0) return false;
-  const ageMs = receivedAt - headingAt;
-  return ageMs >= 0 && ageMs <= HDT_FRESHNESS_TIMEOUT_MS;
-};
-
 export const createNoopTelemetryProvider = (): TelemetryProvider => {
   const connectionListeners = new Set<(nextState: TelemetryConnectionState) => void>();
   const rawPacketListeners = new Set<(packet: RawTelemetryPacket) => void>();
@@ -420,6 +365,270 @@ export const createSimulationTelemetryProvider = (
   };
 };
 
+export const TELEMETRY_REPLAY_MIN_SPEED = 0.5;
+export const TELEMETRY_REPLAY_MAX_SPEED = 16;
+
+export type TelemetryReplayState = {
+  schemaId: TelemetryReplaySchemaId | null;
+  playing: boolean;
+  positionMs: number;
+  durationMs: number;
+  speed: number;
+};
+
+export type ReplayTelemetryProvider = TelemetryProvider & {
+  load: (source: TelemetryReplaySource | null) => void;
+  /** Replays the loaded messages as another schema, e.g. a GNSS log recorded from a COM receiver. */
+  setSchema: (schemaId: TelemetryReplaySchemaId) => void;
+  play: () => void;
+  pause: () => void;
+  seek: (positionMs: number) => void;
+  setSpeed: (speed: number) => void;
+  getState: () => TelemetryReplayState;
+  onStateChange: (listener: (state: TelemetryReplayState) => void) => () => void;
+};
+
+type ReplayTelemetryOptions = {
+  tickMs?: number;
+  timeoutMs?: number;
+  resolveDiver?: (tId: number) => { uid: string; id: string } | null;
+  onBuoyUpdate?: (buoy: RwltPrwlaMessage) => void;
+};
+
+const DEFAULT_REPLAY_TICK_MS = 100;
+
+const clampReplaySpeed = (speed: number): number => {
+  if (!Number.isFinite(speed)) return 1;
+  return Math.min(TELEMETRY_REPLAY_MAX_SPEED, Math.max(TELEMETRY_REPLAY_MIN_SPEED, speed));
+};
+
+/**
+ * Plays recorded scenario/equipment-log lines through the same decoding rules as
+ * the Electron providers. Ground motion and heading freshness are evaluated on
+ * the recording timeline, so playback speed does not distort speed/course.
+ */
+export const createReplayTelemetryProvider = (
+  options?: ReplayTelemetryOptions,
+): ReplayTelemetryProvider => {
+  const tickMs = options?.tickMs ?? DEFAULT_REPLAY_TICK_MS;
+  const timeoutMs = options?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  let enabled = false;
+  let simulateConnectionError = false;
+  let connectionState: TelemetryConnectionState = 'ok';
+  let source: TelemetryReplaySource | null = null;
+  let rwltMode: RwltDecoderMode = 'pinger';
+  let playing = false;
+  let positionMs = 0;
+  let speed = 1;
+  let cursor = 0;
+  let lastTickAt = 0;
+  let lastFixAt = 0;
+
+  const decoders: Record<TelemetryReplaySchemaId, TelemetryLineDecoder> = {
+    zima2r: createZimaLineDecoder(),
+    'gnss-udp': createNmeaLineDecoder(),
+    'gnss-com': createNmeaLineDecoder(),
+    'rwlt-com': createRwltLineDecoder({
+      getMode: () => rwltMode,
+      resolveDiver: options?.resolveDiver,
+      onBuoyUpdate: options?.onBuoyUpdate,
+    }),
+  };
+
+  let tickIntervalId: number | null = null;
+
+  const fixListeners = new Set<(fix: TelemetryFix) => void>();
+  const connectionListeners = new Set<(nextState: TelemetryConnectionState) => void>();
+  const rawPacketListeners = new Set<(packet: RawTelemetryPacket) => void>();
+  const stateListeners = new Set<(state: TelemetryReplayState) => void>();
+
+  const getDurationMs = () => {
+    if (!source || source.messages.length === 0) return 0;
+    return source.messages[source.messages.length - 1].offsetMs;
+  };
+
+  const getState = (): TelemetryReplayState => ({
+    schemaId: source?.schemaId ?? null,
+    playing,
+    positionMs,
+    durationMs: getDurationMs(),
+    speed,
+  });
+
+  const emitState = () => {
+    const state = getState();
+    stateListeners.forEach((listener) => listener(state));
+  };
+
+  const emitConnectionState = (nextState: TelemetryConnectionState) => {
+    if (connectionState === nextState) return;
+    connectionState = nextState;
+    connectionListeners.forEach((listener) => listener(nextState));
+  };
+
+  const emitFix = (fix: TelemetryFix) => {
+    lastFixAt = fix.received_at;
+    emitConnectionState('ok');
+    fixListeners.forEach((listener) => listener(fix));
+  };
+
+  const emitRawPacket = (packet: RawTelemetryPacket) => {
+    rawPacketListeners.forEach((listener) => listener(packet));
+  };
+
+  const resetDecoder = () => {
+    Object.values(decoders).forEach((decoder) => decoder.reset());
+  };
+
+  const dispatchMessage = (message: TelemetryReplayMessage) => {
+    if (!source) return;
+    const receivedAt = Date.now();
+    emitRawPacket({ schema_id: source.schemaId, raw: message.raw, received_at: receivedAt });
+    const fix = decoders[source.schemaId].decode(
+      message.raw,
+      { at: message.offsetMs, receivedAt },
+      source.schemaId,
+    );
+    if (fix) emitFix(fix);
+  };
+
+  const runTick = () => {
+    if (!playing || !source) return;
+    const now = Date.now();
+    positionMs = Math.min(getDurationMs(), positionMs + Math.max(0, now - lastTickAt) * speed);
+    lastTickAt = now;
+
+    if (enabled && !simulateConnectionError) {
+      while (cursor < source.messages.length && source.messages[cursor].offsetMs <= positionMs) {
+        dispatchMessage(source.messages[cursor]);
+        cursor += 1;
+      }
+      if (lastFixAt !== 0 && now - lastFixAt > timeoutMs) {
+        emitConnectionState('timeout');
+      }
+    } else {
+      while (cursor < source.messages.length && source.messages[cursor].offsetMs <= positionMs) {
+        cursor += 1;
+      }
+    }
+
+    if (cursor >= source.messages.length) {
+      playing = false;
+    }
+    emitState();
+  };
+
+  const seek = (nextPositionMs: number) => {
+    if (!source) return;
+    positionMs = Math.min(getDurationMs(), Math.max(0, Number.isFinite(nextPositionMs) ? nextPositionMs : 0));
+    // Messages at the seek position are replayed on the next tick.
+    const nextCursor = source.messages.findIndex((message) => message.offsetMs >= positionMs);
+    cursor = nextCursor === -1 ? source.messages.length : nextCursor;
+    lastTickAt = Date.now();
+    lastFixAt = 0;
+    resetDecoder();
+    emitState();
+  };
+
+  const pause = () => {
+    if (!playing) return;
+    playing = false;
+    lastFixAt = 0;
+    emitState();
+  };
+
+  const load = (nextSource: TelemetryReplaySource | null) => {
+    playing = false;
+    source = nextSource && nextSource.messages.length > 0 ? nextSource : null;
+    rwltMode =
+      source?.schemaId === 'rwlt-com' && source.messages.some((message) => parseRwltLine(message.raw).kind === 'PUWV3')
+        ? 'divers'
+        : 'pinger';
+    positionMs = 0;
+    cursor = 0;
+    lastFixAt = 0;
+    resetDecoder();
+    emitConnectionState('ok');
+    emitState();
+  };
+
+  return {
+    start: () => {
+      if (tickIntervalId !== null) return;
+      tickIntervalId = window.setInterval(runTick, tickMs);
+    },
+    stop: () => {
+      if (tickIntervalId !== null) {
+        window.clearInterval(tickIntervalId);
+        tickIntervalId = null;
+      }
+      pause();
+    },
+    setEnabled: (nextEnabled: boolean) => {
+      enabled = nextEnabled;
+      if (!enabled) {
+        pause();
+      }
+      emitConnectionState(enabled && simulateConnectionError ? 'error' : 'ok');
+    },
+    setSimulateConnectionError: (nextValue: boolean) => {
+      simulateConnectionError = nextValue;
+      if (simulateConnectionError) {
+        emitConnectionState('error');
+        return;
+      }
+      lastFixAt = 0;
+      emitConnectionState('ok');
+    },
+    load,
+    setSchema: (schemaId) => {
+      if (!source || source.schemaId === schemaId) return;
+      load({ ...source, schemaId });
+    },
+    play: () => {
+      if (!source || playing) return;
+      if (cursor >= source.messages.length) {
+        seek(0);
+      }
+      playing = true;
+      lastTickAt = Date.now();
+      emitState();
+    },
+    pause,
+    seek,
+    setSpeed: (nextSpeed: number) => {
+      speed = clampReplaySpeed(nextSpeed);
+      emitState();
+    },
+    getState,
+    onFix: (listener) => {
+      fixListeners.add(listener);
+      return () => {
+        fixListeners.delete(listener);
+      };
+    },
+    onRawPacket: (listener) => {
+      rawPacketListeners.add(listener);
+      return () => {
+        rawPacketListeners.delete(listener);
+      };
+    },
+    onConnectionState: (listener) => {
+      connectionListeners.add(listener);
+      return () => {
+        connectionListeners.delete(listener);
+      };
+    },
+    onStateChange: (listener) => {
+      stateListeners.add(listener);
+      return () => {
+        stateListeners.delete(listener);
+      };
+    },
+  };
+};
+
 export const createElectronZimaTelemetryProvider = (
   options: ElectronTelemetryOptions,
 ): TelemetryProvider => {
@@ -432,7 +641,7 @@ export const createElectronZimaTelemetryProvider = (
   let connectionState: TelemetryConnectionState = 'timeout';
   let lastFixAt = 0;
   let lineBuffer = '';
-  const lastAzmRemPointByBeacon = new Map<string, GroundTrackPoint>();
+  const decoder = createZimaLineDecoder();
 
   let timeoutIntervalId: number | null = null;
   let unsubscribeData: (() => void) | null = null;
@@ -494,59 +703,11 @@ export const createElectronZimaTelemetryProvider = (
         raw: line,
         received_at: receivedAt,
       });
-      const parsed = parseZimaLine(line);
-
-      if (parsed.kind === 'AZMLOC') {
-        lastFixAt = receivedAt;
-        emitConnectionState('ok');
-        emitFix({
-          lat: parsed.lat,
-          lon: parsed.lon,
-          speed: parsed.speed,
-          course: parsed.course,
-          heading: parsed.heading,
-          depth: parsed.depth,
-          received_at: receivedAt,
-          source: 'AZMLOC',
-          entity_type: 'base_station',
-          entity_id: 'base-station',
-          navigation_source_id: 'zima2r',
-        });
-        continue;
-      }
-
-      if (parsed.kind === 'AZMREM' && parsed.isTimeout !== true && isValidLatLon(parsed.lat, parsed.lon)) {
-        const beaconKey = parsed.beaconId ?? (parsed.remoteAddress !== null ? String(parsed.remoteAddress) : null);
-        if (!beaconKey) {
-          continue;
-        }
-
-        const currentPoint: GroundTrackPoint = {
-          lat: parsed.lat,
-          lon: parsed.lon,
-          receivedAt,
-        };
-        const groundMotion = computeGroundMotion(lastAzmRemPointByBeacon.get(beaconKey) ?? null, currentPoint);
-        lastAzmRemPointByBeacon.set(beaconKey, currentPoint);
-
-        lastFixAt = receivedAt;
-        emitConnectionState('ok');
-        emitFix({
-          lat: parsed.lat,
-          lon: parsed.lon,
-          speed: groundMotion.speed,
-          course: groundMotion.course,
-          heading: groundMotion.course,
-          depth: parsed.depth ?? 0,
-          received_at: receivedAt,
-          remoteAddress: parsed.remoteAddress,
-          beaconId: parsed.beaconId,
-          source: 'AZMREM',
-          entity_type: 'agent',
-          entity_id: parsed.beaconId ? `beacon-${parsed.beaconId}` : undefined,
-          navigation_source_id: 'zima2r',
-        });
-      }
+      const fix = decoder.decode(line, { at: receivedAt, receivedAt }, 'zima2r');
+      if (!fix) continue;
+      lastFixAt = receivedAt;
+      emitConnectionState('ok');
+      emitFix(fix);
     }
   };
 
@@ -568,15 +729,15 @@ export const createElectronZimaTelemetryProvider = (
     activeConfig = null;
     lastFixAt = 0;
     lineBuffer = '';
-    lastAzmRemPointByBeacon.clear();
+    decoder.reset();
     clearIntervals();
     if (api) {
       if (shouldCloseConnections) {
-        void api.sendCommand('CCON').catch(() => {
+        void api.sendCommand(options.instanceId, 'CCON').catch(() => {
           // ignore
         });
       }
-      void api.stop().catch(() => {
+      void api.stop(options.instanceId).catch(() => {
         // ignore
       });
     }
@@ -612,17 +773,17 @@ export const createElectronZimaTelemetryProvider = (
         return;
       }
 
-      await api.start(config);
+      await api.start(options.instanceId, config);
       activeConfig = config;
       if (config.useCommandPort) {
-        await api.sendCommand('OCON');
+        await api.sendCommand(options.instanceId, 'OCON');
         if (!config.useExternalGnss) {
           const hasManualLhov =
             config.latitude !== null &&
             config.longitude !== null &&
             config.azimuth !== null;
           if (hasManualLhov) {
-            await api.sendCommand(`LHOV,${config.latitude},${config.longitude},${config.azimuth}`);
+            await api.sendCommand(options.instanceId, `LHOV,${config.latitude},${config.longitude},${config.azimuth}`);
           }
         }
       }
@@ -650,14 +811,18 @@ export const createElectronZimaTelemetryProvider = (
       return;
     }
 
-    unsubscribeData = api.onData((payload) => handleData(payload));
+    unsubscribeData = api.onData((payload) => {
+      if (!isOwnInstanceEvent(payload, options.instanceId)) return;
+      handleData(payload);
+    });
     unsubscribeStatus = api.onStatus((payload) => {
-      if (!payload?.status) return;
+      if (!payload?.status || !isOwnInstanceEvent(payload, options.instanceId)) return;
       if (payload.status === 'error') {
         emitConnectionState('error');
       }
     });
-    unsubscribeError = api.onError(() => {
+    unsubscribeError = api.onError((payload) => {
+      if (!isOwnInstanceEvent(payload, options.instanceId)) return;
       emitConnectionState('error');
     });
 
@@ -720,9 +885,7 @@ export const createElectronGnssTelemetryProvider = (
   let connectionState: TelemetryConnectionState = 'timeout';
   let lastFixAt = 0;
   let lineBuffer = '';
-  let lastGroundPoint: GroundTrackPoint | null = null;
-  let latestHeading: number | null = null;
-  let latestHeadingAt = 0;
+  const decoder = createNmeaLineDecoder();
 
   let timeoutIntervalId: number | null = null;
   let unsubscribeData: (() => void) | null = null;
@@ -773,55 +936,11 @@ export const createElectronGnssTelemetryProvider = (
         raw: line,
         received_at: receivedAt,
       });
-      const parsed = parseNmeaLine(line);
-
-      if (parsed.kind === 'HDT' && parsed.headingDeg !== null) {
-        latestHeading = parsed.headingDeg;
-        latestHeadingAt = receivedAt;
-        continue;
-      }
-
-      if (parsed.kind !== 'RMC' && parsed.kind !== 'GGA' && parsed.kind !== 'GNS') {
-        continue;
-      }
-
-      if (!parsed.hasFix || !isValidLatLon(parsed.lat, parsed.lon)) {
-        continue;
-      }
-
-      const currentPoint: GroundTrackPoint = {
-        lat: parsed.lat,
-        lon: parsed.lon,
-        receivedAt,
-      };
-      const previousPoint = lastGroundPoint;
-      if (previousPoint && currentPoint.receivedAt <= previousPoint.receivedAt) {
-        // Ignore duplicate or out-of-order timestamps to avoid overriding
-        // valid over-ground motion with dt=0 samples from the same datagram.
-        continue;
-      }
-
-      const groundMotion = computeGroundMotion(previousPoint, currentPoint);
-      lastGroundPoint = currentPoint;
-      const headingIsFresh = latestHeading !== null && isFreshHeading(latestHeadingAt, receivedAt);
-      const course = headingIsFresh && latestHeading !== null ? latestHeading : groundMotion.course;
-      const heading = headingIsFresh ? latestHeading : null;
-
+      const fix = decoder.decode(line, { at: receivedAt, receivedAt }, 'gnss-udp');
+      if (!fix) continue;
       lastFixAt = receivedAt;
       emitConnectionState('ok');
-      emitFix({
-        lat: parsed.lat,
-        lon: parsed.lon,
-        speed: groundMotion.speed,
-        course,
-        heading,
-        depth: 0,
-        received_at: receivedAt,
-        source: 'GNSS',
-        entity_type: 'base_station',
-        entity_id: 'base-station',
-        navigation_source_id: 'gnss-udp',
-      });
+      emitFix(fix);
     }
   };
 
@@ -841,12 +960,10 @@ export const createElectronGnssTelemetryProvider = (
     connected = false;
     lastFixAt = 0;
     lineBuffer = '';
-    lastGroundPoint = null;
-    latestHeading = null;
-    latestHeadingAt = 0;
+    decoder.reset();
     clearIntervals();
     if (api) {
-      void api.stop().catch(() => {
+      void api.stop(options.instanceId).catch(() => {
         // ignore
       });
     }
@@ -882,7 +999,7 @@ export const createElectronGnssTelemetryProvider = (
         return;
       }
 
-      await api.start(config);
+      await api.start(options.instanceId, config);
       connected = true;
       startTimeoutWatchdog();
     } catch {
@@ -907,14 +1024,18 @@ export const createElectronGnssTelemetryProvider = (
       return;
     }
 
-    unsubscribeData = api.onData((payload) => handleData(payload));
+    unsubscribeData = api.onData((payload) => {
+      if (!isOwnInstanceEvent(payload, options.instanceId)) return;
+      handleData(payload);
+    });
     unsubscribeStatus = api.onStatus((payload) => {
-      if (!payload?.status) return;
+      if (!payload?.status || !isOwnInstanceEvent(payload, options.instanceId)) return;
       if (payload.status === 'error') {
         emitConnectionState('error');
       }
     });
-    unsubscribeError = api.onError(() => {
+    unsubscribeError = api.onError((payload) => {
+      if (!isOwnInstanceEvent(payload, options.instanceId)) return;
       emitConnectionState('error');
     });
 
@@ -977,9 +1098,7 @@ export const createElectronGnssComTelemetryProvider = (
   let connectionState: TelemetryConnectionState = 'timeout';
   let lastFixAt = 0;
   let lineBuffer = '';
-  let lastGroundPoint: GroundTrackPoint | null = null;
-  let latestHeading: number | null = null;
-  let latestHeadingAt = 0;
+  const decoder = createNmeaLineDecoder();
   let activeNavigationSourceId = 'gnss-com';
 
   let timeoutIntervalId: number | null = null;
@@ -1031,55 +1150,11 @@ export const createElectronGnssComTelemetryProvider = (
         raw: line,
         received_at: receivedAt,
       });
-      const parsed = parseNmeaLine(line);
-
-      if (parsed.kind === 'HDT' && parsed.headingDeg !== null) {
-        latestHeading = parsed.headingDeg;
-        latestHeadingAt = receivedAt;
-        continue;
-      }
-
-      if (parsed.kind !== 'RMC' && parsed.kind !== 'GGA' && parsed.kind !== 'GNS') {
-        continue;
-      }
-
-      if (!parsed.hasFix || !isValidLatLon(parsed.lat, parsed.lon)) {
-        continue;
-      }
-
-      const currentPoint: GroundTrackPoint = {
-        lat: parsed.lat,
-        lon: parsed.lon,
-        receivedAt,
-      };
-      const previousPoint = lastGroundPoint;
-      if (previousPoint && currentPoint.receivedAt <= previousPoint.receivedAt) {
-        // Ignore duplicate or out-of-order timestamps to avoid overriding
-        // valid over-ground motion with dt=0 samples from the same datagram.
-        continue;
-      }
-
-      const groundMotion = computeGroundMotion(previousPoint, currentPoint);
-      lastGroundPoint = currentPoint;
-      const headingIsFresh = latestHeading !== null && isFreshHeading(latestHeadingAt, receivedAt);
-      const course = headingIsFresh && latestHeading !== null ? latestHeading : groundMotion.course;
-      const heading = headingIsFresh ? latestHeading : null;
-
+      const fix = decoder.decode(line, { at: receivedAt, receivedAt }, activeNavigationSourceId);
+      if (!fix) continue;
       lastFixAt = receivedAt;
       emitConnectionState('ok');
-      emitFix({
-        lat: parsed.lat,
-        lon: parsed.lon,
-        speed: groundMotion.speed,
-        course,
-        heading,
-        depth: 0,
-        received_at: receivedAt,
-        source: 'GNSS',
-        entity_type: 'base_station',
-        entity_id: 'base-station',
-        navigation_source_id: activeNavigationSourceId,
-      });
+      emitFix(fix);
     }
   };
 
@@ -1099,13 +1174,11 @@ export const createElectronGnssComTelemetryProvider = (
     connected = false;
     lastFixAt = 0;
     lineBuffer = '';
-    lastGroundPoint = null;
-    latestHeading = null;
-    latestHeadingAt = 0;
+    decoder.reset();
     activeNavigationSourceId = 'gnss-com';
     clearIntervals();
     if (api) {
-      void api.stop().catch(() => {
+      void api.stop(options.instanceId).catch(() => {
         // ignore
       });
     }
@@ -1142,7 +1215,7 @@ export const createElectronGnssComTelemetryProvider = (
       }
 
       activeNavigationSourceId = config.navigationSourceId;
-      await api.start({
+      await api.start(options.instanceId, {
         autoDetectPort: config.autoDetectPort,
         comPort: config.comPort,
         baudRate: config.baudRate,
@@ -1171,14 +1244,18 @@ export const createElectronGnssComTelemetryProvider = (
       return;
     }
 
-    unsubscribeData = api.onData((payload) => handleData(payload));
+    unsubscribeData = api.onData((payload) => {
+      if (!isOwnInstanceEvent(payload, options.instanceId)) return;
+      handleData(payload);
+    });
     unsubscribeStatus = api.onStatus((payload) => {
-      if (!payload?.status) return;
+      if (!payload?.status || !isOwnInstanceEvent(payload, options.instanceId)) return;
       if (payload.status === 'error') {
         emitConnectionState('error');
       }
     });
-    unsubscribeError = api.onError(() => {
+    unsubscribeError = api.onError((payload) => {
+      if (!isOwnInstanceEvent(payload, options.instanceId)) return;
       emitConnectionState('error');
     });
 
@@ -1241,10 +1318,12 @@ export const createElectronRwltComTelemetryProvider = (
   let connectionState: TelemetryConnectionState = 'timeout';
   let lastFixAt = 0;
   let lineBuffer = '';
-  let lastPingerDepth = 0;
-  let lastPingerGroundPoint: GroundTrackPoint | null = null;
-  const lastDiverGroundPointByTargetId = new Map<number, GroundTrackPoint>();
-  let activeMode: 'pinger' | 'divers' = 'pinger';
+  let activeMode: RwltDecoderMode = 'pinger';
+  const decoder = createRwltLineDecoder({
+    getMode: () => activeMode,
+    resolveDiver: options.resolveDiver,
+    onBuoyUpdate: options.onBuoyUpdate,
+  });
   let activeNavigationSourceId = 'rwlt-com';
 
   let timeoutIntervalId: number | null = null;
@@ -1277,32 +1356,6 @@ export const createElectronRwltComTelemetryProvider = (
     return api ?? null;
   };
 
-  const emitPingerAgentFix = (
-    lat: number,
-    lon: number,
-    receivedAt: number,
-  ) => {
-    const currentPoint: GroundTrackPoint = { lat, lon, receivedAt };
-    const groundMotion = computeGroundMotion(lastPingerGroundPoint, currentPoint);
-    lastPingerGroundPoint = currentPoint;
-
-    lastFixAt = receivedAt;
-    emitConnectionState('ok');
-    emitFix({
-      lat,
-      lon,
-      speed: groundMotion.speed,
-      course: normalizeCourseDeg(groundMotion.course),
-      heading: null,
-      depth: lastPingerDepth,
-      received_at: receivedAt,
-      source: 'RWLT',
-      entity_type: 'agent',
-      entity_id: 'rwlt-pinger-agent',
-      navigation_source_id: activeNavigationSourceId,
-    });
-  };
-
   const handleData = (payload: { message?: string; receivedAt?: number }) => {
     if (!enabled || simulateConnectionError) return;
     const message = payload.message ?? '';
@@ -1312,73 +1365,12 @@ export const createElectronRwltComTelemetryProvider = (
     lineBuffer = rest.slice(-MAX_BUFFERED_NMEA_BYTES);
 
     for (const line of lines) {
-      const parsed = parseRwltLine(line);
       const receivedAt = payload.receivedAt ?? Date.now();
-
-      if (parsed.kind === 'PRWLA') {
-        options.onBuoyUpdate(parsed);
-        continue;
-      }
-
-      if (parsed.kind === 'PUWV5') {
-        lastFixAt = receivedAt;
-        emitConnectionState('ok');
-        emitFix({
-          lat: parsed.lat,
-          lon: parsed.lon,
-          speed: parsed.speedKmh !== null ? Math.max(0, parsed.speedKmh / 3.6) : 0,
-          course: normalizeCourseDeg(parsed.courseDeg ?? 0),
-          heading: null,
-          depth: 0,
-          received_at: receivedAt,
-          source: 'RWLT',
-          entity_type: 'base_station',
-          entity_id: 'base-station',
-          navigation_source_id: activeNavigationSourceId,
-        });
-        continue;
-      }
-
-      if (activeMode === 'pinger') {
-        if (parsed.kind === 'GGA' && parsed.hasFix && isValidLatLon(parsed.lat, parsed.lon)) {
-          lastPingerDepth = parsed.depthM;
-          emitPingerAgentFix(parsed.lat, parsed.lon, receivedAt);
-        } else if (parsed.kind === 'RMC' && parsed.hasFix && isValidLatLon(parsed.lat, parsed.lon)) {
-          emitPingerAgentFix(parsed.lat, parsed.lon, receivedAt);
-        }
-        continue;
-      }
-
-      if (parsed.kind !== 'PUWV3') {
-        continue;
-      }
-      if (!isValidLatLon(parsed.lat, parsed.lon)) {
-        continue;
-      }
-      const diver = options.resolveDiver(parsed.targetId);
-      if (!diver) {
-        continue;
-      }
-
-      const currentPoint: GroundTrackPoint = { lat: parsed.lat, lon: parsed.lon, receivedAt };
-      const groundMotion = computeGroundMotion(lastDiverGroundPointByTargetId.get(parsed.targetId) ?? null, currentPoint);
-      lastDiverGroundPointByTargetId.set(parsed.targetId, currentPoint);
-
+      const fix = decoder.decode(line, { at: receivedAt, receivedAt }, activeNavigationSourceId);
+      if (!fix) continue;
       lastFixAt = receivedAt;
       emitConnectionState('ok');
-      emitFix({
-        lat: parsed.lat,
-        lon: parsed.lon,
-        speed: groundMotion.speed,
-        course: normalizeCourseDeg(parsed.courseDeg ?? groundMotion.course),
-        heading: null,
-        depth: parsed.depthM,
-        received_at: receivedAt,
-        source: 'RWLT',
-        entity_type: 'diver',
-        entity_id: diver.uid,
-        navigation_source_id: activeNavigationSourceId,
-      });
+      emitFix(fix);
     }
   };
 
@@ -1398,14 +1390,12 @@ export const createElectronRwltComTelemetryProvider = (
     connected = false;
     lastFixAt = 0;
     lineBuffer = '';
-    lastPingerDepth = 0;
-    lastPingerGroundPoint = null;
-    lastDiverGroundPointByTargetId.clear();
+    decoder.reset();
     activeMode = 'pinger';
     activeNavigationSourceId = 'rwlt-com';
     clearIntervals();
     if (api) {
-      void api.stop().catch(() => {
+      void api.stop(options.instanceId).catch(() => {
         // ignore
       });
     }
@@ -1443,7 +1433,7 @@ export const createElectronRwltComTelemetryProvider = (
 
       activeMode = config.mode;
       activeNavigationSourceId = config.navigationSourceId;
-      await api.start({
+      await api.start(options.instanceId, {
         autoDetectPort: config.autoDetectPort,
         comPort: config.comPort,
         baudRate: config.baudRate,
@@ -1473,14 +1463,18 @@ export const createElectronRwltComTelemetryProvider = (
       return;
     }
 
-    unsubscribeData = api.onData((payload) => handleData(payload));
+    unsubscribeData = api.onData((payload) => {
+      if (!isOwnInstanceEvent(payload, options.instanceId)) return;
+      handleData(payload);
+    });
     unsubscribeStatus = api.onStatus((payload) => {
-      if (!payload?.status) return;
+      if (!payload?.status || !isOwnInstanceEvent(payload, options.instanceId)) return;
       if (payload.status === 'error') {
         emitConnectionState('error');
       }
     });
-    unsubscribeError = api.onError(() => {
+    unsubscribeError = api.onError((payload) => {
+      if (!isOwnInstanceEvent(payload, options.instanceId)) return;
       emitConnectionState('error');
     });
 
@@ -0,0 +1,285 @@
+import { parseZimaLine } from '@/features/devices/zima2r/protocol';
+import { distanceMeters, initialBearingDeg } from '@/features/geo/distance';
+import { parseNmeaLine } from '@/features/devices/gnss-udp/protocol';
+import { parseRwltLine, type RwltPrwlaMessage } from '@/features/devices/rwlt-com/protocol';
+import type { TelemetryFix } from './telemetry';
+
+const HDT_FRESHNESS_TIMEOUT_MS = 5000;
+
+/**
+ * `at` is the timeline ground motion and heading freshness are measured on: the receive time for
+ * live devices, the recording offset for replays. `receivedAt` is what the emitted fix carries.
+ */
+export type TelemetryDecodeTiming = {
+  at: number;
+  receivedAt: number;
+};
+
+/** Stateful per-schema decoder shared by the live Electron providers and the replay provider. */
+export type TelemetryLineDecoder = {
+  decode: (line: string, timing: TelemetryDecodeTiming, navigationSourceId: string) => TelemetryFix | null;
+  reset: () => void;
+};
+
+export type RwltDecoderMode = 'pinger' | 'divers';
+
+export type RwltLineDecoderOptions = {
+  getMode: () => RwltDecoderMode;
+  resolveDiver?: (tId: number) => { uid: string; id: string } | null;
+  onBuoyUpdate?: (buoy: RwltPrwlaMessage) => void;
+};
+
+export const isValidLatLon = (lat: number | null, lon: number | null): lat is number =>
+  lat !== null &&
+  lon !== null &&
+  Number.isFinite(lat) &&
+  Number.isFinite(lon) &&
+  lat >= -90 &&
+  lat <= 90 &&
+  lon >= -180 &&
+  lon <= 180 &&
+  !(lat === 0 && lon === 0);
+
+type GroundTrackPoint = {
+  lat: number;
+  lon: number;
+  receivedAt: number;
+};
+
+const normalizeCourseDeg = (value: number): number => {
+  if (!Number.isFinite(value)) return 0;
+  return ((value % 360) + 360) % 360;
+};
+
+const initialGroundMotion = () => ({ speed: 0, course: 0 });
+
+const computeGroundMotion = (
+  previous: GroundTrackPoint | null,
+  current: GroundTrackPoint,
+): { speed: number; course: number } => {
+  if (!previous) return initialGroundMotion();
+
+  const dtMs = current.receivedAt - previous.receivedAt;
+  if (!Number.isFinite(dtMs) || dtMs <= 0) {
+    return initialGroundMotion();
+  }
+
+  const distance = distanceMeters(previous, current);
+  if (!Number.isFinite(distance) || distance <= 0) {
+    return initialGroundMotion();
+  }
+
+  const course = initialBearingDeg(previous, current);
+  const speed = distance / (dtMs / 1000);
+
+  if (!Number.isFinite(speed) || speed < 0) {
+    return { speed: 0, course };
+  }
+  return { speed, course };
+};
+
+const isFreshHeading = (headingAt: number | null, at: number): boolean => {
+  if (headingAt === null || !Number.isFinite(headingAt)) return false;
+  const ageMs = at - headingAt;
+  return ageMs >= 0 && ageMs <= HDT_FRESHNESS_TIMEOUT_MS;
+};
+
+const createGroundMotionTracker = () => {
+  const lastPointByKey = new Map<string, GroundTrackPoint>();
+  return {
+    next: (key: string, point: GroundTrackPoint) => {
+      const motion = computeGroundMotion(lastPointByKey.get(key) ?? null, point);
+      lastPointByKey.set(key, point);
+      return motion;
+    },
+    reset: () => lastPointByKey.clear(),
+  };
+};
+
+export const createZimaLineDecoder = (): TelemetryLineDecoder => {
+  const groundMotion = createGroundMotionTracker();
+
+  return {
+    decode: (line, { at, receivedAt }, navigationSourceId) => {
+      const parsed = parseZimaLine(line);
+      if (parsed.kind === 'AZMLOC') {
+        return {
+          lat: parsed.lat,
+          lon: parsed.lon,
+          speed: parsed.speed,
+          course: parsed.course,
+          heading: parsed.heading,
+          depth: parsed.depth,
+          received_at: receivedAt,
+          source: 'AZMLOC',
+          entity_type: 'base_station',
+          entity_id: 'base-station',
+          navigation_source_id: navigationSourceId,
+        };
+      }
+
+      if (parsed.kind !== 'AZMREM' || parsed.isTimeout === true || !isValidLatLon(parsed.lat, parsed.lon)) return null;
+      const beaconKey = parsed.beaconId ?? (parsed.remoteAddress !== null ? String(parsed.remoteAddress) : null);
+      if (!beaconKey) return null;
+
+      const motion = groundMotion.next(beaconKey, { lat: parsed.lat, lon: parsed.lon, receivedAt: at });
+      return {
+        lat: parsed.lat,
+        lon: parsed.lon,
+        speed: motion.speed,
+        course: motion.course,
+        heading: motion.course,
+        depth: parsed.depth ?? 0,
+        received_at: receivedAt,
+        remoteAddress: parsed.remoteAddress,
+        beaconId: parsed.beaconId,
+        source: 'AZMREM',
+        entity_type: 'agent',
+        entity_id: parsed.beaconId ? `beacon-${parsed.beaconId}` : undefined,
+        navigation_source_id: navigationSourceId,
+      };
+    },
+    reset: groundMotion.reset,
+  };
+};
+
+export const createNmeaLineDecoder = (): TelemetryLineDecoder => {
+  let lastGroundPoint: GroundTrackPoint | null = null;
+  let latestHeading: number | null = null;
+  let latestHeadingAt: number | null = null;
+
+  return {
+    decode: (line, { at, receivedAt }, navigationSourceId) => {
+      const parsed = parseNmeaLine(line);
+      if (parsed.kind === 'HDT' && parsed.headingDeg !== null) {
+        latestHeading = parsed.headingDeg;
+        latestHeadingAt = at;
+        return null;
+      }
+      if (parsed.kind !== 'RMC' && parsed.kind !== 'GGA' && parsed.kind !== 'GNS') return null;
+      if (!parsed.hasFix || !isValidLatLon(parsed.lat, parsed.lon)) return null;
+
+      const currentPoint: GroundTrackPoint = { lat: parsed.lat, lon: parsed.lon, receivedAt: at };
+      const previousPoint = lastGroundPoint;
+      if (previousPoint && currentPoint.receivedAt <= previousPoint.receivedAt) {
+        // Ignore duplicate or out-of-order timestamps to avoid overriding
+        // valid over-ground motion with dt=0 samples from the same datagram.
+        return null;
+      }
+
+      const motion = computeGroundMotion(previousPoint, currentPoint);
+      lastGroundPoint = currentPoint;
+      const headingIsFresh = latestHeading !== null && isFreshHeading(latestHeadingAt, at);
+
+      return {
+        lat: parsed.lat,
+        lon: parsed.lon,
+        speed: motion.speed,
+        course: headingIsFresh && latestHeading !== null ? latestHeading : motion.course,
+        heading: headingIsFresh ? latestHeading : null,
+        depth: 0,
+        received_at: receivedAt,
+        source: 'GNSS',
+        entity_type: 'base_station',
+        entity_id: 'base-station',
+        navigation_source_id: navigationSourceId,
+      };
+    },
+    reset: () => {
+      lastGroundPoint = null;
+      latestHeading = null;
+      latestHeadingAt = null;
+    },
+  };
+};
+
+export const createRwltLineDecoder = (options: RwltLineDecoderOptions): TelemetryLineDecoder => {
+  const groundMotion = createGroundMotionTracker();
+  let lastPingerDepth = 0;
+
+  const pingerAgentFix = (
+    lat: number,
+    lon: number,
+    { at, receivedAt }: TelemetryDecodeTiming,
+    navigationSourceId: string,
+  ): TelemetryFix => {
+    const motion = groundMotion.next('rwlt-pinger-agent', { lat, lon, receivedAt: at });
+    return {
+      lat,
+      lon,
+      speed: motion.speed,
+      course: normalizeCourseDeg(motion.course),
+      heading: null,
+      depth: lastPingerDepth,
+      received_at: receivedAt,
+      source: 'RWLT',
+      entity_type: 'agent',
+      entity_id: 'rwlt-pinger-agent',
+      navigation_source_id: navigationSourceId,
+    };
+  };
+
+  return {
+    decode: (line, timing, navigationSourceId) => {
+      const parsed = parseRwltLine(line);
+      if (parsed.kind === 'PRWLA') {
+        options.onBuoyUpdate?.(parsed);
+        return null;
+      }
+
+      if (parsed.kind === 'PUWV5') {
+        return {
+          lat: parsed.lat,
+          lon: parsed.lon,
+          speed: parsed.speedKmh !== null ? Math.max(0, parsed.speedKmh / 3.6) : 0,
+          course: normalizeCourseDeg(parsed.courseDeg ?? 0),
+          heading: null,
+          depth: 0,
+          received_at: timing.receivedAt,
+          source: 'RWLT',
+          entity_type: 'base_station',
+          entity_id: 'base-station',
+          navigation_source_id: navigationSourceId,
+        };
+      }
+
+      if (options.getMode() === 'pinger') {
+        if (parsed.kind === 'GGA' && parsed.hasFix && isValidLatLon(parsed.lat, parsed.lon)) {
+          lastPingerDepth = parsed.depthM;
+          return pingerAgentFix(parsed.lat, parsed.lon, timing, navigationSourceId);
+        }
+        if (parsed.kind === 'RMC' && parsed.hasFix && isValidLatLon(parsed.lat, parsed.lon)) {
+          return pingerAgentFix(parsed.lat, parsed.lon, timing, navigationSourceId);
+        }
+        return null;
+      }
+
+      if (parsed.kind !== 'PUWV3' || !isValidLatLon(parsed.lat, parsed.lon)) return null;
+      const diver = options.resolveDiver?.(parsed.targetId) ?? null;
+      if (!diver) return null;
+
+      const motion = groundMotion.next(`diver-${parsed.targetId}`, {
+        lat: parsed.lat,
+        lon: parsed.lon,
+        receivedAt: timing.at,
+      });
+      return {
+        lat: parsed.lat,
+        lon: parsed.lon,
+        speed: motion.speed,
+        course: normalizeCourseDeg(parsed.courseDeg ?? motion.course),
+        heading: null,
+        depth: parsed.depthM,
+        received_at: timing.receivedAt,
+        source: 'RWLT',
+        entity_type: 'diver',
+        entity_id: diver.uid,
+        navigation_source_id: navigationSourceId,
+      };
+    },
+    reset: () => {
+      groundMotion.reset();
+      lastPingerDepth = 0;
+    },
+  };
+};
@@ -0,0 +1,142 @@
+import { parseZimaLine } from '@/features/devices/zima2r/protocol';
+import { parseNmeaLine } from '@/features/devices/gnss-udp/protocol';
+import { parseRwltLine } from '@/features/devices/rwlt-com/protocol';
+
+export type TelemetryReplaySchemaId = 'zima2r' | 'gnss-udp' | 'gnss-com' | 'rwlt-com';
+
+const replaySchemaIds: TelemetryReplaySchemaId[] = ['zima2r', 'gnss-udp', 'gnss-com', 'rwlt-com'];
+
+export const isTelemetryReplaySchemaId = (value: unknown): value is TelemetryReplaySchemaId =>
+  typeof value === 'string' && (replaySchemaIds as string[]).includes(value);
+
+/** Schemas whose recordings cannot be told apart by content: both carry plain NMEA. */
+export const NMEA_REPLAY_SCHEMA_IDS: TelemetryReplaySchemaId[] = ['gnss-udp', 'gnss-com'];
+
+export type TelemetryReplayMessage = {
+  offsetMs: number;
+  raw: string;
+};
+
+export type TelemetryReplaySource = {
+  schemaId: TelemetryReplaySchemaId;
+  messages: TelemetryReplayMessage[];
+};
+
+type ScenarioEntry = {
+  msg?: unknown;
+  delayMs?: unknown;
+  delay_ms?: unknown;
+};
+
+const normalizeDelay = (value: unknown): number => {
+  const delay = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(delay) && delay > 0 ? delay : 0;
+};
+
+/**
+ * Scenario files are arrays of `{ msg, delayMs }` where `delayMs` is the pause
+ * after sending `msg` (same semantics as the Electron simulators).
+ */
+export const parseReplayScenario = (text: string): TelemetryReplayMessage[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Файл сценария не является корректным JSON.');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('Файл сценария должен содержать массив сообщений.');
+  }
+
+  const messages: TelemetryReplayMessage[] = [];
+  let offsetMs = 0;
+  for (const item of parsed as ScenarioEntry[]) {
+    if (!item || typeof item !== 'object') continue;
+    const raw = typeof item.msg === 'string' ? item.msg.trim() : '';
+    if (raw) {
+      messages.push({ offsetMs, raw });
+    }
+    offsetMs += normalizeDelay(item.delayMs ?? item.delay_ms);
+  }
+  return messages;
+};
+
+/**
+ * Equipment logs are written by `createEquipmentLogger` as
+ * `<ISO timestamp> {"profile_name": ..., "schema_id": ..., "raw": ...}` lines;
+ * logs written before `schema_id` was added lack it.
+ */
+const parseEquipmentLogEntries = (
+  text: string,
+): { messages: TelemetryReplayMessage[]; schemaId: TelemetryReplaySchemaId | null } => {
+  const entries: Array<{ at: number; raw: string }> = [];
+  let schemaId: TelemetryReplaySchemaId | null = null;
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    const separator = trimmed.indexOf(' ');
+    if (separator <= 0) continue;
+
+    const at = Date.parse(trimmed.slice(0, separator));
+    if (!Number.isFinite(at)) continue;
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(trimmed.slice(separator + 1));
+    } catch {
+      continue;
+    }
+    const entry = payload as { raw?: unknown; schema_id?: unknown } | null;
+    const raw = entry?.raw;
+    if (typeof raw !== 'string' || !raw.trim()) continue;
+    if (!schemaId && isTelemetryReplaySchemaId(entry?.schema_id)) {
+      schemaId = entry.schema_id;
+    }
+    entries.push({ at, raw: raw.trim() });
+  }
+
+  if (entries.length === 0) return { messages: [], schemaId };
+  const startAt = entries[0].at;
+  let previousOffset = 0;
+  const messages = entries.map((entry) => {
+    // Clock adjustments during recording must not move playback backwards.
+    previousOffset = Math.max(previousOffset, entry.at - startAt);
+    return { offsetMs: previousOffset, raw: entry.raw };
+  });
+  return { messages, schemaId };
+};
+
+export const parseEquipmentLog = (text: string): TelemetryReplayMessage[] => parseEquipmentLogEntries(text).messages;
+
+/**
+ * Guesses the schema from content. Plain NMEA is reported as `gnss-udp` because a GNSS-COM
+ * recording looks the same; equipment logs name their schema, scenarios need the operator's choice.
+ */
+export const detectReplaySchema = (messages: TelemetryReplayMessage[]): TelemetryReplaySchemaId | null => {
+  let hasNmea = false;
+  for (const message of messages) {
+    if (parseZimaLine(message.raw).kind !== 'UNKNOWN') return 'zima2r';
+    const rwlt = parseRwltLine(message.raw);
+    if (rwlt.kind !== 'UNKNOWN' && rwlt.kind !== 'GGA' && rwlt.kind !== 'RMC') return 'rwlt-com';
+    if (!hasNmea && parseNmeaLine(message.raw).kind !== 'UNKNOWN') {
+      hasNmea = true;
+    }
+  }
+  return hasNmea ? 'gnss-udp' : null;
+};
+
+export const parseReplayFile = (fileName: string, text: string): TelemetryReplaySource => {
+  const normalized = text.replace(/^\uFEFF/, '');
+  const isJson = fileName.toLowerCase().endsWith('.json') || normalized.trimStart().startsWith('[');
+  const { messages, schemaId: loggedSchemaId } = isJson
+    ? { messages: parseReplayScenario(normalized), schemaId: null }
+    : parseEquipmentLogEntries(normalized);
+  if (messages.length === 0) {
+    throw new Error('В файле нет сообщений для воспроизведения.');
+  }
+  const schemaId = loggedSchemaId ?? detectReplaySchema(messages);
+  if (!schemaId) {
+    throw new Error('Не удалось определить тип оборудования по содержимому файла.');
+  }
+  return { schemaId, messages };
+};
@@ -0,0 +1,208 @@
+import { distanceMeters, initialBearingDeg } from '@/features/geo/distance';
+import type { MissionTrackMeta, TrackPoint } from './types';
+
+export type TrackPlaybackTrack = {
+  trackId: string;
+  agentId: string | null;
+  times: number[];
+  points: TrackPoint[];
+};
+
+export type TrackPlaybackIndex = {
+  startMs: number;
+  endMs: number;
+  tracks: TrackPlaybackTrack[];
+};
+
+export type TrackPlaybackSample = {
+  lat: number;
+  lon: number;
+  depth: number;
+  speed: number;
+  course: number;
+  timeMs: number;
+};
+
+export type TrackPlaybackSegment = {
+  trackId: string;
+  points: Array<[number, number]>;
+  opacity: number;
+};
+
+const TAIL_OPACITY = 1;
+const HISTORY_OPACITY = 0.3;
+
+const normalizeCourse = (value: number): number => ((value % 360) + 360) % 360;
+
+const lerp = (from: number, to: number, ratio: number): number => from + (to - from) * ratio;
+
+const lerpAngle = (from: number, to: number, ratio: number): number => {
+  const delta = ((to - from + 540) % 360) - 180;
+  return normalizeCourse(from + delta * ratio);
+};
+
+const isFiniteNumber = (value: number | undefined): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+export const buildTrackPlaybackIndex = (
+  tracks: MissionTrackMeta[],
+  pointsByTrackId: Record<string, TrackPoint[]>,
+): TrackPlaybackIndex | null => {
+  let startMs = Number.POSITIVE_INFINITY;
+  let endMs = Number.NEGATIVE_INFINITY;
+  const indexed: TrackPlaybackTrack[] = [];
+
+  for (const track of tracks) {
+    const timed = (pointsByTrackId[track.id] ?? [])
+      .map((point) => ({ point, time: Date.parse(point.timestamp) }))
+      .filter((item) => Number.isFinite(item.time))
+      .sort((a, b) => a.time - b.time);
+    if (timed.length === 0) continue;
+
+    indexed.push({
+      trackId: track.id,
+      agentId: track.agent_id,
+      times: timed.map((item) => item.time),
+      points: timed.map((item) => item.point),
+    });
+    startMs = Math.min(startMs, timed[0].time);
+    endMs = Math.max(endMs, timed[timed.length - 1].time);
+  }
+
+  if (indexed.length === 0) return null;
+  return { startMs, endMs, tracks: indexed };
+};
+
+/** Index of the last point recorded at or before `timeMs`, or -1. */
+const findPointIndexAt = (times: number[], timeMs: number): number => {
+  let low = 0;
+  let high = times.length - 1;
+  let result = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (times[mid] <= timeMs) {
+      result = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return result;
+};
+
+/**
+ * Interpolated position of a track at `timeMs`. Returns null before the first
+ * point, after the last one and inside gaps between recording segments.
+ */
+export const sampleTrackAt = (track: TrackPlaybackTrack, timeMs: number): TrackPlaybackSample | null => {
+  const index = findPointIndexAt(track.times, timeMs);
+  if (index < 0) return null;
+
+  const current = track.points[index];
+  const currentTime = track.times[index];
+  const next = track.points[index + 1];
+  const nextTime = track.times[index + 1];
+
+  if (!next || next.segment_id !== current.segment_id || nextTime <= currentTime) {
+    if (timeMs !== currentTime) return null;
+    const previous = index > 0 && track.points[index - 1].segment_id === current.segment_id ? track.points[index - 1] : null;
+    return {
+      lat: current.lat,
+      lon: current.lon,
+      depth: current.depth_m ?? 0,
+      speed: current.sog_mps ?? 0,
+      course: isFiniteNumber(current.cog_deg) ? normalizeCourse(current.cog_deg) : previous ? initialBearingDeg(previous, current) : 0,
+      timeMs,
+    };
+  }
+
+  const ratio = (timeMs - currentTime) / (nextTime - currentTime);
+  const derivedSpeed = distanceMeters(current, next) / ((nextTime - currentTime) / 1000);
+  const derivedCourse = initialBearingDeg(current, next);
+
+  return {
+    lat: lerp(current.lat, next.lat, ratio),
+    lon: lerp(current.lon, next.lon, ratio),
+    depth: lerp(current.depth_m ?? 0, next.depth_m ?? current.depth_m ?? 0, ratio),
+    speed:
+      isFiniteNumber(current.sog_mps) && isFiniteNumber(next.sog_mps)
+        ? lerp(current.sog_mps, next.sog_mps, ratio)
+        : derivedSpeed,
+    course:
+      isFiniteNumber(current.cog_deg) && isFiniteNumber(next.cog_deg)
+        ? lerpAngle(current.cog_deg, next.cog_deg, ratio)
+        : derivedCourse,
+    timeMs,
+  };
+};
+
+/** Latest interpolated sample per agent; tracks without an agent are skipped. */
+export const sampleAgentsAt = (index: TrackPlaybackIndex, timeMs: number): Record<string, TrackPlaybackSample> => {
+  const result: Record<string, TrackPlaybackSample> = {};
+  for (const track of index.tracks) {
+    if (!track.agentId) continue;
+    const sample = sampleTrackAt(track, timeMs);
+    if (sample) {
+      result[track.agentId] = sample;
+    }
+  }
+  return result;
+};
+
+/**
+ * Splits every track into the part already travelled at `timeMs`: the last
+ * `tailMs` are drawn at full opacity and everything older is faded.
+ */
+export const buildTrackPlaybackSegments = (
+  index: TrackPlaybackIndex,
+  timeMs: number,
+  tailMs: number,
+): TrackPlaybackSegment[] => {
+  const segments: TrackPlaybackSegment[] = [];
+  const tailStartMs = timeMs - Math.max(0, tailMs);
+
+  for (const track of index.tracks) {
+    const lastIndex = findPointIndexAt(track.times, timeMs);
+    if (lastIndex < 0) continue;
+
+    const head = sampleTrackAt(track, timeMs);
+    let history: Array<[number, number]> = [];
+    let tail: Array<[number, number]> = [];
+    let segmentId = track.points[0].segment_id;
+
+    const flush = () => {
+      if (history.length > 1) segments.push({ trackId: track.trackId, points: history, opacity: HISTORY_OPACITY });
+      if (tail.length > 1) segments.push({ trackId: track.trackId, points: tail, opacity: TAIL_OPACITY });
+      history = [];
+      tail = [];
+    };
+
+    for (let i = 0; i <= lastIndex; i += 1) {
+      const point = track.points[i];
+      if (point.segment_id !== segmentId) {
+        flush();
+        segmentId = point.segment_id;
+      }
+      const position: [number, number] = [point.lat, point.lon];
+      if (track.times[i] < tailStartMs) {
+        history.push(position);
+      } else {
+        if (tail.length === 0 && history.length > 0) {
+          // Keep the faded and bright parts connected.
+          tail.push(history[history.length - 1]);
+        }
+        tail.push(position);
+      }
+    }
+
+    if (head && (head.lat !== track.points[lastIndex].lat || head.lon !== track.points[lastIndex].lon)) {
+      if (tail.length === 0 && history.length > 0) {
+        tail.push(history[history.length - 1]);
+      }
+      tail.push([head.lat, head.lon]);
+    }
+    flush();
+  }
+
+  return segments;
+};
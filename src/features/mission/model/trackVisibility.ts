@@ -2,6 +2,7 @@ export type ColoredTrackSegment = {
   trackId: string;
   points: Array<[number, number]>;
   color: string;
+  opacity?: number;
 };
 
 export const filterVisibleTrackSegments = (
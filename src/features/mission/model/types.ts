@@ -1,4 +1,8 @@
-export const MISSION_SCHEMA_VERSION = 1;
+import type { SurveyPatternId } from '@/features/map/model/types';
+import type { RasterGeoreference } from '@/features/map/rasterOverlays/georeference';
+import type { LocalTileSource } from '@/platform/mapConfig';
+
+export const MISSION_SCHEMA_VERSION = 2;
 
 export type IsoUtcString = string;
 
@@ -14,6 +18,33 @@ export type DiverUiConfig = {
   marker_size_px: number;
   track_color: string;
   navigation_source: NavigationSourceId;
+  /** Default planned speed for routes and zones run by this agent, m/s. */
+  planned_speed_mps?: number;
+  /** Ascent rate above which the dive report flags a violation, m/min. */
+  max_ascent_rate_mpm?: number;
+};
+
+export type AlarmRuleKind =
+  | 'zone_exit'
+  | 'zone_enter'
+  | 'max_depth'
+  | 'base_distance'
+  | 'diver_separation'
+  | 'stale_fix'
+  | 'low_battery';
+
+export type AlarmRule = {
+  id: string;
+  kind: AlarmRuleKind;
+  enabled: boolean;
+  /** Diver the rule watches; null watches every diver. Ignored by `low_battery`. */
+  agent_uid: string | null;
+  /** Second diver of a `diver_separation` rule. */
+  other_agent_uid?: string | null;
+  /** Zone for `zone_exit` / `zone_enter`. */
+  zone_id?: string | null;
+  /** Metres, seconds or volts depending on the kind; unused by zone rules. */
+  threshold: number;
 };
 
 export type MissionTrackMeta = {
@@ -26,6 +57,12 @@ export type MissionTrackMeta = {
   note: string | null;
 };
 
+/** Basemap override of a mission; 'default' follows the application settings. */
+export type MissionBasemapSettings = {
+  source: 'default' | 'online' | 'local';
+  local?: LocalTileSource;
+};
+
 export type MissionUiState = {
   follow_diver?: boolean;
   hidden_track_ids?: string[];
@@ -38,7 +75,9 @@ export type MissionUiState = {
     opacity: number;
     visible: boolean;
     z_index: number;
-    source: 'geotiff' | 'tif+tfw';
+    source: 'geotiff' | 'tif+tfw' | 'gcp';
+    // Control points of a raster georeferenced in the app; tfw_file then holds the generated world file.
+    georeference?: RasterGeoreference;
   }>;
   vector_overlays?: Array<{
     id: string;
@@ -46,13 +85,29 @@ export type MissionUiState = {
     file: string;
     cache_file?: string;
     color?: string;
-    type: 'dxf' | 'dwg';
+    // s57 — ENC cell (*.000); its coordinates are WGS84, so it carries no UTM zone or CRS.
+    // contours — isobaths generated from a bathymetry layer, stored as WGS84 GeoJSON.
+    type: 'dxf' | 'dwg' | 's57' | 'contours';
     file_encoding?: 'utf8' | 'base64';
-    utm_zone: number;
-    utm_hemisphere: 'N' | 'S';
+    utm_zone?: number;
+    utm_hemisphere?: 'N' | 'S';
+    // EPSG code, proj4 or WKT of the drawing; used instead of the UTM zone when set.
+    crs?: string;
     opacity: number;
     visible: boolean;
     z_index: number;
+    layers?: Array<{ name: string; visible: boolean; color?: string }>;
+  }>;
+  // Depth grids built from soundings; file holds the serialized grid, rendered with a depth colour ramp.
+  bathymetry_layers?: Array<{
+    id: string;
+    name: string;
+    file: string;
+    source: 'xyz' | 'ascii-grid' | 'track';
+    method: 'idw' | 'nearest';
+    cell_size_m: number;
+    opacity: number;
+    visible: boolean;
   }>;
   divers?: DiverUiConfig[];
   layers?: {
@@ -64,6 +119,7 @@ export type MissionUiState = {
     scale_bar?: boolean;
     basemap?: boolean;
   };
+  basemap?: MissionBasemapSettings;
   left_panel_sections?: {
     layers?: boolean;
     agents?: boolean;
@@ -124,6 +180,9 @@ export type MissionUiState = {
     marker_color?: string;
     marker_size_px: number;
   }>;
+  alarm_rules?: AlarmRule[];
+  /** Sequence number of the last history.jsonl event reflected in this document. */
+  history_revision?: number;
 };
 
 export type MissionDocument = {
@@ -132,7 +191,7 @@ export type MissionDocument = {
   name: string;
   created_at: IsoUtcString;
   updated_at: IsoUtcString;
-  /** @deprecated Use active_tracks instead. Kept for backward compatibility. */
+  /** @deprecated Use active_tracks instead; schema v2 moved it there and keeps it null. */
   active_track_id: string | null;
   /** Per-agent active track mapping: agent_uid -> track_id */
   active_tracks: Record<string, string>;
@@ -171,6 +230,7 @@ export type RouteFeature = {
   };
   properties: BaseFeatureProperties & {
     kind: 'route';
+    planned_speed_mps?: number;
     style?: Record<string, unknown>;
   };
 };
@@ -200,6 +260,16 @@ export type SurveyAreaFeature = {
     lane_bearing_deg?: number;
     lane_start_lat?: number;
     lane_start_lon?: number;
+    /** Absent in missions saved before zones could be non-convex; treated as true. */
+    convex_hull?: boolean;
+    survey_pattern?: SurveyPatternId;
+    pattern_course_deg?: number;
+    pattern_leg_count?: number;
+    pattern_leg_length_m?: number;
+    pattern_datum_lat?: number;
+    pattern_datum_lon?: number;
+    planned_speed_mps?: number;
+    turn_allowance_s?: number;
     style?: Record<string, unknown>;
   };
 };
@@ -214,6 +284,8 @@ export type LaneFeature = {
     kind: 'lane';
     parent_area_id: string;
     lane_index: number;
+    /** Scan row of the lane; pieces of one row split by holes or bays share it. */
+    lane_row?: number;
   };
 };
 
@@ -0,0 +1,236 @@
+/**
+ * Minimal ZIP writer and reader for mission packages. Entries are deflated with the platform
+ * CompressionStream when it exists and stored otherwise; reading accepts stored and deflated
+ * entries. ZIP64, encryption and multi-disk archives are not supported.
+ */
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const ZIP_VERSION = 20;
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+export type ZipEntryInput = {
+  path: string;
+  data: Uint8Array<ArrayBuffer>;
+  modifiedAt?: Date;
+};
+
+export type ZipEntry = {
+  path: string;
+  data: Uint8Array<ArrayBuffer>;
+};
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i += 1) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date): { time: number; date: number } => {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+const concatChunks = (chunks: Uint8Array[], totalLength: number): Uint8Array<ArrayBuffer> => {
+  const out = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
+
+const pipeThrough = async (
+  data: Uint8Array<ArrayBuffer>,
+  stream: { writable: WritableStream<BufferSource>; readable: ReadableStream<Uint8Array> },
+): Promise<Uint8Array<ArrayBuffer>> => {
+  const writer = stream.writable.getWriter();
+  // Written without awaiting: the readable side has to be drained concurrently to relieve backpressure.
+  const written = writer.write(data).then(() => writer.close());
+  const reader = stream.readable.getReader();
+  const chunks: Uint8Array[] = [];
+  let totalLength = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    totalLength += value.length;
+  }
+  await written;
+  return concatChunks(chunks, totalLength);
+};
+
+const deflateRaw = async (data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer> | null> => {
+  if (typeof CompressionStream === 'undefined') return null;
+  try {
+    return await pipeThrough(data, new CompressionStream('deflate-raw'));
+  } catch {
+    return null;
+  }
+};
+
+const inflateRaw = async (data: Uint8Array<ArrayBuffer>, path: string): Promise<Uint8Array<ArrayBuffer>> => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error(`Файл ${path} сжат, а распаковка deflate недоступна в этой среде.`);
+  }
+  try {
+    return await pipeThrough(data, new DecompressionStream('deflate-raw'));
+  } catch {
+    throw new Error(`Не удалось распаковать файл ${path}: архив повреждён.`);
+  }
+};
+
+/** Builds a ZIP archive; entries that do not shrink when deflated are stored as is. */
+export const createZipArchive = async (entries: ZipEntryInput[]): Promise<Uint8Array<ArrayBuffer>> => {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const crc = crc32(entry.data);
+    const deflated = entry.data.length > 0 ? await deflateRaw(entry.data) : null;
+    const useDeflate = deflated !== null && deflated.length < entry.data.length;
+    const body = useDeflate ? deflated : entry.data;
+    const method = useDeflate ? METHOD_DEFLATED : METHOD_STORED;
+    const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date());
+
+    const local = new Uint8Array(LOCAL_HEADER_SIZE + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    localView.setUint16(4, ZIP_VERSION, true);
+    localView.setUint16(6, FLAG_UTF8, true);
+    localView.setUint16(8, method, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, body.length, true);
+    localView.setUint32(22, entry.data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, LOCAL_HEADER_SIZE);
+
+    const central = new Uint8Array(CENTRAL_HEADER_SIZE + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    centralView.setUint16(4, ZIP_VERSION, true);
+    centralView.setUint16(6, ZIP_VERSION, true);
+    centralView.setUint16(8, FLAG_UTF8, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, body.length, true);
+    centralView.setUint32(24, entry.data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, CENTRAL_HEADER_SIZE);
+
+    localParts.push(local, body);
+    centralParts.push(central);
+    offset += local.length + body.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(END_OF_CENTRAL_DIRECTORY_SIZE);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return concatChunks([...localParts, ...centralParts, end], offset + centralSize + end.length);
+};
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  const lowest = Math.max(0, view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_SIZE);
+  for (let position = view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE; position >= lowest; position -= 1) {
+    if (view.getUint32(position, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) return position;
+  }
+  throw new Error('Файл не является ZIP-архивом.');
+};
+
+/** Reads every file of a ZIP archive; directory entries are skipped. */
+export const readZipArchive = async (bytes: Uint8Array<ArrayBuffer>): Promise<ZipEntry[]> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const utf8 = new TextDecoder('utf-8');
+  const endPosition = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(endPosition + 10, true);
+  const centralOffset = view.getUint32(endPosition + 16, true);
+  if (entryCount === 0xffff || centralOffset === 0xffffffff) {
+    throw new Error('ZIP64-архивы не поддерживаются.');
+  }
+
+  const entries: ZipEntry[] = [];
+  let position = centralOffset;
+  for (let index = 0; index < entryCount; index += 1) {
+    if (position + CENTRAL_HEADER_SIZE > bytes.length || view.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Оглавление ZIP-архива повреждено.');
+    }
+    const flags = view.getUint16(position + 8, true);
+    const method = view.getUint16(position + 10, true);
+    const crc = view.getUint32(position + 16, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const path = utf8.decode(bytes.subarray(position + CENTRAL_HEADER_SIZE, position + CENTRAL_HEADER_SIZE + nameLength));
+    position += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+    if (flags & FLAG_ENCRYPTED) {
+      throw new Error(`Файл ${path} зашифрован; зашифрованные архивы не поддерживаются.`);
+    }
+    if (localOffset + LOCAL_HEADER_SIZE > bytes.length || view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Заголовок файла ${path} в ZIP-архиве повреждён.`);
+    }
+    const dataStart =
+      localOffset + LOCAL_HEADER_SIZE + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (dataStart + compressedSize > bytes.length) {
+      throw new Error(`Файл ${path} в ZIP-архиве обрезан.`);
+    }
+    const body = bytes.slice(dataStart, dataStart + compressedSize);
+
+    let data: Uint8Array<ArrayBuffer>;
+    if (method === METHOD_STORED) {
+      data = body;
+    } else if (method === METHOD_DEFLATED) {
+      data = await inflateRaw(body, path);
+    } else {
+      throw new Error(`Файл ${path} сжат неподдерживаемым методом ${method}.`);
+    }
+    if (crc32(data) !== crc) {
+      throw new Error(`Контрольная сумма файла ${path} не совпадает: архив повреждён.`);
+    }
+    entries.push({ path, data });
+  }
+  return entries;
+};
@@ -110,3 +110,89 @@ export const isConvexZonePolygon = (points: GeoPoint[]): boolean => {
 
   return orientation !== 0;
 };
+
+const segmentsIntersect = (a: ProjectedPoint, b: ProjectedPoint, c: ProjectedPoint, d: ProjectedPoint): boolean => {
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  if (((d1 > EPS && d2 < -EPS) || (d1 < -EPS && d2 > EPS)) && ((d3 > EPS && d4 < -EPS) || (d3 < -EPS && d4 > EPS))) {
+    return true;
+  }
+
+  const onSegment = (p: ProjectedPoint, q: ProjectedPoint, r: ProjectedPoint): boolean =>
+    Math.min(p.x, q.x) - EPS <= r.x &&
+    r.x <= Math.max(p.x, q.x) + EPS &&
+    Math.min(p.y, q.y) - EPS <= r.y &&
+    r.y <= Math.max(p.y, q.y) + EPS;
+
+  return (
+    (Math.abs(d1) <= EPS && onSegment(c, d, a)) ||
+    (Math.abs(d2) <= EPS && onSegment(c, d, b)) ||
+    (Math.abs(d3) <= EPS && onSegment(a, b, c)) ||
+    (Math.abs(d4) <= EPS && onSegment(a, b, d))
+  );
+};
+
+/** True for a ring of at least three points with non-zero area and no self-intersections. */
+export const isSimpleZonePolygon = (points: GeoPoint[]): boolean => {
+  const ring = normalizeRingPoints(points);
+  if (ring.length < 3) return false;
+
+  const projected = projectPoints(ring);
+  let doubleArea = 0;
+  for (let i = 0; i < projected.length; i += 1) {
+    const a = projected[i];
+    const b = projected[(i + 1) % projected.length];
+    doubleArea += a.x * b.y - b.x * a.y;
+  }
+  if (Math.abs(doubleArea) <= EPS) return false;
+
+  const count = projected.length;
+  for (let i = 0; i < count; i += 1) {
+    for (let j = i + 1; j < count; j += 1) {
+      // Neighbouring edges share a vertex by construction.
+      if (j === i + 1 || (i === 0 && j === count - 1)) continue;
+      if (
+        segmentsIntersect(projected[i], projected[(i + 1) % count], projected[j], projected[(j + 1) % count])
+      ) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+};
+
+const isPointInRing = (point: GeoPoint, ring: GeoPoint[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i, i += 1) {
+    const a = ring[i];
+    const b = ring[j];
+    if (a.lat > point.lat !== b.lat > point.lat) {
+      const lonAtLat = a.lon + ((point.lat - a.lat) / (b.lat - a.lat)) * (b.lon - a.lon);
+      if (point.lon < lonAtLat) inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export type ZoneGeometry = {
+  type: 'zone';
+  points: GeoPoint[];
+  holes?: GeoPoint[][];
+};
+
+/**
+ * Cleans up a zone outline before it is stored: the outer ring goes through
+ * the convex hull only for zones that opted into it, and exclusion holes are
+ * kept when they are simple rings lying inside the outer ring.
+ */
+export const normalizeZoneGeometry = (geometry: ZoneGeometry, convexHull: boolean): ZoneGeometry => {
+  const points = convexHull ? toConvexZonePolygon(geometry.points) : normalizeRingPoints(geometry.points);
+  const holes = (geometry.holes ?? [])
+    .map((hole) => normalizeRingPoints(hole))
+    .filter((hole) => isSimpleZonePolygon(hole) && hole.every((point) => isPointInRing(point, points)));
+
+  return holes.length > 0 ? { type: 'zone', points, holes } : { type: 'zone', points };
+};
@@ -1,6 +1,7 @@
 import type { MapObject } from '@/features/map/model/types';
 import { generateLanesForZone } from './laneGeneration';
-import { normalizeLaneAngleDeg } from './laneAngle';
+import { normalizeLaneAngleDeg, normalizePatternCourseDeg } from './laneAngle';
+import { getDefaultPatternLegCount, generateSurveyPattern, resolvePatternDatum } from './surveyPatterns';
 import type { LaneFeature } from './types';
 
 export type OutdatedZoneIds = Record<string, true>;
@@ -10,11 +11,30 @@ export const generateLanesFromZoneObject = (zone: MapObject): LaneFeature[] => {
     return [];
   }
 
+  const laneAngleDeg = normalizeLaneAngleDeg(typeof zone.laneAngle === 'number' ? zone.laneAngle : 0);
+  const laneWidthM = Number.isFinite(zone.laneWidth) ? Math.max(1, zone.laneWidth ?? 5) : 5;
+
+  if (zone.surveyPattern && zone.surveyPattern !== 'parallel') {
+    const datum = resolvePatternDatum(zone.geometry.points, zone.patternDatum);
+    if (!datum) return [];
+    return generateSurveyPattern({
+      parentAreaId: zone.id,
+      pattern: zone.surveyPattern,
+      datum,
+      // Zones saved before the separate course only have the folded lane angle.
+      courseDeg: normalizePatternCourseDeg(zone.patternCourseDeg ?? laneAngleDeg),
+      spacingM: laneWidthM,
+      legCount: zone.patternLegCount ?? getDefaultPatternLegCount(zone.surveyPattern),
+      legLengthM: zone.patternLegLengthM,
+    });
+  }
+
   return generateLanesForZone({
     parentAreaId: zone.id,
     points: zone.geometry.points,
-    laneAngleDeg: normalizeLaneAngleDeg(typeof zone.laneAngle === 'number' ? zone.laneAngle : 0),
-    laneWidthM: Number.isFinite(zone.laneWidth) ? Math.max(1, zone.laneWidth ?? 5) : 5,
+    holes: zone.geometry.holes,
+    laneAngleDeg,
+    laneWidthM,
     laneBearingDeg: zone.laneBearingDeg,
     start: zone.laneStart,
   });
@@ -68,6 +88,35 @@ export const didZoneLaneInputsChange = (zone: MapObject, updates: Partial<MapObj
     return true;
   }
 
+  if ('zoneConvexHull' in updates && Boolean(updates.zoneConvexHull) !== Boolean(zone.zoneConvexHull)) {
+    return true;
+  }
+
+  if ('surveyPattern' in updates && (updates.surveyPattern ?? 'parallel') !== (zone.surveyPattern ?? 'parallel')) {
+    return true;
+  }
+
+  if ('patternCourseDeg' in updates && updates.patternCourseDeg !== zone.patternCourseDeg) {
+    return true;
+  }
+
+  if ('patternLegCount' in updates && updates.patternLegCount !== zone.patternLegCount) {
+    return true;
+  }
+
+  if ('patternLegLengthM' in updates && updates.patternLegLengthM !== zone.patternLegLengthM) {
+    return true;
+  }
+
+  if ('patternDatum' in updates) {
+    const prevDatum = zone.patternDatum;
+    const nextDatum = updates.patternDatum;
+    if (Boolean(prevDatum) !== Boolean(nextDatum)) return true;
+    if (nextDatum && prevDatum && (nextDatum.lat !== prevDatum.lat || nextDatum.lon !== prevDatum.lon)) {
+      return true;
+    }
+  }
+
   if (typeof updates.laneAngle === 'number' && updates.laneAngle !== zone.laneAngle) {
     return true;
   }
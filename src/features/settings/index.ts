@@ -4,8 +4,12 @@ export {
   createDefaultAppSettings,
   mergeDefaultsWithMissionUi,
   normalizeAppSettings,
+  normalizeMissionBasemap,
+  resolveActiveLocalTileSource,
   type AppSettingsV1,
   type AppUiDefaults,
+  type BasemapSettings,
+  type BasemapSourceMode,
   type GridMode,
 } from './model/appSettings';
 
@@ -1,12 +1,20 @@
-import type { MissionUiState, SegmentLengthsMode } from '@/features/mission';
+import type { MissionBasemapSettings, MissionUiState, SegmentLengthsMode } from '@/features/mission';
 import type { CrsId } from '@/features/geo/crs';
 import type { CoordinateInputFormat } from '@/features/geo/coordinateInputFormat';
+import { normalizeLocalTileSource, type LocalTileSource } from '@/platform/mapConfig';
 
 export const APP_SETTINGS_SCHEMA_VERSION = 1 as const;
 export const APP_SETTINGS_STORAGE_KEY = 'planner.appSettings.v1';
 
 export type GridMode = 'auto' | 'manual';
 
+export type BasemapSourceMode = 'online' | 'local';
+
+export type BasemapSettings = {
+  source: BasemapSourceMode;
+  local: LocalTileSource | null;
+};
+
 export type AppUiDefaults = {
   follow_diver: boolean;
   connection: {
@@ -24,6 +32,7 @@ export type AppUiDefaults = {
     grid: boolean;
     scale_bar: boolean;
   };
+  basemap: BasemapSettings;
   coordinates: {
     precision: number;
     input_crs: CrsId;
@@ -94,6 +103,33 @@ const normalizeGridLineStyle = (value: unknown, fallback: 'solid' | 'dashed' | '
   return fallback;
 };
 
+const normalizeBasemapSettings = (value: unknown, fallback: BasemapSettings): BasemapSettings => {
+  if (!isRecord(value)) return fallback;
+  const local = normalizeLocalTileSource(value.local);
+  return {
+    source: value.source === 'local' && local ? 'local' : 'online',
+    local,
+  };
+};
+
+export const normalizeMissionBasemap = (value: unknown): MissionBasemapSettings | undefined => {
+  if (!isRecord(value)) return undefined;
+  const local = normalizeLocalTileSource(value.local);
+  if (value.source === 'online') return { source: 'online', ...(local ? { local } : {}) };
+  if (value.source === 'local' && local) return { source: 'local', local };
+  return { source: 'default', ...(local ? { local } : {}) };
+};
+
+/** Local source in effect for the mission: its own override first, then the application default. */
+export const resolveActiveLocalTileSource = (
+  defaults: BasemapSettings,
+  mission: MissionBasemapSettings | undefined,
+): LocalTileSource | null => {
+  const source = mission && mission.source !== 'default' ? mission.source : defaults.source;
+  if (source !== 'local') return null;
+  return mission?.source === 'local' ? mission.local ?? null : defaults.local;
+};
+
 const normalizeInputCrs = (value: unknown, fallback: CrsId): CrsId => {
   if (value === 'wgs84' || value === 'sk42' || value === 'gsk2011') return value;
   return fallback;
@@ -123,6 +159,7 @@ export const createDefaultAppSettings = (): AppSettingsV1 => ({
       grid: false,
       scale_bar: true,
     },
+    basemap: { source: 'online', local: null },
     coordinates: { precision: 6, input_crs: 'wgs84', input_format: 'dd' },
     measurements: {
       grid: { mode: 'auto', color: '#64748b', width_px: 1, line_style: 'dashed' },
@@ -194,6 +231,7 @@ export const normalizeAppSettings = (raw: unknown): AppSettingsV1 => {
         grid: typeof layersRaw.grid === 'boolean' ? layersRaw.grid : base.defaults.layers.grid,
         scale_bar: typeof layersRaw.scale_bar === 'boolean' ? layersRaw.scale_bar : base.defaults.layers.scale_bar,
       },
+      basemap: normalizeBasemapSettings(defaultsRaw.basemap, base.defaults.basemap),
       coordinates: {
         precision: clampInt(coordsRaw.precision, base.defaults.coordinates.precision, 0, 12),
         input_crs: normalizeInputCrs(coordsRaw.input_crs, base.defaults.coordinates.input_crs),
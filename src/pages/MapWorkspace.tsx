@@ -4,13 +4,24 @@ import TopToolbar from '@/components/map/TopToolbar';
 import RightPanel, { type RightPanelSectionsCollapsedState } from '@/components/map/RightPanel';
 import LeftPanel, { type LeftPanelSectionsCollapsedState } from '@/components/map/LeftPanel';
 import StatusBar from '@/components/map/StatusBar';
+import TelemetryReplayPanel from '@/components/map/TelemetryReplayPanel';
+import AlarmPanel from '@/components/map/AlarmPanel';
+import JournalPanel from '@/components/map/JournalPanel';
+import DepthProfilePanel from '@/components/map/DepthProfilePanel';
+import RasterGeoreferencePanel, { type GeoreferencePointDraft } from '@/components/map/RasterGeoreferencePanel';
+import TrackPlaybackBar from '@/components/map/TrackPlaybackBar';
 import MapCanvas from '@/components/map/MapCanvas';
 import MapWorkspaceFrame, { type MapPanelsCollapsedState } from '@/components/map/MapWorkspaceFrame';
 import CreateMissionDialog from '@/components/dialogs/CreateMissionDialog';
 import OpenMissionDialog from '@/components/dialogs/OpenMissionDialog';
 import ExportDialog from '@/components/dialogs/ExportDialog';
+import ImportDialog from '@/components/dialogs/ImportDialog';
 import SettingsDialog from '@/components/dialogs/SettingsDialog';
 import OfflineMapsDialog from '@/components/dialogs/OfflineMapsDialog';
+import BathymetryDialog, { type BathymetryBuildRequest } from '@/components/dialogs/BathymetryDialog';
+import MissionPlanningDialog from '@/components/dialogs/MissionPlanningDialog';
+import DiveReportDialog from '@/components/dialogs/DiveReportDialog';
+import AlarmRulesDialog from '@/components/dialogs/AlarmRulesDialog';
 import CoordinateBuilderDialog from '@/components/dialogs/CoordinateBuilderDialog';
 import {
   AlertDialog,
@@ -22,7 +33,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import type { MapObject, MapObjectGeometry, Tool } from '@/features/map/model/types';
+import type { GeoPoint, MapObject, MapObjectGeometry, Tool } from '@/features/map/model/types';
 import type { CrsId } from '@/features/geo/crs';
 import type { CoordinateInputFormat } from '@/features/geo/coordinateInputFormat';
 
@@ -34,10 +45,17 @@ import {
   normalizeEquipmentSettings,
 } from '@/features/devices';
 import {
+  acknowledgeAlarms,
+  advanceRouteFollowing,
+  appendAlarmLog,
   buildTrackSegments,
   bundleToMapObjects,
   cascadeDeleteZone,
   clearZoneLanesOutdated,
+  evaluateAlarmRules,
+  computeRouteGuidance,
+  computeRouteProgress,
+  createRouteFollowingAssignment,
   loadDraftSession,
   computeRealtimeVisibilityState,
   countZoneLanes,
@@ -51,32 +69,90 @@ import {
   createEquipmentLogger,
   createMissionRepository,
   resolveDraftLoadMode,
+  createReplayTelemetryProvider,
   createSimulationTelemetryProvider,
   createTrackRecorderState,
   didZoneLaneInputsChange,
   filterVisibleTrackSegments,
   generateLanesFromZoneObject,
-  isConvexZonePolygon,
+  isSimpleZonePolygon,
   markZoneLanesOutdated,
+  analyzeLaneCoverage,
+  buildCoverageRerunRoute,
   buildMissionBundle,
+  analyzeDiverDives,
+  buildObjectNavigationPath,
+  buildRouteProfile,
+  buildTrackProfile,
+  computeDiveStats,
+  diveReportToCsv,
+  profileToCsv,
+  resolveAscentRateLimit,
+  buildTrackPlaybackIndex,
+  buildTrackPlaybackSegments,
   normalizeIncomingBeaconBindingKey,
+  normalizeAlarmRules,
   normalizeDivers,
+  appendJournalEntries,
+  createJournalEntry,
+  describeConnectionState,
+  describeTrackStatusChange,
+  diffTrackStatuses,
+  exportMissionPackage,
+  importMissionPackage,
+  appendEditHistoryEvents,
+  applyEditHistoryEvent,
+  createEditCommand,
+  EDIT_HISTORY_COMPACTION_EVENTS,
+  EMPTY_EDIT_HISTORY,
+  loadEditHistory,
+  pushEditCommand,
+  redoEditCommand,
+  undoEditCommand,
+  writeEditHistorySnapshot,
+  journalToCsv,
+  loadJournal,
+  mergeJournalEntries,
+  normalizeZoneGeometry,
+  parseReplayFile,
   prepareZoneRegeneration,
   toConvexZonePolygon,
   replaceZoneLanes,
+  sampleAgentsAt,
+  reconcileAlarms,
   trackRecorderReduce,
   useMissionAutosave,
+  useTrackPlayback,
+  type ActiveAlarm,
+  type AlarmLogEntry,
+  type AlarmRule,
   type DiverUiConfig,
+  type EditableMissionState,
+  type EditCommandKind,
+  type EditHistory,
+  type EditHistoryEvent,
+  type JournalEntry,
+  type JournalPosition,
+  type ProfileSample,
   type LaneFeature,
   type MissionBundle,
   type MissionDocument,
   type MissionUiState,
+  type MissionBasemapSettings,
   type NavigationSourceId,
   type SegmentLengthsMode,
   type RealtimeUiConnectionState,
+  type RouteFollowingAssignment,
+  type RouteGuidance,
+  type RouteProgress,
   type TelemetryConnectionState,
   type TelemetryFix,
+  type TelemetryProvider,
+  type TelemetryReplaySchemaId,
+  type TrackPlaybackSample,
   type TrackRecorderState,
+  type TrackRecorderStatus,
+  type ZoneCoverageReport,
   type EquipmentLogger,
   type DraftLoadMode,
 } from '@/features/mission';
@@ -85,13 +161,19 @@ import {
   createDefaultAppSettings,
   mergeDefaultsWithMissionUi,
   normalizeAppSettings,
+  normalizeMissionBasemap,
+  resolveActiveLocalTileSource,
   type AppSettingsV1,
   type AppUiDefaults,
+  type BasemapSettings,
 } from '@/features/settings';
 import {
+  buildMissionReportHtml,
+  downloadBlob,
   joinPath as joinExportPath,
   markersToCsv,
   markersToGpx,
+  renderMissionSnapshotSvg,
   routesToCsv,
   routesToGpx,
   routesToKml,
@@ -100,18 +182,57 @@ import {
   tracksToGpx,
   tracksToKml,
   type ExportRequest,
+  type MissionReportImage,
 } from '@/features/export';
+import { mergeImportIntoBundle, type ImportConflictStrategy, type ImportResult } from '@/features/import';
 import { platform } from '@/platform';
+import { MISSIONS_DIR_SETTINGS_KEY } from '@/features/mission/model/constants';
 import { toast } from '@/hooks/use-toast';
 import { useThrottledValue } from '@/hooks/useThrottledValue';
 import { arrayBufferToBase64, base64ToBlob, base64ToUint8Array } from '@/features/map/rasterOverlays/base64';
+import type { TileRegion } from '@/features/map/offlineTiles/tileCache';
 import { assertBoundsWithinEpsg4326, isBoundsWithinEpsg4326 } from '@/features/map/rasterOverlays/bounds';
 import { parseGeoTiffMetadata, parseTiffCoreMetadata } from '@/features/map/rasterOverlays/parseGeoTiff';
-import { convertUtmBoundsToEpsg4326, convertWebMercatorBoundsToEpsg4326 } from '@/features/map/rasterOverlays/projection';
-import { computeBoundsFromTfw, parseTfw } from '@/features/map/rasterOverlays/parseTfw';
+import {
+  convertCrsBoundsToEpsg4326,
+  convertUtmBoundsToEpsg4326,
+  convertWebMercatorBoundsToEpsg4326,
+} from '@/features/map/rasterOverlays/projection';
+import { parseCrsDefinition, resolveEpsgDefinition } from '@/features/geo/crsRegistry';
+import { computeBoundsFromTfw, formatTfw, parseTfw } from '@/features/map/rasterOverlays/parseTfw';
+import {
+  applyRasterGeoreference,
+  computeGeoreferencedBounds,
+  computeTfwFromControlPoints,
+  fitRasterGeoreference,
+  normalizeRasterGeoreference,
+  toRasterControlPoints,
+  type RasterGeoreference,
+  type RasterGeoreferenceFit,
+  type RasterGeoreferenceOrder,
+} from '@/features/map/rasterOverlays/georeference';
 import { moveRasterOverlayByDelta } from '@/features/map/rasterOverlays/reorder';
-import { parseDxfToWgs84, type DxfOverlayFeatureCollection } from '@/features/map/dxfOverlay/parseDxf';
+import {
+  parseDxfToWgs84,
+  type CadProjectionOptions,
+  type DxfOverlayFeatureCollection,
+} from '@/features/map/dxfOverlay/parseDxf';
 import { parseDwgToWgs84 } from '@/features/map/dwgOverlay/parseDwg';
+import { parseS57ToWgs84 } from '@/features/map/s57Overlay/parseS57';
+import { trackPointsToDepthPoints } from '@/features/map/bathymetry/depthPoints';
+import {
+  gridDepthPoints,
+  parseBathymetryGrid,
+  sampleBathymetryGrid,
+  serializeBathymetryGrid,
+  type BathymetryGrid,
+} from '@/features/map/bathymetry/grid';
+import { renderBathymetryRgba } from '@/features/map/bathymetry/colorRamp';
+import {
+  depthContoursToGeoJson,
+  generateDepthContours,
+  parseDepthContourGeoJson,
+} from '@/features/map/bathymetry/contours';
 import { resolveHasSelectedAgentTelemetry, resolveSelectedAgentHudData } from '@/features/mission/model/hudSelection';
 import { normalizeLaneAngleDeg } from '@/features/mission/model/laneAngle';
 import type { RwltPrwlaMessage } from '@/features/devices/rwlt-com/protocol';
@@ -121,6 +242,13 @@ import {
   type VectorOverlayCacheSourceMeta,
   type VectorOverlayMapData,
 } from '@/features/map/vectorOverlays/cache';
+import {
+  applyDxfLayerStyles,
+  normalizeDxfLayerSettings,
+  resolveDxfLayerStates,
+  upsertDxfLayerSetting,
+  type DxfOverlayLayerState,
+} from '@/features/map/dxfOverlay/layers';
 import { resolveFlyToZoomFor50mGrid } from '@/components/map/flyToZoom';
 import { clampDiverMarkerSizePx } from '@/features/mission/model/diverMarkerSize';
 
@@ -131,12 +259,15 @@ const WAL_STAGE_DELAY_MS = 250;
 const AUTOSAVE_DELAY_MS = 900;
 const RWLT_BUOY_EARTH_RADIUS_M = 6_371_000;
 const BASE_STATION_AGENT_ID = 'base-station';
+const TRACK_PLAYBACK_TAIL_MS = 2 * 60 * 1000;
+const DEFAULT_LANE_COVERAGE_TOLERANCE_M = 2.5;
 const RWLT_BUOY_OBJECT_ID_PREFIX = 'rwlt-buoy-';
 const DEFAULT_RWLT_BUOY_MARKER_SIZE_PX = 24;
 const DEFAULT_RWLT_BUOY_MARKER_COLOR = '#1d4ed8';
 const OVERLAYS_DIR = 'overlays';
 const OVERLAYS_RASTER_DIR = `${OVERLAYS_DIR}/rasters`;
 const OVERLAYS_VECTOR_DIR = `${OVERLAYS_DIR}/vectors`;
+const OVERLAYS_BATHYMETRY_DIR = `${OVERLAYS_DIR}/bathymetry`;
 const EQUIPMENT_LOGS_DIR = 'logs/equipment';
 const createOverlayId = (): string =>
   typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
@@ -383,12 +514,14 @@ type WorkspaceSnapshot = {
   laneFeatures: LaneFeature[];
   isFollowing: boolean;
   layers: LayersState;
+  basemap: MissionBasemapSettings;
   divers: DiverUiConfig[];
   baseStationNavigationSource: NavigationSourceId | null;
   baseStationTrackColor: string;
   baseStationMarkerSizePx: number;
   rwltBuoys: NonNullable<MissionUiState['rwlt_buoys']>;
   hiddenTrackIds: string[];
+  alarmRules: AlarmRule[];
   baseStationTelemetry: BaseStationTelemetryState | null;
   mapView: MissionUiState['map_view'] | null;
   coordPrecision: number;
@@ -397,11 +530,13 @@ type WorkspaceSnapshot = {
   styles: AppUiDefaults['styles'];
   rasterOverlays: NonNullable<MissionUiState['raster_overlays']>;
   vectorOverlays: NonNullable<MissionUiState['vector_overlays']>;
+  bathymetryLayers: NonNullable<MissionUiState['bathymetry_layers']>;
   leftPanelSectionsCollapsed: LeftPanelSectionsCollapsedState;
   rightPanelSectionsCollapsed: RightPanelSectionsCollapsedState;
   leftPanelWidthPx: number;
   rightPanelWidthPx: number;
   mapPanelsCollapsed: MapPanelsCollapsedState;
+  historyRevision: number;
   isLoaded: boolean;
 };
 
@@ -413,8 +548,83 @@ type MapBounds = {
 };
 
 type RasterOverlayUi = NonNullable<MissionUiState['raster_overlays']>[number];
+type RasterOverlayWarp = {
+  width: number;
+  height: number;
+  meshSize: number;
+  toLatLng: (x: number, y: number) => { lat: number; lon: number };
+};
+
+type RasterGeoreferenceDraft = {
+  overlayId: string;
+  points: GeoreferencePointDraft[];
+  activePointId: string | null;
+  order: RasterGeoreferenceOrder;
+  pickingOnMap: boolean;
+  imageSize: { width: number; height: number } | null;
+};
+
+const createGeoreferencePointId = (): string => `gcp-${Math.random().toString(36).slice(2, 10)}`;
+
+// Keyed by the stored georeference object, so opacity or visibility edits do not refit and redraw the mesh.
+const rasterOverlayWarpCache = new WeakMap<RasterGeoreference, RasterOverlayWarp | null>();
+
+const createRasterGeoreferenceDraft = (
+  overlayId: string,
+  georeference: RasterGeoreference | undefined,
+): RasterGeoreferenceDraft => {
+  const points: GeoreferencePointDraft[] = georeference
+    ? georeference.control_points.map((point) => ({
+        id: createGeoreferencePointId(),
+        pixel: { x: point.pixel_x, y: point.pixel_y },
+        map: { lat: point.lat, lon: point.lon },
+      }))
+    : [{ id: createGeoreferencePointId(), pixel: null, map: null }];
+  return {
+    overlayId,
+    points,
+    activePointId: georeference ? null : points[0].id,
+    order: georeference?.order ?? 1,
+    pickingOnMap: false,
+    imageSize: georeference ? { width: georeference.image_width, height: georeference.image_height } : null,
+  };
+};
+
+const resolveRasterOverlayWarp = (georeference: RasterGeoreference | undefined): RasterOverlayWarp | undefined => {
+  if (!georeference) return undefined;
+  if (!rasterOverlayWarpCache.has(georeference)) {
+    let warp: RasterOverlayWarp | null = null;
+    try {
+      const fit = fitRasterGeoreference(georeference.control_points, georeference.order);
+      warp = {
+        width: georeference.image_width,
+        height: georeference.image_height,
+        meshSize: georeference.order === 1 ? 4 : 16,
+        toLatLng: (x, y) => applyRasterGeoreference(fit, x, y),
+      };
+    } catch {
+      warp = null;
+    }
+    rasterOverlayWarpCache.set(georeference, warp);
+  }
+  return rasterOverlayWarpCache.get(georeference) ?? undefined;
+};
 type VectorOverlayUi = NonNullable<MissionUiState['vector_overlays']>[number];
 const DEFAULT_VECTOR_OVERLAY_COLOR = '#0f766e';
+type BathymetryLayerUi = NonNullable<MissionUiState['bathymetry_layers']>[number];
+type LoadedBathymetryGrid = { file: string; grid: BathymetryGrid; url: string };
+
+/** One pixel per grid cell; the map stretches the image over the grid bounds. */
+const renderBathymetryDataUrl = (grid: BathymetryGrid): string => {
+  if (typeof document === 'undefined') return '';
+  const canvas = document.createElement('canvas');
+  canvas.width = grid.cols;
+  canvas.height = grid.rows;
+  const context = canvas.getContext('2d');
+  if (!context) return '';
+  context.putImageData(new ImageData(renderBathymetryRgba(grid), grid.cols, grid.rows), 0, 0);
+  return canvas.toDataURL('image/png');
+};
 type CreateMissionMode = 'from-draft' | 'empty';
 
 const computeVectorOverlayBounds = (features: DxfOverlayFeatureCollection['features']): MapBounds | null => {
@@ -453,7 +663,7 @@ const resolveVectorOverlayFileEncoding = (
   if (overlay.file_encoding === 'utf8' || overlay.file_encoding === 'base64') {
     return overlay.file_encoding;
   }
-  return overlay.type === 'dwg' ? 'base64' : 'utf8';
+  return overlay.type === 'dxf' || overlay.type === 'contours' ? 'utf8' : 'base64';
 };
 
 const resolveVectorOverlayCacheFilePath = (overlay: Pick<VectorOverlayUi, 'id' | 'file' | 'cache_file'>): string => {
@@ -473,10 +683,21 @@ const toVectorOverlayCacheSourceMeta = (overlay: VectorOverlayUi): VectorOverlay
   file: overlay.file,
   type: overlay.type,
   fileEncoding: resolveVectorOverlayFileEncoding(overlay),
-  utmZone: overlay.utm_zone,
-  utmHemisphere: overlay.utm_hemisphere,
+  ...(overlay.crs ? { crs: overlay.crs } : { utmZone: overlay.utm_zone, utmHemisphere: overlay.utm_hemisphere }),
 });
 
+const resolveVectorOverlayProjection = (
+  overlay: Pick<VectorOverlayUi, 'utm_zone' | 'utm_hemisphere' | 'crs'>,
+): CadProjectionOptions => {
+  if (overlay.crs) {
+    return { crs: parseCrsDefinition(overlay.crs) };
+  }
+  if (!Number.isInteger(overlay.utm_zone) || !overlay.utm_zone || overlay.utm_zone < 1 || overlay.utm_zone > 60) {
+    throw new Error('Для слоя не указана система координат.');
+  }
+  return { zone: overlay.utm_zone, hemisphere: overlay.utm_hemisphere === 'S' ? 'south' : 'north' };
+};
+
 const parseVectorOverlayFromSourceFile = async (
   missionRootPath: string,
   overlay: VectorOverlayUi,
@@ -486,7 +707,25 @@ const parseVectorOverlayFromSourceFile = async (
     throw new Error('Файл слоя не найден.');
   }
 
-  const hemisphere = overlay.utm_hemisphere === 'S' ? 'south' : 'north';
+  if (overlay.type === 'contours') {
+    const parsed = parseDepthContourGeoJson(raw);
+    const bounds = computeVectorOverlayBounds(parsed.features);
+    if (!bounds) {
+      throw new Error('Файл изобат не содержит линий.');
+    }
+    return { ...parsed, bounds };
+  }
+
+  if (overlay.type === 's57') {
+    const parsed = parseS57ToWgs84(base64ToUint8Array(raw));
+    const bounds = computeVectorOverlayBounds(parsed.features);
+    if (!bounds) {
+      throw new Error('В ячейке S-57 не найдена поддерживаемая геометрия.');
+    }
+    return { features: parsed.features, ...(parsed.layers ? { layers: parsed.layers } : {}), bounds };
+  }
+
+  const projection = resolveVectorOverlayProjection(overlay);
   const parsed =
     overlay.type === 'dwg'
       ? await parseDwgToWgs84(
@@ -494,15 +733,15 @@ const parseVectorOverlayFromSourceFile = async (
             const bytes = base64ToUint8Array(raw);
             return toPlainArrayBuffer(bytes);
           })(),
-          { zone: overlay.utm_zone, hemisphere },
+          projection,
         )
-      : parseDxfToWgs84(raw, { zone: overlay.utm_zone, hemisphere });
+      : parseDxfToWgs84(raw, projection);
   const bounds = computeVectorOverlayBounds(parsed.features);
   if (!bounds) {
     throw new Error('В CAD-файле не найдена поддерживаемая геометрия.');
   }
 
-  return { features: parsed.features, bounds };
+  return { features: parsed.features, ...(parsed.layers ? { layers: parsed.layers } : {}), bounds };
 };
 
 const DEFAULT_DIVER_DATA = {
@@ -524,6 +763,8 @@ const DEFAULT_LAYERS: LayersState = {
   diver: true,
 };
 
+const DEFAULT_MISSION_BASEMAP: MissionBasemapSettings = { source: 'default' };
+
 const DEFAULT_MAP_PANELS_COLLAPSED: MapPanelsCollapsedState = {
   top: false,
   left: false,
@@ -549,6 +790,7 @@ const toMissionUiFromDefaults = (defaults: AppUiDefaults): MissionUiState => ({
   hidden_track_ids: [],
   raster_overlays: [],
   vector_overlays: [],
+  bathymetry_layers: [],
   divers: createDefaultDivers(1),
   layers: { ...defaults.layers, basemap: true },
   left_panel_sections: { ...DEFAULT_LEFT_PANEL_SECTIONS_COLLAPSED },
@@ -639,6 +881,45 @@ type DiverTelemetryState = {
   received_at: number;
 };
 
+const waitForAnimationFrame = (): Promise<void> =>
+  new Promise((resolve) => window.requestAnimationFrame(() => resolve()));
+
+// Dialogs keep their dimming overlay mounted while the close animation runs; a screenshot of the
+// map taken before that would show the overlay instead of the map.
+const waitForDialogsToClose = async (timeoutMs = 1000): Promise<void> => {
+  const startedAt = performance.now();
+  while (document.querySelector('[role="dialog"]') && performance.now() - startedAt < timeoutMs) {
+    await waitForAnimationFrame();
+  }
+  await waitForAnimationFrame();
+  await waitForAnimationFrame();
+};
+
+// Local tile packages saved before tiles were served by registered id have none. The package in the
+// application settings was chosen by the user, so it is registered once when the settings load.
+const registerSavedLocalTileSource = async (settings: AppSettingsV1): Promise<AppSettingsV1> => {
+  const local = settings.defaults.basemap.local;
+  if (!local || local.id) return settings;
+  const id = await platform.localTiles.registerSource(local).catch(() => null);
+  if (!id) return settings;
+  const next: AppSettingsV1 = {
+    ...settings,
+    defaults: { ...settings.defaults, basemap: { ...settings.defaults.basemap, local: { ...local, id } } },
+  };
+  await platform.settings.writeJson(APP_SETTINGS_STORAGE_KEY, next).catch(() => undefined);
+  return next;
+};
+
+const playbackSampleToTelemetry = (sample: TrackPlaybackSample): DiverTelemetryState => ({
+  lat: sample.lat,
+  lon: sample.lon,
+  speed: sample.speed,
+  course: sample.course,
+  heading: sample.course,
+  depth: sample.depth,
+  received_at: sample.timeMs,
+});
+
 type ProviderSourceId = 'zima2r' | 'gnss-udp' | 'gnss-com' | 'rwlt-com' | 'simulation';
 type DeviceProviderSourceId = Exclude<ProviderSourceId, 'simulation'>;
 type ElectronLifecycleApi = {
@@ -659,6 +940,15 @@ type EquipmentLoggingTarget = {
   label: string;
 };
 
+type DeviceTelemetryInstance = {
+  instanceId: string;
+  schemaId: DeviceProviderSourceId;
+};
+
+type DeviceTelemetryProviderEntry = DeviceTelemetryInstance & {
+  provider: TelemetryProvider;
+};
+
 type EquipmentLogDownloadItem = {
   id: string;
   label: string;
@@ -723,34 +1013,45 @@ const normalizeGnssTelemetryConfig = (raw: unknown): ElectronGnssTelemetryConfig
   };
 };
 
-const normalizeGnssComTelemetryConfig = (raw: unknown): ElectronGnssComTelemetryConfig | null => {
+const normalizeGnssComTelemetryConfig = (
+  raw: unknown,
+  navigationSourceId: string,
+): ElectronGnssComTelemetryConfig | null => {
   if (!isRecord(raw)) return null;
 
   const comPort = typeof raw.comPort === 'string' ? raw.comPort.trim() : '';
-  const instanceIdRaw = typeof raw.instance_id === 'string' ? raw.instance_id.trim() : '';
   return {
     autoDetectPort: normalizeBoolean(raw.autoDetectPort, true),
     comPort,
     baudRate: normalizePositiveInt(raw.baudRate, 115200, 4_000_000),
-    navigationSourceId: instanceIdRaw || 'gnss-com',
+    navigationSourceId,
   };
 };
 
-const normalizeRwltComTelemetryConfig = (raw: unknown): ElectronRwltComTelemetryConfig | null => {
+const normalizeRwltComTelemetryConfig = (
+  raw: unknown,
+  navigationSourceId: string,
+): ElectronRwltComTelemetryConfig | null => {
   if (!isRecord(raw)) return null;
 
   const comPort = typeof raw.comPort === 'string' ? raw.comPort.trim() : '';
-  const instanceIdRaw = typeof raw.instance_id === 'string' ? raw.instance_id.trim() : '';
   const modeRaw = typeof raw.mode === 'string' ? raw.mode.trim().toLowerCase() : '';
   return {
     autoDetectPort: normalizeBoolean(raw.autoDetectPort, true),
     comPort,
     baudRate: normalizePositiveInt(raw.baudRate, 38400, 4_000_000),
     mode: modeRaw === 'divers' ? 'divers' : 'pinger',
-    navigationSourceId: instanceIdRaw || 'rwlt-com',
+    navigationSourceId,
   };
 };
 
+const isDeviceProviderSourceId = (value: string | null): value is DeviceProviderSourceId =>
+  value === 'zima2r' || value === 'gnss-udp' || value === 'gnss-com' || value === 'rwlt-com';
+
+const isSameDeviceTelemetryInstances = (a: DeviceTelemetryInstance[], b: DeviceTelemetryInstance[]): boolean =>
+  a.length === b.length &&
+  a.every((item, index) => item.instanceId === b[index]?.instanceId && item.schemaId === b[index]?.schemaId);
+
 const normalizeNavigationSourceId = (value: unknown): NavigationSourceId | null => {
   if (typeof value !== 'string' && typeof value !== 'number') return null;
   const normalized = String(value).trim();
@@ -773,6 +1074,7 @@ const normalizeRwltBuoyMarkerColor = (
 };
 
 const getDefaultRwltBuoyName = (buoyId: number): string => `Буй ${buoyId}`;
+const ALARM_EVALUATION_INTERVAL_MS = 1000;
 
 const toRwltBuoyObjectId = (buoyId: number): string => `${RWLT_BUOY_OBJECT_ID_PREFIX}${buoyId}`;
 
@@ -926,6 +1228,7 @@ const MapWorkspace = () => {
     const selectedProfile =
       normalized.profiles.find((profile) => profile.id === normalized.selected_profile_id) ?? normalized.profiles[0] ?? null;
     const instanceOptions: EquipmentNavigationSourceOption[] = [];
+    const telemetryInstances: DeviceTelemetryInstance[] = [];
     const loggingTargets: EquipmentLoggingTarget[] = [];
     const activeProfileName = selectedProfile?.name.trim() || 'Без названия профиля';
     if (selectedProfile) {
@@ -940,6 +1243,9 @@ const MapWorkspace = () => {
           label: instanceLabel,
           schemaId: instance.schema_id,
         });
+        if (isDeviceProviderSourceId(instance.schema_id)) {
+          telemetryInstances.push({ instanceId: instance.id, schemaId: instance.schema_id });
+        }
         if (instance.schema_id !== 'zima2r' && instance.schema_id !== 'gnss-udp' && instance.schema_id !== 'gnss-com') {
           continue;
         }
@@ -953,6 +1259,10 @@ const MapWorkspace = () => {
     }
     setSelectedEquipmentProfileName(selectedProfile?.name ?? 'Не выбрано');
     setSelectedEquipmentNavigationOptions(instanceOptions);
+    // Providers are keyed by this list, so keep its identity while the set of instances is unchanged.
+    setDeviceTelemetryInstances((prev) =>
+      isSameDeviceTelemetryInstances(prev, telemetryInstances) ? prev : telemetryInstances,
+    );
     setEquipmentLoggingTargets(loggingTargets);
     setEquipmentEnabledBySource((prev) => {
       const next: Record<string, boolean> = {};
@@ -964,87 +1274,21 @@ const MapWorkspace = () => {
     });
   }, [deviceSchemas]);
 
-  const readElectronZimaConfig = useCallback(async (): Promise<ElectronZimaTelemetryConfig | null> => {
-    const runtimeRaw = await platform.settings.readJson<unknown>(EQUIPMENT_RUNTIME_STORAGE_KEY);
-    if (isRecord(runtimeRaw)) {
-      const runtimeConfig = normalizeZimaTelemetryConfig(runtimeRaw.zima);
-      if (runtimeConfig) {
-        return runtimeConfig;
+  const readEquipmentRuntimeInstance = useCallback(
+    async (instanceId: string): Promise<unknown> => {
+      const runtimeRaw = await platform.settings.readJson<unknown>(EQUIPMENT_RUNTIME_STORAGE_KEY);
+      if (isRecord(runtimeRaw) && isRecord(runtimeRaw.instances) && isRecord(runtimeRaw.instances[instanceId])) {
+        return runtimeRaw.instances[instanceId];
       }
-    }
-
-    const settingsRaw = await platform.settings.readJson<unknown>(EQUIPMENT_SETTINGS_STORAGE_KEY);
-    const normalizedSettings = normalizeEquipmentSettings(settingsRaw, deviceSchemas);
-    const runtime = buildEquipmentRuntime(normalizedSettings, deviceSchemas);
-    return normalizeZimaTelemetryConfig(runtime.zima);
-  }, [deviceSchemas]);
-  const readElectronGnssConfig = useCallback(async (): Promise<ElectronGnssTelemetryConfig | null> => {
-    const runtimeRaw = await platform.settings.readJson<unknown>(EQUIPMENT_RUNTIME_STORAGE_KEY);
-    if (isRecord(runtimeRaw)) {
-      const runtimeConfig = normalizeGnssTelemetryConfig(runtimeRaw.gnss_udp);
-      if (runtimeConfig) {
-        return runtimeConfig;
-      }
-    }
-
-    const settingsRaw = await platform.settings.readJson<unknown>(EQUIPMENT_SETTINGS_STORAGE_KEY);
-    const normalizedSettings = normalizeEquipmentSettings(settingsRaw, deviceSchemas);
-    const runtime = buildEquipmentRuntime(normalizedSettings, deviceSchemas);
-    return normalizeGnssTelemetryConfig(runtime.gnss_udp);
-  }, [deviceSchemas]);
-  const readElectronGnssComConfig = useCallback(async (): Promise<ElectronGnssComTelemetryConfig | null> => {
-    const runtimeRaw = await platform.settings.readJson<unknown>(EQUIPMENT_RUNTIME_STORAGE_KEY);
-    if (isRecord(runtimeRaw)) {
-      const runtimeConfig = normalizeGnssComTelemetryConfig(runtimeRaw.gnss_com);
-      if (runtimeConfig) {
-        return runtimeConfig;
-      }
-    }
 
-    const settingsRaw = await platform.settings.readJson<unknown>(EQUIPMENT_SETTINGS_STORAGE_KEY);
-    const normalizedSettings = normalizeEquipmentSettings(settingsRaw, deviceSchemas);
-    const runtime = buildEquipmentRuntime(normalizedSettings, deviceSchemas);
-    return normalizeGnssComTelemetryConfig(runtime.gnss_com);
-  }, [deviceSchemas]);
-  const readElectronRwltComConfig = useCallback(async (): Promise<ElectronRwltComTelemetryConfig | null> => {
-    const runtimeRaw = await platform.settings.readJson<unknown>(EQUIPMENT_RUNTIME_STORAGE_KEY);
-    if (isRecord(runtimeRaw)) {
-      const runtimeConfig = normalizeRwltComTelemetryConfig(runtimeRaw.rwlt_com);
-      if (runtimeConfig) {
-        return runtimeConfig;
-      }
-    }
-
-    const settingsRaw = await platform.settings.readJson<unknown>(EQUIPMENT_SETTINGS_STORAGE_KEY);
-    const normalizedSettings = normalizeEquipmentSettings(settingsRaw, deviceSchemas);
-    const runtime = buildEquipmentRuntime(normalizedSettings, deviceSchemas);
-    return normalizeRwltComTelemetryConfig(runtime.rwlt_com);
-  }, [deviceSchemas]);
-
-  const zimaTelemetryProvider = useMemo(
-    () =>
-      createElectronZimaTelemetryProvider({
-        timeoutMs: CONNECTION_TIMEOUT_MS,
-        readConfig: readElectronZimaConfig,
-      }),
-    [readElectronZimaConfig],
-  );
-  const gnssTelemetryProvider = useMemo(
-    () =>
-      createElectronGnssTelemetryProvider({
-        timeoutMs: CONNECTION_TIMEOUT_MS,
-        readConfig: readElectronGnssConfig,
-      }),
-    [readElectronGnssConfig],
-  );
-  const gnssComTelemetryProvider = useMemo(
-    () =>
-      createElectronGnssComTelemetryProvider({
-        timeoutMs: CONNECTION_TIMEOUT_MS,
-        readConfig: readElectronGnssComConfig,
-      }),
-    [readElectronGnssComConfig],
+      const settingsRaw = await platform.settings.readJson<unknown>(EQUIPMENT_SETTINGS_STORAGE_KEY);
+      const normalizedSettings = normalizeEquipmentSettings(settingsRaw, deviceSchemas);
+      const runtime = buildEquipmentRuntime(normalizedSettings, deviceSchemas);
+      return runtime.instances[instanceId] ?? null;
+    },
+    [deviceSchemas],
   );
+
   const simulationTelemetryProvider = useMemo(
     () => createSimulationTelemetryProvider({ timeoutMs: CONNECTION_TIMEOUT_MS }),
     [],
@@ -1062,6 +1306,7 @@ const MapWorkspace = () => {
   const [selectedEquipmentNavigationOptions, setSelectedEquipmentNavigationOptions] = useState<
     EquipmentNavigationSourceOption[]
   >([]);
+  const [deviceTelemetryInstances, setDeviceTelemetryInstances] = useState<DeviceTelemetryInstance[]>([]);
   const [equipmentLoggingTargets, setEquipmentLoggingTargets] = useState<EquipmentLoggingTarget[]>([]);
   const [equipmentLogDownloadItems, setEquipmentLogDownloadItems] = useState<EquipmentLogDownloadItem[]>([]);
   const [simulateConnectionError, setSimulateConnectionError] = useState(false);
@@ -1074,9 +1319,43 @@ const MapWorkspace = () => {
   const [baseStationTrackColor, setBaseStationTrackColor] = useState<string>(DEFAULT_BASE_STATION_TRACK_COLOR);
   const [baseStationMarkerSizePx, setBaseStationMarkerSizePx] = useState<number>(DEFAULT_BASE_STATION_MARKER_SIZE_PX);
   const [hiddenTrackIds, setHiddenTrackIds] = useState<string[]>([]);
+  const [alarmRules, setAlarmRules] = useState<AlarmRule[]>([]);
+  const [activeAlarms, setActiveAlarms] = useState<ActiveAlarm[]>([]);
+  const [showAlarmRules, setShowAlarmRules] = useState(false);
+  const [alarmClockMs, setAlarmClockMs] = useState(() => Date.now());
+  const activeAlarmsRef = useRef<ActiveAlarm[]>([]);
+  const alarmLogFailingRef = useRef(false);
+  const journalWriteFailingRef = useRef(false);
+  const [journalEntries, setJournalEntries] = useState<JournalEntry[]>([]);
+  const [showJournal, setShowJournal] = useState(false);
+  const [showDepthProfile, setShowDepthProfile] = useState(false);
+  const [depthProfileSourceId, setDepthProfileSourceId] = useState<string | null>(null);
+  const [depthProfileCursor, setDepthProfileCursor] = useState<ProfileSample | null>(null);
+  const journalRootPathRef = useRef<string | null>(null);
+  const journalTrackStatusRef = useRef<{ rootPath: string | null; statuses: Record<string, TrackRecorderStatus> }>({
+    rootPath: null,
+    statuses: {},
+  });
+  const journalConnectionStateRef = useRef<Record<string, TelemetryConnectionState>>({});
+  const editStateRef = useRef<EditableMissionState>({ objects: [], laneFeatures: [], outdatedZoneIds: {} });
+  // Events made before the journal of the opened mission is loaded are replayed on top of it.
+  // `compactedSeq` is the seq of the `reset` the journal on disk starts with.
+  const editHistoryRef = useRef<{
+    rootPath: string | null;
+    history: EditHistory;
+    seq: number;
+    compactedSeq: number;
+    loaded: boolean;
+    pending: EditHistoryEvent[];
+  }>({ rootPath: null, history: EMPTY_EDIT_HISTORY, seq: 0, compactedSeq: 0, loaded: true, pending: [] });
+  const editHistoryWriteRef = useRef<Promise<void>>(Promise.resolve());
+  const editHistoryWriteFailingRef = useRef(false);
   const [rasterOverlays, setRasterOverlays] = useState<RasterOverlayUi[]>([]);
   const [rasterOverlayUrls, setRasterOverlayUrls] = useState<Record<string, string>>({});
   const [vectorOverlays, setVectorOverlays] = useState<VectorOverlayUi[]>([]);
+  const [bathymetryLayers, setBathymetryLayers] = useState<BathymetryLayerUi[]>([]);
+  const [bathymetryGridsById, setBathymetryGridsById] = useState<Record<string, LoadedBathymetryGrid>>({});
+  const bathymetryLoadFailedRef = useRef<Set<string>>(new Set());
   const [vectorOverlayDataById, setVectorOverlayDataById] = useState<Record<string, VectorOverlayMapData>>({});
   const [rwltBuoys, setRwltBuoys] = useState<Record<number, RwltBuoyState>>({});
   const [rwltBuoyUiById, setRwltBuoyUiById] = useState<Record<number, RwltBuoyUiConfig>>({});
@@ -1085,9 +1364,11 @@ const MapWorkspace = () => {
   const [objects, setObjects] = useState<MapObject[]>([]);
   const [laneFeatures, setLaneFeatures] = useState<LaneFeature[]>([]);
   const [outdatedZoneIds, setOutdatedZoneIds] = useState<Record<string, true>>({});
+  const [editHistory, setEditHistory] = useState<EditHistory>(EMPTY_EDIT_HISTORY);
+  const [historyRevision, setHistoryRevision] = useState(0);
   const [selectedObjectId, setSelectedObjectId] = useState<string | null>(null);
   const [selectedAgentId, setSelectedAgentId] = useState<string | null>(null);
-  const [lanePickState, setLanePickState] = useState<{ mode: 'none' | 'edge' | 'start'; zoneId: string | null }>({
+  const [lanePickState, setLanePickState] = useState<{ mode: 'none' | 'edge' | 'start' | 'datum'; zoneId: string | null }>({
     mode: 'none',
     zoneId: null,
   });
@@ -1095,10 +1376,29 @@ const MapWorkspace = () => {
   const [createMissionMode, setCreateMissionMode] = useState<CreateMissionMode>('from-draft');
   const [showOpenMission, setShowOpenMission] = useState(false);
   const [showExport, setShowExport] = useState(false);
+  const [showImportData, setShowImportData] = useState(false);
+  const [importBaseBundle, setImportBaseBundle] = useState<MissionBundle | null>(null);
+  const [telemetryReplay, setTelemetryReplay] = useState<{ fileName: string; schemaId: TelemetryReplaySchemaId } | null>(
+    null,
+  );
+  const telemetryReplayInputRef = useRef<HTMLInputElement | null>(null);
+  const [showTrackPlayback, setShowTrackPlayback] = useState(false);
+  const [laneCoverageToleranceM, setLaneCoverageToleranceM] = useState(DEFAULT_LANE_COVERAGE_TOLERANCE_M);
   const [showSettings, setShowSettings] = useState(false);
   const [showOfflineMaps, setShowOfflineMaps] = useState(false);
+  const [showBathymetry, setShowBathymetry] = useState(false);
+  const [tileRegions, setTileRegions] = useState<TileRegion[]>([]);
+  const [showTileRegionFootprints, setShowTileRegionFootprints] = useState(false);
+  const [showPlanningSummary, setShowPlanningSummary] = useState(false);
+  const [showDiveReport, setShowDiveReport] = useState(false);
+  const [routeFollowingByAgentId, setRouteFollowingByAgentId] = useState<Record<string, RouteFollowingAssignment>>(
+    {},
+  );
   const [showClearMeasuresDialog, setShowClearMeasuresDialog] = useState(false);
   const [coordinateBuilderType, setCoordinateBuilderType] = useState<'route' | 'zone' | 'marker' | null>(null);
+  const [georeferenceDraft, setGeoreferenceDraft] = useState<RasterGeoreferenceDraft | null>(null);
+  // Control point whose map position is being typed into the coordinate builder.
+  const [georeferenceCoordinatePointId, setGeoreferenceCoordinatePointId] = useState<string | null>(null);
   const [cursorPosition, setCursorPosition] = useState({ lat: 59.934, lon: 30.335 });
   const [mapScale, setMapScale] = useState('1:--');
   const [mapPanelsCollapsed, setMapPanelsCollapsed] = useState<MapPanelsCollapsedState>(
@@ -1128,6 +1428,8 @@ const MapWorkspace = () => {
     DEFAULT_APP_SETTINGS.defaults.measurements.segment_lengths_mode,
   );
   const [styles, setStyles] = useState<AppUiDefaults['styles']>(DEFAULT_APP_SETTINGS.defaults.styles);
+  const [basemapDefaults, setBasemapDefaults] = useState<BasemapSettings>(DEFAULT_APP_SETTINGS.defaults.basemap);
+  const [missionBasemap, setMissionBasemap] = useState<MissionBasemapSettings>(DEFAULT_MISSION_BASEMAP);
   const [connectionSettings, setConnectionSettings] = useState<AppUiDefaults['connection']>(
     DEFAULT_APP_SETTINGS.defaults.connection,
   );
@@ -1139,19 +1441,10 @@ const MapWorkspace = () => {
   const [shouldAutoStartRecording, setShouldAutoStartRecording] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<TelemetryConnectionState>('timeout');
   const [connectionLostSeconds, setConnectionLostSeconds] = useState(1);
-  const [deviceConnectionStatus, setDeviceConnectionStatus] = useState<Record<DeviceProviderSourceId, TelemetryConnectionState>>({
-    zima2r: 'timeout',
-    'gnss-udp': 'timeout',
-    'gnss-com': 'timeout',
-    'rwlt-com': 'timeout',
-  });
+  // Keyed by telemetry source: the device instance id, or the schema id while a replay drives that schema.
+  const [deviceConnectionStatus, setDeviceConnectionStatus] = useState<Record<string, TelemetryConnectionState>>({});
   const [simulationConnectionStatus, setSimulationConnectionStatus] = useState<TelemetryConnectionState>('timeout');
-  const [deviceConnectionLostSeconds, setDeviceConnectionLostSeconds] = useState<Record<DeviceProviderSourceId, number>>({
-    zima2r: 1,
-    'gnss-udp': 1,
-    'gnss-com': 1,
-    'rwlt-com': 1,
-  });
+  const [deviceConnectionLostSeconds, setDeviceConnectionLostSeconds] = useState<Record<string, number>>({});
   const [recordingState, setRecordingState] = useState<TrackRecorderState>(() =>
     createTrackRecorderState(null, {}, {}),
   );
@@ -1166,27 +1459,15 @@ const MapWorkspace = () => {
   const lastFixAtRef = useRef<number>(Date.now());
   const connectionStateRef = useRef<TelemetryConnectionState>('timeout');
   const primaryNavigationSourceRef = useRef<NavigationSourceId>('simulation');
-  const lastFixAtBySourceRef = useRef<Record<ProviderSourceId, number>>({
-    zima2r: Date.now(),
-    'gnss-udp': Date.now(),
-    'gnss-com': Date.now(),
-    'rwlt-com': Date.now(),
-    simulation: Date.now(),
-  });
-  const hadFixBySourceRef = useRef<Record<ProviderSourceId, boolean>>({
-    zima2r: false,
-    'gnss-udp': false,
-    'gnss-com': false,
-    'rwlt-com': false,
-    simulation: false,
-  });
-  const zimaAzmLocFixRef = useRef<DiverTelemetryState | null>(null);
-  const zimaRemFixByBeaconRef = useRef<Record<string, DiverTelemetryState>>({});
-  const gnssFixRef = useRef<DiverTelemetryState | null>(null);
-  const gnssComFixRef = useRef<DiverTelemetryState | null>(null);
-  const rwltBaseFixRef = useRef<DiverTelemetryState | null>(null);
-  const rwltPingerAgentFixRef = useRef<DiverTelemetryState | null>(null);
-  const rwltDiverFixByIdRef = useRef<Record<string, DiverTelemetryState>>({});
+  // Fix caches below are keyed by telemetry source, like deviceConnectionStatus.
+  const lastFixAtBySourceRef = useRef<Record<string, number>>({});
+  const hadFixBySourceRef = useRef<Record<string, boolean>>({});
+  const zimaAzmLocFixBySourceRef = useRef<Record<string, DiverTelemetryState>>({});
+  const zimaRemFixBySourceRef = useRef<Record<string, Record<string, DiverTelemetryState>>>({});
+  const gnssFixBySourceRef = useRef<Record<string, DiverTelemetryState>>({});
+  const rwltBaseFixBySourceRef = useRef<Record<string, DiverTelemetryState>>({});
+  const rwltPingerAgentFixBySourceRef = useRef<Record<string, DiverTelemetryState>>({});
+  const rwltDiverFixBySourceRef = useRef<Record<string, Record<string, DiverTelemetryState>>>({});
   const rwltBuoyIdModeRef = useRef<RwltIdMode>('unknown');
   const simulationFixRef = useRef<DiverTelemetryState | null>(null);
   const lastRecordedPrimaryFixAtRef = useRef<number>(0);
@@ -1194,7 +1475,6 @@ const MapWorkspace = () => {
   const activeTrackWriterIdsRef = useRef<Set<string>>(new Set());
   const trackWriterPointCountRef = useRef<Record<string, number>>({});
   const equipmentLoggersRef = useRef<Map<string, EquipmentLogger>>(new Map());
-  const equipmentRawUnsubscribersRef = useRef<Array<() => void>>([]);
   const equipmentLoggingSessionSignatureRef = useRef<string | null>(null);
   const missionDiversRef = useRef<DiverUiConfig[]>(createDefaultDivers(1));
   const appSettingsRef = useRef<AppSettingsV1>(DEFAULT_APP_SETTINGS);
@@ -1236,22 +1516,59 @@ const MapWorkspace = () => {
       };
     });
   }, []);
-  const rwltComTelemetryProvider = useMemo(
+  const resolveRwltDiver = useCallback((tId: number) => {
+    const beaconKey = normalizeIncomingBeaconBindingKey(tId);
+    if (!beaconKey) return null;
+    const match = missionDiversRef.current.find(
+      (diver) => normalizeConfiguredBeaconBindingKey(diver.beacon_id ?? diver.id) === beaconKey,
+    );
+    return match ? { uid: match.uid, id: match.id } : null;
+  }, []);
+  const deviceTelemetryProviders = useMemo(
+    () =>
+      new Map<string, DeviceTelemetryProviderEntry>(
+        deviceTelemetryInstances.map(({ instanceId, schemaId }) => {
+          const provider =
+            schemaId === 'zima2r'
+              ? createElectronZimaTelemetryProvider({
+                  instanceId,
+                  timeoutMs: CONNECTION_TIMEOUT_MS,
+                  readConfig: async () => normalizeZimaTelemetryConfig(await readEquipmentRuntimeInstance(instanceId)),
+                })
+              : schemaId === 'gnss-udp'
+                ? createElectronGnssTelemetryProvider({
+                    instanceId,
+                    timeoutMs: CONNECTION_TIMEOUT_MS,
+                    readConfig: async () => normalizeGnssTelemetryConfig(await readEquipmentRuntimeInstance(instanceId)),
+                  })
+                : schemaId === 'gnss-com'
+                  ? createElectronGnssComTelemetryProvider({
+                      instanceId,
+                      timeoutMs: CONNECTION_TIMEOUT_MS,
+                      readConfig: async () =>
+                        normalizeGnssComTelemetryConfig(await readEquipmentRuntimeInstance(instanceId), instanceId),
+                    })
+                  : createElectronRwltComTelemetryProvider({
+                      instanceId,
+                      timeoutMs: CONNECTION_TIMEOUT_MS,
+                      readConfig: async () =>
+                        normalizeRwltComTelemetryConfig(await readEquipmentRuntimeInstance(instanceId), instanceId),
+                      resolveDiver: resolveRwltDiver,
+                      onBuoyUpdate: handleRwltBuoyUpdate,
+                    });
+          return [instanceId, { instanceId, schemaId, provider }] as const;
+        }),
+      ),
+    [deviceTelemetryInstances, handleRwltBuoyUpdate, readEquipmentRuntimeInstance, resolveRwltDiver],
+  );
+  const replayTelemetryProvider = useMemo(
     () =>
-      createElectronRwltComTelemetryProvider({
+      createReplayTelemetryProvider({
         timeoutMs: CONNECTION_TIMEOUT_MS,
-        readConfig: readElectronRwltComConfig,
-        resolveDiver: (tId) => {
-          const beaconKey = normalizeIncomingBeaconBindingKey(tId);
-          if (!beaconKey) return null;
-          const match = missionDiversRef.current.find(
-            (diver) => normalizeConfiguredBeaconBindingKey(diver.beacon_id ?? diver.id) === beaconKey,
-          );
-          return match ? { uid: match.uid, id: match.id } : null;
-        },
+        resolveDiver: resolveRwltDiver,
         onBuoyUpdate: handleRwltBuoyUpdate,
       }),
-    [handleRwltBuoyUpdate, readElectronRwltComConfig],
+    [handleRwltBuoyUpdate, resolveRwltDiver],
   );
   const latestSnapshotRef = useRef<WorkspaceSnapshot>({
     missionRootPath: null,
@@ -1260,19 +1577,23 @@ const MapWorkspace = () => {
     laneFeatures: [],
     isFollowing: false,
     layers: DEFAULT_LAYERS,
+    basemap: DEFAULT_MISSION_BASEMAP,
     divers: createDefaultDivers(1),
     baseStationNavigationSource: null,
     baseStationTrackColor: DEFAULT_BASE_STATION_TRACK_COLOR,
     baseStationMarkerSizePx: DEFAULT_BASE_STATION_MARKER_SIZE_PX,
     rwltBuoys: [],
     hiddenTrackIds: [],
+    alarmRules: [],
     rasterOverlays: [],
     vectorOverlays: [],
+    bathymetryLayers: [],
     leftPanelSectionsCollapsed: DEFAULT_LEFT_PANEL_SECTIONS_COLLAPSED,
     rightPanelSectionsCollapsed: DEFAULT_RIGHT_PANEL_SECTIONS_COLLAPSED,
     leftPanelWidthPx: DEFAULT_LEFT_PANEL_WIDTH_PX,
     rightPanelWidthPx: DEFAULT_RIGHT_PANEL_WIDTH_PX,
     mapPanelsCollapsed: DEFAULT_MAP_PANELS_COLLAPSED,
+    historyRevision: 0,
     baseStationTelemetry: null,
     mapView: null,
     coordPrecision: DEFAULT_APP_SETTINGS.defaults.coordinates.precision,
@@ -1306,18 +1627,126 @@ const MapWorkspace = () => {
     () => filterVisibleTrackSegments(trackSegments, hiddenTrackIdSet),
     [hiddenTrackIdSet, trackSegments],
   );
-  const rasterOverlaysForMap = useMemo(
+
+  // Post-mission playback: markers, HUD and tracks follow the timeline instead of live telemetry.
+  const trackPlaybackIndex = useMemo(
     () =>
-      rasterOverlays.map((overlay) => ({
-        id: overlay.id,
-        name: overlay.name,
-        url: rasterOverlayUrls[overlay.id] ?? '',
-        bounds: overlay.bounds,
-        opacity: overlay.opacity,
-        visible: overlay.visible,
-        zIndex: overlay.z_index,
-      })),
-    [rasterOverlayUrls, rasterOverlays],
+      showTrackPlayback && missionDocument
+        ? buildTrackPlaybackIndex(missionDocument.tracks, throttledTrackPointsByTrackId)
+        : null,
+    [missionDocument, showTrackPlayback, throttledTrackPointsByTrackId],
+  );
+  const trackPlayback = useTrackPlayback({
+    startMs: trackPlaybackIndex?.startMs ?? null,
+    endMs: trackPlaybackIndex?.endMs ?? null,
+  });
+  const trackPlaybackTimeMs = trackPlaybackIndex ? trackPlayback.timeMs : null;
+  const trackPlaybackSamples = useMemo(
+    () =>
+      trackPlaybackIndex && trackPlaybackTimeMs !== null ? sampleAgentsAt(trackPlaybackIndex, trackPlaybackTimeMs) : null,
+    [trackPlaybackIndex, trackPlaybackTimeMs],
+  );
+  const displayedTrackSegments = useMemo(() => {
+    if (!trackPlaybackIndex || trackPlaybackTimeMs === null) return visibleTrackSegments;
+    const fallbackColor = styles.track.color;
+    const trackMetaById = new Map(missionDocument?.tracks.map((track) => [track.id, track]) ?? []);
+    const segments = buildTrackPlaybackSegments(trackPlaybackIndex, trackPlaybackTimeMs, TRACK_PLAYBACK_TAIL_MS).map(
+      (segment) => ({ ...segment, color: trackMetaById.get(segment.trackId)?.color ?? fallbackColor }),
+    );
+    return filterVisibleTrackSegments(segments, hiddenTrackIdSet);
+  }, [
+    hiddenTrackIdSet,
+    missionDocument?.tracks,
+    styles.track.color,
+    trackPlaybackIndex,
+    trackPlaybackTimeMs,
+    visibleTrackSegments,
+  ]);
+  const displayedDiverTelemetryById = useMemo<Record<string, DiverTelemetryState>>(() => {
+    if (!trackPlaybackSamples) return diverTelemetryById;
+    const next: Record<string, DiverTelemetryState> = {};
+    missionDivers.forEach((diver) => {
+      const sample = trackPlaybackSamples[diver.uid];
+      const diverKey = diver.id.trim();
+      if (sample && diverKey) {
+        next[diverKey] = playbackSampleToTelemetry(sample);
+      }
+    });
+    return next;
+  }, [diverTelemetryById, missionDivers, trackPlaybackSamples]);
+  const displayedBaseStationTelemetry = useMemo<BaseStationTelemetryState | null>(() => {
+    if (!trackPlaybackSamples) return baseStationTelemetry;
+    const sample = trackPlaybackSamples[BASE_STATION_AGENT_ID];
+    return sample ? { ...playbackSampleToTelemetry(sample), sourceId: null } : null;
+  }, [baseStationTelemetry, trackPlaybackSamples]);
+  const rasterOverlaysForMap = useMemo(() => {
+    const overlays = rasterOverlays.map((overlay) => ({
+      id: overlay.id,
+      name: overlay.name,
+      url: rasterOverlayUrls[overlay.id] ?? '',
+      bounds: overlay.bounds,
+      opacity: overlay.opacity,
+      visible: overlay.visible,
+      zIndex: overlay.z_index,
+      warp: resolveRasterOverlayWarp(overlay.georeference),
+    }));
+    // Depth rasters are drawn over imported imagery.
+    const topZ = overlays.reduce((max, overlay) => Math.max(max, overlay.zIndex), 0);
+    const depthRasters = bathymetryLayers.flatMap((layer, index) => {
+      const loaded = bathymetryGridsById[layer.id];
+      if (!loaded) return [];
+      return [
+        {
+          id: `bathymetry-${layer.id}`,
+          name: layer.name,
+          url: loaded.url,
+          bounds: loaded.grid.bounds,
+          opacity: layer.opacity,
+          visible: layer.visible,
+          zIndex: topZ + 1 + index,
+          warp: undefined,
+        },
+      ];
+    });
+    return [...overlays, ...depthRasters];
+  }, [bathymetryGridsById, bathymetryLayers, rasterOverlayUrls, rasterOverlays]);
+  const visibleBathymetryGrids = useMemo(
+    () =>
+      bathymetryLayers
+        .filter((layer) => layer.visible && bathymetryGridsById[layer.id])
+        .map((layer) => ({ layer, grid: bathymetryGridsById[layer.id].grid })),
+    [bathymetryGridsById, bathymetryLayers],
+  );
+  const depthLegend = useMemo(() => {
+    const top = visibleBathymetryGrids[visibleBathymetryGrids.length - 1];
+    return top ? { name: top.layer.name, minDepth: top.grid.minDepth, maxDepth: top.grid.maxDepth } : null;
+  }, [visibleBathymetryGrids]);
+  const cursorDepthM = useMemo(() => {
+    for (let i = visibleBathymetryGrids.length - 1; i >= 0; i -= 1) {
+      const depth = sampleBathymetryGrid(visibleBathymetryGrids[i].grid, cursorPosition.lat, cursorPosition.lon);
+      if (depth !== null) return depth;
+    }
+    return null;
+  }, [cursorPosition, visibleBathymetryGrids]);
+  const bathymetryDepthRangesById = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(bathymetryGridsById).map(([id, loaded]) => [
+          id,
+          { minDepth: loaded.grid.minDepth, maxDepth: loaded.grid.maxDepth },
+        ]),
+      ),
+    [bathymetryGridsById],
+  );
+  const vectorOverlayLayerStatesById = useMemo(
+    () =>
+      Object.fromEntries(
+        vectorOverlays.map((overlay) => {
+          const data = vectorOverlayDataById[overlay.id];
+          return [overlay.id, data ? resolveDxfLayerStates(data.features, data.layers, overlay.layers) : []];
+        }),
+      ) as Record<string, DxfOverlayLayerState[]>,
+    [vectorOverlayDataById, vectorOverlays],
   );
   const vectorOverlaysForMap = useMemo(
     () =>
@@ -1328,9 +1757,13 @@ const MapWorkspace = () => {
         opacity: overlay.opacity,
         visible: overlay.visible,
         zIndex: overlay.z_index,
-        features: vectorOverlayDataById[overlay.id]?.features ?? [],
+        features: applyDxfLayerStyles(
+          vectorOverlayDataById[overlay.id]?.features ?? [],
+          vectorOverlayLayerStatesById[overlay.id] ?? [],
+          overlay.layers,
+        ),
       })),
-    [vectorOverlayDataById, vectorOverlays],
+    [vectorOverlayDataById, vectorOverlayLayerStatesById, vectorOverlays],
   );
   const rwltBuoysForMap = useMemo(
     () =>
@@ -1420,11 +1853,11 @@ const MapWorkspace = () => {
         selectedAgentId,
         selectedAgentTelemetryKey,
         baseStationAgentId: BASE_STATION_AGENT_ID,
-        baseStationTelemetry,
-        diverTelemetryById,
+        baseStationTelemetry: displayedBaseStationTelemetry,
+        diverTelemetryById: displayedDiverTelemetryById,
         defaultHudData: DEFAULT_DIVER_DATA,
       }),
-    [baseStationTelemetry, diverTelemetryById, selectedAgentId, selectedAgentTelemetryKey],
+    [displayedBaseStationTelemetry, displayedDiverTelemetryById, selectedAgentId, selectedAgentTelemetryKey],
   );
 
   const hasSelectedAgentTelemetry = useMemo(
@@ -1433,10 +1866,10 @@ const MapWorkspace = () => {
         selectedAgentId,
         selectedAgentTelemetryKey,
         baseStationAgentId: BASE_STATION_AGENT_ID,
-        baseStationTelemetry,
-        diverTelemetryById,
+        baseStationTelemetry: displayedBaseStationTelemetry,
+        diverTelemetryById: displayedDiverTelemetryById,
       }),
-    [baseStationTelemetry, diverTelemetryById, selectedAgentId, selectedAgentTelemetryKey],
+    [displayedBaseStationTelemetry, displayedDiverTelemetryById, selectedAgentId, selectedAgentTelemetryKey],
   );
 
   const isFollowing = Boolean(pinnedAgentId);
@@ -1459,6 +1892,12 @@ const MapWorkspace = () => {
     if (!selectedObject || selectedObject.type !== 'zone') return false;
     return Boolean(outdatedZoneIds[selectedObject.id]);
   }, [outdatedZoneIds, selectedObject]);
+  const selectedZoneCoverage = useMemo<ZoneCoverageReport | null | undefined>(() => {
+    if (selectedZoneLaneFeatures.length === 0) return undefined;
+    const tracks = Object.values(throttledTrackPointsByTrackId).filter((points) => points.length > 1);
+    if (tracks.length === 0) return null;
+    return analyzeLaneCoverage(selectedZoneLaneFeatures, tracks, { toleranceM: laneCoverageToleranceM });
+  }, [laneCoverageToleranceM, selectedZoneLaneFeatures, throttledTrackPointsByTrackId]);
   const selectedRwltBuoyHudData = useMemo(() => {
     if (!selectedObject || selectedObject.type !== 'rwlt_buoy') return null;
     if (selectedObject.geometry?.type !== 'marker') return null;
@@ -1472,6 +1911,469 @@ const MapWorkspace = () => {
       depth: Number.isFinite(selectedObject.rwltAntennaDepthM ?? NaN) ? (selectedObject.rwltAntennaDepthM as number) : 0,
     };
   }, [selectedObject]);
+  const defaultPlannedSpeedMps = useMemo(
+    () => (missionDivers.find((diver) => diver.uid === selectedAgentId) ?? missionDivers[0])?.planned_speed_mps,
+    [missionDivers, selectedAgentId],
+  );
+  const agentPositionsByUid = useMemo<Record<string, GeoPoint>>(() => {
+    const next: Record<string, GeoPoint> = {};
+    missionDivers.forEach((diver) => {
+      const telemetry = displayedDiverTelemetryById[diver.id.trim()];
+      if (telemetry) next[diver.uid] = { lat: telemetry.lat, lon: telemetry.lon };
+    });
+    if (displayedBaseStationTelemetry) {
+      next[BASE_STATION_AGENT_ID] = { lat: displayedBaseStationTelemetry.lat, lon: displayedBaseStationTelemetry.lon };
+    }
+    return next;
+  }, [displayedBaseStationTelemetry, displayedDiverTelemetryById, missionDivers]);
+  const routeFollowingPathsByObjectId = useMemo<Record<string, GeoPoint[]>>(() => {
+    const next: Record<string, GeoPoint[]> = {};
+    Object.values(routeFollowingByAgentId).forEach(({ objectId }) => {
+      if (next[objectId]) return;
+      const object = objects.find((item) => item.id === objectId);
+      next[objectId] = object ? buildObjectNavigationPath(object, laneFeatures) : [];
+    });
+    return next;
+  }, [laneFeatures, objects, routeFollowingByAgentId]);
+  const selectedAgentRouteFollowing = selectedAgentId ? routeFollowingByAgentId[selectedAgentId] ?? null : null;
+  const selectedObjectNavigationPath = useMemo(
+    () => (selectedObject ? buildObjectNavigationPath(selectedObject, selectedZoneLaneFeatures) : []),
+    [selectedObject, selectedZoneLaneFeatures],
+  );
+  const selectedNavigationTarget = useMemo(() => {
+    if (selectedAgentRouteFollowing) {
+      return {
+        name: objects.find((object) => object.id === selectedAgentRouteFollowing.objectId)?.name,
+        path: routeFollowingPathsByObjectId[selectedAgentRouteFollowing.objectId] ?? [],
+      };
+    }
+    if (!selectedObject) return null;
+    return { name: selectedObject.name, path: selectedObjectNavigationPath };
+  }, [objects, routeFollowingPathsByObjectId, selectedAgentRouteFollowing, selectedObject, selectedObjectNavigationPath]);
+  const isLiveSelectedAgentTelemetry =
+    hasSelectedAgentTelemetry && trackPlaybackTimeMs === null && !selectedRwltBuoyHudData;
+  const selectedNavigationProgress = useMemo<RouteProgress | null>(() => {
+    if (!selectedNavigationTarget || selectedNavigationTarget.path.length === 0) return null;
+    if (!isLiveSelectedAgentTelemetry) return null;
+    return computeRouteProgress(
+      selectedNavigationTarget.path,
+      { lat: selectedAgentDiverData.lat, lon: selectedAgentDiverData.lon },
+      selectedAgentDiverData.speed,
+      Date.now(),
+      selectedAgentRouteFollowing?.targetIndex,
+    );
+  }, [isLiveSelectedAgentTelemetry, selectedAgentDiverData, selectedAgentRouteFollowing, selectedNavigationTarget]);
+  const selectedRouteGuidance = useMemo<RouteGuidance | null>(() => {
+    if (!selectedAgentRouteFollowing || !selectedNavigationTarget || !isLiveSelectedAgentTelemetry) return null;
+    return computeRouteGuidance(selectedNavigationTarget.path, selectedAgentRouteFollowing, {
+      lat: selectedAgentDiverData.lat,
+      lon: selectedAgentDiverData.lon,
+    });
+  }, [isLiveSelectedAgentTelemetry, selectedAgentDiverData, selectedAgentRouteFollowing, selectedNavigationTarget]);
+  const routeSteeringLines = useMemo(() => {
+    if (trackPlaybackTimeMs !== null) return [];
+    return Object.entries(routeFollowingByAgentId).flatMap(([agentUid, assignment]) => {
+      const position = agentPositionsByUid[agentUid];
+      const path = routeFollowingPathsByObjectId[assignment.objectId] ?? [];
+      if (!position || assignment.completed || path.length === 0) return [];
+      const targetIndex = Math.min(assignment.targetIndex, path.length - 1);
+      return [
+        {
+          agentId: agentUid,
+          from: position,
+          to: path[targetIndex],
+          legStart: targetIndex > 0 ? path[targetIndex - 1] : null,
+        },
+      ];
+    });
+  }, [agentPositionsByUid, routeFollowingByAgentId, routeFollowingPathsByObjectId, trackPlaybackTimeMs]);
+  useEffect(() => {
+    if (trackPlaybackTimeMs !== null) return;
+    let changed = false;
+    const next: Record<string, RouteFollowingAssignment> = {};
+    Object.entries(routeFollowingByAgentId).forEach(([agentUid, assignment]) => {
+      const path = routeFollowingPathsByObjectId[assignment.objectId] ?? [];
+      if (path.length === 0) {
+        // The route was deleted or the zone lost its lanes.
+        changed = true;
+        return;
+      }
+      const position = agentPositionsByUid[agentUid];
+      const advanced = position ? advanceRouteFollowing(path, assignment, position) : assignment;
+      if (advanced !== assignment) {
+        changed = true;
+        if (advanced.completed) {
+          const agentTitle =
+            agentUid === BASE_STATION_AGENT_ID
+              ? 'Базовая станция'
+              : missionDivers.find((diver) => diver.uid === agentUid)?.title ?? agentUid;
+          toast({ title: 'Маршрут пройден', description: `${agentTitle}: последняя точка достигнута.` });
+        }
+      }
+      next[agentUid] = advanced;
+    });
+    if (changed) setRouteFollowingByAgentId(next);
+  }, [agentPositionsByUid, missionDivers, routeFollowingByAgentId, routeFollowingPathsByObjectId, trackPlaybackTimeMs]);
+  const canFollowSelectedObject =
+    Boolean(selectedAgentId) && !selectedRwltBuoyHudData && selectedObjectNavigationPath.length > 0;
+  const handleStartRouteFollowing = useCallback(() => {
+    if (!selectedAgentId || !selectedObject) return;
+    setRouteFollowingByAgentId((prev) => ({
+      ...prev,
+      [selectedAgentId]: createRouteFollowingAssignment(selectedObject.id),
+    }));
+  }, [selectedAgentId, selectedObject]);
+  const handleStopRouteFollowing = useCallback(() => {
+    if (!selectedAgentId) return;
+    setRouteFollowingByAgentId((prev) => {
+      const next = { ...prev };
+      delete next[selectedAgentId];
+      return next;
+    });
+  }, [selectedAgentId]);
+  const hasEnabledAlarmRules = alarmRules.some((rule) => rule.enabled);
+  useEffect(() => {
+    // Stale-fix rules need re-evaluation even when no fixes arrive.
+    if (!hasEnabledAlarmRules) return;
+    const intervalId = window.setInterval(() => setAlarmClockMs(Date.now()), ALARM_EVALUATION_INTERVAL_MS);
+    return () => window.clearInterval(intervalId);
+  }, [hasEnabledAlarmRules]);
+  const writeAlarmLog = useCallback(
+    (entries: AlarmLogEntry[]) => {
+      if (!missionRootPath || entries.length === 0) return;
+      void appendAlarmLog(platform.fileStore, missionRootPath, entries)
+        .then(() => {
+          alarmLogFailingRef.current = false;
+        })
+        .catch((error) => {
+          console.warn('Failed to append alarm log', error);
+          // One toast per failure streak: every evaluation tick would otherwise repeat it.
+          if (alarmLogFailingRef.current) return;
+          alarmLogFailingRef.current = true;
+          toast({
+            variant: 'destructive',
+            title: 'Журнал тревог не записан',
+            description: error instanceof Error ? error.message : 'Не удалось записать события тревог в файл миссии.',
+          });
+        });
+    },
+    [missionRootPath],
+  );
+  useEffect(() => {
+    if (trackPlaybackTimeMs !== null) return;
+    const nowMs = Date.now();
+    const conditions = evaluateAlarmRules(alarmRules, {
+      agents: missionDivers.map((diver) => {
+        const telemetry = diverTelemetryById[diver.id.trim()];
+        return {
+          uid: diver.uid,
+          title: diver.title,
+          fix: telemetry
+            ? { lat: telemetry.lat, lon: telemetry.lon, depth: telemetry.depth, received_at: telemetry.received_at }
+            : null,
+        };
+      }),
+      baseStation: baseStationTelemetry ? { lat: baseStationTelemetry.lat, lon: baseStationTelemetry.lon } : null,
+      zones: objects.flatMap((object) =>
+        object.type === 'zone' && object.geometry?.type === 'zone'
+          ? [{ id: object.id, name: object.name, points: object.geometry.points, holes: object.geometry.holes }]
+          : [],
+      ),
+      buoys: Object.values(rwltBuoys).map((buoy) => ({
+        buoy_id: buoy.buoyId,
+        name: rwltBuoyUiById[buoy.buoyId]?.name?.trim() || getDefaultRwltBuoyName(buoy.buoyId),
+        battery_v: buoy.batteryV,
+      })),
+      nowMs,
+    });
+    const previous = activeAlarmsRef.current;
+    const result = reconcileAlarms(previous, conditions, nowMs);
+    const messagesChanged = result.active.some((alarm, index) => alarm.message !== previous[index]?.message);
+    if (result.log.length === 0 && !messagesChanged) return;
+    activeAlarmsRef.current = result.active;
+    setActiveAlarms(result.active);
+    writeAlarmLog(result.log);
+    result.log
+      .filter((entry) => entry.event === 'raised')
+      .forEach((entry) => {
+        toast({ title: `Тревога: ${entry.subject_name}`, description: entry.message, variant: 'destructive' });
+      });
+  }, [
+    alarmClockMs,
+    alarmRules,
+    baseStationTelemetry,
+    diverTelemetryById,
+    missionDivers,
+    objects,
+    rwltBuoyUiById,
+    rwltBuoys,
+    trackPlaybackTimeMs,
+    writeAlarmLog,
+  ]);
+  const handleAcknowledgeAlarms = useCallback(
+    (keys: string[] | 'all') => {
+      const result = acknowledgeAlarms(activeAlarmsRef.current, keys, Date.now());
+      if (result.log.length === 0) return;
+      activeAlarmsRef.current = result.active;
+      setActiveAlarms(result.active);
+      writeAlarmLog(result.log);
+    },
+    [writeAlarmLog],
+  );
+  const recordJournalEntries = useCallback((entries: JournalEntry[]) => {
+    if (entries.length === 0) return;
+    setJournalEntries((prev) => mergeJournalEntries(prev, entries));
+    const rootPath = journalRootPathRef.current;
+    if (!rootPath) return;
+    void appendJournalEntries(platform.fileStore, rootPath, entries)
+      .then(() => {
+        journalWriteFailingRef.current = false;
+      })
+      .catch((error) => {
+        console.warn('Failed to append mission journal', error);
+        // One toast per failure streak, as for the alarm log.
+        if (journalWriteFailingRef.current) return;
+        journalWriteFailingRef.current = true;
+        toast({
+          variant: 'destructive',
+          title: 'Журнал миссии не записан',
+          description: error instanceof Error ? error.message : 'Не удалось записать события журнала в файл миссии.',
+        });
+      });
+  }, []);
+  useEffect(() => {
+    journalRootPathRef.current = missionRootPath;
+    setJournalEntries([]);
+    if (!missionRootPath) return;
+    let cancelled = false;
+    void loadJournal(platform.fileStore, missionRootPath)
+      .then((entries) => {
+        if (!cancelled) setJournalEntries((prev) => mergeJournalEntries(entries, prev));
+      })
+      .catch((error) => {
+        console.warn('Failed to load mission journal', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [missionRootPath]);
+
+  useEffect(() => {
+    editStateRef.current = { objects, laneFeatures, outdatedZoneIds };
+  }, [laneFeatures, objects, outdatedZoneIds]);
+
+  // Journal writes are chained so that appends never overtake the compaction done on load.
+  const queueEditHistoryWrite = useCallback((write: () => Promise<void>) => {
+    editHistoryWriteRef.current = editHistoryWriteRef.current
+      .then(write)
+      .then(() => {
+        editHistoryWriteFailingRef.current = false;
+      })
+      .catch((error) => {
+        console.warn('Failed to write mission edit history', error);
+        // One toast per failure streak, as for the alarm log.
+        if (editHistoryWriteFailingRef.current) return;
+        editHistoryWriteFailingRef.current = true;
+        toast({
+          variant: 'destructive',
+          title: 'История правок не записана',
+          description: error instanceof Error ? error.message : 'Не удалось записать историю отмены в файл миссии.',
+        });
+      });
+  }, []);
+
+  const recordEditHistoryEvent = useCallback(
+    (createEvent: (seq: number) => EditHistoryEvent) => {
+      const entry = editHistoryRef.current;
+      const event = createEvent(entry.seq + 1);
+      entry.seq = event.seq;
+      entry.history = applyEditHistoryEvent(entry.history, event);
+      if (!entry.loaded) entry.pending.push(event);
+      setEditHistory(entry.history);
+      setHistoryRevision(event.seq);
+      const rootPath = entry.rootPath;
+      if (!rootPath) return;
+      queueEditHistoryWrite(() => appendEditHistoryEvents(platform.fileStore, rootPath, [event]));
+    },
+    [queueEditHistoryWrite],
+  );
+
+  const loadMissionEditHistory = useCallback(
+    (rootPath: string, revision: unknown) => {
+      const savedRevision = typeof revision === 'number' && Number.isInteger(revision) && revision >= 0 ? revision : null;
+      const entry = {
+        rootPath,
+        history: EMPTY_EDIT_HISTORY,
+        seq: savedRevision ?? 0,
+        compactedSeq: savedRevision ?? 0,
+        loaded: false,
+        pending: [] as EditHistoryEvent[],
+      };
+      editHistoryRef.current = entry;
+      setEditHistory(EMPTY_EDIT_HISTORY);
+      setHistoryRevision(entry.seq);
+      queueEditHistoryWrite(async () => {
+        const loaded = await loadEditHistory(platform.fileStore, rootPath, savedRevision).catch((error) => {
+          console.warn('Failed to load mission edit history', error);
+          return EMPTY_EDIT_HISTORY;
+        });
+        if (editHistoryRef.current !== entry) return;
+        entry.history = entry.pending.reduce((history, event) => applyEditHistoryEvent(history, event), loaded);
+        entry.pending = [];
+        entry.loaded = true;
+        setEditHistory(entry.history);
+      });
+    },
+    [queueEditHistoryWrite],
+  );
+
+  // The journal is otherwise compacted only on load. The `reset` is written at a revision that is in
+  // mission.json already, so a crash right after it still restores the history on the next load.
+  const compactEditHistoryAfterSave = useCallback(
+    (rootPath: string, savedRevision: number) => {
+      const entry = editHistoryRef.current;
+      if (entry.rootPath !== rootPath || !entry.loaded || entry.seq !== savedRevision) return;
+      if (savedRevision - entry.compactedSeq < EDIT_HISTORY_COMPACTION_EVENTS) return;
+      entry.compactedSeq = savedRevision;
+      const history = entry.history;
+      queueEditHistoryWrite(() => writeEditHistorySnapshot(platform.fileStore, rootPath, history, savedRevision));
+    },
+    [queueEditHistoryWrite],
+  );
+
+  const commitEditState = useCallback((next: EditableMissionState) => {
+    const current = editStateRef.current;
+    editStateRef.current = next;
+    if (next.objects !== current.objects) setObjects(next.objects);
+    if (next.laneFeatures !== current.laneFeatures) setLaneFeatures(next.laneFeatures);
+    if (next.outdatedZoneIds !== current.outdatedZoneIds) setOutdatedZoneIds(next.outdatedZoneIds);
+    const nextIds = new Set(next.objects.map((object) => object.id));
+    setSelectedObjectId((prev) =>
+      prev && !nextIds.has(prev) && current.objects.some((object) => object.id === prev) ? null : prev,
+    );
+  }, []);
+
+  /** Applies an edit of objects, lanes or outdated flags and records it as one undoable command. */
+  const applyEdit = useCallback(
+    (kind: EditCommandKind, label: string, next: EditableMissionState, mergeKey?: string) => {
+      const command = createEditCommand(kind, label, editStateRef.current, next, { mergeKey });
+      commitEditState(next);
+      if (!command) return;
+      const pushed = pushEditCommand(editHistoryRef.current.history, command);
+      recordEditHistoryEvent((seq) => ({ seq, op: 'do', command: pushed.command }));
+    },
+    [commitEditState, recordEditHistoryEvent],
+  );
+
+  const handleUndo = useCallback(() => {
+    const { history } = editHistoryRef.current;
+    const command = history.undo[history.undo.length - 1];
+    if (!command) return;
+    commitEditState(undoEditCommand(editStateRef.current, command));
+    recordEditHistoryEvent((seq) => ({ seq, op: 'undo', command_id: command.id }));
+  }, [commitEditState, recordEditHistoryEvent]);
+
+  const handleRedo = useCallback(() => {
+    const { history } = editHistoryRef.current;
+    const command = history.redo[history.redo.length - 1];
+    if (!command) return;
+    commitEditState(redoEditCommand(editStateRef.current, command));
+    recordEditHistoryEvent((seq) => ({ seq, op: 'redo', command_id: command.id }));
+  }, [commitEditState, recordEditHistoryEvent]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target;
+      if (
+        target instanceof HTMLElement &&
+        (target.isContentEditable || target.closest('input, textarea, select, [role="dialog"]'))
+      ) {
+        return;
+      }
+      // Physical key codes, so the shortcuts also work with the Russian layout.
+      if (event.code === 'KeyZ') {
+        event.preventDefault();
+        if (event.shiftKey) handleRedo();
+        else handleUndo();
+      } else if (event.code === 'KeyY' && !event.shiftKey) {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleRedo, handleUndo]);
+
+  const resolveAgentJournalSnapshot = useCallback(
+    (agentUid: string): { name: string; position: JournalPosition | null } | null => {
+      if (agentUid === BASE_STATION_AGENT_ID) {
+        return {
+          name: 'Базовая станция',
+          position: displayedBaseStationTelemetry
+            ? { lat: displayedBaseStationTelemetry.lat, lon: displayedBaseStationTelemetry.lon }
+            : null,
+        };
+      }
+      const diver = missionDivers.find((item) => item.uid === agentUid);
+      if (!diver) return null;
+      const telemetry = displayedDiverTelemetryById[diver.id.trim()];
+      return {
+        name: diver.title,
+        position: telemetry ? { lat: telemetry.lat, lon: telemetry.lon, depth: telemetry.depth } : null,
+      };
+    },
+    [displayedBaseStationTelemetry, displayedDiverTelemetryById, missionDivers],
+  );
+  useEffect(() => {
+    const previous = journalTrackStatusRef.current;
+    journalTrackStatusRef.current = { rootPath: missionRootPath, statuses: trackStatusByAgentId };
+    // Statuses restored together with a mission are not operator actions.
+    if (previous.rootPath !== missionRootPath) return;
+    const at = new Date();
+    recordJournalEntries(
+      diffTrackStatuses(previous.statuses, trackStatusByAgentId).map((change) => {
+        const agent = resolveAgentJournalSnapshot(change.agentId);
+        return createJournalEntry({
+          kind: 'track',
+          text: describeTrackStatusChange(change),
+          at,
+          agent_uid: change.agentId,
+          agent_name: agent?.name ?? null,
+          position: agent?.position ?? null,
+        });
+      }),
+    );
+  }, [missionRootPath, recordJournalEntries, resolveAgentJournalSnapshot, trackStatusByAgentId]);
+  const journalAttachableAgentName = useMemo(() => {
+    if (!selectedAgentId) return null;
+    const agent = resolveAgentJournalSnapshot(selectedAgentId);
+    return agent?.position ? agent.name : null;
+  }, [resolveAgentJournalSnapshot, selectedAgentId]);
+  const handleAddJournalEntry = useCallback(
+    (text: string, attachPosition: boolean) => {
+      const agent = attachPosition && selectedAgentId ? resolveAgentJournalSnapshot(selectedAgentId) : null;
+      recordJournalEntries([
+        createJournalEntry({
+          kind: 'note',
+          text,
+          agent_uid: agent ? selectedAgentId : null,
+          agent_name: agent?.name ?? null,
+          position: agent?.position ?? null,
+        }),
+      ]);
+    },
+    [recordJournalEntries, resolveAgentJournalSnapshot, selectedAgentId],
+  );
+  const handleJournalEntrySelect = useCallback((entry: JournalEntry) => {
+    if (entry.lat === null || entry.lon === null) return;
+    setPinnedAgentId(null);
+    const targetZoom = resolveFlyToZoomFor50mGrid(entry.lat, {
+      zoomSnap: platform.map.zoomSnap(),
+      maxZoom: platform.map.maxZoom(),
+    });
+    setMapView({ center_lat: entry.lat, center_lon: entry.lon, zoom: targetZoom });
+  }, []);
   useEffect(() => {
     if (!selectedAgentId || selectedAgentId === BASE_STATION_AGENT_ID) return;
     const exists = missionDivers.some((diver) => diver.uid === selectedAgentId);
@@ -1487,13 +2389,18 @@ const MapWorkspace = () => {
     }
   }, [mapObjects, selectedObjectId]);
 
-  const navigationSourceOptions = useMemo<EquipmentNavigationSourceOption[]>(
-    () =>
-      isElectronRuntime
-        ? selectedEquipmentNavigationOptions
-        : [{ id: 'simulation', label: 'Simulation', schemaId: 'simulation' }],
-    [isElectronRuntime, selectedEquipmentNavigationOptions],
-  );
+  const navigationSourceOptions = useMemo<EquipmentNavigationSourceOption[]>(() => {
+    const options: EquipmentNavigationSourceOption[] = isElectronRuntime
+      ? selectedEquipmentNavigationOptions
+      : [{ id: 'simulation', label: 'Simulation', schemaId: 'simulation' }];
+    if (!telemetryReplay || options.some((option) => option.schemaId === telemetryReplay.schemaId)) {
+      return options;
+    }
+    return [
+      ...options,
+      { id: telemetryReplay.schemaId, label: `Воспроизведение: ${telemetryReplay.fileName}`, schemaId: telemetryReplay.schemaId },
+    ];
+  }, [isElectronRuntime, selectedEquipmentNavigationOptions, telemetryReplay]);
 
   const navigationSourceSchemaById = useMemo(
     () => new Map(navigationSourceOptions.map((option) => [option.id, option.schemaId] as const)),
@@ -1501,9 +2408,9 @@ const MapWorkspace = () => {
   );
 
   const availableNavigationSources = useMemo<NavigationSourceId[]>(() => {
-    if (!isElectronRuntime) return ['simulation'];
+    if (!isElectronRuntime && !telemetryReplay) return ['simulation'];
     return navigationSourceOptions.map((option) => option.id);
-  }, [isElectronRuntime, navigationSourceOptions]);
+  }, [isElectronRuntime, navigationSourceOptions, telemetryReplay]);
 
   const resolveProviderSource = useCallback(
     (sourceId: NavigationSourceId | null): ProviderSourceId | null => {
@@ -1536,6 +2443,21 @@ const MapWorkspace = () => {
     [availableNavigationSources, navigationSourceOptions],
   );
 
+  /** Key of the fix caches and connection state that serve a navigation source. */
+  const resolveTelemetrySourceKey = useCallback(
+    (sourceId: NavigationSourceId | null): string | null => {
+      const resolvedSource = resolveSourceForCurrentProfile(sourceId);
+      if (!resolvedSource) return null;
+      const providerSource = resolveProviderSource(resolvedSource);
+      if (!providerSource) return null;
+      if (providerSource === 'simulation') return 'simulation';
+      // A replay takes over every instance of its schema.
+      if (telemetryReplay?.schemaId === providerSource) return providerSource;
+      return resolvedSource;
+    },
+    [resolveProviderSource, resolveSourceForCurrentProfile, telemetryReplay],
+  );
+
   const isSourceEnabled = useCallback(
     (sourceId: NavigationSourceId | null) => {
       const resolvedSource = resolveSourceForCurrentProfile(sourceId);
@@ -1543,9 +2465,10 @@ const MapWorkspace = () => {
       const providerSource = resolveProviderSource(resolvedSource);
       if (!providerSource) return false;
       if (providerSource === 'simulation') return simulationEnabled;
+      if (telemetryReplay?.schemaId === providerSource) return true;
       return Boolean(equipmentEnabledBySource[resolvedSource]);
     },
-    [equipmentEnabledBySource, resolveProviderSource, resolveSourceForCurrentProfile, simulationEnabled],
+    [equipmentEnabledBySource, resolveProviderSource, resolveSourceForCurrentProfile, simulationEnabled, telemetryReplay],
   );
 
   const enabledNavigationSources = useMemo<NavigationSourceId[]>(
@@ -1584,12 +2507,15 @@ const MapWorkspace = () => {
   const primaryConnectionUiState: RealtimeUiConnectionState = realtimeVisibility.connectionState;
   const hasEnabledNavigationSource = enabledNavigationSources.length > 0;
   const hasAnyTelemetryObject = Object.keys(diverTelemetryById).length > 0 || baseStationTelemetry !== null;
-  const showTelemetryObjects = hasEnabledNavigationSource && (realtimeVisibility.showTelemetryObjects || hasAnyTelemetryObject);
+  const showTelemetryObjects =
+    trackPlaybackSamples !== null ||
+    (hasEnabledNavigationSource && (realtimeVisibility.showTelemetryObjects || hasAnyTelemetryObject));
 
   const isRecordingControlsEnabled = useMemo(() => {
+    if (telemetryReplay) return true;
     if (!isElectronRuntime) return simulationEnabled;
     return navigationSourceOptions.some((option) => Boolean(equipmentEnabledBySource[option.id]));
-  }, [equipmentEnabledBySource, isElectronRuntime, navigationSourceOptions, simulationEnabled]);
+  }, [equipmentEnabledBySource, isElectronRuntime, navigationSourceOptions, simulationEnabled, telemetryReplay]);
   const equipmentLoggingSessionSignature = useMemo(() => {
     if (!missionRootPath || equipmentLoggingTargets.length === 0) return null;
     const targetsSignature = equipmentLoggingTargets
@@ -1600,9 +2526,6 @@ const MapWorkspace = () => {
   }, [equipmentLoggingTargets, missionRootPath]);
 
   const stopEquipmentLoggingSession = useCallback(async () => {
-    const unsubscribers = equipmentRawUnsubscribersRef.current.splice(0);
-    unsubscribers.forEach((unsubscribe) => unsubscribe());
-
     const activeLoggers = Array.from(equipmentLoggersRef.current.values());
     equipmentLoggersRef.current.clear();
     equipmentLoggingSessionSignatureRef.current = null;
@@ -1611,52 +2534,40 @@ const MapWorkspace = () => {
 
   const startEquipmentLoggingSession = useCallback(
     (rootPath: string, targets: EquipmentLoggingTarget[], signature: string) => {
-      const loggersBySchema = new Map<DeviceProviderSourceId, EquipmentLogger[]>();
       const loggerByInstanceId = new Map<string, EquipmentLogger>();
 
       for (const target of targets) {
         const logger = createEquipmentLogger({
           rootPath,
           deviceInstanceId: target.deviceInstanceId,
+          schemaId: target.schemaId,
           profileName: target.profileName,
           fileStore: platform.fileStore,
         });
-        const schemaLoggers = loggersBySchema.get(target.schemaId) ?? [];
-        schemaLoggers.push(logger);
-        loggersBySchema.set(target.schemaId, schemaLoggers);
         loggerByInstanceId.set(target.deviceInstanceId, logger);
       }
 
-      const unsubscribers: Array<() => void> = [];
-      unsubscribers.push(
-        zimaTelemetryProvider.onRawPacket((packet) => {
-          if (packet.schema_id !== 'zima2r') return;
-          const schemaLoggers = loggersBySchema.get('zima2r') ?? [];
-          schemaLoggers.forEach((logger) => logger.write(packet.raw));
-        }),
-      );
-      unsubscribers.push(
-        gnssTelemetryProvider.onRawPacket((packet) => {
-          if (packet.schema_id !== 'gnss-udp') return;
-          const schemaLoggers = loggersBySchema.get('gnss-udp') ?? [];
-          schemaLoggers.forEach((logger) => logger.write(packet.raw));
-        }),
-      );
-      unsubscribers.push(
-        gnssComTelemetryProvider.onRawPacket((packet) => {
-          if (packet.schema_id !== 'gnss-com') return;
-          const schemaLoggers = loggersBySchema.get('gnss-com') ?? [];
-          schemaLoggers.forEach((logger) => logger.write(packet.raw));
-        }),
-      );
-
-      equipmentRawUnsubscribersRef.current = unsubscribers;
       equipmentLoggersRef.current = loggerByInstanceId;
       equipmentLoggingSessionSignatureRef.current = signature;
     },
-    [gnssComTelemetryProvider, gnssTelemetryProvider, zimaTelemetryProvider],
+    [],
   );
 
+  useEffect(() => {
+    // Raw packets of each instance go to that instance's log while a logging session is active.
+    const unsubscribers = Array.from(deviceTelemetryProviders.values()).map(({ instanceId, provider }) =>
+      provider.onRawPacket((packet) => equipmentLoggersRef.current.get(instanceId)?.write(packet.raw)),
+    );
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [deviceTelemetryProviders]);
+
+
+  const localTileSource = useMemo(
+    () => resolveActiveLocalTileSource(basemapDefaults, missionBasemap),
+    [basemapDefaults, missionBasemap],
+  );
 
   const settingsValue = useMemo<AppUiDefaults>(
     () => ({
@@ -1673,6 +2584,7 @@ const MapWorkspace = () => {
         grid: layers.grid,
         scale_bar: layers.scaleBar,
       },
+      basemap: basemapDefaults,
       coordinates: {
         precision: coordPrecision,
         input_crs: coordinateInputCrs,
@@ -1685,6 +2597,7 @@ const MapWorkspace = () => {
       styles,
     }),
     [
+      basemapDefaults,
       centerOnObjectSelect,
       connectionSettings,
       coordPrecision,
@@ -1738,6 +2651,7 @@ const MapWorkspace = () => {
       laneFeatures,
       isFollowing,
       layers,
+      basemap: missionBasemap,
       divers: missionDivers,
       baseStationNavigationSource,
       baseStationTrackColor,
@@ -1751,6 +2665,7 @@ const MapWorkspace = () => {
         }))
         .sort((a, b) => a.buoy_id - b.buoy_id),
       hiddenTrackIds,
+      alarmRules,
       baseStationTelemetry,
       mapView,
       coordPrecision,
@@ -1759,11 +2674,13 @@ const MapWorkspace = () => {
       styles,
       rasterOverlays,
       vectorOverlays,
+      bathymetryLayers,
       leftPanelSectionsCollapsed,
       rightPanelSectionsCollapsed,
       leftPanelWidthPx,
       rightPanelWidthPx,
       mapPanelsCollapsed,
+      historyRevision,
       isLoaded,
     };
   }, [
@@ -1773,12 +2690,14 @@ const MapWorkspace = () => {
     laneFeatures,
     isFollowing,
     layers,
+    missionBasemap,
     missionDivers,
     baseStationNavigationSource,
     baseStationTrackColor,
     baseStationMarkerSizePx,
     rwltBuoyUiById,
     hiddenTrackIds,
+    alarmRules,
     baseStationTelemetry,
     mapView,
     coordPrecision,
@@ -1787,11 +2706,13 @@ const MapWorkspace = () => {
     styles,
     rasterOverlays,
     vectorOverlays,
+    bathymetryLayers,
     leftPanelSectionsCollapsed,
     rightPanelSectionsCollapsed,
     leftPanelWidthPx,
     rightPanelWidthPx,
     mapPanelsCollapsed,
+    historyRevision,
     isLoaded,
   ]);
 
@@ -2182,6 +3103,47 @@ const MapWorkspace = () => {
     };
   }, [missionRootPath, vectorOverlays]);
 
+  useEffect(() => {
+    const activeIds = new Set(bathymetryLayers.map((layer) => layer.id));
+    if (Object.keys(bathymetryGridsById).some((id) => !activeIds.has(id))) {
+      setBathymetryGridsById((prev) => Object.fromEntries(Object.entries(prev).filter(([id]) => activeIds.has(id))));
+      return;
+    }
+    if (!missionRootPath) return;
+    const pending = bathymetryLayers.filter(
+      (layer) =>
+        bathymetryGridsById[layer.id]?.file !== layer.file &&
+        !bathymetryLoadFailedRef.current.has(`${layer.id}::${layer.file}`),
+    );
+    if (pending.length === 0) return;
+
+    let active = true;
+    void (async () => {
+      const loaded: Record<string, LoadedBathymetryGrid> = {};
+      for (const layer of pending) {
+        try {
+          const raw = await platform.fileStore.readText(`${missionRootPath}/${layer.file}`);
+          if (!raw) {
+            throw new Error('Файл сетки глубин не найден.');
+          }
+          const grid = parseBathymetryGrid(raw);
+          loaded[layer.id] = { file: layer.file, grid, url: renderBathymetryDataUrl(grid) };
+        } catch (error) {
+          bathymetryLoadFailedRef.current.add(`${layer.id}::${layer.file}`);
+          const message = error instanceof Error ? error.message : 'Ошибка загрузки сетки глубин.';
+          toast({ title: `Не удалось загрузить слой: ${layer.name}`, description: message });
+        }
+      }
+      if (active && Object.keys(loaded).length > 0) {
+        setBathymetryGridsById((prev) => ({ ...prev, ...loaded }));
+      }
+    })();
+
+    return () => {
+      active = false;
+    };
+  }, [bathymetryGridsById, bathymetryLayers, missionRootPath]);
+
   const toggleTrackHidden = useCallback((trackId: string) => {
     setHiddenTrackIds((prev) => (prev.includes(trackId) ? prev.filter((id) => id !== trackId) : [...prev, trackId]));
   }, []);
@@ -2205,13 +3167,14 @@ const MapWorkspace = () => {
 
   const importRasterFiles = useCallback(
     async (
-      mode: 'geotiff' | 'tif+tfw',
+      mode: 'geotiff' | 'tif+tfw' | 'gcp',
       filesInput: FileList | File[],
       options?: {
         tfwUnits?: 'degrees' | 'meters';
         metersProjection?: 'web-mercator' | 'utm';
         utmZone?: number;
         utmHemisphere?: 'north' | 'south';
+        crs?: string;
       },
     ) => {
       if (!missionRootPath) {
@@ -2233,6 +3196,7 @@ const MapWorkspace = () => {
         return;
       }
 
+      let lastGcpOverlayId: string | null = null;
       for (const tifFile of tiffFiles) {
         const baseName = tifFile.name.replace(/\.[^/.]+$/, '');
         try {
@@ -2260,13 +3224,15 @@ const MapWorkspace = () => {
             }
             tfwTextForStorage = tfwText;
             const coreMeta = parseTiffCoreMetadata(tifBuffer);
-            const tfwUnits = options?.tfwUnits ?? 'degrees';
+            const tfwUnits = options?.crs ? 'crs' : options?.tfwUnits ?? 'degrees';
             if (tfwUnits === 'degrees' && coreMeta.epsg !== null && coreMeta.epsg !== 4326) {
               throw new Error(`Неподдерживаемая CRS EPSG:${coreMeta.epsg}. Поддерживается только EPSG:4326`);
             }
             const tfw = parseTfw(tfwText);
             const rawBounds = computeBoundsFromTfw(tfw, coreMeta.width, coreMeta.height);
-            if (tfwUnits === 'meters') {
+            if (options?.crs) {
+              bounds = convertCrsBoundsToEpsg4326(rawBounds, parseCrsDefinition(options.crs));
+            } else if (tfwUnits === 'meters') {
               if (options?.metersProjection === 'utm') {
                 const zone = options?.utmZone;
                 if (!Number.isInteger(zone) || !zone) {
@@ -2282,15 +3248,36 @@ const MapWorkspace = () => {
             }
             assertBoundsWithinEpsg4326(bounds, 'TFW');
             source = 'tif+tfw';
+          } else if (mode === 'gcp') {
+            if (!mapBounds) {
+              throw new Error('Карта ещё не готова: дождитесь её загрузки и повторите импорт.');
+            }
+            // Until control points are set the raster is shown in the middle of the current view.
+            const latQuarter = (mapBounds.north - mapBounds.south) / 4;
+            const lonQuarter = (mapBounds.east - mapBounds.west) / 4;
+            bounds = {
+              north: mapBounds.north - latQuarter,
+              south: mapBounds.south + latQuarter,
+              east: mapBounds.east - lonQuarter,
+              west: mapBounds.west + lonQuarter,
+            };
+            source = 'gcp';
           } else {
             const meta = parseGeoTiffMetadata(tifBuffer);
-            bounds = meta.bounds;
-            if (meta.epsg !== 4326) {
-              throw new Error(
-                meta.epsg
-                  ? `Неподдерживаемая CRS EPSG:${meta.epsg}. Поддерживается только EPSG:4326`
-                  : 'В GeoTIFF не найдена CRS. Для MVP поддерживается только EPSG:4326',
-              );
+            if (options?.crs) {
+              bounds = convertCrsBoundsToEpsg4326(meta.bounds, parseCrsDefinition(options.crs));
+            } else if (meta.epsg === 4326) {
+              bounds = meta.bounds;
+            } else if (meta.epsg) {
+              const crs = resolveEpsgDefinition(meta.epsg);
+              if (!crs) {
+                throw new Error(
+                  `EPSG:${meta.epsg} нет в справочнике. Укажите систему координат вручную (proj4 или WKT).`,
+                );
+              }
+              bounds = convertCrsBoundsToEpsg4326(meta.bounds, crs);
+            } else {
+              throw new Error('В GeoTIFF не найдена CRS. Укажите систему координат вручную.');
             }
             assertBoundsWithinEpsg4326(bounds, 'GeoTIFF');
           }
@@ -2325,22 +3312,89 @@ const MapWorkspace = () => {
           });
           await decodePromise;
           toast({ title: `Растр импортирован: ${baseName}` });
+          if (source === 'gcp') lastGcpOverlayId = id;
         } catch (error) {
           const message = error instanceof Error ? error.message : 'Ошибка импорта';
           toast({ title: `Не удалось импортировать ${baseName}`, description: message });
         }
       }
+      if (lastGcpOverlayId) {
+        setGeoreferenceDraft(createRasterGeoreferenceDraft(lastGcpOverlayId, undefined));
+      }
     },
-    [missionRootPath, waitForRasterDecode],
+    [mapBounds, missionRootPath, waitForRasterDecode],
+  );
+
+  /** Writes the source file and its cache next to the mission and appends the overlay on top. */
+  const storeVectorOverlay = useCallback(
+    async (
+      rootPath: string,
+      input: {
+        name: string;
+        type: VectorOverlayUi['type'];
+        fileEncoding: NonNullable<VectorOverlayUi['file_encoding']>;
+        fileExtension: string;
+        fileContent: string;
+        projectionMeta: Pick<VectorOverlayUi, 'utm_zone' | 'utm_hemisphere' | 'crs'>;
+        data: VectorOverlayMapData;
+      },
+    ) => {
+      const id = createOverlayId();
+      const filePath = `${OVERLAYS_VECTOR_DIR}/${id}.${input.fileExtension}`;
+      const cacheFilePath = `${OVERLAYS_VECTOR_DIR}/${id}.vector-cache.json`;
+      await platform.fileStore.writeText(`${rootPath}/${filePath}`, input.fileContent);
+
+      const overlayMeta: VectorOverlayUi = {
+        id,
+        name: input.name,
+        file: filePath,
+        cache_file: cacheFilePath,
+        color: DEFAULT_VECTOR_OVERLAY_COLOR,
+        type: input.type,
+        file_encoding: input.fileEncoding,
+        ...input.projectionMeta,
+        opacity: 1,
+        visible: true,
+        z_index: 1,
+      };
+      const cachePayload = serializeVectorOverlayCache(toVectorOverlayCacheSourceMeta(overlayMeta), input.data);
+      await platform.fileStore.writeText(`${rootPath}/${cacheFilePath}`, cachePayload).catch(() => {
+        // cache write is best effort
+      });
+
+      setVectorOverlays((prev) => {
+        const maxZ = prev.reduce((max, item) => Math.max(max, item.z_index), 0);
+        const nextOverlay: VectorOverlayUi = {
+          ...overlayMeta,
+          z_index: maxZ + 1,
+        };
+        return [
+          ...prev,
+          nextOverlay,
+        ];
+      });
+
+      vectorOverlayCacheRef.current.set(id, {
+        key: `${rootPath}/${filePath}::${cacheFilePath}`,
+        data: input.data,
+      });
+      setVectorOverlayDataById((prev) => ({
+        ...prev,
+        [id]: input.data,
+      }));
+    },
+    [],
   );
 
   const importDxfFiles = useCallback(
     async (
       filesInput: FileList | File[],
-      options: {
-        utmZone: number;
-        utmHemisphere: 'north' | 'south';
-      },
+      options:
+        | {
+            utmZone: number;
+            utmHemisphere: 'north' | 'south';
+          }
+        | { crs: string },
     ) => {
       if (!missionRootPath) {
         toast({ title: 'Импорт недоступен', description: 'Сначала откройте миссию или черновик.' });
@@ -2362,6 +3416,19 @@ const MapWorkspace = () => {
         return;
       }
 
+      const projectionMeta: Pick<VectorOverlayUi, 'utm_zone' | 'utm_hemisphere' | 'crs'> =
+        'crs' in options
+          ? { crs: options.crs }
+          : { utm_zone: options.utmZone, utm_hemisphere: options.utmHemisphere === 'south' ? 'S' : 'N' };
+      let projection: CadProjectionOptions;
+      try {
+        projection = resolveVectorOverlayProjection(projectionMeta);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Ошибка системы координат';
+        toast({ title: 'Импорт недоступен', description: message });
+        return;
+      }
+
       for (const sourceFile of dxfOrDwgFiles) {
         const lower = sourceFile.name.toLowerCase();
         const baseName = sourceFile.name.replace(/\.[^/.]+$/, '');
@@ -2373,29 +3440,20 @@ const MapWorkspace = () => {
 
         try {
           let parsed: DxfOverlayFeatureCollection;
-          let filePath: string;
           let fileContent: string;
           let overlayType: VectorOverlayUi['type'];
           let fileEncoding: NonNullable<VectorOverlayUi['file_encoding']>;
           if (lower.endsWith('.dwg')) {
             const rawBinary = await sourceFile.arrayBuffer();
-            parsed = await parseDwgToWgs84(rawBinary, {
-              zone: options.utmZone,
-              hemisphere: options.utmHemisphere,
-            });
+            parsed = await parseDwgToWgs84(rawBinary, projection);
             overlayType = 'dwg';
             fileEncoding = 'base64';
-            filePath = '';
             fileContent = arrayBufferToBase64(rawBinary);
           } else {
             const rawText = await sourceFile.text();
-            parsed = parseDxfToWgs84(rawText, {
-              zone: options.utmZone,
-              hemisphere: options.utmHemisphere,
-            });
+            parsed = parseDxfToWgs84(rawText, projection);
             overlayType = 'dxf';
             fileEncoding = 'utf8';
-            filePath = '';
             fileContent = rawText;
           }
 
@@ -2404,56 +3462,69 @@ const MapWorkspace = () => {
             throw new Error('В CAD-файле не найдена поддерживаемая геометрия.');
           }
 
-          const id = createOverlayId();
-          filePath = overlayType === 'dwg' ? `${OVERLAYS_VECTOR_DIR}/${id}.dwg.b64` : `${OVERLAYS_VECTOR_DIR}/${id}.dxf`;
-          const cacheFilePath = `${OVERLAYS_VECTOR_DIR}/${id}.vector-cache.json`;
-          await platform.fileStore.writeText(`${missionRootPath}/${filePath}`, fileContent);
-
-          const data: VectorOverlayMapData = {
-            features: parsed.features,
-            bounds,
-          };
-          const overlayMeta: VectorOverlayUi = {
-            id,
+          await storeVectorOverlay(missionRootPath, {
             name: baseName,
-            file: filePath,
-            cache_file: cacheFilePath,
-            color: DEFAULT_VECTOR_OVERLAY_COLOR,
             type: overlayType,
-            file_encoding: fileEncoding,
-            utm_zone: options.utmZone,
-            utm_hemisphere: options.utmHemisphere === 'south' ? 'S' : 'N',
-            opacity: 1,
-            visible: true,
-            z_index: 1,
-          };
-          const cachePayload = serializeVectorOverlayCache(toVectorOverlayCacheSourceMeta(overlayMeta), data);
-          await platform.fileStore.writeText(`${missionRootPath}/${cacheFilePath}`, cachePayload).catch(() => {
-            // cache write is best effort
+            fileEncoding,
+            fileExtension: overlayType === 'dwg' ? 'dwg.b64' : 'dxf',
+            fileContent,
+            projectionMeta,
+            data: { features: parsed.features, ...(parsed.layers ? { layers: parsed.layers } : {}), bounds },
           });
+          progressToast.dismiss();
+          toast({ title: `Слой добавлен: ${baseName}` });
+        } catch (error) {
+          progressToast.dismiss();
+          const message = error instanceof Error ? error.message : 'Ошибка импорта';
+          toast({ title: `Не удалось импортировать ${baseName}`, description: message });
+        }
+      }
+    },
+    [missionRootPath, storeVectorOverlay],
+  );
 
-          setVectorOverlays((prev) => {
-            const maxZ = prev.reduce((max, item) => Math.max(max, item.z_index), 0);
-            const nextOverlay: VectorOverlayUi = {
-              ...overlayMeta,
-              z_index: maxZ + 1,
-            };
-            return [
-              ...prev,
-              nextOverlay,
-            ];
-          });
+  const importEncFiles = useCallback(
+    async (filesInput: FileList | File[]) => {
+      if (!missionRootPath) {
+        toast({ title: 'Импорт недоступен', description: 'Сначала откройте миссию или черновик.' });
+        return;
+      }
 
-          vectorOverlayCacheRef.current.set(id, {
-            key: `${missionRootPath}/${filePath}::${cacheFilePath}`,
-            data,
+      const encFiles = Array.from(filesInput).filter((file) => file.name.toLowerCase().endsWith('.000'));
+      if (encFiles.length === 0) {
+        toast({
+          title: 'Импорт недоступен',
+          description: 'Выберите одну или несколько ячеек S-57 (*.000).',
+        });
+        return;
+      }
+
+      for (const sourceFile of encFiles) {
+        const baseName = sourceFile.name.replace(/\.[^/.]+$/, '');
+        const progressToast = toast({
+          title: `Идёт обработка: ${baseName}`,
+          duration: VECTOR_RENDER_PROGRESS_TOAST_DURATION_MS,
+        });
+
+        try {
+          const rawBinary = await sourceFile.arrayBuffer();
+          const parsed = parseS57ToWgs84(rawBinary);
+          const bounds = computeVectorOverlayBounds(parsed.features);
+          if (!bounds) {
+            throw new Error('В ячейке S-57 не найдена поддерживаемая геометрия.');
+          }
+
+          await storeVectorOverlay(missionRootPath, {
+            name: baseName,
+            type: 's57',
+            fileEncoding: 'base64',
+            fileExtension: '000.b64',
+            fileContent: arrayBufferToBase64(rawBinary),
+            projectionMeta: {},
+            data: { features: parsed.features, ...(parsed.layers ? { layers: parsed.layers } : {}), bounds },
           });
-          setVectorOverlayDataById((prev) => ({
-            ...prev,
-            [id]: data,
-          }));
           progressToast.dismiss();
-          toast({ title: `Слой добавлен: ${baseName}` });
+          toast({ title: `Карта добавлена: ${baseName}` });
         } catch (error) {
           progressToast.dismiss();
           const message = error instanceof Error ? error.message : 'Ошибка импорта';
@@ -2461,7 +3532,7 @@ const MapWorkspace = () => {
         }
       }
     },
-    [missionRootPath],
+    [missionRootPath, storeVectorOverlay],
   );
 
   const toggleRasterOverlayVisible = useCallback((id: string) => {
@@ -2480,55 +3551,322 @@ const MapWorkspace = () => {
     setRasterOverlays((prev) => prev.map((overlay) => (overlay.id === id ? { ...overlay, opacity: nextOpacity } : overlay)));
   }, []);
 
-  const moveRasterOverlay = useCallback((id: string, delta: -1 | 1) => {
-    setRasterOverlays((prev) => moveRasterOverlayByDelta(prev, id, delta));
+  const moveRasterOverlay = useCallback((id: string, delta: -1 | 1) => {
+    setRasterOverlays((prev) => moveRasterOverlayByDelta(prev, id, delta));
+  }, []);
+
+  const deleteRasterOverlay = useCallback(
+    (id: string) => {
+      const target = rasterOverlays.find((overlay) => overlay.id === id);
+      if (!target) return;
+      setRasterOverlays((prev) => prev.filter((overlay) => overlay.id !== id));
+      setGeoreferenceDraft((prev) => (prev?.overlayId === id ? null : prev));
+      rasterOverlayDecodeInFlightRef.current.delete(id);
+      rasterDecodeFailedRef.current.delete(id);
+      rasterDecodeErrorShownRef.current.delete(id);
+      rasterBoundsErrorShownRef.current.delete(id);
+      rasterRenderNotificationPendingRef.current.delete(id);
+      const activeProgressToast = rasterRenderProgressToastRef.current.get(id);
+      if (activeProgressToast) {
+        activeProgressToast.dismiss();
+        rasterRenderProgressToastRef.current.delete(id);
+      }
+      if (missionRootPath) {
+        void platform.fileStore.remove(`${missionRootPath}/${target.file}`).catch(() => {
+          // best effort cleanup
+        });
+        if (typeof target.tfw_file === 'string' && target.tfw_file.trim().length > 0) {
+          void platform.fileStore.remove(`${missionRootPath}/${target.tfw_file}`).catch(() => {
+            // best effort cleanup
+          });
+        }
+      }
+    },
+    [missionRootPath, rasterOverlays],
+  );
+
+  const centerRasterOverlay = useCallback((id: string) => {
+    const target = rasterOverlays.find((overlay) => overlay.id === id);
+    if (!target) return;
+    const centerLat = (target.bounds.north + target.bounds.south) / 2;
+    const centerLon = (target.bounds.east + target.bounds.west) / 2;
+    const targetZoom = resolveFlyToZoomFor50mGrid(centerLat, {
+      zoomSnap: platform.map.zoomSnap(),
+      maxZoom: platform.map.maxZoom(),
+    });
+    setMapView({
+      center_lat: centerLat,
+      center_lon: centerLon,
+      zoom: targetZoom,
+    });
+  }, [rasterOverlays]);
+
+  const openRasterGeoreference = useCallback(
+    (id: string) => {
+      const target = rasterOverlays.find((overlay) => overlay.id === id);
+      if (!target) return;
+      if (!target.visible) {
+        // The preview reuses the decoded map image, which is only produced for visible rasters.
+        setRasterOverlays((prev) => prev.map((overlay) => (overlay.id === id ? { ...overlay, visible: true } : overlay)));
+      }
+      setGeoreferenceDraft(createRasterGeoreferenceDraft(id, target.georeference));
+    },
+    [rasterOverlays],
+  );
+
+  const handleGeoreferencePixelPick = useCallback((pixel: { x: number; y: number }) => {
+    setGeoreferenceDraft((prev) => {
+      if (!prev) return prev;
+      let points = prev.points;
+      let activePointId = prev.activePointId;
+      if (!activePointId) {
+        const created: GeoreferencePointDraft = { id: createGeoreferencePointId(), pixel: null, map: null };
+        points = [...points, created];
+        activePointId = created.id;
+      }
+      points = points.map((point) => (point.id === activePointId ? { ...point, pixel } : point));
+      const active = points.find((point) => point.id === activePointId);
+      return { ...prev, points, activePointId, pickingOnMap: !active?.map };
+    });
+  }, []);
+
+  const assignGeoreferenceMapPosition = useCallback((pointId: string, position: { lat: number; lon: number }) => {
+    setGeoreferenceDraft((prev) => {
+      if (!prev) return prev;
+      const points = prev.points.map((point) => (point.id === pointId ? { ...point, map: position } : point));
+      const last = points[points.length - 1];
+      // Completing the last row starts the next one, so points can be entered in a single pass.
+      if (last.id === pointId && last.pixel) {
+        const created: GeoreferencePointDraft = { id: createGeoreferencePointId(), pixel: null, map: null };
+        return { ...prev, points: [...points, created], activePointId: created.id, pickingOnMap: false };
+      }
+      return { ...prev, points, pickingOnMap: false };
+    });
+  }, []);
+
+  const handleGeoreferenceMapPick = useCallback(
+    (position: { lat: number; lon: number }) => {
+      if (!georeferenceDraft?.activePointId) return;
+      assignGeoreferenceMapPosition(georeferenceDraft.activePointId, position);
+    },
+    [assignGeoreferenceMapPosition, georeferenceDraft],
+  );
+
+  const applyRasterGeoreferenceDraft = useCallback(
+    async (fit: RasterGeoreferenceFit) => {
+      const draft = georeferenceDraft;
+      if (!draft || !draft.imageSize || !missionRootPath) return;
+      const target = rasterOverlays.find((overlay) => overlay.id === draft.overlayId);
+      if (!target) {
+        setGeoreferenceDraft(null);
+        return;
+      }
+      const controlPoints = toRasterControlPoints(draft.points);
+      try {
+        const bounds = computeGeoreferencedBounds(fit, draft.imageSize.width, draft.imageSize.height);
+        assertBoundsWithinEpsg4326(bounds, 'привязки');
+        const tfwFile = target.tfw_file ?? `${OVERLAYS_RASTER_DIR}/${target.id}.tfw`;
+        await platform.fileStore.writeText(
+          `${missionRootPath}/${tfwFile}`,
+          formatTfw(computeTfwFromControlPoints(controlPoints)),
+        );
+        const georeference: RasterGeoreference = {
+          order: draft.order,
+          image_width: draft.imageSize.width,
+          image_height: draft.imageSize.height,
+          control_points: controlPoints,
+        };
+        setRasterOverlays((prev) =>
+          prev.map((overlay) =>
+            overlay.id === target.id ? { ...overlay, source: 'gcp', tfw_file: tfwFile, bounds, georeference } : overlay,
+          ),
+        );
+        setGeoreferenceDraft(null);
+        toast({
+          title: `Привязка применена: ${target.name}`,
+          description: `СКО ${fit.rmse_m.toFixed(2)} м по ${controlPoints.length} точкам`,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Ошибка привязки';
+        toast({ title: `Не удалось применить привязку ${target.name}`, description: message });
+      }
+    },
+    [georeferenceDraft, missionRootPath, rasterOverlays],
+  );
+
+  const georeferencePointsForMap = useMemo(
+    () =>
+      (georeferenceDraft?.points ?? []).flatMap((point, index) =>
+        point.map
+          ? [
+              {
+                id: point.id,
+                label: String(index + 1),
+                lat: point.map.lat,
+                lon: point.map.lon,
+                active: point.id === georeferenceDraft?.activePointId,
+              },
+            ]
+          : [],
+      ),
+    [georeferenceDraft],
+  );
+
+  const tileRegionFootprints = useMemo(
+    () =>
+      showTileRegionFootprints
+        ? tileRegions.map((region) => ({ id: region.id, name: region.name, bbox: region.bbox }))
+        : [],
+    [showTileRegionFootprints, tileRegions],
+  );
+
+  const bathymetryDepthTracks = useMemo(() => {
+    if (!showBathymetry || !missionDocument) return [];
+    const diverTitleByAgentId = new Map(missionDivers.map((diver) => [diver.uid, diver.title] as const));
+    return missionDocument.tracks.flatMap((track, index) => {
+      const points = trackPointsToDepthPoints(trackPointsByTrackId[track.id] ?? []);
+      if (points.length === 0) return [];
+      const agentName =
+        track.agent_id === BASE_STATION_AGENT_ID
+          ? 'Базовая станция'
+          : (track.agent_id && diverTitleByAgentId.get(track.agent_id)) || `Трек ${index + 1}`;
+      return [{ id: track.id, label: `${agentName}, ${track.started_at.slice(0, 16).replace('T', ' ')}`, points }];
+    });
+  }, [missionDivers, missionDocument, showBathymetry, trackPointsByTrackId]);
+
+  const depthProfileSources = useMemo(() => {
+    if (!showDepthProfile) return [];
+    const diverTitleByAgentId = new Map(missionDivers.map((diver) => [diver.uid, diver.title] as const));
+    const tracks = (missionDocument?.tracks ?? []).flatMap((track, index) => {
+      if ((trackPointsByTrackId[track.id] ?? []).length < 2) return [];
+      const agentName =
+        track.agent_id === BASE_STATION_AGENT_ID
+          ? 'Базовая станция'
+          : (track.agent_id && diverTitleByAgentId.get(track.agent_id)) || `Трек ${index + 1}`;
+      return [{ id: `track:${track.id}`, label: `${agentName}, ${track.started_at.slice(0, 16).replace('T', ' ')}` }];
+    });
+    const routes = objects
+      .filter((obj) => obj.type === 'route' && obj.geometry?.type === 'route' && obj.geometry.points.length >= 2)
+      .map((obj) => ({ id: `route:${obj.id}`, label: `Маршрут: ${obj.name}` }));
+    return [...tracks, ...routes];
+  }, [missionDivers, missionDocument, objects, showDepthProfile, trackPointsByTrackId]);
+
+  useEffect(() => {
+    if (!showDepthProfile) return;
+    if (depthProfileSourceId && depthProfileSources.some((source) => source.id === depthProfileSourceId)) return;
+    setDepthProfileSourceId(depthProfileSources[0]?.id ?? null);
+  }, [depthProfileSourceId, depthProfileSources, showDepthProfile]);
+
+  const depthProfileSamples = useMemo(() => {
+    if (!showDepthProfile || !depthProfileSourceId) return [];
+    if (depthProfileSourceId.startsWith('track:')) {
+      return buildTrackProfile(trackPointsByTrackId[depthProfileSourceId.slice('track:'.length)] ?? []);
+    }
+    const routeId = depthProfileSourceId.slice('route:'.length);
+    const route = objects.find((obj) => obj.id === routeId);
+    if (route?.geometry?.type !== 'route') return [];
+    // Planned routes have no recorded depth; it is read from the visible bathymetry, topmost layer first.
+    return buildRouteProfile(route.geometry.points, (lat, lon) => {
+      for (let i = visibleBathymetryGrids.length - 1; i >= 0; i -= 1) {
+        const depth = sampleBathymetryGrid(visibleBathymetryGrids[i].grid, lat, lon);
+        if (depth !== null) return depth;
+      }
+      return null;
+    });
+  }, [depthProfileSourceId, objects, showDepthProfile, trackPointsByTrackId, visibleBathymetryGrids]);
+  const depthProfileStats = useMemo(() => {
+    const trackId = depthProfileSourceId?.startsWith('track:') ? depthProfileSourceId.slice('track:'.length) : null;
+    const agentId = trackId ? missionDocument?.tracks.find((track) => track.id === trackId)?.agent_id : null;
+    const diver = agentId ? missionDivers.find((item) => item.uid === agentId) : undefined;
+    return computeDiveStats(depthProfileSamples, resolveAscentRateLimit(diver));
+  }, [depthProfileSamples, depthProfileSourceId, missionDivers, missionDocument]);
+
+  const closeDepthProfile = useCallback(() => {
+    setShowDepthProfile(false);
+    setDepthProfileCursor(null);
+  }, []);
+
+  const buildBathymetryLayer = useCallback(
+    async (request: BathymetryBuildRequest) => {
+      if (!missionRootPath) {
+        throw new Error('Сначала откройте миссию или черновик.');
+      }
+      const grid = gridDepthPoints(request.points, {
+        method: request.method,
+        cellSizeM: request.cellSizeM,
+        searchRadiusM: request.searchRadiusM,
+      });
+      const contours =
+        request.contourIntervalM !== null ? generateDepthContours(grid, request.contourIntervalM) : [];
+
+      const id = createOverlayId();
+      const file = `${OVERLAYS_BATHYMETRY_DIR}/${id}.grid.json`;
+      await platform.fileStore.writeText(`${missionRootPath}/${file}`, serializeBathymetryGrid(grid));
+      setBathymetryGridsById((prev) => ({ ...prev, [id]: { file, grid, url: renderBathymetryDataUrl(grid) } }));
+      setBathymetryLayers((prev) => [
+        ...prev,
+        {
+          id,
+          name: request.name,
+          file,
+          source: request.source,
+          method: request.method,
+          cell_size_m: request.cellSizeM,
+          opacity: 0.8,
+          visible: true,
+        },
+      ]);
+
+      if (contours.length > 0) {
+        const fileContent = depthContoursToGeoJson(contours);
+        const parsed = parseDepthContourGeoJson(fileContent);
+        const bounds = computeVectorOverlayBounds(parsed.features);
+        if (bounds) {
+          await storeVectorOverlay(missionRootPath, {
+            name: `${request.name} — изобаты`,
+            type: 'contours',
+            fileEncoding: 'utf8',
+            fileExtension: 'contours.geojson',
+            fileContent,
+            projectionMeta: {},
+            data: { ...parsed, bounds },
+          });
+        }
+      }
+
+      toast({
+        title: `Слой батиметрии добавлен: ${request.name}`,
+        description: `${request.points.length} точек, сетка ${grid.cols} × ${grid.rows}, глубины ${grid.minDepth.toFixed(
+          1,
+        )}–${grid.maxDepth.toFixed(1)} м${contours.length > 0 ? `, изобат: ${contours.length}` : ''}`,
+      });
+    },
+    [missionRootPath, storeVectorOverlay],
+  );
+
+  const toggleBathymetryLayerVisible = useCallback((id: string) => {
+    setBathymetryLayers((prev) => prev.map((layer) => (layer.id === id ? { ...layer, visible: !layer.visible } : layer)));
+  }, []);
+
+  const setBathymetryLayerOpacity = useCallback((id: string, opacity: number) => {
+    const nextOpacity = Math.max(0, Math.min(1, opacity));
+    setBathymetryLayers((prev) => prev.map((layer) => (layer.id === id ? { ...layer, opacity: nextOpacity } : layer)));
   }, []);
 
-  const deleteRasterOverlay = useCallback(
+  const deleteBathymetryLayer = useCallback(
     (id: string) => {
-      const target = rasterOverlays.find((overlay) => overlay.id === id);
+      const target = bathymetryLayers.find((layer) => layer.id === id);
       if (!target) return;
-      setRasterOverlays((prev) => prev.filter((overlay) => overlay.id !== id));
-      rasterOverlayDecodeInFlightRef.current.delete(id);
-      rasterDecodeFailedRef.current.delete(id);
-      rasterDecodeErrorShownRef.current.delete(id);
-      rasterBoundsErrorShownRef.current.delete(id);
-      rasterRenderNotificationPendingRef.current.delete(id);
-      const activeProgressToast = rasterRenderProgressToastRef.current.get(id);
-      if (activeProgressToast) {
-        activeProgressToast.dismiss();
-        rasterRenderProgressToastRef.current.delete(id);
-      }
+      setBathymetryLayers((prev) => prev.filter((layer) => layer.id !== id));
       if (missionRootPath) {
         void platform.fileStore.remove(`${missionRootPath}/${target.file}`).catch(() => {
           // best effort cleanup
         });
-        if (typeof target.tfw_file === 'string' && target.tfw_file.trim().length > 0) {
-          void platform.fileStore.remove(`${missionRootPath}/${target.tfw_file}`).catch(() => {
-            // best effort cleanup
-          });
-        }
       }
     },
-    [missionRootPath, rasterOverlays],
+    [bathymetryLayers, missionRootPath],
   );
 
-  const centerRasterOverlay = useCallback((id: string) => {
-    const target = rasterOverlays.find((overlay) => overlay.id === id);
-    if (!target) return;
-    const centerLat = (target.bounds.north + target.bounds.south) / 2;
-    const centerLon = (target.bounds.east + target.bounds.west) / 2;
-    const targetZoom = resolveFlyToZoomFor50mGrid(centerLat, {
-      zoomSnap: platform.map.zoomSnap(),
-      maxZoom: platform.map.maxZoom(),
-    });
-    setMapView({
-      center_lat: centerLat,
-      center_lon: centerLon,
-      zoom: targetZoom,
-    });
-  }, [rasterOverlays]);
-
   const toggleVectorOverlayVisible = useCallback((id: string) => {
     setVectorOverlays((prev) => prev.map((overlay) => (overlay.id === id ? { ...overlay, visible: !overlay.visible } : overlay)));
   }, []);
@@ -2550,6 +3888,36 @@ const MapWorkspace = () => {
     setVectorOverlays((prev) => prev.map((overlay) => (overlay.id === id ? { ...overlay, color } : overlay)));
   }, []);
 
+  const updateVectorOverlayLayer = useCallback(
+    (id: string, layerName: string, updates: { visible?: boolean; color?: string }) => {
+      const current = vectorOverlayLayerStatesById[id]?.find((layer) => layer.name === layerName);
+      if (!current) return;
+      setVectorOverlays((prev) =>
+        prev.map((overlay) =>
+          overlay.id === id ? { ...overlay, layers: upsertDxfLayerSetting(overlay.layers, current, updates) } : overlay,
+        ),
+      );
+    },
+    [vectorOverlayLayerStatesById],
+  );
+
+  const toggleVectorOverlayLayer = useCallback(
+    (id: string, layerName: string) => {
+      const current = vectorOverlayLayerStatesById[id]?.find((layer) => layer.name === layerName);
+      if (!current) return;
+      updateVectorOverlayLayer(id, layerName, { visible: !current.visible });
+    },
+    [updateVectorOverlayLayer, vectorOverlayLayerStatesById],
+  );
+
+  const setVectorOverlayLayerColor = useCallback(
+    (id: string, layerName: string, color: string) => {
+      if (!/^#[0-9a-f]{6}$/i.test(color)) return;
+      updateVectorOverlayLayer(id, layerName, { color });
+    },
+    [updateVectorOverlayLayer],
+  );
+
   const moveVectorOverlay = useCallback((id: string, delta: -1 | 1) => {
     setVectorOverlays((prev) => moveRasterOverlayByDelta(prev, id, delta));
   }, []);
@@ -2682,12 +4050,14 @@ const MapWorkspace = () => {
         laneFeatures: snapshot.laneFeatures,
         followEnabled: snapshot.isFollowing,
         layers: snapshot.layers,
+        basemap: snapshot.basemap,
         divers: snapshot.divers,
         baseStationNavigationSource: snapshot.baseStationNavigationSource,
         baseStationTrackColor: snapshot.baseStationTrackColor,
         baseStationMarkerSizePx: snapshot.baseStationMarkerSizePx,
         rwltBuoys: snapshot.rwltBuoys,
         hiddenTrackIds: snapshot.hiddenTrackIds,
+        alarmRules: snapshot.alarmRules,
         baseStationTelemetry: snapshot.baseStationTelemetry,
         mapView: snapshot.mapView,
         coordPrecision: snapshot.coordPrecision,
@@ -2696,11 +4066,13 @@ const MapWorkspace = () => {
         styles: snapshot.styles,
         rasterOverlays: snapshot.rasterOverlays,
         vectorOverlays: snapshot.vectorOverlays,
+        bathymetryLayers: snapshot.bathymetryLayers,
         leftPanelSectionsCollapsed: snapshot.leftPanelSectionsCollapsed,
         rightPanelSectionsCollapsed: snapshot.rightPanelSectionsCollapsed,
         leftPanelWidthPx: snapshot.leftPanelWidthPx,
         rightPanelWidthPx: snapshot.rightPanelWidthPx,
         mapPanelsCollapsed: snapshot.mapPanelsCollapsed,
+        historyRevision: snapshot.historyRevision,
       });
     },
     [],
@@ -2728,6 +4100,7 @@ const MapWorkspace = () => {
       const bundle = buildMissionBundleFromSnapshot(snapshot, finalizedRecordingState);
       if (!bundle) return;
       await repository.saveMission(bundle);
+      compactEditHistoryAfterSave(snapshot.missionRootPath, snapshot.historyRevision);
 
       if (options?.closeActiveTrack) {
         latestSnapshotRef.current = {
@@ -2736,7 +4109,13 @@ const MapWorkspace = () => {
         };
       }
     },
-    [buildMissionBundleFromSnapshot, cancelPendingAutosave, cancelPendingWalStage, repository],
+    [
+      buildMissionBundleFromSnapshot,
+      cancelPendingAutosave,
+      cancelPendingWalStage,
+      compactEditHistoryAfterSave,
+      repository,
+    ],
   );
 
   const persistMissionBestEffort = useCallback(() => {
@@ -2754,6 +4133,7 @@ const MapWorkspace = () => {
     setObjects(bundleToMapObjects(bundle));
     setLaneFeatures(bundle.routes.features.filter((feature): feature is LaneFeature => feature.properties.kind === 'lane'));
     setOutdatedZoneIds({});
+    loadMissionEditHistory(bundle.rootPath, bundle.mission.ui?.history_revision);
     setMissionName(bundle.mission.name);
     setIsDraft(draftMode);
     const nextDivers = normalizeDivers(bundle.mission.ui?.divers);
@@ -2762,14 +4142,14 @@ const MapWorkspace = () => {
     setHasPrimaryTelemetry(false);
     setHasPrimaryTelemetryHistory(false);
     setDiverTelemetryById({});
-    hadFixBySourceRef.current = { zima2r: false, 'gnss-udp': false, 'gnss-com': false, 'rwlt-com': false, simulation: false };
-    zimaAzmLocFixRef.current = null;
-    zimaRemFixByBeaconRef.current = {};
-    gnssFixRef.current = null;
-    gnssComFixRef.current = null;
-    rwltBaseFixRef.current = null;
-    rwltPingerAgentFixRef.current = null;
-    rwltDiverFixByIdRef.current = {};
+    setRouteFollowingByAgentId({});
+    hadFixBySourceRef.current = {};
+    zimaAzmLocFixBySourceRef.current = {};
+    zimaRemFixBySourceRef.current = {};
+    gnssFixBySourceRef.current = {};
+    rwltBaseFixBySourceRef.current = {};
+    rwltPingerAgentFixBySourceRef.current = {};
+    rwltDiverFixBySourceRef.current = {};
     rwltBuoyIdModeRef.current = 'unknown';
     simulationFixRef.current = null;
     setRwltBuoys({});
@@ -2849,6 +4229,9 @@ const MapWorkspace = () => {
         ? bundle.mission.ui?.hidden_track_ids.filter((id): id is string => typeof id === 'string')
         : [],
     );
+    setAlarmRules(normalizeAlarmRules(bundle.mission.ui?.alarm_rules));
+    activeAlarmsRef.current = [];
+    setActiveAlarms([]);
     const nextRasterOverlays =
       Array.isArray(bundle.mission.ui?.raster_overlays)
         ? bundle.mission.ui.raster_overlays.filter(
@@ -2864,9 +4247,15 @@ const MapWorkspace = () => {
               typeof item?.opacity === 'number' &&
               typeof item?.visible === 'boolean' &&
               typeof item?.z_index === 'number' &&
-              (item?.source === 'geotiff' || item?.source === 'tif+tfw'),
-          )
+              (item?.source === 'geotiff' || item?.source === 'tif+tfw' || item?.source === 'gcp'),
+          ).map((item) => {
+            const { georeference: rawGeoreference, ...rest } = item;
+            const georeference = normalizeRasterGeoreference(rawGeoreference);
+            return georeference ? { ...rest, georeference } : rest;
+          })
         : [];
+    setGeoreferenceDraft(null);
+    setGeoreferenceCoordinatePointId(null);
     for (const { url } of rasterOverlayUrlCacheRef.current.values()) {
       URL.revokeObjectURL(url);
     }
@@ -2913,14 +4302,17 @@ const MapWorkspace = () => {
               typeof item?.file === 'string' &&
               (typeof item?.cache_file === 'undefined' || typeof item?.cache_file === 'string') &&
               (typeof item?.color === 'undefined' || typeof item?.color === 'string') &&
-              (item?.type === 'dxf' || item?.type === 'dwg') &&
+              (item?.type === 'dxf' || item?.type === 'dwg' || item?.type === 's57' || item?.type === 'contours') &&
               (typeof item?.file_encoding === 'undefined' ||
                 item?.file_encoding === 'utf8' ||
                 item?.file_encoding === 'base64') &&
-              Number.isInteger(item?.utm_zone) &&
-              item.utm_zone >= 1 &&
-              item.utm_zone <= 60 &&
-              (item?.utm_hemisphere === 'N' || item?.utm_hemisphere === 'S') &&
+              (item?.type === 's57' ||
+                item?.type === 'contours' ||
+                typeof item?.crs === 'string' ||
+                (Number.isInteger(item?.utm_zone) &&
+                  Number(item.utm_zone) >= 1 &&
+                  Number(item.utm_zone) <= 60 &&
+                  (item?.utm_hemisphere === 'N' || item?.utm_hemisphere === 'S'))) &&
               typeof item?.opacity === 'number' &&
               typeof item?.visible === 'boolean' &&
               typeof item?.z_index === 'number',
@@ -2928,6 +4320,7 @@ const MapWorkspace = () => {
           .map((item) => ({
             ...item,
             cache_file: resolveVectorOverlayCacheFilePath(item),
+            layers: normalizeDxfLayerSettings(item.layers),
           }))
       : [];
     for (const overlay of nextVectorOverlays) {
@@ -2939,6 +4332,23 @@ const MapWorkspace = () => {
     vectorOverlayCacheRef.current.clear();
     vectorOverlayErrorShownRef.current.clear();
     setVectorOverlayDataById({});
+    setBathymetryLayers(
+      Array.isArray(bundle.mission.ui?.bathymetry_layers)
+        ? bundle.mission.ui.bathymetry_layers.filter(
+            (item): item is BathymetryLayerUi =>
+              typeof item?.id === 'string' &&
+              typeof item?.name === 'string' &&
+              typeof item?.file === 'string' &&
+              (item?.source === 'xyz' || item?.source === 'ascii-grid' || item?.source === 'track') &&
+              (item?.method === 'idw' || item?.method === 'nearest') &&
+              typeof item?.cell_size_m === 'number' &&
+              typeof item?.opacity === 'number' &&
+              typeof item?.visible === 'boolean',
+          )
+        : [],
+    );
+    bathymetryLoadFailedRef.current.clear();
+    setBathymetryGridsById({});
     const baseLat = typeof baseStationUi?.lat === 'number' ? baseStationUi.lat : null;
     const baseLon = typeof baseStationUi?.lon === 'number' ? baseStationUi.lon : null;
     const baseHeadingRaw = baseStationUi?.heading_deg;
@@ -2965,13 +4375,14 @@ const MapWorkspace = () => {
     setGridSettings(effective.measurements.grid);
     setSegmentLengthsMode(effective.measurements.segment_lengths_mode);
     setStyles(effective.styles);
+    setMissionBasemap(normalizeMissionBasemap(bundle.mission.ui?.basemap) ?? DEFAULT_MISSION_BASEMAP);
     setMapView(bundle.mission.ui?.map_view ?? null);
     setAutoSaveStatus('saved');
     setSelectedObjectId(null);
     setCenterRequest(null);
     setIsLoaded(true);
     setShouldAutoStartRecording(!draftMode);
-  }, [waitForRasterDecode]);
+  }, [loadMissionEditHistory, waitForRasterDecode]);
 
   const loadDraft = useCallback(
     async (mode: DraftLoadMode) => {
@@ -3006,7 +4417,7 @@ const MapWorkspace = () => {
 
       try {
         const storedSettings = await platform.settings.readJson<unknown>(APP_SETTINGS_STORAGE_KEY);
-        const normalized = normalizeAppSettings(storedSettings);
+        const normalized = await registerSavedLocalTileSource(normalizeAppSettings(storedSettings));
         appSettingsRef.current = normalized;
         setCoordPrecision(normalized.defaults.coordinates.precision);
         setCoordinateInputCrs(normalized.defaults.coordinates.input_crs);
@@ -3014,6 +4425,7 @@ const MapWorkspace = () => {
         setGridSettings(normalized.defaults.measurements.grid);
         setSegmentLengthsMode(normalized.defaults.measurements.segment_lengths_mode);
         setStyles(normalized.defaults.styles);
+        setBasemapDefaults(normalized.defaults.basemap);
         setConnectionSettings(normalized.defaults.connection);
         setCenterOnObjectSelect(normalized.defaults.interactions.center_on_object_select);
         setMapPanelsCollapsed({
@@ -3168,6 +4580,7 @@ const MapWorkspace = () => {
     isFollowing,
     isLoaded,
     layers,
+    missionBasemap,
     missionDocument,
     missionRootPath,
     objects,
@@ -3178,6 +4591,7 @@ const MapWorkspace = () => {
     baseStationMarkerSizePx,
     rwltBuoyUiById,
     hiddenTrackIds,
+    alarmRules,
     baseStationTelemetry,
     trackPointsByTrackId,
     mapView,
@@ -3187,6 +4601,7 @@ const MapWorkspace = () => {
     styles,
     rasterOverlays,
     vectorOverlays,
+    bathymetryLayers,
     leftPanelSectionsCollapsed,
     rightPanelSectionsCollapsed,
     leftPanelWidthPx,
@@ -3219,9 +4634,6 @@ const MapWorkspace = () => {
   const syncDiverTelemetry = useCallback(() => {
     const divers = missionDiversRef.current;
     const nextById: Record<string, DiverTelemetryState> = {};
-    const firstRwltDiverId =
-      divers.find((item) => resolveProviderSource(item.navigation_source) === 'rwlt-com')?.id.trim() ?? '';
-    const hasRwltDiverFix = Object.keys(rwltDiverFixByIdRef.current).length > 0;
 
     divers.forEach((diver) => {
       const source = diver.navigation_source;
@@ -3229,28 +4641,30 @@ const MapWorkspace = () => {
         return;
       }
       const providerSource = resolveProviderSource(source);
-      if (!providerSource) return;
+      const sourceKey = resolveTelemetrySourceKey(source);
+      if (!providerSource || !sourceKey) return;
       const diverKey = diver.id.trim();
       let telemetry: DiverTelemetryState | null = null;
 
-      if (providerSource === 'gnss-udp') {
-        telemetry = gnssFixRef.current;
-      } else if (providerSource === 'gnss-com') {
-        telemetry = gnssComFixRef.current;
+      if (providerSource === 'gnss-udp' || providerSource === 'gnss-com') {
+        telemetry = gnssFixBySourceRef.current[sourceKey] ?? null;
       } else if (providerSource === 'rwlt-com') {
-        telemetry = rwltDiverFixByIdRef.current[diverKey] ?? null;
+        const diverFixById = rwltDiverFixBySourceRef.current[sourceKey] ?? {};
+        telemetry = diverFixById[diverKey] ?? null;
 
-        // RWLT pinger has only one agent; apply fallback only to the first RWLT diver
+        // RWLT pinger has only one agent; apply fallback only to the first diver of this RWLT source
         // and only while no explicit diver fixes have been received.
-        if (!telemetry && !hasRwltDiverFix && diverKey && diverKey === firstRwltDiverId) {
-          telemetry = rwltPingerAgentFixRef.current;
+        const firstRwltDiverId =
+          divers.find((item) => resolveTelemetrySourceKey(item.navigation_source) === sourceKey)?.id.trim() ?? '';
+        if (!telemetry && Object.keys(diverFixById).length === 0 && diverKey && diverKey === firstRwltDiverId) {
+          telemetry = rwltPingerAgentFixBySourceRef.current[sourceKey] ?? null;
         }
       } else if (providerSource === 'simulation') {
         telemetry = simulationFixRef.current;
       } else {
         const beaconKey = normalizeConfiguredBeaconBindingKey(diver.beacon_id ?? diver.id);
         if (beaconKey) {
-          telemetry = zimaRemFixByBeaconRef.current[beaconKey] ?? null;
+          telemetry = zimaRemFixBySourceRef.current[sourceKey]?.[beaconKey] ?? null;
         }
       }
 
@@ -3271,18 +4685,19 @@ const MapWorkspace = () => {
 
     const primarySource = primaryNavigationSourceRef.current;
     const primaryProviderSource = resolveProviderSource(primarySource);
+    const primarySourceKey = resolveTelemetrySourceKey(primarySource) ?? '';
     const primaryFix =
       primaryProviderSource === 'zima2r'
-        ? zimaAzmLocFixRef.current
-        : primaryProviderSource === 'gnss-udp'
-          ? gnssFixRef.current
-          : primaryProviderSource === 'gnss-com'
-            ? gnssComFixRef.current
+        ? zimaAzmLocFixBySourceRef.current[primarySourceKey] ?? null
+        : primaryProviderSource === 'gnss-udp' || primaryProviderSource === 'gnss-com'
+          ? gnssFixBySourceRef.current[primarySourceKey] ?? null
           : primaryProviderSource === 'rwlt-com'
-            ? rwltDiverFixByIdRef.current[missionDiversRef.current[0]?.id.trim() ?? ''] ?? rwltPingerAgentFixRef.current
-          : primaryProviderSource === 'simulation'
-            ? simulationFixRef.current
-            : null;
+            ? rwltDiverFixBySourceRef.current[primarySourceKey]?.[missionDiversRef.current[0]?.id.trim() ?? ''] ??
+              rwltPingerAgentFixBySourceRef.current[primarySourceKey] ??
+              null
+            : primaryProviderSource === 'simulation'
+              ? simulationFixRef.current
+              : null;
 
     if (!primaryFix) {
       setHasPrimaryTelemetry(false);
@@ -3325,17 +4740,17 @@ const MapWorkspace = () => {
         }),
       );
     });
-  }, [isSourceEnabled, resolveProviderSource]);
+  }, [isSourceEnabled, resolveProviderSource, resolveTelemetrySourceKey]);
 
   const resolveTelemetryBySource = useCallback((sourceId: NavigationSourceId | null): DiverTelemetryState | null => {
     const providerSource = resolveProviderSource(sourceId);
-    if (providerSource === 'zima2r') return zimaAzmLocFixRef.current;
-    if (providerSource === 'gnss-udp') return gnssFixRef.current;
-    if (providerSource === 'gnss-com') return gnssComFixRef.current;
-    if (providerSource === 'rwlt-com') return rwltBaseFixRef.current;
+    const sourceKey = resolveTelemetrySourceKey(sourceId) ?? '';
+    if (providerSource === 'zima2r') return zimaAzmLocFixBySourceRef.current[sourceKey] ?? null;
+    if (providerSource === 'gnss-udp' || providerSource === 'gnss-com') return gnssFixBySourceRef.current[sourceKey] ?? null;
+    if (providerSource === 'rwlt-com') return rwltBaseFixBySourceRef.current[sourceKey] ?? null;
     if (providerSource === 'simulation') return simulationFixRef.current;
     return null;
-  }, [resolveProviderSource]);
+  }, [resolveProviderSource, resolveTelemetrySourceKey]);
 
   const syncBaseStationTelemetry = useCallback(() => {
     if (!baseStationNavigationSource || !isSourceEnabled(baseStationNavigationSource)) {
@@ -3398,9 +4813,9 @@ const MapWorkspace = () => {
   }, [baseStationNavigationSource, isSourceEnabled, resolveTelemetryBySource, trackStatusByAgentId]);
 
   const handleTelemetryFix = useCallback(
-    (sourceId: ProviderSourceId, fix: TelemetryFix) => {
-      lastFixAtBySourceRef.current[sourceId] = fix.received_at;
-      hadFixBySourceRef.current[sourceId] = true;
+    (sourceKey: string, schemaId: ProviderSourceId, fix: TelemetryFix) => {
+      lastFixAtBySourceRef.current[sourceKey] = fix.received_at;
+      hadFixBySourceRef.current[sourceKey] = true;
 
       const telemetryState: DiverTelemetryState = {
         lat: fix.lat,
@@ -3417,40 +4832,44 @@ const MapWorkspace = () => {
         received_at: fix.received_at,
       };
 
-      if (sourceId === 'zima2r') {
+      if (schemaId === 'zima2r') {
         if (fix.source === 'AZMLOC') {
-          zimaAzmLocFixRef.current = telemetryState;
+          zimaAzmLocFixBySourceRef.current[sourceKey] = telemetryState;
         } else if (fix.source === 'AZMREM') {
           const beaconKey = normalizeIncomingBeaconBindingKey(fix.beaconId ?? fix.remoteAddress);
           if (beaconKey) {
-            zimaRemFixByBeaconRef.current[beaconKey] = telemetryState;
+            zimaRemFixBySourceRef.current[sourceKey] = {
+              ...zimaRemFixBySourceRef.current[sourceKey],
+              [beaconKey]: telemetryState,
+            };
           }
         }
-      } else if (sourceId === 'gnss-udp') {
-        gnssFixRef.current = telemetryState;
-      } else if (sourceId === 'gnss-com') {
-        gnssComFixRef.current = telemetryState;
-      } else if (sourceId === 'rwlt-com') {
+      } else if (schemaId === 'gnss-udp' || schemaId === 'gnss-com') {
+        gnssFixBySourceRef.current[sourceKey] = telemetryState;
+      } else if (schemaId === 'rwlt-com') {
         if (fix.entity_type === 'base_station') {
-          rwltBaseFixRef.current = telemetryState;
+          rwltBaseFixBySourceRef.current[sourceKey] = telemetryState;
         } else if (fix.entity_type === 'diver' && typeof fix.entity_id === 'string') {
-          rwltPingerAgentFixRef.current = null;
+          delete rwltPingerAgentFixBySourceRef.current[sourceKey];
           const diver = missionDiversRef.current.find((item) => item.uid === fix.entity_id);
           if (diver) {
             const diverKey = diver.id.trim();
             if (diverKey) {
-              rwltDiverFixByIdRef.current[diverKey] = telemetryState;
+              rwltDiverFixBySourceRef.current[sourceKey] = {
+                ...rwltDiverFixBySourceRef.current[sourceKey],
+                [diverKey]: telemetryState,
+              };
             }
           }
         } else {
-          rwltPingerAgentFixRef.current = telemetryState;
-          rwltDiverFixByIdRef.current = {};
+          rwltPingerAgentFixBySourceRef.current[sourceKey] = telemetryState;
+          delete rwltDiverFixBySourceRef.current[sourceKey];
         }
       } else {
         simulationFixRef.current = telemetryState;
       }
 
-      if (resolveProviderSource(primaryNavigationSourceRef.current) === sourceId) {
+      if (resolveTelemetrySourceKey(primaryNavigationSourceRef.current) === sourceKey) {
         lastFixAtRef.current = fix.received_at;
         setConnectionLostSeconds(0);
         setHasPrimaryTelemetryHistory(true);
@@ -3459,7 +4878,7 @@ const MapWorkspace = () => {
       syncDiverTelemetry();
       syncBaseStationTelemetry();
     },
-    [resolveProviderSource, syncBaseStationTelemetry, syncDiverTelemetry],
+    [resolveTelemetrySourceKey, syncBaseStationTelemetry, syncDiverTelemetry],
   );
 
   useEffect(() => {
@@ -3471,42 +4890,53 @@ const MapWorkspace = () => {
   }, [baseStationNavigationSource, syncBaseStationTelemetry]);
 
   const handleDeviceConnectionState = useCallback(
-    (sourceId: ProviderSourceId, nextState: TelemetryConnectionState) => {
-      if (sourceId === 'zima2r' || sourceId === 'gnss-udp' || sourceId === 'gnss-com' || sourceId === 'rwlt-com') {
-        setDeviceConnectionStatus((prev) => ({ ...prev, [sourceId]: nextState }));
-      } else {
+    (sourceKey: string, schemaId: ProviderSourceId, nextState: TelemetryConnectionState) => {
+      const previousState = journalConnectionStateRef.current[sourceKey];
+      journalConnectionStateRef.current[sourceKey] = nextState;
+      // The initial "no data yet" report of a provider is not a change worth logging.
+      if (previousState !== nextState && (previousState !== undefined || nextState === 'ok')) {
+        const sourceTitle =
+          schemaId === 'simulation'
+            ? 'Симуляция'
+            : navigationSourceOptions.find((option) => option.id === sourceKey)?.label ??
+              deviceSchemas.find((schema) => schema.id === schemaId)?.title ??
+              sourceKey;
+        recordJournalEntries([
+          createJournalEntry({ kind: 'connection', text: describeConnectionState(sourceTitle, nextState) }),
+        ]);
+      }
+      if (schemaId === 'simulation') {
         setSimulationConnectionStatus(nextState);
+      } else {
+        setDeviceConnectionStatus((prev) => ({ ...prev, [sourceKey]: nextState }));
       }
-      if (resolveProviderSource(primaryNavigationSourceRef.current) === sourceId) {
+      if (resolveTelemetrySourceKey(primaryNavigationSourceRef.current) === sourceKey) {
         applyPrimaryConnectionState(nextState);
       }
     },
-    [applyPrimaryConnectionState, resolveProviderSource],
+    [applyPrimaryConnectionState, deviceSchemas, navigationSourceOptions, recordJournalEntries, resolveTelemetrySourceKey],
   );
 
   useEffect(() => {
     primaryNavigationSourceRef.current = primaryNavigationSource;
-    const primaryProviderSource = resolveProviderSource(primaryNavigationSource);
-    lastFixAtRef.current = primaryProviderSource ? (lastFixAtBySourceRef.current[primaryProviderSource] ?? Date.now()) : Date.now();
-    setHasPrimaryTelemetryHistory(Boolean(primaryProviderSource && hadFixBySourceRef.current[primaryProviderSource]));
+    const primarySourceKey = resolveTelemetrySourceKey(primaryNavigationSource);
+    lastFixAtRef.current = primarySourceKey ? (lastFixAtBySourceRef.current[primarySourceKey] ?? Date.now()) : Date.now();
+    setHasPrimaryTelemetryHistory(Boolean(primarySourceKey && hadFixBySourceRef.current[primarySourceKey]));
 
     const nextStatus =
-      primaryProviderSource === 'zima2r' ||
-      primaryProviderSource === 'gnss-udp' ||
-      primaryProviderSource === 'gnss-com' ||
-      primaryProviderSource === 'rwlt-com'
-        ? deviceConnectionStatus[primaryProviderSource]
-        : primaryProviderSource === 'simulation'
-          ? simulationConnectionStatus
+      primarySourceKey === 'simulation'
+        ? simulationConnectionStatus
+        : primarySourceKey
+          ? (deviceConnectionStatus[primarySourceKey] ?? 'timeout')
           : 'timeout';
-    applyPrimaryConnectionState(nextStatus ?? 'ok');
+    applyPrimaryConnectionState(nextStatus);
     syncDiverTelemetry();
     syncBaseStationTelemetry();
   }, [
     applyPrimaryConnectionState,
     deviceConnectionStatus,
     primaryNavigationSource,
-    resolveProviderSource,
+    resolveTelemetrySourceKey,
     simulationConnectionStatus,
     syncBaseStationTelemetry,
     syncDiverTelemetry,
@@ -3514,121 +4944,99 @@ const MapWorkspace = () => {
 
   useEffect(() => {
     if (isPrimarySourceEnabled) return;
-    const primaryProviderSource = resolveProviderSource(primaryNavigationSource);
-    if (primaryProviderSource) {
-      hadFixBySourceRef.current[primaryProviderSource] = false;
+    const primarySourceKey = resolveTelemetrySourceKey(primaryNavigationSource);
+    if (primarySourceKey) {
+      hadFixBySourceRef.current[primarySourceKey] = false;
     }
     setHasPrimaryTelemetry(false);
     setHasPrimaryTelemetryHistory(false);
     syncDiverTelemetry();
     syncBaseStationTelemetry();
-  }, [isPrimarySourceEnabled, primaryNavigationSource, resolveProviderSource, syncBaseStationTelemetry, syncDiverTelemetry]);
+  }, [isPrimarySourceEnabled, primaryNavigationSource, resolveTelemetrySourceKey, syncBaseStationTelemetry, syncDiverTelemetry]);
 
   useEffect(() => {
     if (isElectronRuntime) {
-      const unsubscribeZimaFix = zimaTelemetryProvider.onFix((fix) => handleTelemetryFix('zima2r', fix));
-      const unsubscribeZimaConnection = zimaTelemetryProvider.onConnectionState((state) =>
-        handleDeviceConnectionState('zima2r', state),
-      );
-      const unsubscribeGnssFix = gnssTelemetryProvider.onFix((fix) => handleTelemetryFix('gnss-udp', fix));
-      const unsubscribeGnssConnection = gnssTelemetryProvider.onConnectionState((state) =>
-        handleDeviceConnectionState('gnss-udp', state),
-      );
-      const unsubscribeGnssComFix = gnssComTelemetryProvider.onFix((fix) => handleTelemetryFix('gnss-com', fix));
-      const unsubscribeGnssComConnection = gnssComTelemetryProvider.onConnectionState((state) =>
-        handleDeviceConnectionState('gnss-com', state),
-      );
-      const unsubscribeRwltComFix = rwltComTelemetryProvider.onFix((fix) => handleTelemetryFix('rwlt-com', fix));
-      const unsubscribeRwltComConnection = rwltComTelemetryProvider.onConnectionState((state) =>
-        handleDeviceConnectionState('rwlt-com', state),
-      );
-      zimaTelemetryProvider.start();
-      gnssTelemetryProvider.start();
-      gnssComTelemetryProvider.start();
-      rwltComTelemetryProvider.start();
-
+      const unsubscribers: Array<() => void> = [];
+      deviceTelemetryProviders.forEach(({ instanceId, schemaId, provider }) => {
+        unsubscribers.push(provider.onFix((fix) => handleTelemetryFix(instanceId, schemaId, fix)));
+        unsubscribers.push(
+          provider.onConnectionState((state) => handleDeviceConnectionState(instanceId, schemaId, state)),
+        );
+      });
       return () => {
-        unsubscribeZimaFix();
-        unsubscribeZimaConnection();
-        unsubscribeGnssFix();
-        unsubscribeGnssConnection();
-        unsubscribeGnssComFix();
-        unsubscribeGnssComConnection();
-        unsubscribeRwltComFix();
-        unsubscribeRwltComConnection();
-        zimaTelemetryProvider.stop();
-        gnssTelemetryProvider.stop();
-        gnssComTelemetryProvider.stop();
-        rwltComTelemetryProvider.stop();
+        unsubscribers.forEach((unsubscribe) => unsubscribe());
       };
     }
 
-    const unsubscribeSimulationFix = simulationTelemetryProvider.onFix((fix) => handleTelemetryFix('simulation', fix));
+    const unsubscribeSimulationFix = simulationTelemetryProvider.onFix((fix) =>
+      handleTelemetryFix('simulation', 'simulation', fix),
+    );
     const unsubscribeSimulationConnection = simulationTelemetryProvider.onConnectionState((state) =>
-      handleDeviceConnectionState('simulation', state),
+      handleDeviceConnectionState('simulation', 'simulation', state),
     );
-    simulationTelemetryProvider.start();
     return () => {
       unsubscribeSimulationFix();
       unsubscribeSimulationConnection();
-      simulationTelemetryProvider.stop();
     };
   }, [
-    gnssComTelemetryProvider,
-    gnssTelemetryProvider,
+    deviceTelemetryProviders,
     handleDeviceConnectionState,
     handleTelemetryFix,
     isElectronRuntime,
-    rwltComTelemetryProvider,
     simulationTelemetryProvider,
-    zimaTelemetryProvider,
   ]);
 
   useEffect(() => {
+    // Started separately from the subscriptions above, so that re-subscribing does not reconnect devices.
     if (isElectronRuntime) {
-      const zimaEnabled = navigationSourceOptions.some(
-        (option) => option.schemaId === 'zima2r' && Boolean(equipmentEnabledBySource[option.id]),
-      );
-      const gnssEnabled = navigationSourceOptions.some(
-        (option) => option.schemaId === 'gnss-udp' && Boolean(equipmentEnabledBySource[option.id]),
-      );
-      const gnssComEnabled = navigationSourceOptions.some(
-        (option) => option.schemaId === 'gnss-com' && Boolean(equipmentEnabledBySource[option.id]),
-      );
-      const rwltComEnabled = navigationSourceOptions.some(
-        (option) => option.schemaId === 'rwlt-com' && Boolean(equipmentEnabledBySource[option.id]),
-      );
-      zimaTelemetryProvider.setEnabled(zimaEnabled);
-      gnssTelemetryProvider.setEnabled(gnssEnabled);
-      gnssComTelemetryProvider.setEnabled(gnssComEnabled);
-      rwltComTelemetryProvider.setEnabled(rwltComEnabled);
-      if (!rwltComEnabled) {
+      deviceTelemetryProviders.forEach(({ provider }) => provider.start());
+      return () => {
+        deviceTelemetryProviders.forEach(({ provider }) => provider.stop());
+      };
+    }
+
+    simulationTelemetryProvider.start();
+    return () => {
+      simulationTelemetryProvider.stop();
+    };
+  }, [deviceTelemetryProviders, isElectronRuntime, simulationTelemetryProvider]);
+
+  useEffect(() => {
+    // A replayed schema takes over its sources, so the live devices of the same schema stay idle.
+    const replaySchemaId = telemetryReplay?.schemaId ?? null;
+    if (isElectronRuntime) {
+      let rwltComEnabled = false;
+      deviceTelemetryProviders.forEach(({ instanceId, schemaId, provider }) => {
+        const enabled = replaySchemaId !== schemaId && Boolean(equipmentEnabledBySource[instanceId]);
+        provider.setEnabled(enabled);
+        if (schemaId === 'rwlt-com' && enabled) {
+          rwltComEnabled = true;
+        }
+      });
+      if (!rwltComEnabled && replaySchemaId !== 'rwlt-com') {
         setRwltBuoys({});
-        rwltBaseFixRef.current = null;
-        rwltPingerAgentFixRef.current = null;
-        rwltDiverFixByIdRef.current = {};
+        rwltBaseFixBySourceRef.current = {};
+        rwltPingerAgentFixBySourceRef.current = {};
+        rwltDiverFixBySourceRef.current = {};
         rwltBuoyIdModeRef.current = 'unknown';
       }
       return;
     }
     simulationTelemetryProvider.setEnabled(simulationEnabled);
-    if (!simulationEnabled) {
+    if (!simulationEnabled && replaySchemaId !== 'rwlt-com') {
       setRwltBuoys({});
-      rwltBaseFixRef.current = null;
-      rwltPingerAgentFixRef.current = null;
-      rwltDiverFixByIdRef.current = {};
+      rwltBaseFixBySourceRef.current = {};
+      rwltPingerAgentFixBySourceRef.current = {};
+      rwltDiverFixBySourceRef.current = {};
       rwltBuoyIdModeRef.current = 'unknown';
     }
   }, [
+    deviceTelemetryProviders,
     equipmentEnabledBySource,
-    gnssComTelemetryProvider,
-    gnssTelemetryProvider,
     isElectronRuntime,
-    navigationSourceOptions,
-    rwltComTelemetryProvider,
     simulationEnabled,
     simulationTelemetryProvider,
-    zimaTelemetryProvider,
+    telemetryReplay,
   ]);
 
   useEffect(() => {
@@ -3636,6 +5044,31 @@ const MapWorkspace = () => {
     simulationTelemetryProvider.setSimulateConnectionError(simulateConnectionError);
   }, [isElectronRuntime, simulateConnectionError, simulationTelemetryProvider]);
 
+  useEffect(() => {
+    const replaySchemaId = telemetryReplay?.schemaId ?? null;
+    if (!replaySchemaId) return;
+    const unsubscribeReplayFix = replayTelemetryProvider.onFix((fix) =>
+      handleTelemetryFix(replaySchemaId, replaySchemaId, fix),
+    );
+    const unsubscribeReplayConnection = replayTelemetryProvider.onConnectionState((state) =>
+      handleDeviceConnectionState(replaySchemaId, replaySchemaId, state),
+    );
+    return () => {
+      unsubscribeReplayFix();
+      unsubscribeReplayConnection();
+    };
+  }, [handleDeviceConnectionState, handleTelemetryFix, replayTelemetryProvider, telemetryReplay]);
+
+  useEffect(() => {
+    if (!telemetryReplay) return;
+    replayTelemetryProvider.start();
+    replayTelemetryProvider.setEnabled(true);
+    return () => {
+      replayTelemetryProvider.setEnabled(false);
+      replayTelemetryProvider.stop();
+    };
+  }, [replayTelemetryProvider, telemetryReplay]);
+
   useEffect(() => {
     if (!isElectronRuntime) return;
     void loadActiveEquipmentProfile();
@@ -3742,24 +5175,16 @@ const MapWorkspace = () => {
 
   useEffect(() => {
     const intervalId = window.setInterval(() => {
-      setDeviceConnectionLostSeconds({
-        zima2r:
-          deviceConnectionStatus.zima2r === 'ok'
-            ? 0
-            : Math.max(1, Math.floor((Date.now() - lastFixAtBySourceRef.current.zima2r) / 1000)),
-        'gnss-udp':
-          deviceConnectionStatus['gnss-udp'] === 'ok'
-            ? 0
-            : Math.max(1, Math.floor((Date.now() - lastFixAtBySourceRef.current['gnss-udp']) / 1000)),
-        'gnss-com':
-          deviceConnectionStatus['gnss-com'] === 'ok'
-            ? 0
-            : Math.max(1, Math.floor((Date.now() - lastFixAtBySourceRef.current['gnss-com']) / 1000)),
-        'rwlt-com':
-          deviceConnectionStatus['rwlt-com'] === 'ok'
-            ? 0
-            : Math.max(1, Math.floor((Date.now() - lastFixAtBySourceRef.current['rwlt-com']) / 1000)),
-      });
+      setDeviceConnectionLostSeconds(
+        Object.fromEntries(
+          Object.entries(deviceConnectionStatus).map(([sourceKey, state]) => [
+            sourceKey,
+            state === 'ok'
+              ? 0
+              : Math.max(1, Math.floor((Date.now() - (lastFixAtBySourceRef.current[sourceKey] ?? Date.now())) / 1000)),
+          ]),
+        ),
+      );
     }, 1000);
     return () => {
       window.clearInterval(intervalId);
@@ -3848,20 +5273,13 @@ const MapWorkspace = () => {
   }, []);
 
   const handleClearAllMeasures = useCallback(() => {
-    setObjects((prevObjects) => {
-      const removedIds = new Set(
-        prevObjects.filter((obj) => obj.type === 'measure').map((obj) => obj.id),
-      );
-      if (removedIds.size === 0) return prevObjects;
-      const nextObjects = prevObjects.filter((obj) => obj.type !== 'measure');
-      setSelectedObjectId((currentSelectedId) => {
-        if (!currentSelectedId) return currentSelectedId;
-        return removedIds.has(currentSelectedId) ? null : currentSelectedId;
-      });
-      return nextObjects;
-    });
+    const current = editStateRef.current;
+    const nextObjects = current.objects.filter((obj) => obj.type !== 'measure');
+    if (nextObjects.length !== current.objects.length) {
+      applyEdit('clear-measures', 'удаление всех измерений', { ...current, objects: nextObjects });
+    }
     setShowClearMeasuresDialog(false);
-  }, []);
+  }, [applyEdit]);
 
   const handleMapViewChange = useCallback((next: { center_lat: number; center_lon: number; zoom: number }) => {
     setMapView((prev) => {
@@ -3996,15 +5414,15 @@ const MapWorkspace = () => {
   const handleAgentCenter = useCallback(
     (agentUid: string) => {
       if (agentUid === BASE_STATION_AGENT_ID) {
-        if (baseStationTelemetry) {
+        if (displayedBaseStationTelemetry) {
           setPinnedAgentId(null);
-          const targetZoom = resolveFlyToZoomFor50mGrid(baseStationTelemetry.lat, {
+          const targetZoom = resolveFlyToZoomFor50mGrid(displayedBaseStationTelemetry.lat, {
             zoomSnap: platform.map.zoomSnap(),
             maxZoom: platform.map.maxZoom(),
           });
           setMapView({
-            center_lat: baseStationTelemetry.lat,
-            center_lon: baseStationTelemetry.lon,
+            center_lat: displayedBaseStationTelemetry.lat,
+            center_lon: displayedBaseStationTelemetry.lon,
             zoom: targetZoom,
           });
         }
@@ -4013,7 +5431,7 @@ const MapWorkspace = () => {
       const diver = missionDivers.find((d) => d.uid === agentUid);
       if (!diver) return;
       const key = diver.id.trim();
-      const telemetry = diverTelemetryById[key];
+      const telemetry = displayedDiverTelemetryById[key];
       if (telemetry) {
         setPinnedAgentId(null);
         const targetZoom = resolveFlyToZoomFor50mGrid(telemetry.lat, {
@@ -4027,7 +5445,7 @@ const MapWorkspace = () => {
         });
       }
     },
-    [baseStationTelemetry, diverTelemetryById, missionDivers],
+    [displayedBaseStationTelemetry, displayedDiverTelemetryById, missionDivers],
   );
 
   const handleTrackDelete = (trackId: string) => {
@@ -4155,6 +5573,7 @@ const MapWorkspace = () => {
     setGridSettings(next.measurements.grid);
     setSegmentLengthsMode(next.measurements.segment_lengths_mode);
     setStyles(next.styles);
+    setBasemapDefaults(next.basemap);
 
     toast({ title: 'Настройки применены' });
   };
@@ -4199,6 +5618,7 @@ const MapWorkspace = () => {
 
   const handleSettingsReset = async () => {
     await handleSettingsApply(DEFAULT_APP_SETTINGS.defaults);
+    setMissionBasemap(DEFAULT_MISSION_BASEMAP);
     setBaseStationNavigationSource(null);
     setBaseStationTrackColor(DEFAULT_BASE_STATION_TRACK_COLOR);
     setBaseStationMarkerSizePx(DEFAULT_BASE_STATION_MARKER_SIZE_PX);
@@ -4300,21 +5720,74 @@ const MapWorkspace = () => {
       return;
     }
 
-    const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
     const missionPart = safeFilename(missionName ?? missionDocument?.name ?? 'mission');
     const labelPart = safeFilename(item.label || item.id);
-    const filename = `${missionPart}-${labelPart}.log`;
-
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    link.remove();
-    URL.revokeObjectURL(url);
+    downloadBlob(new Blob([content], { type: 'text/plain;charset=utf-8' }), `${missionPart}-${labelPart}.log`);
   }, [missionDocument?.name, missionName]);
 
+  const handleExportJournalCsv = useCallback(() => {
+    // BOM keeps Cyrillic text readable when the file is opened in spreadsheet apps.
+    const blob = new Blob(['\ufeff', journalToCsv(journalEntries)], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, `${safeFilename(missionName ?? missionDocument?.name ?? 'mission')}-journal.csv`);
+  }, [journalEntries, missionDocument?.name, missionName]);
+
+  const handleExportDepthProfileCsv = useCallback(() => {
+    const blob = new Blob(['\ufeff', profileToCsv(depthProfileSamples)], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, `${safeFilename(missionName ?? missionDocument?.name ?? 'mission')}-profile.csv`);
+  }, [depthProfileSamples, missionDocument?.name, missionName]);
+
+  const handleExportDiveReportCsv = useCallback(() => {
+    const summaries = analyzeDiverDives(missionDivers, missionDocument?.tracks ?? [], trackPointsByTrackId);
+    const blob = new Blob(['\ufeff', diveReportToCsv(summaries)], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, `${safeFilename(missionName ?? missionDocument?.name ?? 'mission')}-dives.csv`);
+  }, [missionDivers, missionDocument, missionName, trackPointsByTrackId]);
+
+  const handleExportMissionPackage = async () => {
+    const snapshot = latestSnapshotRef.current;
+    if (!snapshot.missionRootPath) {
+      toast({ title: 'Экспорт недоступен', description: 'Откройте миссию перед экспортом.' });
+      return;
+    }
+
+    try {
+      // The package is built from files, so unsaved changes are written out first.
+      await persistMissionSnapshot(snapshot);
+      const bytes = await exportMissionPackage(platform.fileStore, snapshot.missionRootPath);
+      downloadBlob(
+        new Blob([bytes], { type: 'application/zip' }),
+        `${safeFilename(missionName ?? missionDocument?.name ?? 'mission')}.zip`,
+      );
+      toast({ title: 'Пакет миссии сохранён' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      toast({ title: 'Не удалось экспортировать пакет миссии', description: message, variant: 'destructive' });
+    }
+  };
+
+  const handleImportMissionPackage = async (file: File) => {
+    try {
+      const storedMissionsDir = await platform.settings.readJson<unknown>(MISSIONS_DIR_SETTINGS_KEY);
+      const missionsDir =
+        typeof storedMissionsDir === 'string' && storedMissionsDir.trim().length > 0
+          ? storedMissionsDir.trim()
+          : platform.paths.defaultMissionsDir();
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const imported = await importMissionPackage(platform.fileStore, bytes, missionsDir);
+      toast({ title: 'Пакет миссии импортирован', description: imported.rootPath });
+      await handleOpenMission(imported.rootPath);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      toast({ title: 'Не удалось импортировать пакет миссии', description: message, variant: 'destructive' });
+    }
+  };
+
+  const showTrackDepthProfile = useCallback((trackId: string) => {
+    setShowDiveReport(false);
+    setDepthProfileSourceId(`track:${trackId}`);
+    setDepthProfileCursor(null);
+    setShowDepthProfile(true);
+  }, []);
+
   const handleExport = async (request: ExportRequest) => {
     if (!missionRootPath || !missionDocument) {
       toast({ title: 'Экспорт недоступен', description: 'Откройте миссию перед экспортом.' });
@@ -4419,6 +5892,86 @@ const MapWorkspace = () => {
         created.push(path);
       }
 
+      if (request.dives) {
+        const summaries = analyzeDiverDives(missionDivers, missionDocument.tracks, trackPointsByTrackId);
+        const filename = `${baseName}-${stamp}-dives.${request.dives.format}`;
+        const path = joinExportPath(exportRoot, filename);
+        await platform.fileStore.writeText(path, diveReportToCsv(summaries));
+        created.push(path);
+      }
+
+      if (request.report) {
+        const snapshot = latestSnapshotRef.current;
+        const bundle = buildMissionBundleFromSnapshot(snapshot, snapshot.recordingState);
+        if (!bundle) throw new Error('Нет данных миссии для отчёта');
+
+        const overviewSvg = renderMissionSnapshotSvg(bundle, {
+          width: 720,
+          height: 480,
+          trackColorsById: Object.fromEntries(
+            bundle.mission.tracks.flatMap((track) => (track.color ? [[track.id, track.color] as const] : [])),
+          ),
+          trackColor: styles.track.color,
+          routeColor: styles.route.color,
+          zoneColor: styles.survey_area.stroke_color,
+          laneColor: styles.lane.color,
+          markerColor: styles.marker.color,
+        });
+
+        const images: MissionReportImage[] = [];
+        if (request.report.includeMapView) {
+          setShowExport(false);
+          await waitForDialogsToClose();
+        }
+        const mapElement = request.report.includeMapView ? document.querySelector('.leaflet-container') : null;
+        if (mapElement) {
+          const rect = mapElement.getBoundingClientRect();
+          const src = await platform.report.captureView({
+            x: Math.round(rect.left),
+            y: Math.round(rect.top),
+            width: Math.round(rect.width),
+            height: Math.round(rect.height),
+          });
+          if (src) images.push({ title: 'Текущий вид карты', src });
+        }
+
+        const equipment =
+          selectedEquipmentNavigationOptions.length > 0
+            ? {
+                profileName: selectedEquipmentProfileName,
+                devices: selectedEquipmentNavigationOptions.map((option) => ({
+                  name: option.label,
+                  type: deviceSchemas.find((schema) => schema.id === option.schemaId)?.title ?? option.id,
+                })),
+              }
+            : null;
+
+        const html = buildMissionReportHtml({
+          bundle,
+          divers: missionDivers,
+          equipment,
+          coordinates: { ...request.report.coordinates, precision: coordPrecision },
+          overviewSvg,
+          images,
+          generatedAt: new Date(),
+        });
+        const htmlPath = joinExportPath(exportRoot, `${baseName}-${stamp}-report.html`);
+        await platform.fileStore.writeText(htmlPath, html);
+        created.push(htmlPath);
+
+        if (request.report.pdf) {
+          const pdfPath = joinExportPath(exportRoot, `${baseName}-${stamp}-report.pdf`);
+          if (await platform.report.printToPdf(htmlPath, pdfPath)) {
+            created.push(pdfPath);
+          } else {
+            toast({
+              title: 'PDF не создан',
+              description: 'Печать в PDF доступна в настольном приложении. Откройте HTML-отчёт и распечатайте его из браузера.',
+            });
+          }
+        }
+      }
+
       toast({
         title: `Экспорт завершен (${created.length})`,
         description: created.length > 0 ? created.join('\n') : undefined,
@@ -4429,6 +5982,51 @@ const MapWorkspace = () => {
     }
   };
 
+  const handleImportData = (result: ImportResult, strategy: ImportConflictStrategy) => {
+    const snapshot = latestSnapshotRef.current;
+    const bundle = buildMissionBundleFromSnapshot(snapshot, snapshot.recordingState);
+    if (!bundle) {
+      toast({ title: 'Импорт недоступен', description: 'Сначала откройте миссию или черновик.' });
+      return;
+    }
+
+    const merged = mergeImportIntoBundle(bundle, result, { strategy, trackColor: styles.track.color });
+    const importedObjectIds = new Set(merged.importedObjectIds);
+    const importedObjects = bundleToMapObjects(merged.bundle).filter((object) => importedObjectIds.has(object.id));
+    const current = editStateRef.current;
+    applyEdit('import', 'импорт данных', {
+      ...current,
+      objects: [...current.objects.filter((object) => !importedObjectIds.has(object.id)), ...importedObjects],
+    });
+
+    const importedTrackIds = new Set(merged.importedTrackIds);
+    if (importedTrackIds.size > 0) {
+      setRecordingState((prev) => {
+        if (!prev.mission) return prev;
+        const importedTracks = merged.bundle.mission.tracks.filter((track) => importedTrackIds.has(track.id));
+        const nextPoints = { ...prev.trackPointsByTrackId };
+        for (const track of importedTracks) {
+          nextPoints[track.id] = merged.bundle.trackPointsByTrackId[track.id] ?? [];
+        }
+        return {
+          ...prev,
+          mission: {
+            ...prev.mission,
+            tracks: [...prev.mission.tracks.filter((track) => !importedTrackIds.has(track.id)), ...importedTracks],
+          },
+          trackPointsByTrackId: nextPoints,
+        };
+      });
+    }
+
+    toast({
+      title: 'Импорт завершен',
+      description:
+        `Объектов: ${importedObjectIds.size}, треков: ${importedTrackIds.size}` +
+        (merged.skippedCount > 0 ? `, пропущено: ${merged.skippedCount}` : ''),
+    });
+  };
+
   const handleGoToStart = useCallback(() => {
     if (
       autoSaveStatus === 'error' &&
@@ -4497,6 +6095,12 @@ const MapWorkspace = () => {
     window.requestAnimationFrame(() => setShowExport(true));
   }, []);
 
+  const openImportDataDialog = useCallback(() => {
+    const snapshot = latestSnapshotRef.current;
+    setImportBaseBundle(buildMissionBundleFromSnapshot(snapshot, snapshot.recordingState));
+    window.requestAnimationFrame(() => setShowImportData(true));
+  }, [buildMissionBundleFromSnapshot]);
+
   const openSettingsDialog = useCallback(() => {
     window.requestAnimationFrame(() => setShowSettings(true));
   }, []);
@@ -4505,6 +6109,75 @@ const MapWorkspace = () => {
     window.requestAnimationFrame(() => setShowOfflineMaps(true));
   }, []);
 
+  const openBathymetryDialog = useCallback(() => {
+    window.requestAnimationFrame(() => setShowBathymetry(true));
+  }, []);
+
+  const openPlanningSummary = useCallback(() => {
+    window.requestAnimationFrame(() => setShowPlanningSummary(true));
+  }, []);
+
+  const openDiveReport = useCallback(() => {
+    window.requestAnimationFrame(() => setShowDiveReport(true));
+  }, []);
+
+  const openAlarmRules = useCallback(() => {
+    window.requestAnimationFrame(() => setShowAlarmRules(true));
+  }, []);
+
+  const toggleJournal = useCallback(() => {
+    window.requestAnimationFrame(() => setShowJournal((prev) => !prev));
+  }, []);
+
+  const openTelemetryReplayPicker = useCallback(() => {
+    window.requestAnimationFrame(() => telemetryReplayInputRef.current?.click());
+  }, []);
+
+  const handleTelemetryReplayFile = useCallback(
+    async (file: File) => {
+      try {
+        const source = parseReplayFile(file.name, await file.text());
+        replayTelemetryProvider.load(source);
+        setShowTrackPlayback(false);
+        setTelemetryReplay({ fileName: file.name, schemaId: source.schemaId });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        toast({ title: `Не удалось открыть запись ${file.name}`, description: message });
+      }
+    },
+    [replayTelemetryProvider],
+  );
+
+  const changeTelemetryReplaySchema = useCallback(
+    (schemaId: TelemetryReplaySchemaId) => {
+      replayTelemetryProvider.setSchema(schemaId);
+      setTelemetryReplay((current) => (current ? { ...current, schemaId } : current));
+    },
+    [replayTelemetryProvider],
+  );
+
+  const closeTelemetryReplay = useCallback(() => {
+    replayTelemetryProvider.load(null);
+    setTelemetryReplay(null);
+  }, [replayTelemetryProvider]);
+
+  const openTrackPlayback = useCallback(() => {
+    const snapshot = latestSnapshotRef.current.recordingState;
+    const index = snapshot.mission
+      ? buildTrackPlaybackIndex(snapshot.mission.tracks, snapshot.trackPointsByTrackId)
+      : null;
+    if (!index) {
+      toast({ title: 'Нет треков для разбора', description: 'В миссии нет точек трека с метками времени.' });
+      return;
+    }
+    closeTelemetryReplay();
+    setShowTrackPlayback(true);
+  }, [closeTelemetryReplay]);
+
+  const closeTrackPlayback = useCallback(() => {
+    setShowTrackPlayback(false);
+  }, []);
+
   const handleFinishMission = () => {
     if (isDraft) return;
     if (!window.confirm('Завершить миссию и перейти в черновик?')) {
@@ -4558,23 +6231,43 @@ const MapWorkspace = () => {
         return;
       }
 
-      const zoneBeforeUpdate = objects.find((obj) => obj.id === id && obj.type === 'zone');
+      const current = editStateRef.current;
+      const target = current.objects.find((obj) => obj.id === id);
+      if (!target) return;
+      const zoneBeforeUpdate = target.type === 'zone' ? target : undefined;
       const nextUpdates = { ...updates };
 
-      if (zoneBeforeUpdate && nextUpdates.geometry?.type === 'zone') {
-        nextUpdates.geometry = {
-          ...nextUpdates.geometry,
-          points: toConvexZonePolygon(nextUpdates.geometry.points),
-        };
+      if (zoneBeforeUpdate && zoneBeforeUpdate.geometry?.type === 'zone') {
+        const convexHull = Boolean(nextUpdates.zoneConvexHull ?? zoneBeforeUpdate.zoneConvexHull);
+        const geometry = nextUpdates.geometry?.type === 'zone' ? nextUpdates.geometry : null;
+        if (geometry && !isSimpleZonePolygon(convexHull ? toConvexZonePolygon(geometry.points) : geometry.points)) {
+          toast({
+            variant: 'destructive',
+            title: 'Некорректный контур зоны',
+            description: 'Граница зоны не должна самопересекаться.',
+          });
+          delete nextUpdates.geometry;
+        } else if (geometry || (convexHull && !zoneBeforeUpdate.zoneConvexHull)) {
+          nextUpdates.geometry = normalizeZoneGeometry(geometry ?? zoneBeforeUpdate.geometry, convexHull);
+        }
       }
 
-      setObjects((prev) => prev.map((obj) => (obj.id === id ? { ...obj, ...nextUpdates } : obj)));
-
-      if (zoneBeforeUpdate && didZoneLaneInputsChange(zoneBeforeUpdate, nextUpdates)) {
-        setOutdatedZoneIds((prev) => markZoneLanesOutdated(prev, id));
-      }
+      applyEdit(
+        'update',
+        `изменение «${target.name}»`,
+        {
+          ...current,
+          objects: current.objects.map((obj) => (obj.id === id ? { ...obj, ...nextUpdates } : obj)),
+          outdatedZoneIds:
+            zoneBeforeUpdate && didZoneLaneInputsChange(zoneBeforeUpdate, nextUpdates)
+              ? markZoneLanesOutdated(current.outdatedZoneIds, id)
+              : current.outdatedZoneIds,
+        },
+        // A vertex drag or typing a name arrives as a series of updates of the same fields.
+        `update:${id}:${Object.keys(nextUpdates).sort().join(',')}`,
+      );
     },
-    [objects],
+    [applyEdit],
   );
 
   const handleObjectDelete = useCallback(
@@ -4584,49 +6277,55 @@ const MapWorkspace = () => {
         return;
       }
 
-      const target = objects.find((obj) => obj.id === id);
+      const current = editStateRef.current;
+      const target = current.objects.find((obj) => obj.id === id);
+      const label = `удаление «${target?.name ?? 'объекта'}»`;
       if (target?.type === 'zone') {
-        const laneCount = countZoneLanes(laneFeatures, id);
+        const laneCount = countZoneLanes(current.laneFeatures, id);
         if (!window.confirm(`Удалить зону и ${laneCount} галсов?`)) {
           return;
         }
 
-        const result = cascadeDeleteZone({
-          objects,
-          laneFeatures,
-          outdatedZoneIds,
-          zoneId: id,
+        const result = cascadeDeleteZone({ ...current, zoneId: id });
+        applyEdit('delete', label, {
+          objects: result.objects,
+          laneFeatures: result.laneFeatures,
+          outdatedZoneIds: result.outdatedZoneIds,
         });
-        setObjects(result.objects);
-        setLaneFeatures(result.laneFeatures);
-        setOutdatedZoneIds(result.outdatedZoneIds);
       } else {
-        setObjects((prev) => prev.filter((obj) => obj.id !== id));
+        applyEdit('delete', label, { ...current, objects: current.objects.filter((obj) => obj.id !== id) });
       }
 
       setSelectedObjectId((prev) => (prev === id ? null : prev));
     },
-    [laneFeatures, objects, outdatedZoneIds],
+    [applyEdit],
   );
 
   const handleRegenerateLanes = useCallback(
     (id: string, updates?: Partial<MapObject>) => {
-      const prepared = prepareZoneRegeneration(objects, id, updates);
+      const current = editStateRef.current;
+      const prepared = prepareZoneRegeneration(current.objects, id, updates);
       if (!prepared.zone) return;
 
-      setObjects(prepared.objects);
-
+      const label = `перестроение галсов «${prepared.zone.name}»`;
       const nextLanes = generateLanesFromZoneObject(prepared.zone);
       if (nextLanes.length === 0) {
-        setOutdatedZoneIds((prev) => markZoneLanesOutdated(prev, id));
+        applyEdit('regenerate-lanes', label, {
+          ...current,
+          objects: prepared.objects,
+          outdatedZoneIds: markZoneLanesOutdated(current.outdatedZoneIds, id),
+        });
         showLaneGenerationError();
         return;
       }
 
-      setLaneFeatures((prev) => replaceZoneLanes(prev, id, nextLanes));
-      setOutdatedZoneIds((prev) => clearZoneLanesOutdated(prev, id));
+      applyEdit('regenerate-lanes', label, {
+        objects: prepared.objects,
+        laneFeatures: replaceZoneLanes(current.laneFeatures, id, nextLanes),
+        outdatedZoneIds: clearZoneLanesOutdated(current.outdatedZoneIds, id),
+      });
     },
-    [objects, showLaneGenerationError],
+    [applyEdit, showLaneGenerationError],
   );
 
   const beginPickLaneEdge = useCallback((zoneId: string) => {
@@ -4639,6 +6338,11 @@ const MapWorkspace = () => {
     setLanePickState({ mode: 'start', zoneId });
   }, []);
 
+  const beginPickPatternDatum = useCallback((zoneId: string) => {
+    setActiveTool('select');
+    setLanePickState({ mode: 'datum', zoneId });
+  }, []);
+
   const cancelLanePick = useCallback(() => {
     setLanePickState({ mode: 'none', zoneId: null });
   }, []);
@@ -4662,6 +6366,14 @@ const MapWorkspace = () => {
     [handleObjectUpdate],
   );
 
+  const handlePickedPatternDatum = useCallback(
+    (zoneId: string, point: { lat: number; lon: number }) => {
+      handleObjectUpdate(zoneId, { patternDatum: point });
+      setLanePickState({ mode: 'none', zoneId: null });
+    },
+    [handleObjectUpdate],
+  );
+
   const getNextObjectName = (type: string) => {
     const prefix =
       type === 'marker' ? 'Маркер' : type === 'route' ? 'Маршрут' : type === 'measure' ? 'Измерение' : 'Зона';
@@ -4687,15 +6399,11 @@ const MapWorkspace = () => {
     geometry: NonNullable<MapObject['geometry']>,
     options?: { preserveActiveTool?: boolean; initial?: Partial<MapObject> },
   ) => {
+    const zoneConvexHull = geometry.type === 'zone' ? Boolean(options?.initial?.zoneConvexHull) : undefined;
     const normalizedGeometry =
-      geometry.type === 'zone'
-        ? {
-            ...geometry,
-            points: toConvexZonePolygon(geometry.points),
-          }
-        : geometry;
+      geometry.type === 'zone' ? normalizeZoneGeometry(geometry, Boolean(zoneConvexHull)) : geometry;
 
-    if (normalizedGeometry.type === 'zone' && !isConvexZonePolygon(normalizedGeometry.points)) return;
+    if (normalizedGeometry.type === 'zone' && !isSimpleZonePolygon(normalizedGeometry.points)) return;
 
     const { id: _id, type: _type, geometry: _geometry, ...initial } = options?.initial ?? {};
     const newObject: MapObject = {
@@ -4707,21 +6415,29 @@ const MapWorkspace = () => {
       color: getDefaultObjectColor(normalizedGeometry.type),
       laneAngle: normalizedGeometry.type === 'zone' ? 0 : undefined,
       laneWidth: normalizedGeometry.type === 'zone' ? 5 : undefined,
+      zoneConvexHull,
       note: '',
       ...initial,
     };
 
-    setObjects((prev) => [...prev, newObject]);
+    const current = editStateRef.current;
+    let next: EditableMissionState = { ...current, objects: [...current.objects, newObject] };
+    let laneGenerationFailed = false;
     if (newObject.type === 'zone') {
       const nextLanes = generateLanesFromZoneObject(newObject);
       if (nextLanes.length > 0) {
-        setLaneFeatures((prev) => replaceZoneLanes(prev, newObject.id, nextLanes));
-        setOutdatedZoneIds((prev) => clearZoneLanesOutdated(prev, newObject.id));
+        next = {
+          ...next,
+          laneFeatures: replaceZoneLanes(current.laneFeatures, newObject.id, nextLanes),
+          outdatedZoneIds: clearZoneLanesOutdated(current.outdatedZoneIds, newObject.id),
+        };
       } else {
-        setOutdatedZoneIds((prev) => markZoneLanesOutdated(prev, newObject.id));
-        showLaneGenerationError();
+        next = { ...next, outdatedZoneIds: markZoneLanesOutdated(current.outdatedZoneIds, newObject.id) };
+        laneGenerationFailed = true;
       }
     }
+    applyEdit('create', `создание «${newObject.name}»`, next);
+    if (laneGenerationFailed) showLaneGenerationError();
 
     if (!options?.preserveActiveTool) {
       const keepActiveToolAfterCreate =
@@ -4736,6 +6452,21 @@ const MapWorkspace = () => {
     setSelectedObjectId(newObject.id);
   };
 
+  const handleCreateCoverageRerunRoute = (zoneId: string) => {
+    const zone = objects.find((object) => object.id === zoneId);
+    if (!zone || !selectedZoneCoverage || selectedObject?.id !== zoneId) return;
+    const points = buildCoverageRerunRoute(selectedZoneCoverage);
+    if (points.length < 2) {
+      toast({ title: 'Пропусков нет', description: 'Все галсы зоны пройдены в пределах допуска.' });
+      return;
+    }
+    handleObjectCreate(
+      { type: 'route', points },
+      { preserveActiveTool: true, initial: { name: `${zone.name}: перепроход` } },
+    );
+    toast({ title: 'Маршрут создан', description: `Участков для перепрохода: ${selectedZoneCoverage.gaps.length}` });
+  };
+
   return (
     <div className="h-screen flex flex-col bg-background overflow-hidden relative">
       <MapWorkspaceFrame
@@ -4761,6 +6492,10 @@ const MapWorkspace = () => {
             simulateConnectionError={showSimulationControls ? simulateConnectionError : undefined}
             onToolChange={handleToolChange}
             onTrackAction={handleTrackAction}
+            undoLabel={editHistory.undo[editHistory.undo.length - 1]?.label ?? null}
+            redoLabel={editHistory.redo[editHistory.redo.length - 1]?.label ?? null}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
             onSimulationToggle={showSimulationControls ? () => setSimulationEnabled((prev) => !prev) : undefined}
             onSimulationErrorToggle={
               showSimulationControls ? () => setSimulateConnectionError((prev) => !prev) : undefined
@@ -4769,12 +6504,24 @@ const MapWorkspace = () => {
             onOpenCreateEmpty={openCreateMissionDialogEmpty}
             onOpenOpen={openOpenMissionDialog}
             onOpenExport={openExportDialog}
+            onExportMissionPackage={() => void handleExportMissionPackage()}
+            onImportMissionPackage={(file) => void handleImportMissionPackage(file)}
+            onOpenImportData={openImportDataDialog}
             onOpenSettings={openSettingsDialog}
             onOpenOfflineMaps={openOfflineMapsDialog}
+            onOpenTelemetryReplay={openTelemetryReplayPicker}
+            onOpenTrackPlayback={openTrackPlayback}
+            onOpenDepthProfile={() => setShowDepthProfile(true)}
+            onOpenPlanningSummary={openPlanningSummary}
+            onOpenDiveReport={openDiveReport}
+            onOpenAlarmRules={openAlarmRules}
+            onToggleJournal={toggleJournal}
             onOpenCoordinateBuilder={setCoordinateBuilderType}
             onMeasureClearAll={handleOpenClearMeasuresDialog}
             onImportRasterFiles={importRasterFiles}
             onImportDxfFiles={importDxfFiles}
+            onImportEncFiles={importEncFiles}
+            onOpenBathymetry={openBathymetryDialog}
             onFinishMission={handleFinishMission}
             onGoToStart={handleGoToStart}
           />
@@ -4810,6 +6557,7 @@ const MapWorkspace = () => {
               visible: overlay.visible,
               opacity: overlay.opacity,
               zIndex: overlay.z_index,
+              layers: vectorOverlayLayerStatesById[overlay.id] ?? [],
             }))}
             selectedObjectId={selectedObjectId}
             onObjectSelect={handleObjectSelect}
@@ -4820,10 +6568,13 @@ const MapWorkspace = () => {
             onRasterOverlayMove={moveRasterOverlay}
             onRasterOverlayDelete={deleteRasterOverlay}
             onRasterOverlayCenter={centerRasterOverlay}
+            onRasterOverlayGeoreference={openRasterGeoreference}
             onRasterOverlayToggleAll={toggleAllRasterOverlaysVisible}
             onVectorOverlayToggle={toggleVectorOverlayVisible}
             onVectorOverlayOpacityChange={setVectorOverlayOpacity}
             onVectorOverlayColorChange={setVectorOverlayColor}
+            onVectorOverlayLayerToggle={toggleVectorOverlayLayer}
+            onVectorOverlayLayerColorChange={setVectorOverlayLayerColor}
             onVectorOverlayMove={moveVectorOverlay}
             onVectorOverlayDelete={deleteVectorOverlay}
             onVectorOverlayCenter={centerVectorOverlay}
@@ -4839,7 +6590,9 @@ const MapWorkspace = () => {
             outdatedZoneIds={outdatedZoneIds}
             lanePickMode={lanePickState.mode}
             lanePickZoneId={lanePickState.zoneId}
+            laneCoverageGaps={selectedZoneCoverage?.gaps}
             layers={layers}
+            localTileSource={localTileSource}
             grid={gridSettings}
             segmentLengthsMode={segmentLengthsMode}
             styles={styles}
@@ -4849,22 +6602,29 @@ const MapWorkspace = () => {
             centerRequest={centerRequest}
             diverData={diverData}
             baseStationData={
-              baseStationTelemetry
+              displayedBaseStationTelemetry
                 ? {
-                    lat: baseStationTelemetry.lat,
-                    lon: baseStationTelemetry.lon,
-                    course: baseStationTelemetry.course,
-                    sourceId: baseStationTelemetry.sourceId,
+                    lat: displayedBaseStationTelemetry.lat,
+                    lon: displayedBaseStationTelemetry.lon,
+                    course: displayedBaseStationTelemetry.course,
+                    sourceId: displayedBaseStationTelemetry.sourceId,
                   }
                 : null
             }
-            isBaseStationSourceAssigned={baseStationNavigationSource !== null}
+            isBaseStationSourceAssigned={trackPlaybackSamples !== null || baseStationNavigationSource !== null}
             baseStationMarkerSizePx={baseStationMarkerSizePx}
             divers={missionDivers}
-            diverPositionsById={diverTelemetryById}
-            trackSegments={visibleTrackSegments}
+            diverPositionsById={displayedDiverTelemetryById}
+            steeringLines={routeSteeringLines}
+            trackSegments={displayedTrackSegments}
             rasterOverlays={rasterOverlaysForMap}
             vectorOverlays={vectorOverlaysForMap}
+            georeferencePoints={georeferencePointsForMap}
+            profileCursor={showDepthProfile ? depthProfileCursor : null}
+            tileRegionFootprints={tileRegionFootprints}
+            depthLegend={depthLegend}
+            pointPickActive={Boolean(georeferenceDraft?.pickingOnMap)}
+            onPointPick={handleGeoreferenceMapPick}
             followAgentId={pinnedAgentId}
             connectionStatus={connectionStatus}
             connectionLostSeconds={connectionLostSeconds}
@@ -4884,6 +6644,7 @@ const MapWorkspace = () => {
             onLanePickCancel={cancelLanePick}
             onLanePickEdge={handlePickedLaneEdge}
             onLanePickStart={handlePickedLaneStart}
+            onLanePickDatum={handlePickedPatternDatum}
             onMapScaleChange={setMapScale}
             onMapViewChange={handleMapViewChange}
             onMapBoundsChange={handleMapBoundsChange}
@@ -4894,6 +6655,7 @@ const MapWorkspace = () => {
             diverData={selectedRwltBuoyHudData ?? selectedAgentDiverData}
             hasTelemetryData={selectedRwltBuoyHudData ? true : hasSelectedAgentTelemetry}
             hasTelemetryHistory={hasPrimaryTelemetryHistory}
+            historicalTimeMs={selectedRwltBuoyHudData ? null : trackPlaybackTimeMs}
             coordPrecision={coordPrecision}
             coordinateInputCrs={coordinateInputCrs}
             coordinateInputFormat={coordinateInputFormat}
@@ -4915,9 +6677,21 @@ const MapWorkspace = () => {
             onRegenerateLanes={handleRegenerateLanes}
             onPickLaneEdge={beginPickLaneEdge}
             onPickLaneStart={beginPickLaneStart}
+            onPickPatternDatum={beginPickPatternDatum}
             selectedZoneLanesOutdated={selectedZoneLanesOutdated}
             selectedZoneLaneCount={selectedZoneLaneCount}
             selectedZoneLaneFeatures={selectedZoneLaneFeatures}
+            selectedZoneCoverage={selectedZoneCoverage}
+            laneCoverageToleranceM={laneCoverageToleranceM}
+            onLaneCoverageToleranceChange={setLaneCoverageToleranceM}
+            onCreateCoverageRerunRoute={handleCreateCoverageRerunRoute}
+            navigationProgress={selectedNavigationProgress}
+            navigationTargetName={selectedNavigationTarget?.name}
+            routeGuidance={selectedRouteGuidance}
+            isRouteFollowing={Boolean(selectedAgentRouteFollowing)}
+            onStartRouteFollowing={canFollowSelectedObject ? handleStartRouteFollowing : undefined}
+            onStopRouteFollowing={handleStopRouteFollowing}
+            defaultPlannedSpeedMps={defaultPlannedSpeedMps}
             onTrackDelete={handleTrackDelete}
             onTrackVisibilityToggle={toggleTrackHidden}
             onTracksVisibilitySet={setTracksHiddenForSelection}
@@ -4931,10 +6705,127 @@ const MapWorkspace = () => {
             coordPrecision={coordPrecision}
             scale={mapScale}
             activeTool={activeTool}
+            cursorDepthM={cursorDepthM}
           />
         }
       />
 
+      <input
+        ref={telemetryReplayInputRef}
+        type="file"
+        className="hidden"
+        accept=".json,.log,.txt"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) {
+            void handleTelemetryReplayFile(file);
+          }
+          event.currentTarget.value = '';
+        }}
+      />
+      {trackPlaybackIndex && trackPlaybackTimeMs !== null ? (
+        <TrackPlaybackBar
+          startMs={trackPlaybackIndex.startMs}
+          endMs={trackPlaybackIndex.endMs}
+          timeMs={trackPlaybackTimeMs}
+          playing={trackPlayback.playing}
+          speed={trackPlayback.speed}
+          onPlay={trackPlayback.play}
+          onPause={trackPlayback.pause}
+          onSeek={trackPlayback.seek}
+          onSpeedChange={trackPlayback.setSpeed}
+          onClose={closeTrackPlayback}
+        />
+      ) : null}
+      <AlarmPanel alarms={activeAlarms} onAcknowledge={handleAcknowledgeAlarms} />
+      {showJournal ? (
+        <JournalPanel
+          entries={journalEntries}
+          attachableAgentName={journalAttachableAgentName}
+          canWrite={missionRootPath !== null}
+          onAddEntry={handleAddJournalEntry}
+          onEntrySelect={handleJournalEntrySelect}
+          onExportCsv={handleExportJournalCsv}
+          onClose={() => setShowJournal(false)}
+        />
+      ) : null}
+      {showDepthProfile ? (
+        <DepthProfilePanel
+          sources={depthProfileSources}
+          sourceId={depthProfileSourceId}
+          onSourceChange={(id) => {
+            setDepthProfileSourceId(id);
+            setDepthProfileCursor(null);
+          }}
+          samples={depthProfileSamples}
+          stats={depthProfileStats}
+          onCursorChange={setDepthProfileCursor}
+          onExportCsv={handleExportDepthProfileCsv}
+          onClose={closeDepthProfile}
+        />
+      ) : null}
+      {georeferenceDraft ? (
+        <RasterGeoreferencePanel
+          overlayName={rasterOverlays.find((overlay) => overlay.id === georeferenceDraft.overlayId)?.name ?? ''}
+          imageUrl={rasterOverlayUrls[georeferenceDraft.overlayId] ?? ''}
+          points={georeferenceDraft.points}
+          activePointId={georeferenceDraft.activePointId}
+          order={georeferenceDraft.order}
+          pickingOnMap={georeferenceDraft.pickingOnMap}
+          onImageSize={(imageSize) => setGeoreferenceDraft((prev) => (prev ? { ...prev, imageSize } : prev))}
+          onPixelPick={handleGeoreferencePixelPick}
+          onActivePointChange={(id) =>
+            setGeoreferenceDraft((prev) => (prev ? { ...prev, activePointId: id, pickingOnMap: false } : prev))
+          }
+          onAddPoint={() =>
+            setGeoreferenceDraft((prev) => {
+              if (!prev) return prev;
+              const created: GeoreferencePointDraft = { id: createGeoreferencePointId(), pixel: null, map: null };
+              return { ...prev, points: [...prev.points, created], activePointId: created.id, pickingOnMap: false };
+            })
+          }
+          onRemovePoint={(id) =>
+            setGeoreferenceDraft((prev) =>
+              prev
+                ? {
+                    ...prev,
+                    points: prev.points.filter((point) => point.id !== id),
+                    activePointId: prev.activePointId === id ? null : prev.activePointId,
+                    pickingOnMap: prev.activePointId === id ? false : prev.pickingOnMap,
+                  }
+                : prev,
+            )
+          }
+          onPickOnMap={(id) =>
+            setGeoreferenceDraft((prev) =>
+              prev
+                ? {
+                    ...prev,
+                    activePointId: id,
+                    pickingOnMap: !(prev.pickingOnMap && prev.activePointId === id),
+                  }
+                : prev,
+            )
+          }
+          onEnterCoordinates={(id) => {
+            setGeoreferenceDraft((prev) => (prev ? { ...prev, activePointId: id, pickingOnMap: false } : prev));
+            setGeoreferenceCoordinatePointId(id);
+            setCoordinateBuilderType('marker');
+          }}
+          onOrderChange={(order) => setGeoreferenceDraft((prev) => (prev ? { ...prev, order } : prev))}
+          onApply={(fit) => void applyRasterGeoreferenceDraft(fit)}
+          onClose={() => setGeoreferenceDraft(null)}
+        />
+      ) : null}
+      {telemetryReplay ? (
+        <TelemetryReplayPanel
+          provider={replayTelemetryProvider}
+          fileName={telemetryReplay.fileName}
+          onSchemaChange={changeTelemetryReplaySchema}
+          onClose={closeTelemetryReplay}
+        />
+      ) : null}
+
       <CreateMissionDialog
         open={showCreateMission}
         onOpenChange={setShowCreateMission}
@@ -4957,6 +6848,15 @@ const MapWorkspace = () => {
         onExport={handleExport}
       />
 
+      <ImportDialog
+        open={showImportData}
+        onOpenChange={setShowImportData}
+        missionBundle={importBaseBundle}
+        defaultCoordinateCrs={coordinateInputCrs}
+        defaultCoordinateFormat={coordinateInputFormat}
+        onImport={handleImportData}
+      />
+
       <SettingsDialog
         open={showSettings}
         onOpenChange={setShowSettings}
@@ -4965,6 +6865,8 @@ const MapWorkspace = () => {
         isZimaAssignedInProfile={navigationSourceOptions.some((option) => option.schemaId === 'zima2r')}
         isRwltAssignedInProfile={navigationSourceOptions.some((option) => option.schemaId === 'rwlt-com')}
         baseStationNavigationSource={baseStationNavigationSource}
+        missionBasemap={missionBasemap}
+        onApplyMissionBasemap={setMissionBasemap}
         onApply={handleSettingsApply}
         onApplyDivers={handleDiversApply}
         onApplyBaseStationNavigationSource={handleBaseStationNavigationSourceApply}
@@ -4978,22 +6880,12 @@ const MapWorkspace = () => {
         equipmentItems={
           isElectronRuntime
             ? navigationSourceOptions.map((sourceOption) => {
-                const sourceSchemaId = sourceOption.schemaId;
                 const enabled = Boolean(equipmentEnabledBySource[sourceOption.id]);
-                const deviceState =
-                  sourceSchemaId === 'zima2r' ||
-                  sourceSchemaId === 'gnss-udp' ||
-                  sourceSchemaId === 'gnss-com' ||
-                  sourceSchemaId === 'rwlt-com'
-                    ? deviceConnectionStatus[sourceSchemaId]
-                    : 'ok';
-                const lostSeconds =
-                  sourceSchemaId === 'zima2r' ||
-                  sourceSchemaId === 'gnss-udp' ||
-                  sourceSchemaId === 'gnss-com' ||
-                  sourceSchemaId === 'rwlt-com'
-                    ? deviceConnectionLostSeconds[sourceSchemaId]
-                    : 0;
+                const sourceKey = isDeviceProviderSourceId(sourceOption.schemaId)
+                  ? resolveTelemetrySourceKey(sourceOption.id)
+                  : null;
+                const deviceState = sourceKey ? (deviceConnectionStatus[sourceKey] ?? 'timeout') : 'ok';
+                const lostSeconds = sourceKey ? (deviceConnectionLostSeconds[sourceKey] ?? 1) : 0;
                 const statusText = enabled
                   ? deviceState === 'ok'
                     ? `Подключено (${selectedEquipmentProfileName})`
@@ -5025,14 +6917,48 @@ const MapWorkspace = () => {
         onInputCrsChange={handleCoordinateInputCrsChange}
         onInputFormatChange={handleCoordinateInputFormatChange}
         onOpenChange={(open) => {
-          if (!open) setCoordinateBuilderType(null);
+          if (open) return;
+          setCoordinateBuilderType(null);
+          setGeoreferenceCoordinatePointId(null);
         }}
         onBuild={(geometry: MapObjectGeometry) => {
-          handleObjectCreate(geometry, { preserveActiveTool: true });
+          if (georeferenceCoordinatePointId && geometry.type === 'marker') {
+            assignGeoreferenceMapPosition(georeferenceCoordinatePointId, geometry.point);
+          } else {
+            handleObjectCreate(geometry, { preserveActiveTool: true });
+          }
           setCoordinateBuilderType(null);
+          setGeoreferenceCoordinatePointId(null);
         }}
       />
 
+      <AlarmRulesDialog
+        open={showAlarmRules}
+        onOpenChange={setShowAlarmRules}
+        rules={alarmRules}
+        divers={missionDivers}
+        objects={objects}
+        onSave={setAlarmRules}
+      />
+
+      <MissionPlanningDialog
+        open={showPlanningSummary}
+        onOpenChange={setShowPlanningSummary}
+        objects={objects}
+        laneFeatures={laneFeatures}
+        defaultPlannedSpeedMps={defaultPlannedSpeedMps}
+      />
+
+      <DiveReportDialog
+        open={showDiveReport}
+        onOpenChange={setShowDiveReport}
+        divers={missionDivers}
+        tracks={missionDocument?.tracks ?? []}
+        trackPointsByTrackId={trackPointsByTrackId}
+        onShowProfile={showTrackDepthProfile}
+        onExportCsv={handleExportDiveReportCsv}
+      />
+
       <OfflineMapsDialog
         open={showOfflineMaps}
         onOpenChange={setShowOfflineMaps}
@@ -5043,6 +6969,21 @@ const MapWorkspace = () => {
         maxNativeZoom={platform.map.maxNativeZoom()}
         viewBounds={mapBounds}
         currentZoom={mapView?.zoom ?? 12}
+        showRegionFootprints={showTileRegionFootprints}
+        onShowRegionFootprintsChange={setShowTileRegionFootprints}
+        onRegionsChange={setTileRegions}
+      />
+
+      <BathymetryDialog
+        open={showBathymetry}
+        onOpenChange={setShowBathymetry}
+        depthTracks={bathymetryDepthTracks}
+        layers={bathymetryLayers}
+        depthRangesById={bathymetryDepthRangesById}
+        onBuild={buildBathymetryLayer}
+        onToggleLayerVisible={toggleBathymetryLayerVisible}
+        onLayerOpacityChange={setBathymetryLayerOpacity}
+        onDeleteLayer={deleteBathymetryLayer}
       />
 
       <AlertDialog open={showClearMeasuresDialog} onOpenChange={setShowClearMeasuresDialog}>
@@ -1,9 +1,12 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { FilePlus, FolderOpen, FileText, RotateCcw, Clock, ChevronRight, Cpu, Trash2 } from 'lucide-react';
+import { FilePlus, FolderOpen, FileText, RotateCcw, Clock, ChevronRight, Cpu, Trash2, Package } from 'lucide-react';
 import { platform } from '@/platform';
+import { toast } from '@/hooks/use-toast';
+import { exportMissionPackage, importMissionPackage } from '@/features/mission';
+import { downloadBlob, safeFilename } from '@/features/export';
 import { useRecentMissions } from '@/hooks/useRecentMissions';
 import { ALL_MISSIONS_LIMIT } from '@/features/mission/model/recentMissions';
 import { MISSIONS_DIR_SETTINGS_KEY } from '@/features/mission/model/constants';
@@ -31,6 +34,7 @@ const StartScreen = () => {
     onAfterDelete: reload,
   });
   const pendingByRootPath = new Map(pendingMissions.map((item) => [item.rootPath, item]));
+  const packageInputRef = useRef<HTMLInputElement | null>(null);
 
   useEffect(() => {
     const checkDraft = async () => {
@@ -69,6 +73,28 @@ const StartScreen = () => {
     navigate('/map?mission=' + encodeURIComponent(rootPath));
   };
 
+  const handleExportMissionPackage = async (rootPath: string, name: string) => {
+    try {
+      const bytes = await exportMissionPackage(platform.fileStore, rootPath);
+      downloadBlob(new Blob([bytes], { type: 'application/zip' }), `${safeFilename(name)}.zip`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      toast({ title: 'Не удалось экспортировать пакет миссии', description: message, variant: 'destructive' });
+    }
+  };
+
+  const handleImportMissionPackage = async (file: File) => {
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const imported = await importMissionPackage(platform.fileStore, bytes, missionsDir);
+      await reload();
+      toast({ title: `Миссия "${imported.mission.name}" импортирована`, description: imported.rootPath });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      toast({ title: 'Не удалось импортировать пакет миссии', description: message, variant: 'destructive' });
+    }
+  };
+
   const handleDeleteMission = async (rootPath: string, name: string) => {
     if (!window.confirm(`Удалить миссию "${name}"?`)) {
       return;
@@ -166,6 +192,20 @@ const StartScreen = () => {
               <Button variant="outline" size="sm" onClick={handlePickMissionsDirectory}>
                 Папка миссий
               </Button>
+              <input
+                ref={packageInputRef}
+                type="file"
+                className="hidden"
+                accept=".zip"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) void handleImportMissionPackage(file);
+                  event.currentTarget.value = '';
+                }}
+              />
+              <Button variant="outline" size="sm" onClick={() => packageInputRef.current?.click()}>
+                Импорт пакета
+              </Button>
               <Select value={sortMode} onValueChange={(value) => setSortMode(value as MissionSortMode)}>
                 <SelectTrigger className="h-8 w-52" aria-label="Сортировка миссий">
                   <SelectValue />
@@ -208,14 +248,24 @@ const StartScreen = () => {
                         Undo
                       </Button>
                     ) : (
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => void handleDeleteMission(mission.rootPath, mission.name)}
-                        title="Удалить миссию"
-                      >
-                        <Trash2 className="w-4 h-4 text-destructive" />
-                      </Button>
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => void handleExportMissionPackage(mission.rootPath, mission.name)}
+                          title="Экспорт пакета миссии"
+                        >
+                          <Package className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => void handleDeleteMission(mission.rootPath, mission.name)}
+                          title="Удалить миссию"
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </>
                     )}
                     <ChevronRight className="w-4 h-4 text-muted-foreground" />
                   </div>
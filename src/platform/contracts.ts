@@ -1,3 +1,5 @@
+import type { LocalTileSource, LocalTileSourceKind, LocalTileSourceMetadata } from '@/platform/mapConfig';
+
 export type PickDirectoryOptions = {
   title?: string;
   defaultPath?: string;
@@ -18,6 +20,22 @@ export type FileSystemBridge = {
   pickDirectory: (options?: PickDirectoryOptions) => Promise<string | null>;
 };
 
+export type LocalTilesBridge = {
+  /** URL template for a local source, or null when this runtime cannot read files from disk. */
+  tileUrlTemplate: (source: LocalTileSource) => string | null;
+  pickSource: (kind: LocalTileSourceKind) => Promise<string | null>;
+  readMetadata: (kind: LocalTileSourceKind, path: string) => Promise<LocalTileSourceMetadata | null>;
+  /** Registers a package so that its tiles are served; resolves to its id, or null when the runtime has no local tiles. */
+  registerSource: (source: LocalTileSource) => Promise<string | null>;
+};
+
+export type ReportBridge = {
+  /** PNG data URL of a region of the app window (CSS pixels), or null when the runtime cannot capture it. */
+  captureView: (rect: { x: number; y: number; width: number; height: number }) => Promise<string | null>;
+  /** Prints a saved HTML file to PDF; false when the runtime has no PDF printer, rejects when printing fails. */
+  printToPdf: (htmlPath: string, pdfPath: string) => Promise<boolean>;
+};
+
 export type SettingsBridge = {
   readJson: <T>(key: string) => Promise<T | null>;
   writeJson: (key: string, value: unknown) => Promise<void>;
@@ -56,6 +74,8 @@ export type Platform = {
     wheelPxPerZoomLevel: () => number;
   };
   fs: FileSystemBridge;
+  localTiles: LocalTilesBridge;
+  report: ReportBridge;
   settings: SettingsBridge;
   fileStore: FileStoreBridge;
   raster: {
@@ -1,5 +1,10 @@
 import type { Platform } from '@/platform/contracts';
-import { resolveMapConfig } from '@/platform/mapConfig';
+import {
+  buildLocalTileUrlTemplate,
+  resolveMapConfig,
+  type LocalTileSourceKind,
+  type LocalTileSourceMetadata,
+} from '@/platform/mapConfig';
 
 const readRememberedPath = (key: string): string | null => {
   try {
@@ -63,12 +68,21 @@ type ElectronApi = {
     readSiblingTfwTextByTifPath: (tifPath: string) => Promise<string | null>;
     resolveLocalPathForFile: (file: File) => Promise<string | null>;
   };
+  localTiles?: {
+    pickSource: (kind: LocalTileSourceKind) => Promise<string | null>;
+    readMetadata: (kind: LocalTileSourceKind, path: string) => Promise<LocalTileSourceMetadata | null>;
+    registerSource: (source: { kind: LocalTileSourceKind; path: string; format: string | null }) => Promise<string | null>;
+  };
+  report?: {
+    captureView: (rect: { x: number; y: number; width: number; height: number }) => Promise<string | null>;
+    printToPdf: (htmlPath: string, pdfPath: string) => Promise<{ ok: boolean; error?: string }>;
+  };
   lifecycle?: {
     onPrepareClose: (listener: (payload: { token?: string }) => void) => () => void;
     resolvePrepareClose: (payload: { token: string; ok: boolean; error?: string }) => void;
   };
   zima?: {
-    start: (config: {
+    start: (instanceId: string, config: {
       ipAddress: string;
       dataPort: number;
       commandPort: number;
@@ -78,50 +92,50 @@ type ElectronApi = {
       longitude: number | null;
       azimuth: number | null;
     }) => Promise<unknown>;
-    stop: () => Promise<unknown>;
-    sendCommand: (command: string) => Promise<unknown>;
-    status: () => Promise<unknown>;
-    onData: (listener: (payload: { message?: string; receivedAt?: number }) => void) => () => void;
-    onStatus: (listener: (payload: { status?: string }) => void) => () => void;
-    onError: (listener: (payload: { message?: string }) => void) => () => void;
+    stop: (instanceId: string) => Promise<unknown>;
+    sendCommand: (instanceId: string, command: string) => Promise<unknown>;
+    status: (instanceId: string) => Promise<unknown>;
+    onData: (listener: (payload: { instanceId?: string; message?: string; receivedAt?: number }) => void) => () => void;
+    onStatus: (listener: (payload: { instanceId?: string; status?: string }) => void) => () => void;
+    onError: (listener: (payload: { instanceId?: string; message?: string }) => void) => () => void;
   };
   gnss?: {
-    start: (config: {
+    start: (instanceId: string, config: {
       ipAddress: string;
       dataPort: number;
     }) => Promise<unknown>;
-    stop: () => Promise<unknown>;
-    status: () => Promise<unknown>;
-    onData: (listener: (payload: { message?: string; receivedAt?: number }) => void) => () => void;
-    onStatus: (listener: (payload: { status?: string }) => void) => () => void;
-    onError: (listener: (payload: { message?: string }) => void) => () => void;
+    stop: (instanceId: string) => Promise<unknown>;
+    status: (instanceId: string) => Promise<unknown>;
+    onData: (listener: (payload: { instanceId?: string; message?: string; receivedAt?: number }) => void) => () => void;
+    onStatus: (listener: (payload: { instanceId?: string; status?: string }) => void) => () => void;
+    onError: (listener: (payload: { instanceId?: string; message?: string }) => void) => () => void;
   };
   gnssCom?: {
-    start: (config: {
+    start: (instanceId: string, config: {
       autoDetectPort: boolean;
       comPort: string;
       baudRate: number;
     }) => Promise<unknown>;
-    stop: () => Promise<unknown>;
-    status: () => Promise<unknown>;
+    stop: (instanceId: string) => Promise<unknown>;
+    status: (instanceId: string) => Promise<unknown>;
     listPorts: () => Promise<Array<{ path?: string } | string>>;
-    onData: (listener: (payload: { message?: string; receivedAt?: number; portPath?: string }) => void) => () => void;
-    onStatus: (listener: (payload: { status?: string }) => void) => () => void;
-    onError: (listener: (payload: { message?: string }) => void) => () => void;
+    onData: (listener: (payload: { instanceId?: string; message?: string; receivedAt?: number; portPath?: string }) => void) => () => void;
+    onStatus: (listener: (payload: { instanceId?: string; status?: string }) => void) => () => void;
+    onError: (listener: (payload: { instanceId?: string; message?: string }) => void) => () => void;
   };
   rwltCom?: {
-    start: (config: {
+    start: (instanceId: string, config: {
       autoDetectPort: boolean;
       comPort: string;
       baudRate: number;
       mode: 'pinger' | 'divers';
     }) => Promise<unknown>;
-    stop: () => Promise<unknown>;
-    status: () => Promise<unknown>;
+    stop: (instanceId: string) => Promise<unknown>;
+    status: (instanceId: string) => Promise<unknown>;
     listPorts: () => Promise<Array<{ path?: string } | string>>;
-    onData: (listener: (payload: { message?: string; receivedAt?: number; portPath?: string }) => void) => () => void;
-    onStatus: (listener: (payload: { status?: string }) => void) => () => void;
-    onError: (listener: (payload: { message?: string }) => void) => () => void;
+    onData: (listener: (payload: { instanceId?: string; message?: string; receivedAt?: number; portPath?: string }) => void) => () => void;
+    onStatus: (listener: (payload: { instanceId?: string; status?: string }) => void) => () => void;
+    onError: (listener: (payload: { instanceId?: string; message?: string }) => void) => () => void;
   };
 };
 
@@ -179,6 +193,40 @@ export const electronPlatform: Platform = {
       return picked;
     },
   },
+  localTiles: {
+    tileUrlTemplate: (source) => buildLocalTileUrlTemplate(source),
+    pickSource: async (kind) => {
+      const api = getApi();
+      if (!api?.localTiles) return null;
+      return api.localTiles.pickSource(kind);
+    },
+    readMetadata: async (kind, path) => {
+      const api = getApi();
+      if (!api?.localTiles) return null;
+      return api.localTiles.readMetadata(kind, path);
+    },
+    registerSource: async (source) => {
+      const api = getApi();
+      if (!api?.localTiles) return null;
+      return api.localTiles.registerSource({ kind: source.kind, path: source.path, format: source.format ?? null });
+    },
+  },
+  report: {
+    captureView: async (rect) => {
+      const api = getApi();
+      if (!api?.report) return null;
+      return api.report.captureView(rect);
+    },
+    printToPdf: async (htmlPath, pdfPath) => {
+      const api = getApi();
+      if (!api?.report) return false;
+      const result = await api.report.printToPdf(normalizeStorePath(htmlPath), normalizeStorePath(pdfPath));
+      if (!result.ok) {
+        throw new Error(`Не удалось создать PDF: ${result.error ?? 'неизвестная ошибка'}`);
+      }
+      return true;
+    },
+  },
   settings: {
     readJson: async <T,>(key: string): Promise<T | null> => {
       const api = getApi();
@@ -1,5 +1,30 @@
 export type MapProviderId = 'osm' | 'openmarine';
 
+export type LocalTileSourceKind = 'mbtiles' | 'directory';
+
+export type LocalTileFormat = 'png' | 'jpg' | 'jpeg' | 'webp';
+
+/** Pre-built chart package on disk: an .mbtiles file or a {z}/{x}/{y} tile directory. */
+export type LocalTileSource = {
+  /** Id the Electron main process registered the package under; tiles are served for registered packages only. */
+  id?: string;
+  kind: LocalTileSourceKind;
+  path: string;
+  attribution: string;
+  min_zoom: number;
+  max_zoom: number;
+  // Tile file extension of a directory source; MBTiles tiles are sniffed by content.
+  format?: LocalTileFormat;
+};
+
+export type LocalTileSourceMetadata = {
+  name: string;
+  attribution: string;
+  format: string | null;
+  min_zoom: number | null;
+  max_zoom: number | null;
+};
+
 export type MapConfig = {
   provider: MapProviderId;
   tileLayerUrl: string;
@@ -98,3 +123,53 @@ export const resolveMapConfig = (env: EnvSource): MapConfig => {
     wheelPxPerZoomLevel,
   };
 };
+
+export const LOCAL_TILES_SCHEME = 'planner-tiles';
+export const LOCAL_TILE_ZOOM_MAX = 22;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const normalizeZoom = (value: unknown, fallback: number): number => {
+  const numeric = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+  if (!Number.isFinite(numeric)) return fallback;
+  return Math.max(0, Math.min(LOCAL_TILE_ZOOM_MAX, Math.trunc(numeric)));
+};
+
+const normalizeLocalTileFormat = (value: unknown): LocalTileFormat | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const lower = value.trim().toLowerCase();
+  if (lower === 'png' || lower === 'jpg' || lower === 'jpeg' || lower === 'webp') return lower;
+  return undefined;
+};
+
+export const normalizeLocalTileSource = (raw: unknown): LocalTileSource | null => {
+  if (!isRecord(raw)) return null;
+  if (raw.kind !== 'mbtiles' && raw.kind !== 'directory') return null;
+  const path = typeof raw.path === 'string' ? raw.path.trim() : '';
+  if (!path) return null;
+
+  const minZoom = normalizeZoom(raw.min_zoom, 0);
+  const maxZoom = Math.max(minZoom, normalizeZoom(raw.max_zoom, 18));
+  const format = raw.kind === 'directory' ? normalizeLocalTileFormat(raw.format) : undefined;
+  const id = typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : undefined;
+  return {
+    ...(id ? { id } : {}),
+    kind: raw.kind,
+    path,
+    attribution: typeof raw.attribution === 'string' ? raw.attribution.trim() : '',
+    min_zoom: minZoom,
+    max_zoom: maxZoom,
+    ...(format ? { format } : {}),
+  };
+};
+
+/**
+ * Tile URL served by the Electron main process for a registered local source (see electron/local-tiles.cjs),
+ * or null for a source that has not been registered yet.
+ */
+export const buildLocalTileUrlTemplate = (source: LocalTileSource): string | null => {
+  if (!source.id) return null;
+  const params = new URLSearchParams({ source: source.id });
+  return `${LOCAL_TILES_SCHEME}://tiles/{z}/{x}/{y}?${params.toString()}`;
+};
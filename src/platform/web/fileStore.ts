@@ -0,0 +1,566 @@
+import type { FileStoreBridge } from '@/platform/contracts';
+
+/** Prefix of the keys under which earlier web builds kept mission files in localStorage. */
+export const LOCAL_STORAGE_FILE_PREFIX = 'planner.fs:';
+
+const DB_NAME = 'planner.fileStore.v1';
+const DB_VERSION = 1;
+const FILE_STORE = 'files';
+const CHUNK_STORE = 'chunks';
+const CHUNK_PATH_INDEX = 'path';
+/** Files appended to this many times are merged back into one chunk on the next read. */
+const MAX_CHUNKS_BEFORE_COMPACTION = 256;
+/**
+ * Appends to one OPFS file share a writable stream for this long before it is committed: Chromium
+ * builds each `keepExistingData` stream by copying the whole file, which must not happen per append.
+ */
+const OPFS_APPEND_COMMIT_DELAY_MS = 2000;
+/** First path segment of absolute paths ("/missions/a"); never produced by encoding a real segment. */
+const ROOT_SEGMENT = '%2F';
+
+/** Subset of the OPFS handle API used here; lib.dom in this project has no async iteration over directories. */
+export type OpfsWritable = {
+  write: (data: string | { type: 'write'; position: number; data: string }) => Promise<void>;
+  close: () => Promise<void>;
+};
+
+export type OpfsFileHandle = {
+  kind: 'file';
+  getFile: () => Promise<{ size: number; lastModified: number; text: () => Promise<string> }>;
+  createWritable: (options?: { keepExistingData?: boolean }) => Promise<OpfsWritable>;
+};
+
+export type OpfsDirectoryHandle = {
+  kind: 'directory';
+  getDirectoryHandle: (name: string, options?: { create?: boolean }) => Promise<OpfsDirectoryHandle>;
+  getFileHandle: (name: string, options?: { create?: boolean }) => Promise<OpfsFileHandle>;
+  removeEntry: (name: string, options?: { recursive?: boolean }) => Promise<void>;
+  entries: () => AsyncIterable<[string, OpfsDirectoryHandle | OpfsFileHandle]>;
+};
+
+type FileRecord = {
+  path: string;
+  mtimeMs: number;
+};
+
+type ChunkRecord = {
+  path: string;
+  text: string;
+};
+
+type OpenAppendStream = {
+  writable: OpfsWritable;
+  /** Byte offset of the end of the file, for the first write; later writes continue from the stream's cursor. */
+  startPosition: number | null;
+  /** Last write issued; the commit closes the stream once it has settled. */
+  tail: Promise<void>;
+  timerId: ReturnType<typeof setTimeout>;
+};
+
+const normalizeStorePath = (path: string): string =>
+  path.replace(/\\/g, '/').replace(/\/+/g, '/').trim().replace(/(.)\/$/, '$1');
+
+const isWithin = (path: string, directory: string): boolean => path === directory || path.startsWith(`${directory}/`);
+
+const encodeSegment = (segment: string): string =>
+  segment === '.' || segment === '..' ? segment.replace(/\./g, '%2E') : encodeURIComponent(segment);
+
+const toSegments = (path: string): string[] => {
+  const normalized = normalizeStorePath(path);
+  if (!normalized || normalized === '/') return [];
+  return normalized
+    .split('/')
+    .map((segment, index) => (index === 0 && segment === '' ? ROOT_SEGMENT : encodeSegment(segment)));
+};
+
+const fromSegments = (segments: string[]): string =>
+  segments.map((segment, index) => (index === 0 && segment === ROOT_SEGMENT ? '' : decodeURIComponent(segment))).join('/');
+
+const isNotFoundError = (error: unknown): boolean =>
+  error instanceof Error && (error.name === 'NotFoundError' || error.name === 'TypeMismatchError');
+
+/**
+ * Runs operations on one path in order, so that appends land in the order they were issued and
+ * `flush` can wait for everything already queued.
+ */
+const createPathQueue = () => {
+  const pending = new Map<string, Promise<unknown>>();
+
+  const run = <T>(path: string, task: () => Promise<T>): Promise<T> => {
+    const previous = pending.get(path) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    pending.set(path, next);
+    void next
+      .catch(() => undefined)
+      .then(() => {
+        if (pending.get(path) === next) pending.delete(path);
+      });
+    return next;
+  };
+
+  const settled = async (directory: string): Promise<void> => {
+    const tasks = Array.from(pending.entries())
+      .filter(([path]) => isWithin(path, directory))
+      .map(([, task]) => task.catch(() => undefined));
+    await Promise.all(tasks);
+  };
+
+  return { run, settled };
+};
+
+const withPathQueue = (store: FileStoreBridge): FileStoreBridge => {
+  const queue = createPathQueue();
+  return {
+    exists: (path) => queue.run(normalizeStorePath(path), () => store.exists(path)),
+    readText: (path) => queue.run(normalizeStorePath(path), () => store.readText(path)),
+    writeText: (path, content) => queue.run(normalizeStorePath(path), () => store.writeText(path, content)),
+    appendText: (path, content) => queue.run(normalizeStorePath(path), () => store.appendText(path, content)),
+    flush: async (path) => {
+      await queue.settled(normalizeStorePath(path));
+      await store.flush(path);
+    },
+    remove: async (path) => {
+      const normalized = normalizeStorePath(path);
+      await queue.settled(normalized);
+      await queue.run(normalized, () => store.remove(path));
+    },
+    list: async (prefix) => {
+      await queue.settled(normalizeStorePath(prefix));
+      return store.list(prefix);
+    },
+    stat: (path) => queue.run(normalizeStorePath(path), () => store.stat(path)),
+  };
+};
+
+/**
+ * File store on the Origin Private File System: one OPFS directory per path segment. Appends are
+ * batched into one open stream per file and committed after `OPFS_APPEND_COMMIT_DELAY_MS`, on
+ * `flush` or before any other operation on the file; a failed commit rejects the next append or flush.
+ */
+export const createOpfsFileStore = (root: OpfsDirectoryHandle): FileStoreBridge => {
+  const openAppends = new Map<string, OpenAppendStream>();
+  const commitsInFlight = new Map<string, Promise<void>>();
+  const commitErrors = new Map<string, unknown>();
+
+  const commitAppends = (path: string): Promise<void> => {
+    const open = openAppends.get(path);
+    if (open) {
+      openAppends.delete(path);
+      clearTimeout(open.timerId);
+      // A failed write has already rejected its own append; the data written before it is still closed in.
+      const commit = open.tail
+        .catch(() => undefined)
+        .then(() => open.writable.close())
+        .catch((error: unknown) => {
+          commitErrors.set(path, error);
+        })
+        .finally(() => {
+          if (commitsInFlight.get(path) === commit) commitsInFlight.delete(path);
+        });
+      commitsInFlight.set(path, commit);
+    }
+    return commitsInFlight.get(path) ?? Promise.resolve();
+  };
+
+  const commitAppendsWithin = async (directory: string): Promise<void> => {
+    const paths = new Set([...openAppends.keys(), ...commitsInFlight.keys()]);
+    await Promise.all(Array.from(paths).filter((path) => isWithin(path, directory)).map(commitAppends));
+  };
+
+  /** Forgets the commit errors recorded under `directory` and returns the first of them. */
+  const takeCommitErrorsWithin = (directory: string): unknown => {
+    const paths = Array.from(commitErrors.keys()).filter((path) => isWithin(path, directory));
+    const [first] = paths.map((path) => commitErrors.get(path));
+    paths.forEach((path) => commitErrors.delete(path));
+    return first;
+  };
+
+  const resolveDirectory = async (segments: string[], create: boolean): Promise<OpfsDirectoryHandle | null> => {
+    let directory = root;
+    for (const segment of segments) {
+      try {
+        directory = await directory.getDirectoryHandle(segment, { create });
+      } catch (error) {
+        if (!create && isNotFoundError(error)) return null;
+        throw error;
+      }
+    }
+    return directory;
+  };
+
+  const resolveFile = async (path: string, create: boolean): Promise<OpfsFileHandle | null> => {
+    const segments = toSegments(path);
+    if (segments.length === 0) return null;
+    const directory = await resolveDirectory(segments.slice(0, -1), create);
+    if (!directory) return null;
+    try {
+      return await directory.getFileHandle(segments[segments.length - 1], { create });
+    } catch (error) {
+      if (!create && isNotFoundError(error)) return null;
+      throw error;
+    }
+  };
+
+  const walk = async (directory: OpfsDirectoryHandle, segments: string[]): Promise<string[]> => {
+    const paths: string[] = [];
+    for await (const [name, handle] of directory.entries()) {
+      if (handle.kind === 'directory') {
+        paths.push(...(await walk(handle, [...segments, name])));
+      } else {
+        paths.push(fromSegments([...segments, name]));
+      }
+    }
+    return paths;
+  };
+
+  return {
+    exists: async (path) => {
+      const segments = toSegments(path);
+      if (segments.length === 0) return false;
+      if (await resolveFile(path, false).catch(() => null)) return true;
+      return Boolean(await resolveDirectory(segments, false).catch(() => null));
+    },
+    readText: async (path) => {
+      await commitAppends(normalizeStorePath(path));
+      const handle = await resolveFile(path, false).catch(() => null);
+      if (!handle) return null;
+      const file = await handle.getFile();
+      return file.text();
+    },
+    writeText: async (path, content) => {
+      await commitAppends(normalizeStorePath(path));
+      const handle = await resolveFile(path, true);
+      if (!handle) throw new Error(`Invalid file path: ${path}`);
+      const writable = await handle.createWritable();
+      await writable.write(content);
+      await writable.close();
+    },
+    appendText: async (path, content) => {
+      const normalized = normalizeStorePath(path);
+      await commitsInFlight.get(normalized);
+      const commitError = commitErrors.get(normalized);
+      if (commitError !== undefined) {
+        commitErrors.delete(normalized);
+        throw commitError;
+      }
+
+      let open = openAppends.get(normalized);
+      if (!open) {
+        const handle = await resolveFile(path, true);
+        if (!handle) throw new Error(`Invalid file path: ${path}`);
+        const { size } = await handle.getFile();
+        open = {
+          writable: await handle.createWritable({ keepExistingData: true }),
+          startPosition: size,
+          tail: Promise.resolve(),
+          timerId: setTimeout(() => void commitAppends(normalized), OPFS_APPEND_COMMIT_DELAY_MS),
+        };
+        openAppends.set(normalized, open);
+      }
+
+      const stream = open;
+      const written = stream.tail
+        .catch(() => undefined)
+        .then(async () => {
+          if (stream.startPosition === null) {
+            await stream.writable.write(content);
+            return;
+          }
+          await stream.writable.write({ type: 'write', position: stream.startPosition, data: content });
+          stream.startPosition = null;
+        });
+      stream.tail = written;
+      await written;
+    },
+    flush: async (path) => {
+      const directory = normalizeStorePath(path);
+      await commitAppendsWithin(directory);
+      const commitError = takeCommitErrorsWithin(directory);
+      if (commitError !== undefined) throw commitError;
+    },
+    remove: async (path) => {
+      const normalized = normalizeStorePath(path);
+      await commitAppendsWithin(normalized);
+      takeCommitErrorsWithin(normalized);
+      const segments = toSegments(path);
+      if (segments.length === 0) return;
+      const parent = await resolveDirectory(segments.slice(0, -1), false).catch(() => null);
+      if (!parent) return;
+      try {
+        await parent.removeEntry(segments[segments.length - 1], { recursive: true });
+      } catch (error) {
+        if (!isNotFoundError(error)) throw error;
+      }
+    },
+    list: async (prefix) => {
+      const segments = toSegments(prefix);
+      if (segments.length === 0) return [];
+      const directory = await resolveDirectory(segments, false).catch(() => null);
+      if (directory) return walk(directory, segments);
+      const file = await resolveFile(prefix, false).catch(() => null);
+      return file ? [normalizeStorePath(prefix)] : [];
+    },
+    stat: async (path) => {
+      await commitAppends(normalizeStorePath(path));
+      const handle = await resolveFile(path, false).catch(() => null);
+      if (!handle) return null;
+      const file = await handle.getFile();
+      return { mtimeMs: file.lastModified };
+    },
+  };
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+  });
+
+/** Opens, creating on first use, the database behind `createIndexedDbFileStore`. */
+export const openFileStoreDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(FILE_STORE)) {
+        db.createObjectStore(FILE_STORE, { keyPath: 'path' });
+      }
+      if (!db.objectStoreNames.contains(CHUNK_STORE)) {
+        const chunks = db.createObjectStore(CHUNK_STORE, { autoIncrement: true });
+        chunks.createIndex(CHUNK_PATH_INDEX, 'path', { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Failed to open IndexedDB'));
+  });
+
+const descendantsRange = (directory: string): IDBKeyRange => IDBKeyRange.bound(`${directory}/`, `${directory}/\uffff`);
+
+/**
+ * File store in IndexedDB for browsers without writable OPFS streams. Appends add a chunk record
+ * instead of rewriting the file, so long track and log files stay cheap to extend.
+ */
+export const createIndexedDbFileStore = (db: IDBDatabase): FileStoreBridge => {
+  const deleteChunks = async (chunks: IDBObjectStore, query: IDBValidKey | IDBKeyRange) => {
+    const keys = await requestToPromise(chunks.index(CHUNK_PATH_INDEX).getAllKeys(query));
+    keys.forEach((key) => chunks.delete(key));
+  };
+
+  const replaceContent = async (path: string, content: string) => {
+    const tx = db.transaction([FILE_STORE, CHUNK_STORE], 'readwrite');
+    const chunks = tx.objectStore(CHUNK_STORE);
+    await deleteChunks(chunks, path);
+    chunks.add({ path, text: content } satisfies ChunkRecord);
+    tx.objectStore(FILE_STORE).put({ path, mtimeMs: Date.now() } satisfies FileRecord);
+    await transactionDone(tx);
+  };
+
+  return {
+    exists: async (path) => {
+      const normalized = normalizeStorePath(path);
+      const files = db.transaction(FILE_STORE, 'readonly').objectStore(FILE_STORE);
+      if (await requestToPromise(files.count(normalized))) return true;
+      return (await requestToPromise(files.count(descendantsRange(normalized)))) > 0;
+    },
+    readText: async (path) => {
+      const normalized = normalizeStorePath(path);
+      const tx = db.transaction([FILE_STORE, CHUNK_STORE], 'readonly');
+      const record = await requestToPromise(tx.objectStore(FILE_STORE).get(normalized));
+      if (!record) return null;
+      const chunks = (await requestToPromise(
+        tx.objectStore(CHUNK_STORE).index(CHUNK_PATH_INDEX).getAll(normalized),
+      )) as ChunkRecord[];
+      const content = chunks.map((chunk) => chunk.text).join('');
+      if (chunks.length > MAX_CHUNKS_BEFORE_COMPACTION) {
+        await replaceContent(normalized, content);
+      }
+      return content;
+    },
+    writeText: async (path, content) => {
+      await replaceContent(normalizeStorePath(path), content);
+    },
+    appendText: async (path, content) => {
+      const normalized = normalizeStorePath(path);
+      const tx = db.transaction([FILE_STORE, CHUNK_STORE], 'readwrite');
+      tx.objectStore(CHUNK_STORE).add({ path: normalized, text: content } satisfies ChunkRecord);
+      tx.objectStore(FILE_STORE).put({ path: normalized, mtimeMs: Date.now() } satisfies FileRecord);
+      await transactionDone(tx);
+    },
+    flush: async () => {
+      // Every write is a committed transaction.
+    },
+    remove: async (path) => {
+      const normalized = normalizeStorePath(path);
+      const tx = db.transaction([FILE_STORE, CHUNK_STORE], 'readwrite');
+      const files = tx.objectStore(FILE_STORE);
+      const chunks = tx.objectStore(CHUNK_STORE);
+      files.delete(normalized);
+      files.delete(descendantsRange(normalized));
+      await deleteChunks(chunks, normalized);
+      await deleteChunks(chunks, descendantsRange(normalized));
+      await transactionDone(tx);
+    },
+    list: async (prefix) => {
+      const normalized = normalizeStorePath(prefix);
+      const files = db.transaction(FILE_STORE, 'readonly').objectStore(FILE_STORE);
+      const [own, descendants] = await Promise.all([
+        requestToPromise(files.getAllKeys(normalized)),
+        requestToPromise(files.getAllKeys(descendantsRange(normalized))),
+      ]);
+      return [...own, ...descendants].map(String);
+    },
+    stat: async (path) => {
+      const files = db.transaction(FILE_STORE, 'readonly').objectStore(FILE_STORE);
+      const record = (await requestToPromise(files.get(normalizeStorePath(path)))) as FileRecord | undefined;
+      return record ? { mtimeMs: record.mtimeMs } : null;
+    },
+  };
+};
+
+/** The original localStorage store, kept for browsers that have neither OPFS nor IndexedDB. */
+export const createLocalStorageFileStore = (storage: Storage): FileStoreBridge => {
+  const toStorageKey = (path: string): string => `${LOCAL_STORAGE_FILE_PREFIX}${normalizeStorePath(path)}`;
+  const listStoredKeys = (): string[] => {
+    try {
+      return Object.keys(storage).filter((key) => key.startsWith(LOCAL_STORAGE_FILE_PREFIX));
+    } catch {
+      return [];
+    }
+  };
+
+  return {
+    exists: async (path) => {
+      try {
+        return storage.getItem(toStorageKey(path)) !== null;
+      } catch {
+        return false;
+      }
+    },
+    readText: async (path) => {
+      try {
+        return storage.getItem(toStorageKey(path));
+      } catch {
+        return null;
+      }
+    },
+    writeText: async (path, content) => {
+      storage.setItem(toStorageKey(path), content);
+    },
+    appendText: async (path, content) => {
+      const key = toStorageKey(path);
+      const current = storage.getItem(key) ?? '';
+      storage.setItem(key, `${current}${content}`);
+    },
+    flush: async () => {
+      // localStorage writes are synchronous.
+    },
+    remove: async (path) => {
+      const exactKey = toStorageKey(path);
+      const prefixKey = `${exactKey}/`;
+      try {
+        storage.removeItem(exactKey);
+        listStoredKeys()
+          .filter((key) => key.startsWith(prefixKey))
+          .forEach((key) => {
+            storage.removeItem(key);
+          });
+      } catch {
+        // ignore
+      }
+    },
+    list: async (prefix) => {
+      const normalizedPrefix = normalizeStorePath(prefix);
+      return listStoredKeys()
+        .map((key) => key.slice(LOCAL_STORAGE_FILE_PREFIX.length))
+        .filter((path) => path.startsWith(normalizedPrefix));
+    },
+    stat: async () => null,
+  };
+};
+
+/**
+ * Moves files saved by earlier web builds under `planner.fs:` keys into `target`. Each key is
+ * removed only after its file was written, so an interrupted migration resumes on the next start.
+ */
+export const migrateLocalStorageFiles = async (target: FileStoreBridge, storage: Storage): Promise<number> => {
+  let keys: string[];
+  try {
+    keys = Object.keys(storage).filter((key) => key.startsWith(LOCAL_STORAGE_FILE_PREFIX));
+  } catch {
+    return 0;
+  }
+
+  let migrated = 0;
+  for (const key of keys) {
+    const content = storage.getItem(key);
+    if (content === null) continue;
+    try {
+      await target.writeText(key.slice(LOCAL_STORAGE_FILE_PREFIX.length), content);
+      storage.removeItem(key);
+      migrated += 1;
+    } catch (error) {
+      console.warn('Failed to migrate web file from localStorage', key, error);
+    }
+  }
+  return migrated;
+};
+
+const openOpfsRoot = async (): Promise<OpfsDirectoryHandle | null> => {
+  try {
+    if (typeof navigator === 'undefined' || typeof navigator.storage?.getDirectory !== 'function') return null;
+    // Some browsers expose OPFS but only allow writing through sync handles in workers.
+    const fileHandleClass = (globalThis as { FileSystemFileHandle?: { prototype: object } }).FileSystemFileHandle;
+    if (!fileHandleClass || typeof (fileHandleClass.prototype as Partial<OpfsFileHandle>).createWritable !== 'function') {
+      return null;
+    }
+    return (await navigator.storage.getDirectory()) as unknown as OpfsDirectoryHandle;
+  } catch {
+    return null;
+  }
+};
+
+const openBackend = async (): Promise<FileStoreBridge> => {
+  const storage = window.localStorage;
+  const root = await openOpfsRoot();
+  let store: FileStoreBridge | null = root ? createOpfsFileStore(root) : null;
+  if (!store && typeof indexedDB !== 'undefined') {
+    store = await openFileStoreDb()
+      .then(createIndexedDbFileStore)
+      .catch(() => null);
+  }
+  if (!store) return createLocalStorageFileStore(storage);
+
+  // Best effort: ask the browser not to evict mission data under storage pressure.
+  void navigator.storage?.persist?.().catch(() => false);
+  await migrateLocalStorageFiles(store, storage);
+  return store;
+};
+
+/**
+ * File store of the web build: OPFS where writable streams are available, IndexedDB otherwise and
+ * localStorage as a last resort. The backend is chosen, and old localStorage files migrated, on first use.
+ */
+export const createWebFileStore = (): FileStoreBridge => {
+  let backendPromise: Promise<FileStoreBridge> | null = null;
+  const backend = (): Promise<FileStoreBridge> => {
+    backendPromise ??= openBackend();
+    return backendPromise;
+  };
+  return withPathQueue({
+    exists: async (path) => (await backend()).exists(path),
+    readText: async (path) => (await backend()).readText(path),
+    writeText: async (path, content) => (await backend()).writeText(path, content),
+    appendText: async (path, content) => (await backend()).appendText(path, content),
+    flush: async (path) => (await backend()).flush(path),
+    remove: async (path) => (await backend()).remove(path),
+    list: async (prefix) => (await backend()).list(prefix),
+    stat: async (path) => (await backend()).stat(path),
+  });
+};
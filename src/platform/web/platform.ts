@@ -1,6 +1,7 @@
 import type { Platform } from "@/platform/contracts";
 import { detectElectron } from "@/platform/runtime";
 import { resolveMapConfig } from "@/platform/mapConfig";
+import { createWebFileStore } from "@/platform/web/fileStore";
 
 const readRememberedPath = (key: string): string | null => {
   try {
@@ -30,19 +31,6 @@ const rememberPath = (key: string, value: string) => {
 
 const DEFAULT_MISSIONS_DIR = "C:/Missions";
 const DEFAULT_EXPORTS_DIR = "C:/Exports";
-const FILE_STORE_PREFIX = "planner.fs:";
-
-const normalizePath = (path: string): string => path.replace(/\\/g, "/").replace(/\/+/g, "/").trim();
-const toStorageKey = (path: string): string => `${FILE_STORE_PREFIX}${normalizePath(path)}`;
-
-const listStoredKeys = (): string[] => {
-  try {
-    return Object.keys(window.localStorage).filter((key) => key.startsWith(FILE_STORE_PREFIX));
-  } catch {
-    return [];
-  }
-};
-
 const mapConfig = resolveMapConfig(import.meta.env as Record<string, string | undefined>);
 
 export const webPlatform: Platform = {
@@ -94,6 +82,22 @@ export const webPlatform: Platform = {
       return normalized;
     },
   },
+  localTiles: {
+    // Browsers cannot read MBTiles or tile folders from disk; the online basemap stays in use.
+    tileUrlTemplate: () => null,
+    pickSource: async (kind) => {
+      const value = window.prompt(kind === 'mbtiles' ? "Путь к файлу MBTiles" : "Путь к папке с тайлами", "");
+      const normalized = value?.trim();
+      return normalized ? normalized : null;
+    },
+    readMetadata: async () => null,
+    registerSource: async () => null,
+  },
+  report: {
+    // Browsers can neither screenshot the page nor print to a file; the report keeps its vector map.
+    captureView: async () => null,
+    printToPdf: async () => false,
+  },
   settings: {
     readJson: async <T,>(key: string): Promise<T | null> => {
       try {
@@ -119,54 +123,7 @@ export const webPlatform: Platform = {
       }
     },
   },
-  fileStore: {
-    exists: async (path) => {
-      try {
-        return window.localStorage.getItem(toStorageKey(path)) !== null;
-      } catch {
-        return false;
-      }
-    },
-    readText: async (path) => {
-      try {
-        return window.localStorage.getItem(toStorageKey(path));
-      } catch {
-        return null;
-      }
-    },
-    writeText: async (path, content) => {
-      window.localStorage.setItem(toStorageKey(path), content);
-    },
-    appendText: async (path, content) => {
-      const key = toStorageKey(path);
-      const current = window.localStorage.getItem(key) ?? '';
-      window.localStorage.setItem(key, `${current}${content}`);
-    },
-    flush: async () => {
-      // localStorage writes are synchronous in web fallback.
-    },
-    remove: async (path) => {
-      const exactKey = toStorageKey(path);
-      const prefixKey = `${exactKey}/`;
-      try {
-        window.localStorage.removeItem(exactKey);
-        listStoredKeys()
-          .filter((key) => key.startsWith(prefixKey))
-          .forEach((key) => {
-            window.localStorage.removeItem(key);
-          });
-      } catch {
-        // ignore
-      }
-    },
-    list: async (prefix) => {
-      const normalizedPrefix = normalizePath(prefix);
-      return listStoredKeys()
-        .map((key) => key.slice(FILE_STORE_PREFIX.length))
-        .filter((path) => path.startsWith(normalizedPrefix));
-    },
-    stat: async () => null,
-  },
+  fileStore: createWebFileStore(),
   raster: {
     convertTiffBase64ToPngBase64: async () => null,
     readSiblingTfwTextByTifPath: async () => null,
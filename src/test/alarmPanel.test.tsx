@@ -0,0 +1,41 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import AlarmPanel from '@/components/map/AlarmPanel';
+import type { ActiveAlarm } from '@/features/mission';
+
+const createAlarm = (key: string, acknowledgedAt: number | null): ActiveAlarm => ({
+  key,
+  rule_id: 'rule-1',
+  kind: 'max_depth',
+  subject_id: key,
+  subject_name: `Водолаз ${key}`,
+  message: 'Глубина 45.0 м больше 40 м',
+  raised_at: Date.now(),
+  acknowledged_at: acknowledgedAt,
+});
+
+describe('AlarmPanel', () => {
+  it('renders nothing without alarms', () => {
+    const { container } = render(<AlarmPanel alarms={[]} onAcknowledge={() => {}} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('acknowledges a single alarm or all of them', () => {
+    const onAcknowledge = vi.fn();
+    render(
+      <AlarmPanel
+        alarms={[createAlarm('1', null), createAlarm('2', null), createAlarm('3', Date.now())]}
+        onAcknowledge={onAcknowledge}
+      />,
+    );
+
+    expect(screen.getByText('Тревоги: 3')).toBeInTheDocument();
+    expect(screen.getByText('Водолаз 1 · Максимальная глубина')).toBeInTheDocument();
+    expect(screen.getAllByRole('button', { name: 'Подтвердить тревогу' })).toHaveLength(2);
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Подтвердить тревогу' })[1]);
+    expect(onAcknowledge).toHaveBeenLastCalledWith(['2']);
+    fireEvent.click(screen.getByRole('button', { name: 'Подтвердить все' }));
+    expect(onAcknowledge).toHaveBeenLastCalledWith('all');
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { FileStoreBridge } from '@/platform/contracts';
+import {
+  MIN_STALE_FIX_THRESHOLD_S,
+  acknowledgeAlarms,
+  appendAlarmLog,
+  createAlarmRule,
+  evaluateAlarmRules,
+  normalizeAlarmRules,
+  reconcileAlarms,
+  type AlarmEvaluationContext,
+  type AlarmRule,
+} from '@/features/mission';
+
+const ORIGIN = { lat: 59.9, lon: 30.3 };
+const M_PER_DEG_LAT = (6371000 * Math.PI) / 180;
+const M_PER_DEG_LON = M_PER_DEG_LAT * Math.cos((ORIGIN.lat * Math.PI) / 180);
+
+// Local metric grid around ORIGIN: x = East, y = North.
+const fromXY = (x: number, y: number) => ({
+  lat: ORIGIN.lat + y / M_PER_DEG_LAT,
+  lon: ORIGIN.lon + x / M_PER_DEG_LON,
+});
+
+const NOW = 1_700_000_000_000;
+
+const createContext = (overrides: Partial<AlarmEvaluationContext> = {}): AlarmEvaluationContext => ({
+  agents: [
+    { uid: 'd1', title: 'Водолаз 1', fix: { ...fromXY(0, 0), depth: 12, received_at: NOW } },
+    { uid: 'd2', title: 'Водолаз 2', fix: { ...fromXY(50, 0), depth: 45, received_at: NOW - 60_000 } },
+  ],
+  baseStation: fromXY(0, 150),
+  zones: [
+    {
+      id: 'zone-1',
+      name: 'Зона',
+      points: [fromXY(-20, -20), fromXY(20, -20), fromXY(20, 20), fromXY(-20, 20)],
+      holes: [[fromXY(-5, -5), fromXY(5, -5), fromXY(5, 5), fromXY(-5, 5)]],
+    },
+  ],
+  buoys: [
+    { buoy_id: 1, name: 'Буй 1', battery_v: 12.4 },
+    { buoy_id: 2, name: 'Буй 2', battery_v: 10.2 },
+    { buoy_id: 3, name: 'Буй 3', battery_v: null },
+  ],
+  nowMs: NOW,
+  ...overrides,
+});
+
+const rule = (kind: AlarmRule['kind'], overrides: Partial<AlarmRule> = {}): AlarmRule => ({
+  ...createAlarmRule(kind),
+  id: `rule-${kind}`,
+  ...overrides,
+});
+
+const subjects = (rules: AlarmRule[], context = createContext()) =>
+  evaluateAlarmRules(rules, context).map((item) => item.subject_id);
+
+describe('alarms', () => {
+  it('evaluates zone exit and entry against zone holes', () => {
+    // d1 sits inside the hole, so it is outside the zone; d2 is outside the outer ring.
+    expect(subjects([rule('zone_exit', { zone_id: 'zone-1' })])).toEqual(['d1', 'd2']);
+    expect(subjects([rule('zone_enter', { zone_id: 'zone-1' })])).toEqual([]);
+
+    const inRing = createContext({
+      agents: [{ uid: 'd1', title: 'Водолаз 1', fix: { ...fromXY(10, 10), depth: 5, received_at: NOW } }],
+    });
+    expect(subjects([rule('zone_enter', { zone_id: 'zone-1' })], inRing)).toEqual(['d1']);
+    expect(subjects([rule('zone_exit', { zone_id: 'zone-1', agent_uid: 'd1' })], inRing)).toEqual([]);
+  });
+
+  it('evaluates depth, base distance, separation and stale fixes', () => {
+    expect(subjects([rule('max_depth', { threshold: 40 })])).toEqual(['d2']);
+    expect(subjects([rule('base_distance', { threshold: 152 })])).toEqual(['d2']);
+    expect(subjects([rule('base_distance', { threshold: 152 })], createContext({ baseStation: null }))).toEqual([]);
+    expect(
+      subjects([rule('diver_separation', { agent_uid: 'd1', other_agent_uid: 'd2', threshold: 40 })]),
+    ).toEqual(['d1+d2']);
+    expect(
+      subjects([rule('diver_separation', { agent_uid: 'd1', other_agent_uid: 'd2', threshold: 60 })]),
+    ).toEqual([]);
+    expect(subjects([rule('stale_fix', { threshold: 30 })])).toEqual(['d2']);
+  });
+
+  it('flags low beacon battery and skips disabled rules', () => {
+    const conditions = evaluateAlarmRules([rule('low_battery', { threshold: 11 })], createContext());
+    expect(conditions.map((item) => item.subject_id)).toEqual(['buoy-2']);
+    expect(conditions[0].message).toContain('10.2 В');
+    expect(subjects([rule('low_battery', { enabled: false })])).toEqual([]);
+  });
+
+  it('raises, keeps, acknowledges and clears alarms with log entries', () => {
+    const rules = [rule('max_depth', { threshold: 40 })];
+    const first = reconcileAlarms([], evaluateAlarmRules(rules, createContext()), NOW);
+    expect(first.active).toHaveLength(1);
+    expect(first.log.map((entry) => entry.event)).toEqual(['raised']);
+    expect(first.log[0].at).toBe(new Date(NOW).toISOString());
+
+    const acknowledged = acknowledgeAlarms(first.active, 'all', NOW + 1000);
+    expect(acknowledged.active[0].acknowledged_at).toBe(NOW + 1000);
+    expect(acknowledged.log.map((entry) => entry.event)).toEqual(['acknowledged']);
+    expect(acknowledgeAlarms(acknowledged.active, 'all', NOW + 2000).log).toEqual([]);
+
+    const ongoing = reconcileAlarms(acknowledged.active, evaluateAlarmRules(rules, createContext()), NOW + 3000);
+    expect(ongoing.log).toEqual([]);
+    expect(ongoing.active[0].raised_at).toBe(NOW);
+    expect(ongoing.active[0].acknowledged_at).toBe(NOW + 1000);
+
+    const cleared = reconcileAlarms(ongoing.active, [], NOW + 4000);
+    expect(cleared.active).toEqual([]);
+    expect(cleared.log.map((entry) => entry.event)).toEqual(['cleared']);
+  });
+
+  it('normalizes stored rules and appends log lines to the mission folder', async () => {
+    const rules = normalizeAlarmRules([
+      { id: 'a', kind: 'stale_fix', threshold: 1 },
+      { id: 'b', kind: 'max_depth', enabled: false, agent_uid: 'd1', threshold: 'deep' },
+      { id: 'c', kind: 'unknown' },
+      null,
+    ]);
+    expect(rules).toHaveLength(2);
+    expect(rules[0]).toMatchObject({ enabled: true, agent_uid: null, threshold: MIN_STALE_FIX_THRESHOLD_S });
+    expect(rules[1]).toMatchObject({ enabled: false, agent_uid: 'd1', threshold: 40 });
+
+    const appendText = vi.fn(async () => undefined);
+    const fileStore = { appendText } as unknown as FileStoreBridge;
+    const { log } = reconcileAlarms([], evaluateAlarmRules([rule('max_depth')], createContext()), NOW);
+    await appendAlarmLog(fileStore, 'C:\\missions\\m1\\', log);
+    await appendAlarmLog(fileStore, 'C:\\missions\\m1', []);
+
+    expect(appendText).toHaveBeenCalledTimes(1);
+    const [path, payload] = appendText.mock.calls[0] as unknown as [string, string];
+    expect(path).toBe('C:/missions/m1/logs/alarms.jsonl');
+    expect(JSON.parse(payload.trim())).toMatchObject({ event: 'raised', subject_id: 'd2', kind: 'max_depth' });
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, expect, it } from 'vitest';
-import { createDefaultAppSettings, mergeDefaultsWithMissionUi, normalizeAppSettings } from '@/features/settings';
+import {
+  createDefaultAppSettings,
+  mergeDefaultsWithMissionUi,
+  normalizeAppSettings,
+  normalizeMissionBasemap,
+  resolveActiveLocalTileSource,
+} from '@/features/settings';
 
 describe('app settings', () => {
   it('normalizes missing settings to defaults', () => {
@@ -82,4 +88,27 @@ describe('app settings', () => {
     expect(effective.styles.track.color).toBe('#112233');
     expect(effective.styles.track.width_px).toBe(4);
   });
+
+  it('keeps a local basemap only when its package path is set', () => {
+    const local = { kind: 'mbtiles', path: 'D:/Charts/baltic.mbtiles', attribution: '', min_zoom: 3, max_zoom: 15 };
+    const stored = normalizeAppSettings({ schema_version: 1, defaults: { basemap: { source: 'local', local } } });
+    expect(stored.defaults.basemap).toEqual({ source: 'local', local });
+    const empty = normalizeAppSettings({ schema_version: 1, defaults: { basemap: { source: 'local', local: { ...local, path: '' } } } });
+    expect(empty.defaults.basemap).toEqual({ source: 'online', local: null });
+    expect(createDefaultAppSettings().defaults.basemap.source).toBe('online');
+  });
+
+  it('lets a mission override the default basemap', () => {
+    const appLocal = { kind: 'directory' as const, path: '/charts/app', attribution: '', min_zoom: 0, max_zoom: 16 };
+    const missionLocal = { kind: 'mbtiles' as const, path: '/charts/mission.mbtiles', attribution: '', min_zoom: 8, max_zoom: 17 };
+    const defaults = { source: 'local' as const, local: appLocal };
+
+    expect(resolveActiveLocalTileSource(defaults, undefined)).toEqual(appLocal);
+    expect(resolveActiveLocalTileSource(defaults, { source: 'online' })).toBeNull();
+    expect(resolveActiveLocalTileSource({ source: 'online', local: null }, { source: 'local', local: missionLocal })).toEqual(
+      missionLocal,
+    );
+    expect(normalizeMissionBasemap({ source: 'local', local: { ...missionLocal, path: '' } })).toEqual({ source: 'default' });
+    expect(normalizeMissionBasemap(null)).toBeUndefined();
+  });
 });
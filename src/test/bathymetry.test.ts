@@ -0,0 +1,195 @@
+import { describe, expect, it } from 'vitest';
+import { parseCrsDefinition } from '@/features/geo/crsRegistry';
+import {
+  asciiGridToDepthPoints,
+  parseEsriAsciiGrid,
+  parseXyzPoints,
+  trackPointsToDepthPoints,
+  type DepthPoint,
+} from '@/features/map/bathymetry/depthPoints';
+import {
+  gridDepthPoints,
+  parseBathymetryGrid,
+  sampleBathymetryGrid,
+  serializeBathymetryGrid,
+} from '@/features/map/bathymetry/grid';
+import { depthToRgb, renderBathymetryRgba } from '@/features/map/bathymetry/colorRamp';
+import {
+  depthContoursToGeoJson,
+  generateDepthContours,
+  parseDepthContourGeoJson,
+} from '@/features/map/bathymetry/contours';
+
+const METERS_PER_DEGREE_LAT = 111_320;
+
+/** Soundings on a regular 10 m lattice of a slope that deepens eastwards by 1 m per 10 m. */
+const slopePoints = (): DepthPoint[] => {
+  const points: DepthPoint[] = [];
+  const lat0 = 60;
+  const metersPerDegreeLon = METERS_PER_DEGREE_LAT * Math.cos((lat0 * Math.PI) / 180);
+  for (let j = 0; j <= 10; j += 1) {
+    for (let i = 0; i <= 10; i += 1) {
+      points.push({ lat: lat0 + (j * 10) / METERS_PER_DEGREE_LAT, lon: 30 + (i * 10) / metersPerDegreeLon, depth: 2 + i });
+    }
+  }
+  return points;
+};
+
+describe('bathymetry input parsing', () => {
+  it('reads XYZ files with headers, decimal commas and elevation sign', () => {
+    const csv = 'lon,lat,depth\n30.1,60.1,5.5\n30.2,60.2,7\n';
+    expect(parseXyzPoints(csv)).toEqual([
+      { lat: 60.1, lon: 30.1, depth: 5.5 },
+      { lat: 60.2, lon: 30.2, depth: 7 },
+    ]);
+
+    const semicolon = '# survey\n30,1;60,1;-5,5\n30,2;60,2;-7\n';
+    expect(parseXyzPoints(semicolon).map((point) => point.depth)).toEqual([5.5, 7]);
+  });
+
+  it('requires a CRS for projected coordinates', () => {
+    const text = '500000 6650000 12\n500010 6650000 13\n';
+    expect(() => parseXyzPoints(text)).toThrow(/систему координат/);
+    const [point] = parseXyzPoints(text, parseCrsDefinition('EPSG:32637'));
+    expect(point.lon).toBeCloseTo(39, 4);
+    expect(point.lat).toBeGreaterThan(59.9);
+    expect(point.depth).toBe(12);
+  });
+
+  it('reads Esri ASCII grids with nodata cells', () => {
+    const grid = parseEsriAsciiGrid(
+      ['ncols 3', 'nrows 2', 'xllcenter 30', 'yllcenter 60', 'cellsize 0.001', 'NODATA_value -9999', '1 2 3', '4 -9999 6'].join(
+        '\n',
+      ),
+    );
+    expect(grid.cols).toBe(3);
+    expect(grid.xllCorner).toBeCloseTo(29.9995, 6);
+    expect(Number.isNaN(grid.values[4])).toBe(true);
+
+    const points = asciiGridToDepthPoints(grid, null);
+    expect(points).toHaveLength(5);
+    // The first row of the file is the northern one.
+    expect(points[0].lat).toBeCloseTo(60.001, 6);
+    expect(points[0].depth).toBe(1);
+  });
+
+  it('takes soundings from track points that recorded depth', () => {
+    const points = trackPointsToDepthPoints([
+      { timestamp: '2024-01-01T00:00:00Z', lat: 60, lon: 30, segment_id: 1, depth_m: 4.2 },
+      { timestamp: '2024-01-01T00:00:01Z', lat: 60.1, lon: 30.1, segment_id: 1 },
+    ]);
+    expect(points).toEqual([{ lat: 60, lon: 30, depth: 4.2 }]);
+  });
+});
+
+describe('bathymetry gridding', () => {
+  it('interpolates a slope and samples it under the cursor', () => {
+    const points = slopePoints();
+    const grid = gridDepthPoints(points, { method: 'idw', cellSizeM: 5, searchRadiusM: 15 });
+    expect(grid.cols).toBe(20);
+    expect(grid.rows).toBe(20);
+    expect(grid.minDepth).toBeGreaterThanOrEqual(2);
+    expect(grid.maxDepth).toBeLessThanOrEqual(12);
+
+    const middle = points[5 * 11 + 5];
+    expect(sampleBathymetryGrid(grid, middle.lat, middle.lon)).toBeCloseTo(7, 0);
+    expect(sampleBathymetryGrid(grid, 61, 30)).toBeNull();
+
+    const nearest = gridDepthPoints(points, { method: 'nearest', cellSizeM: 5, searchRadiusM: 15 });
+    expect(Number.isInteger(nearest.values[0])).toBe(true);
+  });
+
+  it('leaves cells beyond the search radius empty', () => {
+    const points: DepthPoint[] = [
+      { lat: 60, lon: 30, depth: 5 },
+      { lat: 60 + 100 / METERS_PER_DEGREE_LAT, lon: 30, depth: 9 },
+    ];
+    const grid = gridDepthPoints(points, { method: 'idw', cellSizeM: 10, searchRadiusM: 20 });
+    const midLat = 60 + 50 / METERS_PER_DEGREE_LAT;
+    expect(sampleBathymetryGrid(grid, midLat, 30)).toBeNull();
+  });
+
+  it('round-trips the grid file', () => {
+    const grid = gridDepthPoints(slopePoints(), { method: 'idw', cellSizeM: 10, searchRadiusM: 25 });
+    const restored = parseBathymetryGrid(serializeBathymetryGrid(grid));
+    expect(restored.bounds).toEqual(grid.bounds);
+    expect(Array.from(restored.values)).toEqual(Array.from(grid.values));
+    expect(() => parseBathymetryGrid('{"schema_version":1}')).toThrow(/повреждён/);
+  });
+
+  it('rejects grids that would be too large', () => {
+    expect(() =>
+      gridDepthPoints(
+        [
+          { lat: 60, lon: 30, depth: 1 },
+          { lat: 61, lon: 31, depth: 2 },
+        ],
+        { method: 'idw', cellSizeM: 1, searchRadiusM: 5 },
+      ),
+    ).toThrow(/слишком велика/);
+  });
+
+  it('colours shallow cells lighter than deep ones', () => {
+    const [shallow] = depthToRgb(0, 0, 10);
+    const [deep] = depthToRgb(10, 0, 10);
+    expect(shallow).toBeGreaterThan(deep);
+
+    const grid = gridDepthPoints(slopePoints(), { method: 'idw', cellSizeM: 10, searchRadiusM: 25 });
+    const pixels = renderBathymetryRgba(grid);
+    expect(pixels).toHaveLength(grid.cols * grid.rows * 4);
+    expect(pixels[3]).toBe(255);
+  });
+});
+
+describe('bathymetry contours', () => {
+  it('traces straight isobaths across a slope', () => {
+    const grid = gridDepthPoints(slopePoints(), { method: 'idw', cellSizeM: 5, searchRadiusM: 15 });
+    const contours = generateDepthContours(grid, 2);
+    const depths = [...new Set(contours.map((contour) => contour.depth))];
+    expect(depths.every((depth) => depth % 2 === 0)).toBe(true);
+    expect(depths).toContain(6);
+
+    // On an eastward slope an isobath runs north–south at a near-constant longitude.
+    const six = contours.filter((contour) => contour.depth === 6).sort((a, b) => b.points.length - a.points.length)[0];
+    const lons = six.points.map((point) => point.lon);
+    const lats = six.points.map((point) => point.lat);
+    expect(Math.max(...lats) - Math.min(...lats)).toBeGreaterThan(50 / METERS_PER_DEGREE_LAT);
+    expect(Math.max(...lons) - Math.min(...lons)).toBeLessThan(Math.max(...lats) - Math.min(...lats));
+    for (const point of six.points) {
+      expect(sampleBathymetryGrid(grid, point.lat, point.lon)).toBeCloseTo(6, 0);
+    }
+  });
+
+  it('closes loops around a hole', () => {
+    const points: DepthPoint[] = [];
+    for (let j = -5; j <= 5; j += 1) {
+      for (let i = -5; i <= 5; i += 1) {
+        const depth = 10 - Math.hypot(i, j);
+        points.push({ lat: 60 + (j * 10) / METERS_PER_DEGREE_LAT, lon: 30 + (i * 20) / METERS_PER_DEGREE_LAT, depth });
+      }
+    }
+    const grid = gridDepthPoints(points, { method: 'nearest', cellSizeM: 10, searchRadiusM: 12 });
+    const loop = generateDepthContours(grid, 8).find((contour) => contour.depth === 8);
+    expect(loop).toBeDefined();
+    expect(loop?.points[0]).toEqual(loop?.points[loop.points.length - 1]);
+  });
+
+  it('converts contours to overlay features with depth layers and labels', () => {
+    const data = parseDepthContourGeoJson(
+      depthContoursToGeoJson([
+        {
+          depth: 5,
+          points: [
+            { lat: 60, lon: 30 },
+            { lat: 60.001, lon: 30 },
+            { lat: 60.002, lon: 30.001 },
+          ],
+        },
+      ]),
+    );
+    expect(data.layers).toEqual([{ name: '5 м', color: '#1e3a8a', visible: true }]);
+    expect(data.features).toHaveLength(2);
+    expect(data.features[1]).toMatchObject({ type: 'point', point: { lat: 60.001, lon: 30 }, label: { text: '5' } });
+    expect(() => parseDepthContourGeoJson('{}')).toThrow(/повреждён/);
+  });
+});
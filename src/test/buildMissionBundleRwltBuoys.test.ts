@@ -49,6 +49,7 @@ describe('buildMissionBundle rwlt buoys', () => {
         { buoy_id: 2, name: 'Буй Юг', marker_color: '#ef4444', marker_size_px: 22 },
       ],
       hiddenTrackIds: [],
+      alarmRules: [],
       baseStationTelemetry: null,
       mapView: null,
       coordPrecision: 6,
@@ -57,6 +58,7 @@ describe('buildMissionBundle rwlt buoys', () => {
       styles: defaults.styles,
       rasterOverlays: [],
       vectorOverlays: [],
+      bathymetryLayers: [],
       leftPanelSectionsCollapsed: {
         layers: false,
         agents: false,
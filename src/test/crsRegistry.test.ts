@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { utmToWgs84 } from '@/features/geo/utm';
+import { getCrsEllipsoid } from '@/features/geo/crs';
+import { mercatorForward, transverseMercatorForward } from '@/features/geo/projections';
+import {
+  createCrsToWgs84Transformer,
+  formatCrsLabel,
+  parseCrsDefinition,
+  resolveEpsgDefinition,
+} from '@/features/geo/crsRegistry';
+
+const PULKOVO_GK7_WKT = `PROJCS["Pulkovo 1942 / Gauss-Kruger zone 7",
+  GEOGCS["Pulkovo 1942",
+    DATUM["Pulkovo_1942",
+      SPHEROID["Krassowsky 1940",6378245,298.3],
+      TOWGS84[23.57,-140.95,-79.8,0,0.35,0.79,-0.22]],
+    PRIMEM["Greenwich",0],
+    UNIT["degree",0.0174532925199433]],
+  PROJECTION["Transverse_Mercator"],
+  PARAMETER["latitude_of_origin",0],
+  PARAMETER["central_meridian",39],
+  PARAMETER["scale_factor",1],
+  PARAMETER["false_easting",7500000],
+  PARAMETER["false_northing",0],
+  UNIT["metre",1]]`;
+
+describe('CRS registry', () => {
+  it('resolves EPSG codes from the built-in catalogue', () => {
+    expect(formatCrsLabel(resolveEpsgDefinition(28407)!)).toBe('СК-42 / Гаусс–Крюгер, зона 7 (EPSG:28407)');
+    expect(resolveEpsgDefinition(20907)?.label).toBe('ГСК-2011 / Гаусс–Крюгер, зона 7');
+    expect(resolveEpsgDefinition(12345)).toBeNull();
+    expect(() => parseCrsDefinition('EPSG:12345')).toThrow(/нет в справочнике/);
+    expect(parseCrsDefinition('epsg: 32637').label).toBe('WGS 84 / UTM 37N');
+  });
+
+  it('matches the dedicated UTM conversion for WGS 84 / UTM codes', () => {
+    const toWgs84 = createCrsToWgs84Transformer(parseCrsDefinition('EPSG:32737'));
+    const actual = toWgs84({ x: 412345.6, y: 9123456.7 });
+    const expected = utmToWgs84({ easting: 412345.6, northing: 9123456.7, zone: 37, hemisphere: 'south' });
+    expect(actual.lat).toBeCloseTo(expected.lat, 7);
+    expect(actual.lon).toBeCloseTo(expected.lon, 7);
+  });
+
+  it('inverts Gauss–Krüger coordinates and shifts Pulkovo 1942 into WGS 84', () => {
+    const sk42 = { lat: 55.751477, lon: 37.621063 };
+    const planar = transverseMercatorForward(sk42, getCrsEllipsoid('sk42'), {
+      lat0: 0,
+      lon0: 39,
+      k0: 1,
+      x0: 7_500_000,
+      y0: 0,
+    });
+    const wgs = createCrsToWgs84Transformer(parseCrsDefinition('28407'))(planar);
+    const geographic = createCrsToWgs84Transformer(parseCrsDefinition('EPSG:4284'))({ x: sk42.lon, y: sk42.lat });
+    expect(wgs.lat).toBeCloseTo(geographic.lat, 7);
+    expect(wgs.lon).toBeCloseTo(geographic.lon, 7);
+    // In Moscow the Pulkovo 1942 datum is ~120 m east of WGS 84 and only a few metres south.
+    expect(sk42.lon - wgs.lon).toBeGreaterThan(0.0016);
+    expect(sk42.lon - wgs.lon).toBeLessThan(0.0021);
+    expect(Math.abs(wgs.lat - sk42.lat)).toBeLessThan(0.0001);
+  });
+
+  it('parses proj4 and WKT definitions equivalent to the EPSG entry', () => {
+    const planar = { x: 7_413_000, y: 6_182_000 };
+    const epsg = createCrsToWgs84Transformer(parseCrsDefinition('EPSG:28407'))(planar);
+
+    const proj4 = parseCrsDefinition(
+      '+proj=tmerc +lat_0=0 +lon_0=39 +k=1 +x_0=7500000 +y_0=0 +ellps=krass +towgs84=23.57,-140.95,-79.8,0,0.35,0.79,-0.22 +units=m +no_defs',
+    );
+    expect(proj4.projection).toMatchObject({ kind: 'tmerc', lon0: 39, x0: 7_500_000 });
+    const fromProj4 = createCrsToWgs84Transformer(proj4)(planar);
+    expect(fromProj4.lat).toBeCloseTo(epsg.lat, 9);
+    expect(fromProj4.lon).toBeCloseTo(epsg.lon, 9);
+
+    const wkt = parseCrsDefinition(PULKOVO_GK7_WKT);
+    expect(wkt.label).toBe('Pulkovo 1942 / Gauss-Kruger zone 7');
+    const fromWkt = createCrsToWgs84Transformer(wkt)(planar);
+    expect(fromWkt.lat).toBeCloseTo(epsg.lat, 9);
+    expect(fromWkt.lon).toBeCloseTo(epsg.lon, 9);
+  });
+
+  it('round-trips Web Mercator coordinates without a datum shift', () => {
+    const moscow = { lat: 55.75, lon: 37.6 };
+    const planar = mercatorForward(moscow, { a: 6378137, f: 0 }, { lon0: 0, k0: 1, x0: 0, y0: 0 });
+    expect(planar.x).toBeCloseTo(4_185_612.85, 1);
+    expect(planar.y).toBeCloseTo(7_508_807.85, 1);
+
+    for (const source of [
+      'EPSG:3857',
+      '900913',
+      '+proj=merc +a=6378137 +b=6378137 +lat_ts=0 +lon_0=0 +x_0=0 +y_0=0 +k=1 +units=m +nadgrids=@null +wktext +no_defs',
+      `PROJCS["WGS 84 / Pseudo-Mercator",
+        GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563]],
+          PRIMEM["Greenwich",0],UNIT["degree",0.0174532925199433]],
+        PROJECTION["Popular_Visualisation_Pseudo_Mercator"],PARAMETER["central_meridian",0],PARAMETER["scale_factor",1],
+        PARAMETER["false_easting",0],PARAMETER["false_northing",0],UNIT["metre",1],
+        AUTHORITY["EPSG","3857"]]`,
+    ]) {
+      const point = createCrsToWgs84Transformer(parseCrsDefinition(source))(planar);
+      expect(point.lat).toBeCloseTo(moscow.lat, 9);
+      expect(point.lon).toBeCloseTo(moscow.lon, 9);
+    }
+  });
+
+  it('supports local grids in custom units and rejects unknown input', () => {
+    const local = parseCrsDefinition('+proj=tmerc +lon_0=38.48333 +x_0=1250000 +y_0=-5712900.566 +ellps=krass +units=ft');
+    expect(local.unitsToMeters).toBeCloseTo(0.3048, 6);
+    const point = createCrsToWgs84Transformer(local)({ x: 1250000 / 0.3048, y: (6_000_000 - 5712900.566) / 0.3048 });
+    expect(point.lon).toBeCloseTo(38.48333, 3);
+
+    expect(parseCrsDefinition('+proj=longlat +datum=WGS84').projection.kind).toBe('longlat');
+    expect(() => parseCrsDefinition('+proj=lcc +lat_1=50')).toThrow(/lcc/);
+    expect(() => parseCrsDefinition('PROJCS["broken"')).toThrow(/WKT/);
+    expect(() => parseCrsDefinition('зона 7')).toThrow(/Не удалось распознать/);
+  });
+});
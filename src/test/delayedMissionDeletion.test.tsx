@@ -34,6 +34,16 @@ const createPlatform = (
   fs: {
     pickDirectory: async () => null,
   },
+  localTiles: {
+    tileUrlTemplate: () => null,
+    pickSource: async () => null,
+    readMetadata: async () => null,
+    registerSource: async () => null,
+  },
+  report: {
+    captureView: async () => null,
+    printToPdf: async () => false,
+  },
   settings: {
     readJson: async () => null,
     writeJson: async () => {},
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildRouteProfile,
+  buildTrackProfile,
+  computeDiveStats,
+  profileToCsv,
+  type ProfileSample,
+  type TrackPoint,
+} from '@/features/mission';
+
+const METERS_PER_DEGREE_LAT = 111_320;
+const START_MS = Date.parse('2024-06-01T10:00:00Z');
+
+/** Timed samples at one position from a list of [seconds, depth] pairs. */
+const diveSamples = (profile: Array<[number, number]>): ProfileSample[] =>
+  profile.map(([seconds, depthM]) => ({
+    timeMs: START_MS + seconds * 1000,
+    distanceM: 0,
+    lat: 60,
+    lon: 30,
+    depthM,
+    speedMps: null,
+    courseDeg: null,
+  }));
+
+describe('depth profile', () => {
+  it('accumulates distance along a track without bridging segment breaks', () => {
+    const step = 10 / METERS_PER_DEGREE_LAT;
+    const points: TrackPoint[] = [
+      { timestamp: '2024-06-01T10:00:00Z', lat: 60, lon: 30, segment_id: 1, depth_m: 2 },
+      { timestamp: '2024-06-01T10:00:10Z', lat: 60 + step, lon: 30, segment_id: 1, depth_m: 3, sog_mps: 1.5 },
+      { timestamp: '2024-06-01T10:05:00Z', lat: 61, lon: 30, segment_id: 2 },
+      { timestamp: '2024-06-01T10:05:10Z', lat: 61 + step, lon: 30, segment_id: 2 },
+    ];
+    const samples = buildTrackProfile(points);
+
+    expect(samples.map((sample) => Math.round(sample.distanceM))).toEqual([0, 10, 10, 20]);
+    // Recorded speed wins; otherwise it is derived from the fixes.
+    expect(samples[1].speedMps).toBe(1.5);
+    expect(samples[3].speedMps).toBeCloseTo(1, 1);
+    expect(samples[3].courseDeg).toBeCloseTo(0, 3);
+    expect(samples[2].depthM).toBeNull();
+  });
+
+  it('samples route depth every step along the legs', () => {
+    const points = [
+      { lat: 60, lon: 30 },
+      { lat: 60 + 25 / METERS_PER_DEGREE_LAT, lon: 30 },
+    ];
+    const samples = buildRouteProfile(points, (lat) => (lat - 60) * METERS_PER_DEGREE_LAT, 10);
+
+    expect(samples).toHaveLength(4);
+    expect(samples[samples.length - 1].distanceM).toBeCloseTo(25, 0);
+    expect(samples[samples.length - 1].depthM).toBeCloseTo(25, 3);
+    expect(samples.every((sample) => sample.timeMs === null)).toBe(true);
+    expect(computeDiveStats(samples)).toBeNull();
+  });
+
+  it('summarises a dive and flags a fast ascent', () => {
+    const stats = computeDiveStats(
+      diveSamples([
+        [0, 0],
+        [60, 10],
+        [120, 20],
+        [600, 20],
+        [630, 10],
+        [660, 0.5],
+      ]),
+    );
+
+    expect(stats).not.toBeNull();
+    expect(stats?.maxDepthM).toBe(20);
+    expect(stats?.diveTimeS).toBe(600);
+    expect(stats?.bottomTimeS).toBe(540);
+    expect(stats?.maxDescentRateMpm).toBeCloseTo(10, 3);
+    expect(stats?.maxAscentRateMpm).toBeCloseTo(20, 3);
+    expect(stats?.finalAscentRateMpm).toBeCloseTo(19.5, 3);
+    expect(stats?.ascentRateExceeded).toBe(true);
+  });
+
+  it('accepts a slow ascent', () => {
+    const stats = computeDiveStats(
+      diveSamples([
+        [0, 0.2],
+        [120, 12],
+        [600, 12.2],
+        [720, 6],
+        [900, 0],
+      ]),
+    );
+    expect(stats?.ascentRateExceeded).toBe(false);
+    expect(stats?.bottomTimeS).toBe(480);
+  });
+
+  it('writes the samples as CSV', () => {
+    const csv = profileToCsv(diveSamples([[0, 1.234]]));
+    expect(csv).toBe('time,distance_m,depth_m,speed_mps,course_deg,lat,lon\n2024-06-01T10:00:00.000Z,0.0,1.23,,,60.0000000,30.0000000\n');
+  });
+});
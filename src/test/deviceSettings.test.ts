@@ -568,4 +568,54 @@ describe('equipment settings', () => {
       instance_name: 'RWLT COM Auto',
     });
   });
+
+  it('builds a runtime entry for every instance of the active profile, including several of one type', () => {
+    const schemas = loadDeviceSchemas();
+    const base = createDefaultEquipmentSettings(schemas);
+    const gnssComConfig = (comPort: string) => ({ autoDetectPort: false, comPort, baudRate: 115200 });
+
+    const runtime = buildEquipmentRuntime(
+      {
+        ...base,
+        selected_profile_id: 'profile-zima-gnss',
+        profiles: base.profiles.map((item) =>
+          item.id === 'profile-zima-gnss'
+            ? { ...item, device_instance_ids: [...item.device_instance_ids, 'gnss-com-bow', 'gnss-com-stern'] }
+            : item,
+        ),
+        device_instances: {
+          ...base.device_instances,
+          'gnss-com-bow': {
+            id: 'gnss-com-bow',
+            schema_id: 'gnss-com',
+            name: 'GNSS нос',
+            is_primary: true,
+            config: gnssComConfig('COM3'),
+          },
+          'gnss-com-stern': {
+            id: 'gnss-com-stern',
+            schema_id: 'gnss-com',
+            name: 'GNSS корма',
+            is_primary: false,
+            config: gnssComConfig('COM4'),
+          },
+        },
+      },
+      schemas,
+    );
+
+    expect(runtime.instances['gnss-com-bow']).toMatchObject({
+      schema_id: 'gnss-com',
+      comPort: 'COM3',
+      instance_id: 'gnss-com-bow',
+    });
+    expect(runtime.instances['gnss-com-stern']).toMatchObject({
+      schema_id: 'gnss-com',
+      comPort: 'COM4',
+      instance_id: 'gnss-com-stern',
+    });
+    // The legacy slot still holds the primary instance of the type.
+    expect(runtime.gnss_com?.instance_id).toBe('gnss-com-bow');
+    expect(Object.values(runtime.instances).filter((item) => item.schema_id === 'zima2r')).toHaveLength(1);
+  });
 });
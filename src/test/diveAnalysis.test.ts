@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeDiverDives,
+  createDefaultDiver,
+  detectTrackDives,
+  diveReportToCsv,
+  normalizeDivers,
+  type MissionTrackMeta,
+  type TrackPoint,
+} from '@/features/mission';
+
+const START_MS = Date.parse('2024-06-01T10:00:00Z');
+
+/** Track points at one position every 10 s, linearly between the given [seconds, depth] knots. */
+const diveTrack = (knots: Array<[number, number]>, offsetS = 0): TrackPoint[] => {
+  const points: TrackPoint[] = [];
+  for (let k = 0; k + 1 < knots.length; k += 1) {
+    const [t0, d0] = knots[k];
+    const [t1, d1] = knots[k + 1];
+    for (let t = t0; t < t1 || (k + 2 === knots.length && t === t1); t += 10) {
+      points.push({
+        timestamp: new Date(START_MS + (offsetS + t) * 1000).toISOString(),
+        lat: 60,
+        lon: 30,
+        segment_id: 1,
+        depth_m: d0 + ((d1 - d0) * (t - t0)) / (t1 - t0),
+      });
+    }
+  }
+  return points;
+};
+
+const trackMeta = (id: string, agentId: string): MissionTrackMeta => ({
+  id,
+  agent_id: agentId,
+  file: `tracks/${id}.csv`,
+  started_at: new Date(START_MS).toISOString(),
+  ended_at: null,
+  note: null,
+});
+
+// 2 min descent to 20 m, 10 min on the bottom, 1 min ascent at 20 m/min, then 5 min at the surface.
+const FAST_DIVE: Array<[number, number]> = [
+  [0, 0],
+  [120, 20],
+  [720, 20],
+  [780, 0],
+  [1080, 0],
+];
+
+describe('dive analysis', () => {
+  it('detects phases and ascent-rate violations of a dive', () => {
+    const [dive] = detectTrackDives('t1', diveTrack(FAST_DIVE), 10);
+
+    expect(dive.maxDepthM).toBe(20);
+    expect(dive.phases.map((phase) => phase.kind)).toEqual(['descent', 'level', 'ascent']);
+    expect(dive.violations).toHaveLength(1);
+    expect(dive.violations[0].maxRateMpm).toBeCloseTo(20, 3);
+    expect(dive.violations[0].fromDepthM).toBeCloseTo(20, 3);
+
+    const [slow] = detectTrackDives('t1', diveTrack(FAST_DIVE), 25);
+    expect(slow.violations).toEqual([]);
+  });
+
+  it('splits a track into dives and ignores short surfacing', () => {
+    const dives = detectTrackDives(
+      't1',
+      diveTrack([
+        [0, 0],
+        [60, 6],
+        [300, 6],
+        // Surfaced for 30 s only: still the same dive.
+        [330, 0.5],
+        [360, 6],
+        [600, 6],
+        [660, 0],
+        [1800, 0],
+        [1860, 8],
+        [2400, 8],
+        [2520, 0],
+      ]),
+    );
+    expect(dives).toHaveLength(2);
+    expect(dives[1].maxDepthM).toBe(8);
+  });
+
+  it('summarises dives per diver and flags repetitive dives across tracks', () => {
+    const diver = { ...createDefaultDiver(0), uid: 'diver-a', title: 'Иванов' };
+    const other = { ...createDefaultDiver(1), uid: 'diver-b', title: 'Петров' };
+    const summaries = analyzeDiverDives(
+      [diver, other],
+      [trackMeta('t1', 'diver-a'), trackMeta('t2', 'diver-a')],
+      {
+        t1: diveTrack(FAST_DIVE),
+        // Second dive two hours later, with a slow ascent.
+        t2: diveTrack(
+          [
+            [0, 0],
+            [120, 12],
+            [600, 12],
+            [780, 0],
+          ],
+          7200,
+        ),
+      },
+    );
+
+    expect(summaries).toHaveLength(1);
+    const [summary] = summaries;
+    expect(summary.diverTitle).toBe('Иванов');
+    expect(summary.ascentRateLimitMpm).toBe(10);
+    expect(summary.dives.map((dive) => dive.trackId)).toEqual(['t1', 't2']);
+    expect(summary.dives[0].repetitive).toBe(false);
+    expect(summary.dives[1].repetitive).toBe(true);
+    // From surfacing at 780 s to passing 1 m on the second descent.
+    expect(summary.dives[1].surfaceIntervalS).toBe(7210 - 780);
+    expect(summary.violationCount).toBe(1);
+    expect(summary.maxDepthM).toBe(20);
+
+    const csv = diveReportToCsv(summaries).split('\n');
+    expect(csv[0]).toBe(
+      'diver,dive,track_id,start,end,dive_time_s,bottom_time_s,max_depth_m,max_ascent_rate_mpm,ascent_rate_limit_mpm,ascent_violations,surface_interval_s,repetitive',
+    );
+    expect(csv[1]).toMatch(/^Иванов,1,t1,.*,1,,no$/);
+    expect(csv[2]).toMatch(/^Иванов,2,t2,.*,0,\d+,yes$/);
+  });
+
+  it('uses the ascent-rate limit configured for the diver', () => {
+    const [diver] = normalizeDivers([{ ...createDefaultDiver(0), uid: 'diver-a', max_ascent_rate_mpm: 25 }]);
+    expect(diver.max_ascent_rate_mpm).toBe(25);
+
+    const [summary] = analyzeDiverDives([diver], [trackMeta('t1', 'diver-a')], { t1: diveTrack(FAST_DIVE) });
+    expect(summary.ascentRateLimitMpm).toBe(25);
+    expect(summary.violationCount).toBe(0);
+  });
+});
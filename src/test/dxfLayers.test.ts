@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { aciToHex, resolveCadColor } from '@/features/map/dxfOverlay/colors';
+import {
+  applyDxfLayerStyles,
+  normalizeDxfLayerSettings,
+  resolveDxfLayerStates,
+  upsertDxfLayerSetting,
+} from '@/features/map/dxfOverlay/layers';
+import type { DxfOverlayGeometry } from '@/features/map/dxfOverlay/parseDxf';
+
+const point = { lat: 59.93, lon: 30.33 };
+
+const features: DxfOverlayGeometry[] = [
+  { type: 'polyline', points: [point, point], layer: 'Кабели', color: null },
+  { type: 'polyline', points: [point, point], layer: 'Кабели', color: '#00ff00' },
+  { type: 'point', point, layer: 'Подписи', color: null, label: { text: 'К-1', height: 2, rotation_deg: 0 } },
+  { type: 'point', point },
+];
+
+describe('DXF layers and colours', () => {
+  it('maps AutoCAD colour indices and true colours', () => {
+    expect(aciToHex(1)).toBe('#ff0000');
+    expect(aciToHex(10)).toBe('#ff0000');
+    expect(aciToHex(7)).toBeNull();
+    expect(aciToHex(256)).toBeNull();
+    expect(resolveCadColor({ aci: 1, trueColor: 0x123456 })).toBe('#123456');
+    expect(resolveCadColor({ aci: 0 })).toBeNull();
+  });
+
+  it('resolves layer states from drawing defaults and mission overrides', () => {
+    const states = resolveDxfLayerStates(
+      features,
+      [
+        { name: 'Кабели', color: '#ff0000', visible: true },
+        { name: 'Подписи', color: '#0000ff', visible: false },
+      ],
+      [{ name: 'Подписи', visible: true }],
+    );
+    expect(states).toEqual([
+      { name: '0', visible: true, color: null, featureCount: 1 },
+      { name: 'Кабели', visible: true, color: '#ff0000', featureCount: 2 },
+      { name: 'Подписи', visible: true, color: '#0000ff', featureCount: 1 },
+    ]);
+  });
+
+  it('hides layers and applies colour overrides before entity and layer colours', () => {
+    const settings = [
+      { name: 'Подписи', visible: false },
+      { name: '0', visible: true, color: '#abcdef' },
+    ];
+    const states = resolveDxfLayerStates(features, [{ name: 'Кабели', color: '#ff0000', visible: true }], settings);
+    const styled = applyDxfLayerStyles(features, states, settings);
+    expect(styled.map((feature) => [feature.layer ?? '0', feature.color])).toEqual([
+      ['Кабели', '#ff0000'],
+      ['Кабели', '#00ff00'],
+      ['0', '#abcdef'],
+    ]);
+  });
+
+  it('normalizes stored settings and updates a single layer', () => {
+    expect(normalizeDxfLayerSettings('bad')).toBeUndefined();
+    expect(
+      normalizeDxfLayerSettings([{ name: 'A', visible: false, color: 'red' }, { name: 'A' }, { visible: true }, { name: 'B' }]),
+    ).toEqual([
+      { name: 'A', visible: false },
+      { name: 'B', visible: true },
+    ]);
+
+    const first = upsertDxfLayerSetting(undefined, { name: 'A', visible: false }, { color: '#112233' });
+    expect(first).toEqual([{ name: 'A', visible: false, color: '#112233' }]);
+    expect(upsertDxfLayerSetting(first, { name: 'A', visible: false }, { visible: true })).toEqual([
+      { name: 'A', visible: true, color: '#112233' },
+    ]);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest';
+import {
+  appendEditHistoryEvents,
+  applyEditHistoryEvent,
+  cascadeDeleteZone,
+  createEditCommand,
+  EMPTY_EDIT_HISTORY,
+  loadEditHistory,
+  parseEditHistory,
+  pushEditCommand,
+  redoEditCommand,
+  replayEditHistory,
+  undoEditCommand,
+  writeEditHistorySnapshot,
+  type EditableMissionState,
+  type EditHistoryEvent,
+  type LaneFeature,
+} from '@/features/mission';
+import type { MapObject } from '@/features/map/model/types';
+import type { FileStoreBridge } from '@/platform/contracts';
+
+const createMemoryStore = (): FileStoreBridge & { db: Map<string, string> } => {
+  const db = new Map<string, string>();
+  return {
+    db,
+    exists: async (path) => db.has(path),
+    readText: async (path) => db.get(path) ?? null,
+    writeText: async (path, content) => {
+      db.set(path, content);
+    },
+    appendText: async (path, content) => {
+      const current = db.get(path) ?? '';
+      db.set(path, `${current}${content}`);
+    },
+    flush: async () => {},
+    remove: async (path) => {
+      db.delete(path);
+    },
+    list: async (prefix) => Array.from(db.keys()).filter((key) => key.startsWith(prefix)),
+    stat: async () => null,
+  };
+};
+
+const marker = (id: string, lat = 59.9): MapObject => ({
+  id,
+  type: 'marker',
+  name: `Маркер ${id}`,
+  visible: true,
+  geometry: { type: 'marker', point: { lat, lon: 30.3 } },
+});
+
+const zone: MapObject = {
+  id: 'zone-1',
+  type: 'zone',
+  name: 'Зона 1',
+  visible: true,
+  geometry: {
+    type: 'zone',
+    points: [
+      { lat: 59.9, lon: 30.3 },
+      { lat: 59.9, lon: 30.31 },
+      { lat: 59.91, lon: 30.31 },
+    ],
+  },
+  laneAngle: 0,
+  laneWidth: 5,
+};
+
+const lane = (index: number): LaneFeature => ({
+  type: 'Feature',
+  properties: {
+    id: `lane-${index}`,
+    kind: 'lane',
+    name: `Галс ${index}`,
+    note: null,
+    created_at: '2026-10-19T10:00:00.000Z',
+    updated_at: '2026-10-19T10:00:00.000Z',
+    parent_area_id: 'zone-1',
+    lane_index: index,
+  },
+  geometry: {
+    type: 'LineString',
+    coordinates: [
+      [30.3, 59.9],
+      [30.31, 59.9],
+    ],
+  },
+});
+
+const initialState = (): EditableMissionState => ({
+  objects: [marker('m1'), zone, marker('m2')],
+  laneFeatures: [lane(1), lane(2)],
+  outdatedZoneIds: {},
+});
+
+describe('mission edit history', () => {
+  it('undoes and redoes a zone delete together with its lanes', () => {
+    const before = initialState();
+    const deleted = cascadeDeleteZone({ ...before, zoneId: 'zone-1' });
+    const after: EditableMissionState = {
+      objects: deleted.objects,
+      laneFeatures: deleted.laneFeatures,
+      outdatedZoneIds: deleted.outdatedZoneIds,
+    };
+    const command = createEditCommand('delete', 'удаление «Зона 1»', before, after)!;
+    expect(command.objects).toHaveLength(1);
+    expect(command.lanes).toEqual([{ zoneId: 'zone-1', before: before.laneFeatures, after: [] }]);
+
+    const undone = undoEditCommand(after, command);
+    expect(undone.objects.map((object) => object.id)).toEqual(['m1', 'zone-1', 'm2']);
+    expect(undone.laneFeatures).toEqual(before.laneFeatures);
+
+    const redone = redoEditCommand(undone, command);
+    expect(redone.objects.map((object) => object.id)).toEqual(['m1', 'm2']);
+    expect(redone.laneFeatures).toEqual([]);
+    expect(createEditCommand('update', 'noop', before, initialState())).toBeNull();
+  });
+
+  it('folds a series of updates with the same key and drops the redo branch on a new edit', () => {
+    const start = initialState();
+    const step1 = { ...start, objects: [marker('m1', 60), zone, marker('m2')] };
+    const step2 = { ...start, objects: [marker('m1', 61), zone, marker('m2')] };
+    const at = new Date('2026-10-19T10:00:00.000Z');
+    const first = createEditCommand('update', 'drag', start, step1, { mergeKey: 'update:m1:geometry', at })!;
+    const second = createEditCommand('update', 'drag', step1, step2, {
+      mergeKey: 'update:m1:geometry',
+      at: new Date(at.getTime() + 500),
+    })!;
+
+    let { history } = pushEditCommand(EMPTY_EDIT_HISTORY, first);
+    const pushed = pushEditCommand(history, second);
+    history = pushed.history;
+    expect(history.undo).toHaveLength(1);
+    expect(pushed.command.id).toBe(first.id);
+    expect(undoEditCommand(step2, pushed.command).objects[0]).toEqual(marker('m1'));
+
+    history = applyEditHistoryEvent(history, { seq: 1, op: 'undo', command_id: first.id });
+    expect(history).toEqual({ undo: [], redo: [pushed.command] });
+    const other = createEditCommand('create', 'создание', start, { ...start, objects: [...start.objects, marker('m3')] })!;
+    history = pushEditCommand(history, other).history;
+    expect(history).toEqual({ undo: [other], redo: [] });
+  });
+
+  it('replays the journal only up to the revision saved in the mission', () => {
+    const start = initialState();
+    const created = createEditCommand('create', 'создание', start, { ...start, objects: [...start.objects, marker('m3')] })!;
+    const removed = createEditCommand('delete', 'удаление', start, { ...start, objects: [start.objects[0]] })!;
+    const events: EditHistoryEvent[] = [
+      { seq: 1, op: 'do', command: created },
+      { seq: 2, op: 'undo', command_id: created.id },
+      { seq: 3, op: 'redo', command_id: created.id },
+      { seq: 4, op: 'do', command: removed },
+    ];
+    const text = `${events.map((event) => JSON.stringify(event)).join('\n')}\n{"seq":5,"op":"do","comm`;
+    expect(parseEditHistory(text)).toHaveLength(4);
+
+    expect(replayEditHistory(events, 2)).toEqual({ undo: [], redo: [created] });
+    expect(replayEditHistory(events, 4).undo.map((command) => command.id)).toEqual([created.id, removed.id]);
+    expect(replayEditHistory(events, undefined)).toEqual(EMPTY_EDIT_HISTORY);
+  });
+
+  it('loads the history of a restarted mission and compacts the journal', async () => {
+    const store = createMemoryStore();
+    const rootPath = 'C:/Missions/Harbour';
+    const start = initialState();
+    const created = createEditCommand('create', 'создание', start, { ...start, objects: [...start.objects, marker('m3')] })!;
+    const lost = createEditCommand('delete', 'удаление', start, { ...start, objects: [] })!;
+    await appendEditHistoryEvents(store, rootPath, [
+      { seq: 1, op: 'do', command: created },
+      { seq: 2, op: 'do', command: lost },
+    ]);
+
+    const history = await loadEditHistory(store, rootPath, 1);
+    expect(history).toEqual({ undo: [created], redo: [] });
+    const compacted = parseEditHistory(store.db.get(`${rootPath}/history.jsonl`)!);
+    expect(compacted).toEqual([{ seq: 1, op: 'reset', undo: [created], redo: [] }]);
+    expect(replayEditHistory(compacted, 1)).toEqual(history);
+  });
+
+  it('keeps replaying events appended after a snapshot written at a saved revision', async () => {
+    const store = createMemoryStore();
+    const rootPath = 'C:/Missions/Harbour';
+    const start = initialState();
+    const created = createEditCommand('create', 'создание', start, { ...start, objects: [...start.objects, marker('m3')] })!;
+    const removed = createEditCommand('delete', 'удаление', start, { ...start, objects: [start.objects[0]] })!;
+    await appendEditHistoryEvents(store, rootPath, [{ seq: 250, op: 'do', command: created }]);
+
+    await writeEditHistorySnapshot(store, rootPath, { undo: [created], redo: [] }, 250);
+    await appendEditHistoryEvents(store, rootPath, [{ seq: 251, op: 'do', command: removed }]);
+
+    expect(parseEditHistory(store.db.get(`${rootPath}/history.jsonl`)!)).toHaveLength(2);
+    expect((await loadEditHistory(store, rootPath, 251)).undo.map((command) => command.id)).toEqual([created.id, removed.id]);
+  });
+});
@@ -25,6 +25,7 @@ describe('equipment logger', () => {
     const logger = createEquipmentLogger({
       rootPath: '/mission-a',
       deviceInstanceId: 'device-1',
+      schemaId: 'zima2r',
       profileName: 'Profile A',
       fileStore,
     });
@@ -39,6 +40,7 @@ describe('equipment logger', () => {
     const lines = payload.trimEnd().split('\n');
     expect(lines).toHaveLength(2);
     expect(lines[0]).toContain('"profile_name":"Profile A"');
+    expect(lines[0]).toContain('"schema_id":"zima2r"');
     expect(lines[0]).toContain('"raw":"$AZMLOC,1"');
     expect(lines[1]).toContain('"raw":"$AZMLOC,2"');
   });
@@ -48,6 +50,7 @@ describe('equipment logger', () => {
     const logger = createEquipmentLogger({
       rootPath: '/mission-a',
       deviceInstanceId: 'device-2',
+      schemaId: 'zima2r',
       profileName: 'Profile B',
       fileStore,
     });
@@ -68,6 +71,7 @@ describe('equipment logger', () => {
     const logger = createEquipmentLogger({
       rootPath: '/mission-a',
       deviceInstanceId: 'device-3',
+      schemaId: 'zima2r',
       profileName: 'Profile C',
       fileStore,
     });
@@ -94,6 +98,7 @@ describe('equipment logger', () => {
     const logger = createEquipmentLogger({
       rootPath: '/mission-a',
       deviceInstanceId: 'device-4',
+      schemaId: 'zima2r',
       profileName: 'Profile D',
       fileStore,
     });
@@ -116,6 +121,7 @@ describe('equipment logger', () => {
     const logger = createEquipmentLogger({
       rootPath: '/mission-a',
       deviceInstanceId: 'device-5',
+      schemaId: 'zima2r',
       profileName: 'Profile E',
       fileStore,
     });
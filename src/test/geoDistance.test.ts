@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { haversineDistanceMeters } from '@/components/map/scaleUtils';
+import { distanceMeters, EARTH_RADIUS_M, initialBearingDeg } from '@/features/geo/distance';
+
+describe('geo distance helpers', () => {
+  it('measures great-circle distances on the WGS 84 semi-major axis sphere', () => {
+    expect(distanceMeters({ lat: 0, lon: 0 }, { lat: 0, lon: 1 })).toBeCloseTo((Math.PI / 180) * EARTH_RADIUS_M, 6);
+    expect(distanceMeters({ lat: 59.93, lon: 30.31 }, { lat: 59.93, lon: 30.31 })).toBe(0);
+    expect(haversineDistanceMeters(55.75, 37.6, 59.93, 30.31)).toBe(
+      distanceMeters({ lat: 55.75, lon: 37.6 }, { lat: 59.93, lon: 30.31 }),
+    );
+  });
+
+  it('gives initial bearings in the 0..360° range', () => {
+    expect(initialBearingDeg({ lat: 0, lon: 0 }, { lat: 1, lon: 0 })).toBeCloseTo(0, 9);
+    expect(initialBearingDeg({ lat: 0, lon: 0 }, { lat: 0, lon: 1 })).toBeCloseTo(90, 9);
+    expect(initialBearingDeg({ lat: 1, lon: 0 }, { lat: 0, lon: 0 })).toBeCloseTo(180, 9);
+    expect(initialBearingDeg({ lat: 0, lon: 1 }, { lat: 0, lon: 0 })).toBeCloseTo(270, 9);
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import { markersToCsv, markersToGpx, routesToCsv, routesToKml, tracksToCsv, tracksToGpx } from '@/features/export';
+import {
+  csvToImport,
+  detectImportConflicts,
+  gpxToImport,
+  kmlToImport,
+  mergeImportIntoBundle,
+  parseImportFile,
+} from '@/features/import';
+import type { MapObject } from '@/features/map/model/types';
+import { MISSION_SCHEMA_VERSION, type MissionBundle } from '@/features/mission';
+
+const createBundle = (): MissionBundle => ({
+  rootPath: '/missions/test',
+  mission: {
+    schema_version: MISSION_SCHEMA_VERSION,
+    mission_id: 'm1',
+    name: 'Test',
+    created_at: '2026-02-03T10:00:00.000Z',
+    updated_at: '2026-02-03T10:00:00.000Z',
+    active_track_id: null,
+    active_tracks: {},
+    tracks: [],
+    files: { routes: 'routes/routes.geojson', markers: 'markers/markers.geojson' },
+  },
+  routes: {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: [[30, 59], [30.1, 59.1]] },
+        properties: {
+          id: 'route-1',
+          kind: 'route',
+          name: 'Маршрут А',
+          note: null,
+          created_at: '2026-02-03T10:00:00.000Z',
+          updated_at: '2026-02-03T10:00:00.000Z',
+        },
+      },
+    ],
+  },
+  markers: { type: 'FeatureCollection', features: [] },
+  trackPointsByTrackId: {},
+});
+
+const routeObject: MapObject = {
+  id: 'r1',
+  type: 'route',
+  name: 'Маршрут А',
+  visible: true,
+  geometry: {
+    type: 'route',
+    points: [
+      { lat: 59.9, lon: 30.3 },
+      { lat: 59.95, lon: 30.35 },
+    ],
+  },
+};
+
+const markerObject: MapObject = {
+  id: 'm1',
+  type: 'marker',
+  name: 'Буй "Север"',
+  visible: true,
+  note: 'Контрольная точка',
+  geometry: { type: 'marker', point: { lat: 59.91, lon: 30.31 } },
+};
+
+describe('importers', () => {
+  it('reads GPX tracks, routes and waypoints', () => {
+    const gpx = tracksToGpx(
+      [
+        {
+          id: 't1',
+          name: 'Track 1',
+          points: [
+            { timestamp: '2026-02-03T10:00:00.000Z', lat: 1, lon: 2, segment_id: 1 },
+            { timestamp: '2026-02-03T10:00:01.000Z', lat: 1.1, lon: 2.1, segment_id: 1 },
+            { timestamp: '2026-02-03T10:00:02.000Z', lat: 1.2, lon: 2.2, segment_id: 2 },
+          ],
+        },
+      ],
+      6,
+    );
+    const tracks = gpxToImport(gpx).tracks;
+    expect(tracks).toHaveLength(1);
+    expect(tracks[0].name).toBe('Track 1');
+    expect(tracks[0].points.map((p) => p.segment_id)).toEqual([1, 1, 2]);
+
+    const markers = gpxToImport(markersToGpx([markerObject], 6)).markers;
+    expect(markers).toHaveLength(1);
+    expect(markers[0].properties.name).toBe('Буй "Север"');
+    expect(markers[0].properties.description).toBe('Контрольная точка');
+    expect(markers[0].geometry.coordinates).toEqual([30.31, 59.91]);
+  });
+
+  it('imports GPX tracks without timestamps as routes', () => {
+    const gpx =
+      '<gpx xmlns="http://www.topografix.com/GPX/1/1"><trk><name>Plan</name><trkseg>' +
+      '<trkpt lat="10" lon="20" /><trkpt lat="10.1" lon="20.1" />' +
+      '</trkseg></trk></gpx>';
+    const result = gpxToImport(gpx);
+    expect(result.tracks).toHaveLength(0);
+    expect(result.routes).toHaveLength(1);
+    expect(result.warnings).toHaveLength(1);
+  });
+
+  it('reads KML lines in lon,lat order and skips polygons', () => {
+    const result = kmlToImport(routesToKml([routeObject], [], 6));
+    expect(result.routes).toHaveLength(1);
+    expect(result.routes[0].geometry.coordinates[0]).toEqual([30.3, 59.9]);
+
+    const withPolygon = kmlToImport(
+      '<kml xmlns="http://www.opengis.net/kml/2.2"><Document><Placemark><name>Z</name>' +
+        '<Polygon><outerBoundaryIs><LinearRing><coordinates>1,1,0 2,2,0 3,1,0 1,1,0</coordinates></LinearRing></outerBoundaryIs></Polygon>' +
+        '</Placemark></Document></kml>',
+    );
+    expect(withPolygon.routes).toHaveLength(0);
+    expect(withPolygon.warnings[0]).toContain('Z');
+  });
+
+  it('round-trips CSV markers, routes and tracks with CRS and DMS options', () => {
+    const options = { crs: 'sk42' as const, format: 'dms' as const };
+
+    const markers = csvToImport(markersToCsv([markerObject], 6, options), options).markers;
+    expect(markers).toHaveLength(1);
+    expect(markers[0].properties.name).toBe('Буй "Север"');
+    expect(markers[0].geometry.coordinates[0]).toBeCloseTo(30.31, 4);
+    expect(markers[0].geometry.coordinates[1]).toBeCloseTo(59.91, 4);
+
+    const routes = csvToImport(routesToCsv([routeObject], [], 6, options), options).routes;
+    expect(routes).toHaveLength(1);
+    expect(routes[0].geometry.coordinates[1][0]).toBeCloseTo(30.35, 4);
+
+    const tracks = csvToImport(
+      tracksToCsv(
+        [{ id: 't1', name: 'Track 1', points: [{ timestamp: '2026-02-03T10:00:00.000Z', lat: 59.9, lon: 30.3, segment_id: 3 }] }],
+        6,
+      ),
+    ).tracks;
+    expect(tracks).toHaveLength(1);
+    expect(tracks[0].points[0]).toMatchObject({ lat: 59.9, lon: 30.3, segment_id: 3 });
+  });
+
+  it('accepts semicolon-delimited CSV and reports bad rows', () => {
+    const result = csvToImport('name;lat;lon\nA;59,5;30,5\nB;abc;30');
+    expect(result.markers).toHaveLength(1);
+    expect(result.markers[0].geometry.coordinates).toEqual([30.5, 59.5]);
+    expect(result.warnings).toEqual(['Строка 3: некорректные координаты.']);
+  });
+
+  it('rejects unsupported file extensions', () => {
+    expect(() => parseImportFile('plan.txt', '')).toThrow();
+  });
+
+  it('detects name conflicts and merges by strategy', () => {
+    const bundle = createBundle();
+    const result = gpxToImport(
+      '<gpx xmlns="http://www.topografix.com/GPX/1/1"><rte><name>Маршрут А</name>' +
+        '<rtept lat="1" lon="2" /><rtept lat="3" lon="4" /></rte>' +
+        '<trk><name>Track</name><trkseg><trkpt lat="1" lon="2"><time>2026-02-03T10:00:00Z</time></trkpt></trkseg></trk></gpx>',
+    );
+
+    expect(detectImportConflicts(bundle, result)).toEqual([{ kind: 'route', name: 'Маршрут А', existingId: 'route-1' }]);
+
+    const renamed = mergeImportIntoBundle(bundle, result, { strategy: 'rename' });
+    expect(renamed.bundle.routes.features.map((f) => f.properties.name)).toEqual(['Маршрут А', 'Маршрут А (2)']);
+    expect(renamed.bundle.mission.tracks).toHaveLength(1);
+    expect(renamed.bundle.mission.tracks[0]).toMatchObject({ agent_id: null, note: 'Track', file: 'tracks/import-track-0001.csv' });
+    expect(renamed.bundle.trackPointsByTrackId[renamed.importedTrackIds[0]]).toHaveLength(1);
+
+    const replaced = mergeImportIntoBundle(bundle, result, { strategy: 'replace' });
+    expect(replaced.bundle.routes.features).toHaveLength(1);
+    expect(replaced.bundle.routes.features[0].properties.id).toBe('route-1');
+    expect(replaced.bundle.routes.features[0].geometry.coordinates[0]).toEqual([2, 1]);
+
+    const skipped = mergeImportIntoBundle(bundle, result, { strategy: 'skip' });
+    expect(skipped.skippedCount).toBe(1);
+    expect(skipped.bundle.routes.features).toHaveLength(1);
+    expect(skipped.bundle.routes.features[0].geometry.coordinates[0]).toEqual([30, 59]);
+  });
+});
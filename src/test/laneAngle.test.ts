@@ -1,4 +1,9 @@
-import { clampLaneAngleInputDeg, normalizeLaneAngleDeg, parseLaneAngleInput } from '@/features/mission/model/laneAngle';
+import {
+  clampLaneAngleInputDeg,
+  normalizeLaneAngleDeg,
+  parseLaneAngleInput,
+  parsePatternCourseInput,
+} from '@/features/mission/model/laneAngle';
 
 describe('lane angle helpers', () => {
   it('clamps user input to 0..360', () => {
@@ -26,4 +31,11 @@ describe('lane angle helpers', () => {
     expect(parseLaneAngleInput('190')).toBe(10);
     expect(parseLaneAngleInput('10')).toBe(10);
   });
+
+  it('keeps the direction of a search pattern course', () => {
+    expect(parsePatternCourseInput('270')).toBe(270);
+    expect(parsePatternCourseInput('190')).toBe(190);
+    expect(parsePatternCourseInput('360')).toBe(0);
+    expect(parsePatternCourseInput('abc', 300)).toBe(300);
+  });
 });
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeLaneCoverage, buildCoverageRerunRoute } from '@/features/mission';
+import type { LaneFeature, TrackPoint } from '@/features/mission/model/types';
+
+const LAT0 = 59.9;
+const LON0 = 30.3;
+const M_PER_DEG_LAT = 111_319.49;
+const M_PER_DEG_LON = M_PER_DEG_LAT * Math.cos((LAT0 * Math.PI) / 180);
+
+// Local metric grid around LAT0/LON0: x = East, y = North.
+const toLonLat = (x: number, y: number): [number, number] => [LON0 + x / M_PER_DEG_LON, LAT0 + y / M_PER_DEG_LAT];
+
+const lane = (index: number, from: [number, number], to: [number, number]): LaneFeature => ({
+  type: 'Feature',
+  geometry: { type: 'LineString', coordinates: [toLonLat(...from), toLonLat(...to)] },
+  properties: {
+    id: `lane-${index}`,
+    kind: 'lane',
+    name: `Галс ${index}`,
+    note: null,
+    created_at: '2026-02-03T10:00:00.000Z',
+    updated_at: '2026-02-03T10:00:00.000Z',
+    parent_area_id: 'zone-1',
+    lane_index: index,
+  },
+});
+
+const track = (points: Array<[number, number]>, segmentIds?: number[]): TrackPoint[] =>
+  points.map(([x, y], index) => {
+    const [lon, lat] = toLonLat(x, y);
+    return { timestamp: new Date(Date.UTC(2026, 1, 3, 10, 0, index)).toISOString(), lat, lon, segment_id: segmentIds?.[index] ?? 1 };
+  });
+
+// Two 100 m lanes 10 m apart, run as a serpentine.
+const lanes = [lane(1, [0, 0], [100, 0]), lane(2, [100, 10], [0, 10])];
+
+describe('laneCoverage', () => {
+  it('reports covered share, max cross-track error and gaps per lane', () => {
+    const report = analyzeLaneCoverage(
+      lanes,
+      [
+        // Lane 1: runs 0..40 m at 1.5 m off, breaks recording, resumes at 70 m.
+        track(
+          [
+            [0, 1.5],
+            [40, 1.5],
+            [70, -1],
+            [100, -1],
+          ],
+          [1, 1, 2, 2],
+        ),
+        // Lane 2: fully run but drifting 4 m off at the far end.
+        track([
+          [100, 14],
+          [0, 10],
+        ]),
+      ],
+      { toleranceM: 2.5 },
+    );
+
+    const [first, second] = report.lanes;
+    expect(first.coveredPercent).toBeCloseTo(70, 1);
+    expect(first.maxCrossTrackM).toBeCloseTo(1.5, 3);
+    expect(first.gaps).toHaveLength(1);
+    expect(first.gaps[0].fromM).toBeCloseTo(40, 1);
+    expect(first.gaps[0].toM).toBeCloseTo(70, 1);
+
+    // Within 2.5 m only for the last 62.5 m of the lane.
+    expect(second.coveredPercent).toBeCloseTo(62.5, 1);
+    expect(second.maxCrossTrackM).toBeCloseTo(4, 3);
+    expect(second.gaps[0].fromM).toBeCloseTo(0, 3);
+    expect(second.gaps[0].toM).toBeCloseTo(37.5, 1);
+
+    expect(report.coveredPercent).toBeCloseTo(66.25, 1);
+    expect(report.gaps).toHaveLength(2);
+  });
+
+  it('treats lanes without nearby track as fully missed', () => {
+    const report = analyzeLaneCoverage(lanes, [track([[0, 50], [100, 50]])], { toleranceM: 2 });
+
+    expect(report.coveredPercent).toBe(0);
+    expect(report.lanes.map((item) => item.maxCrossTrackM)).toEqual([null, null]);
+    expect(report.gaps.map((gap) => gap.lengthM)).toEqual([
+      expect.closeTo(100, 1),
+      expect.closeTo(100, 1),
+    ]);
+  });
+
+  it('ignores gaps shorter than the minimum', () => {
+    const report = analyzeLaneCoverage(
+      [lanes[0]],
+      [track([[0, 0], [49.7, 0]]), track([[50, 0], [100, 0]])],
+      { toleranceM: 1, minGapM: 1 },
+    );
+
+    expect(report.lanes[0].gaps).toEqual([]);
+    expect(report.lanes[0].coveredPercent).toBeCloseTo(99.7, 1);
+  });
+
+  it('builds a re-run route from missed lane portions in lane direction', () => {
+    const report = analyzeLaneCoverage(
+      lanes,
+      [track([[0, 0], [60, 0]]), track([[100, 10], [30, 10]])],
+      { toleranceM: 1 },
+    );
+
+    const route = buildCoverageRerunRoute(report);
+    expect(route).toHaveLength(4);
+    const [start1, end1, start2, end2] = route;
+    const [lon60, lat0] = toLonLat(60, 0);
+    const [lon100] = toLonLat(100, 0);
+    const [lon30, lat10] = toLonLat(30, 10);
+    const [lon0] = toLonLat(0, 10);
+    expect(start1.lon).toBeCloseTo(lon60, 7);
+    expect(start1.lat).toBeCloseTo(lat0, 7);
+    expect(end1.lon).toBeCloseTo(lon100, 7);
+    expect(start2.lon).toBeCloseTo(lon30, 7);
+    expect(start2.lat).toBeCloseTo(lat10, 7);
+    expect(end2.lon).toBeCloseTo(lon0, 7);
+  });
+});
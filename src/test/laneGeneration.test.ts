@@ -28,6 +28,15 @@ const estimateLaneBearing = (coordinates: [number, number][]): number => {
   return toUndirectedBearing(bearingDeg);
 };
 
+const LAT0 = 59.934;
+const LON0 = 30.335;
+const M_PER_DEG_LAT = 111_319.49;
+const M_PER_DEG_LON = M_PER_DEG_LAT * Math.cos((LAT0 * Math.PI) / 180);
+
+// Local metric grid: x = East, y = North.
+const fromXY = (x: number, y: number) => ({ lat: LAT0 + y / M_PER_DEG_LAT, lon: LON0 + x / M_PER_DEG_LON });
+const toXY = ([lon, lat]: [number, number]) => ({ x: (lon - LON0) * M_PER_DEG_LON, y: (lat - LAT0) * M_PER_DEG_LAT });
+
 describe('lane generation', () => {
   it('generates lane features with parent linkage and sequential indexes', () => {
     const lanes = generateLanesForZone({
@@ -148,4 +157,57 @@ describe('lane generation', () => {
     expect(wide.length).toBeGreaterThan(0);
     expect(narrow.length).toBeGreaterThan(wide.length);
   });
+
+  it('clips lanes around exclusion holes and keeps split pieces on one row', () => {
+    const lanes = generateLanesForZone({
+      parentAreaId: 'zone-1',
+      points: [fromXY(0, 0), fromXY(100, 0), fromXY(100, 100), fromXY(0, 100)],
+      holes: [[fromXY(35, 35), fromXY(65, 35), fromXY(65, 65), fromXY(35, 65)]],
+      laneAngleDeg: 90,
+      laneWidthM: 10,
+    });
+
+    const piecesByRow = new Map<number, number>();
+    for (const lane of lanes) {
+      const row = lane.properties.lane_row ?? 0;
+      piecesByRow.set(row, (piecesByRow.get(row) ?? 0) + 1);
+
+      const [a, b] = lane.geometry.coordinates.map(toXY);
+      const midY = (a.y + b.y) / 2;
+      if (midY > 35 && midY < 65) {
+        // Every piece on a row crossing the hole stops at the hole's edge.
+        const xs = [a.x, b.x].sort((p, q) => p - q);
+        expect(xs[1] <= 35.01 || xs[0] >= 64.99).toBe(true);
+      }
+    }
+
+    expect(piecesByRow.size).toBe(11);
+    expect([...piecesByRow.values()].filter((count) => count === 2)).toHaveLength(3);
+  });
+
+  it('splits rows of concave zones instead of bridging the bay', () => {
+    const lanes = generateLanesForZone({
+      parentAreaId: 'zone-1',
+      points: [
+        fromXY(0, 0),
+        fromXY(100, 0),
+        fromXY(100, 100),
+        fromXY(70, 100),
+        fromXY(70, 30),
+        fromXY(30, 30),
+        fromXY(30, 100),
+        fromXY(0, 100),
+      ],
+      laneAngleDeg: 90,
+      laneWidthM: 10,
+    });
+
+    const lengths = lanes.map((lane) => {
+      const [a, b] = lane.geometry.coordinates.map(toXY);
+      return { y: (a.y + b.y) / 2, length: Math.abs(b.x - a.x) };
+    });
+    expect(lengths.filter((lane) => lane.y < 35).every((lane) => lane.length > 99)).toBe(true);
+    expect(lengths.filter((lane) => lane.y > 35).every((lane) => lane.length < 30.01)).toBe(true);
+    expect(lengths.filter((lane) => lane.y > 35)).toHaveLength(14);
+  });
 });
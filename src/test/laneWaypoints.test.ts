@@ -1,5 +1,5 @@
 import type { LaneFeature } from '@/features/mission';
-import { buildLaneTraversal } from '@/features/mission';
+import { buildLaneTraversal, generateLanesForZone } from '@/features/mission';
 
 const lane = (id: string, laneIndex: number, coords: [number, number][], parent = 'zone-1'): LaneFeature => ({
   type: 'Feature',
@@ -58,5 +58,62 @@ describe('lane waypoints', () => {
     const traversal = buildLaneTraversal(lanes, startNearEnd, 90);
     expect(traversal.orderedLaneIds).toEqual(['l2', 'l1']);
   });
-});
 
+  it('sweeps each arm of a split zone before moving to the next one', () => {
+    const lat0 = 60;
+    const lon0 = 30;
+    const mPerDegLat = 111_319.49;
+    const mPerDegLon = mPerDegLat * Math.cos((lat0 * Math.PI) / 180);
+    const fromXY = (x: number, y: number) => ({ lat: lat0 + y / mPerDegLat, lon: lon0 + x / mPerDegLon });
+    const toXY = (point: { lat: number; lon: number }) => ({
+      x: (point.lon - lon0) * mPerDegLon,
+      y: (point.lat - lat0) * mPerDegLat,
+    });
+
+    // U-shaped harbour: solid strip at the bottom, two arms above y = 30.
+    const lanes = generateLanesForZone({
+      parentAreaId: 'zone-1',
+      points: [
+        fromXY(0, 0),
+        fromXY(100, 0),
+        fromXY(100, 100),
+        fromXY(70, 100),
+        fromXY(70, 30),
+        fromXY(30, 30),
+        fromXY(30, 100),
+        fromXY(0, 100),
+      ],
+      laneAngleDeg: 90,
+      laneWidthM: 10,
+    });
+    const traversal = buildLaneTraversal(lanes, null, 90);
+    expect(traversal.waypoints).toHaveLength(lanes.length * 2);
+    expect(traversal.waypoints.map((w) => w.index)).toEqual(
+      Array.from({ length: lanes.length * 2 }, (_, index) => index + 1),
+    );
+
+    const laneById = new Map(lanes.map((item) => [item.properties.id, item]));
+    const visited = traversal.orderedLaneIds.map((id) => {
+      const coords = laneById.get(id)?.geometry.coordinates ?? [];
+      const a = toXY({ lon: coords[0][0], lat: coords[0][1] });
+      const b = toXY({ lon: coords[1][0], lat: coords[1][1] });
+      const midX = (a.x + b.x) / 2;
+      return { row: laneById.get(id)?.properties.lane_row ?? 0, side: midX < 35 ? 'left' : midX > 65 ? 'right' : 'both' };
+    });
+
+    expect(visited.slice(0, 4).map((item) => item.side)).toEqual(['both', 'both', 'both', 'both']);
+    const left = visited.slice(4, 11);
+    const right = visited.slice(11);
+    expect(left.every((item) => item.side === 'left')).toBe(true);
+    expect(left.map((item) => item.row)).toEqual([5, 6, 7, 8, 9, 10, 11]);
+    // The right arm is entered from the top, next to where the left arm ends.
+    expect(right.every((item) => item.side === 'right')).toBe(true);
+    expect(right.map((item) => item.row)).toEqual([11, 10, 9, 8, 7, 6, 5]);
+
+    // Consecutive pieces inside an arm are joined end to start (serpentine).
+    const leftWaypoints = traversal.waypoints.slice(8, 22).map(toXY);
+    for (let i = 1; i + 1 < leftWaypoints.length; i += 2) {
+      expect(Math.abs(leftWaypoints[i].x - leftWaypoints[i + 1].x)).toBeLessThan(0.01);
+    }
+  });
+});
@@ -1,4 +1,4 @@
-import { resolveMapConfig } from '@/platform/mapConfig';
+import { buildLocalTileUrlTemplate, normalizeLocalTileSource, resolveMapConfig } from '@/platform/mapConfig';
 
 describe('map config provider resolution', () => {
   it('uses OSM config by default', () => {
@@ -49,3 +49,34 @@ describe('map config provider resolution', () => {
     expect(config.wheelPxPerZoomLevel).toBe(120);
   });
 });
+
+describe('local tile sources', () => {
+  it('normalizes a stored MBTiles or directory source', () => {
+    expect(
+      normalizeLocalTileSource({ kind: 'mbtiles', path: ' D:/Charts/baltic.mbtiles ', attribution: 'ГУНиО', min_zoom: 5, max_zoom: 14 }),
+    ).toEqual({ kind: 'mbtiles', path: 'D:/Charts/baltic.mbtiles', attribution: 'ГУНиО', min_zoom: 5, max_zoom: 14 });
+    expect(
+      normalizeLocalTileSource({ kind: 'directory', path: '/charts', min_zoom: 12, max_zoom: 3, format: 'JPG' }),
+    ).toEqual({ kind: 'directory', path: '/charts', attribution: '', min_zoom: 12, max_zoom: 12, format: 'jpg' });
+    expect(normalizeLocalTileSource({ id: 'a1b2', kind: 'mbtiles', path: '/charts/a.mbtiles' })).toMatchObject({ id: 'a1b2' });
+    expect(normalizeLocalTileSource({ kind: 'mbtiles', path: '  ' })).toBeNull();
+    expect(normalizeLocalTileSource({ kind: 'wms', path: '/charts' })).toBeNull();
+  });
+
+  it('builds a planner-tiles URL template that names a registered source by id only', () => {
+    const source = {
+      kind: 'directory' as const,
+      path: 'C:/Карты/Ладога & Онега',
+      attribution: '',
+      min_zoom: 0,
+      max_zoom: 16,
+      format: 'png' as const,
+    };
+    expect(buildLocalTileUrlTemplate(source)).toBeNull();
+
+    const template = buildLocalTileUrlTemplate({ ...source, id: '0123456789abcdef' }) ?? '';
+    expect(template.startsWith('planner-tiles://tiles/{z}/{x}/{y}?')).toBe(true);
+    const params = new URL(template.replace('{z}/{x}/{y}', '1/2/3')).searchParams;
+    expect(Array.from(params.entries())).toEqual([['source', '0123456789abcdef']]);
+  });
+});
@@ -0,0 +1,133 @@
+import { Blob as NodeBlob } from 'node:buffer';
+import { describe, expect, it } from 'vitest';
+import { readMbtiles, writeMbtiles, type MbtilesTile } from '@/features/map/offlineTiles/mbtiles';
+import { readSqliteSchema, readSqliteTable } from '@/features/map/offlineTiles/sqliteFile';
+import type { TileCache, TileRegion } from '@/features/map/offlineTiles/tileCache';
+import {
+  createTileRegion,
+  exportTileRegion,
+  importMbtilesToCache,
+  removeTileRegion,
+  summarizeTileRegion,
+} from '@/features/map/offlineTiles/tileRegions';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const tileBytes = (size: number, seed: number): Uint8Array<ArrayBuffer> => {
+  const data = new Uint8Array(size).map((_, i) => (i * 31 + seed) & 0xff);
+  data.set(PNG_SIGNATURE, 0);
+  return data;
+};
+
+const sameBytes = (a: Uint8Array | undefined, b: Uint8Array): boolean =>
+  a !== undefined && a.length === b.length && a.every((value, i) => value === b[i]);
+
+// jsdom's Blob cannot be read back; the cache hands out Node blobs like a browser would.
+const readableBlob = (data: Uint8Array): Blob => new NodeBlob([data]) as unknown as Blob;
+
+const createMemoryCache = (): TileCache & { blobs: Map<string, Blob> } => {
+  const blobs = new Map<string, Blob>();
+  const regions = new Map<string, TileRegion>();
+  const read = async (key: string) => {
+    const blob = blobs.get(key);
+    return blob ? { key, blob, sizeBytes: blob.size, lastAccess: 0 } : null;
+  };
+  return {
+    blobs,
+    makeKey: (provider, z, x, y) => `${provider}|${z}|${x}|${y}`,
+    get: read,
+    peek: read,
+    put: async (key, input) => {
+      blobs.set(key, input.blob);
+    },
+    remove: async (key) => {
+      blobs.delete(key);
+    },
+    clear: async () => {
+      blobs.clear();
+      regions.clear();
+    },
+    getStats: async () => ({ totalBytes: 0, entries: blobs.size, maxBytes: 0, hits: 0, misses: 0 }),
+    setMaxBytes: () => undefined,
+    measure: async (keys) =>
+      keys.reduce(
+        (usage, key) => {
+          const blob = blobs.get(key);
+          return blob ? { entries: usage.entries + 1, totalBytes: usage.totalBytes + blob.size } : usage;
+        },
+        { entries: 0, totalBytes: 0 },
+      ),
+    listRegions: async () => Array.from(regions.values()),
+    saveRegion: async (region) => {
+      regions.set(region.id, region);
+    },
+    removeRegion: async (id) => {
+      regions.delete(id);
+    },
+  };
+};
+
+describe('MBTiles packages', () => {
+  it('round-trips tiles through a multi-level SQLite file with overflow pages', () => {
+    const tiles: MbtilesTile[] = [];
+    for (let x = 0; x < 32; x += 1) {
+      for (let y = 0; y < 32; y += 1) {
+        tiles.push({ z: 5, x, y, data: tileBytes((x + y) % 7 === 0 ? 9000 + x : 40 + y, x * 32 + y) });
+      }
+    }
+    const bytes = writeMbtiles({ metadata: { name: 'Финский залив', format: 'png' }, tiles });
+
+    expect(readSqliteSchema(bytes).map((entry) => `${entry.type}:${entry.name}`)).toEqual([
+      'table:metadata',
+      'table:tiles',
+      'index:tile_index',
+    ]);
+    // MBTiles rows count from the bottom (TMS); the first stored tile is the bottom-left one.
+    const raw = readSqliteTable(bytes, 'tiles');
+    expect(raw?.rows[0].slice(0, 3)).toEqual([5, 0, 0]);
+
+    const parsed = readMbtiles(bytes);
+    expect(parsed.metadata).toEqual({ name: 'Финский залив', format: 'png' });
+    expect(parsed.tiles).toHaveLength(tiles.length);
+    const byKey = new Map(parsed.tiles.map((tile) => [`${tile.z}/${tile.x}/${tile.y}`, tile.data]));
+    expect(tiles.filter((tile) => !sameBytes(byKey.get(`${tile.z}/${tile.x}/${tile.y}`), tile.data))).toEqual([]);
+  });
+
+  it('rejects files that are not SQLite databases', () => {
+    expect(() => readMbtiles(new TextEncoder().encode('not a database'))).toThrow(/SQLite/);
+  });
+
+  it('exports a cached region and imports it into another cache', async () => {
+    const source = createMemoryCache();
+    const region = createTileRegion({
+      name: 'Рейд',
+      provider: 'osm',
+      bbox: { north: 60.2, south: 59.8, west: 29.5, east: 30.5 },
+      zoomMin: 8,
+      zoomMax: 10,
+    });
+    const before = await summarizeTileRegion(source, region);
+    for (const key of ['osm|8|149|74', 'osm|9|298|148', 'osm|10|597|296']) {
+      await source.put(key, { provider: 'osm', url: '', z: 0, x: 0, y: 0, blob: readableBlob(tileBytes(64, 1)) });
+    }
+    expect((await summarizeTileRegion(source, region)).storedTiles).toBe(3);
+
+    const { bytes, tiles } = await exportTileRegion(source, region, { attribution: '© OSM' });
+    expect(tiles).toBe(3);
+
+    const target = createMemoryCache();
+    const imported = await importMbtilesToCache(target, bytes, { provider: 'other', fallbackName: 'file' });
+    expect(imported.imported).toBe(3);
+    expect(imported.region).toMatchObject({ name: 'Рейд', provider: 'osm', zoom_min: 8, zoom_max: 10 });
+    expect(imported.region.bbox).toEqual(region.bbox);
+    expect(Array.from(target.blobs.keys()).sort()).toEqual(['osm|10|597|296', 'osm|8|149|74', 'osm|9|298|148']);
+    expect((await target.blobs.get('osm|8|149|74')?.type)).toBe('image/png');
+
+    const summary = await summarizeTileRegion(target, imported.region);
+    expect(summary).toMatchObject({ expectedTiles: before.expectedTiles, storedTiles: 3, storedBytes: 192 });
+
+    await removeTileRegion(target, imported.region);
+    expect(target.blobs.size).toBe(0);
+    expect(await target.listRegions()).toEqual([]);
+  });
+});
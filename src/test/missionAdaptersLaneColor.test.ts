@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import { bundleToMapObjects, mapObjectsToGeoJson, type MissionBundle } from '@/features/mission';
 import type { MapObject } from '@/features/map/model/types';
+import type { SurveyAreaFeature } from '@/features/mission/model/types';
 
 const now = '2026-03-03T10:00:00.000Z';
 
@@ -176,4 +177,147 @@ describe('mission adapters lane color', () => {
       },
     });
   });
+
+  it('round-trips zone holes and treats zones without convex_hull as legacy convex zones', () => {
+    const objects: MapObject[] = [
+      {
+        id: 'zone-1',
+        type: 'zone',
+        name: 'Zone 1',
+        visible: true,
+        laneAngle: 0,
+        laneWidth: 5,
+        zoneConvexHull: false,
+        geometry: {
+          type: 'zone',
+          points: [
+            { lat: 59.1, lon: 30.1 },
+            { lat: 59.1, lon: 30.2 },
+            { lat: 59.2, lon: 30.2 },
+            { lat: 59.2, lon: 30.1 },
+          ],
+          holes: [
+            [
+              { lat: 59.14, lon: 30.14 },
+              { lat: 59.14, lon: 30.16 },
+              { lat: 59.16, lon: 30.16 },
+            ],
+          ],
+        },
+      },
+    ];
+
+    const geoJson = mapObjectsToGeoJson(objects);
+    const zoneFeature = geoJson.routes.features[0];
+    if (zoneFeature.properties.kind !== 'survey_area' || zoneFeature.geometry.type !== 'Polygon') {
+      throw new Error('zone feature not found');
+    }
+    expect(zoneFeature.geometry.coordinates).toHaveLength(2);
+    expect(zoneFeature.geometry.coordinates[1]).toEqual([
+      [30.14, 59.14],
+      [30.16, 59.14],
+      [30.16, 59.16],
+      [30.14, 59.14],
+    ]);
+    expect(zoneFeature.properties.convex_hull).toBe(false);
+
+    const restore = (features: MissionBundle['routes']['features']) =>
+      bundleToMapObjects({
+        rootPath: '/tmp/mission',
+        mission: {
+          schema_version: 1,
+          mission_id: 'mission-1',
+          name: 'Mission',
+          created_at: now,
+          updated_at: now,
+          active_track_id: null,
+          active_tracks: {},
+          tracks: [],
+          files: { routes: 'routes/routes.geojson', markers: 'markers/markers.geojson' },
+          ui: {},
+        },
+        routes: { type: 'FeatureCollection', features },
+        markers: { type: 'FeatureCollection', features: [] },
+        trackPointsByTrackId: {},
+      })[0];
+
+    const restored = restore(geoJson.routes.features);
+    expect(restored.zoneConvexHull).toBe(false);
+    expect(restored.geometry?.type === 'zone' ? restored.geometry.holes?.[0] : null).toHaveLength(4);
+
+    const { convex_hull: _convexHull, ...legacyProperties } = zoneFeature.properties;
+    const legacyZoneFeature: SurveyAreaFeature = {
+      type: 'Feature',
+      geometry: zoneFeature.geometry,
+      properties: legacyProperties,
+    };
+    const legacy = restore([legacyZoneFeature]);
+    expect(legacy.zoneConvexHull).toBe(true);
+  });
+
+  it('round-trips survey pattern parameters of a zone', () => {
+    const objects: MapObject[] = [
+      {
+        id: 'zone-1',
+        type: 'zone',
+        name: 'Zone 1',
+        visible: true,
+        laneAngle: 45,
+        laneWidth: 20,
+        surveyPattern: 'sector',
+        patternCourseDeg: 270,
+        patternLegCount: 9,
+        patternLegLengthM: 150,
+        patternDatum: { lat: 59.15, lon: 30.15 },
+        geometry: {
+          type: 'zone',
+          points: [
+            { lat: 59.1, lon: 30.1 },
+            { lat: 59.1, lon: 30.2 },
+            { lat: 59.2, lon: 30.2 },
+          ],
+        },
+      },
+    ];
+
+    const geoJson = mapObjectsToGeoJson(objects);
+    const zoneFeature = geoJson.routes.features[0];
+    if (zoneFeature.properties.kind !== 'survey_area') {
+      throw new Error('zone feature not found');
+    }
+    expect(zoneFeature.properties).toMatchObject({
+      survey_pattern: 'sector',
+      pattern_course_deg: 270,
+      pattern_leg_count: 9,
+      pattern_leg_length_m: 150,
+      pattern_datum_lat: 59.15,
+      pattern_datum_lon: 30.15,
+    });
+
+    const [restored] = bundleToMapObjects({
+      rootPath: '/tmp/mission',
+      mission: {
+        schema_version: 1,
+        mission_id: 'mission-1',
+        name: 'Mission',
+        created_at: now,
+        updated_at: now,
+        active_track_id: null,
+        active_tracks: {},
+        tracks: [],
+        files: { routes: 'routes/routes.geojson', markers: 'markers/markers.geojson' },
+        ui: {},
+      },
+      routes: geoJson.routes,
+      markers: { type: 'FeatureCollection', features: [] },
+      trackPointsByTrackId: {},
+    });
+    expect(restored).toMatchObject({
+      surveyPattern: 'sector',
+      patternCourseDeg: 270,
+      patternLegCount: 9,
+      patternLegLengthM: 150,
+      patternDatum: { lat: 59.15, lon: 30.15 },
+    });
+  });
 });
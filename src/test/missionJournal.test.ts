@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { FileStoreBridge } from '@/platform/contracts';
+import {
+  appendJournalEntries,
+  createJournalEntry,
+  describeConnectionState,
+  describeTrackStatusChange,
+  diffTrackStatuses,
+  journalToCsv,
+  loadJournal,
+  mergeJournalEntries,
+  parseJournal,
+} from '@/features/mission';
+
+const AT = new Date('2026-03-01T10:00:00.000Z');
+
+describe('missionJournal', () => {
+  it('creates entries with an optional attached position', () => {
+    const note = createJournalEntry({ kind: 'note', text: '  Водолаз на грунте ', at: AT });
+    expect(note).toMatchObject({ at: AT.toISOString(), text: 'Водолаз на грунте', lat: null, lon: null, depth_m: null });
+
+    const located = createJournalEntry({
+      kind: 'note',
+      text: 'Обнаружен объект',
+      at: AT,
+      agent_uid: 'd1',
+      agent_name: 'Водолаз 1',
+      position: { lat: 59.9, lon: 30.3, depth: 12.4 },
+    });
+    expect(located).toMatchObject({ agent_uid: 'd1', lat: 59.9, lon: 30.3, depth_m: 12.4 });
+  });
+
+  it('parses journal lines, skipping torn, invalid and duplicate entries', () => {
+    const entry = createJournalEntry({ kind: 'track', text: 'Запись трека начата', at: AT });
+    const text = [
+      JSON.stringify(entry),
+      JSON.stringify({ ...entry, text: 'duplicate' }),
+      JSON.stringify({ id: 'x', at: 'not a date', text: 'bad' }),
+      JSON.stringify({ id: 'y', at: AT.toISOString(), kind: 'unknown', text: 'legacy', lat: 1 }),
+      '{"id":"torn","at":"2026',
+    ].join('\n');
+
+    const entries = parseJournal(text);
+    expect(entries.map((item) => item.id)).toEqual([entry.id, 'y']);
+    expect(entries[0].text).toBe('Запись трека начата');
+    expect(entries[1]).toMatchObject({ kind: 'note', lat: null, lon: null });
+  });
+
+  it('reads and appends the journal next to mission.json', async () => {
+    const entry = createJournalEntry({ kind: 'note', text: 'Старт', at: AT });
+    const appendText = vi.fn(async () => undefined);
+    const readText = vi.fn(async () => `${JSON.stringify(entry)}\n`);
+    const fileStore = { appendText, readText } as unknown as FileStoreBridge;
+
+    await appendJournalEntries(fileStore, 'C:\\missions\\m1\\', [entry]);
+    await appendJournalEntries(fileStore, 'C:\\missions\\m1', []);
+    expect(appendText).toHaveBeenCalledTimes(1);
+    expect(appendText.mock.calls[0]).toEqual(['C:/missions/m1/journal.jsonl', `${JSON.stringify(entry)}\n`]);
+
+    expect(await loadJournal(fileStore, 'C:/missions/m1')).toEqual([entry]);
+    expect(readText).toHaveBeenCalledWith('C:/missions/m1/journal.jsonl');
+  });
+
+  it('describes track status and connection changes', () => {
+    const changes = diffTrackStatuses(
+      { d1: 'recording', d2: 'paused', d3: 'recording' },
+      { d1: 'paused', d2: 'recording', d4: 'recording' },
+    );
+    expect(changes).toEqual([
+      { agentId: 'd1', from: 'recording', to: 'paused' },
+      { agentId: 'd2', from: 'paused', to: 'recording' },
+      { agentId: 'd3', from: 'recording', to: 'stopped' },
+      { agentId: 'd4', from: 'stopped', to: 'recording' },
+    ]);
+    expect(changes.map(describeTrackStatusChange)).toEqual([
+      'Запись трека приостановлена',
+      'Запись трека возобновлена',
+      'Запись трека остановлена',
+      'Запись трека начата',
+    ]);
+    expect(describeConnectionState('Zima2R', 'timeout')).toBe('Zima2R: нет данных');
+  });
+
+  it('merges entries chronologically and exports CSV', () => {
+    const later = createJournalEntry({ kind: 'note', text: 'Позже, "цитата"', at: new Date(AT.getTime() + 1000) });
+    const earlier = createJournalEntry({
+      kind: 'connection',
+      text: 'GNSS-UDP: связь установлена',
+      at: AT,
+      agent_name: null,
+      position: { lat: 59.9, lon: 30.3 },
+    });
+    const merged = mergeJournalEntries([later], [earlier, later]);
+    expect(merged.map((item) => item.id)).toEqual([earlier.id, later.id]);
+
+    const lines = journalToCsv(merged).trim().split('\n');
+    expect(lines[0]).toBe('time,kind,agent,text,lat,lon,depth_m');
+    expect(lines[1]).toBe(`${AT.toISOString()},Связь,,GNSS-UDP: связь установлена,59.9000000,30.3000000,`);
+    expect(lines[2]).toContain('"Позже, ""цитата"""');
+  });
+});
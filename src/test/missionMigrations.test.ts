@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkMissionMigration,
+  createMissionRepository,
+  migrateMissionDocument,
+  MISSION_MIGRATIONS,
+  MISSION_SCHEMA_VERSION,
+  type MissionMigrationStep,
+} from '@/features/mission';
+import type { FileStoreBridge } from '@/platform/contracts';
+
+const createMemoryStore = (): FileStoreBridge => {
+  const db = new Map<string, string>();
+  return {
+    exists: async (path) => db.has(path),
+    readText: async (path) => db.get(path) ?? null,
+    writeText: async (path, content) => {
+      db.set(path, content);
+    },
+    appendText: async (path, content) => {
+      const current = db.get(path) ?? '';
+      db.set(path, `${current}${content}`);
+    },
+    flush: async () => {},
+    remove: async (path) => {
+      db.delete(path);
+      const prefix = `${path.replace(/\/+$/g, '')}/`;
+      for (const key of Array.from(db.keys())) {
+        if (key.startsWith(prefix)) db.delete(key);
+      }
+    },
+    list: async (prefix) => Array.from(db.keys()).filter((key) => key.startsWith(prefix)),
+    stat: async () => null,
+  };
+};
+
+const missionV1 = () => ({
+  schema_version: 1,
+  mission_id: 'mission-1',
+  name: 'Old mission',
+  created_at: '2025-06-01T10:00:00.000Z',
+  updated_at: '2025-06-01T10:00:00.000Z',
+  active_track_id: 'track-1',
+  tracks: [
+    { id: 'track-1', file: 'tracks/track-0001.csv', started_at: '2025-06-01T10:01:00.000Z', ended_at: null, note: null },
+  ],
+  files: { routes: 'routes/routes.geojson', markers: 'markers/markers.geojson' },
+  ui: { divers: [{ uid: 'diver-a' }] },
+});
+
+describe('mission schema migrations', () => {
+  it('v1 -> v2 moves the legacy active track to the primary diver', () => {
+    const step = MISSION_MIGRATIONS.find((item) => item.from === 1)!;
+    const migrated = step.migrate(missionV1());
+    expect(migrated.active_track_id).toBeNull();
+    expect(migrated.active_tracks).toEqual({ 'diver-a': 'track-1' });
+    expect((migrated.tracks as Array<{ agent_id: unknown }>)[0].agent_id).toBeNull();
+
+    const withoutDivers = step.migrate({ ...missionV1(), ui: undefined });
+    expect(withoutDivers.active_tracks).toEqual({ primary: 'track-1' });
+  });
+
+  it('chains steps up to the current version and leaves current documents untouched', () => {
+    const raw = missionV1();
+    const result = migrateMissionDocument(raw);
+    expect(result.fromVersion).toBe(1);
+    expect(result.applied).toHaveLength(MISSION_SCHEMA_VERSION - 1);
+    expect(result.mission.schema_version).toBe(MISSION_SCHEMA_VERSION);
+    expect(raw.schema_version).toBe(1);
+    expect(raw.active_track_id).toBe('track-1');
+
+    const current = migrateMissionDocument(result.mission);
+    expect(current.applied).toEqual([]);
+    expect(current.mission).toBe(result.mission);
+
+    const steps: MissionMigrationStep[] = [
+      ...MISSION_MIGRATIONS,
+      { from: MISSION_SCHEMA_VERSION, description: 'rename', migrate: (mission) => ({ ...mission, name: 'Renamed' }) },
+    ];
+    const future = migrateMissionDocument(missionV1(), steps, MISSION_SCHEMA_VERSION + 1);
+    expect(future.mission.name).toBe('Renamed');
+    expect(future.applied).toEqual([...MISSION_MIGRATIONS.map((item) => item.description), 'rename']);
+  });
+
+  it('reports problems in a dry run without throwing', () => {
+    expect(checkMissionMigration(missionV1()).errors).toEqual([]);
+    expect(checkMissionMigration({ ...missionV1(), schema_version: 99 }).errors[0]).toContain('newer than supported');
+    expect(checkMissionMigration({ ...missionV1(), schema_version: 0 }).errors[0]).toContain('no migration from v0');
+    expect(checkMissionMigration({ ...missionV1(), files: {} }).errors).toEqual(['Mission files map is missing']);
+    expect(checkMissionMigration('nope').fromVersion).toBeNull();
+    expect(() => migrateMissionDocument({ ...missionV1(), tracks: [{}] })).toThrow('Track #1 has no id or file');
+  });
+
+  it('upgrades mission.json on open and keeps the original next to it', async () => {
+    const store = createMemoryStore();
+    const rootPath = 'C:/Missions/Old';
+    const original = JSON.stringify(missionV1());
+    await store.writeText(`${rootPath}/mission.json`, original);
+    await store.writeText(`${rootPath}/tracks/track-0001.csv`, 'timestamp,lat,lon,segment_id\n2025-06-01T10:01:01.000Z,59.9,30.3,1');
+
+    const opened = await createMissionRepository(store).openMission(rootPath, { acquireLock: false });
+    expect(opened.mission.schema_version).toBe(MISSION_SCHEMA_VERSION);
+    expect(opened.mission.active_tracks).toEqual({ 'diver-a': 'track-1' });
+    expect(opened.trackPointsByTrackId['track-1']).toHaveLength(1);
+    expect(JSON.parse((await store.readText(`${rootPath}/mission.json.v1.bak`))!)).toEqual(missionV1());
+    expect(JSON.parse((await store.readText(`${rootPath}/mission.json`))!).schema_version).toBe(MISSION_SCHEMA_VERSION);
+  });
+
+  it('upgrades the mission of an old WAL during recovery', async () => {
+    const store = createMemoryStore();
+    const rootPath = 'C:/Missions/OldWal';
+    const wal = {
+      schema_version: 1,
+      created_at: '2025-06-01T10:05:00.000Z',
+      mission: { ...missionV1(), name: 'From WAL', updated_at: '2025-06-01T10:05:00.000Z' },
+      routes: { type: 'FeatureCollection', features: [] },
+      markers: { type: 'FeatureCollection', features: [] },
+      track_points_by_track_id: {},
+    };
+    await store.writeText(`${rootPath}/logs/wal/current.wal`, JSON.stringify(wal));
+
+    const opened = await createMissionRepository(store).openMission(rootPath, { acquireLock: false });
+    expect(opened.mission.name).toBe('From WAL');
+    expect(opened.mission.schema_version).toBe(MISSION_SCHEMA_VERSION);
+    expect(await store.exists(`${rootPath}/logs/wal/current.wal.v1.bak`)).toBe(true);
+    expect(JSON.parse((await store.readText(`${rootPath}/mission.json`))!).schema_version).toBe(MISSION_SCHEMA_VERSION);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createMissionRepository,
+  exportMissionPackage,
+  importMissionPackage,
+  MISSION_SCHEMA_VERSION,
+} from '@/features/mission';
+import { createZipArchive, readZipArchive } from '@/features/mission/model/zipArchive';
+import type { FileStoreBridge } from '@/platform/contracts';
+
+const createMemoryStore = (): FileStoreBridge & { db: Map<string, string> } => {
+  const db = new Map<string, string>();
+  return {
+    db,
+    exists: async (path) => db.has(path),
+    readText: async (path) => db.get(path) ?? null,
+    writeText: async (path, content) => {
+      db.set(path, content);
+    },
+    appendText: async (path, content) => {
+      const current = db.get(path) ?? '';
+      db.set(path, `${current}${content}`);
+    },
+    flush: async () => {},
+    remove: async (path) => {
+      db.delete(path);
+      const prefix = `${path.replace(/\/+$/g, '')}/`;
+      for (const key of Array.from(db.keys())) {
+        if (key.startsWith(prefix)) db.delete(key);
+      }
+    },
+    list: async (prefix) => {
+      const folder = `${prefix.replace(/\/+$/g, '')}/`;
+      return Array.from(db.keys()).filter((key) => key.startsWith(folder));
+    },
+    stat: async () => null,
+  };
+};
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+
+const missionJson = (overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    schema_version: 1,
+    mission_id: 'm-1',
+    name: 'Гавань',
+    created_at: '2026-03-02T10:00:00.000Z',
+    updated_at: '2026-03-02T10:00:00.000Z',
+    active_track_id: null,
+    active_tracks: {},
+    tracks: [],
+    files: { routes: 'routes/routes.geojson', markers: 'markers/markers.geojson' },
+    ...overrides,
+  });
+
+describe('mission package', () => {
+  it('round-trips stored and deflated entries with UTF-8 names', async () => {
+    const archive = await createZipArchive([
+      { path: 'empty.txt', data: new Uint8Array(0) },
+      { path: 'журнал/log.txt', data: encode('a'.repeat(5000)) },
+    ]);
+    const entries = await readZipArchive(archive);
+    expect(entries.map((entry) => entry.path)).toEqual(['empty.txt', 'журнал/log.txt']);
+    expect(decode(entries[1].data)).toBe('a'.repeat(5000));
+
+    const stored = await createZipArchive([{ path: 'x.txt', data: encode('hello') }]);
+    // Local header (30 bytes) and the name precede the stored bytes.
+    stored[30 + 'x.txt'.length] ^= 0xff;
+    await expect(readZipArchive(stored)).rejects.toThrow('Контрольная сумма');
+    await expect(readZipArchive(new Uint8Array(8))).rejects.toThrow('не является ZIP-архивом');
+  });
+
+  it('exports the mission folder with overlay files and imports it into a new folder', async () => {
+    const store = createMemoryStore();
+    const repository = createMissionRepository(store);
+    const rootPath = 'C:/Missions/Harbour';
+    await repository.createMission(
+      {
+        rootPath,
+        name: 'Гавань',
+        now: new Date('2026-03-02T10:00:00.000Z'),
+        ui: {
+          raster_overlays: [
+            {
+              id: 'r1',
+              name: 'scan',
+              file: 'overlays/rasters/r1.tif.b64',
+              tfw_file: 'overlays/rasters/r1.tfw',
+              bounds: { north: 60, south: 59, east: 31, west: 30 },
+              opacity: 1,
+              visible: true,
+              z_index: 1,
+              source: 'tif+tfw',
+            },
+          ],
+          vector_overlays: [
+            {
+              id: 'v1',
+              name: 'plan',
+              file: 'overlays/vectors/v1.dxf',
+              type: 'dxf',
+              opacity: 1,
+              visible: true,
+              z_index: 1,
+            },
+          ],
+        },
+      },
+      { acquireLock: true },
+    );
+    await store.writeText(`${rootPath}/overlays/rasters/r1.tif.b64`, 'SUkqAA==');
+    await store.writeText(`${rootPath}/overlays/rasters/r1.tfw`, '1\n0\n0\n-1\n30\n60\n');
+    await store.writeText(`${rootPath}/overlays/vectors/v1.dxf`, '0\nEOF\n');
+
+    const entries = await readZipArchive(await exportMissionPackage(store, rootPath));
+    const paths = entries.map((entry) => entry.path);
+    expect(paths).toContain('mission.json');
+    expect(paths).toContain('overlays/rasters/r1.tif.b64');
+    expect(paths).toContain('overlays/vectors/v1.dxf');
+    expect(paths).not.toContain('mission.lock');
+
+    const target = createMemoryStore();
+    await target.writeText('D:/Import/Гавань/mission.json', '{}');
+    const imported = await importMissionPackage(target, await createZipArchive(entries), 'D:/Import');
+    expect(imported.rootPath).toBe('D:/Import/Гавань (2)');
+    expect(await target.readText('D:/Import/Гавань (2)/overlays/rasters/r1.tif.b64')).toBe('SUkqAA==');
+
+    const reopened = await createMissionRepository(target).openMission(imported.rootPath, { acquireLock: false });
+    expect(reopened.mission.name).toBe('Гавань');
+    expect(reopened.mission.ui?.vector_overlays?.[0].file).toBe('overlays/vectors/v1.dxf');
+  });
+
+  it('strips the packed folder, rewrites absolute references and upgrades the schema on import', async () => {
+    const archive = await createZipArchive([
+      {
+        path: 'Harbour/mission.json',
+        data: encode(
+          missionJson({
+            tracks: [{ id: 't1', agent_id: null, file: 'C:\\Missions\\Harbour\\tracks\\t1.csv', started_at: '', ended_at: null, note: null }],
+            files: { routes: './routes/routes.geojson', markers: 'Harbour/markers/markers.geojson' },
+          }),
+        ),
+      },
+      { path: 'Harbour/routes/routes.geojson', data: encode('{"type":"FeatureCollection","features":[]}') },
+      { path: 'Harbour/markers/markers.geojson', data: encode('{"type":"FeatureCollection","features":[]}') },
+      { path: 'Harbour/tracks/t1.csv', data: encode('timestamp,lat,lon\n') },
+      { path: 'Harbour/mission.lock', data: encode('{}') },
+    ]);
+    const store = createMemoryStore();
+
+    const imported = await importMissionPackage(store, archive, 'D:/Import/');
+    expect(imported.rootPath).toBe('D:/Import/Гавань');
+    expect(imported.mission.schema_version).toBe(MISSION_SCHEMA_VERSION);
+    expect(imported.mission.files).toEqual({ routes: 'routes/routes.geojson', markers: 'markers/markers.geojson' });
+    expect(imported.mission.tracks[0].file).toBe('tracks/t1.csv');
+    expect(await store.exists('D:/Import/Гавань/tracks/t1.csv')).toBe(true);
+    expect(await store.exists('D:/Import/Гавань/mission.lock')).toBe(false);
+  });
+
+  it('rejects packages from a newer schema and paths that leave the mission folder', async () => {
+    const store = createMemoryStore();
+    const newer = await createZipArchive([{ path: 'mission.json', data: encode(missionJson({ schema_version: 99 })) }]);
+    await expect(importMissionPackage(store, newer, 'D:/Import')).rejects.toThrow('более новой версией');
+
+    const escaping = await createZipArchive([
+      { path: 'mission.json', data: encode(missionJson()) },
+      { path: '../evil.txt', data: encode('x') },
+    ]);
+    await expect(importMissionPackage(store, escaping, 'D:/Import')).rejects.toThrow('Недопустимый путь');
+
+    const withoutMission = await createZipArchive([{ path: 'notes.txt', data: encode('x') }]);
+    await expect(importMissionPackage(store, withoutMission, 'D:/Import')).rejects.toThrow('нет mission.json');
+    expect(store.db.size).toBe(0);
+  });
+});
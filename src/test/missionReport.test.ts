@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildMissionReportHtml,
+  renderMissionSnapshotSvg,
+  summarizeReportPlanning,
+  summarizeReportTracks,
+} from '@/features/export';
+import { createDefaultDiver, type MissionBundle } from '@/features/mission';
+
+const NOW = '2024-06-01T10:00:00.000Z';
+
+const baseProps = (id: string, name: string) => ({ id, name, note: null, created_at: NOW, updated_at: NOW });
+
+const bundle: MissionBundle = {
+  rootPath: '/missions/harbour',
+  mission: {
+    schema_version: 1,
+    mission_id: 'm-1',
+    name: 'Гавань <север>',
+    created_at: NOW,
+    updated_at: NOW,
+    active_track_id: null,
+    active_tracks: {},
+    tracks: [
+      {
+        id: 't1',
+        agent_id: 'diver-a',
+        file: 'tracks/t1.csv',
+        started_at: NOW,
+        ended_at: '2024-06-01T10:10:00.000Z',
+        note: null,
+      },
+    ],
+    files: { routes: 'routes/routes.geojson', markers: 'markers/markers.geojson' },
+  } as MissionBundle['mission'],
+  routes: {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        geometry: {
+          type: 'LineString',
+          coordinates: [
+            [30, 60],
+            [30, 60.01],
+          ],
+        },
+        properties: { ...baseProps('r1', 'Маршрут 1'), kind: 'route' },
+      },
+      {
+        type: 'Feature',
+        geometry: {
+          type: 'Polygon',
+          coordinates: [
+            [
+              [30, 60],
+              [30.002, 60],
+              [30.002, 60.001],
+              [30, 60.001],
+              [30, 60],
+            ],
+          ],
+        },
+        properties: { ...baseProps('z1', 'Зона 1'), kind: 'survey_area', lane_angle_deg: 0, lane_width_m: 5 },
+      },
+      ...[0, 1, 2].map((index) => ({
+        type: 'Feature' as const,
+        geometry: {
+          type: 'LineString' as const,
+          coordinates: [
+            [30 + index * 0.0001, 60],
+            [30 + index * 0.0001, 60.001],
+          ] as [number, number][],
+        },
+        properties: { ...baseProps(`l${index}`, `Галс ${index + 1}`), kind: 'lane' as const, parent_area_id: 'z1', lane_index: index },
+      })),
+    ],
+  } as MissionBundle['routes'],
+  markers: {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [30.5, 60.25] },
+        properties: { ...baseProps('mk1', 'Якорь'), kind: 'marker', description: 'Старый якорь' },
+      },
+    ],
+  },
+  trackPointsByTrackId: {
+    t1: [
+      { timestamp: NOW, lat: 60, lon: 30, segment_id: 1, depth_m: 2 },
+      { timestamp: '2024-06-01T10:05:00.000Z', lat: 60.001, lon: 30, segment_id: 1, depth_m: 14.5 },
+      { timestamp: '2024-06-01T10:10:00.000Z', lat: 60.002, lon: 30, segment_id: 1, depth_m: 3 },
+    ],
+  },
+};
+
+const diver = { ...createDefaultDiver(0), uid: 'diver-a', title: 'Иванов' };
+
+describe('mission report', () => {
+  it('summarises tracks with duration, distance and max depth', () => {
+    const [row] = summarizeReportTracks(bundle, [diver]);
+    expect(row.name).toBe('Иванов');
+    expect(row.durationS).toBe(600);
+    expect(row.distanceM).toBeCloseTo(222.4, 0);
+    expect(row.maxDepthM).toBe(14.5);
+    expect(row.pointCount).toBe(3);
+  });
+
+  it('counts lanes of each zone and measures routes', () => {
+    const rows = summarizeReportPlanning(bundle);
+    expect(rows.map((row) => row.kind)).toEqual(['route', 'survey_area']);
+    expect(rows[0].lengthM).toBeCloseTo(1113.2, 1);
+    expect(rows[1].laneCount).toBe(3);
+    expect(rows[1].laneWidthM).toBe(5);
+    // ~111.5 m by ~111.2 m.
+    expect(rows[1].areaM2).toBeGreaterThan(12_000);
+    expect(rows[1].areaM2).toBeLessThan(13_000);
+  });
+
+  it('builds a self-contained HTML report with coordinates in the chosen format', () => {
+    const html = buildMissionReportHtml({
+      bundle,
+      divers: [diver],
+      equipment: { profileName: 'Гидроакустика', devices: [{ name: 'Zima2R', type: 'USBL' }] },
+      coordinates: { crs: 'wgs84', format: 'dms', precision: 6 },
+      overviewSvg: '<svg id="overview"></svg>',
+      images: [{ title: 'Текущий вид карты', src: 'data:image/png;base64,AAAA' }],
+      generatedAt: new Date(NOW),
+    });
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('Гавань &lt;север&gt;');
+    expect(html).not.toContain('<север>');
+    expect(html).toContain('Гидроакустика');
+    expect(html).toContain('<td>Zima2R</td><td>USBL</td>');
+    expect(html).toContain('<td>Иванов</td>');
+    expect(html).toContain('14.5 м');
+    expect(html).toContain('<td>Якорь</td><td>Старый якорь</td><td>60° 15′ 0.00″</td>');
+    expect(html).toContain('<td>Зона</td>');
+    expect(html).toContain('<svg id="overview"></svg>');
+    expect(html).toContain('src="data:image/png;base64,AAAA"');
+    expect(html).not.toMatch(/<script/i);
+  });
+
+  it('draws an SVG overview fitted to the mission', () => {
+    const svg = renderMissionSnapshotSvg(bundle, {
+      width: 400,
+      height: 300,
+      trackColorsById: { t1: '#ff0000' },
+      trackColor: '#000000',
+      routeColor: '#0000ff',
+      zoneColor: '#fbbf24',
+      laneColor: '#22c55e',
+      markerColor: '#22c55e',
+    });
+    expect(svg).not.toBeNull();
+    expect(svg).toContain('<polygon');
+    expect(svg).toContain('stroke="#ff0000"');
+    expect(svg?.match(/stroke="#22c55e"/g)).toHaveLength(3);
+    expect(svg).toContain('>Якорь</text>');
+
+    const empty = renderMissionSnapshotSvg(
+      { ...bundle, mission: { ...bundle.mission, tracks: [] }, routes: { type: 'FeatureCollection', features: [] }, markers: { type: 'FeatureCollection', features: [] } },
+      { width: 400, height: 300, trackColorsById: {}, trackColor: '', routeColor: '', zoneColor: '', laneColor: '', markerColor: '' },
+    );
+    expect(empty).toBeNull();
+  });
+});
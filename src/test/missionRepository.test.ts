@@ -1,4 +1,4 @@
-import { createMissionRepository } from '@/features/mission';
+import { appendAlarmLog, createMissionRepository, type AlarmLogEntry } from '@/features/mission';
 import type { FileStoreBridge } from '@/platform/contracts';
 
 const createMemoryStore = (): FileStoreBridge => {
@@ -451,6 +451,7 @@ describe('mission repository', () => {
     });
 
     await repository.saveMission(draft);
+    await store.writeText(`${draftRootPath}/journal.jsonl`, '{"id":"j1"}\n');
 
     const converted = await repository.convertDraftToMission({
       draftRootPath,
@@ -465,6 +466,7 @@ describe('mission repository', () => {
     expect(converted.trackPointsByTrackId['track-1']).toHaveLength(1);
     expect(converted.routes.features).toHaveLength(1);
     expect(await store.exists(`${draftRootPath}/mission.json`)).toBe(false);
+    expect(await store.readText(`${missionRootPath}/journal.jsonl`)).toBe('{"id":"j1"}\n');
 
     const reopened = await repository.openMission(missionRootPath, { acquireLock: false });
     expect(reopened.mission.name).toBe('Converted mission');
@@ -473,6 +475,31 @@ describe('mission repository', () => {
     expect(reopened.routes.features).toHaveLength(1);
   });
 
+  it('carries the alarm log of the draft over to the converted mission', async () => {
+    const store = createMemoryStore();
+    const repository = createMissionRepository(store);
+    const draftRootPath = 'draft/current';
+    const missionRootPath = 'C:/Missions/WithAlarms';
+    const draft = await repository.createMission({ rootPath: draftRootPath, name: 'Черновик' }, { acquireLock: false });
+    await repository.saveMission(draft);
+    const entry: AlarmLogEntry = {
+      at: '2026-02-03T10:02:00.000Z',
+      event: 'raised',
+      rule_id: 'rule-1',
+      kind: 'max_depth',
+      subject_id: 'diver-1',
+      subject_name: 'Водолаз 1',
+      message: 'Глубина 42.0 м превышает 40 м',
+    };
+    await appendAlarmLog(store, draftRootPath, [entry]);
+
+    await repository.convertDraftToMission({ draftRootPath, missionRootPath, name: 'Mission with alarms' });
+
+    const log = await store.readText(`${missionRootPath}/logs/alarms.jsonl`);
+    expect(log?.trim().split('\n').map((line) => JSON.parse(line))).toEqual([entry]);
+    expect(await store.exists(`${draftRootPath}/logs/alarms.jsonl`)).toBe(false);
+  });
+
   it('does not write mission files when lock already exists on create', async () => {
     const store = createMemoryStore();
     const repository = createMissionRepository(store);
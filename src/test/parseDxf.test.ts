@@ -4,6 +4,23 @@ import { parseDxfToWgs84 } from '@/features/map/dxfOverlay/parseDxf';
 
 const joinDxf = (lines: string[]): string => lines.join('\n');
 
+const entitiesDxf = (entityLines: string[], tableLines: string[] = []): string =>
+  joinDxf([
+    ...(tableLines.length > 0 ? ['0', 'SECTION', '2', 'TABLES', ...tableLines, '0', 'ENDSEC'] : []),
+    '0',
+    'SECTION',
+    '2',
+    'ENTITIES',
+    ...entityLines,
+    '0',
+    'ENDSEC',
+    '0',
+    'EOF',
+  ]);
+
+const utmPoint = (easting: number, northing: number) =>
+  utmToWgs84({ easting, northing, zone: 37, hemisphere: 'north' });
+
 describe('parseDxfToWgs84', () => {
   it('parses LINE entity and converts UTM points into WGS84', () => {
     const dxf = joinDxf([
@@ -161,4 +178,129 @@ describe('parseDxfToWgs84', () => {
     expect(result.features[0].points[0].lat).toBeCloseTo(expectedA.lat, 7);
     expect(result.features[0].points[0].lon).toBeCloseTo(expectedA.lon, 7);
   });
+
+  it('tessellates ARC and CIRCLE entities', () => {
+    const dxf = entitiesDxf([
+      '0', 'ARC', '10', '500000', '20', '5410000', '40', '100', '50', '0', '51', '90',
+      '0', 'CIRCLE', '10', '500500', '20', '5410500', '40', '50',
+    ]);
+
+    const result = parseDxfToWgs84(dxf, { zone: 37, hemisphere: 'north' });
+    expect(result.features).toHaveLength(2);
+    const [arc, circle] = result.features;
+    if (arc?.type !== 'polyline' || circle?.type !== 'polyline') throw new Error('expected polylines');
+
+    expect(arc.points.length).toBeGreaterThan(10);
+    expect(arc.points[0].lat).toBeCloseTo(utmPoint(500100, 5410000).lat, 7);
+    expect(arc.points[0].lon).toBeCloseTo(utmPoint(500100, 5410000).lon, 7);
+    expect(arc.points[arc.points.length - 1].lat).toBeCloseTo(utmPoint(500000, 5410100).lat, 7);
+    expect(arc.points[arc.points.length - 1].lon).toBeCloseTo(utmPoint(500000, 5410100).lon, 7);
+
+    expect(circle.points.length).toBeGreaterThan(30);
+    expect(circle.points[0]).toEqual(circle.points[circle.points.length - 1]);
+  });
+
+  it('expands LWPOLYLINE bulges into arcs', () => {
+    const dxf = entitiesDxf([
+      '0', 'LWPOLYLINE', '90', '2', '70', '0',
+      '10', '500000', '20', '5410000', '42', '1',
+      '10', '500100', '20', '5410000',
+    ]);
+
+    const result = parseDxfToWgs84(dxf, { zone: 37, hemisphere: 'north' });
+    const [feature] = result.features;
+    if (feature?.type !== 'polyline') throw new Error('expected polyline');
+    expect(feature.points.length).toBeGreaterThan(10);
+    // A bulge of 1 is a half circle; positive bulges turn counter-clockwise, so it dips south of the chord.
+    const middle = feature.points[Math.floor(feature.points.length / 2)];
+    expect(middle.lat).toBeLessThan(utmPoint(500050, 5410000).lat);
+    expect(middle.lat).toBeCloseTo(utmPoint(500050, 5409950).lat, 6);
+  });
+
+  it('keeps TEXT and MTEXT as labelled points', () => {
+    const dxf = entitiesDxf([
+      '0', 'TEXT', '8', 'Подписи', '10', '500000', '20', '5410000', '40', '2.5', '50', '45', '1', 'Глубина 12%%dм',
+      '0', 'MTEXT', '8', 'Подписи', '10', '500010', '20', '5410010', '40', '3', '1', '{\\fArial|b1;Колодец}\\PК-1',
+    ]);
+
+    const result = parseDxfToWgs84(dxf, { zone: 37, hemisphere: 'north' });
+    expect(result.features).toHaveLength(2);
+    expect(result.features[0]).toMatchObject({
+      type: 'point',
+      layer: 'Подписи',
+      label: { text: 'Глубина 12°м', height: 2.5, rotation_deg: 45 },
+    });
+    expect(result.features[1]).toMatchObject({
+      type: 'point',
+      label: { text: 'Колодец\nК-1', height: 3, rotation_deg: 0 },
+    });
+  });
+
+  it('outlines HATCH boundary paths as closed polylines', () => {
+    const dxf = entitiesDxf([
+      '0', 'HATCH', '2', 'SOLID', '70', '1', '91', '1',
+      '92', '2', '72', '0', '73', '1', '93', '3',
+      '10', '500000', '20', '5410000',
+      '10', '500100', '20', '5410000',
+      '10', '500100', '20', '5410100',
+      '97', '0',
+    ]);
+
+    const result = parseDxfToWgs84(dxf, { zone: 37, hemisphere: 'north' });
+    expect(result.features).toHaveLength(1);
+    const [outline] = result.features;
+    if (outline?.type !== 'polyline') throw new Error('expected polyline');
+    expect(outline.points).toHaveLength(4);
+    expect(outline.points[0]).toEqual(outline.points[3]);
+  });
+
+  it('carries layer names, entity colours and the drawing layer table', () => {
+    const dxf = entitiesDxf(
+      [
+        '0', 'LINE', '8', 'Кабели', '10', '500000', '20', '5410000', '11', '500100', '21', '5410100',
+        '0', 'LINE', '8', 'Кабели', '62', '3', '10', '500000', '20', '5410000', '11', '500100', '21', '5410000',
+        '0', 'LINE', '8', 'Скрытый', '420', '1193046', '10', '500000', '20', '5410000', '11', '500000', '21', '5410100',
+        '0', 'LINE', '10', '500000', '20', '5410000', '11', '500050', '21', '5410050',
+      ],
+      [
+        '0', 'TABLE', '2', 'LAYER',
+        '0', 'LAYER', '2', 'Кабели', '70', '0', '62', '1',
+        '0', 'LAYER', '2', 'Скрытый', '70', '0', '62', '-5',
+        '0', 'LAYER', '2', 'Неиспользуемый', '70', '0', '62', '2',
+        '0', 'ENDTAB',
+      ],
+    );
+
+    const result = parseDxfToWgs84(dxf, { zone: 37, hemisphere: 'north' });
+    expect(result.features.map((feature) => [feature.layer, feature.color])).toEqual([
+      ['Кабели', null],
+      ['Кабели', '#00ff00'],
+      ['Скрытый', '#123456'],
+      ['0', null],
+    ]);
+    expect(result.layers).toEqual([
+      { name: 'Кабели', color: '#ff0000', visible: true },
+      { name: 'Скрытый', color: '#0000ff', visible: false },
+      { name: '0', color: null, visible: true },
+    ]);
+  });
+
+  it('evaluates SPLINE control points', () => {
+    const dxf = entitiesDxf([
+      '0', 'SPLINE', '70', '8', '71', '2', '72', '6', '73', '3',
+      '40', '0', '40', '0', '40', '0', '40', '1', '40', '1', '40', '1',
+      '10', '500000', '20', '5410000',
+      '10', '500050', '20', '5410100',
+      '10', '500100', '20', '5410000',
+    ]);
+
+    const result = parseDxfToWgs84(dxf, { zone: 37, hemisphere: 'north' });
+    const [spline] = result.features;
+    if (spline?.type !== 'polyline') throw new Error('expected polyline');
+    expect(spline.points.length).toBeGreaterThan(10);
+    expect(spline.points[0].lat).toBeCloseTo(utmPoint(500000, 5410000).lat, 7);
+    // The quadratic Bezier peaks half way to its middle control point.
+    const middle = spline.points[Math.floor(spline.points.length / 2)];
+    expect(middle.lat).toBeCloseTo(utmPoint(500050, 5410050).lat, 6);
+  });
 });
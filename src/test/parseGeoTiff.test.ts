@@ -34,7 +34,44 @@ const createMinimalTiffWithoutGeoref = (width: number, height: number): ArrayBuf
   return buffer;
 };
 
+const createTiffWithGeoKeys = (geoKeys: Array<[number, number]>): ArrayBuffer => {
+  const directory = [1, 1, 0, geoKeys.length, ...geoKeys.flatMap(([keyId, value]) => [keyId, 0, 1, value])];
+  const ifdSize = 2 + 12 * 3 + 4;
+  const directoryOffset = 8 + ifdSize;
+  const buffer = new ArrayBuffer(directoryOffset + directory.length * 2);
+  const view = new DataView(buffer);
+  view.setUint8(0, 0x49);
+  view.setUint8(1, 0x49);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+
+  let offset = 8;
+  view.setUint16(offset, 3, true);
+  offset += 2;
+  const writeEntry = (tag: number, type: number, count: number, value: number) => {
+    view.setUint16(offset, tag, true);
+    view.setUint16(offset + 2, type, true);
+    view.setUint32(offset + 4, count, true);
+    view.setUint32(offset + 8, value, true);
+    offset += 12;
+  };
+  writeEntry(256, 4, 1, 10);
+  writeEntry(257, 4, 1, 10);
+  // GeoKeyDirectoryTag (34735), SHORT values stored after the IFD
+  writeEntry(34735, 3, directory.length, directoryOffset);
+  view.setUint32(offset, 0, true);
+  directory.forEach((value, index) => view.setUint16(directoryOffset + index * 2, value, true));
+  return buffer;
+};
+
 describe('parseGeoTiff / parseTiffCoreMetadata', () => {
+  it('prefers ProjectedCSTypeGeoKey over GeographicTypeGeoKey', () => {
+    expect(parseTiffCoreMetadata(createTiffWithGeoKeys([[2048, 4284], [3072, 28407]])).epsg).toBe(28407);
+    expect(parseTiffCoreMetadata(createTiffWithGeoKeys([[2048, 4326]])).epsg).toBe(4326);
+    expect(parseTiffCoreMetadata(createTiffWithGeoKeys([[3072, 32767]])).epsg).toBeNull();
+  });
+
+
   it('reads TIFF dimensions even when georeference is absent', () => {
     const tiff = createMinimalTiffWithoutGeoref(300, 200);
     const core = parseTiffCoreMetadata(tiff);
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { parseS57ToWgs84 } from '@/features/map/s57Overlay/parseS57';
+import { readIso8211Records } from '@/features/map/s57Overlay/iso8211';
+
+const FT = 0x1e;
+const UT = 0x1f;
+
+const ascii = (text: string): number[] => Array.from(text, (char) => char.charCodeAt(0));
+const u8 = (value: number): number[] => [value & 0xff];
+const u16 = (value: number): number[] => [value & 0xff, (value >> 8) & 0xff];
+const u32 = (value: number): number[] => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+const name = (rcnm: number, rcid: number): number[] => [...u8(rcnm), ...u32(rcid)];
+const coord = (degrees: number): number[] => u32(Math.round(degrees * 10_000_000));
+
+const FIELD_DEFINITIONS: Array<[tag: string, labels: string, formats: string]> = [
+  ['0001', '', '(b12)'],
+  ['DSPM', 'RCNM!RCID!HDAT!VDAT!SDAT!CSCL!DUNI!HUNI!PUNI!COUN!COMF!SOMF!COMT', '(b11,b14,3b11,b14,4b11,2b14,A)'],
+  ['VRID', 'RCNM!RCID!RVER!RUIN', '(b11,b14,b12,b11)'],
+  ['VRPT', '*NAME!ORNT!USAG!TOPI!MASK', '(B(40),4b11)'],
+  ['SG2D', '*YCOO!XCOO', '(2b24)'],
+  ['SG3D', '*YCOO!XCOO!VE3D', '(3b24)'],
+  ['FRID', 'RCNM!RCID!PRIM!GRUP!OBJL!RVER!RUIN', '(b11,b14,2b11,2b12,b11)'],
+  ['ATTF', '*ATTL!ATVL', '(b12,A)'],
+  ['FSPT', '*NAME!ORNT!USAG!MASK', '(B(40),3b11)'],
+];
+
+const encodeRecord = (leaderId: 'L' | 'D', fields: Array<[tag: string, data: number[]]>): number[] => {
+  const directory: number[] = [];
+  const area: number[] = [];
+  for (const [tag, data] of fields) {
+    directory.push(...ascii(tag), ...ascii(String(data.length).padStart(5, '0')), ...ascii(String(area.length).padStart(5, '0')));
+    area.push(...data);
+  }
+  directory.push(FT);
+  const base = 24 + directory.length;
+  const length = base + area.length;
+  const leader =
+    leaderId === 'L'
+      ? `${String(length).padStart(5, '0')}3LE1 09${String(base).padStart(5, '0')} ! 5504`
+      : `${String(length).padStart(5, '0')} D     ${String(base).padStart(5, '0')}   5504`;
+  return [...ascii(leader), ...directory, ...area];
+};
+
+const ddr = (): number[] =>
+  encodeRecord('L', [
+    ['0000', [...ascii('0000;&   S-57 test'), FT]],
+    ...FIELD_DEFINITIONS.map(([tag, labels, formats]): [string, number[]] => [
+      tag,
+      [...ascii(`1600;&   ${tag}`), UT, ...ascii(labels), UT, ...ascii(formats), FT],
+    ]),
+  ]);
+
+let recordId = 0;
+const dataRecord = (fields: Array<[tag: string, data: number[]]>): number[] =>
+  encodeRecord('D', [['0001', [...u16((recordId += 1)), FT]], ...fields.map(([tag, data]): [string, number[]] => [tag, [...data, FT]])]);
+
+const vectorRecord = (
+  rcnm: number,
+  rcid: number,
+  extra: { sg2d?: Array<[number, number]>; sg3d?: Array<[number, number, number]>; nodes?: [number, number] },
+) =>
+  dataRecord([
+    ['VRID', [...u8(rcnm), ...u32(rcid), ...u16(1), ...u8(1)]],
+    ...(extra.nodes
+      ? [['VRPT', [...name(120, extra.nodes[0]), 255, 255, 1, 255, ...name(120, extra.nodes[1]), 255, 255, 2, 255]] as [string, number[]]]
+      : []),
+    ...(extra.sg2d ? [['SG2D', extra.sg2d.flatMap(([lat, lon]) => [...coord(lat), ...coord(lon)])] as [string, number[]]] : []),
+    ...(extra.sg3d
+      ? [['SG3D', extra.sg3d.flatMap(([lat, lon, depth]) => [...coord(lat), ...coord(lon), ...u32(depth * 10)])] as [string, number[]]]
+      : []),
+  ]);
+
+const featureRecord = (
+  rcid: number,
+  prim: number,
+  objl: number,
+  attributes: Array<[number, string]>,
+  pointers: Array<[rcnm: number, rcid: number, orientation: number]>,
+) =>
+  dataRecord([
+    ['FRID', [...u8(100), ...u32(rcid), ...u8(prim), ...u8(2), ...u16(objl), ...u16(1), ...u8(1)]],
+    ...(attributes.length > 0
+      ? [['ATTF', attributes.flatMap(([attl, value]) => [...u16(attl), ...ascii(value), UT])] as [string, number[]]]
+      : []),
+    ['FSPT', pointers.flatMap(([rcnm, id, orientation]) => [...name(rcnm, id), orientation, 255, 255])],
+  ]);
+
+const buildCell = (): Uint8Array =>
+  new Uint8Array([
+    ...ddr(),
+    dataRecord([['DSPM', [...u8(20), ...u32(1), 2, 23, 23, ...u32(50000), 1, 1, 1, 1, ...u32(10_000_000), ...u32(10), UT]]]),
+    vectorRecord(120, 1, { sg2d: [[60, 30]] }),
+    vectorRecord(120, 2, { sg2d: [[60, 30.01]] }),
+    vectorRecord(130, 1, { sg2d: [[60.005, 30.005]], nodes: [1, 2] }),
+    vectorRecord(130, 2, { sg2d: [[59.995, 30.005]], nodes: [2, 1] }),
+    vectorRecord(110, 1, { sg3d: [[60.001, 30.002, 4.5], [60.002, 30.003, 35.2]] }),
+    vectorRecord(110, 2, { sg2d: [[60.003, 30.004]] }),
+    featureRecord(1, 2, 43, [[174, '5']], [[130, 1, 2]]),
+    featureRecord(2, 3, 42, [[87, '5'], [88, '10']], [[130, 1, 1], [130, 2, 1]]),
+    featureRecord(3, 1, 129, [], [[110, 1, 255]]),
+    featureRecord(4, 1, 159, [], [[110, 2, 255]]),
+    featureRecord(5, 1, 17, [[75, '3'], [116, 'N1']], [[110, 2, 255]]),
+    featureRecord(6, 1, 75, [], [[110, 2, 255]]),
+  ].flat());
+
+describe('S-57 ENC parser', () => {
+  it('reads ISO 8211 records with repeating binary fields', () => {
+    const records = readIso8211Records(buildCell());
+    expect(records).toHaveLength(13);
+    const sounding = records[5].fields.find((field) => field.tag === 'SG3D');
+    expect(sounding?.rows).toHaveLength(2);
+    expect(sounding?.rows[1]).toEqual({ YCOO: 600_020_000, XCOO: 300_030_000, VE3D: 352 });
+    const attributes = records[8].fields.find((field) => field.tag === 'ATTF');
+    expect(attributes?.rows).toEqual([
+      { ATTL: 87, ATVL: '5' },
+      { ATTL: 88, ATVL: '10' },
+    ]);
+  });
+
+  it('assembles areas, contours, soundings and aids with S-52-like colours', () => {
+    const { features, layers } = parseS57ToWgs84(buildCell());
+    expect(layers?.map((layer) => layer.name)).toEqual(['BOYLAT', 'DEPARE', 'DEPCNT', 'SOUNDG', 'WRECKS']);
+
+    const [area] = features;
+    expect(area).toMatchObject({ type: 'polygon', layer: 'DEPARE', color: '#98c5f2' });
+    expect(area.type === 'polygon' && area.points.map((point) => point.lon)).toEqual([30, 30.005, 30.01, 30.005, 30]);
+    expect(area).not.toHaveProperty('holes');
+
+    const contour = features.find((feature) => feature.layer === 'DEPCNT' && feature.type === 'polyline');
+    // FSPT orientation 2 reverses the edge.
+    expect(contour?.type === 'polyline' && contour.points[0]).toEqual({ lat: 60, lon: 30.01 });
+    expect(features.find((feature) => feature.layer === 'DEPCNT' && feature.type === 'point')).toMatchObject({
+      label: { text: '5' },
+    });
+
+    const soundings = features.filter((feature) => feature.layer === 'SOUNDG');
+    expect(soundings.map((feature) => (feature.type === 'point' ? [feature.label?.text, feature.color] : null))).toEqual([
+      ['4.5', '#000000'],
+      ['35', '#7d898c'],
+    ]);
+
+    expect(features.find((feature) => feature.layer === 'WRECKS')).toMatchObject({
+      type: 'point',
+      point: { lat: 60.003, lon: 30.004 },
+      color: '#c545c3',
+    });
+    const buoy = features.filter((feature) => feature.layer === 'BOYLAT');
+    expect(buoy).toHaveLength(2);
+    expect(buoy[1]).toMatchObject({ color: '#d9262e', label: { text: 'N1' } });
+  });
+
+  it('rejects files that are not ISO 8211 cells', () => {
+    expect(() => parseS57ToWgs84(new TextEncoder().encode('0\nSECTION\n2\nENTITIES\n0\nEOF\n'))).toThrow(/S-57/);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyRasterGeoreference,
+  computeGeoreferencedBounds,
+  computeTfwFromControlPoints,
+  fitRasterGeoreference,
+  normalizeRasterGeoreference,
+  toRasterControlPoints,
+  type RasterControlPoint,
+} from '@/features/map/rasterOverlays/georeference';
+import { formatTfw, parseTfw } from '@/features/map/rasterOverlays/parseTfw';
+
+// Raster rotated by 30° with 1e-5° pixels, top-left corner at 59.95N 30.30E.
+const rotatedPixelToMap = (x: number, y: number) => {
+  const angle = (30 * Math.PI) / 180;
+  const size = 1e-5;
+  return {
+    lon: 30.3 + size * (x * Math.cos(angle) + y * Math.sin(angle)),
+    lat: 59.95 + size * (x * Math.sin(angle) - y * Math.cos(angle)),
+  };
+};
+
+const rotatedPoints: RasterControlPoint[] = [
+  [0, 0],
+  [1000, 0],
+  [0, 800],
+  [1000, 800],
+  [400, 300],
+].map(([x, y]) => ({ pixel_x: x, pixel_y: y, ...rotatedPixelToMap(x, y) }));
+
+describe('raster georeferencing by control points', () => {
+  it('recovers a rotated affine transform with zero residuals', () => {
+    const fit = fitRasterGeoreference(rotatedPoints, 1);
+    expect(fit.rmse_m).toBeLessThan(1e-6);
+    const expected = rotatedPixelToMap(250, 650);
+    const actual = applyRasterGeoreference(fit, 250, 650);
+    expect(actual.lat).toBeCloseTo(expected.lat, 10);
+    expect(actual.lon).toBeCloseTo(expected.lon, 10);
+  });
+
+  it('reports per-point residuals in metres for an overdetermined fit', () => {
+    const shifted = rotatedPoints.map((point, index) => (index === 4 ? { ...point, lat: point.lat + 0.0001 } : point));
+    const fit = fitRasterGeoreference(shifted, 1);
+    expect(fit.residuals).toHaveLength(5);
+    // 0.0001° of latitude is ~11 m; least squares spreads the error over all points.
+    expect(fit.residuals[4].distance_m).toBeGreaterThan(5);
+    expect(fit.residuals[4].distance_m).toBeLessThan(11.2);
+    expect(fit.rmse_m).toBeGreaterThan(0);
+  });
+
+  it('fits a second-order polynomial through curved control points', () => {
+    const curved = [
+      [0, 0],
+      [500, 0],
+      [1000, 0],
+      [0, 500],
+      [500, 500],
+      [1000, 500],
+      [0, 1000],
+      [1000, 1000],
+    ].map(([x, y]) => ({ pixel_x: x, pixel_y: y, lat: 60 - y * 1e-5 + x * x * 1e-10, lon: 30 + x * 1e-5 }));
+    expect(fitRasterGeoreference(curved, 1).rmse_m).toBeGreaterThan(1);
+    const fit = fitRasterGeoreference(curved, 2);
+    expect(fit.rmse_m).toBeLessThan(1e-6);
+    expect(applyRasterGeoreference(fit, 250, 250).lat).toBeCloseTo(60 - 250e-5 + 250 * 250 * 1e-10, 10);
+  });
+
+  it('rejects too few or collinear control points', () => {
+    expect(() => fitRasterGeoreference(rotatedPoints.slice(0, 2), 1)).toThrow(/минимум 3/);
+    expect(() => fitRasterGeoreference(rotatedPoints, 2)).toThrow(/минимум 6/);
+    const collinear = [0, 100, 200].map((x) => ({ pixel_x: x, pixel_y: x, lat: 60 + x * 1e-5, lon: 30 }));
+    expect(() => fitRasterGeoreference(collinear, 1)).toThrow(/одной линии/);
+  });
+
+  it('writes a world file that reproduces the affine fit', () => {
+    const tfw = parseTfw(formatTfw(computeTfwFromControlPoints(rotatedPoints)));
+    expect(tfw.rotationX).not.toBe(0);
+    const x = 700;
+    const y = 200;
+    // World file maps pixel centres: X = A·col + B·row + C with C at the centre of the first pixel.
+    const lon = tfw.pixelSizeX * (x - 0.5) + tfw.rotationX * (y - 0.5) + tfw.topLeftX;
+    const lat = tfw.rotationY * (x - 0.5) + tfw.pixelSizeY * (y - 0.5) + tfw.topLeftY;
+    expect(lon).toBeCloseTo(rotatedPixelToMap(x, y).lon, 10);
+    expect(lat).toBeCloseTo(rotatedPixelToMap(x, y).lat, 10);
+  });
+
+  it('computes the envelope of the rotated raster and restores stored georeference', () => {
+    const bounds = computeGeoreferencedBounds(fitRasterGeoreference(rotatedPoints, 1), 1000, 800);
+    expect(bounds.west).toBeCloseTo(30.3, 8);
+    expect(bounds.north).toBeCloseTo(rotatedPixelToMap(1000, 0).lat, 8);
+    expect(bounds.south).toBeCloseTo(rotatedPixelToMap(0, 800).lat, 8);
+
+    expect(
+      toRasterControlPoints([
+        { pixel: { x: 1, y: 2 }, map: { lat: 3, lon: 4 } },
+        { pixel: { x: 1, y: 2 }, map: null },
+      ]),
+    ).toEqual([{ pixel_x: 1, pixel_y: 2, lat: 3, lon: 4 }]);
+    expect(
+      normalizeRasterGeoreference({ order: 1, image_width: 1000, image_height: 800, control_points: rotatedPoints }),
+    ).toEqual({ order: 1, image_width: 1000, image_height: 800, control_points: rotatedPoints });
+    expect(
+      normalizeRasterGeoreference({ order: 2, image_width: 1000, image_height: 800, control_points: rotatedPoints }),
+    ).toBeUndefined();
+    expect(normalizeRasterGeoreference({ order: 1, image_width: 0, image_height: 800, control_points: [] })).toBeUndefined();
+  });
+});
@@ -0,0 +1,68 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import RasterGeoreferencePanel, { type GeoreferencePointDraft } from '@/components/map/RasterGeoreferencePanel';
+
+const points: GeoreferencePointDraft[] = [
+  { id: 'a', pixel: { x: 0, y: 0 }, map: { lat: 60, lon: 30 } },
+  { id: 'b', pixel: { x: 100, y: 0 }, map: { lat: 60, lon: 30.001 } },
+  { id: 'c', pixel: { x: 0, y: 100 }, map: { lat: 59.999, lon: 30 } },
+  { id: 'd', pixel: { x: 50, y: 50 }, map: null },
+];
+
+const renderPanel = (overrides: Partial<Parameters<typeof RasterGeoreferencePanel>[0]> = {}) => {
+  const props = {
+    overlayName: 'Схема причала',
+    imageUrl: 'blob:raster',
+    points,
+    activePointId: 'd',
+    order: 1 as const,
+    pickingOnMap: false,
+    onImageSize: vi.fn(),
+    onPixelPick: vi.fn(),
+    onActivePointChange: vi.fn(),
+    onAddPoint: vi.fn(),
+    onRemovePoint: vi.fn(),
+    onPickOnMap: vi.fn(),
+    onEnterCoordinates: vi.fn(),
+    onOrderChange: vi.fn(),
+    onApply: vi.fn(),
+    onClose: vi.fn(),
+    ...overrides,
+  };
+  render(<RasterGeoreferencePanel {...props} />);
+  const image = screen.getByAltText('Схема причала') as HTMLImageElement;
+  Object.defineProperty(image, 'naturalWidth', { value: 200 });
+  Object.defineProperty(image, 'naturalHeight', { value: 100 });
+  image.getBoundingClientRect = () => ({ left: 10, top: 20, width: 400, height: 200 }) as DOMRect;
+  fireEvent.load(image);
+  return { props, image };
+};
+
+describe('RasterGeoreferencePanel', () => {
+  it('picks image pixels in raster coordinates', () => {
+    const { props, image } = renderPanel();
+    expect(props.onImageSize).toHaveBeenCalledWith({ width: 200, height: 100 });
+
+    fireEvent.click(image, { clientX: 110, clientY: 70 });
+    expect(props.onPixelPick).toHaveBeenCalledWith({ x: 50, y: 25 });
+  });
+
+  it('shows residuals of complete points and applies the affine fit', () => {
+    const { props } = renderPanel();
+    expect(screen.getAllByText('0.00 м')).toHaveLength(3);
+    expect(screen.getByText('СКО: 0.00 м')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Указать точку 4 на карте' }));
+    expect(props.onPickOnMap).toHaveBeenCalledWith('d');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Применить привязку' }));
+    expect(props.onApply).toHaveBeenCalledTimes(1);
+    expect(props.onApply).toHaveBeenCalledWith(expect.objectContaining({ order: 1 }));
+  });
+
+  it('blocks applying a polynomial fit without enough points', () => {
+    renderPanel({ order: 2 });
+    expect(screen.getByText(/нужно минимум 6 опорных точек/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Применить привязку' })).toBeDisabled();
+  });
+});
@@ -1,5 +1,10 @@
 import { describe, expect, it } from 'vitest';
-import { convertUtmBoundsToEpsg4326, convertWebMercatorBoundsToEpsg4326 } from '@/features/map/rasterOverlays/projection';
+import { resolveEpsgDefinition } from '@/features/geo/crsRegistry';
+import {
+  convertCrsBoundsToEpsg4326,
+  convertUtmBoundsToEpsg4326,
+  convertWebMercatorBoundsToEpsg4326,
+} from '@/features/map/rasterOverlays/projection';
 
 describe('raster projection', () => {
   it('converts WebMercator meter bounds to EPSG:4326 bounds', () => {
@@ -48,4 +53,14 @@ describe('raster projection', () => {
     expect(geographic.west).toBeGreaterThan(38);
     expect(geographic.west).toBeLessThan(geographic.east);
   });
+
+  it('converts bounds of a registry CRS and matches the UTM conversion', () => {
+    const projected = { north: 6_200_000, south: 6_190_000, east: 510_000, west: 500_000 };
+    const viaRegistry = convertCrsBoundsToEpsg4326(projected, resolveEpsgDefinition(32637)!);
+    const viaUtm = convertUtmBoundsToEpsg4326(projected, 37, 'north');
+    expect(viaRegistry.north).toBeCloseTo(viaUtm.north, 6);
+    expect(viaRegistry.south).toBeCloseTo(viaUtm.south, 6);
+    expect(viaRegistry.east).toBeCloseTo(viaUtm.east, 6);
+    expect(viaRegistry.west).toBeCloseTo(viaUtm.west, 6);
+  });
 });
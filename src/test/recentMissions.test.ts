@@ -35,6 +35,16 @@ const createPlatform = ({ isElectron, files = {}, mtimes = {} }: TestPlatformOpt
   fs: {
     pickDirectory: async () => null,
   },
+  localTiles: {
+    tileUrlTemplate: () => null,
+    pickSource: async () => null,
+    readMetadata: async () => null,
+    registerSource: async () => null,
+  },
+  report: {
+    captureView: async () => null,
+    printToPdf: async () => false,
+  },
   settings: {
     readJson: async () => null,
     writeJson: async () => {},
@@ -91,6 +91,110 @@ describe('RightPanel HUD defaults (includes agent track UI — R-015)', () => {
     expect(screen.getByText('#1')).toBeInTheDocument();
   });
 
+  it('shows remaining distance and time to the next waypoint of the selected route', () => {
+    render(
+      <RightPanel
+        diverData={{ lat: 59.93428, lon: 30.335099, speed: 0.8, course: 45, depth: 12.5 }}
+        hasTelemetryData={true}
+        hasTelemetryHistory={true}
+        coordPrecision={6}
+        styles={{
+          track: { color: '#22c55e', width_px: 3 },
+          route: { color: '#0ea5e9', width_px: 3 },
+          survey_area: {
+            stroke_color: '#f59e0b',
+            stroke_width_px: 2,
+            fill_color: '#f59e0b',
+            fill_opacity: 0.2,
+          },
+          lane: { color: '#22c55e', width_px: 2 },
+          marker: { color: '#22c55e' },
+        }}
+        connectionStatus="ok"
+        isConnectionEnabled={true}
+        selectedAgent={testAgent}
+        selectedAgentTrackStatus="recording"
+        selectedAgentActiveTrackNumber={1}
+        missionDocument={null}
+        trackStatusByAgentId={{ 'agent-1': 'recording' }}
+        selectedObject={null}
+        selectedZoneLanesOutdated={false}
+        selectedZoneLaneCount={null}
+        navigationProgress={{
+          nextWaypointIndex: 1,
+          distanceToNextM: 120,
+          remainingDistanceM: 1540,
+          timeToNextS: 150,
+          remainingTimeS: null,
+          etaNextMs: null,
+          etaEndMs: null,
+        }}
+        navigationTargetName="Маршрут 1"
+        onObjectSelect={() => {}}
+      />,
+    );
+
+    expect(screen.getByText('Маршрут 1 · точка 2')).toBeInTheDocument();
+    expect(screen.getByText('До точки: 120 м · 2:30 · —')).toBeInTheDocument();
+    expect(screen.getByText('До конца: 1.54 км · — · —')).toBeInTheDocument();
+  });
+
+  it('shows cross-track error while following a route and stops on request', () => {
+    const onStopRouteFollowing = vi.fn();
+    render(
+      <RightPanel
+        diverData={{ lat: 59.93428, lon: 30.335099, speed: 0.8, course: 45, depth: 12.5 }}
+        hasTelemetryData={true}
+        hasTelemetryHistory={true}
+        coordPrecision={6}
+        styles={{
+          track: { color: '#22c55e', width_px: 3 },
+          route: { color: '#0ea5e9', width_px: 3 },
+          survey_area: {
+            stroke_color: '#f59e0b',
+            stroke_width_px: 2,
+            fill_color: '#f59e0b',
+            fill_opacity: 0.2,
+          },
+          lane: { color: '#22c55e', width_px: 2 },
+          marker: { color: '#22c55e' },
+        }}
+        connectionStatus="ok"
+        isConnectionEnabled={true}
+        selectedAgent={testAgent}
+        selectedAgentTrackStatus="recording"
+        selectedAgentActiveTrackNumber={1}
+        missionDocument={null}
+        trackStatusByAgentId={{ 'agent-1': 'recording' }}
+        selectedObject={null}
+        selectedZoneLanesOutdated={false}
+        selectedZoneLaneCount={null}
+        routeGuidance={{
+          targetIndex: 2,
+          waypointCount: 3,
+          legStart: { lat: 59.9, lon: 30.3 },
+          target: { lat: 59.9, lon: 30.31 },
+          legBearingDeg: 90,
+          legLengthM: 560,
+          bearingToWaypointDeg: 93.4,
+          distanceToWaypointM: 300,
+          crossTrackErrorM: -3.24,
+          alongTrackDistanceM: 260,
+          completed: false,
+        }}
+        isRouteFollowing={true}
+        onStopRouteFollowing={onStopRouteFollowing}
+        onObjectSelect={() => {}}
+      />,
+    );
+
+    expect(screen.getByText('Пеленг: 093° · путь 090°')).toBeInTheDocument();
+    expect(screen.getByText('XTE: 3.2 м влево')).toBeInTheDocument();
+    expect(screen.getByText('По отрезку: 260 м из 560 м')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Остановить ведение' }));
+    expect(onStopRouteFollowing).toHaveBeenCalledTimes(1);
+  });
+
   it('shows timeout state only after telemetry loss', () => {
     render(
       <RightPanel
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  advanceRouteFollowing,
+  buildObjectNavigationPath,
+  computeRouteGuidance,
+  computeRouteProgress,
+  createRouteFollowingAssignment,
+} from '@/features/mission';
+import type { MapObject } from '@/features/map/model/types';
+import type { LaneFeature } from '@/features/mission/model/types';
+
+const ORIGIN = { lat: 59.9, lon: 30.3 };
+const M_PER_DEG_LAT = (6378137 * Math.PI) / 180;
+const M_PER_DEG_LON = M_PER_DEG_LAT * Math.cos((ORIGIN.lat * Math.PI) / 180);
+
+// Local metric grid around ORIGIN: x = East, y = North.
+const fromXY = (x: number, y: number) => ({
+  lat: ORIGIN.lat + y / M_PER_DEG_LAT,
+  lon: ORIGIN.lon + x / M_PER_DEG_LON,
+});
+
+const PATH = [fromXY(0, 0), fromXY(0, 100), fromXY(100, 100)];
+
+describe('routeFollowing', () => {
+  it('steers to the first waypoint before any leg is active', () => {
+    const guidance = computeRouteGuidance(PATH, createRouteFollowingAssignment('route-1'), fromXY(-30, -40));
+
+    expect(guidance?.targetIndex).toBe(0);
+    expect(guidance?.legStart).toBeNull();
+    expect(guidance?.distanceToWaypointM).toBeCloseTo(50, 0);
+    expect(guidance?.bearingToWaypointDeg).toBeCloseTo(36.87, 0);
+    expect(guidance?.crossTrackErrorM).toBe(0);
+  });
+
+  it('reports signed cross-track error and along-track distance on the active leg', () => {
+    const assignment = { ...createRouteFollowingAssignment('route-1'), targetIndex: 1 };
+
+    const right = computeRouteGuidance(PATH, assignment, fromXY(4, 30));
+    expect(right?.legBearingDeg).toBeCloseTo(0, 1);
+    expect(right?.crossTrackErrorM).toBeCloseTo(4, 1);
+    expect(right?.alongTrackDistanceM).toBeCloseTo(30, 1);
+    expect(right?.legLengthM).toBeCloseTo(100, 1);
+
+    const left = computeRouteGuidance(PATH, { ...assignment, targetIndex: 2 }, fromXY(50, 103));
+    expect(left?.legBearingDeg).toBeCloseTo(90, 1);
+    expect(left?.crossTrackErrorM).toBeCloseTo(-3, 1);
+    expect(left?.alongTrackDistanceM).toBeCloseTo(50, 1);
+  });
+
+  it('advances inside the arrival radius and after passing the leg end', () => {
+    const start = createRouteFollowingAssignment('route-1', 5);
+    expect(advanceRouteFollowing(PATH, start, fromXY(10, -20))).toBe(start);
+
+    const onLeg = advanceRouteFollowing(PATH, start, fromXY(2, 3));
+    expect(onLeg.targetIndex).toBe(1);
+
+    // Overshooting the corner without entering the radius still switches legs.
+    const overshoot = advanceRouteFollowing(PATH, onLeg, fromXY(-8, 104));
+    expect(overshoot.targetIndex).toBe(2);
+    expect(overshoot.completed).toBe(false);
+
+    const done = advanceRouteFollowing(PATH, overshoot, fromXY(98, 101));
+    expect(done.targetIndex).toBe(2);
+    expect(done.completed).toBe(true);
+    expect(advanceRouteFollowing(PATH, done, fromXY(0, 0))).toBe(done);
+  });
+
+  it('uses the followed waypoint for remaining distance instead of the nearest leg', () => {
+    // Near the first leg, but already steering to the last waypoint.
+    const progress = computeRouteProgress(PATH, fromXY(0, 50), 1, 0, 2);
+    expect(progress?.nextWaypointIndex).toBe(2);
+    expect(progress?.remainingDistanceM).toBeCloseTo(Math.hypot(100, 50), 0);
+  });
+
+  it('builds a navigation path for routes and zones with lanes only', () => {
+    const route: MapObject = {
+      id: 'route-1',
+      type: 'route',
+      name: 'Маршрут',
+      visible: true,
+      geometry: { type: 'route', points: PATH },
+    };
+    const zone: MapObject = {
+      id: 'zone-1',
+      type: 'zone',
+      name: 'Зона',
+      visible: true,
+      geometry: { type: 'zone', points: [fromXY(0, 0), fromXY(50, 0), fromXY(50, 50), fromXY(0, 50)] },
+    };
+
+    expect(buildObjectNavigationPath(route, [])).toEqual(PATH);
+    expect(buildObjectNavigationPath(zone, [])).toEqual([]);
+    const lanes: LaneFeature[] = [
+      {
+        type: 'Feature',
+        geometry: {
+          type: 'LineString',
+          coordinates: [
+            [fromXY(10, 0).lon, fromXY(10, 0).lat],
+            [fromXY(10, 50).lon, fromXY(10, 50).lat],
+          ],
+        },
+        properties: {
+          id: 'lane-1',
+          kind: 'lane',
+          name: 'Галс 1',
+          note: null,
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-01T00:00:00Z',
+          parent_area_id: 'zone-1',
+          lane_index: 1,
+        },
+      },
+    ];
+    expect(buildObjectNavigationPath(zone, lanes)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_PLANNED_SPEED_MPS,
+  computeRouteProgress,
+  computeRouteTiming,
+  formatDurationHms,
+  normalizeDivers,
+  resolvePlannedSpeedMps,
+} from '@/features/mission';
+
+const ORIGIN = { lat: 59.9, lon: 30.3 };
+const M_PER_DEG_LAT = (6371000 * Math.PI) / 180;
+const M_PER_DEG_LON = M_PER_DEG_LAT * Math.cos((ORIGIN.lat * Math.PI) / 180);
+
+// Local metric grid around ORIGIN: x = East, y = North.
+const fromXY = (x: number, y: number) => ({
+  lat: ORIGIN.lat + y / M_PER_DEG_LAT,
+  lon: ORIGIN.lon + x / M_PER_DEG_LON,
+});
+
+describe('routeTiming', () => {
+  it('computes bearing, distance, duration, cumulative time and ETA per leg', () => {
+    const timing = computeRouteTiming([fromXY(0, 0), fromXY(0, 100), fromXY(100, 100)], {
+      speedMps: 2,
+      startTimeMs: 1_000_000,
+    });
+
+    expect(timing.legs).toHaveLength(2);
+    expect(timing.legs[0].bearingDeg).toBeCloseTo(0, 1);
+    expect(timing.legs[1].bearingDeg).toBeCloseTo(90, 1);
+    expect(timing.legs[0].distanceM).toBeCloseTo(100, 0);
+    expect(timing.legs[0].durationS).toBeCloseTo(50, 0);
+    expect(timing.legs[1].cumulativeDistanceM).toBeCloseTo(200, 0);
+    expect(timing.legs[1].cumulativeTimeS).toBeCloseTo(100, 0);
+    // Routes have no turn allowance by default.
+    expect(timing.totalTurnS).toBe(0);
+    expect(timing.totalDurationS).toBeCloseTo(100, 0);
+    expect(timing.etaMs).toBeCloseTo(1_000_000 + 100_000, -3);
+    expect(timing.legs[0].etaMs).toBeCloseTo(1_000_000 + 50_000, -3);
+  });
+
+  it('charges turn allowance in proportion to the heading change', () => {
+    // North, U-turn south, then a right angle to the east.
+    const timing = computeRouteTiming([fromXY(0, 0), fromXY(0, 100), fromXY(0, 0), fromXY(100, 0)], {
+      speedMps: 1,
+      turnAllowanceS: 30,
+      startTimeMs: 0,
+    });
+
+    expect(timing.legs[0].turnS).toBe(0);
+    expect(timing.legs[1].turnS).toBeCloseTo(30, 1);
+    expect(timing.legs[2].turnS).toBeCloseTo(15, 1);
+    expect(timing.totalTurnS).toBeCloseTo(45, 1);
+    expect(timing.totalDurationS).toBeCloseTo(300 + 45, 0);
+  });
+
+  it('resolves planned speed from the object, then the agent, then the default', () => {
+    expect(resolvePlannedSpeedMps(1.5, 0.7)).toBe(1.5);
+    expect(resolvePlannedSpeedMps(undefined, 0.7)).toBe(0.7);
+    expect(resolvePlannedSpeedMps(0, null)).toBe(DEFAULT_PLANNED_SPEED_MPS);
+    expect(computeRouteTiming([fromXY(0, 0), fromXY(0, 10)], { speedMps: -1, startTimeMs: 0 }).speedMps).toBe(
+      DEFAULT_PLANNED_SPEED_MPS,
+    );
+  });
+
+  it('keeps planned agent speed when normalizing divers', () => {
+    const [withSpeed, withoutSpeed] = normalizeDivers([
+      { uid: 'a', id: '1', beacon_id: '1', title: 'A', planned_speed_mps: 0.6 },
+      { uid: 'b', id: '2', beacon_id: '2', title: 'B', planned_speed_mps: -2 },
+    ]);
+    expect(withSpeed.planned_speed_mps).toBe(0.6);
+    expect(withoutSpeed.planned_speed_mps).toBeUndefined();
+  });
+
+  it('reports remaining distance, time and ETA to the next waypoint from SOG', () => {
+    const path = [fromXY(0, 0), fromXY(0, 100), fromXY(100, 100)];
+    const progress = computeRouteProgress(path, fromXY(2, 40), 2, 10_000);
+
+    expect(progress).not.toBeNull();
+    expect(progress?.nextWaypointIndex).toBe(1);
+    expect(progress?.distanceToNextM).toBeCloseTo(60, 0);
+    expect(progress?.remainingDistanceM).toBeCloseTo(160, 0);
+    expect(progress?.timeToNextS).toBeCloseTo(30, 0);
+    expect(progress?.remainingTimeS).toBeCloseTo(80, 0);
+    expect(progress?.etaEndMs).toBeCloseTo(10_000 + 80_000, -3);
+
+    const onSecondLeg = computeRouteProgress(path, fromXY(30, 101), 2, 0);
+    expect(onSecondLeg?.nextWaypointIndex).toBe(2);
+    expect(onSecondLeg?.remainingDistanceM).toBeCloseTo(70, 0);
+  });
+
+  it('gives no ETA while the agent is stopped', () => {
+    const progress = computeRouteProgress([fromXY(0, 0), fromXY(0, 100)], fromXY(0, 50), 0, 0);
+    expect(progress?.remainingDistanceM).toBeCloseTo(50, 0);
+    expect(progress?.timeToNextS).toBeNull();
+    expect(progress?.etaEndMs).toBeNull();
+    expect(formatDurationHms(progress?.remainingTimeS ?? null)).toBe('—');
+    expect(formatDurationHms(3725)).toBe('1:02:05');
+    expect(formatDurationHms(65)).toBe('1:05');
+  });
+});
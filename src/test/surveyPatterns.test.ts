@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import { buildLaneTraversal, generateLanesFromZoneObject, generateSurveyPattern } from '@/features/mission';
+import type { MapObject } from '@/features/map/model/types';
+import type { LaneFeature } from '@/features/mission/model/types';
+
+const DATUM = { lat: 59.9, lon: 30.3 };
+const M_PER_DEG_LAT = (6378137 * Math.PI) / 180;
+const M_PER_DEG_LON = M_PER_DEG_LAT * Math.cos((DATUM.lat * Math.PI) / 180);
+
+// Local metric grid around DATUM: x = East, y = North.
+const toXY = ([lon, lat]: [number, number]): [number, number] => [
+  (lon - DATUM.lon) * M_PER_DEG_LON,
+  (lat - DATUM.lat) * M_PER_DEG_LAT,
+];
+
+const legsXY = (lanes: LaneFeature[]) =>
+  lanes.map((lane) => lane.geometry.coordinates.map((coord) => toXY(coord as [number, number])));
+
+const expectPoint = (actual: [number, number], expected: [number, number]) => {
+  expect(actual[0]).toBeCloseTo(expected[0], 3);
+  expect(actual[1]).toBeCloseTo(expected[1], 3);
+};
+
+describe('surveyPatterns', () => {
+  it('builds an expanding square with legs growing every second turn', () => {
+    const lanes = generateSurveyPattern({
+      parentAreaId: 'zone-1',
+      pattern: 'expanding_square',
+      datum: DATUM,
+      courseDeg: 0,
+      spacingM: 10,
+      legCount: 5,
+    });
+
+    expect(lanes.map((lane) => lane.properties.lane_index)).toEqual([1, 2, 3, 4, 5]);
+    expect(lanes.every((lane) => lane.properties.parent_area_id === 'zone-1')).toBe(true);
+    const ends = legsXY(lanes).map((leg) => leg[1]);
+    expectPoint(ends[0], [0, 10]);
+    expectPoint(ends[1], [10, 10]);
+    expectPoint(ends[2], [10, -10]);
+    expectPoint(ends[3], [-10, -10]);
+    expectPoint(ends[4], [-10, 20]);
+  });
+
+  it('builds a sector search of three triangles returning to the datum', () => {
+    const legs = legsXY(
+      generateSurveyPattern({
+        parentAreaId: 'zone-1',
+        pattern: 'sector',
+        datum: DATUM,
+        courseDeg: 90,
+        spacingM: 10,
+        legCount: 9,
+        legLengthM: 50,
+      }),
+    );
+
+    expect(legs).toHaveLength(9);
+    for (const leg of legs) {
+      expect(Math.hypot(leg[1][0] - leg[0][0], leg[1][1] - leg[0][1])).toBeCloseTo(50, 3);
+    }
+    expectPoint(legs[0][1], [50, 0]);
+    // Every third leg closes a triangle on the datum.
+    expectPoint(legs[2][1], [0, 0]);
+    expectPoint(legs[5][1], [0, 0]);
+    expectPoint(legs[8][1], [0, 0]);
+  });
+
+  it('builds a creeping line advancing along the creep course', () => {
+    const legs = legsXY(
+      generateSurveyPattern({
+        parentAreaId: 'zone-1',
+        pattern: 'creeping_line',
+        datum: DATUM,
+        courseDeg: 0,
+        spacingM: 20,
+        legCount: 3,
+        legLengthM: 100,
+      }),
+    );
+
+    expectPoint(legs[0][0], [0, 0]);
+    expectPoint(legs[0][1], [100, 0]);
+    expectPoint(legs[1][0], [100, 20]);
+    expectPoint(legs[1][1], [0, 20]);
+    expectPoint(legs[2][1], [100, 40]);
+  });
+
+  it('builds spirals outward from and inward to the datum', () => {
+    const input = {
+      parentAreaId: 'zone-1',
+      datum: DATUM,
+      courseDeg: 0,
+      spacingM: 10,
+      legCount: 2,
+    };
+    const outward = legsXY(generateSurveyPattern({ ...input, pattern: 'spiral_out' }));
+    const inward = legsXY(generateSurveyPattern({ ...input, pattern: 'spiral_in' }));
+
+    expect(outward).toHaveLength(32);
+    expectPoint(outward[0][0], [0, 0]);
+    // Two full turns end on the initial course, two spacings out.
+    expectPoint(outward[outward.length - 1][1], [0, 20]);
+    expectPoint(inward[0][0], [0, 20]);
+    expectPoint(inward[inward.length - 1][1], [0, 0]);
+  });
+
+  it('generates pattern lanes for a zone and traverses them as one path', () => {
+    const zone: MapObject = {
+      id: 'zone-1',
+      type: 'zone',
+      name: 'Зона',
+      visible: true,
+      laneAngle: 0,
+      laneWidth: 10,
+      surveyPattern: 'expanding_square',
+      patternLegCount: 4,
+      geometry: {
+        type: 'zone',
+        points: [
+          { lat: 59.899, lon: 30.298 },
+          { lat: 59.899, lon: 30.302 },
+          { lat: 59.901, lon: 30.302 },
+          { lat: 59.901, lon: 30.298 },
+        ],
+      },
+    };
+
+    const lanes = generateLanesFromZoneObject(zone);
+    expect(lanes).toHaveLength(4);
+    expectPoint(toXY(lanes[0].geometry.coordinates[0] as [number, number]), [0, 0]);
+
+    // A start point near the far end must not reverse the legs of a chained pattern.
+    const farEnd = lanes[3].geometry.coordinates[1];
+    const traversal = buildLaneTraversal(lanes, { lat: farEnd[1], lon: farEnd[0] });
+    expect(traversal.waypoints).toHaveLength(5);
+    expect(traversal.waypoints.map((wp) => wp.index)).toEqual([1, 2, 3, 4, 5]);
+    expectPoint(toXY([traversal.waypoints[0].lon, traversal.waypoints[0].lat]), [0, 0]);
+  });
+
+  it('lays out a zone pattern on a course between 180 and 360 degrees', () => {
+    const zone: MapObject = {
+      id: 'zone-1',
+      type: 'zone',
+      name: 'Зона',
+      visible: true,
+      laneAngle: 90,
+      laneWidth: 10,
+      surveyPattern: 'sector',
+      patternCourseDeg: 270,
+      patternLegCount: 3,
+      patternLegLengthM: 50,
+      patternDatum: DATUM,
+      geometry: {
+        type: 'zone',
+        points: [
+          { lat: 59.899, lon: 30.298 },
+          { lat: 59.899, lon: 30.302 },
+          { lat: 59.901, lon: 30.302 },
+        ],
+      },
+    };
+
+    const westward = legsXY(generateLanesFromZoneObject(zone));
+    expectPoint(westward[0][0], [0, 0]);
+    expectPoint(westward[0][1], [-50, 0]);
+
+    // Zones saved without a course fall back to the folded lane angle.
+    const legacy = legsXY(generateLanesFromZoneObject({ ...zone, patternCourseDeg: undefined }));
+    expectPoint(legacy[0][1], [50, 0]);
+  });
+});
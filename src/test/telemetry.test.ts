@@ -12,7 +12,7 @@ type ZimaErrorPayload = { message?: string };
 type ZimaDataListener = (payload: ZimaDataPayload) => void;
 type ZimaStatusListener = (payload: ZimaStatusPayload) => void;
 type ZimaErrorListener = (payload: ZimaErrorPayload) => void;
-type GnssDataPayload = { message?: string; receivedAt?: number };
+type GnssDataPayload = { instanceId?: string; message?: string; receivedAt?: number };
 type GnssStatusPayload = { status?: string };
 type GnssErrorPayload = { message?: string };
 type GnssDataListener = (payload: GnssDataPayload) => void;
@@ -166,6 +166,7 @@ describe('electron zima telemetry provider', () => {
     setElectronApi({ zima: api });
 
     const provider = createElectronZimaTelemetryProvider({
+      instanceId: 'zima-1',
       readConfig: async () => ({
         ipAddress: '127.0.0.1',
         dataPort: 28127,
@@ -188,8 +189,8 @@ describe('electron zima telemetry provider', () => {
     await flushMicrotasks();
 
     expect(api.start).toHaveBeenCalledTimes(1);
-    expect(api.sendCommand).toHaveBeenCalledWith('OCON');
-    expect(api.sendCommand).toHaveBeenCalledWith('LHOV,59.9375,30.3086,120');
+    expect(api.sendCommand).toHaveBeenCalledWith('zima-1', 'OCON');
+    expect(api.sendCommand).toHaveBeenCalledWith('zima-1', 'LHOV,59.9375,30.3086,120');
 
     api.emitData({
       message:
@@ -221,7 +222,7 @@ describe('electron zima telemetry provider', () => {
     provider.stop();
     await flushMicrotasks();
 
-    expect(api.sendCommand).toHaveBeenCalledWith('CCON');
+    expect(api.sendCommand).toHaveBeenCalledWith('zima-1', 'CCON');
     expect(api.stop).toHaveBeenCalledTimes(1);
     setElectronApi(undefined);
   });
@@ -231,6 +232,7 @@ describe('electron zima telemetry provider', () => {
     setElectronApi({ zima: api });
 
     const provider = createElectronZimaTelemetryProvider({
+      instanceId: 'zima-1',
       readConfig: async () => ({
         ipAddress: '127.0.0.1',
         dataPort: 28127,
@@ -290,6 +292,7 @@ describe('electron zima telemetry provider', () => {
     setElectronApi({ zima: api });
 
     const provider = createElectronZimaTelemetryProvider({
+      instanceId: 'zima-1',
       readConfig: async () => ({
         ipAddress: '127.0.0.1',
         dataPort: 28127,
@@ -344,6 +347,7 @@ describe('electron zima telemetry provider', () => {
     setElectronApi({ zima: api });
 
     const provider = createElectronZimaTelemetryProvider({
+      instanceId: 'zima-1',
       readConfig: async () => ({
         ipAddress: '127.0.0.1',
         dataPort: 28127,
@@ -400,6 +404,7 @@ describe('electron zima telemetry provider', () => {
     setElectronApi({ zima: api });
 
     const provider = createElectronZimaTelemetryProvider({
+      instanceId: 'zima-1',
       readConfig: async () => ({
         ipAddress: '127.0.0.1',
         dataPort: 28127,
@@ -437,6 +442,7 @@ describe('electron zima telemetry provider', () => {
     setElectronApi({ zima: api });
 
     const provider = createElectronZimaTelemetryProvider({
+      instanceId: 'zima-1',
       readConfig: async () => ({
         ipAddress: '127.0.0.1',
         dataPort: 28127,
@@ -494,6 +500,7 @@ describe('electron gnss telemetry provider', () => {
     setElectronApi({ gnss: api });
 
     const provider = createElectronGnssTelemetryProvider({
+      instanceId: 'gnss-1',
       readConfig: async () => ({
         ipAddress: '127.0.0.1',
         dataPort: 28128,
@@ -547,11 +554,52 @@ describe('electron gnss telemetry provider', () => {
     setElectronApi(undefined);
   });
 
+  it('passes its instance id to the bridge and ignores data of other instances', async () => {
+    const api = createMockGnssApi();
+    setElectronApi({ gnss: api });
+
+    const provider = createElectronGnssTelemetryProvider({
+      instanceId: 'gnss-2',
+      readConfig: async () => ({
+        ipAddress: '127.0.0.1',
+        dataPort: 28129,
+      }),
+    });
+
+    const onFix = vi.fn();
+    provider.onFix(onFix);
+    provider.start();
+    provider.setEnabled(true);
+    await flushMicrotasks();
+
+    expect(api.start).toHaveBeenCalledWith('gnss-2', { ipAddress: '127.0.0.1', dataPort: 28129 });
+
+    api.emitData({
+      instanceId: 'gnss-1',
+      message: '$GPRMC,123519,A,5956.2500,N,03018.5160,E,1.94,84.4,230394,,\r\n',
+      receivedAt: 1739318403000,
+    });
+    expect(onFix).not.toHaveBeenCalled();
+
+    api.emitData({
+      instanceId: 'gnss-2',
+      message: '$GPRMC,123519,A,5956.2500,N,03018.5160,E,1.94,84.4,230394,,\r\n',
+      receivedAt: 1739318403000,
+    });
+    expect(onFix).toHaveBeenCalledTimes(1);
+
+    provider.stop();
+    await flushMicrotasks();
+    expect(api.stop).toHaveBeenCalledWith('gnss-2');
+    setElectronApi(undefined);
+  });
+
   it('prioritizes fresh HDT heading for course and falls back to COG after 5 seconds', async () => {
     const api = createMockGnssApi();
     setElectronApi({ gnss: api });
 
     const provider = createElectronGnssTelemetryProvider({
+      instanceId: 'gnss-1',
       readConfig: async () => ({
         ipAddress: '127.0.0.1',
         dataPort: 28128,
@@ -609,6 +657,7 @@ describe('electron gnss telemetry provider', () => {
     setElectronApi({ gnss: api });
 
     const provider = createElectronGnssTelemetryProvider({
+      instanceId: 'gnss-1',
       readConfig: async () => ({
         ipAddress: '127.0.0.1',
         dataPort: 28128,
@@ -652,6 +701,7 @@ describe('electron gnss-com telemetry provider', () => {
     setElectronApi({ gnssCom: api });
 
     const provider = createElectronGnssComTelemetryProvider({
+      instanceId: 'gnss-com-1',
       readConfig: async () => ({
         autoDetectPort: true,
         comPort: '',
@@ -670,7 +720,7 @@ describe('electron gnss-com telemetry provider', () => {
     await flushMicrotasks();
 
     expect(api.start).toHaveBeenCalledTimes(1);
-    expect(api.start).toHaveBeenCalledWith({
+    expect(api.start).toHaveBeenCalledWith('gnss-com-1', {
       autoDetectPort: true,
       comPort: '',
       baudRate: 115200,
@@ -706,6 +756,7 @@ describe('electron gnss-com telemetry provider', () => {
     setElectronApi({ gnssCom: api });
 
     const provider = createElectronGnssComTelemetryProvider({
+      instanceId: 'gnss-com-1',
       readConfig: async () => ({
         autoDetectPort: true,
         comPort: '',
@@ -774,6 +825,7 @@ describe('electron gnss-com telemetry provider', () => {
     setElectronApi({ gnssCom: api });
 
     const provider = createElectronGnssComTelemetryProvider({
+      instanceId: 'gnss-com-1',
       readConfig: async () => ({
         autoDetectPort: true,
         comPort: '',
@@ -820,6 +872,7 @@ describe('electron rwlt-com telemetry provider', () => {
 
     const onBuoyUpdate = vi.fn();
     const provider = createElectronRwltComTelemetryProvider({
+      instanceId: 'rwlt-com-1',
       readConfig: async () => ({
         autoDetectPort: true,
         comPort: '',
@@ -837,7 +890,7 @@ describe('electron rwlt-com telemetry provider', () => {
     provider.setEnabled(true);
     await flushMicrotasks();
 
-    expect(api.start).toHaveBeenCalledWith({
+    expect(api.start).toHaveBeenCalledWith('rwlt-com-1', {
       autoDetectPort: true,
       comPort: '',
       baudRate: 38400,
@@ -900,6 +953,7 @@ describe('electron rwlt-com telemetry provider', () => {
     setElectronApi({ rwltCom: api });
 
     const provider = createElectronRwltComTelemetryProvider({
+      instanceId: 'rwlt-com-1',
       readConfig: async () => ({
         autoDetectPort: true,
         comPort: '',
@@ -952,6 +1006,7 @@ describe('electron rwlt-com telemetry provider', () => {
     setElectronApi({ rwltCom: api });
 
     const provider = createElectronRwltComTelemetryProvider({
+      instanceId: 'rwlt-com-1',
       readConfig: async () => ({
         autoDetectPort: false,
         comPort: 'COM7',
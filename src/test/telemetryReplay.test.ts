@@ -0,0 +1,160 @@
+import {
+  createReplayTelemetryProvider,
+  detectReplaySchema,
+  parseEquipmentLog,
+  parseReplayFile,
+  parseReplayScenario,
+  type TelemetryFix,
+} from '@/features/mission';
+
+const AZMLOC = '@AZMLOC,1013.2,10.5,12.3,0.1,-0.2,0,59.937500,30.308600,120.00,0.70,0,120.00,0,';
+const AZMREM_1 =
+  '@AZMREM,1,64.20,136.00,0.560,25.0,0,9.80,0,63.00,0,33.50,0,131.00,0,16.20,0,10.56,0,13.70,0,59.937700,30.308720,0,299.00,0,Beacon-1,0,False,';
+
+describe('telemetry replay sources', () => {
+  it('turns scenario delays into offsets from the start of playback', () => {
+    const messages = parseReplayScenario(
+      JSON.stringify([
+        { msg: AZMLOC, delayMs: 1000 },
+        { msg: AZMREM_1, delay_ms: 500 },
+        { msg: AZMLOC, delayMs: 0 },
+      ]),
+    );
+
+    expect(messages.map((message) => message.offsetMs)).toEqual([0, 1000, 1500]);
+    expect(detectReplaySchema(messages)).toBe('zima2r');
+  });
+
+  it('reads equipment logs written by the equipment logger', () => {
+    const log = [
+      `2026-02-03T10:00:00.000Z ${JSON.stringify({ profile_name: 'Профиль', raw: '$GPRMC,123519,A,5956.2500,N,03018.5160,E,1.94,84.4,230394,,' })}`,
+      'garbage line',
+      `2026-02-03T10:00:02.500Z ${JSON.stringify({ profile_name: 'Профиль', raw: '$GPHDT,84.4,T' })}`,
+      '',
+    ].join('\n');
+
+    const messages = parseEquipmentLog(log);
+    expect(messages).toEqual([
+      { offsetMs: 0, raw: '$GPRMC,123519,A,5956.2500,N,03018.5160,E,1.94,84.4,230394,,' },
+      { offsetMs: 2500, raw: '$GPHDT,84.4,T' },
+    ]);
+    expect(parseReplayFile('gnss-udp-1.log', log).schemaId).toBe('gnss-udp');
+  });
+
+  it('takes the schema of an equipment log from its entries', () => {
+    const log = `2026-02-03T10:00:00.000Z ${JSON.stringify({
+      profile_name: 'Профиль',
+      schema_id: 'gnss-com',
+      raw: '$GPRMC,123519,A,5956.2500,N,03018.5160,E,1.94,84.4,230394,,',
+    })}\n`;
+    expect(parseReplayFile('gnss-com-1.log', log).schemaId).toBe('gnss-com');
+  });
+
+  it('rejects files without recognizable messages', () => {
+    expect(() => parseReplayFile('scenario.json', '[]')).toThrow();
+    expect(() => parseReplayFile('scenario.json', JSON.stringify([{ msg: 'hello', delayMs: 10 }]))).toThrow();
+  });
+});
+
+describe('replay telemetry provider', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('plays, pauses, seeks and scales time by the selected speed', () => {
+    vi.useFakeTimers();
+    const provider = createReplayTelemetryProvider({ tickMs: 100 });
+    const fixes: TelemetryFix[] = [];
+    provider.onFix((fix) => fixes.push(fix));
+
+    provider.load({
+      schemaId: 'zima2r',
+      messages: [
+        { offsetMs: 0, raw: AZMLOC },
+        { offsetMs: 1000, raw: AZMREM_1 },
+        { offsetMs: 4000, raw: AZMLOC },
+      ],
+    });
+    provider.start();
+    provider.setEnabled(true);
+    provider.play();
+
+    vi.advanceTimersByTime(100);
+    expect(fixes.map((fix) => fix.source)).toEqual(['AZMLOC']);
+
+    vi.advanceTimersByTime(1000);
+    expect(fixes.map((fix) => fix.source)).toEqual(['AZMLOC', 'AZMREM']);
+    expect(fixes[1]).toMatchObject({ entity_id: 'beacon-1', navigation_source_id: 'zima2r' });
+
+    provider.pause();
+    vi.advanceTimersByTime(10_000);
+    expect(fixes).toHaveLength(2);
+
+    provider.setSpeed(4);
+    provider.play();
+    vi.advanceTimersByTime(800);
+    expect(fixes).toHaveLength(3);
+    expect(provider.getState()).toMatchObject({ playing: false, positionMs: 4000, durationMs: 4000 });
+
+    provider.setSpeed(100);
+    expect(provider.getState().speed).toBe(16);
+
+    provider.seek(1000);
+    provider.play();
+    vi.advanceTimersByTime(100);
+    expect(fixes.map((fix) => fix.source)).toEqual(['AZMLOC', 'AZMREM', 'AZMLOC', 'AZMREM']);
+
+    provider.stop();
+  });
+
+  it('computes ground speed on the recording timeline regardless of playback speed', () => {
+    vi.useFakeTimers();
+    const provider = createReplayTelemetryProvider({ tickMs: 50 });
+    const fixes: TelemetryFix[] = [];
+    provider.onFix((fix) => fixes.push(fix));
+
+    provider.load({
+      schemaId: 'gnss-udp',
+      messages: [
+        { offsetMs: 0, raw: '$GPRMC,123519,A,5956.2500,N,03018.5160,E,0.00,0.0,230394,,' },
+        { offsetMs: 10_000, raw: '$GPRMC,123529,A,5956.2560,N,03018.5160,E,0.00,0.0,230394,,' },
+      ],
+    });
+    provider.setSpeed(16);
+    provider.start();
+    provider.setEnabled(true);
+    provider.play();
+    vi.advanceTimersByTime(1000);
+
+    expect(fixes).toHaveLength(2);
+    // 0.006' of latitude is ~11.1 m, covered in 10 s of recorded time.
+    expect(fixes[1].speed).toBeCloseTo(1.11, 1);
+    expect(fixes[1]).toMatchObject({ source: 'GNSS', navigation_source_id: 'gnss-udp' });
+
+    // The operator can replay an NMEA recording as the COM receiver instead.
+    provider.setSchema('gnss-com');
+    expect(provider.getState()).toMatchObject({ schemaId: 'gnss-com', positionMs: 0, playing: false });
+    provider.play();
+    vi.advanceTimersByTime(1000);
+    expect(fixes).toHaveLength(4);
+    expect(fixes[3]).toMatchObject({ navigation_source_id: 'gnss-com' });
+    expect(fixes[3].speed).toBeCloseTo(1.11, 1);
+
+    provider.stop();
+  });
+
+  it('does not emit fixes while disabled', () => {
+    vi.useFakeTimers();
+    const provider = createReplayTelemetryProvider({ tickMs: 100 });
+    const onFix = vi.fn();
+    provider.onFix(onFix);
+
+    provider.load({ schemaId: 'zima2r', messages: [{ offsetMs: 0, raw: AZMLOC }] });
+    provider.start();
+    provider.play();
+    vi.advanceTimersByTime(500);
+
+    expect(onFix).not.toHaveBeenCalled();
+    provider.stop();
+  });
+});
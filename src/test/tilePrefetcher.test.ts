@@ -18,6 +18,10 @@ const createMemoryCache = (): TileCache & { entries: Map<string, CacheRecord> }
       found.lastAccess = Date.now();
       return { key, blob: found.blob, sizeBytes: found.blob.size, lastAccess: found.lastAccess };
     },
+    peek: async (key) => {
+      const found = entries.get(key);
+      return found ? { key, blob: found.blob, sizeBytes: found.blob.size, lastAccess: found.lastAccess } : null;
+    },
     put: async (key, input) => {
       entries.set(key, { blob: input.blob, lastAccess: Date.now() });
     },
@@ -35,6 +39,10 @@ const createMemoryCache = (): TileCache & { entries: Map<string, CacheRecord> }
       misses: 0,
     }),
     setMaxBytes: () => undefined,
+    measure: async () => ({ entries: 0, totalBytes: 0 }),
+    listRegions: async () => [],
+    saveRegion: async () => undefined,
+    removeRegion: async () => undefined,
   };
 };
 
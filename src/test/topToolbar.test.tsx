@@ -394,6 +394,61 @@ describe('top toolbar mission menu', () => {
     });
   });
 
+  it('imports DWG/DXF in a CRS entered as EPSG, proj4 or WKT', async () => {
+    window.PointerEvent = MouseEvent as unknown as typeof PointerEvent;
+    const onImportDxfFiles = vi.fn();
+
+    render(
+      <TopToolbar
+        missionName="Тестовая миссия"
+        isDraft={false}
+        autoSaveStatus="saved"
+        activeTool="select"
+        trackStatus="recording"
+        showSimulationControls={false}
+        isRecordingEnabled={true}
+        onToolChange={vi.fn()}
+        onTrackAction={vi.fn()}
+        onOpenCreateFromDraft={vi.fn()}
+        onOpenCreateEmpty={vi.fn()}
+        onOpenOpen={vi.fn()}
+        onOpenExport={vi.fn()}
+        onOpenSettings={vi.fn()}
+        onOpenOfflineMaps={vi.fn()}
+        onImportDxfFiles={onImportDxfFiles}
+        onFinishMission={vi.fn()}
+        onGoToStart={vi.fn()}
+      />,
+    );
+
+    fireEvent.pointerDown(screen.getByRole('button', { name: /Тестовая миссия/i }), {
+      button: 0,
+      ctrlKey: false,
+    });
+
+    await openImportDwgDxfSubmenu();
+    fireEvent.click(await screen.findByRole('menuitem', { name: 'DWG/DXF (система координат…)' }));
+
+    const crsInput = await screen.findByLabelText('Система координат (EPSG, proj4 или WKT)');
+    const chooseButton = await screen.findByRole('button', { name: 'Выбрать DWG/DXF' });
+
+    fireEvent.change(crsInput, { target: { value: 'EPSG:99999' } });
+    expect(await screen.findByText(/EPSG:99999 нет в справочнике/)).toBeInTheDocument();
+    expect(chooseButton).toBeDisabled();
+
+    fireEvent.change(crsInput, { target: { value: 'EPSG:20907' } });
+    expect(await screen.findByText('ГСК-2011 / Гаусс–Крюгер, зона 7 (EPSG:20907)')).toBeInTheDocument();
+    fireEvent.click(chooseButton);
+
+    const input = document.querySelectorAll('input[accept=".dxf,.dwg"]')[1] as HTMLInputElement | null;
+    expect(input).not.toBeNull();
+    const dxfFile = new File(['x'], 'test.dxf', { type: 'application/dxf' });
+    fireEvent.change(input!, { target: { files: [dxfFile] } });
+
+    expect(onImportDxfFiles).toHaveBeenCalledTimes(1);
+    expect(onImportDxfFiles).toHaveBeenCalledWith(expect.anything(), { crs: 'EPSG:20907' });
+  });
+
   it('opens coordinate builder by right click on route/zone/marker tools', () => {
     const onOpenCoordinateBuilder = vi.fn();
 
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildTrackPlaybackIndex,
+  buildTrackPlaybackSegments,
+  sampleAgentsAt,
+  sampleTrackAt,
+  type TrackPlaybackIndex,
+} from '@/features/mission';
+import type { MissionTrackMeta, TrackPoint } from '@/features/mission/model/types';
+
+const T0 = Date.parse('2026-02-03T10:00:00.000Z');
+const at = (seconds: number) => new Date(T0 + seconds * 1000).toISOString();
+
+const meta = (id: string, agentId: string | null): MissionTrackMeta => ({
+  id,
+  agent_id: agentId,
+  file: `tracks/${id}.csv`,
+  started_at: at(0),
+  ended_at: null,
+  note: null,
+});
+
+const pointsByTrackId: Record<string, TrackPoint[]> = {
+  t1: [
+    { timestamp: at(0), lat: 59, lon: 30, segment_id: 1, depth_m: 2, sog_mps: 1, cog_deg: 350 },
+    { timestamp: at(10), lat: 59.001, lon: 30, segment_id: 1, depth_m: 6, sog_mps: 3, cog_deg: 10 },
+    { timestamp: at(20), lat: 59.002, lon: 30, segment_id: 2, depth_m: 6 },
+    { timestamp: at(30), lat: 59.003, lon: 30, segment_id: 2, depth_m: 6 },
+  ],
+  t2: [
+    { timestamp: at(100), lat: 60, lon: 31, segment_id: 1 },
+    { timestamp: at(5), lat: 60, lon: 31.001, segment_id: 1 },
+  ],
+};
+
+const createIndex = (): TrackPlaybackIndex => {
+  const index = buildTrackPlaybackIndex([meta('t1', 'diver-1'), meta('t2', 'base-station'), meta('t3', null)], pointsByTrackId);
+  if (!index) throw new Error('index expected');
+  return index;
+};
+
+describe('trackPlayback', () => {
+  it('spans all timestamped tracks and sorts points by time', () => {
+    const index = createIndex();
+    expect(index.startMs).toBe(T0);
+    expect(index.endMs).toBe(T0 + 100_000);
+    expect(index.tracks.map((track) => track.trackId)).toEqual(['t1', 't2']);
+    expect(index.tracks[1].points[0].timestamp).toBe(at(5));
+    expect(buildTrackPlaybackIndex([meta('t3', null)], pointsByTrackId)).toBeNull();
+  });
+
+  it('interpolates position, depth, speed and course between points', () => {
+    const sample = sampleTrackAt(createIndex().tracks[0], T0 + 5000);
+    expect(sample).not.toBeNull();
+    expect(sample?.lat).toBeCloseTo(59.0005, 6);
+    expect(sample?.depth).toBeCloseTo(4, 6);
+    expect(sample?.speed).toBeCloseTo(2, 6);
+    // Course interpolates through north, not through 180.
+    expect(sample?.course).toBeCloseTo(0, 6);
+  });
+
+  it('hides agents outside their tracks and inside segment gaps', () => {
+    const index = createIndex();
+    expect(sampleTrackAt(index.tracks[0], T0 - 1)).toBeNull();
+    expect(sampleTrackAt(index.tracks[0], T0 + 15_000)).toBeNull();
+    expect(sampleTrackAt(index.tracks[0], T0 + 31_000)).toBeNull();
+
+    const agents = sampleAgentsAt(index, T0 + 25_000);
+    expect(Object.keys(agents).sort()).toEqual(['base-station', 'diver-1']);
+    // No SOG recorded in the second segment: speed falls back to distance over time.
+    expect(agents['diver-1'].speed).toBeCloseTo(11.1, 0);
+  });
+
+  it('splits travelled track into faded history and a bright tail ending at the current position', () => {
+    const index = createIndex();
+    const segments = buildTrackPlaybackSegments(index, T0 + 25_000, 8_000).filter((segment) => segment.trackId === 't1');
+
+    expect(segments.map((segment) => segment.opacity)).toEqual([0.3, 1]);
+    expect(segments[0].points).toEqual([[59, 30], [59.001, 30]]);
+    expect(segments[1].points).toHaveLength(2);
+    expect(segments[1].points[0]).toEqual([59.002, 30]);
+    expect(segments[1].points[1][0]).toBeCloseTo(59.0025, 9);
+  });
+});
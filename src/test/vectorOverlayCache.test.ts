@@ -29,6 +29,16 @@ const data: VectorOverlayMapData = {
       type: 'point',
       point: { lat: 59.935, lon: 30.335 },
     },
+    {
+      type: 'polygon',
+      points: [
+        { lat: 59.93, lon: 30.33 },
+        { lat: 59.94, lon: 30.33 },
+        { lat: 59.94, lon: 30.34 },
+        { lat: 59.93, lon: 30.33 },
+      ],
+      color: '#98c5f2',
+    },
   ],
 };
 
@@ -40,6 +50,28 @@ describe('vector overlay cache', () => {
     expect(parsed).toEqual(data);
   });
 
+  it('keeps layer names, colours, text labels and the drawing layer table', () => {
+    const styled: VectorOverlayMapData = {
+      ...data,
+      features: [
+        { ...data.features[0], layer: 'Кабели', color: '#ff0000' },
+        {
+          type: 'point',
+          point: { lat: 59.935, lon: 30.335 },
+          layer: 'Подписи',
+          color: null,
+          label: { text: 'Колодец 1', height: 2.5, rotation_deg: 30 },
+        },
+      ],
+      layers: [
+        { name: 'Кабели', color: '#ff0000', visible: true },
+        { name: 'Подписи', color: null, visible: false },
+      ],
+    };
+    const parsed = parseVectorOverlayCache(serializeVectorOverlayCache(sourceMeta, styled), sourceMeta);
+    expect(parsed).toEqual(styled);
+  });
+
   it('rejects cache when source metadata does not match', () => {
     const raw = serializeVectorOverlayCache(sourceMeta, data);
     const parsed = parseVectorOverlayCache(raw, {
@@ -49,6 +81,31 @@ describe('vector overlay cache', () => {
     expect(parsed).toBeNull();
   });
 
+  it('keys the cache by the overlay CRS when it replaces the UTM zone', () => {
+    const crsMeta: VectorOverlayCacheSourceMeta = {
+      file: sourceMeta.file,
+      type: sourceMeta.type,
+      fileEncoding: sourceMeta.fileEncoding,
+      crs: 'EPSG:28407',
+    };
+    const raw = serializeVectorOverlayCache(crsMeta, data);
+    expect(parseVectorOverlayCache(raw, crsMeta)).toEqual(data);
+    expect(parseVectorOverlayCache(raw, { ...crsMeta, crs: 'EPSG:20907' })).toBeNull();
+    expect(parseVectorOverlayCache(raw, sourceMeta)).toBeNull();
+  });
+
+  it('caches S-57 cells without a projection', () => {
+    const encMeta: VectorOverlayCacheSourceMeta = {
+      file: 'overlays/vectors/enc.000.b64',
+      type: 's57',
+      fileEncoding: 'base64',
+    };
+    const raw = serializeVectorOverlayCache(encMeta, data);
+    expect(JSON.parse(raw)).not.toHaveProperty('utm_zone');
+    expect(parseVectorOverlayCache(raw, encMeta)).toEqual(data);
+    expect(parseVectorOverlayCache(raw, { ...encMeta, type: 'dwg' })).toBeNull();
+  });
+
   it('rejects cache with unsupported schema version', () => {
     const raw = serializeVectorOverlayCache(sourceMeta, data);
     const doc = JSON.parse(raw) as Record<string, unknown>;
@@ -0,0 +1,235 @@
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createIndexedDbFileStore,
+  createOpfsFileStore,
+  createWebFileStore,
+  migrateLocalStorageFiles,
+  openFileStoreDb,
+  type OpfsDirectoryHandle,
+  type OpfsFileHandle,
+} from '@/platform/web/fileStore';
+
+type FakeFile = { content: string; lastModified: number };
+
+const domError = (name: string): Error => Object.assign(new Error(name), { name });
+
+type FakeDirectoryHooks = {
+  onCreateWritable?: () => void;
+  closeError?: () => Error | null;
+};
+
+/** In-memory stand-in for an OPFS directory with the handle methods the store uses. */
+const createFakeDirectory = (hooks: FakeDirectoryHooks = {}): OpfsDirectoryHandle => {
+  const directories = new Map<string, OpfsDirectoryHandle>();
+  const files = new Map<string, FakeFile>();
+
+  const fileHandle = (file: FakeFile): OpfsFileHandle => ({
+    kind: 'file',
+    getFile: async () => ({ size: file.content.length, lastModified: file.lastModified, text: async () => file.content }),
+    createWritable: async (options) => {
+      hooks.onCreateWritable?.();
+      let buffer = options?.keepExistingData ? file.content : '';
+      let cursor = 0;
+      return {
+        write: async (data) => {
+          const { position, text } =
+            typeof data === 'string' ? { position: cursor, text: data } : { position: data.position, text: data.data };
+          buffer = `${buffer.slice(0, position)}${text}${buffer.slice(position + text.length)}`;
+          cursor = position + text.length;
+        },
+        close: async () => {
+          const error = hooks.closeError?.();
+          if (error) throw error;
+          file.content = buffer;
+          file.lastModified = Date.now();
+        },
+      };
+    },
+  });
+
+  return {
+    kind: 'directory',
+    getDirectoryHandle: async (name, options) => {
+      if (files.has(name)) throw domError('TypeMismatchError');
+      const existing = directories.get(name);
+      if (existing) return existing;
+      if (!options?.create) throw domError('NotFoundError');
+      const created = createFakeDirectory(hooks);
+      directories.set(name, created);
+      return created;
+    },
+    getFileHandle: async (name, options) => {
+      if (directories.has(name)) throw domError('TypeMismatchError');
+      let file = files.get(name);
+      if (!file) {
+        if (!options?.create) throw domError('NotFoundError');
+        file = { content: '', lastModified: Date.now() };
+        files.set(name, file);
+      }
+      return fileHandle(file);
+    },
+    removeEntry: async (name) => {
+      if (!directories.delete(name) && !files.delete(name)) throw domError('NotFoundError');
+    },
+    entries: async function* () {
+      for (const [name, directory] of directories) yield [name, directory] as [string, OpfsDirectoryHandle];
+      for (const [name, file] of files) yield [name, fileHandle(file)] as [string, OpfsFileHandle];
+    },
+  };
+};
+
+describe('web file store', () => {
+  it('keeps mission files in OPFS directories with append, stat and recursive list/remove', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-06-01T10:00:00Z'));
+    const store = createOpfsFileStore(createFakeDirectory());
+
+    await store.writeText('C:/Missions/A/mission.json', '{"name":"A"}');
+    await store.appendText('C:\\Missions\\A\\tracks\\t1.csv', 'timestamp,lat,lon\n');
+    vi.setSystemTime(new Date('2024-06-01T10:05:00Z'));
+    await store.appendText('C:/Missions/A/tracks/t1.csv', '2024-06-01T10:05:00Z,60,30\n');
+    await store.writeText('/srv/missions/B/mission.json', '{}');
+
+    expect(await store.readText('C:/Missions/A/tracks/t1.csv')).toBe('timestamp,lat,lon\n2024-06-01T10:05:00Z,60,30\n');
+    expect(await store.stat('C:/Missions/A/tracks/t1.csv')).toEqual({ mtimeMs: Date.parse('2024-06-01T10:05:00Z') });
+    expect(await store.stat('C:/Missions/A/missing.csv')).toBeNull();
+    expect(await store.exists('C:/Missions/A')).toBe(true);
+    expect((await store.list('C:/Missions/')).sort()).toEqual([
+      'C:/Missions/A/mission.json',
+      'C:/Missions/A/tracks/t1.csv',
+    ]);
+    expect(await store.list('/srv/missions')).toEqual(['/srv/missions/B/mission.json']);
+
+    await store.remove('C:/Missions/A');
+    expect(await store.readText('C:/Missions/A/mission.json')).toBeNull();
+    expect(await store.list('C:/Missions')).toEqual([]);
+    vi.useRealTimers();
+  });
+
+  it('migrates planner.fs: localStorage entries once and leaves other keys alone', async () => {
+    window.localStorage.clear();
+    window.localStorage.setItem('planner.fs:C:/Missions/A/mission.json', '{"name":"A"}');
+    window.localStorage.setItem('planner.fs:C:/Missions/A/tracks/t1.csv', 'timestamp\n');
+    window.localStorage.setItem('planner.missionsDir', '"C:/Missions"');
+    const store = createOpfsFileStore(createFakeDirectory());
+
+    expect(await migrateLocalStorageFiles(store, window.localStorage)).toBe(2);
+    expect(await store.readText('C:/Missions/A/tracks/t1.csv')).toBe('timestamp\n');
+    expect(Object.keys(window.localStorage)).toEqual(['planner.missionsDir']);
+    expect(await migrateLocalStorageFiles(store, window.localStorage)).toBe(0);
+    window.localStorage.clear();
+  });
+
+  it('falls back to localStorage without OPFS and IndexedDB and keeps concurrent appends in order', async () => {
+    window.localStorage.clear();
+    const store = createWebFileStore();
+
+    await Promise.all([
+      store.appendText('C:/Missions/A/log.txt', 'a'),
+      store.appendText('C:/Missions/A/log.txt', 'b'),
+      store.appendText('C:/Missions/A/log.txt', 'c'),
+    ]);
+    await store.flush('C:/Missions/A/log.txt');
+
+    expect(window.localStorage.getItem('planner.fs:C:/Missions/A/log.txt')).toBe('abc');
+    window.localStorage.clear();
+  });
+
+  it('appends to an OPFS file through one stream until the appends are committed', async () => {
+    vi.useFakeTimers();
+    const createWritable = vi.fn();
+    const store = createOpfsFileStore(createFakeDirectory({ onCreateWritable: createWritable }));
+
+    await store.writeText('C:/Missions/A/alarms.jsonl', '{"seq":0}\n');
+    createWritable.mockClear();
+    for (let seq = 1; seq <= 50; seq += 1) {
+      await store.appendText('C:/Missions/A/alarms.jsonl', `{"seq":${seq}}\n`);
+    }
+    expect(createWritable).toHaveBeenCalledTimes(1);
+
+    await store.flush('C:/Missions/A');
+    const lines = (await store.readText('C:/Missions/A/alarms.jsonl'))?.trim().split('\n') ?? [];
+    expect(lines).toHaveLength(51);
+    expect(lines[50]).toBe('{"seq":50}');
+
+    await store.appendText('C:/Missions/A/alarms.jsonl', '{"seq":51}\n');
+    await vi.runAllTimersAsync();
+    expect(createWritable).toHaveBeenCalledTimes(2);
+    expect(await store.readText('C:/Missions/A/alarms.jsonl')).toMatch(/\{"seq":50\}\n\{"seq":51\}\n$/);
+    vi.useRealTimers();
+  });
+
+  it('reports a failed OPFS append commit on the next flush', async () => {
+    let closeError: Error | null = domError('QuotaExceededError');
+    const store = createOpfsFileStore(createFakeDirectory({ closeError: () => closeError }));
+
+    await store.appendText('C:/Missions/A/journal.jsonl', 'a\n');
+    await expect(store.flush('C:/Missions/A')).rejects.toThrow('QuotaExceededError');
+    await expect(store.flush('C:/Missions/A')).resolves.toBeUndefined();
+
+    closeError = null;
+    await store.appendText('C:/Missions/A/journal.jsonl', 'b\n');
+    await store.flush('C:/Missions/A/journal.jsonl');
+    expect(await store.readText('C:/Missions/A/journal.jsonl')).toBe('b\n');
+  });
+});
+
+describe('IndexedDB file store', () => {
+  const openStore = async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+    const db = await openFileStoreDb();
+    return { db, store: createIndexedDbFileStore(db) };
+  };
+
+  const countChunks = (db: IDBDatabase, path: string): Promise<number> =>
+    new Promise((resolve, reject) => {
+      const request = db.transaction('chunks').objectStore('chunks').index('path').count(path);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+  it('keeps files with append, stat and recursive list/remove', async () => {
+    const { db, store } = await openStore();
+
+    await store.writeText('C:/Missions/A/mission.json', '{"name":"A"}');
+    await store.appendText('C:\\Missions\\A\\tracks\\t1.csv', 'timestamp,lat,lon\n');
+    await store.appendText('C:/Missions/A/tracks/t1.csv', '2024-06-01T10:05:00Z,60,30\n');
+    await store.writeText('C:/Missions/AB/mission.json', '{}');
+
+    expect(await store.readText('C:/Missions/A/tracks/t1.csv')).toBe('timestamp,lat,lon\n2024-06-01T10:05:00Z,60,30\n');
+    expect(await store.stat('C:/Missions/A/tracks/t1.csv')).toEqual({ mtimeMs: expect.any(Number) });
+    expect(await store.exists('C:/Missions/A')).toBe(true);
+    expect((await store.list('C:/Missions/A')).sort()).toEqual(['C:/Missions/A/mission.json', 'C:/Missions/A/tracks/t1.csv']);
+
+    await store.remove('C:/Missions/A');
+    expect(await store.readText('C:/Missions/A/tracks/t1.csv')).toBeNull();
+    expect(await countChunks(db, 'C:/Missions/A/tracks/t1.csv')).toBe(0);
+    expect(await store.list('C:/Missions')).toEqual(['C:/Missions/AB/mission.json']);
+    db.close();
+    vi.unstubAllGlobals();
+  });
+
+  it('merges a file appended to more than MAX_CHUNKS_BEFORE_COMPACTION times into one chunk on read', async () => {
+    const { db, store } = await openStore();
+    const path = 'C:/Missions/A/history.jsonl';
+
+    for (let seq = 0; seq < 256; seq += 1) {
+      await store.appendText(path, `${seq}\n`);
+    }
+    await store.readText(path);
+    expect(await countChunks(db, path)).toBe(256);
+
+    await store.appendText(path, '256\n');
+    const expected = Array.from({ length: 257 }, (_, seq) => `${seq}\n`).join('');
+    expect(await store.readText(path)).toBe(expected);
+    expect(await countChunks(db, path)).toBe(1);
+
+    await store.appendText(path, '257\n');
+    expect(await store.readText(path)).toBe(`${expected}257\n`);
+    expect(await countChunks(db, path)).toBe(2);
+    db.close();
+    vi.unstubAllGlobals();
+  });
+});
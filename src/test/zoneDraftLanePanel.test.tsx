@@ -2,6 +2,7 @@ import { fireEvent, render, screen } from '@testing-library/react';
 import { describe, expect, it, vi } from 'vitest';
 
 import { ZoneDraftLanePanel } from '@/components/map/ZoneDraftLanePanel';
+import type { SurveyPatternId } from '@/features/map/model/types';
 
 const createProps = () => ({
   open: true,
@@ -12,6 +13,10 @@ const createProps = () => ({
   laneWidth: '10',
   laneBearingDeg: null as number | null,
   laneStart: null as { lat: number; lon: number } | null,
+  pattern: 'parallel' as SurveyPatternId,
+  patternLegCount: '',
+  patternLegLength: '100',
+  patternDatum: null as { lat: number; lon: number } | null,
   drawingPointsCount: 3,
   previewLanesCount: 4,
   lanePickMode: 'none' as const,
@@ -21,6 +26,9 @@ const createProps = () => ({
   onMinimizedChange: vi.fn(),
   onLaneAngleChange: vi.fn(),
   onLaneWidthChange: vi.fn(),
+  onPatternChange: vi.fn(),
+  onPatternLegCountChange: vi.fn(),
+  onPatternLegLengthChange: vi.fn(),
   onLanePickModeChange: vi.fn(),
   onCancelDraft: vi.fn(),
   onCompleteDraft: vi.fn(),
@@ -71,4 +79,20 @@ describe('ZoneDraftLanePanel', () => {
     expect(props.onIconPositionChange).toHaveBeenCalled();
     expect(props.onMinimizedChange).not.toHaveBeenCalledWith(false);
   });
+
+  it('switches parameters to the selected search pattern', () => {
+    const props = createProps();
+    const { rerender } = render(<ZoneDraftLanePanel {...props} />);
+
+    expect(screen.getByText('Выбрать старт')).toBeTruthy();
+    fireEvent.change(screen.getByTestId('zone-lane-panel-pattern'), { target: { value: 'sector' } });
+    expect(props.onPatternChange).toHaveBeenCalledWith('sector');
+
+    rerender(<ZoneDraftLanePanel {...props} pattern="sector" patternLegCount="9" />);
+    expect(screen.queryByText('Выбрать старт')).toBeNull();
+    expect(screen.getByText('Радиус (м)')).toBeTruthy();
+
+    fireEvent.click(screen.getByText('Выбрать датум'));
+    expect(props.onLanePickModeChange).toHaveBeenCalledWith('datum');
+  });
 });
@@ -1,4 +1,20 @@
-import { isConvexZonePolygon, toConvexZonePolygon } from '@/features/mission';
+import {
+  isConvexZonePolygon,
+  isSimpleZonePolygon,
+  normalizeZoneGeometry,
+  toConvexZonePolygon,
+} from '@/features/mission';
+
+const harbour = [
+  { lat: 59.934, lon: 30.335 },
+  { lat: 59.934, lon: 30.338 },
+  { lat: 59.936, lon: 30.338 },
+  { lat: 59.936, lon: 30.337 },
+  { lat: 59.935, lon: 30.337 },
+  { lat: 59.935, lon: 30.336 },
+  { lat: 59.936, lon: 30.336 },
+  { lat: 59.936, lon: 30.335 },
+];
 
 describe('isConvexZonePolygon', () => {
   it('returns true for convex quadrilateral', () => {
@@ -74,3 +90,53 @@ describe('toConvexZonePolygon', () => {
     expect(isConvexZonePolygon(result)).toBe(true);
   });
 });
+
+describe('isSimpleZonePolygon', () => {
+  it('accepts concave outlines and rejects self-intersections', () => {
+    expect(isSimpleZonePolygon(harbour)).toBe(true);
+    expect(
+      isSimpleZonePolygon([
+        { lat: 59.934, lon: 30.335 },
+        { lat: 59.935, lon: 30.336 },
+        { lat: 59.934, lon: 30.336 },
+        { lat: 59.935, lon: 30.335 },
+      ]),
+    ).toBe(false);
+    expect(
+      isSimpleZonePolygon([
+        { lat: 59.934, lon: 30.335 },
+        { lat: 59.934, lon: 30.336 },
+        { lat: 59.934, lon: 30.337 },
+      ]),
+    ).toBe(false);
+  });
+});
+
+describe('normalizeZoneGeometry', () => {
+  const pier = [
+    { lat: 59.9345, lon: 30.3355 },
+    { lat: 59.9345, lon: 30.3358 },
+    { lat: 59.9347, lon: 30.3358 },
+    { lat: 59.9347, lon: 30.3355 },
+  ];
+
+  it('keeps the drawn outline and holes inside it', () => {
+    const outside = [
+      { lat: 59.94, lon: 30.34 },
+      { lat: 59.94, lon: 30.341 },
+      { lat: 59.941, lon: 30.341 },
+    ];
+    const result = normalizeZoneGeometry({ type: 'zone', points: harbour, holes: [pier, outside] }, false);
+
+    expect(result.points).toEqual(harbour);
+    expect(result.holes).toEqual([pier]);
+  });
+
+  it('falls back to the convex hull when requested', () => {
+    const result = normalizeZoneGeometry({ type: 'zone', points: harbour, holes: [pier] }, true);
+
+    expect(result.points).toHaveLength(4);
+    expect(isConvexZonePolygon(result.points)).toBe(true);
+    expect(result.holes).toEqual([pier]);
+  });
+});
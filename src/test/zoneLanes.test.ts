@@ -81,6 +81,12 @@ describe('zone lanes state helpers', () => {
       }),
     ).toBe(true);
     expect(didZoneLaneInputsChange(zone, { laneAngle: 90 })).toBe(true);
+    expect(didZoneLaneInputsChange(zone, { zoneConvexHull: true })).toBe(true);
+    expect(didZoneLaneInputsChange(zone, { surveyPattern: 'sector' })).toBe(true);
+    expect(didZoneLaneInputsChange(zone, { surveyPattern: undefined })).toBe(false);
+    expect(didZoneLaneInputsChange(zone, { patternCourseDeg: 270 })).toBe(true);
+    expect(didZoneLaneInputsChange(zone, { patternLegCount: 6 })).toBe(true);
+    expect(didZoneLaneInputsChange(zone, { patternDatum: { lat: 59.9, lon: 30.3 } })).toBe(true);
     expect(didZoneLaneInputsChange(zone, { laneWidth: 12 })).toBe(true);
     expect(didZoneLaneInputsChange(zone, { laneBearingDeg: 120 })).toBe(true);
     expect(didZoneLaneInputsChange(zone, { laneBearingDeg: undefined })).toBe(true);
@@ -24,12 +24,30 @@ declare global {
 				readSiblingTfwTextByTifPath: (tifPath: string) => Promise<string | null>;
 				resolveLocalPathForFile: (file: File) => Promise<string | null>;
 			};
+			localTiles?: {
+				pickSource: (kind: 'mbtiles' | 'directory') => Promise<string | null>;
+				readMetadata: (
+					kind: 'mbtiles' | 'directory',
+					path: string,
+				) => Promise<{
+					name: string;
+					attribution: string;
+					format: string | null;
+					min_zoom: number | null;
+					max_zoom: number | null;
+				} | null>;
+				registerSource: (source: {
+					kind: 'mbtiles' | 'directory';
+					path: string;
+					format: string | null;
+				}) => Promise<string | null>;
+			};
 			lifecycle?: {
 				onPrepareClose: (listener: (payload: { token?: string }) => void) => () => void;
 				resolvePrepareClose: (payload: { token: string; ok: boolean; error?: string }) => void;
 			};
 			zima?: {
-				start: (config: {
+				start: (instanceId: string, config: {
 					ipAddress: string;
 					dataPort: number;
 					commandPort: number;
@@ -39,50 +57,50 @@ declare global {
 					longitude: number | null;
 					azimuth: number | null;
 				}) => Promise<unknown>;
-				stop: () => Promise<unknown>;
-				sendCommand: (command: string) => Promise<unknown>;
-				status: () => Promise<unknown>;
-				onData: (listener: (payload: { message?: string; receivedAt?: number }) => void) => () => void;
-				onStatus: (listener: (payload: { status?: string }) => void) => () => void;
-				onError: (listener: (payload: { message?: string }) => void) => () => void;
+				stop: (instanceId: string) => Promise<unknown>;
+				sendCommand: (instanceId: string, command: string) => Promise<unknown>;
+				status: (instanceId: string) => Promise<unknown>;
+				onData: (listener: (payload: { instanceId?: string; message?: string; receivedAt?: number }) => void) => () => void;
+				onStatus: (listener: (payload: { instanceId?: string; status?: string }) => void) => () => void;
+				onError: (listener: (payload: { instanceId?: string; message?: string }) => void) => () => void;
 			};
 			gnss?: {
-				start: (config: {
+				start: (instanceId: string, config: {
 					ipAddress: string;
 					dataPort: number;
 				}) => Promise<unknown>;
-				stop: () => Promise<unknown>;
-				status: () => Promise<unknown>;
-				onData: (listener: (payload: { message?: string; receivedAt?: number }) => void) => () => void;
-				onStatus: (listener: (payload: { status?: string }) => void) => () => void;
-				onError: (listener: (payload: { message?: string }) => void) => () => void;
+				stop: (instanceId: string) => Promise<unknown>;
+				status: (instanceId: string) => Promise<unknown>;
+				onData: (listener: (payload: { instanceId?: string; message?: string; receivedAt?: number }) => void) => () => void;
+				onStatus: (listener: (payload: { instanceId?: string; status?: string }) => void) => () => void;
+				onError: (listener: (payload: { instanceId?: string; message?: string }) => void) => () => void;
 			};
 			gnssCom?: {
-				start: (config: {
+				start: (instanceId: string, config: {
 					autoDetectPort: boolean;
 					comPort: string;
 					baudRate: number;
 				}) => Promise<unknown>;
-				stop: () => Promise<unknown>;
-				status: () => Promise<unknown>;
+				stop: (instanceId: string) => Promise<unknown>;
+				status: (instanceId: string) => Promise<unknown>;
 				listPorts: () => Promise<Array<{ path?: string } | string>>;
-				onData: (listener: (payload: { message?: string; receivedAt?: number; portPath?: string }) => void) => () => void;
-				onStatus: (listener: (payload: { status?: string }) => void) => () => void;
-				onError: (listener: (payload: { message?: string }) => void) => () => void;
+				onData: (listener: (payload: { instanceId?: string; message?: string; receivedAt?: number; portPath?: string }) => void) => () => void;
+				onStatus: (listener: (payload: { instanceId?: string; status?: string }) => void) => () => void;
+				onError: (listener: (payload: { instanceId?: string; message?: string }) => void) => () => void;
 			};
 			rwltCom?: {
-				start: (config: {
+				start: (instanceId: string, config: {
 					autoDetectPort: boolean;
 					comPort: string;
 					baudRate: number;
 					mode: 'pinger' | 'divers';
 				}) => Promise<unknown>;
-				stop: () => Promise<unknown>;
-				status: () => Promise<unknown>;
+				stop: (instanceId: string) => Promise<unknown>;
+				status: (instanceId: string) => Promise<unknown>;
 				listPorts: () => Promise<Array<{ path?: string } | string>>;
-				onData: (listener: (payload: { message?: string; receivedAt?: number; portPath?: string }) => void) => () => void;
-				onStatus: (listener: (payload: { status?: string }) => void) => () => void;
-				onError: (listener: (payload: { message?: string }) => void) => () => void;
+				onData: (listener: (payload: { instanceId?: string; message?: string; receivedAt?: number; portPath?: string }) => void) => () => void;
+				onStatus: (listener: (payload: { instanceId?: string; status?: string }) => void) => () => void;
+				onError: (listener: (payload: { instanceId?: string; message?: string }) => void) => () => void;
 			};
 		};
 	}